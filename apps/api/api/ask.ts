@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: Ask
+ * 
+ * POST /api/ask (streams Server-Sent Events)
+ */
+
+export { POST } from '../src/routes/ask/ask';
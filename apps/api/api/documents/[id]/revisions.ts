@@ -0,0 +1,30 @@
+/**
+ * Vercel/Netlify Serverless Function: Content Revisions
+ * 
+ * GET /api/documents/:id/revisions
+ * POST /api/documents/:id/revisions/:revisionId/restore
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { GET as listHandler } from '../../../src/routes/documents/revisions-list';
+import { POST as restoreHandler } from '../../../src/routes/documents/revision-restore';
+
+export async function GET(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const handlerContext = { params: { id } };
+  return listHandler(request, handlerContext);
+}
+
+export async function POST(request: Request, context?: { params?: { id?: string; revisionId?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const revisionIndex = pathParts.indexOf('revisions') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const revisionId = context?.params?.revisionId || pathParts[revisionIndex];
+  return restoreHandler(request, { params: { id, revisionId } });
+}
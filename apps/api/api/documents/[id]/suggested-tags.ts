@@ -0,0 +1,20 @@
+/**
+ * Vercel/Netlify Serverless Function: Reject Suggested Tag
+ * 
+ * DELETE /api/documents/:id/suggested-tags/:name
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ * The tag name is URL-encoded in the path.
+ */
+
+import { DELETE as rejectHandler } from '../../../src/routes/documents/suggested-tags';
+
+export async function DELETE(request: Request, context?: { params?: { id?: string; name?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const nameIndex = pathParts.indexOf('suggested-tags') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const name = context?.params?.name || decodeURIComponent(pathParts[nameIndex] || '');
+  return rejectHandler(request, { params: { id, name } });
+}
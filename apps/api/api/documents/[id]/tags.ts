@@ -0,0 +1,37 @@
+/**
+ * Vercel/Netlify Serverless Function: Document Tags
+ * 
+ * GET /api/documents/:id/tags
+ * POST /api/documents/:id/tags
+ * DELETE /api/documents/:id/tags/:tagId
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { GET as getHandler, POST as addHandler, DELETE as removeHandler } from '../../../src/routes/documents/tags';
+
+export async function GET(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return getHandler(request, { params: { id } });
+}
+
+export async function POST(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return addHandler(request, { params: { id } });
+}
+
+export async function DELETE(request: Request, context?: { params?: { id?: string; tagId?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const tagIndex = pathParts.indexOf('tags') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const tagId = context?.params?.tagId || pathParts[tagIndex];
+  return removeHandler(request, { params: { id, tagId } });
+}
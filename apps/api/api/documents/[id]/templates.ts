@@ -0,0 +1,36 @@
+/**
+ * Vercel/Netlify Serverless Function: Document Templates
+ * 
+ * GET /api/documents/:id/templates
+ * PUT /api/documents/:id/templates
+ * POST /api/documents/:id/templates/run
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { GET as getHandler, PUT as setHandler } from '../../../src/routes/documents/templates';
+import { POST as runHandler } from '../../../src/routes/documents/templates-run';
+
+export async function GET(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return getHandler(request, { params: { id } });
+}
+
+export async function PUT(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return setHandler(request, { params: { id } });
+}
+
+export async function POST(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return runHandler(request, { params: { id } });
+}
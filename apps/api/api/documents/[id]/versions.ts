@@ -0,0 +1,36 @@
+/**
+ * Vercel/Netlify Serverless Function: Document Versions
+ * 
+ * GET /api/documents/:id/versions
+ * GET /api/documents/:id/versions/:version
+ * POST /api/documents/:id/versions
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { GET as listHandler } from '../../../src/routes/documents/versions-list';
+import { GET as getHandler } from '../../../src/routes/documents/version-get';
+import { POST as uploadHandler } from '../../../src/routes/documents/versions';
+
+export async function GET(request: Request, context?: { params?: { id?: string; version?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const versionIndex = pathParts.indexOf('versions') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const version = context?.params?.version || pathParts[versionIndex];
+
+  if (version) {
+    return getHandler(request, { params: { id, version } });
+  }
+  return listHandler(request, { params: { id } });
+}
+
+export async function POST(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('documents') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const handlerContext = { params: { id } };
+  return uploadHandler(request, handlerContext);
+}
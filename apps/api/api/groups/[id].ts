@@ -1,6 +1,7 @@
 /**
- * Vercel/Netlify Serverless Function: Delete Group
+ * Vercel/Netlify Serverless Function: Update and Delete Group
  * 
+ * PATCH /api/groups/:id
  * DELETE /api/groups/:id
  * 
  * Note: Vercel/Netlify extract params from the URL path automatically.
@@ -8,6 +9,15 @@
  */
 
 import { DELETE as deleteHandler } from '../../src/routes/groups/delete';
+import { PATCH as updateHandler } from '../../src/routes/groups/update';
+
+export async function PATCH(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('groups') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return updateHandler(request, { params: { id } });
+}
 
 export async function DELETE(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
   // Extract ID from URL path for Vercel/Netlify
@@ -0,0 +1,26 @@
+/**
+ * Vercel/Netlify Serverless Function: Group Templates
+ * 
+ * GET /api/groups/:id/templates
+ * PUT /api/groups/:id/templates
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { GET as getHandler, PUT as setHandler } from '../../../src/routes/groups/templates';
+
+export async function GET(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('groups') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return getHandler(request, { params: { id } });
+}
+
+export async function PUT(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('groups') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return setHandler(request, { params: { id } });
+}
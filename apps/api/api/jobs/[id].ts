@@ -0,0 +1,23 @@
+/**
+ * Vercel/Netlify Serverless Function: Get Job by ID
+ * 
+ * GET /api/jobs/:id
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ * The route handler expects { params: { id: string } }.
+ */
+
+import { GET as getHandler } from '../../src/routes/jobs/get';
+
+export async function GET(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  // Extract ID from URL path for Vercel/Netlify
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('jobs') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+
+  // Create a mock context with params for the handler
+  const handlerContext = { params: { id } };
+  
+  return getHandler(request, handlerContext);
+}
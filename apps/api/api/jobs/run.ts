@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: Run Job Worker
+ * 
+ * GET/POST /api/jobs/run (invoked by Vercel Cron)
+ */
+
+export { GET, POST } from '../../src/routes/jobs/run';
@@ -0,0 +1,28 @@
+/**
+ * Vercel/Netlify Serverless Function: Update and Delete Tag
+ * 
+ * PATCH /api/tags/:id
+ * DELETE /api/tags/:id
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ * The route handler expects { params: { id: string } }.
+ */
+
+import { PATCH as updateHandler } from '../../src/routes/tags/update';
+import { DELETE as deleteHandler } from '../../src/routes/tags/delete';
+
+export async function PATCH(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('tags') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return updateHandler(request, { params: { id } });
+}
+
+export async function DELETE(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('tags') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return deleteHandler(request, { params: { id } });
+}
@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: Create Tag
+ * 
+ * POST /api/tags
+ */
+
+export { POST } from '../../src/routes/tags/create';
@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: List Tags
+ * 
+ * GET /api/tags
+ */
+
+export { GET } from '../../src/routes/tags/list';
@@ -0,0 +1,28 @@
+/**
+ * Vercel/Netlify Serverless Function: Update and Delete Template
+ * 
+ * PATCH /api/templates/:id
+ * DELETE /api/templates/:id
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ * The route handler expects { params: { id: string } }.
+ */
+
+import { PATCH as updateHandler } from '../../src/routes/templates/update';
+import { DELETE as deleteHandler } from '../../src/routes/templates/delete';
+
+export async function PATCH(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('templates') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return updateHandler(request, { params: { id } });
+}
+
+export async function DELETE(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('templates') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  return deleteHandler(request, { params: { id } });
+}
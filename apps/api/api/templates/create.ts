@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: Create Template
+ * 
+ * POST /api/templates
+ */
+
+export { POST } from '../../src/routes/templates/create';
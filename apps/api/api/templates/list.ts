@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: List Templates
+ * 
+ * GET /api/templates
+ */
+
+export { GET } from '../../src/routes/templates/list';
@@ -0,0 +1,30 @@
+/**
+ * Vercel/Netlify Serverless Function: Get/Cancel Upload Session
+ * 
+ * GET /api/uploads/:id
+ * DELETE /api/uploads/:id
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ * The route handlers expect { params: { id: string } }.
+ */
+
+import { GET as getHandler } from '../../src/routes/uploads/get';
+import { DELETE as cancelHandler } from '../../src/routes/uploads/cancel';
+
+export async function GET(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('uploads') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const handlerContext = { params: { id } };
+  return getHandler(request, handlerContext);
+}
+
+export async function DELETE(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('uploads') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const handlerContext = { params: { id } };
+  return cancelHandler(request, handlerContext);
+}
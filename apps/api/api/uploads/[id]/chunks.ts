@@ -0,0 +1,20 @@
+/**
+ * Vercel/Netlify Serverless Function: Upload Chunk
+ * 
+ * PUT /api/uploads/:id/chunks/:index
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { PUT as chunkHandler } from '../../../src/routes/uploads/chunk';
+
+export async function PUT(request: Request, context?: { params?: { id?: string; index?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('uploads') + 1;
+  const chunkIndex = pathParts.indexOf('chunks') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const index = context?.params?.index || pathParts[chunkIndex];
+  const handlerContext = { params: { id, index } };
+  return chunkHandler(request, handlerContext);
+}
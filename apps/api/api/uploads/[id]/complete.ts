@@ -0,0 +1,18 @@
+/**
+ * Vercel/Netlify Serverless Function: Complete Upload Session
+ * 
+ * POST /api/uploads/:id/complete
+ * 
+ * Note: Vercel/Netlify extract params from the URL path automatically.
+ */
+
+import { POST as completeHandler } from '../../../src/routes/uploads/complete';
+
+export async function POST(request: Request, context?: { params?: { id?: string } }): Promise<Response> {
+  const url = new URL(request.url);
+  const pathParts = url.pathname.split('/');
+  const idIndex = pathParts.indexOf('uploads') + 1;
+  const id = context?.params?.id || pathParts[idIndex];
+  const handlerContext = { params: { id } };
+  return completeHandler(request, handlerContext);
+}
@@ -0,0 +1,7 @@
+/**
+ * Vercel/Netlify Serverless Function: Create Upload Session
+ * 
+ * POST /api/uploads
+ */
+
+export { POST } from '../../src/routes/uploads/create';
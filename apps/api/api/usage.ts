@@ -0,0 +1,8 @@
+/**
+ * Vercel/Netlify Serverless Function: AI Usage
+ * 
+ * GET /api/usage?month=YYYY-MM
+ * GET /api/usage?document_id=...
+ */
+
+export { GET } from '../src/routes/usage/get';
@@ -0,0 +1,266 @@
+/**
+ * Anthropic AI Provider
+ * 
+ * Claude models through the Anthropic API. Structured output uses tool
+ * use: the model answers by calling a tool whose input schema is the
+ * output schema.
+ * 
+ * Environment:
+ * - ANTHROPIC_API_KEY (required)
+ * - AI_MODEL / AI_MODEL_<TASK> (default claude-sonnet-4-20250514)
+ * - EMBEDDING_PROVIDER, for embeddings (Anthropic has no embeddings API)
+ */
+
+import Anthropic from '@anthropic-ai/sdk';
+import type { ToolsBetaMessageParam, ToolUseBlock } from '@anthropic-ai/sdk/resources/beta/tools/messages';
+import { ProcessingStage } from '@ai-document-vault/shared';
+import { getEmbeddingProvider } from '../embeddings/provider';
+import { ProcessingError } from './errors';
+import { checkStructuredOutput } from './output-schema';
+import { modelForTask } from './provider';
+import type { AIProvider, CompletionRequest, StructuredOutputRequest } from './provider';
+
+const DEFAULT_MODEL = 'claude-sonnet-4-20250514';
+
+/**
+ * Invalid replies sent back to the model for correction before giving up
+ */
+const MAX_REPAIR_ATTEMPTS = 1;
+
+let claudeClient: Anthropic | null = null;
+
+/**
+ * @throws ProcessingError (AI_AUTH_FAILED) when ANTHROPIC_API_KEY is not set
+ */
+function getClaudeClient(): Anthropic {
+  if (!claudeClient) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey || apiKey.trim().length === 0) {
+      throw new ProcessingError(
+        'AI_AUTH_FAILED',
+        'ANTHROPIC_API_KEY is not configured. Set it in .env.local, or set AI_PROVIDER=fake to run without it.',
+        ProcessingStage.AI
+      );
+    }
+    claudeClient = new Anthropic({ apiKey });
+  }
+  return claudeClient;
+}
+
+/**
+ * Map a failed Claude API call to a ProcessingError with a user-facing message
+ */
+function toAIServiceError(apiError: unknown, model: string, requestId: string): ProcessingError {
+  // Enhanced error handling for API failures
+  const errorMessage = apiError instanceof Error ? apiError.message : String(apiError);
+  console.error(`[Claude ${requestId}] Claude API call failed:`, {
+    error: errorMessage,
+    model,
+    timestamp: new Date().toISOString(),
+  });
+
+  // Check for specific error types
+  if (errorMessage.includes('api_key') || errorMessage.includes('authentication')) {
+    return new ProcessingError('AI_AUTH_FAILED', 'AI service authentication failed. Please check API configuration.', ProcessingStage.AI);
+  }
+  if (errorMessage.includes('rate_limit') || errorMessage.includes('429')) {
+    return new ProcessingError('AI_RATE_LIMITED', 'AI service rate limit exceeded. Please try again later.', ProcessingStage.AI);
+  }
+  if (errorMessage.includes('timeout') || errorMessage.includes('network')) {
+    return new ProcessingError('AI_NETWORK_ERROR', 'AI service network error. Please try again.', ProcessingStage.AI);
+  }
+
+  return new ProcessingError('AI_FAILED', `AI processing failed: ${errorMessage}`, ProcessingStage.AI);
+}
+
+
+/**
+ * Send a single prompt to Claude and return the text response
+ * 
+ * Maps API failures to ProcessingErrors with user-facing messages.
+ */
+async function requestCompletion(request: CompletionRequest): Promise<{ text: string; model: string }> {
+  const { requestId } = request;
+  const model = modelForTask(request.task, DEFAULT_MODEL);
+  const client = getClaudeClient();
+  let message;
+  try {
+    message = await client.messages.create({
+      model,
+      max_tokens: request.maxTokens,
+      ...(request.system ? { system: request.system } : {}),
+      messages: [
+        {
+          role: 'user',
+          content: request.prompt,
+        },
+      ],
+    });
+  } catch (apiError: unknown) {
+    throw toAIServiceError(apiError, model, requestId);
+  }
+
+  request.onUsage?.({ model, inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens });
+
+  console.log(`[Claude ${requestId}] Received response from Claude API`, {
+    contentType: message.content[0]?.type,
+    contentLength: message.content[0]?.type === 'text' ? message.content[0].text.length : 0,
+    usage: message.usage,
+  });
+
+  // Extract content from response
+  const responseText =
+    message.content[0]?.type === 'text'
+      ? message.content[0].text
+      : '';
+
+  if (!responseText || responseText.trim().length === 0) {
+    console.error(`[Claude ${requestId}] Empty response from Claude API`);
+    throw new ProcessingError('AI_EMPTY_RESPONSE', 'AI service returned empty response. Please try again.', ProcessingStage.AI);
+  }
+
+  console.log(`[Claude ${requestId}] Response text preview: ${responseText.substring(0, 200)}...`);
+  return { text: responseText, model };
+}
+
+
+/**
+ * Send a prompt that the model answers by calling a tool
+ * 
+ * The tool's input is validated against the tool's schema. An invalid
+ * reply, or one without the tool call, is sent back with the problem for
+ * one repair attempt.
+ * 
+ * @returns The validated tool input, and the model that produced it
+ * @throws ProcessingError when the API call fails or the reply is still
+ *   invalid after the repair attempt
+ */
+async function requestStructuredOutput<T>(request: StructuredOutputRequest<T>): Promise<{ output: T; model: string }> {
+  const { tool, requestId } = request;
+  const model = modelForTask(request.task, DEFAULT_MODEL);
+  const client = getClaudeClient();
+  const messages: ToolsBetaMessageParam[] = [{ role: 'user', content: request.prompt }];
+
+  for (let attempt = 0; ; attempt++) {
+    let message;
+    try {
+      message = await client.beta.tools.messages.create({
+        model,
+        max_tokens: request.maxTokens,
+        tools: [
+          {
+            name: tool.name,
+            description: tool.description,
+            input_schema: { ...tool.schema, type: 'object' },
+          },
+        ],
+        messages,
+      });
+    } catch (apiError: unknown) {
+      throw toAIServiceError(apiError, model, requestId);
+    }
+
+    request.onUsage?.({ model, inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens });
+
+    console.log(`[Claude ${requestId}] Received structured response from Claude API`, {
+      tool: tool.name,
+      attempt: attempt + 1,
+      stopReason: message.stop_reason,
+      usage: message.usage,
+    });
+
+    if (message.stop_reason === 'max_tokens') {
+      // A cut-off reply can't be repaired by asking again, and asking for
+      // the same output again would be cut off the same way
+      console.error(`[Claude ${requestId}] Response hit the ${request.maxTokens}-token limit`);
+      throw new ProcessingError(
+        'AI_OUTPUT_TRUNCATED',
+        `AI response exceeded its ${request.maxTokens}-token output limit and was cut off.`,
+        ProcessingStage.AI
+      );
+    }
+
+    const toolUses = message.content.filter(
+      (block): block is ToolUseBlock => block.type === 'tool_use'
+    );
+    const toolUse = toolUses.find((block) => block.name === tool.name);
+
+    let problem: string;
+    if (!toolUse) {
+      problem = `the reply did not call the ${tool.name} tool`;
+    } else {
+      const checked = checkStructuredOutput(toolUse.input, tool.schema, request.check);
+      if ('output' in checked) {
+        return { output: checked.output, model };
+      }
+      problem = checked.error;
+    }
+
+    console.warn(`[Claude ${requestId}] Invalid ${tool.name} response (attempt ${attempt + 1}): ${problem}`);
+    if (attempt >= MAX_REPAIR_ATTEMPTS) {
+      throw new ProcessingError('AI_INVALID_RESPONSE', `AI service returned an invalid response: ${problem}`, ProcessingStage.AI);
+    }
+
+    // Every tool call needs a result, so the correction is sent as one
+    messages.push({ role: 'assistant', content: message.content });
+    messages.push({
+      role: 'user',
+      content: toolUses.length > 0
+        ? toolUses.map((block) => ({
+            type: 'tool_result' as const,
+            tool_use_id: block.id,
+            is_error: true,
+            content: [{ type: 'text' as const, text: `Invalid input: ${problem}. Call ${tool.name} again with corrected input.` }],
+          }))
+        : `Your reply must call the ${tool.name} tool. Call it now with the complete result.`,
+    });
+  }
+}
+
+
+/**
+ * Stream a completion's text as it is generated
+ */
+async function* streamCompletion(request: CompletionRequest): AsyncGenerator<string> {
+  const model = modelForTask(request.task, DEFAULT_MODEL);
+  const stream = getClaudeClient().messages.stream({
+    model,
+    max_tokens: request.maxTokens,
+    ...(request.system ? { system: request.system } : {}),
+    messages: [
+      {
+        role: 'user',
+        content: request.prompt,
+      },
+    ],
+  });
+
+  for await (const event of stream) {
+    if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+      yield event.delta.text;
+    }
+  }
+
+  const finalMessage = await stream.finalMessage();
+  request.onUsage?.({ model, inputTokens: finalMessage.usage.input_tokens, outputTokens: finalMessage.usage.output_tokens });
+  console.log(`[Claude ${request.requestId}] Stream complete`, { model, usage: finalMessage.usage });
+}
+
+/**
+ * Create the Anthropic provider
+ * 
+ * The API key is checked on the first request, so the provider can be
+ * created (e.g. for its embeddings) without one.
+ */
+export function createAnthropicProvider(): AIProvider {
+  return {
+    name: 'anthropic',
+    modelFor: (task) => modelForTask(task, DEFAULT_MODEL),
+    complete: requestCompletion,
+    streamCompletion,
+    completeStructured: requestStructuredOutput,
+    get embeddings() {
+      return getEmbeddingProvider();
+    },
+  };
+}
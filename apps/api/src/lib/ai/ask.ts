@@ -0,0 +1,135 @@
+/**
+ * Ask Your Vault
+ * 
+ * Question answering over a user's documents:
+ * 1. Embed the question and retrieve the closest markdown passages
+ *    (optionally scoped to one document or one group)
+ * 2. Number the passages and ask Claude to answer using only them,
+ *    citing each claim inline as [n]
+ * 3. Stream the answer text back as it is generated
+ * 
+ * Assumptions:
+ * - Only READY documents with embeddings are searched
+ * - Citations are the retrieved passages; the answer decides which to cite
+ */
+
+import type { AskCitation } from '@ai-document-vault/shared';
+import { supabaseAdmin } from '../supabase';
+import { embedQuery } from '../embeddings';
+import { getAIProvider } from './provider';
+import type { UsageListener } from './provider';
+
+const ASK_PASSAGE_LIMIT = 8;
+const ASK_MAX_TOKENS = 1024;
+
+/**
+ * Restrict retrieval to a single document or group
+ */
+export interface AskScope {
+  documentId?: string | null;
+  groupId?: string | null;
+}
+
+/**
+ * Row returned by the match_document_passages database function
+ */
+interface PassageRow {
+  document_id: string;
+  document_name: string;
+  chunk_index: number;
+  content: string;
+  start_offset: number | null;
+  end_offset: number | null;
+  similarity: number;
+}
+
+const SYSTEM_PROMPT = `You answer questions about the user's documents using only the numbered passages provided.
+
+Rules:
+- Cite every factual statement with the passage number in square brackets, e.g. [1] or [2][3].
+- Only cite passages that support the statement.
+- If the passages do not contain the answer, say so plainly instead of guessing.
+- Be concise. Use Markdown for lists when helpful.`;
+
+/**
+ * Retrieve the passages most relevant to a question
+ * 
+ * @param userId - Owner whose documents are searched
+ * @param question - Natural-language question
+ * @param scope - Optional document or group restriction
+ * @returns Numbered citations, best match first (empty when nothing matched)
+ * @throws Error if the database query fails
+ */
+export async function retrievePassages(
+  userId: string,
+  question: string,
+  scope: AskScope = {}
+): Promise<AskCitation[]> {
+  const embedding = await embedQuery(question);
+  if (!embedding) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('match_document_passages', {
+    p_user_id: userId,
+    p_embedding: embedding.vector,
+    p_embedding_model: embedding.model,
+    p_document_id: scope.documentId || null,
+    p_group_id: scope.groupId || null,
+    p_limit: ASK_PASSAGE_LIMIT,
+  });
+
+  if (error) {
+    throw new Error(`Failed to retrieve passages: ${error.message}`);
+  }
+
+  return ((data || []) as PassageRow[]).map((row, index) => ({
+    index: index + 1,
+    document_id: row.document_id,
+    document_name: row.document_name,
+    start_offset: row.start_offset,
+    end_offset: row.end_offset,
+    excerpt: row.content,
+  }));
+}
+
+/**
+ * Build the user prompt with numbered passages
+ */
+function buildAskPrompt(question: string, citations: AskCitation[]): string {
+  const passages = citations
+    .map((citation) => `[${citation.index}] (from "${citation.document_name}")\n${citation.excerpt}`)
+    .join('\n\n---\n\n');
+
+  return `Passages:\n\n${passages}\n\nQuestion: ${question}`;
+}
+
+/**
+ * Stream an answer to a question, citing the given passages
+ * 
+ * @param question - Natural-language question
+ * @param citations - Passages from retrievePassages (must be non-empty)
+ * @param requestId - Request identifier for logging
+ * @param onUsage - Receives the usage of the AI call once the answer is complete
+ * @returns Async iterator of answer text fragments
+ */
+export async function* streamAnswer(
+  question: string,
+  citations: AskCitation[],
+  requestId: string,
+  onUsage?: UsageListener
+): AsyncGenerator<string> {
+  const provider = getAIProvider();
+  console.log(`[Ask ${requestId}] Streaming answer from ${provider.modelFor('answer')} with ${citations.length} passages`);
+
+  yield* provider.streamCompletion({
+    task: 'answer',
+    prompt: buildAskPrompt(question, citations),
+    system: SYSTEM_PROMPT,
+    maxTokens: ASK_MAX_TOKENS,
+    requestId,
+    onUsage,
+  });
+
+  console.log(`[Ask ${requestId}] Answer complete`);
+}
@@ -0,0 +1,84 @@
+/**
+ * Chunk Checkpoints
+ * 
+ * Stores the result of every converted map-reduce chunk (see the
+ * processing_checkpoints migration), so a job stopped mid-document resumes
+ * where it stopped instead of converting and billing every chunk again.
+ * 
+ * Assumptions:
+ * - A checkpoint is only reused for the same model and prompt (same text,
+ *   position and task)
+ * - Loading and saving never throw: without a checkpoint the chunk is just
+ *   converted again
+ */
+
+import { createHash } from 'crypto';
+import type { DocumentMetadata } from '@ai-document-vault/shared';
+import { supabaseAdmin } from '../supabase';
+
+/**
+ * Result of converting a document, or one part of it
+ */
+export interface DocumentSection {
+  summary: string;
+  markdown: string;
+  metadata: DocumentMetadata | null;
+}
+
+/**
+ * Checkpoints of one document's chunks
+ */
+export interface ChunkCheckpoints {
+  load(model: string, prompt: string): Promise<DocumentSection | null>;
+  save(model: string, prompt: string, section: DocumentSection): Promise<void>;
+}
+
+function requestHash(model: string, prompt: string): string {
+  return createHash('sha256').update(model).update('\0').update(prompt).digest('hex');
+}
+
+/**
+ * Create the checkpoint store for a document
+ */
+export function createChunkCheckpoints(documentId: string): ChunkCheckpoints {
+  return {
+    async load(model, prompt) {
+      const { data, error } = await supabaseAdmin
+        .from('processing_checkpoints')
+        .select('summary, markdown, metadata')
+        .eq('document_id', documentId)
+        .eq('request_hash', requestHash(model, prompt))
+        .maybeSingle();
+
+      if (error) {
+        console.warn(`[Checkpoints] Failed to load a checkpoint for document ${documentId}:`, error.message);
+        return null;
+      }
+      return data ? (data as DocumentSection) : null;
+    },
+
+    async save(model, prompt, section) {
+      const { error } = await supabaseAdmin.from('processing_checkpoints').upsert({
+        document_id: documentId,
+        request_hash: requestHash(model, prompt),
+        summary: section.summary,
+        markdown: section.markdown,
+        metadata: section.metadata,
+      });
+
+      if (error) {
+        console.warn(`[Checkpoints] Failed to save a checkpoint for document ${documentId}:`, error.message);
+      }
+    },
+  };
+}
+
+/**
+ * Delete a document's checkpoints once its results are saved
+ */
+export async function clearChunkCheckpoints(documentId: string): Promise<void> {
+  const { error } = await supabaseAdmin.from('processing_checkpoints').delete().eq('document_id', documentId);
+  if (error) {
+    console.warn(`[Checkpoints] Failed to clear checkpoints for document ${documentId}:`, error.message);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * Document Chunking
+ * 
+ * Splits long extracted text into chunks that fit comfortably in a single
+ * model request, so documents can be processed map-reduce style instead of
+ * being truncated.
+ * 
+ * Also splits text into passages with their character offsets, so
+ * retrieved passages can be cited and located in the original text.
+ * 
+ * Assumptions:
+ * - Paragraph boundaries (blank lines) are the preferred split points
+ * - Oversized paragraphs fall back to line boundaries, then hard cuts
+ * - Chunk order matches document order
+ */
+
+/**
+ * Split text into ordered chunks of at most `maxChunkChars` characters
+ * 
+ * @param content - Full extracted text
+ * @param maxChunkChars - Maximum characters per chunk
+ * @returns Chunks in document order (empty array for blank content)
+ */
+export function splitIntoChunks(content: string, maxChunkChars: number): string[] {
+  if (maxChunkChars <= 0) {
+    throw new Error('maxChunkChars must be positive');
+  }
+
+  if (content.trim().length === 0) {
+    return [];
+  }
+
+  if (content.length <= maxChunkChars) {
+    return [content];
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    if (current.trim().length > 0) {
+      chunks.push(current.trim());
+    }
+    current = '';
+  };
+
+  const append = (piece: string, separator: string) => {
+    if (current.length === 0) {
+      current = piece;
+    } else if (current.length + separator.length + piece.length <= maxChunkChars) {
+      current += separator + piece;
+    } else {
+      flush();
+      current = piece;
+    }
+  };
+
+  for (const paragraph of content.split(/\n{2,}/)) {
+    if (paragraph.length <= maxChunkChars) {
+      append(paragraph, '\n\n');
+      continue;
+    }
+
+    // Paragraph is too large on its own: split by lines, then hard-cut
+    for (const line of paragraph.split('\n')) {
+      if (line.length <= maxChunkChars) {
+        append(line, '\n');
+        continue;
+      }
+      for (let offset = 0; offset < line.length; offset += maxChunkChars) {
+        append(line.substring(offset, offset + maxChunkChars), offset === 0 ? '\n' : '');
+      }
+    }
+  }
+
+  flush();
+  return chunks;
+}
+
+/**
+ * A passage of text and its position in the source
+ */
+export interface TextSpan {
+  text: string; // Exactly content.slice(start, end)
+  start: number; // Inclusive character offset
+  end: number; // Exclusive character offset
+}
+
+/**
+ * Split text into ordered passages of at most `maxChars` characters,
+ * keeping each passage an exact slice of the input
+ * 
+ * Uses the same boundaries as splitIntoChunks: paragraphs are merged up to
+ * the limit, oversized paragraphs are split by line, then hard-cut.
+ * 
+ * @param content - Full text
+ * @param maxChars - Maximum characters per passage
+ * @returns Passages in document order (whitespace-only text is skipped)
+ */
+export function splitIntoSpans(content: string, maxChars: number): TextSpan[] {
+  if (maxChars <= 0) {
+    throw new Error('maxChars must be positive');
+  }
+
+  // Paragraph and line pieces as [start, end) ranges, trimmed of surrounding whitespace
+  const pieces: Array<[number, number]> = [];
+  const addPiece = (start: number, end: number) => {
+    while (start < end && /\s/.test(content[start])) start++;
+    while (end > start && /\s/.test(content[end - 1])) end--;
+    if (end > start) {
+      pieces.push([start, end]);
+    }
+  };
+
+  const paragraphPattern = /[^]+?(?:\n{2,}|$)/g;
+  for (const match of content.matchAll(paragraphPattern)) {
+    const start = match.index ?? 0;
+    const end = start + match[0].length;
+    if (end - start <= maxChars) {
+      addPiece(start, end);
+      continue;
+    }
+
+    // Paragraph is too large on its own: split by lines, then hard-cut
+    let lineStart = start;
+    while (lineStart < end) {
+      const newline = content.indexOf('\n', lineStart);
+      const lineEnd = newline === -1 || newline >= end ? end : newline + 1;
+      for (let offset = lineStart; offset < lineEnd; offset += maxChars) {
+        addPiece(offset, Math.min(offset + maxChars, lineEnd));
+      }
+      lineStart = lineEnd;
+    }
+  }
+
+  // Merge consecutive pieces while the combined slice fits
+  const spans: TextSpan[] = [];
+  let current: [number, number] | null = null;
+  for (const [start, end] of pieces) {
+    if (current && end - current[0] <= maxChars) {
+      current[1] = end;
+      continue;
+    }
+    if (current) {
+      spans.push({ text: content.slice(current[0], current[1]), start: current[0], end: current[1] });
+    }
+    current = [start, end];
+  }
+  if (current) {
+    spans.push({ text: content.slice(current[0], current[1]), start: current[0], end: current[1] });
+  }
+
+  return spans;
+}
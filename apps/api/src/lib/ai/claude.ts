@@ -1,186 +1,371 @@
-import Anthropic from '@anthropic-ai/sdk';
-
-function getAnthropicApiKey(): string {
-  const key = process.env.ANTHROPIC_API_KEY;
-  if (!key) {
-    throw new Error(
-      'ANTHROPIC_API_KEY environment variable is not set. ' +
-      'Please configure it in your .env.local file.'
-    );
-  }
-  return key;
-}
-
-let claudeClient: Anthropic | null = null;
-function getClaudeClient(): Anthropic {
-  if (!claudeClient) {
-    claudeClient = new Anthropic({
-      apiKey: getAnthropicApiKey(),
-    });
-  }
-  return claudeClient;
-}
+import { ProcessingCoverage, ProcessingStage } from '@ai-document-vault/shared';
+import type { DocumentMetadata, TemplateSchema } from '@ai-document-vault/shared';
+import { ProcessingError, toProcessingError } from './errors';
+import { splitIntoChunks } from './chunking';
+import { estimateProcessingCost, selectProcessingStrategy } from './cost-estimation';
+import { metadataInstructions, parseDocumentMetadata, mergeDocumentMetadata } from './metadata';
+import { getAIProvider } from './provider';
+import { JobInterruptedError } from '../jobs/errors';
+import { TEMPLATE_TOOL_NAME } from '../templates/prompt';
+import type { AIProvider, AITask, StructuredOutputTool, UsageListener } from './provider';
+import type { ProcessingStrategy } from './cost-estimation';
+import type { ChunkCheckpoints, DocumentSection } from './checkpoints';
 
 export interface AIProcessingResult {
   summary: string;
   markdown: string;
+  metadata: DocumentMetadata | null; // null when the response had no usable metadata
   model: string;
+  coverage: ProcessingCoverage;
+  processedChars: number;
+  totalChars: number;
 }
 
-export async function processDocumentWithAI(
-  content: string,
-  filename: string
-): Promise<AIProcessingResult> {
-  const client = getClaudeClient();
-  const model = 'claude-sonnet-4-20250514';
-  const requestId = `claude-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+export interface AIProcessingOptions {
+  /**
+   * Strategy selected from the cost estimate. When omitted, it is derived
+   * from the content length and filename.
+   */
+  strategy?: ProcessingStrategy;
+  /**
+   * Task whose model converts the document (default markdown). Regenerating
+   * a summary uses the summary model.
+   */
+  task?: DocumentTask;
+  /** Receives the usage of every AI call made */
+  onUsage?: UsageListener;
+  /** Where converted chunks are saved, and restored from when resuming */
+  checkpoints?: ChunkCheckpoints;
+  /**
+   * Called with 'chunk' after each chunk converted by a request (not
+   * restored from a checkpoint); throws to stop before the next one
+   */
+  checkContinue?: ContinueCheck;
+}
 
-  if (!content || content.trim().length === 0) {
-    console.warn(`[Claude ${requestId}] Empty content provided for ${filename}`);
-    throw new Error('Document content is empty. Cannot process with AI.');
-  }
+/**
+ * Lets a job worker stop processing between stages or chunks, or before
+ * pages are read by OCR, by throwing a JobInterruptedError
+ */
+export type ContinueCheck = (point: 'stage' | 'chunk' | 'ocr') => Promise<void>;
 
-  if (!filename || filename.trim().length === 0) {
-    console.warn(`[Claude ${requestId}] Empty filename provided`);
-    throw new Error('Filename is required for AI processing.');
-  }
+type DocumentTask = Extract<AITask, 'summary' | 'markdown'>;
 
-  try {
-    // Truncate content if too long (Claude has token limits)
-    const maxContentLength = 100000; // ~25k tokens
-    const truncatedContent = content.length > maxContentLength 
-      ? content.substring(0, maxContentLength) + '\n\n[Content truncated...]'
-      : content;
+/**
+ * What the requests converting one document share
+ */
+interface ConversionContext {
+  provider: AIProvider;
+  task: DocumentTask;
+  filename: string;
+  requestId: string;
+  onUsage?: UsageListener;
+  checkpoints?: ChunkCheckpoints;
+  checkContinue?: ContinueCheck;
+}
+
+/**
+ * Text shorter than this is not split further when its conversion is cut
+ * off at the output budget; the request fails instead
+ */
+const MIN_SPLIT_CHARS = 2000;
+
+const DOCUMENT_TOOL: StructuredOutputTool = {
+  name: 'record_document',
+  description: 'Record the summary, markdown and metadata of the text being processed.',
+  schema: {
+    type: 'object',
+    properties: {
+      summary: { type: 'string', description: 'Concise summary of the text' },
+      markdown: { type: 'string', description: 'Clean, well-formatted markdown representation of the text' },
+      metadata: { type: 'object', description: 'Facts stated in the text, as described in the instructions' },
+    },
+    required: ['summary', 'markdown'],
+  },
+};
+
+/**
+ * Request the summary, markdown and metadata of a document or part of one
+ * 
+ * Metadata is validated separately and never fails the request; a missing
+ * or empty summary or markdown does.
+ */
+async function requestDocumentResult(
+  provider: AIProvider,
+  task: DocumentTask,
+  prompt: string,
+  maxTokens: number,
+  requestId: string,
+  onUsage?: UsageListener
+): Promise<DocumentSection> {
+  const { output } = await provider.completeStructured<{ summary: string; markdown: string; metadata?: unknown }>({
+    task,
+    prompt,
+    maxTokens,
+    tool: DOCUMENT_TOOL,
+    check: (result) => {
+      if (!result.summary.trim()) return 'input.summary is empty';
+      if (!result.markdown.trim()) return 'input.markdown is empty';
+      return null;
+    },
+    requestId,
+    onUsage,
+  });
+
+  console.log(`[Claude ${requestId}] Summary length: ${output.summary.length}, Markdown length: ${output.markdown.length}`);
 
-    // Create prompt for Claude with explicit JSON format requirement
-    const prompt = `Analyze this document and provide a JSON response with two fields:
+  return {
+    summary: output.summary.trim(),
+    markdown: output.markdown.trim(),
+    metadata: parseDocumentMetadata(output.metadata),
+  };
+}
+
+function isOutputTruncated(error: unknown): boolean {
+  return error instanceof ProcessingError && error.code === 'AI_OUTPUT_TRUNCATED';
+}
+
+/**
+ * Process a document that fits in one request
+ * 
+ * Callers send longer text through map-reduce, so the whole document is
+ * converted and coverage is always full. A response cut off at the output
+ * budget falls back to map-reduce over halves of the text.
+ */
+async function processSinglePass(
+  context: ConversionContext,
+  content: string,
+  strategy: ProcessingStrategy
+): Promise<AIProcessingResult> {
+  const { provider, task, filename, requestId } = context;
+  const prompt = `Analyze this document and record three fields with the ${DOCUMENT_TOOL.name} tool:
 
 1. "summary": A concise 2-3 sentence summary capturing key points and purpose
 2. "markdown": A clean, well-formatted markdown representation of the document
+3. ${metadataInstructions('the document')}
 
 Document: ${filename}
 
 Content:
-${truncatedContent}
+${content}`;
 
-Respond with ONLY valid JSON (no markdown code blocks, no explanations, just the JSON object):
-{"summary": "...", "markdown": "..."}`;
+  console.log(`[Claude ${requestId}] Sending single-pass request`, {
+    provider: provider.name,
+    model: provider.modelFor(task),
+    contentLength: content.length,
+    filename,
+    maxOutputTokens: strategy.maxOutputTokens,
+  });
 
-    console.log(`[Claude ${requestId}] Sending request to Claude API`, {
-      model,
-      contentLength: content.length,
-      filename,
-      truncatedContentLength: truncatedContent.length,
+  let parsed: DocumentSection;
+  try {
+    parsed = await requestDocumentResult(provider, task, prompt, strategy.maxOutputTokens, requestId, context.onUsage);
+  } catch (error) {
+    if (!isOutputTruncated(error) || content.length < MIN_SPLIT_CHARS * 2) {
+      throw error;
+    }
+    console.warn(`[Claude ${requestId}] Single-pass response did not fit in ${strategy.maxOutputTokens} output tokens, switching to map-reduce`);
+    return processMapReduce(context, content, {
+      ...strategy,
+      mode: 'map_reduce',
+      chunkSize: Math.ceil(content.length / 2),
+      maxChunks: Infinity,
     });
+  }
 
-    // Defensive: Validate API key is available
-    const apiKey = getAnthropicApiKey();
-    if (!apiKey || apiKey.trim().length === 0) {
-      throw new Error('ANTHROPIC_API_KEY is not configured. Cannot process document with AI.');
-    }
+  return {
+    ...parsed,
+    model: provider.modelFor(task),
+    coverage: ProcessingCoverage.FULL,
+    processedChars: content.length,
+    totalChars: content.length,
+  };
+}
 
-    let message;
-    try {
-      message = await client.messages.create({
-        model,
-        max_tokens: 4096,
-        messages: [
-          {
-            role: 'user',
-            content: prompt,
-          },
-        ],
-      });
-    } catch (apiError: unknown) {
-      // Enhanced error handling for API failures
-      const errorMessage = apiError instanceof Error ? apiError.message : String(apiError);
-      console.error(`[Claude ${requestId}] Claude API call failed:`, {
-        error: errorMessage,
-        model,
-        timestamp: new Date().toISOString(),
-      });
-
-      // Check for specific error types
-      if (errorMessage.includes('api_key') || errorMessage.includes('authentication')) {
-        throw new Error('AI service authentication failed. Please check API configuration.');
-      }
-      if (errorMessage.includes('rate_limit') || errorMessage.includes('429')) {
-        throw new Error('AI service rate limit exceeded. Please try again later.');
-      }
-      if (errorMessage.includes('timeout') || errorMessage.includes('network')) {
-        throw new Error('AI service network error. Please try again.');
-      }
-
-      throw new Error(`AI processing failed: ${errorMessage}`);
-    }
+/**
+ * Convert one part of a long document
+ * 
+ * A part converted before (by a run that was stopped) is restored from its
+ * checkpoint. A part whose response is cut off at the output budget is
+ * split in two and the halves converted separately, so no part is stored
+ * truncated.
+ * 
+ * @param label - Position of the part, e.g. "3", or "3.2" for the second half of part 3
+ * @param totalParts - Number of parts the document was split into
+ */
+async function convertPart(
+  context: ConversionContext,
+  part: string,
+  label: string,
+  totalParts: number,
+  maxTokens: number
+): Promise<DocumentSection[]> {
+  const { provider, task, filename, requestId, checkpoints } = context;
+  const prompt = `You are processing part ${label} of ${totalParts} of a long document. Record three fields with the ${DOCUMENT_TOOL.name} tool:
 
-    console.log(`[Claude ${requestId}] Received response from Claude API`, {
-      contentType: message.content[0]?.type,
-      contentLength: message.content[0]?.type === 'text' ? message.content[0].text.length : 0,
-      usage: message.usage,
-    });
+1. "summary": A concise 1-2 sentence summary of this part only
+2. "markdown": A clean, well-formatted markdown representation of this part, preserving all of its content. Continue the document's existing heading levels; do not add a title or commentary about this being a part.
+3. ${metadataInstructions('this part only')}
 
-    // Extract content from response
-    const responseText =
-      message.content[0]?.type === 'text'
-        ? message.content[0].text
-        : '';
+Document: ${filename}
 
-    if (!responseText || responseText.trim().length === 0) {
-      console.error(`[Claude ${requestId}] Empty response from Claude API`);
-      throw new Error('AI service returned empty response. Please try again.');
-    }
+Content of part ${label}:
+${part}`;
+
+  const model = provider.modelFor(task);
+  const restored = await checkpoints?.load(model, prompt);
+  if (restored) {
+    console.log(`[Claude ${requestId}] Restored part ${label}/${totalParts} from its checkpoint`);
+    return [restored];
+  }
 
-    console.log(`[Claude ${requestId}] Response text preview: ${responseText.substring(0, 200)}...`);
-
-    // Parse JSON response
-    let parsed: { summary: string; markdown: string };
-    try {
-      // Try to extract JSON from response (Claude might wrap it in markdown code blocks)
-      // Remove markdown code blocks if present
-      let jsonText = responseText;
-      const codeBlockMatch = jsonText.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
-      if (codeBlockMatch) {
-        jsonText = codeBlockMatch[1];
-        console.log(`[Claude ${requestId}] Extracted JSON from code block`);
-      } else {
-        // Try to find JSON object
-        const jsonMatch = jsonText.match(/\{[\s\S]*\}/);
-        if (jsonMatch) {
-          jsonText = jsonMatch[0];
-          console.log(`[Claude ${requestId}] Extracted JSON object from response`);
-        }
-      }
-
-      parsed = JSON.parse(jsonText);
-      console.log(`[Claude] Successfully parsed JSON response`);
-      console.log(`[Claude] Summary length: ${parsed.summary?.length || 0}, Markdown length: ${parsed.markdown?.length || 0}`);
-    } catch (parseError) {
-      // Fallback: use response as markdown, generate simple summary
-      console.error('[Claude] Failed to parse Claude response as JSON:', parseError);
-      console.error('[Claude] Response text:', responseText.substring(0, 500));
-      
-      // Try to extract summary and markdown from natural language response
-      const summaryMatch = responseText.match(/summary[:\s]+(.*?)(?:\n|markdown|$)/i);
-      const markdownMatch = responseText.match(/markdown[:\s]+(.*?)$/is);
-      
-      parsed = {
-        summary: summaryMatch?.[1]?.trim() || `Document: ${filename}. ${content.substring(0, 200)}...`,
-        markdown: markdownMatch?.[1]?.trim() || responseText || content,
-      };
-      
-      console.log(`[Claude] Using fallback parsing - Summary: ${parsed.summary.substring(0, 100)}...`);
+  console.log(`[Claude ${requestId}] Processing part ${label}/${totalParts} (${part.length} chars)`);
+  let section: DocumentSection;
+  try {
+    section = await requestDocumentResult(provider, task, prompt, maxTokens, requestId, context.onUsage);
+  } catch (error) {
+    if (!isOutputTruncated(error) || part.length < MIN_SPLIT_CHARS * 2) {
+      throw error;
     }
+    const pieces = splitIntoChunks(part, Math.ceil(part.length / 2));
+    console.warn(`[Claude ${requestId}] Part ${label} did not fit in ${maxTokens} output tokens, converting it in ${pieces.length} pieces`);
+    const sections: DocumentSection[] = [];
+    for (const [index, piece] of pieces.entries()) {
+      sections.push(...(await convertPart(context, piece, `${label}.${index + 1}`, totalParts, maxTokens)));
+    }
+    return sections;
+  }
+
+  await checkpoints?.save(model, prompt, section);
+  await context.checkContinue?.('chunk');
+  return [section];
+}
+
+/**
+ * Process a long document chunk by chunk, then merge the results
+ * 
+ * Map: each chunk is converted to markdown, summarised and mined for
+ * metadata independently.
+ * Reduce: chunk markdown is concatenated in order, the chunk summaries
+ * are combined into one document summary and the chunk metadata is merged.
+ * 
+ * Chunks beyond the strategy's budget are skipped and the result is
+ * marked as partial.
+ */
+async function processMapReduce(
+  context: ConversionContext,
+  content: string,
+  strategy: ProcessingStrategy
+): Promise<AIProcessingResult> {
+  const { provider, task, filename, requestId, onUsage } = context;
+  const chunks = splitIntoChunks(content, strategy.chunkSize);
+  const processedChunks = chunks.slice(0, strategy.maxChunks);
+  const isPartial = chunks.length > processedChunks.length;
+
+  console.log(`[Claude ${requestId}] Map-reduce processing ${filename}`, {
+    provider: provider.name,
+    model: provider.modelFor(task),
+    contentLength: content.length,
+    totalChunks: chunks.length,
+    processedChunks: processedChunks.length,
+    chunkSize: strategy.chunkSize,
+    isPartial,
+  });
+
+  // Map: process chunks sequentially to stay within rate limits
+  const sections: DocumentSection[] = [];
+  for (let i = 0; i < processedChunks.length; i++) {
+    sections.push(...(await convertPart(context, processedChunks[i], `${i + 1}`, chunks.length, strategy.maxOutputTokens)));
+  }
+
+  const markdown = sections.map((section) => section.markdown).join('\n\n');
+  const metadata = mergeDocumentMetadata(sections.map((section) => section.metadata));
+  const processedChars = processedChunks.reduce((total, chunk) => total + chunk.length, 0);
 
+  // Reduce: a single section's summary already describes the whole document
+  if (sections.length === 1) {
     return {
-      summary: parsed.summary.trim(),
-      markdown: parsed.markdown.trim(),
-      model,
+      summary: sections[0].summary,
+      markdown,
+      metadata,
+      model: provider.modelFor(task),
+      coverage: isPartial ? ProcessingCoverage.PARTIAL : ProcessingCoverage.FULL,
+      processedChars,
+      totalChars: content.length,
+    };
+  }
+
+  const coverageNote = isPartial
+    ? `\nOnly the first ${processedChunks.length} of ${chunks.length} parts were analyzed; the summary should describe those parts.\n`
+    : '';
+  const summaryPrompt = `Below are summaries of consecutive parts of the document "${filename}".
+${coverageNote}
+${sections.map((section, index) => `Part ${index + 1}: ${section.summary}`).join('\n')}
+
+Write a concise 2-3 sentence summary of the whole document capturing its key points and purpose. Respond with ONLY the summary text.`;
+
+  console.log(`[Claude ${requestId}] Combining ${sections.length} chunk summaries`);
+  const summary = await provider.complete({ task: 'summary', prompt: summaryPrompt, maxTokens: 1024, requestId, onUsage });
+
+  return {
+    summary: summary.text.trim(),
+    markdown,
+    metadata,
+    model: provider.modelFor(task),
+    coverage: isPartial ? ProcessingCoverage.PARTIAL : ProcessingCoverage.FULL,
+    processedChars,
+    totalChars: content.length,
+  };
+}
+
+export async function processDocumentWithAI(
+  content: string,
+  filename: string,
+  options: AIProcessingOptions = {}
+): Promise<AIProcessingResult> {
+  const requestId = `claude-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  if (!content || content.trim().length === 0) {
+    console.warn(`[Claude ${requestId}] Empty content provided for ${filename}`);
+    throw new ProcessingError('EMPTY_CONTENT', 'Document content is empty. Cannot process with AI.', ProcessingStage.EXTRACT);
+  }
+
+  if (!filename || filename.trim().length === 0) {
+    console.warn(`[Claude ${requestId}] Empty filename provided`);
+    throw new Error('Filename is required for AI processing.');
+  }
+
+  try {
+    const context: ConversionContext = {
+      provider: getAIProvider(),
+      task: options.task ?? 'markdown',
+      filename,
+      requestId,
+      onUsage: options.onUsage,
+      checkpoints: options.checkpoints,
+      checkContinue: options.checkContinue,
     };
+
+    const strategy =
+      options.strategy ??
+      selectProcessingStrategy(
+        estimateProcessingCost(Buffer.byteLength(content, 'utf-8'), filename),
+        content.length
+      );
+
+    // Text longer than one request's budget (e.g. a caller's own strategy) is chunked, never cut off
+    return strategy.mode === 'map_reduce' || content.length > strategy.chunkSize
+      ? await processMapReduce(context, content, strategy)
+      : await processSinglePass(context, content, strategy);
   } catch (error) {
+    // Stopped by the job worker, not failed
+    if (error instanceof JobInterruptedError) {
+      throw error;
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     const errorStack = error instanceof Error ? error.stack : undefined;
-    console.error('[Claude] Claude API error:', errorMessage);
+    console.error('[Claude] AI processing error:', errorMessage);
     if (errorStack) {
       console.error('[Claude] Error stack:', errorStack);
     }
@@ -190,12 +375,101 @@ Respond with ONLY valid JSON (no markdown code blocks, no explanations, just the
       console.error('[Claude] API key issue detected. Check ANTHROPIC_API_KEY in .env.local');
     }
 
-    // Never throw - return fallback result
-    // This ensures AI failures don't break the system
-    return {
-      summary: `Document "${filename}" could not be processed by AI. Error: ${errorMessage}`,
-      markdown: content, // Use original content as fallback
-      model: 'error-fallback',
-    };
+    // Surface the failure - callers mark the document FAILED instead of
+    // storing an error message as if it were AI output
+    throw toProcessingError(error, 'AI_FAILED', ProcessingStage.AI);
   }
 }
+
+const TAGS_TOOL: StructuredOutputTool = {
+  name: 'record_tags',
+  description: 'Record the tags suggested for the document.',
+  schema: {
+    type: 'object',
+    properties: {
+      tags: {
+        type: 'array',
+        description: 'Suggested tags, best first',
+        items: { type: 'string' },
+      },
+    },
+    required: ['tags'],
+  },
+};
+
+/**
+ * Propose tags for a processed document from its summary
+ * 
+ * The user's existing tags are offered so the model reuses their
+ * vocabulary where it fits. Returns raw names; callers normalize them and
+ * drop tags the document already has.
+ * 
+ * @param summary - The generated summary
+ * @param filename - Document name, for context
+ * @param existingTags - Names of the user's tags, most used first
+ * @param onUsage - Receives the usage of the AI call
+ * @returns Proposed tag names, best first (possibly empty)
+ * @throws ProcessingError when the API call fails or the reply is invalid
+ */
+export async function suggestDocumentTags(
+  summary: string,
+  filename: string,
+  existingTags: string[],
+  onUsage?: UsageListener
+): Promise<string[]> {
+  const requestId = `claude-tags-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  const vocabulary = existingTags.length > 0
+    ? `\nThe user already uses these tags; prefer them when they fit:\n${existingTags.join(', ')}\n`
+    : '';
+  const prompt = `Suggest up to 5 short tags (1-3 words each) that would help find this document later. Tags should name topics, document types, projects or organizations, not restate the file name.
+
+Document: ${filename}
+
+Summary:
+${summary}
+${vocabulary}
+Record the tags with the ${TAGS_TOOL.name} tool, best tag first, for example: "invoice", "acme corp", "2024 taxes".`;
+
+  const { output } = await getAIProvider().completeStructured<{ tags: string[] }>({
+    task: 'tagging',
+    prompt,
+    maxTokens: 256,
+    tool: TAGS_TOOL,
+    requestId,
+    onUsage,
+  });
+  return output.tags;
+}
+
+/**
+ * Run an extraction template prompt
+ * 
+ * The template's output schema is the schema of the tool the model answers
+ * with, so the output is validated (and repaired once) by the provider.
+ * 
+ * @param prompt - A prompt built by buildTemplatePrompt
+ * @param outputSchema - The template's output schema
+ * @param onUsage - Receives the usage of the AI call
+ * @returns The output, valid against the schema, and the model that produced it
+ * @throws ProcessingError when the API call fails or the reply is invalid
+ */
+export async function runTemplatePrompt(
+  prompt: string,
+  outputSchema: TemplateSchema,
+  onUsage?: UsageListener
+): Promise<{ output: Record<string, unknown>; model: string }> {
+  const requestId = `claude-template-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  return getAIProvider().completeStructured<Record<string, unknown>>({
+    task: 'templates',
+    prompt,
+    maxTokens: 4096,
+    tool: {
+      name: TEMPLATE_TOOL_NAME,
+      description: 'Record the data extracted from the document.',
+      schema: outputSchema,
+    },
+    requestId,
+    onUsage,
+  });
+}
@@ -101,6 +101,105 @@ export function estimateProcessingCost(
   };
 }
 
+/**
+ * Processing Strategy
+ * 
+ * How extracted text is sent to the AI model.
+ */
+export interface ProcessingStrategy {
+  /**
+   * - 'single_pass': whole document in one request
+   * - 'map_reduce': document split into chunks, each processed separately,
+   *   then merged into one summary and one markdown
+   */
+  mode: 'single_pass' | 'map_reduce';
+
+  /**
+   * Maximum characters per chunk (map_reduce only)
+   */
+  chunkSize: number;
+
+  /**
+   * Maximum number of chunks processed before the document is marked as
+   * partially processed. Caps cost for extremely long documents.
+   */
+  maxChunks: number;
+
+  /**
+   * Output token budget of each conversion request. The markdown of a
+   * whole chunk has to fit in it.
+   */
+  maxOutputTokens: number;
+}
+
+/**
+ * Output tokens per conversion request. Markdown is about as long as the
+ * text it converts (~4 characters per token), plus the summary and metadata.
+ */
+const CONVERSION_MAX_OUTPUT_TOKENS = 8192;
+
+/**
+ * Characters per chunk for map-reduce processing.
+ * Kept small enough that the model can reproduce the chunk as markdown
+ * within one response (~6k of the CONVERSION_MAX_OUTPUT_TOKENS).
+ */
+const MAP_REDUCE_CHUNK_CHARS = 24000;
+
+/**
+ * Largest extracted text (in characters) processed in a single request.
+ * Bounded by the output budget, not the input: the whole text comes back
+ * as markdown, so anything longer than a chunk is chunked rather than
+ * truncated.
+ */
+const SINGLE_PASS_MAX_CHARS = MAP_REDUCE_CHUNK_CHARS;
+
+/**
+ * Chunk budget per complexity level (~24k chars per chunk)
+ */
+const MAX_CHUNKS_BY_COMPLEXITY: Record<CostEstimate['complexity'], number> = {
+  small: 8,
+  medium: 16,
+  large: 32,
+  very_large: 48,
+};
+
+/**
+ * Select the processing strategy for a document
+ * 
+ * Small and medium documents whose text fits in one request are processed
+ * in a single pass. Everything else is chunked, with a chunk budget that
+ * grows with the estimated complexity.
+ * 
+ * @param estimate - Cost estimate from estimateProcessingCost
+ * @param contentLength - Length of the extracted text in characters
+ * @returns Strategy to use for AI processing
+ */
+export function selectProcessingStrategy(
+  estimate: CostEstimate,
+  contentLength: number
+): ProcessingStrategy {
+  const maxChunks = MAX_CHUNKS_BY_COMPLEXITY[estimate.complexity];
+
+  if (
+    (estimate.complexity === 'small' || estimate.complexity === 'medium') &&
+    contentLength <= SINGLE_PASS_MAX_CHARS
+  ) {
+    return {
+      mode: 'single_pass',
+      chunkSize: SINGLE_PASS_MAX_CHARS,
+      maxChunks: 1,
+      maxOutputTokens: CONVERSION_MAX_OUTPUT_TOKENS,
+    };
+  }
+
+  return {
+    mode: 'map_reduce',
+    chunkSize: MAP_REDUCE_CHUNK_CHARS,
+    maxChunks,
+    maxOutputTokens: CONVERSION_MAX_OUTPUT_TOKENS,
+  };
+}
+
 /**
  * Check if document size exceeds safe processing threshold
  * 
@@ -0,0 +1,75 @@
+/**
+ * Processing Errors
+ * 
+ * Structured errors raised by the processing pipeline. The code and stage
+ * are persisted on the document when processing fails so the UI can show
+ * the real reason.
+ */
+
+import { ProcessingStage } from '@ai-document-vault/shared';
+
+/**
+ * Machine-readable failure codes stored in `documents.failure_code`
+ */
+export type ProcessingErrorCode =
+  | 'DOWNLOAD_FAILED'
+  | 'EXTRACTION_FAILED'
+  | 'EMPTY_CONTENT'
+  | 'AI_AUTH_FAILED'
+  | 'AI_RATE_LIMITED'
+  | 'AI_NETWORK_ERROR'
+  | 'AI_EMPTY_RESPONSE'
+  | 'AI_INVALID_RESPONSE'
+  | 'AI_OUTPUT_TRUNCATED' // Response cut off at its output token budget
+  | 'AI_FAILED'
+  | 'EMBEDDING_FAILED'
+  | 'SAVE_FAILED'
+  | 'WORKER_TIMEOUT' // Set by the stuck-job reaper in SQL
+  | 'UNEXPECTED_ERROR';
+
+/**
+ * Codes of failures that recur on every attempt with the same input, so
+ * the job queue fails them at once instead of retrying
+ */
+const NON_RETRYABLE_CODES: ReadonlySet<ProcessingErrorCode> = new Set<ProcessingErrorCode>(['AI_OUTPUT_TRUNCATED']);
+
+/**
+ * Error with a failure code and the pipeline stage it occurred in
+ */
+export class ProcessingError extends Error {
+  constructor(
+    public code: ProcessingErrorCode,
+    message: string,
+    public stage: ProcessingStage
+  ) {
+    super(message);
+    this.name = 'ProcessingError';
+  }
+}
+
+/**
+ * Whether retrying could succeed. Anything other than a non-retryable
+ * ProcessingError (e.g. a network failure) is worth another attempt.
+ */
+export function isRetryableError(error: unknown): boolean {
+  return !(error instanceof ProcessingError && NON_RETRYABLE_CODES.has(error.code));
+}
+
+/**
+ * Normalise any thrown value into a ProcessingError
+ * 
+ * @param error - Thrown value
+ * @param code - Code to use when the error is not already a ProcessingError
+ * @param stage - Stage to use when the error is not already a ProcessingError
+ */
+export function toProcessingError(
+  error: unknown,
+  code: ProcessingErrorCode,
+  stage: ProcessingStage
+): ProcessingError {
+  if (error instanceof ProcessingError) {
+    return error;
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  return new ProcessingError(code, message, stage);
+}
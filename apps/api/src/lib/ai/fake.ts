@@ -0,0 +1,108 @@
+/**
+ * Fake AI Provider
+ * 
+ * Deterministic offline responses for tests and local development: no
+ * network or API key. Responses are derived from a hash of the prompt, so
+ * the same request always gets the same response.
+ * 
+ * Structured output is generated from the tool's schema: every property is
+ * filled in, strings take the first enum value or a placeholder, numbers
+ * are 0 and lists are empty. It passes the same validation as real output,
+ * so a check the placeholder can't satisfy fails with AI_INVALID_RESPONSE.
+ */
+
+import { createHash } from 'crypto';
+import { ProcessingStage } from '@ai-document-vault/shared';
+import type { TemplateSchema } from '@ai-document-vault/shared';
+import { createLocalEmbeddingProvider } from '../embeddings/local';
+import { EMBEDDING_DIMENSIONS } from '../embeddings/provider';
+import { ProcessingError } from './errors';
+import { checkStructuredOutput } from './output-schema';
+import type { AIProvider, CompletionRequest, StructuredOutputRequest, UsageListener } from './provider';
+
+const FAKE_MODEL = 'fake';
+
+function promptHash(prompt: string): string {
+  return createHash('sha256').update(prompt).digest('hex').substring(0, 8);
+}
+
+/**
+ * Rough token count (about 4 characters per token), so usage accounting
+ * can be exercised offline
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function reportUsage(request: { prompt: string; onUsage?: UsageListener }, output: string): void {
+  request.onUsage?.({
+    model: FAKE_MODEL,
+    inputTokens: estimateTokens(request.prompt),
+    outputTokens: estimateTokens(output),
+  });
+}
+
+function fakeText(request: CompletionRequest): string {
+  return `Fake ${request.task} response ${promptHash(request.prompt)}.`;
+}
+
+/**
+ * A value matching a schema node
+ */
+function fakeValue(schema: TemplateSchema, key: string, hash: string): unknown {
+  switch (schema.type) {
+    case 'string':
+      return schema.enum ? schema.enum[0] : `Fake ${key} ${hash}`;
+    case 'number':
+    case 'integer':
+      return 0;
+    case 'boolean':
+      return false;
+    case 'array':
+      return [];
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties || {}).map(([name, property]) => [name, fakeValue(property, name, hash)])
+      );
+    default:
+      return null;
+  }
+}
+
+/**
+ * Create the fake provider
+ */
+export function createFakeProvider(): AIProvider {
+  const embeddings = createLocalEmbeddingProvider(EMBEDDING_DIMENSIONS);
+
+  return {
+    name: 'fake',
+    modelFor: () => FAKE_MODEL,
+
+    async complete(request: CompletionRequest) {
+      const text = fakeText(request);
+      reportUsage(request, text);
+      return { text, model: FAKE_MODEL };
+    },
+
+    async *streamCompletion(request: CompletionRequest) {
+      const text = fakeText(request);
+      for (const word of text.split(/(?<= )/)) {
+        yield word;
+      }
+      reportUsage(request, text);
+    },
+
+    async completeStructured<T>(request: StructuredOutputRequest<T>) {
+      const input = fakeValue(request.tool.schema, request.tool.name, promptHash(request.prompt));
+      reportUsage(request, JSON.stringify(input));
+      const checked = checkStructuredOutput(input, request.tool.schema, request.check);
+      if ('error' in checked) {
+        throw new ProcessingError('AI_INVALID_RESPONSE', `Fake provider output is invalid: ${checked.error}`, ProcessingStage.AI);
+      }
+      return { output: checked.output, model: FAKE_MODEL };
+    },
+
+    embeddings,
+  };
+}
@@ -2,8 +2,36 @@
  * AI Module
  * 
  * Central export point for AI processing functionality.
+ * 
+ * Usage:
+ *   import { getAIProvider, processDocument } from '@/lib/ai';
  */
 
-export { processDocument, retryDocumentProcessing } from './processor';
-export { processDocumentWithAI } from './claude';
-export type { AIProcessingResult } from './claude';
+// Providers
+export { getAIProvider, setAIProvider, modelForTask } from './provider';
+export type {
+  AIProvider,
+  AITask,
+  AIUsage,
+  UsageListener,
+  CompletionRequest,
+  CompletionResult,
+  StructuredOutputTool,
+  StructuredOutputRequest,
+  StructuredOutputResult,
+} from './provider';
+export { createAnthropicProvider } from './anthropic';
+export { createFakeProvider } from './fake';
+export { validateOutput, checkStructuredOutput } from './output-schema';
+
+// Document processing
+export { processDocument, retryDocumentProcessing, regenerateDocumentContent, rerunDocumentTemplates } from './processor';
+export type { ProcessDocumentOptions } from './processor';
+export { processDocumentWithAI, suggestDocumentTags, runTemplatePrompt } from './claude';
+export type { AIProcessingResult, AIProcessingOptions } from './claude';
+export { estimateProcessingCost, selectProcessingStrategy } from './cost-estimation';
+export type { CostEstimate, ProcessingStrategy } from './cost-estimation';
+export { retrievePassages, streamAnswer } from './ask';
+export type { AskScope } from './ask';
+export { ProcessingError, isRetryableError } from './errors';
+export type { ProcessingErrorCode } from './errors';
@@ -0,0 +1,169 @@
+/**
+ * Document Metadata Extraction
+ * 
+ * Prompt instructions and validation for the metadata the AI extracts
+ * alongside the summary and markdown. Model output is untrusted: fields
+ * that don't match the schema are dropped rather than failing processing.
+ */
+
+import { DocumentType, KEY_DATE_KINDS, isDocumentType } from '@ai-document-vault/shared';
+import type { DocumentMetadata, MetadataAmount, MetadataParty } from '@ai-document-vault/shared';
+
+const MAX_PARTIES = 20;
+const MAX_AMOUNTS = 20;
+const MAX_NAME_LENGTH = 200;
+const MAX_LABEL_LENGTH = 100;
+
+/**
+ * Description of the "metadata" response field, for processing prompts
+ * 
+ * @param scope - What the facts are taken from, e.g. "the document"
+ */
+export function metadataInstructions(scope: string): string {
+  return `"metadata": An object with facts stated in ${scope}:
+   - "document_type": One of ${Object.values(DocumentType).join(', ')}
+   - "language": ISO 639-1 code of the language it is written in, e.g. "en"
+   - "dates": An object with any of ${KEY_DATE_KINDS.map((kind) => `"${kind}"`).join(', ')} as YYYY-MM-DD; leave out dates that are not stated
+   - "parties": People and organizations involved, as [{"name": "...", "role": "..."}]; role is e.g. "vendor", "customer" or "employer", or null
+   - "amounts": The most important monetary amounts, as [{"value": 1234.5, "currency": "USD", "label": "..."}]; currency is an ISO 4217 code or null`;
+}
+
+/**
+ * Whether a string is a real calendar date in YYYY-MM-DD form
+ */
+function isCalendarDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+/**
+ * Trim a string field, returning null when it's missing, empty or too long
+ */
+function optionalText(value: unknown, maxLength: number): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const text = value.trim().replace(/\s+/g, ' ');
+  return text !== '' && text.length <= maxLength ? text : null;
+}
+
+function parseParty(value: unknown): MetadataParty | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const party = value as Record<string, unknown>;
+  const name = optionalText(party.name, MAX_NAME_LENGTH);
+  return name ? { name, role: optionalText(party.role, MAX_LABEL_LENGTH) } : null;
+}
+
+function parseAmount(value: unknown): MetadataAmount | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+  const amount = value as Record<string, unknown>;
+
+  // Accept numeric strings such as "1,234.50"
+  const number = typeof amount.value === 'string' ? Number(amount.value.replace(/,/g, '')) : amount.value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) {
+    return null;
+  }
+
+  const currency = typeof amount.currency === 'string' ? amount.currency.trim().toUpperCase() : '';
+  return {
+    value: number,
+    currency: /^[A-Z]{3}$/.test(currency) ? currency : null,
+    label: optionalText(amount.label, MAX_LABEL_LENGTH),
+  };
+}
+
+/**
+ * Validate metadata from a model response
+ * 
+ * Invalid entries are dropped and an unknown document type becomes OTHER.
+ * 
+ * @returns The metadata, or null when the value isn't an object
+ */
+export function parseDocumentMetadata(value: unknown): DocumentMetadata | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return null;
+  }
+  const raw = value as Record<string, unknown>;
+
+  const type = typeof raw.document_type === 'string' ? raw.document_type.trim().toLowerCase() : '';
+  const language = typeof raw.language === 'string' ? raw.language.trim().toLowerCase() : '';
+
+  const dates: DocumentMetadata['dates'] = {};
+  if (raw.dates && typeof raw.dates === 'object') {
+    const rawDates = raw.dates as Record<string, unknown>;
+    for (const kind of KEY_DATE_KINDS) {
+      const date = rawDates[kind];
+      if (typeof date === 'string' && isCalendarDate(date.trim())) {
+        dates[kind] = date.trim();
+      }
+    }
+  }
+
+  const parties = Array.isArray(raw.parties)
+    ? raw.parties.map(parseParty).filter((party): party is MetadataParty => party !== null)
+    : [];
+  const amounts = Array.isArray(raw.amounts)
+    ? raw.amounts.map(parseAmount).filter((amount): amount is MetadataAmount => amount !== null)
+    : [];
+
+  return {
+    document_type: isDocumentType(type) ? type : DocumentType.OTHER,
+    language: /^[a-z]{2}$/.test(language) ? language : null,
+    dates,
+    parties: dedupeParties(parties).slice(0, MAX_PARTIES),
+    amounts: amounts.slice(0, MAX_AMOUNTS),
+  };
+}
+
+/**
+ * Drop parties whose name repeats an earlier one, ignoring case
+ */
+function dedupeParties(parties: MetadataParty[]): MetadataParty[] {
+  const seen = new Set<string>();
+  return parties.filter((party) => {
+    const key = party.name.toLowerCase();
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+/**
+ * Combine metadata extracted from consecutive parts of a document
+ * 
+ * Earlier parts win for the document type, language and each date; parties
+ * and amounts are collected from every part.
+ * 
+ * @returns The combined metadata, or null when no part had any
+ */
+export function mergeDocumentMetadata(parts: (DocumentMetadata | null)[]): DocumentMetadata | null {
+  const present = parts.filter((part): part is DocumentMetadata => part !== null);
+  if (present.length === 0) {
+    return null;
+  }
+
+  const dates: DocumentMetadata['dates'] = {};
+  for (const part of present) {
+    for (const kind of KEY_DATE_KINDS) {
+      if (!dates[kind] && part.dates[kind]) {
+        dates[kind] = part.dates[kind];
+      }
+    }
+  }
+
+  return {
+    document_type:
+      present.find((part) => part.document_type !== DocumentType.OTHER)?.document_type ?? DocumentType.OTHER,
+    language: present.find((part) => part.language !== null)?.language ?? null,
+    dates,
+    parties: dedupeParties(present.flatMap((part) => part.parties)).slice(0, MAX_PARTIES),
+    amounts: present.flatMap((part) => part.amounts).slice(0, MAX_AMOUNTS),
+  };
+}
@@ -0,0 +1,89 @@
+/**
+ * Output Schema Validation
+ * 
+ * Checks model output against a JSON Schema subset (the one extraction
+ * templates use). Model output is untrusted, so every structured response
+ * is validated before it is stored or returned.
+ */
+
+import type { TemplateSchema } from '@ai-document-vault/shared';
+
+const MAX_ARRAY_ITEMS = 500;
+
+/**
+ * Check a value against a schema node
+ * 
+ * Properties not in the schema are dropped and null optional fields are
+ * treated as absent. An object schema without properties accepts any
+ * object as is, for fields that are validated separately.
+ * 
+ * @param path - Name of the value, used in error messages
+ * @returns The cleaned value, or a message naming the first mismatch
+ */
+export function validateOutput(value: unknown, schema: TemplateSchema, path: string): { value: unknown } | { error: string } {
+  switch (schema.type) {
+    case 'string':
+      if (typeof value !== 'string') return { error: `${path} should be a string` };
+      if (schema.enum && !schema.enum.includes(value)) {
+        return { error: `${path} should be one of: ${schema.enum.join(', ')}` };
+      }
+      return { value };
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value)) return { error: `${path} should be a number` };
+      return { value };
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isInteger(value)) return { error: `${path} should be an integer` };
+      return { value };
+    case 'boolean':
+      if (typeof value !== 'boolean') return { error: `${path} should be true or false` };
+      return { value };
+    case 'array': {
+      if (!Array.isArray(value)) return { error: `${path} should be a list` };
+      const items: unknown[] = [];
+      for (const [index, item] of value.slice(0, MAX_ARRAY_ITEMS).entries()) {
+        const checked = validateOutput(item, schema.items as TemplateSchema, `${path}[${index}]`);
+        if ('error' in checked) return checked;
+        items.push(checked.value);
+      }
+      return { value: items };
+    }
+    case 'object': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: `${path} should be an object` };
+      if (!schema.properties) return { value };
+      const raw = value as Record<string, unknown>;
+      const cleaned: Record<string, unknown> = {};
+      for (const [key, property] of Object.entries(schema.properties)) {
+        const field = Object.prototype.hasOwnProperty.call(raw, key) ? raw[key] : undefined;
+        if (field === undefined || field === null) {
+          if (schema.required?.includes(key)) return { error: `${path}.${key} is required` };
+          continue;
+        }
+        const checked = validateOutput(field, property, `${path}.${key}`);
+        if ('error' in checked) return checked;
+        cleaned[key] = checked.value;
+      }
+      return { value: cleaned };
+    }
+    default:
+      return { error: `${path} has an unsupported type` };
+  }
+}
+
+/**
+ * Validate structured output against its tool's schema and extra checks
+ * 
+ * @returns The cleaned output, or a message describing the first problem
+ */
+export function checkStructuredOutput<T>(
+  input: unknown,
+  schema: TemplateSchema,
+  check?: (output: T) => string | null
+): { output: T } | { error: string } {
+  const checked = validateOutput(input, schema, 'input');
+  if ('error' in checked) {
+    return checked;
+  }
+  const output = checked.value as T;
+  const problem = check?.(output) ?? null;
+  return problem ? { error: problem } : { output };
+}
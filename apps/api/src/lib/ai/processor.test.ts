@@ -0,0 +1,202 @@
+/**
+ * Document processing, end to end
+ *
+ * Runs processDocument with the fake AI provider against an in-memory
+ * Supabase: the uploaded file is downloaded, extracted, converted, tagged,
+ * embedded and saved, with no network access or API key.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus, ProcessingCoverage } from '@ai-document-vault/shared';
+import { processDocument } from './processor';
+import { setAIProvider } from './provider';
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the Supabase admin client
+ *
+ * Tables are arrays of rows. eq and in filters are applied; any other
+ * query method is accepted and ignored. RPCs return no rows.
+ */
+const db = vi.hoisted(() => {
+  const tables = new Map<string, Row[]>();
+  const files = new Map<string, Buffer>();
+
+  const rowsOf = (table: string): Row[] => {
+    if (!tables.has(table)) tables.set(table, []);
+    return tables.get(table)!;
+  };
+
+  function query(table: string) {
+    const filters: Array<(row: Row) => boolean> = [];
+    let action: { kind: 'select' } | { kind: 'insert'; rows: Row[] } | { kind: 'update'; changes: Row } | { kind: 'delete' } = { kind: 'select' };
+    let returnRows = false;
+    let single: 'single' | 'maybeSingle' | null = null;
+
+    const run = () => {
+      const rows = rowsOf(table);
+      let affected: Row[];
+      switch (action.kind) {
+        case 'insert':
+          affected = action.rows.map((row) => ({ id: `${table}-${rows.length + 1}`, ...row }));
+          rows.push(...affected);
+          break;
+        case 'update': {
+          affected = rows.filter((row) => filters.every((filter) => filter(row)));
+          const changes = action.changes;
+          affected.forEach((row) => Object.assign(row, changes));
+          break;
+        }
+        case 'delete':
+          affected = rows.filter((row) => filters.every((filter) => filter(row)));
+          tables.set(table, rows.filter((row) => !affected.includes(row)));
+          break;
+        default:
+          affected = rows.filter((row) => filters.every((filter) => filter(row)));
+      }
+
+      const data = action.kind === 'select' || returnRows ? affected.map((row) => ({ ...row })) : null;
+      if (single) {
+        const first = data?.[0] ?? null;
+        if (!first && single === 'single') {
+          return { data: null, error: { message: 'No rows found', code: 'PGRST116' } };
+        }
+        return { data: first, error: null };
+      }
+      return { data, error: null };
+    };
+
+    const builder: Record<string, unknown> = new Proxy({}, {
+      get(_target, method: string) {
+        switch (method) {
+          case 'then':
+            return (resolve: (value: unknown) => unknown, reject: (reason: unknown) => unknown) =>
+              Promise.resolve().then(run).then(resolve, reject);
+          case 'select':
+            return () => {
+              returnRows = true;
+              return builder;
+            };
+          case 'insert':
+          case 'upsert':
+            return (values: Row | Row[]) => {
+              action = { kind: 'insert', rows: Array.isArray(values) ? values : [values] };
+              return builder;
+            };
+          case 'update':
+            return (changes: Row) => {
+              action = { kind: 'update', changes };
+              return builder;
+            };
+          case 'delete':
+            return () => {
+              action = { kind: 'delete' };
+              return builder;
+            };
+          case 'eq':
+            return (column: string, value: unknown) => {
+              filters.push((row) => row[column] === value);
+              return builder;
+            };
+          case 'in':
+            return (column: string, values: unknown[]) => {
+              filters.push((row) => values.includes(row[column]));
+              return builder;
+            };
+          case 'single':
+          case 'maybeSingle':
+            return () => {
+              single = method;
+              return builder;
+            };
+          default:
+            return () => builder;
+        }
+      },
+    });
+    return builder;
+  }
+
+  const client = {
+    from: query,
+    rpc: async () => ({ data: [], error: null }),
+    storage: {
+      from: () => ({
+        download: async (path: string) => {
+          const file = files.get(path);
+          return file
+            ? { data: new Blob([file]), error: null }
+            : { data: null, error: { message: 'Object not found', statusCode: '404' } };
+        },
+      }),
+    },
+  };
+
+  return { tables, files, rowsOf, client };
+});
+
+vi.mock('../supabase', () => ({ supabaseAdmin: db.client }));
+
+const DOCUMENT_TEXT = [
+  'Quarterly report for Acme Corp.',
+  'Revenue grew in every region during the third quarter, led by new contracts in the north.',
+  'Operating costs were flat, and the board approved the hiring plan for next year.',
+].join('\n\n');
+
+describe('processDocument', () => {
+  beforeEach(() => {
+    vi.stubEnv('AI_PROVIDER', 'fake');
+    setAIProvider(null);
+    db.tables.clear();
+    db.files.clear();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    db.files.set('user-1/report.txt', Buffer.from(DOCUMENT_TEXT));
+    db.rowsOf('documents').push({
+      id: 'doc-1',
+      user_id: 'user-1',
+      name: 'report.txt',
+      storage_path: 'user-1/report.txt',
+      status: DocumentStatus.UPLOADED,
+      processing_attempts: 0,
+    });
+  });
+
+  it('converts an uploaded document and marks it READY with full coverage', async () => {
+    const document = await processDocument('doc-1');
+
+    expect(document).not.toBeNull();
+    expect(document!.status).toBe(DocumentStatus.READY);
+    expect(document!.processing_coverage).toBe(ProcessingCoverage.FULL);
+    expect(document!.processed_chars).toBe(DOCUMENT_TEXT.length);
+    expect(document!.total_chars).toBe(DOCUMENT_TEXT.length);
+    expect(document!.processing_attempts).toBe(1);
+    expect(document!.failure_code).toBeNull();
+
+    const [stored] = db.rowsOf('documents');
+    expect(stored.ai_model).toBe('fake');
+    expect(stored.summary).toEqual(expect.stringMatching(/\S/));
+    expect(stored.markdown).toEqual(expect.stringMatching(/\S/));
+    expect(stored.markdown_source).toBe('ai_generated');
+
+    // The stored markdown is what gets embedded for search
+    const chunks = db.rowsOf('document_chunks');
+    expect(chunks.length).toBeGreaterThan(0);
+    expect(chunks.every((chunk) => chunk.document_id === 'doc-1')).toBe(true);
+    expect(chunks.map((chunk) => chunk.content).join('')).toContain((stored.markdown as string).substring(0, 20));
+  });
+
+  it('marks the document FAILED when its file is missing', async () => {
+    db.files.clear();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(processDocument('doc-1')).rejects.toMatchObject({ code: 'DOWNLOAD_FAILED' });
+
+    const [stored] = db.rowsOf('documents');
+    expect(stored.status).toBe(DocumentStatus.FAILED);
+    expect(stored.failure_code).toBe('DOWNLOAD_FAILED');
+    expect(stored.markdown).toBeUndefined();
+  });
+});
@@ -3,21 +3,38 @@
  * 
  * Orchestrates the AI processing workflow:
  * 1. Download file from storage
- * 2. Extract text content
- * 3. Process with Claude AI
- * 4. Update document status and results
+ * 2. Extract text content (OCR for scanned PDF pages)
+ * 3. Process with Claude AI (single pass or chunked map-reduce), extracting
+ *    summary, markdown and metadata
+ * 4. Propose tags for the user to accept or reject
+ * 5. Run the document's extraction templates
+ * 6. Update document status and results
  * 
  * Assumptions:
- * - Processing is async and non-blocking
- * - Failures are handled gracefully
+ * - Processing runs inside a job worker (see lib/jobs), never inline in a request
+ * - Failures update the document status and are rethrown so the worker can retry
  * - Status updates are atomic
  */
 
 import { supabaseAdmin } from '../supabase';
-import { processDocumentWithAI } from './claude';
-import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Document } from '@ai-document-vault/shared';
-import pdfParse from 'pdf-parse';
+import { processDocumentWithAI, suggestDocumentTags } from './claude';
+import type { ContinueCheck } from './claude';
+import { createChunkCheckpoints, clearChunkCheckpoints } from './checkpoints';
+import { DocumentStatus, JobType, ProcessingStage, ContentSource } from '@ai-document-vault/shared';
+import type { Document, DocumentMetadata, OcrPage, ProcessingCoverage } from '@ai-document-vault/shared';
+import { extractFile, ExtractionError } from '../extraction';
+import type { ExtractedText } from '../extraction';
+import { estimateProcessingCost, selectProcessingStrategy } from './cost-estimation';
+import { enqueueJob } from '../jobs/queue';
+import { JobInterruptedError } from '../jobs/errors';
+import { embedDocument } from '../embeddings';
+import { recordContentRevisions } from '../revisions';
+import { refreshSmartGroups } from '../groups';
+import { listTags, getDocumentTags, cleanTagSuggestions } from '../tags';
+import { runExtractionTemplates } from '../templates';
+import { createUsageMeter } from '../usage/store';
+import { admitDocumentProcessing } from '../quotas';
+import { ProcessingError, isRetryableError, toProcessingError } from './errors';
 
 /**
  * Download file content from Supabase Storage
@@ -70,39 +87,40 @@ async function downloadFileContent(storagePath: string): Promise<Buffer> {
 /**
  * Extract text content from file
  * 
- * Supports PDF and plain text files.
- * Other formats will be handled as text.
+ * Supports every format in the shared format registry (PDF, Word, text,
+ * Markdown, HTML, RTF, CSV, Excel, PowerPoint and email); see
+ * lib/extraction. Files without a supported extension are read as text.
+ * PDF pages without a text layer are read by OCR.
+ * 
+ * Files that cannot be parsed throw a ProcessingError (EXTRACTION_FAILED)
+ * instead of returning a placeholder, so the document is marked FAILED with
+ * a clear reason.
+ * 
+ * @param checkContinue - Called with 'ocr' before pages are read by OCR;
+ *   the JobInterruptedError it throws is passed on
  */
 export async function extractTextContent(
   fileBuffer: Buffer,
-  filename: string
-): Promise<string> {
-  const extension = filename.split('.').pop()?.toLowerCase();
-
+  filename: string,
+  checkContinue?: ContinueCheck
+): Promise<ExtractedText> {
   try {
-    if (extension === 'pdf') {
-      console.log(`[Text Extraction] Parsing PDF: ${filename} (${fileBuffer.length} bytes)`);
-      const pdfData = await pdfParse(fileBuffer);
-      const extractedText = pdfData.text || '';
-      console.log(`[Text Extraction] Extracted ${extractedText.length} characters from PDF`);
-      
-      if (extractedText.length === 0) {
-        console.warn(`[Text Extraction] PDF appears to be empty or image-only`);
-        return `[PDF file "${filename}" appears to be empty or contains only images. Unable to extract text.]`;
-      }
-      
-      return extractedText;
-    } else {
-      // Assume text file
-      console.log(`[Text Extraction] Reading as text file: ${filename}`);
-      const text = fileBuffer.toString('utf-8');
-      console.log(`[Text Extraction] Read ${text.length} characters from text file`);
-      return text;
-    }
+    const extracted = await extractFile(fileBuffer, filename, {
+      beforeOcr: checkContinue && (() => checkContinue('ocr')),
+    });
+    console.log(`[Text Extraction] Extracted ${extracted.text.length} characters from ${filename}${extracted.ocrPages.length > 0 ? `, ${extracted.ocrPages.length} page(s) by OCR` : ''}`);
+    return extracted;
   } catch (error) {
+    if (error instanceof JobInterruptedError) {
+      throw error;
+    }
     console.error(`[Text Extraction] Error extracting text from ${filename}:`, error);
-    // Return fallback
-    return `[Unable to extract text from ${filename}. Error: ${error instanceof Error ? error.message : 'Unknown error'}]`;
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ProcessingError(
+      'EXTRACTION_FAILED',
+      error instanceof ExtractionError ? errorMessage : `Unable to extract text from ${filename}: ${errorMessage}`,
+      ProcessingStage.EXTRACT
+    );
   }
 }
 
@@ -120,6 +138,19 @@ async function updateDocumentStatus(
     ai_model?: string | null;
     summary_source?: 'ai_generated' | 'user_modified';
     markdown_source?: 'ai_generated' | 'user_modified';
+    processing_coverage?: ProcessingCoverage | null;
+    processed_chars?: number | null;
+    total_chars?: number | null;
+    failure_code?: string | null;
+    failure_message?: string | null;
+    failure_stage?: ProcessingStage | null;
+    failed_at?: string | null;
+    processing_attempts?: number;
+    processing_started_at?: string | null;
+    processing_completed_at?: string | null;
+    suggested_tags?: string[];
+    metadata?: DocumentMetadata | null;
+    ocr_pages?: OcrPage[] | null;
   }
 ): Promise<void> {
   // Defensive validation
@@ -161,6 +192,61 @@ async function updateDocumentStatus(
   console.log(`[Status Update] Successfully updated document ${documentId} to ${status}`);
 }
 
+const MAX_SUGGESTED_TAGS = 5;
+const TAG_VOCABULARY_SIZE = 100;
+
+/**
+ * Ask the AI for tag suggestions, leaving out tags the document already has
+ * 
+ * Suggestions are optional, so failures are logged and yield none rather
+ * than failing processing.
+ */
+async function proposeDocumentTags(
+  document: { id: string; name: string; user_id: string },
+  summary: string,
+  requestId: string
+): Promise<string[]> {
+  const meter = createUsageMeter({ userId: document.user_id, documentId: document.id, operation: 'suggest_tags' });
+  try {
+    const [userTags, applied] = await Promise.all([
+      listTags(document.user_id),
+      getDocumentTags({ id: document.id }),
+    ]);
+    const vocabulary = [...userTags]
+      .sort((a, b) => (b.document_count ?? 0) - (a.document_count ?? 0))
+      .slice(0, TAG_VOCABULARY_SIZE)
+      .map((tag) => tag.name);
+
+    const proposed = await suggestDocumentTags(summary, document.name, vocabulary, meter.record);
+    return cleanTagSuggestions(proposed, applied.tags.map((tag) => tag.name), MAX_SUGGESTED_TAGS);
+  } catch (error) {
+    console.warn(`[AI Processing ${requestId}] Tag suggestion failed, continuing without suggestions:`, error instanceof Error ? error.message : error);
+    return [];
+  } finally {
+    await meter.flush();
+  }
+}
+
+export interface ProcessDocumentOptions {
+  /**
+   * Whether this is the last attempt the job queue will make. On failure the
+   * document is marked FAILED on the final attempt (or when the failure is
+   * not retryable), otherwise it goes back to UPLOADED while the job waits
+   * to be retried. Defaults to true.
+   */
+  finalAttempt?: boolean;
+
+  /**
+   * Called between stages, after each converted chunk and before OCR;
+   * throws (JobInterruptedError) to stop processing. Nothing is written to
+   * the document after it throws. The job worker stops once its lock on
+   * the job is lost, so a reaped job never has two writers, when its run
+   * is out of time, leaving the remaining chunks to a later run, and before
+   * OCR when it can't run OCR, leaving the job to a worker that can.
+   */
+  checkContinue?: ContinueCheck;
+}
+
 /**
  * Process a document with AI
  * 
@@ -168,13 +254,21 @@ async function updateDocumentStatus(
  * 1. Update status to PROCESSING
  * 2. Download file from storage
  * 3. Extract text content
- * 4. Process with Claude AI
- * 5. Update status to READY with results, or FAILED on error
+ * 4. Process with Claude AI, using the strategy chosen from the cost estimate
+ * 5. Propose tags from the summary (best effort)
+ * 6. Embed the generated markdown for semantic search and question answering
+ * 7. Update status to READY with results, or FAILED/UPLOADED on error
  * 
  * @param documentId - Document ID to process
+ * @param options - Retry context from the job queue
  * @returns Updated document or null if not found
+ * @throws When processing fails (after updating the document status)
  */
-export async function processDocument(documentId: string): Promise<Document | null> {
+export async function processDocument(
+  documentId: string,
+  options: ProcessDocumentOptions = {}
+): Promise<Document | null> {
+  const { finalAttempt = true, checkContinue } = options;
   const requestId = `process-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
   console.log(`[AI Processing ${requestId}] Starting processing for document: ${documentId}`);
 
@@ -184,9 +278,13 @@ export async function processDocument(documentId: string): Promise<Document | nu
     return null;
   }
 
+  // Stage currently executing, recorded on the document if processing fails
+  let stage: ProcessingStage = ProcessingStage.SAVE;
+  // Owner, once the document is loaded, for refreshing smart groups on failure
+  let ownerId: string | null = null;
+
   try {
     // Get document from database
-    const { estimateProcessingCost } = await import('@/lib/ai/cost-estimation');
     console.log(`[AI Processing ${requestId}] Fetching document from database...`);
     const { data: document, error: fetchError } = await supabaseAdmin
       .from('documents')
@@ -204,26 +302,39 @@ export async function processDocument(documentId: string): Promise<Document | nu
     }
 
     console.log(`[AI Processing ${requestId}] Document found: ${document.name}, current status: ${document.status}`);
+    ownerId = document.user_id;
 
-    // Update status to PROCESSING
-    console.log(`[AI Processing ${requestId}] Updating status to PROCESSING...`);
+    // A job that ran out of time goes back to the queue with its document
+    // still PROCESSING; resuming it continues the same attempt
+    const resuming = document.status === DocumentStatus.PROCESSING;
+
+    // Update status to PROCESSING, counting the attempt and clearing the previous failure
+    console.log(`[AI Processing ${requestId}] Updating status to PROCESSING${resuming ? ' (resuming)' : ''}...`);
     try {
-      await updateDocumentStatus(documentId, DocumentStatus.PROCESSING);
+      await updateDocumentStatus(documentId, DocumentStatus.PROCESSING, resuming ? {} : {
+        processing_attempts: ((document as Document).processing_attempts ?? 0) + 1,
+        processing_started_at: new Date().toISOString(),
+        failure_code: null,
+        failure_message: null,
+        failure_stage: null,
+      });
       console.log(`[AI Processing ${requestId}] Status updated to PROCESSING`);
     } catch (statusError) {
       console.error(`[AI Processing ${requestId}] Failed to update status to PROCESSING:`, statusError);
-      throw new Error(`Failed to update document status: ${statusError instanceof Error ? statusError.message : 'Unknown error'}`);
+      throw new ProcessingError('SAVE_FAILED', `Failed to update document status: ${statusError instanceof Error ? statusError.message : 'Unknown error'}`, ProcessingStage.SAVE);
     }
 
     // Download file from storage
+    stage = ProcessingStage.DOWNLOAD;
     console.log(`[AI Processing ${requestId}] Downloading file from storage: ${document.storage_path}`);
     let fileBuffer: Buffer;
+    let costEstimate: ReturnType<typeof estimateProcessingCost>;
     try {
       fileBuffer = await downloadFileContent(document.storage_path);
       console.log(`[AI Processing ${requestId}] File downloaded successfully (${fileBuffer.length} bytes)`);
       
       // Cost awareness: Log estimated processing complexity (non-blocking, informational)
-      const costEstimate = estimateProcessingCost(fileBuffer.length, document.name);
+      costEstimate = estimateProcessingCost(fileBuffer.length, document.name);
       if (costEstimate.isLargeDocument) {
         console.log(`[AI Processing ${requestId}] Cost awareness: Large document detected`, {
           fileName: document.name,
@@ -235,36 +346,83 @@ export async function processDocument(documentId: string): Promise<Document | nu
       }
     } catch (downloadError) {
       console.error(`[AI Processing ${requestId}] File download failed:`, downloadError);
-      throw new Error(`Failed to download file: ${downloadError instanceof Error ? downloadError.message : 'Unknown error'}`);
+      throw new ProcessingError('DOWNLOAD_FAILED', `Failed to download file: ${downloadError instanceof Error ? downloadError.message : 'Unknown error'}`, ProcessingStage.DOWNLOAD);
     }
 
     // Extract text content
+    stage = ProcessingStage.EXTRACT;
     console.log(`[AI Processing ${requestId}] Extracting text content from: ${document.name}`);
     let textContent: string;
+    let ocrPages: OcrPage[];
     try {
-      textContent = await extractTextContent(fileBuffer, document.name);
-      console.log(`[AI Processing ${requestId}] Extracted ${textContent.length} characters of text`);
-      
-      if (!textContent || textContent.trim().length === 0) {
-        throw new Error('Extracted text content is empty');
-      }
+      ({ text: textContent, ocrPages } = await extractTextContent(fileBuffer, document.name, checkContinue));
+      console.log(`[AI Processing ${requestId}] Extracted ${textContent.length} characters of text${ocrPages.length > 0 ? `, ${ocrPages.length} page(s) by OCR` : ''}`);
     } catch (extractError) {
+      if (extractError instanceof JobInterruptedError) {
+        throw extractError;
+      }
       console.error(`[AI Processing ${requestId}] Text extraction failed:`, extractError);
-      throw new Error(`Failed to extract text: ${extractError instanceof Error ? extractError.message : 'Unknown error'}`);
+      throw toProcessingError(extractError, 'EXTRACTION_FAILED', ProcessingStage.EXTRACT);
+    }
+
+    if (!textContent || textContent.trim().length === 0) {
+      throw new ProcessingError('EMPTY_CONTENT', `No text could be extracted from ${document.name}`, ProcessingStage.EXTRACT);
     }
 
     // Process with Claude AI
-    console.log(`[AI Processing ${requestId}] Calling Claude API for document: ${document.name}`);
+    await checkContinue?.('stage');
+    stage = ProcessingStage.AI;
+    const strategy = selectProcessingStrategy(costEstimate, textContent.length);
+    console.log(`[AI Processing ${requestId}] Calling Claude API for document: ${document.name}`, {
+      mode: strategy.mode,
+      complexity: costEstimate.complexity,
+      contentLength: textContent.length,
+    });
     let aiResult;
+    const meter = createUsageMeter({ userId: document.user_id, documentId, operation: 'process' });
     try {
-      aiResult = await processDocumentWithAI(textContent, document.name);
-      console.log(`[AI Processing ${requestId}] Claude API returned summary (${aiResult.summary.length} chars) and markdown (${aiResult.markdown.length} chars)`);
+      aiResult = await processDocumentWithAI(textContent, document.name, {
+        strategy,
+        onUsage: meter.record,
+        checkpoints: createChunkCheckpoints(documentId),
+        checkContinue,
+      });
+      console.log(`[AI Processing ${requestId}] Claude API returned summary (${aiResult.summary.length} chars) and markdown (${aiResult.markdown.length} chars), coverage: ${aiResult.coverage} (${aiResult.processedChars}/${aiResult.totalChars} chars)`);
     } catch (aiError) {
+      if (aiError instanceof JobInterruptedError) {
+        throw aiError;
+      }
       console.error(`[AI Processing ${requestId}] Claude API call failed:`, aiError);
-      throw new Error(`AI processing failed: ${aiError instanceof Error ? aiError.message : 'Unknown error'}`);
+      throw toProcessingError(aiError, 'AI_FAILED', ProcessingStage.AI);
+    } finally {
+      await meter.flush();
+    }
+
+    await checkContinue?.('stage');
+    const suggestedTags = await proposeDocumentTags(document, aiResult.summary, requestId);
+    console.log(`[AI Processing ${requestId}] Suggested ${suggestedTags.length} tag(s)`);
+
+    // Template failures are stored on their results and don't fail processing
+    const templateRun = await runExtractionTemplates(document, textContent, requestId);
+    if (templateRun.ran > 0) {
+      console.log(`[AI Processing ${requestId}] Ran ${templateRun.ran} template(s), ${templateRun.failed} failed`);
+    }
+
+    // Embed markdown so the document is searchable by meaning once READY
+    await checkContinue?.('stage');
+    stage = ProcessingStage.EMBED;
+    console.log(`[AI Processing ${requestId}] Computing embeddings for document: ${document.name}`);
+    try {
+      const embedResult = await embedDocument(documentId, document.user_id, aiResult.markdown);
+      console.log(`[AI Processing ${requestId}] Stored ${embedResult.chunkCount} embedded chunks (${embedResult.model})${embedResult.truncated ? ', truncated' : ''}`);
+    } catch (embedError) {
+      console.error(`[AI Processing ${requestId}] Embedding failed:`, embedError);
+      throw toProcessingError(embedError, 'EMBEDDING_FAILED', ProcessingStage.EMBED);
     }
 
     // Update document with AI results
+    await checkContinue?.('stage');
+    stage = ProcessingStage.SAVE;
     console.log(`[AI Processing ${requestId}] Updating document status to READY with AI results`);
     console.log(`[AI Processing ${requestId}] Summary preview: ${aiResult.summary.substring(0, 100)}...`);
     console.log(`[AI Processing ${requestId}] Markdown preview: ${aiResult.markdown.substring(0, 100)}...`);
@@ -276,13 +434,27 @@ export async function processDocument(documentId: string): Promise<Document | nu
         ai_model: aiResult.model,
         summary_source: 'ai_generated',
         markdown_source: 'ai_generated',
+        processing_coverage: aiResult.coverage,
+        processed_chars: aiResult.processedChars,
+        total_chars: aiResult.totalChars,
+        processing_completed_at: new Date().toISOString(),
+        suggested_tags: suggestedTags,
+        metadata: aiResult.metadata,
+        ocr_pages: ocrPages,
       });
       console.log(`[AI Processing ${requestId}] Database update completed successfully`);
     } catch (updateError) {
       console.error(`[AI Processing ${requestId}] Failed to update document with AI results:`, updateError);
-      throw new Error(`Failed to save AI results: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`);
+      throw new ProcessingError('SAVE_FAILED', `Failed to save AI results: ${updateError instanceof Error ? updateError.message : 'Unknown error'}`, ProcessingStage.SAVE);
     }
 
+    await clearChunkCheckpoints(documentId);
+    await recordContentRevisions(document, document.user_id, [
+      { field: 'summary', content: aiResult.summary, source: ContentSource.AI_GENERATED, aiModel: aiResult.model },
+      { field: 'markdown', content: aiResult.markdown, source: ContentSource.AI_GENERATED, aiModel: aiResult.model },
+    ]);
+    await refreshSmartGroups(document.user_id);
+
     // Fetch updated document to verify
     console.log(`[AI Processing ${requestId}] Verifying document update...`);
     const { data: updatedDocument, error: verifyError } = await supabaseAdmin
@@ -308,90 +480,270 @@ export async function processDocument(documentId: string): Promise<Document | nu
 
     return updatedDocument as Document | null;
   } catch (error) {
+    // Stopped by the job worker: another worker now owns the document, or
+    // this job resumes later
+    if (error instanceof JobInterruptedError) {
+      console.warn(`[AI Processing ${requestId}] Stopped processing document ${documentId}: ${error.message}`);
+      throw error;
+    }
+
     // Comprehensive error logging - no silent failures
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-    const errorStack = error instanceof Error ? error.stack : undefined;
+    const failure = toProcessingError(error, 'UNEXPECTED_ERROR', stage);
     
     console.error(`[AI Processing ${requestId}] ERROR processing document ${documentId}:`, {
-      message: errorMessage,
-      stack: errorStack,
+      code: failure.code,
+      stage: failure.stage,
+      message: failure.message,
+      stack: failure.stack,
       timestamp: new Date().toISOString(),
     });
 
-    // Update status to FAILED with detailed error context
-    // This is critical - we must mark the document as failed so the UI can show retry
+    // Update status to FAILED (or back to UPLOADED if the queue will retry),
+    // recording why so the UI can show the real reason next to Retry
+    const failureStatus = finalAttempt || !isRetryableError(failure) ? DocumentStatus.FAILED : DocumentStatus.UPLOADED;
     try {
-      await updateDocumentStatus(documentId, DocumentStatus.FAILED);
-      console.log(`[AI Processing ${requestId}] Updated document ${documentId} status to FAILED`);
+      await updateDocumentStatus(documentId, failureStatus, {
+        failure_code: failure.code,
+        failure_message: failure.message,
+        failure_stage: failure.stage,
+        failed_at: new Date().toISOString(),
+      });
+      console.log(`[AI Processing ${requestId}] Updated document ${documentId} status to ${failureStatus}`);
     } catch (updateError) {
       // Critical: If we can't update status, log extensively
       // This is a system-level failure that needs attention
-      console.error(`[AI Processing ${requestId}] CRITICAL: Failed to update status to FAILED for document ${documentId}:`, {
+      console.error(`[AI Processing ${requestId}] CRITICAL: Failed to update status to ${failureStatus} for document ${documentId}:`, {
         updateError: updateError instanceof Error ? updateError.message : String(updateError),
         updateErrorStack: updateError instanceof Error ? updateError.stack : undefined,
-        originalError: errorMessage,
-        originalErrorStack: errorStack,
+        originalError: failure.message,
+        originalErrorStack: failure.stack,
         timestamp: new Date().toISOString(),
       });
-      // Even if status update fails, we don't throw - system continues to function
+      // The reaper recovers documents left in PROCESSING without an active job
+    }
+
+    if (ownerId) {
+      await refreshSmartGroups(ownerId);
     }
 
-    // Return null to indicate failure
-    // Never throw - failures are handled gracefully and never break the system
+    // Rethrow so the job worker records the attempt and schedules a retry
+    throw failure;
+  }
+}
+
+/**
+ * Retry processing a failed document, or one waiting for quota
+ * 
+ * Checks the user's quotas, then resets status to UPLOADED, clears
+ * previous results and enqueues a new processing job. Transient failures
+ * are retried by the job queue with exponential backoff.
+ * 
+ * @param documentId - Document to retry
+ * @param userId - Owner of the document
+ * @returns The reset document, or null if it does not exist for this user
+ * @throws QuotaExceededError when over quota; the document is left as it was
+ */
+export async function retryDocumentProcessing(
+  documentId: string,
+  userId: string
+): Promise<Document | null> {
+  const { data: document, error: fetchError } = await supabaseAdmin
+    .from('documents')
+    .select('id, estimated_pages')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .single();
+
+  if (fetchError || !document) {
+    console.error(`[AI Retry] Document ${documentId} not found for user`);
     return null;
   }
+
+  await admitDocumentProcessing({
+    userId,
+    documentId,
+    operation: 'process',
+    pages: document.estimated_pages ?? 1,
+  });
+
+  // Reset status to UPLOADED
+  await updateDocumentStatus(documentId, DocumentStatus.UPLOADED, {
+    summary: null,
+    markdown: null,
+    ai_model: null,
+    processing_coverage: null,
+    processed_chars: null,
+    total_chars: null,
+    failure_code: null,
+    failure_message: null,
+    failure_stage: null,
+    suggested_tags: [],
+    metadata: null,
+  });
+
+  const job = await enqueueJob(documentId, userId, JobType.PROCESS);
+  console.log(`[AI Retry] Queued job ${job.id} for document ${documentId}`);
+  await refreshSmartGroups(userId);
+
+  const { data: resetDocument } = await supabaseAdmin
+    .from('documents')
+    .select('*')
+    .eq('id', documentId)
+    .single();
+
+  return resetDocument as Document | null;
 }
 
 /**
- * Retry processing a failed document
+ * Regenerate summary or markdown for a document
+ * 
+ * Re-extracts the original file and runs AI processing again, updating only
+ * the requested field (and the extracted metadata). The document stays
+ * READY throughout.
  * 
- * Resets status to UPLOADED and triggers processing again.
- * Includes retry logic with exponential backoff for transient failures.
+ * @param documentId - Document to regenerate
+ * @param type - Which field to regenerate
+ * @param options - Interruption check from the job worker
+ * @returns Updated document
+ * @throws When the document is missing, not READY, or processing fails
  */
-export async function retryDocumentProcessing(documentId: string): Promise<Document | null> {
-  const maxRetries = 3;
-  let retryCount = 0;
+export async function regenerateDocumentContent(
+  documentId: string,
+  type: 'summary' | 'markdown',
+  options: Pick<ProcessDocumentOptions, 'checkContinue'> = {}
+): Promise<Document> {
+  const { checkContinue } = options;
+  const requestId = `regenerate-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  console.log(`[AI Regenerate ${requestId}] Regenerating ${type} for document: ${documentId}`);
+
+  const { data: document, error: fetchError } = await supabaseAdmin
+    .from('documents')
+    .select('*')
+    .eq('id', documentId)
+    .single();
 
-  while (retryCount < maxRetries) {
-    try {
-      console.log(`[AI Retry] Attempt ${retryCount + 1}/${maxRetries} for document ${documentId}`);
-      
-      // Reset status to UPLOADED
-      await updateDocumentStatus(documentId, DocumentStatus.UPLOADED, {
-        summary: null,
-        markdown: null,
-        ai_model: null,
-      });
+  if (fetchError || !document) {
+    throw new Error(`Document ${documentId} not found`);
+  }
 
-      // Process again
-      const result = await processDocument(documentId);
-      
-      if (result) {
-        console.log(`[AI Retry] Successfully retried document ${documentId}`);
-        return result;
-      }
-      
-      // If result is null, processing failed - retry if attempts remain
-      retryCount++;
-      if (retryCount < maxRetries) {
-        const delay = Math.pow(2, retryCount) * 1000; // Exponential backoff: 2s, 4s, 8s
-        console.log(`[AI Retry] Processing returned null, retrying in ${delay}ms...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      console.error(`[AI Retry] Error on attempt ${retryCount + 1} for document ${documentId}:`, errorMessage);
-      
-      retryCount++;
-      if (retryCount < maxRetries) {
-        const delay = Math.pow(2, retryCount) * 1000;
-        console.log(`[AI Retry] Retrying in ${delay}ms after error...`);
-        await new Promise((resolve) => setTimeout(resolve, delay));
-      }
-    }
+  const doc = document as Document;
+  if (doc.status !== DocumentStatus.READY) {
+    throw new Error(`Document must be in READY status to regenerate content (current: ${doc.status})`);
   }
 
-  // All retries exhausted
-  console.error(`[AI Retry] All ${maxRetries} retry attempts exhausted for document ${documentId}`);
-  return null;
+  const fileBuffer = await downloadFileContent(doc.storage_path);
+  const { text: textContent } = await extractTextContent(fileBuffer, doc.name, checkContinue);
+  await checkContinue?.('stage');
+
+  // Process with AI, chunking long documents the same way as initial processing
+  const strategy = selectProcessingStrategy(
+    estimateProcessingCost(fileBuffer.length, doc.name),
+    textContent.length
+  );
+  const meter = createUsageMeter({ userId: document.user_id, documentId, operation: 'regenerate' });
+  let aiResult;
+  try {
+    aiResult = await processDocumentWithAI(textContent, doc.name, {
+      strategy,
+      task: type,
+      onUsage: meter.record,
+      checkpoints: createChunkCheckpoints(documentId),
+      checkContinue,
+    });
+  } finally {
+    await meter.flush();
+  }
+  await checkContinue?.('stage');
+
+  // Update only the requested content type
+  const updates: Record<string, unknown> = {};
+  if (type === 'summary') {
+    updates.summary = aiResult.summary;
+    updates.summary_source = 'ai_generated';
+  } else {
+    updates.markdown = aiResult.markdown;
+    updates.markdown_source = 'ai_generated';
+  }
+  updates.processing_coverage = aiResult.coverage;
+  updates.processed_chars = aiResult.processedChars;
+  updates.total_chars = aiResult.totalChars;
+  // Metadata isn't user-editable, so keep it in step with the latest pass
+  if (aiResult.metadata) {
+    updates.metadata = aiResult.metadata;
+  }
+
+  const { data: updatedDocument, error: updateError } = await supabaseAdmin
+    .from('documents')
+    .update(updates)
+    .eq('id', documentId)
+    .select()
+    .single();
+
+  if (updateError || !updatedDocument) {
+    console.error(`[AI Regenerate ${requestId}] Failed to save regenerated ${type}:`, updateError);
+    throw new Error(`Failed to save regenerated ${type}: ${updateError?.message || 'Unknown error'}`);
+  }
+
+  await clearChunkCheckpoints(documentId);
+
+  // Passage offsets point into the markdown, so new markdown must be re-embedded
+  if (type === 'markdown') {
+    await embedDocument(documentId, updatedDocument.user_id, aiResult.markdown);
+  }
+
+  await recordContentRevisions(updatedDocument, updatedDocument.user_id, [
+    {
+      field: type,
+      content: type === 'summary' ? aiResult.summary : aiResult.markdown,
+      source: ContentSource.AI_GENERATED,
+      aiModel: aiResult.model,
+    },
+  ]);
+  await refreshSmartGroups(updatedDocument.user_id);
+
+  console.log(`[AI Regenerate ${requestId}] Regenerated ${type} for document ${documentId}`);
+  return updatedDocument as Document;
+}
+
+/**
+ * Run a document's extraction templates again
+ * 
+ * Re-extracts the original file and runs every template that applies to
+ * the document, replacing their results. The document stays READY
+ * throughout; failures of individual templates are stored on their results.
+ * 
+ * @param documentId - Document whose templates to run
+ * @param options - Interruption check from the job worker
+ * @returns How many templates ran and how many of those failed
+ * @throws When the document is missing, not READY, or its text can't be extracted
+ */
+export async function rerunDocumentTemplates(
+  documentId: string,
+  options: Pick<ProcessDocumentOptions, 'checkContinue'> = {}
+): Promise<{ ran: number; failed: number }> {
+  const requestId = `templates-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  console.log(`[AI Templates ${requestId}] Running templates for document: ${documentId}`);
+
+  const { data: document, error: fetchError } = await supabaseAdmin
+    .from('documents')
+    .select('*')
+    .eq('id', documentId)
+    .single();
+
+  if (fetchError || !document) {
+    throw new Error(`Document ${documentId} not found`);
+  }
+
+  const doc = document as Document;
+  if (doc.status !== DocumentStatus.READY) {
+    throw new Error(`Document must be in READY status to run templates (current: ${doc.status})`);
+  }
+
+  const fileBuffer = await downloadFileContent(doc.storage_path);
+  const { text: textContent } = await extractTextContent(fileBuffer, doc.name, options.checkContinue);
+  await options.checkContinue?.('stage');
+  const result = await runExtractionTemplates(document, textContent, requestId);
+
+  console.log(`[AI Templates ${requestId}] Ran ${result.ran} template(s) for document ${documentId}, ${result.failed} failed`);
+  return result;
 }
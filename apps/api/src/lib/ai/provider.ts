@@ -0,0 +1,154 @@
+/**
+ * AI Providers
+ * 
+ * Pluggable source of text completions, structured output and embeddings.
+ * 
+ * Providers:
+ * - anthropic (default): Claude models (requires ANTHROPIC_API_KEY);
+ *   embeddings come from EMBEDDING_PROVIDER
+ * - fake: deterministic offline responses and local embeddings. No network
+ *   or API key, so the upload → READY flow runs in tests and local dev.
+ * 
+ * Selected with AI_PROVIDER. Models are chosen per task: AI_MODEL_<TASK>
+ * (e.g. AI_MODEL_SUMMARY), then AI_MODEL, then the provider's default.
+ */
+
+import type { TemplateSchema } from '@ai-document-vault/shared';
+import type { EmbeddingProvider } from '../embeddings/provider';
+import { createAnthropicProvider } from './anthropic';
+import { createFakeProvider } from './fake';
+
+/**
+ * What a model is used for; each task can use a different model
+ * 
+ * - summary: combining chunk summaries, and regenerating a summary
+ * - markdown: converting a document (or part) to markdown with its summary and metadata
+ * - grouping: group suggestions
+ * - tagging: tag suggestions
+ * - templates: extraction templates
+ * - answer: Ask Your Vault answers
+ */
+export type AITask = 'summary' | 'markdown' | 'grouping' | 'tagging' | 'templates' | 'answer';
+
+/**
+ * Tokens used by one AI call, as reported by the provider
+ */
+export interface AIUsage {
+  model: string;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+/**
+ * Receives the usage of every call made for a request, including calls
+ * whose response was rejected
+ */
+export type UsageListener = (usage: AIUsage) => void;
+
+export interface CompletionRequest {
+  task: AITask;
+  prompt: string;
+  system?: string;
+  maxTokens: number;
+  requestId: string;
+  onUsage?: UsageListener;
+}
+
+export interface CompletionResult {
+  text: string;
+  model: string;
+}
+
+/**
+ * A tool the model calls to return structured output
+ */
+export interface StructuredOutputTool {
+  name: string;
+  description: string;
+  schema: TemplateSchema; // Root must be an object
+}
+
+export interface StructuredOutputRequest<T> {
+  task: AITask;
+  prompt: string;
+  maxTokens: number;
+  tool: StructuredOutputTool;
+  /**
+   * Checks the schema can't express, e.g. ids the model must choose from.
+   * Returns a message describing the problem, or null when the output is valid.
+   */
+  check?: (output: T) => string | null;
+  requestId: string;
+  onUsage?: UsageListener;
+}
+
+export interface StructuredOutputResult<T> {
+  output: T; // Validated against the tool's schema, without properties outside it
+  model: string;
+}
+
+/**
+ * AI provider contract
+ * 
+ * Failures are thrown as ProcessingErrors in the AI stage.
+ */
+export interface AIProvider {
+  name: string;
+  /** Model used for a task, as recorded with its output */
+  modelFor(task: AITask): string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  /** Yields the response text as it is generated */
+  streamCompletion(request: CompletionRequest): AsyncGenerator<string>;
+  /**
+   * Request output matching the tool's schema. Invalid output is repaired
+   * or rejected with AI_INVALID_RESPONSE, never returned.
+   */
+  completeStructured<T>(request: StructuredOutputRequest<T>): Promise<StructuredOutputResult<T>>;
+  embeddings: EmbeddingProvider;
+}
+
+let providerOverride: AIProvider | null = null;
+let cachedProvider: AIProvider | null = null;
+
+/**
+ * Model for a task from the environment, or the provider's default
+ */
+export function modelForTask(task: AITask, defaultModel: string): string {
+  return process.env[`AI_MODEL_${task.toUpperCase()}`] || process.env.AI_MODEL || defaultModel;
+}
+
+/**
+ * Get the configured AI provider
+ * 
+ * @throws Error if AI_PROVIDER names an unknown provider
+ */
+export function getAIProvider(): AIProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const name = (process.env.AI_PROVIDER || 'anthropic').toLowerCase();
+  switch (name) {
+    case 'anthropic':
+      cachedProvider = createAnthropicProvider();
+      break;
+    case 'fake':
+      cachedProvider = createFakeProvider();
+      break;
+    default:
+      throw new Error(`Unknown AI_PROVIDER "${name}". Expected "anthropic" or "fake".`);
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Replace the configured provider (e.g. with a stub in tests).
+ * Pass null to return to the environment configuration.
+ */
+export function setAIProvider(provider: AIProvider | null): void {
+  providerOverride = provider;
+}
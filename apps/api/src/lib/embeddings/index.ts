@@ -0,0 +1,18 @@
+/**
+ * Embeddings Module
+ * 
+ * Central export point for embedding providers and chunk storage.
+ * 
+ * Usage:
+ *   import { embedDocument, embedQuery } from '@/lib/embeddings';
+ */
+
+// Providers
+export { getEmbeddingProvider, setEmbeddingProvider, EMBEDDING_DIMENSIONS } from './provider';
+export type { EmbeddingProvider, EmbeddingInputType } from './provider';
+export { createLocalEmbeddingProvider } from './local';
+export { createOpenAIEmbeddingProvider } from './openai';
+
+// Storage and queries
+export { embedDocument, embedQuery, toVectorLiteral, EMBEDDING_CHUNK_CHARS, MAX_EMBEDDED_CHUNKS } from './store';
+export type { EmbedDocumentResult, QueryEmbedding } from './store';
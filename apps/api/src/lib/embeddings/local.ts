@@ -0,0 +1,83 @@
+/**
+ * Local Embedding Provider
+ * 
+ * Deterministic embeddings using feature hashing: words and adjacent word
+ * pairs are hashed into a fixed number of signed buckets, then the vector is
+ * L2-normalised so cosine similarity reflects shared vocabulary.
+ * 
+ * Assumptions:
+ * - Same input always produces the same vector (no randomness, no network)
+ * - Quality is lexical, not semantic; use a hosted provider in production
+ */
+
+import type { EmbeddingProvider } from './provider';
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const BIGRAM_WEIGHT = 0.5;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'in',
+  'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was',
+  'were', 'will', 'with',
+]);
+
+/**
+ * 32-bit FNV-1a hash
+ */
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Lowercase words with stop words removed and simple plural folding
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(WORD_PATTERN) || [])
+    .filter((word) => !STOP_WORDS.has(word))
+    .map((word) => (word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word));
+}
+
+/**
+ * Add a weighted feature to its hashed, signed bucket
+ */
+function addFeature(vector: number[], feature: string, weight: number): void {
+  const hash = fnv1a(feature);
+  const sign = hash & 1 ? 1 : -1;
+  vector[(hash >>> 1) % vector.length] += sign * weight;
+}
+
+/**
+ * Embed a single text
+ */
+function embedText(text: string, dimensions: number): number[] {
+  const vector = new Array<number>(dimensions).fill(0);
+  const tokens = tokenize(text);
+
+  for (let i = 0; i < tokens.length; i++) {
+    addFeature(vector, tokens[i], 1);
+    if (i > 0) {
+      addFeature(vector, `${tokens[i - 1]} ${tokens[i]}`, BIGRAM_WEIGHT);
+    }
+  }
+
+  const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return norm === 0 ? vector : vector.map((value) => value / norm);
+}
+
+/**
+ * Create the deterministic local provider
+ * 
+ * @param dimensions - Vector width
+ */
+export function createLocalEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  return {
+    model: `local-hash-v1-${dimensions}`,
+    dimensions,
+    embed: async (texts) => texts.map((text) => embedText(text, dimensions)),
+  };
+}
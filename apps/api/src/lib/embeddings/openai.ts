@@ -0,0 +1,59 @@
+/**
+ * OpenAI Embedding Provider
+ * 
+ * Calls the OpenAI embeddings API over HTTPS.
+ * 
+ * Environment:
+ * - OPENAI_API_KEY (required)
+ * - OPENAI_EMBEDDING_MODEL (default text-embedding-3-small)
+ */
+
+import type { EmbeddingProvider } from './provider';
+
+const OPENAI_EMBEDDINGS_URL = 'https://api.openai.com/v1/embeddings';
+const DEFAULT_MODEL = 'text-embedding-3-small';
+
+interface OpenAIEmbeddingResponse {
+  data: Array<{ index: number; embedding: number[] }>;
+}
+
+/**
+ * Create the OpenAI provider
+ * 
+ * @param dimensions - Requested vector width (text-embedding-3 models support shortening)
+ * @throws Error if OPENAI_API_KEY is not set
+ */
+export function createOpenAIEmbeddingProvider(dimensions: number): EmbeddingProvider {
+  const apiKey = process.env.OPENAI_API_KEY;
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY environment variable is required when EMBEDDING_PROVIDER=openai');
+  }
+  const model = process.env.OPENAI_EMBEDDING_MODEL || DEFAULT_MODEL;
+
+  return {
+    model: `openai:${model}:${dimensions}`,
+    dimensions,
+    embed: async (texts) => {
+      if (texts.length === 0) {
+        return [];
+      }
+
+      const response = await fetch(OPENAI_EMBEDDINGS_URL, {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${apiKey}`,
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ model, input: texts, dimensions }),
+      });
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        throw new Error(`OpenAI embeddings request failed (${response.status}): ${body.substring(0, 200)}`);
+      }
+
+      const result = (await response.json()) as OpenAIEmbeddingResponse;
+      return [...result.data].sort((a, b) => a.index - b.index).map((item) => item.embedding);
+    },
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * Embedding Providers
+ * 
+ * Pluggable source of text embeddings for semantic search.
+ * 
+ * Providers:
+ * - local (default): deterministic feature-hashing embeddings computed in
+ *   process. No network or API key, so semantic search works offline and
+ *   in tests. Captures shared vocabulary rather than true meaning.
+ * - openai: OpenAI embeddings API (requires OPENAI_API_KEY)
+ * 
+ * Selected with EMBEDDING_PROVIDER. Every provider must return vectors of
+ * EMBEDDING_DIMENSIONS values to fit the document_chunks.embedding column.
+ * 
+ * Callers go through the AI provider (getAIProvider().embeddings), which
+ * uses this selection except with AI_PROVIDER=fake, where embeddings are
+ * always local.
+ */
+
+import { createLocalEmbeddingProvider } from './local';
+import { createOpenAIEmbeddingProvider } from './openai';
+
+/**
+ * Width of the document_chunks.embedding column
+ */
+export const EMBEDDING_DIMENSIONS = 1536;
+
+/**
+ * Whether text is being embedded for storage or as a search query.
+ * Some models embed queries and documents differently.
+ */
+export type EmbeddingInputType = 'document' | 'query';
+
+/**
+ * Embedding provider contract
+ */
+export interface EmbeddingProvider {
+  /** Identifier stored with each vector; vectors are only compared within a model */
+  model: string;
+  dimensions: number;
+  embed(texts: string[], inputType: EmbeddingInputType): Promise<number[][]>;
+}
+
+let providerOverride: EmbeddingProvider | null = null;
+let cachedProvider: EmbeddingProvider | null = null;
+
+/**
+ * Get the configured embedding provider
+ * 
+ * @throws Error if EMBEDDING_PROVIDER names an unknown provider
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  if (providerOverride) {
+    return providerOverride;
+  }
+  if (cachedProvider) {
+    return cachedProvider;
+  }
+
+  const name = (process.env.EMBEDDING_PROVIDER || 'local').toLowerCase();
+  switch (name) {
+    case 'local':
+      cachedProvider = createLocalEmbeddingProvider(EMBEDDING_DIMENSIONS);
+      break;
+    case 'openai':
+      cachedProvider = createOpenAIEmbeddingProvider(EMBEDDING_DIMENSIONS);
+      break;
+    default:
+      throw new Error(`Unknown EMBEDDING_PROVIDER "${name}". Expected "local" or "openai".`);
+  }
+
+  return cachedProvider;
+}
+
+/**
+ * Replace the configured provider (e.g. with a stub in tests).
+ * Pass null to return to the environment configuration.
+ */
+export function setEmbeddingProvider(provider: EmbeddingProvider | null): void {
+  providerOverride = provider;
+}
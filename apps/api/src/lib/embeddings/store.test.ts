@@ -0,0 +1,113 @@
+/**
+ * Semantic search over stored embeddings
+ *
+ * Embeds documents with the deterministic local provider (AI_PROVIDER=fake)
+ * and queries them through match_documents in the migrated schema, so the
+ * ranking and filtering are the ones the search route gets.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus } from '@ai-document-vault/shared';
+import type { Document } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { setAIProvider } from '../ai/provider';
+import { embedDocument, embedQuery } from './store';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('../supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+let database: TestDatabase;
+
+/**
+ * Store and embed a document
+ */
+async function addDocument(name: string, markdown: string, status = DocumentStatus.READY): Promise<string> {
+  const { data, error } = await database.client
+    .from('documents')
+    .insert({ user_id: USER_ID, name, storage_path: `${USER_ID}/${name}`, status, markdown })
+    .select('id')
+    .single();
+  expect(error).toBeNull();
+
+  const id = (data as { id: string }).id;
+  await embedDocument(id, USER_ID, markdown);
+  return id;
+}
+
+/**
+ * Run match_documents for a query, returning the matched document ids in order
+ */
+async function match(query: string, options: { limit?: number; status?: DocumentStatus } = {}): Promise<string[]> {
+  const embedding = await embedQuery(query);
+  expect(embedding).not.toBeNull();
+
+  const { data, error } = await database.client.rpc('match_documents', {
+    p_user_id: USER_ID,
+    p_embedding: embedding!.vector,
+    p_embedding_model: embedding!.model,
+    p_status: options.status ?? null,
+    p_limit: options.limit ?? 20,
+  });
+  expect(error).toBeNull();
+  return (data as Array<{ document: Document }>).map((row) => row.document.id);
+}
+
+describe('semantic search with local embeddings', () => {
+  beforeAll(async () => {
+    vi.stubEnv('AI_PROVIDER', 'fake');
+    setAIProvider(null);
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    setAIProvider(null);
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  it('embeds a document into chunks for its owner and model', async () => {
+    const id = await addDocument('invoice.md', '# Invoice\n\nAcme Corp bills 1,250 USD for consulting services.');
+
+    const { data } = await database.client
+      .from('document_chunks')
+      .select('document_id, user_id, embedding_model')
+      .eq('document_id', id);
+
+    expect(data).toEqual([{ document_id: id, user_id: USER_ID, embedding_model: 'local-hash-v1-1536' }]);
+  });
+
+  it('ranks documents by the vocabulary they share with the query', async () => {
+    const garden = await addDocument('garden.md', 'Planting schedule for tomatoes and peppers in the spring garden.');
+    const partial = await addDocument('terms.md', 'Payment terms for consulting work: invoices are due in 30 days.');
+    const invoice = await addDocument('invoice.md', 'Invoice from Acme Corp for consulting services in March.');
+
+    expect(await match('Acme consulting invoice')).toEqual([invoice, partial, garden]);
+  });
+
+  it('has no query embedding for a query of stop words only', async () => {
+    expect(await embedQuery('the and of')).toBeNull();
+  });
+
+  it('widens the candidates until a filtered search fills its page', async () => {
+    // More closer chunks fail the filter than the first pass ranks (limit * 10)
+    for (let i = 0; i < 12; i++) {
+      await addDocument(`draft-${i}.md`, 'Acme consulting invoice', DocumentStatus.PROCESSING);
+    }
+    const ready = await addDocument('invoice.md', 'Invoice from Acme Corp for consulting services in March.');
+
+    expect(await match('Acme consulting invoice', { limit: 1 })).not.toContain(ready);
+    expect(await match('Acme consulting invoice', { limit: 1, status: DocumentStatus.READY })).toEqual([ready]);
+  });
+});
@@ -0,0 +1,153 @@
+/**
+ * Document Chunk Embeddings
+ * 
+ * Splits a document's markdown into passages, embeds them with the
+ * configured provider and stores them in document_chunks for similarity
+ * search and question answering.
+ * 
+ * Assumptions:
+ * - Chunks are exact slices of documents.markdown; start_offset/end_offset
+ *   locate them so answers can cite the exact passage
+ * - Markdown changes (edits, regeneration) must re-embed to keep offsets valid
+ * - Re-embedding replaces all of a document's previous chunks
+ * - Very long documents are capped at MAX_EMBEDDED_CHUNKS (leading text wins)
+ * - Chunks without any words are skipped (they would embed to a zero vector)
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { splitIntoSpans } from '../ai/chunking';
+import { getAIProvider } from '../ai/provider';
+
+export const EMBEDDING_CHUNK_CHARS = 1500;
+export const MAX_EMBEDDED_CHUNKS = 400;
+const EMBEDDING_BATCH_SIZE = 64;
+
+/**
+ * Result of embedding a document
+ */
+export interface EmbedDocumentResult {
+  chunkCount: number;
+  model: string;
+  truncated: boolean; // True when the document exceeded MAX_EMBEDDED_CHUNKS
+}
+
+/**
+ * Query embedding ready for the match_documents function
+ */
+export interface QueryEmbedding {
+  vector: string; // pgvector literal
+  model: string;
+}
+
+/**
+ * Format a vector as a pgvector literal ("[0.1,0.2,...]")
+ */
+export function toVectorLiteral(vector: number[]): string {
+  return `[${vector.join(',')}]`;
+}
+
+function isZeroVector(vector: number[]): boolean {
+  return vector.every((value) => value === 0);
+}
+
+/**
+ * Embed a document's markdown and replace its stored chunks
+ * 
+ * @param documentId - Document the markdown belongs to
+ * @param userId - Owner (denormalised onto chunks for per-user search)
+ * @param markdown - Current documents.markdown (empty clears the chunks)
+ * @throws Error if embedding or storing the chunks fails
+ */
+export async function embedDocument(
+  documentId: string,
+  userId: string,
+  markdown: string
+): Promise<EmbedDocumentResult> {
+  const provider = getAIProvider().embeddings;
+  const allChunks = splitIntoSpans(markdown, EMBEDDING_CHUNK_CHARS).filter((span) => /[\p{L}\p{N}]/u.test(span.text));
+  const chunks = allChunks.slice(0, MAX_EMBEDDED_CHUNKS);
+
+  const rows: Array<{
+    document_id: string;
+    user_id: string;
+    chunk_index: number;
+    content: string;
+    start_offset: number;
+    end_offset: number;
+    embedding: string;
+    embedding_model: string;
+  }> = [];
+
+  for (let start = 0; start < chunks.length; start += EMBEDDING_BATCH_SIZE) {
+    const batch = chunks.slice(start, start + EMBEDDING_BATCH_SIZE);
+    const vectors = await provider.embed(batch.map((span) => span.text), 'document');
+
+    if (vectors.length !== batch.length) {
+      throw new Error(`Embedding provider returned ${vectors.length} vectors for ${batch.length} chunks`);
+    }
+
+    vectors.forEach((vector, offset) => {
+      if (vector.length !== provider.dimensions) {
+        throw new Error(`Embedding has ${vector.length} dimensions, expected ${provider.dimensions}`);
+      }
+      if (isZeroVector(vector)) {
+        return;
+      }
+      rows.push({
+        document_id: documentId,
+        user_id: userId,
+        chunk_index: start + offset,
+        content: batch[offset].text,
+        start_offset: batch[offset].start,
+        end_offset: batch[offset].end,
+        embedding: toVectorLiteral(vector),
+        embedding_model: provider.model,
+      });
+    });
+  }
+
+  const { error: deleteError } = await supabaseAdmin
+    .from('document_chunks')
+    .delete()
+    .eq('document_id', documentId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear previous embeddings: ${deleteError.message}`);
+  }
+
+  for (let start = 0; start < rows.length; start += EMBEDDING_BATCH_SIZE) {
+    const { error: insertError } = await supabaseAdmin
+      .from('document_chunks')
+      .insert(rows.slice(start, start + EMBEDDING_BATCH_SIZE));
+
+    if (insertError) {
+      throw new Error(`Failed to store embeddings: ${insertError.message}`);
+    }
+  }
+
+  return {
+    chunkCount: rows.length,
+    model: provider.model,
+    truncated: allChunks.length > chunks.length,
+  };
+}
+
+/**
+ * Embed a search query
+ * 
+ * @param query - Natural-language query
+ * @returns Query embedding, or null when the query has no embeddable words
+ */
+export async function embedQuery(query: string): Promise<QueryEmbedding | null> {
+  const provider = getAIProvider().embeddings;
+  const [vector] = await provider.embed([query], 'query');
+
+  if (!vector || isZeroVector(vector)) {
+    return null;
+  }
+
+  return {
+    vector: toVectorLiteral(vector),
+    model: provider.model,
+  };
+}
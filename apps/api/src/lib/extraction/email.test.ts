@@ -0,0 +1,102 @@
+/**
+ * Email extraction
+ */
+
+import { describe, expect, it, vi } from 'vitest';
+import { extractEml } from './email';
+
+const BOUNDARY = 'boundary-42';
+
+/**
+ * A multipart message with an HTML body and the given attachments
+ */
+function message(attachments: Array<{ name: string; type: string; content: string }>): Buffer {
+  const parts = [
+    ['Content-Type: text/html; charset=utf-8', '', '<h2>Hello</h2><p>The <b>invoice</b> is attached.</p>'].join('\r\n'),
+    ...attachments.map((attachment) =>
+      [
+        `Content-Type: ${attachment.type}; name="${attachment.name}"`,
+        `Content-Disposition: attachment; filename="${attachment.name}"`,
+        'Content-Transfer-Encoding: base64',
+        '',
+        Buffer.from(attachment.content).toString('base64'),
+      ].join('\r\n')
+    ),
+  ];
+
+  return Buffer.from(
+    [
+      'From: Ada Lovelace <ada@example.com>',
+      'To: Billing <billing@example.com>',
+      'Cc: Charles <charles@example.com>',
+      'Subject: March invoice',
+      'Date: Tue, 03 Mar 2026 10:00:00 +0000',
+      'MIME-Version: 1.0',
+      `Content-Type: multipart/mixed; boundary="${BOUNDARY}"`,
+      '',
+      ...parts.map((part) => `--${BOUNDARY}\r\n${part}`),
+      `--${BOUNDARY}--`,
+      '',
+    ].join('\r\n')
+  );
+}
+
+describe('extractEml', () => {
+  it('renders the subject, headers and HTML body as Markdown', async () => {
+    const markdown = await extractEml(message([]), 'invoice.eml', async () => null);
+
+    expect(markdown).toBe(
+      [
+        '# March invoice',
+        '',
+        '**From:** "Ada Lovelace" <ada@example.com>  \n**To:** "Billing" <billing@example.com>  \n' +
+          '**Cc:** "Charles" <charles@example.com>  \n**Date:** 2026-03-03T10:00:00.000Z',
+        '',
+        '## Hello',
+        '',
+        'The **invoice** is attached.',
+      ].join('\n')
+    );
+  });
+
+  it('reads a plain text message without headers it does not have', async () => {
+    const eml = Buffer.from('Subject:  \r\n\r\nJust a note.\r\n');
+
+    expect(await extractEml(eml, 'note.eml', async () => null)).toBe('# (no subject)\n\nJust a note.');
+  });
+
+  it('extracts supported attachments and lists the others', async () => {
+    const eml = message([
+      { name: 'totals.csv', type: 'text/csv', content: 'Item,Amount\nConsulting,1250' },
+      { name: 'archive.zip', type: 'application/zip', content: 'PK' },
+      { name: 'broken.xlsx', type: 'application/octet-stream', content: 'not a workbook' },
+    ]);
+    const extractAttachment = vi.fn(async (content: Buffer, name: string) => {
+      if (name.endsWith('.zip')) return null;
+      if (name.endsWith('.xlsx')) throw new Error('Could not read Excel workbook "broken.xlsx".');
+      return `Extracted ${content.toString()}`;
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const markdown = await extractEml(eml, 'invoice.eml', extractAttachment);
+
+    expect(extractAttachment).toHaveBeenCalledTimes(3);
+    expect(markdown).toContain(
+      [
+        '## Attachments',
+        '',
+        '### totals.csv',
+        '',
+        'Extracted Item,Amount\nConsulting,1250',
+        '',
+        '### archive.zip',
+        '',
+        '*Not extracted: unsupported format (application/zip).*',
+        '',
+        '### broken.xlsx',
+        '',
+        '*Not extracted: Could not read Excel workbook "broken.xlsx".*',
+      ].join('\n')
+    );
+  });
+});
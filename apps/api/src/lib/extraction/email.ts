@@ -0,0 +1,109 @@
+/**
+ * Email Extraction
+ *
+ * Converts .eml messages (RFC 822 / MIME) to Markdown with mailparser:
+ *
+ *   # Subject
+ *
+ *   **From:** ...  **To:** ...  **Cc:** ...  **Date:** ...
+ *
+ *   Body
+ *
+ *   ## Attachments
+ *
+ *   ### report.pdf
+ *
+ *   Text of the attachment
+ *
+ * Assumptions:
+ * - HTML bodies are converted to Markdown; otherwise the plain text body
+ *   is used
+ * - Attachments in a supported format are extracted with the same
+ *   extractors as uploads; others are listed by name. An attachment that
+ *   fails to extract is listed with the reason and doesn't fail the email
+ * - Inline images referenced by the HTML body are dropped
+ */
+
+import { simpleParser } from 'mailparser';
+import type { AddressObject, ParsedMail } from 'mailparser';
+import { ExtractionError } from './errors';
+import { htmlToMarkdown } from './html';
+
+/**
+ * Extracts an attachment's text
+ *
+ * @returns The text, or null when the attachment's format isn't supported
+ */
+export type AttachmentExtractor = (fileBuffer: Buffer, filename: string) => Promise<string | null>;
+
+function formatAddresses(addresses: AddressObject | AddressObject[] | undefined): string | null {
+  if (!addresses) {
+    return null;
+  }
+  const text = (Array.isArray(addresses) ? addresses : [addresses]).map((address) => address.text).join(', ');
+  return text || null;
+}
+
+function headerLines(mail: ParsedMail): string[] {
+  const headers: Array<[string, string | null]> = [
+    ['From', formatAddresses(mail.from)],
+    ['To', formatAddresses(mail.to)],
+    ['Cc', formatAddresses(mail.cc)],
+    ['Date', mail.date ? mail.date.toISOString() : null],
+  ];
+  return headers.filter(([, value]) => value).map(([name, value]) => `**${name}:** ${value}`);
+}
+
+/**
+ * Extract an email as Markdown: headers, body and attachments
+ *
+ * @param fileBuffer - Raw .eml bytes
+ * @param filename - Original filename (for error messages)
+ * @param extractAttachment - Extractor for attachments
+ * @returns Markdown representation of the message
+ */
+export async function extractEml(
+  fileBuffer: Buffer,
+  filename: string,
+  extractAttachment: AttachmentExtractor
+): Promise<string> {
+  let mail: ParsedMail;
+  try {
+    mail = await simpleParser(fileBuffer);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ExtractionError(`Could not read email "${filename}" (${errorMessage}).`);
+  }
+
+  const sections = [`# ${mail.subject?.trim() || '(no subject)'}`];
+
+  const headers = headerLines(mail);
+  if (headers.length > 0) {
+    sections.push(headers.join('  \n'));
+  }
+
+  const body = mail.html ? htmlToMarkdown(mail.html) : (mail.text || '').trim();
+  if (body) {
+    sections.push(body);
+  }
+
+  const attachments = mail.attachments.filter((attachment) => !attachment.related);
+  if (attachments.length > 0) {
+    sections.push('## Attachments');
+    for (const [index, attachment] of attachments.entries()) {
+      const name = attachment.filename || `attachment-${index + 1}`;
+      let content: string;
+      try {
+        const text = await extractAttachment(attachment.content, name);
+        content = text === null ? `*Not extracted: unsupported format (${attachment.contentType}).*` : text.trim() || '*No text.*';
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.warn(`[Text Extraction] ${filename}: attachment ${name} could not be extracted: ${errorMessage}`);
+        content = `*Not extracted: ${errorMessage}*`;
+      }
+      sections.push(`### ${name}\n\n${content}`);
+    }
+  }
+
+  return sections.join('\n\n');
+}
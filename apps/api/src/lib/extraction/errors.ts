@@ -0,0 +1,16 @@
+/**
+ * Extraction Errors
+ */
+
+/**
+ * Error thrown when a file cannot be converted to text
+ *
+ * The message is shown to the user as the reason processing failed.
+ * Format-specific errors extend it.
+ */
+export class ExtractionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExtractionError';
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * HTML Extraction
+ *
+ * Converts HTML pages (and HTML email bodies) to GitHub-flavoured Markdown
+ * with turndown, keeping headings, lists, links and tables.
+ *
+ * Assumptions:
+ * - Scripts, styles, the <head> and images are dropped (they carry no
+ *   readable text; images are often large data URIs)
+ */
+
+import TurndownService from 'turndown';
+import { gfm } from 'turndown-plugin-gfm';
+import { decodeText } from './text';
+
+/**
+ * Convert an HTML string to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    bulletListMarker: '-',
+    codeBlockStyle: 'fenced',
+    emDelimiter: '*',
+  });
+
+  turndown.use(gfm);
+  turndown.remove(['head', 'title', 'script', 'style', 'noscript', 'template', 'img', 'iframe']);
+
+  return turndown.turndown(html).trim();
+}
+
+/**
+ * Extract an HTML file as Markdown
+ *
+ * @param fileBuffer - Raw HTML bytes
+ * @returns Markdown representation of the page
+ */
+export async function extractHtml(fileBuffer: Buffer): Promise<string> {
+  return htmlToMarkdown(decodeText(fileBuffer));
+}
@@ -0,0 +1,33 @@
+/**
+ * Extraction Module
+ * 
+ * Central export point for format-specific text extractors and the
+ * registry that picks one for each supported format.
+ * 
+ * Usage:
+ *   import { extractFile } from '@/lib/extraction';
+ *   const { text, ocrPages } = await extractFile(fileBuffer, document.name);
+ */
+
+// Registry
+export { extractFile } from './registry';
+export type { ExtractedText, ExtractOptions, Extractor } from './registry';
+
+// Errors
+export { ExtractionError } from './errors';
+
+// Word documents
+export { extractDocx, extractDoc, WordExtractionError } from './word';
+
+// PDFs, with OCR for scanned pages
+export { extractPdf, PdfExtractionError } from './pdf';
+export type { PdfExtraction } from './pdf';
+export { OcrError } from './ocr';
+
+// Text, HTML, RTF, spreadsheets, presentations and email
+export { extractPlainText } from './text';
+export { extractHtml, htmlToMarkdown } from './html';
+export { extractRtf } from './rtf';
+export { extractCsv, extractXlsx } from './spreadsheet';
+export { extractPptx } from './presentation';
+export { extractEml } from './email';
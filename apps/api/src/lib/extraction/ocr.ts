@@ -0,0 +1,199 @@
+/**
+ * PDF OCR
+ *
+ * Reads the text of scanned PDF pages locally, without network access:
+ *
+ * - pdftoppm (poppler-utils) renders each page to a PNG
+ * - tesseract reads the image. Its TSV output has a confidence per word,
+ *   which is averaged into a confidence per page
+ *
+ * Configuration:
+ * - OCR_ENABLED: "false" turns OCR off
+ * - OCR_LANGUAGES: tesseract languages, e.g. "eng+deu" (default: eng)
+ * - OCR_DPI: resolution pages are rendered at (default: 300)
+ * - OCR_MAX_PAGES: pages read per document at most (default: 100)
+ * - OCR_TIMEOUT_MS: time limit per page and step (default: 120000)
+ * - TESSERACT_PATH, PDFTOPPM_PATH: the binaries, when not on PATH
+ *
+ * Assumptions:
+ * - OCR runs on workers that have both binaries and the tesseract language
+ *   data: the standalone worker (src/worker.ts, built with
+ *   Dockerfile.worker) or the local development server. The cron worker
+ *   has neither and hands OCR jobs off (see lib/jobs/worker)
+ * - OCR_TIMEOUT_MS limits each pdftoppm or tesseract run, not the
+ *   document: OCR_MAX_PAGES pages can take up to 2 * OCR_MAX_PAGES *
+ *   OCR_TIMEOUT_MS, which is why it only runs on a worker without a
+ *   time limit
+ * - Files are written to a temporary directory that is removed afterwards
+ */
+
+import { execFile } from 'child_process';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { promisify } from 'util';
+import { ExtractionError } from './errors';
+
+const execFileAsync = promisify(execFile);
+
+const DEFAULT_DPI = 300;
+const DEFAULT_MAX_PAGES = 100;
+const DEFAULT_TIMEOUT_MS = 120_000;
+const MAX_OUTPUT_BYTES = 32 * 1024 * 1024;
+
+/**
+ * Error thrown when OCR can't run or fails
+ */
+export class OcrError extends ExtractionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OcrError';
+  }
+}
+
+/**
+ * Text read from one page
+ */
+export interface OcrPageText {
+  page: number; // 1-based page number
+  text: string;
+  confidence: number; // Mean word confidence, 0-100 (0 when no words were read)
+}
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Whether OCR is turned on (it is unless OCR_ENABLED is "false")
+ */
+export function isOcrEnabled(): boolean {
+  return process.env.OCR_ENABLED !== 'false';
+}
+
+/**
+ * Most pages of one document that are read by OCR
+ */
+export function getOcrMaxPages(): number {
+  return Math.floor(numberFromEnv('OCR_MAX_PAGES', DEFAULT_MAX_PAGES));
+}
+
+/**
+ * Run a binary, turning a missing binary or a failure into an OcrError
+ */
+async function run(binary: string, args: string[]): Promise<string> {
+  try {
+    const { stdout } = await execFileAsync(binary, args, {
+      timeout: numberFromEnv('OCR_TIMEOUT_MS', DEFAULT_TIMEOUT_MS),
+      maxBuffer: MAX_OUTPUT_BYTES,
+      encoding: 'utf8',
+    });
+    return stdout;
+  } catch (error) {
+    const failure = error as NodeJS.ErrnoException & { killed?: boolean; stderr?: string };
+    if (failure.code === 'ENOENT') {
+      throw new OcrError(`OCR is not available: ${binary} is not installed on the server.`);
+    }
+    if (failure.killed) {
+      throw new OcrError(`OCR timed out running ${binary}.`);
+    }
+    const detail = failure.stderr?.trim() || failure.message;
+    throw new OcrError(`OCR failed running ${binary}: ${detail}`);
+  }
+}
+
+/**
+ * Turn tesseract TSV output into text and a mean word confidence
+ *
+ * Columns: level, page_num, block_num, par_num, line_num, word_num, left,
+ * top, width, height, conf, text. Words (level 5) are joined per line, and
+ * paragraphs are separated by a blank line.
+ */
+function parseTesseractTsv(tsv: string): { text: string; confidence: number } {
+  const paragraphs: string[][] = [];
+  const confidences: number[] = [];
+  let paragraphKey = '';
+  let lineKey = '';
+
+  for (const row of tsv.split('\n').slice(1)) {
+    const columns = row.split('\t');
+    if (columns.length < 12 || columns[0] !== '5') {
+      continue;
+    }
+    const word = columns.slice(11).join('\t').trim();
+    const confidence = Number(columns[10]);
+    if (!word || confidence < 0) {
+      continue;
+    }
+
+    const nextParagraph = `${columns[2]}.${columns[3]}`;
+    const nextLine = `${nextParagraph}.${columns[4]}`;
+    if (nextParagraph !== paragraphKey) {
+      paragraphs.push([]);
+      paragraphKey = nextParagraph;
+      lineKey = '';
+    }
+    const lines = paragraphs[paragraphs.length - 1];
+    if (nextLine !== lineKey) {
+      lines.push(word);
+      lineKey = nextLine;
+    } else {
+      lines[lines.length - 1] += ` ${word}`;
+    }
+    confidences.push(confidence);
+  }
+
+  const mean = confidences.length > 0
+    ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length
+    : 0;
+
+  return {
+    text: paragraphs.map((lines) => lines.join('\n')).join('\n\n'),
+    confidence: Math.round(mean * 10) / 10,
+  };
+}
+
+/**
+ * Read pages of a PDF by OCR
+ *
+ * @param fileBuffer - Raw PDF bytes
+ * @param pages - 1-based numbers of the pages to read
+ * @returns The text and confidence of each page, in the order given
+ * @throws OcrError when the binaries are missing, time out or fail
+ */
+export async function ocrPdfPages(fileBuffer: Buffer, pages: number[]): Promise<OcrPageText[]> {
+  if (pages.length === 0) {
+    return [];
+  }
+
+  const pdftoppm = process.env.PDFTOPPM_PATH || 'pdftoppm';
+  const tesseract = process.env.TESSERACT_PATH || 'tesseract';
+  const languages = process.env.OCR_LANGUAGES || 'eng';
+  const dpi = String(Math.floor(numberFromEnv('OCR_DPI', DEFAULT_DPI)));
+
+  const directory = await mkdtemp(join(tmpdir(), 'vault-ocr-'));
+  try {
+    const input = join(directory, 'input.pdf');
+    await writeFile(input, fileBuffer);
+
+    const results: OcrPageText[] = [];
+    for (const page of pages) {
+      const prefix = join(directory, `page-${page}`);
+      await run(pdftoppm, ['-f', String(page), '-l', String(page), '-r', dpi, '-png', '-singlefile', input, prefix]);
+
+      // -singlefile writes <prefix>.png; check it exists before reading it
+      const image = `page-${page}.png`;
+      if (!(await readdir(directory)).includes(image)) {
+        throw new OcrError(`OCR failed: page ${page} could not be rendered.`);
+      }
+
+      const tsv = await run(tesseract, [join(directory, image), 'stdout', '-l', languages, 'tsv']);
+      results.push({ page, ...parseTesseractTsv(tsv) });
+      await rm(join(directory, image), { force: true });
+    }
+    return results;
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Office Open XML Helpers
+ *
+ * Shared reading of XLSX and PPTX packages: a ZIP of XML parts linked by
+ * relationship parts (_rels/*.rels).
+ */
+
+import JSZip from 'jszip';
+import { DOMParser } from '@xmldom/xmldom';
+import type { Document, Element } from '@xmldom/xmldom';
+import { ExtractionError } from './errors';
+
+export const NS = {
+  relationships: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships',
+  packageRelationships: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  spreadsheet: 'http://schemas.openxmlformats.org/spreadsheetml/2006/main',
+  presentation: 'http://schemas.openxmlformats.org/presentationml/2006/main',
+  drawing: 'http://schemas.openxmlformats.org/drawingml/2006/main',
+} as const;
+
+/**
+ * Open an OOXML package
+ *
+ * @throws ExtractionError when the file isn't a ZIP package
+ */
+export async function openPackage(fileBuffer: Buffer, filename: string, kind: string): Promise<JSZip> {
+  try {
+    return await JSZip.loadAsync(fileBuffer);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ExtractionError(
+      `Could not read ${kind} "${filename}". The file may be corrupted or not a valid ${kind} file (${errorMessage}).`
+    );
+  }
+}
+
+/**
+ * Parse an XML part
+ *
+ * @returns The parsed part, or null when the package doesn't contain it
+ * @throws ExtractionError when the part isn't well-formed XML
+ */
+export async function readXmlPart(zip: JSZip, path: string): Promise<Document | null> {
+  const file = zip.file(path);
+  if (!file) {
+    return null;
+  }
+  try {
+    return new DOMParser().parseFromString(await file.async('string'), 'application/xml');
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new ExtractionError(`Could not parse "${path}" in the package (${errorMessage}).`);
+  }
+}
+
+/**
+ * Resolve a relationship target against the part it belongs to
+ */
+function resolveTarget(partPath: string, target: string): string {
+  if (target.startsWith('/')) {
+    return target.substring(1);
+  }
+  const segments = partPath.split('/').slice(0, -1);
+  for (const segment of target.split('/')) {
+    if (segment === '..') {
+      segments.pop();
+    } else if (segment !== '.') {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/**
+ * Read a part's relationships
+ *
+ * @returns Package paths of the related parts by relationship ID
+ */
+export async function readRelationships(zip: JSZip, partPath: string): Promise<Map<string, string>> {
+  const slash = partPath.lastIndexOf('/');
+  const relsPath = `${partPath.substring(0, slash + 1)}_rels/${partPath.substring(slash + 1)}.rels`;
+  const rels = await readXmlPart(zip, relsPath);
+
+  const targets = new Map<string, string>();
+  if (!rels) {
+    return targets;
+  }
+  for (const relationship of elements(rels, NS.packageRelationships, 'Relationship')) {
+    if (relationship.getAttribute('TargetMode') === 'External') {
+      continue;
+    }
+    const id = relationship.getAttribute('Id');
+    const target = relationship.getAttribute('Target');
+    if (id && target) {
+      targets.set(id, resolveTarget(partPath, target));
+    }
+  }
+  return targets;
+}
+
+/**
+ * Descendant elements with a namespace and local name, in document order
+ */
+export function elements(node: Document | Element, namespace: string, localName: string): Element[] {
+  return Array.from(node.getElementsByTagNameNS(namespace, localName));
+}
+
+/**
+ * Direct child elements with a namespace and local name
+ */
+export function children(node: Element, namespace: string, localName: string): Element[] {
+  return Array.from(node.childNodes).filter(
+    (child): child is Element =>
+      child.nodeType === 1 && (child as Element).namespaceURI === namespace && (child as Element).localName === localName
+  );
+}
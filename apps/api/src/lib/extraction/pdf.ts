@@ -0,0 +1,152 @@
+/**
+ * PDF Extraction
+ *
+ * Reads the text layer of a PDF page by page with pdf-parse. Pages with no
+ * text layer, or too little of it (scans, often with only a stamped page
+ * number), are read by OCR instead (see ./ocr).
+ *
+ * Configuration:
+ * - OCR_MIN_CHARS_PER_PAGE: pages whose text layer has fewer characters
+ *   are read by OCR (default: 50)
+ *
+ * Assumptions:
+ * - OCR text replaces a page's text layer only when it is longer
+ * - When OCR isn't available, text-layer pages are still used; a PDF with
+ *   no text layer at all then fails with a PdfExtractionError
+ * - Pages beyond OCR_MAX_PAGES keep their text layer
+ * - options.beforeOcr runs once before any page is read by OCR; what it
+ *   throws is passed on unchanged
+ */
+
+import pdfParse from 'pdf-parse';
+import type { OcrPage } from '@ai-document-vault/shared';
+import { OcrError, getOcrMaxPages, isOcrEnabled, ocrPdfPages } from './ocr';
+import { ExtractionError } from './errors';
+import type { ExtractOptions } from './registry';
+
+const DEFAULT_MIN_CHARS_PER_PAGE = 50;
+
+/**
+ * Error thrown when a PDF cannot be converted to text
+ */
+export class PdfExtractionError extends ExtractionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfExtractionError';
+  }
+}
+
+/**
+ * Text of a PDF and the pages of it that were read by OCR
+ */
+export interface PdfExtraction {
+  text: string;
+  ocrPages: OcrPage[];
+}
+
+interface TextItem {
+  str: string;
+  transform: number[];
+}
+
+interface PageData {
+  pageNumber: number;
+  getTextContent(options: { normalizeWhitespace: boolean; disableCombineTextItems: boolean }): Promise<{ items: TextItem[] }>;
+}
+
+function getMinCharsPerPage(): number {
+  const value = Number(process.env.OCR_MIN_CHARS_PER_PAGE);
+  return Number.isFinite(value) && value >= 0 ? value : DEFAULT_MIN_CHARS_PER_PAGE;
+}
+
+/**
+ * Read the text layer of every page
+ *
+ * Mirrors pdf-parse's default page renderer (a new line whenever the
+ * vertical position changes), keeping each page's text separately.
+ */
+async function readTextLayer(fileBuffer: Buffer): Promise<string[]> {
+  const pages: string[] = [];
+
+  const result = await pdfParse(fileBuffer, {
+    pagerender: async (pageData: PageData) => {
+      const content = await pageData.getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false });
+      let lastY: number | undefined;
+      let text = '';
+      for (const item of content.items) {
+        const y = item.transform[5];
+        text += lastY === undefined || lastY === y ? item.str : `\n${item.str}`;
+        lastY = y;
+      }
+      pages[pageData.pageNumber - 1] = text;
+      return text;
+    },
+  });
+
+  // Pages that failed to render are missing from the list
+  return Array.from({ length: result.numpages }, (_, index) => pages[index] ?? '');
+}
+
+/**
+ * Extract a PDF as plain text, reading scanned pages by OCR
+ *
+ * @param fileBuffer - Raw PDF bytes
+ * @param filename - Original filename (for logging and error messages)
+ * @param options - Hook called before OCR
+ * @returns The text of all pages and the pages read by OCR
+ */
+export async function extractPdf(fileBuffer: Buffer, filename: string, options?: ExtractOptions): Promise<PdfExtraction> {
+  let pages: string[];
+  try {
+    pages = await readTextLayer(fileBuffer);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new PdfExtractionError(
+      `Could not read PDF "${filename}". The file may be corrupted or password-protected (${errorMessage}).`
+    );
+  }
+
+  const minChars = getMinCharsPerPage();
+  const sparse = pages
+    .map((text, index) => ({ page: index + 1, chars: text.trim().length }))
+    .filter(({ chars }) => chars < minChars)
+    .map(({ page }) => page);
+  const hasTextLayer = pages.some((text) => text.trim().length > 0);
+
+  const ocrPages: OcrPage[] = [];
+  if (sparse.length > 0 && isOcrEnabled()) {
+    const maxPages = getOcrMaxPages();
+    if (sparse.length > maxPages) {
+      console.warn(`[Text Extraction] ${filename}: ${sparse.length} pages need OCR, reading the first ${maxPages}`);
+    }
+    const toRead = sparse.slice(0, maxPages);
+    await options?.beforeOcr?.();
+    console.log(`[Text Extraction] ${filename}: reading ${toRead.length} of ${pages.length} page(s) by OCR`);
+
+    try {
+      for (const result of await ocrPdfPages(fileBuffer, toRead)) {
+        const text = result.text.trim();
+        if (text.length > pages[result.page - 1].trim().length) {
+          pages[result.page - 1] = text;
+          ocrPages.push({ page: result.page, confidence: result.confidence, chars: text.length });
+        }
+      }
+    } catch (error) {
+      if (!(error instanceof OcrError) || !hasTextLayer) {
+        throw error;
+      }
+      console.warn(`[Text Extraction] ${filename}: OCR failed, using the text layer only: ${error.message}`);
+    }
+  }
+
+  const text = pages.join('\n\n').trim();
+  if (text.length === 0) {
+    throw new PdfExtractionError(
+      isOcrEnabled()
+        ? `PDF "${filename}" contains no readable text, even with OCR.`
+        : `PDF "${filename}" has no text layer and OCR is turned off.`
+    );
+  }
+
+  return { text, ocrPages };
+}
@@ -0,0 +1,113 @@
+/**
+ * Presentation extraction
+ *
+ * The PPTX fixture is built in the test as a minimal package with only the
+ * parts the extractor reads.
+ */
+
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { ExtractionError } from './errors';
+import { extractPptx } from './presentation';
+
+const PRESENTATION = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const DRAWING = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+async function zipPackage(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(parts)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function relationships(targets: Record<string, string>): string {
+  const entries = Object.entries(targets).map(([id, target]) => `<Relationship Id="${id}" Target="${target}"/>`);
+  return `<?xml version="1.0" encoding="UTF-8"?><Relationships xmlns="${PACKAGE_RELATIONSHIPS}">${entries.join('')}</Relationships>`;
+}
+
+/**
+ * A text shape; type is the placeholder type (undefined for a text box,
+ * '' for a body placeholder without a type)
+ */
+function shape(type: string | undefined, paragraphs: string[]): string {
+  const placeholder =
+    type === undefined ? '' : `<p:nvSpPr><p:nvPr><p:ph${type ? ` type="${type}"` : ''}/></p:nvPr></p:nvSpPr>`;
+  return `<p:sp>${placeholder}<p:txBody>${paragraphs.join('')}</p:txBody></p:sp>`;
+}
+
+function paragraph(text: string, level = 0): string {
+  return `<a:p>${level ? `<a:pPr lvl="${level}"/>` : ''}<a:r><a:t>${text}</a:t></a:r></a:p>`;
+}
+
+function slide(content: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+    <p:sld xmlns:p="${PRESENTATION}" xmlns:a="${DRAWING}"><p:cSld><p:spTree>${content}</p:spTree></p:cSld></p:sld>`;
+}
+
+/**
+ * Two-slide deck; presentation order is the reverse of the part names
+ */
+function deckFixture(): Promise<Buffer> {
+  const table =
+    '<p:graphicFrame><a:graphic><a:graphicData><a:tbl>' +
+    '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>Region</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>Growth</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+    '<a:tr><a:tc><a:txBody><a:p><a:r><a:t>North</a:t></a:r></a:p></a:txBody></a:tc><a:tc><a:txBody><a:p><a:r><a:t>12%</a:t></a:r></a:p></a:txBody></a:tc></a:tr>' +
+    '</a:tbl></a:graphicData></a:graphic></p:graphicFrame>';
+
+  return zipPackage({
+    'ppt/presentation.xml': `<?xml version="1.0" encoding="UTF-8"?>
+      <p:presentation xmlns:p="${PRESENTATION}" xmlns:r="${RELATIONSHIPS}">
+        <p:sldIdLst><p:sldId id="256" r:id="rId2"/><p:sldId id="257" r:id="rId1"/></p:sldIdLst>
+      </p:presentation>`,
+    'ppt/_rels/presentation.xml.rels': relationships({ rId1: 'slides/slide1.xml', rId2: 'slides/slide2.xml' }),
+    'ppt/slides/slide2.xml': slide(
+      shape('ctrTitle', [paragraph('Quarterly results')]) +
+        shape('', [paragraph('Revenue up 12%'), paragraph('Driven by new customers', 1)]) +
+        shape('sldNum', [paragraph('1')]) +
+        shape(undefined, [paragraph('Draft &amp; confidential')]) +
+        table
+    ),
+    'ppt/slides/_rels/slide2.xml.rels': relationships({ rId1: '../notesSlides/notesSlide1.xml' }),
+    'ppt/notesSlides/notesSlide1.xml': slide(shape('body', [paragraph('Mention the north region first')])),
+    'ppt/slides/slide1.xml': slide(shape(undefined, [paragraph('Questions?')])),
+  });
+}
+
+describe('extractPptx', () => {
+  it('renders one section per slide in presentation order', async () => {
+    const markdown = await extractPptx(await deckFixture(), 'results.pptx');
+
+    expect(markdown).toBe(
+      [
+        '## Slide 1: Quarterly results',
+        '',
+        '- Revenue up 12%\n  - Driven by new customers',
+        '',
+        'Draft & confidential',
+        '',
+        '| Region | Growth |\n| --- | --- |\n| North | 12% |',
+        '',
+        '**Speaker notes:** Mention the north region first',
+        '',
+        '## Slide 2',
+        '',
+        'Questions?',
+      ].join('\n')
+    );
+  });
+
+  it('rejects a file that is not a ZIP package', async () => {
+    await expect(extractPptx(Buffer.from('%PDF-1.7'), 'deck.pptx')).rejects.toThrow(ExtractionError);
+  });
+
+  it('rejects a ZIP package without a presentation', async () => {
+    const zip = await zipPackage({ 'xl/workbook.xml': '<workbook/>' });
+
+    await expect(extractPptx(zip, 'deck.pptx')).rejects.toThrow(
+      '"deck.pptx" is not a valid PowerPoint presentation (.pptx).'
+    );
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Presentation Extraction
+ *
+ * Converts PPTX presentations to Markdown with one section per slide:
+ *
+ *   ## Slide 3: Quarterly results
+ *
+ *   - Revenue up 12%
+ *     - Driven by new customers
+ *
+ *   **Speaker notes:** ...
+ *
+ * Assumptions:
+ * - Slides are in presentation order; hidden slides are included
+ * - The title placeholder becomes the section title; body placeholders
+ *   become bullet lists indented by outline level; other text boxes become
+ *   paragraphs; tables become Markdown tables
+ * - Images, charts and SmartArt carry no extractable text and are dropped
+ */
+
+import type { Document, Element } from '@xmldom/xmldom';
+import { markdownTable } from './spreadsheet';
+import { ExtractionError } from './errors';
+import { NS, children, elements, openPackage, readRelationships, readXmlPart } from './ooxml';
+
+const TITLE_PLACEHOLDERS = new Set(['title', 'ctrTitle']);
+// Placeholders the slide layout fills in, not slide content
+const IGNORED_PLACEHOLDERS = new Set(['sldNum', 'dt', 'ftr', 'hdr']);
+
+/**
+ * Text of a DrawingML paragraph, with line breaks
+ */
+function paragraphText(paragraph: Element): string {
+  let text = '';
+  for (const node of Array.from(paragraph.childNodes)) {
+    const element = node as Element;
+    if (node.nodeType !== 1 || element.namespaceURI !== NS.drawing) {
+      continue;
+    }
+    if (element.localName === 'r' || element.localName === 'fld') {
+      text += children(element, NS.drawing, 't')[0]?.textContent ?? '';
+    } else if (element.localName === 'br') {
+      text += '\n';
+    }
+  }
+  return text.trim();
+}
+
+function placeholderType(shape: Element): string | null {
+  const placeholder = elements(shape, NS.presentation, 'ph')[0];
+  if (!placeholder) {
+    return null;
+  }
+  // A placeholder without a type is a body placeholder
+  return placeholder.getAttribute('type') || 'body';
+}
+
+/**
+ * Text of a slide's shapes and tables, as Markdown blocks
+ */
+function readShapes(slide: Document): { title: string | null; blocks: string[] } {
+  let title: string | null = null;
+  const blocks: string[] = [];
+
+  for (const shape of elements(slide, NS.presentation, 'sp')) {
+    const type = placeholderType(shape);
+    if (type && IGNORED_PLACEHOLDERS.has(type)) {
+      continue;
+    }
+    const textBody = children(shape, NS.presentation, 'txBody')[0];
+    if (!textBody) {
+      continue;
+    }
+    const paragraphs = children(textBody, NS.drawing, 'p')
+      .map((paragraph) => ({
+        text: paragraphText(paragraph),
+        level: Number(children(paragraph, NS.drawing, 'pPr')[0]?.getAttribute('lvl') || 0),
+      }))
+      .filter((paragraph) => paragraph.text.length > 0);
+    if (paragraphs.length === 0) {
+      continue;
+    }
+
+    if (type && TITLE_PLACEHOLDERS.has(type) && title === null) {
+      title = paragraphs.map((paragraph) => paragraph.text.replace(/\n/g, ' ')).join(' ');
+    } else if (type === 'body' || type === 'obj') {
+      blocks.push(
+        paragraphs.map((paragraph) => `${'  '.repeat(paragraph.level)}- ${paragraph.text.replace(/\n/g, ' ')}`).join('\n')
+      );
+    } else {
+      blocks.push(paragraphs.map((paragraph) => paragraph.text).join('\n\n'));
+    }
+  }
+
+  for (const table of elements(slide, NS.drawing, 'tbl')) {
+    const rows = children(table, NS.drawing, 'tr').map((row) =>
+      children(row, NS.drawing, 'tc').map((cell) =>
+        elements(cell, NS.drawing, 'p')
+          .map(paragraphText)
+          .filter(Boolean)
+          .join(' ')
+      )
+    );
+    const markdown = markdownTable(rows);
+    if (markdown) {
+      blocks.push(markdown);
+    }
+  }
+
+  return { title, blocks };
+}
+
+/**
+ * Speaker notes of a slide: the text of its body placeholder
+ */
+function readNotes(notes: Document): string {
+  return elements(notes, NS.presentation, 'sp')
+    .filter((shape) => placeholderType(shape) === 'body')
+    .flatMap((shape) => elements(shape, NS.drawing, 'p').map(paragraphText))
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Extract a PPTX presentation as Markdown, one section per slide
+ *
+ * @param fileBuffer - Raw PPTX bytes
+ * @param filename - Original filename (for error messages)
+ * @returns Markdown with a section per slide
+ */
+export async function extractPptx(fileBuffer: Buffer, filename: string): Promise<string> {
+  const zip = await openPackage(fileBuffer, filename, 'PowerPoint presentation');
+  const presentation = await readXmlPart(zip, 'ppt/presentation.xml');
+  if (!presentation) {
+    throw new ExtractionError(`"${filename}" is not a valid PowerPoint presentation (.pptx).`);
+  }
+
+  const relationships = await readRelationships(zip, 'ppt/presentation.xml');
+  const sections: string[] = [];
+  let number = 0;
+
+  for (const slideId of elements(presentation, NS.presentation, 'sldId')) {
+    const path = relationships.get(slideId.getAttributeNS(NS.relationships, 'id') || '');
+    const slide = path ? await readXmlPart(zip, path) : null;
+    if (!path || !slide) {
+      continue;
+    }
+    number++;
+
+    const { title, blocks } = readShapes(slide);
+    const lines = [title ? `## Slide ${number}: ${title}` : `## Slide ${number}`, ...blocks];
+
+    // Notes are linked from the slide's relationships
+    for (const notesPath of (await readRelationships(zip, path)).values()) {
+      if (!/notesSlides\/[^/]+\.xml$/.test(notesPath)) {
+        continue;
+      }
+      const notes = await readXmlPart(zip, notesPath);
+      const text = notes ? readNotes(notes) : '';
+      if (text) {
+        lines.push(`**Speaker notes:** ${text}`);
+      }
+    }
+
+    sections.push(lines.join('\n\n'));
+  }
+
+  return sections.join('\n\n');
+}
@@ -0,0 +1,65 @@
+/**
+ * Extractor registry
+ *
+ * Uploads with a generic or missing MIME type are accepted by extension
+ * alone, so the extractor chosen by extension must refuse content of
+ * another format rather than store garbage.
+ */
+
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ExtractionError } from './errors';
+import { extractFile } from './registry';
+
+describe('extractFile', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  it('chooses the extractor by extension', async () => {
+    const csv = Buffer.from('Vendor,Amount\nAcme,1250');
+
+    expect((await extractFile(csv, 'totals.CSV')).text).toBe('| Vendor | Amount |\n| --- | --- |\n| Acme | 1250 |');
+    expect((await extractFile(csv, 'totals.txt')).text).toBe('Vendor,Amount\nAcme,1250');
+  });
+
+  it('reads files without a supported extension as plain text', async () => {
+    expect(await extractFile(Buffer.from('legacy upload'), 'notes')).toEqual({ text: 'legacy upload', ocrPages: [] });
+  });
+
+  it.each(['budget.xlsx', 'deck.pptx', 'letter.rtf'])('refuses plain text named %s', async (filename) => {
+    await expect(extractFile(Buffer.from('Just some text'), filename)).rejects.toThrow(ExtractionError);
+  });
+
+  it('extracts email attachments with the registry and lists unsupported ones', async () => {
+    const eml = Buffer.from(
+      [
+        'Subject: Totals',
+        'MIME-Version: 1.0',
+        'Content-Type: multipart/mixed; boundary="b"',
+        '',
+        '--b',
+        'Content-Type: text/plain',
+        '',
+        'See attached.',
+        '--b',
+        'Content-Type: text/csv; name="totals.csv"',
+        'Content-Disposition: attachment; filename="totals.csv"',
+        '',
+        'Vendor,Amount',
+        'Acme,1250',
+        '--b',
+        'Content-Type: application/zip; name="archive.zip"',
+        'Content-Disposition: attachment; filename="archive.zip"',
+        '',
+        'PK',
+        '--b--',
+        '',
+      ].join('\r\n')
+    );
+
+    const { text } = await extractFile(eml, 'totals.eml');
+
+    expect(text).toContain('### totals.csv\n\n| Vendor | Amount |\n| --- | --- |\n| Acme | 1250 |');
+    expect(text).toContain('### archive.zip\n\n*Not extracted: unsupported format (application/zip).*');
+  });
+});
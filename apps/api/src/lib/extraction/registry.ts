@@ -0,0 +1,124 @@
+/**
+ * Extractor Registry
+ *
+ * Maps each supported format (DOCUMENT_FORMATS in the shared package) to
+ * its extractor. The map is typed by format, so a format added to the
+ * shared registry doesn't compile until it has an extractor here.
+ *
+ * Assumptions:
+ * - The format is chosen by the file's extension, as in upload validation
+ * - Files without a supported extension (uploaded before formats were
+ *   validated) are read as plain text
+ */
+
+import { findDocumentFormat } from '@ai-document-vault/shared';
+import type { DocumentFormatId, OcrPage } from '@ai-document-vault/shared';
+import { extractDocx, extractDoc } from './word';
+import { extractPdf } from './pdf';
+import { extractPlainText } from './text';
+import { extractHtml } from './html';
+import { extractRtf } from './rtf';
+import { extractCsv, extractXlsx } from './spreadsheet';
+import { extractPptx } from './presentation';
+import { extractEml } from './email';
+
+/**
+ * Text extracted from a file
+ */
+export interface ExtractedText {
+  text: string;
+  ocrPages: OcrPage[]; // PDF pages read by OCR, empty for other files
+}
+
+/**
+ * Options for extracting a file
+ */
+export interface ExtractOptions {
+  /**
+   * Called before PDF pages are read by OCR; throws to stop the extraction
+   * (e.g. on a worker that can't run OCR)
+   */
+  beforeOcr?: () => Promise<void>;
+}
+
+/**
+ * Converts a file to text
+ */
+export type Extractor = (fileBuffer: Buffer, filename: string, options?: ExtractOptions) => Promise<ExtractedText>;
+
+/**
+ * Wrap an extractor that only returns text
+ */
+function textOnly(extract: (fileBuffer: Buffer, filename: string) => Promise<string>): Extractor {
+  return async (fileBuffer, filename) => ({ text: await extract(fileBuffer, filename), ocrPages: [] });
+}
+
+/**
+ * Extract an email attachment, when its format is supported
+ */
+async function extractAttachment(fileBuffer: Buffer, filename: string, options?: ExtractOptions): Promise<string | null> {
+  if (!findDocumentFormat(filename)) {
+    return null;
+  }
+  return (await extractFile(fileBuffer, filename, options)).text;
+}
+
+/**
+ * Extract an email with its attachments
+ *
+ * An attachment that fails is noted in the text, but when beforeOcr stops
+ * an attachment's extraction, the whole email stops with it.
+ */
+async function extractEmail(fileBuffer: Buffer, filename: string, options?: ExtractOptions): Promise<ExtractedText> {
+  const stopped: unknown[] = [];
+  const beforeOcr = options?.beforeOcr;
+  const attachmentOptions: ExtractOptions = {
+    beforeOcr: beforeOcr && (async () => {
+      try {
+        await beforeOcr();
+      } catch (error) {
+        stopped.push(error);
+        throw error;
+      }
+    }),
+  };
+
+  const text = await extractEml(fileBuffer, filename, (attachment, name) => extractAttachment(attachment, name, attachmentOptions));
+  if (stopped.length > 0) {
+    throw stopped[0];
+  }
+  return { text, ocrPages: [] };
+}
+
+const EXTRACTORS: Record<DocumentFormatId, Extractor> = {
+  pdf: extractPdf,
+  docx: textOnly(extractDocx),
+  doc: textOnly(extractDoc),
+  text: textOnly(extractPlainText),
+  markdown: textOnly(extractPlainText),
+  html: textOnly(extractHtml),
+  rtf: textOnly(extractRtf),
+  csv: textOnly(extractCsv),
+  xlsx: textOnly(extractXlsx),
+  pptx: textOnly(extractPptx),
+  eml: extractEmail,
+};
+
+/**
+ * Extract a file's text with the extractor for its format
+ *
+ * @param fileBuffer - Raw file bytes
+ * @param filename - Original filename (chooses the format)
+ * @param options - Hooks into the extraction
+ * @returns The text and the PDF pages read by OCR
+ */
+export async function extractFile(fileBuffer: Buffer, filename: string, options?: ExtractOptions): Promise<ExtractedText> {
+  const format = findDocumentFormat(filename);
+  if (!format) {
+    console.log(`[Text Extraction] Reading as text file: ${filename}`);
+    return { text: await extractPlainText(fileBuffer), ocrPages: [] };
+  }
+
+  console.log(`[Text Extraction] Extracting ${format.label}: ${filename} (${fileBuffer.length} bytes)`);
+  return EXTRACTORS[format.id](fileBuffer, filename, options);
+}
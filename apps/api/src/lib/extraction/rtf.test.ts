@@ -0,0 +1,44 @@
+/**
+ * RTF extraction
+ */
+
+import { describe, expect, it } from 'vitest';
+import { ExtractionError } from './errors';
+import { extractRtf } from './rtf';
+
+function rtf(body: string): Buffer {
+  return Buffer.from(`{\\rtf1\\ansi\\deff0{\\fonttbl{\\f0 Arial;}}{\\colortbl;\\red255\\green0\\blue0;}${body}}`, 'latin1');
+}
+
+describe('extractRtf', () => {
+  it('keeps paragraphs, line breaks and tabs and drops formatting', async () => {
+    const text = await extractRtf(rtf('\\f0\\fs24 {\\b Invoice}\\par Total:\\tab 42\\line due soon\\par'), 'a.rtf');
+
+    expect(text).toBe('Invoice\nTotal:\t42\ndue soon');
+  });
+
+  it('decodes ANSI escapes as Windows-1252 and Unicode escapes without their fallback', async () => {
+    const text = await extractRtf(rtf("Caf\\'e9 \\'93quoted\\'94 \\u8364?5 \\uc2\\u8212??dash"), 'a.rtf');
+
+    expect(text).toBe('Café “quoted” €5 —dash');
+  });
+
+  it('skips document info, optional destinations and field instructions but keeps field results', async () => {
+    const body =
+      '{\\info{\\title Hidden title}{\\author Someone}}{\\*\\generator Writer 1.0;}' +
+      'See {\\field{\\*\\fldinst HYPERLINK "https://example.com"}{\\fldrslt the website}}.\\par';
+
+    expect(await extractRtf(rtf(body), 'a.rtf')).toBe('See the website.');
+  });
+
+  it('keeps escaped braces and backslashes and separates table cells', async () => {
+    const body = '\\{a\\} \\\\ b\\par\\trowd Name\\cell Amount\\cell\\row';
+
+    expect(await extractRtf(rtf(body), 'a.rtf')).toBe('{a} \\ b\nName | Amount |');
+  });
+
+  it('rejects a file that is not RTF', async () => {
+    await expect(extractRtf(Buffer.from('Plain text, renamed to .rtf'), 'letter.rtf')).rejects.toThrow(ExtractionError);
+    await expect(extractRtf(Buffer.from('Plain text'), 'letter.rtf')).rejects.toThrow('"letter.rtf" is not a valid RTF file.');
+  });
+});
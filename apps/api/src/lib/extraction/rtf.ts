@@ -0,0 +1,237 @@
+/**
+ * RTF Extraction
+ *
+ * Reads the text of Rich Text Format files. Formatting is dropped;
+ * paragraphs, line breaks, tabs and table cells are kept.
+ *
+ * Assumptions:
+ * - 8-bit characters (\'hh) are Windows-1252, the default ANSI code page
+ * - Unicode characters (\uN) replace the ANSI fallback that follows them
+ * - Font, colour and style tables, document info, pictures, embedded
+ *   objects and field instructions are skipped; a field's visible result
+ *   is kept
+ */
+
+import { ExtractionError } from './errors';
+
+// Destinations whose content isn't document text
+const SKIPPED_DESTINATIONS = new Set([
+  'fonttbl',
+  'colortbl',
+  'stylesheet',
+  'listtable',
+  'listoverridetable',
+  'revtbl',
+  'rsidtbl',
+  'info',
+  'pict',
+  'object',
+  'fldinst',
+  'themedata',
+  'colorschememapping',
+  'datastore',
+  'latentstyles',
+  'xmlnstbl',
+  'generator',
+  'header',
+  'headerl',
+  'headerr',
+  'headerf',
+  'footer',
+  'footerl',
+  'footerr',
+  'footerf',
+]);
+
+// Windows-1252 characters for bytes 0x80-0x9F; the rest match Latin-1.
+// Decoded by hand because some Node releases' TextDecoder('windows-1252')
+// decodes this range as Latin-1 control characters. Undefined bytes map to
+// U+FFFD.
+const WINDOWS_1252_HIGH = '€\uFFFD‚ƒ„…†‡ˆ‰Š‹Œ\uFFFDŽ\uFFFD\uFFFD‘’“”•–—˜™š›œ\uFFFDžŸ';
+
+function decodeAnsi(bytes: number[]): string {
+  return bytes
+    .map((byte) => (byte >= 0x80 && byte <= 0x9f ? WINDOWS_1252_HIGH[byte - 0x80] : String.fromCharCode(byte)))
+    .join('');
+}
+
+interface GroupState {
+  skip: boolean;
+  unicodeSkip: number; // Fallback characters after \uN (set by \ucN)
+}
+
+/**
+ * Extract an RTF file as plain text
+ *
+ * @param fileBuffer - Raw RTF bytes
+ * @param filename - Original filename (for error messages)
+ * @returns The document text
+ */
+export async function extractRtf(fileBuffer: Buffer, filename: string): Promise<string> {
+  const source = fileBuffer.toString('latin1');
+  if (!source.trimStart().startsWith('{\\rtf')) {
+    throw new ExtractionError(`"${filename}" is not a valid RTF file.`);
+  }
+
+  const stack: GroupState[] = [];
+  let state: GroupState = { skip: false, unicodeSkip: 1 };
+  let output = '';
+  let pendingSkip = 0; // Fallback characters still to drop after \uN
+  let bytes: number[] = [];
+  let index = 0;
+
+  const flushBytes = () => {
+    if (bytes.length > 0) {
+      output += decodeAnsi(bytes);
+      bytes = [];
+    }
+  };
+  const emit = (text: string) => {
+    if (pendingSkip > 0) {
+      pendingSkip--;
+      return;
+    }
+    if (!state.skip) {
+      flushBytes();
+      output += text;
+    }
+  };
+
+  while (index < source.length) {
+    const char = source[index];
+
+    if (char === '{') {
+      stack.push(state);
+      state = { ...state };
+      pendingSkip = 0;
+      index++;
+      continue;
+    }
+    if (char === '}') {
+      flushBytes();
+      state = stack.pop() ?? state;
+      pendingSkip = 0;
+      index++;
+      continue;
+    }
+    if (char === '\r' || char === '\n') {
+      index++;
+      continue;
+    }
+    if (char !== '\\') {
+      emit(char);
+      index++;
+      continue;
+    }
+
+    // Control symbols
+    const next = source[index + 1];
+    if (next === "'") {
+      const code = parseInt(source.substring(index + 2, index + 4), 16);
+      index += 4;
+      if (pendingSkip > 0) {
+        pendingSkip--;
+      } else if (!state.skip && !Number.isNaN(code)) {
+        bytes.push(code);
+      }
+      continue;
+    }
+    if (next === '*') {
+      // Optional destinations are extensions a reader may ignore
+      state.skip = true;
+      index += 2;
+      continue;
+    }
+    if (next === '\\' || next === '{' || next === '}') {
+      emit(next);
+      index += 2;
+      continue;
+    }
+    if (next === '~') {
+      emit(' ');
+      index += 2;
+      continue;
+    }
+    if (next === '_') {
+      emit('-');
+      index += 2;
+      continue;
+    }
+    if (next === '\r' || next === '\n') {
+      emit('\n');
+      index += 2;
+      continue;
+    }
+
+    // Control words: \word, \wordN, optionally followed by one space
+    const match = /^\\([a-zA-Z]{1,32})(-?\d{1,10})? ?/.exec(source.substring(index, index + 45));
+    if (!match) {
+      // Other control symbols (e.g. \- optional hyphen) have no text
+      index += 2;
+      continue;
+    }
+    index += match[0].length;
+    const word = match[1];
+    const parameter = match[2] !== undefined ? Number(match[2]) : null;
+
+    if (SKIPPED_DESTINATIONS.has(word)) {
+      state.skip = true;
+      continue;
+    }
+
+    switch (word) {
+      case 'par':
+      case 'sect':
+      case 'page':
+      case 'row':
+      case 'line':
+        emit('\n');
+        break;
+      case 'tab':
+        emit('\t');
+        break;
+      case 'cell':
+        emit(' | ');
+        break;
+      case 'emdash':
+        emit('—');
+        break;
+      case 'endash':
+        emit('–');
+        break;
+      case 'bullet':
+        emit('•');
+        break;
+      case 'lquote':
+        emit('‘');
+        break;
+      case 'rquote':
+        emit('’');
+        break;
+      case 'ldblquote':
+        emit('“');
+        break;
+      case 'rdblquote':
+        emit('”');
+        break;
+      case 'uc':
+        state.unicodeSkip = parameter ?? 1;
+        break;
+      case 'u':
+        if (parameter !== null) {
+          // Values above 32767 are written as negative numbers
+          emit(String.fromCharCode(parameter < 0 ? parameter + 65536 : parameter));
+          pendingSkip = state.unicodeSkip;
+        }
+        break;
+      default:
+        break;
+    }
+  }
+  flushBytes();
+
+  return output
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
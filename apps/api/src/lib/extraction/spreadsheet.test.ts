@@ -0,0 +1,131 @@
+/**
+ * Spreadsheet extraction
+ *
+ * XLSX fixtures are built in the test as minimal packages with only the
+ * parts the extractor reads.
+ */
+
+import JSZip from 'jszip';
+import { describe, expect, it } from 'vitest';
+import { ExtractionError } from './errors';
+import { extractCsv, extractXlsx } from './spreadsheet';
+
+const MAIN = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const PACKAGE_RELATIONSHIPS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+
+async function zipPackage(parts: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  for (const [path, content] of Object.entries(parts)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function worksheet(rows: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><worksheet xmlns="${MAIN}"><sheetData>${rows}</sheetData></worksheet>`;
+}
+
+/**
+ * Workbook with an "Invoices" sheet, an empty sheet and a "Notes" sheet
+ */
+function workbookFixture(): Promise<Buffer> {
+  return zipPackage({
+    'xl/workbook.xml': `<?xml version="1.0" encoding="UTF-8"?>
+      <workbook xmlns="${MAIN}" xmlns:r="${RELATIONSHIPS}"><sheets>
+        <sheet name="Invoices" sheetId="1" r:id="rId1"/>
+        <sheet name="Empty" sheetId="2" r:id="rId2"/>
+        <sheet name="Notes" sheetId="3" r:id="rId3"/>
+      </sheets></workbook>`,
+    'xl/_rels/workbook.xml.rels': `<?xml version="1.0" encoding="UTF-8"?>
+      <Relationships xmlns="${PACKAGE_RELATIONSHIPS}">
+        <Relationship Id="rId1" Target="worksheets/sheet1.xml"/>
+        <Relationship Id="rId2" Target="worksheets/sheet2.xml"/>
+        <Relationship Id="rId3" Target="/xl/worksheets/sheet3.xml"/>
+      </Relationships>`,
+    'xl/sharedStrings.xml': `<?xml version="1.0" encoding="UTF-8"?>
+      <sst xmlns="${MAIN}">
+        <si><t>Vendor</t></si>
+        <si><t>Due</t></si>
+        <si><r><t>Acme </t></r><r><t>Corp</t></r></si>
+        <si><t>Amount | USD</t></si>
+      </sst>`,
+    'xl/styles.xml': `<?xml version="1.0" encoding="UTF-8"?>
+      <styleSheet xmlns="${MAIN}">
+        <numFmts><numFmt numFmtId="164" formatCode="yyyy\\-mm\\-dd"/><numFmt numFmtId="165" formatCode="[h]:mm:ss"/></numFmts>
+        <cellXfs><xf numFmtId="0"/><xf numFmtId="14"/><xf numFmtId="164"/><xf numFmtId="165"/></cellXfs>
+      </styleSheet>`,
+    'xl/worksheets/sheet1.xml': worksheet(`
+      <row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="D1" t="s"><v>3</v></c></row>
+      <row r="2"><c r="A2" t="s"><v>2</v></c><c r="B2" s="1"><v>46112</v></c><c r="C2" t="b"><v>1</v></c><c r="D2"><f>SUM(1,2)</f><v>1250.5</v></c></row>
+      <row r="3"/>
+      <row r="4"><c r="A4" t="inlineStr"><is><t>Beta Ltd</t></is></c><c r="B4" s="2"><v>46113</v></c><c r="D4" s="3"><v>0.5</v></c><c r="F4"/></row>`),
+    'xl/worksheets/sheet2.xml': worksheet(''),
+    'xl/worksheets/sheet3.xml': worksheet(`<row r="1"><c r="A1" t="str"><v>Paid in full</v></c></row>`),
+  });
+}
+
+describe('extractCsv', () => {
+  it('renders the rows as a Markdown table with the first row as headings', async () => {
+    const csv = 'Vendor,Amount\nAcme,1250\nBeta,90\n';
+
+    expect(await extractCsv(Buffer.from(csv))).toBe(
+      ['| Vendor | Amount |', '| --- | --- |', '| Acme | 1250 |', '| Beta | 90 |'].join('\n')
+    );
+  });
+
+  it('reads quoted fields with separators, quotes and line breaks', async () => {
+    const csv = 'Name,Note\r\n"Acme, Inc.","Said ""hi""\r\non two lines"\r\n';
+
+    expect(await extractCsv(Buffer.from(csv))).toBe(
+      ['| Name | Note |', '| --- | --- |', '| Acme, Inc. | Said "hi" on two lines |'].join('\n')
+    );
+  });
+
+  it('detects semicolon and tab separators', async () => {
+    expect(await extractCsv(Buffer.from('a;b\n1,5;2'))).toBe('| a | b |\n| --- | --- |\n| 1,5 | 2 |');
+    expect(await extractCsv(Buffer.from('a\tb\n1\t2'))).toBe('| a | b |\n| --- | --- |\n| 1 | 2 |');
+  });
+
+  it('drops a byte order mark, empty rows and trailing empty cells, names missing headings and escapes pipes', async () => {
+    const csv = '\uFEFFName,,\n\nA|B,x,\n,,\n';
+
+    expect(await extractCsv(Buffer.from(csv))).toBe('| Name | Column 2 |\n| --- | --- |\n| A\\|B | x |');
+  });
+
+  it('returns nothing for an empty file', async () => {
+    expect(await extractCsv(Buffer.from(''))).toBe('');
+  });
+});
+
+describe('extractXlsx', () => {
+  it('renders each non-empty sheet as a table under its name', async () => {
+    const markdown = await extractXlsx(await workbookFixture(), 'invoices.xlsx');
+
+    expect(markdown).toBe(
+      [
+        '## Sheet: Invoices',
+        '',
+        '| Vendor | Due | Column 3 | Amount \\| USD |',
+        '| --- | --- | --- | --- |',
+        '| Acme Corp | 2026-03-31 | TRUE | 1250.5 |',
+        '| Beta Ltd | 2026-04-01 |  | 0.5 |',
+        '',
+        '## Sheet: Notes',
+        '',
+        '| Paid in full |',
+        '| --- |',
+      ].join('\n')
+    );
+  });
+
+  it('rejects a file that is not a ZIP package', async () => {
+    await expect(extractXlsx(Buffer.from('Vendor,Amount\nAcme,1250'), 'budget.xlsx')).rejects.toThrow(ExtractionError);
+  });
+
+  it('rejects a ZIP package without a workbook', async () => {
+    const zip = await zipPackage({ 'word/document.xml': '<document/>' });
+
+    await expect(extractXlsx(zip, 'budget.xlsx')).rejects.toThrow('"budget.xlsx" is not a valid Excel workbook (.xlsx).');
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Spreadsheet Extraction
+ *
+ * Converts CSV files and XLSX workbooks to Markdown tables. Each XLSX sheet
+ * becomes a "## Sheet: name" section.
+ *
+ * Assumptions:
+ * - The first row holds the column headings
+ * - CSV fields are separated by commas, semicolons or tabs, whichever the
+ *   first line uses most; quoted fields may contain separators and newlines
+ * - XLSX cells show their stored value: formulas show their cached result,
+ *   and date-formatted numbers are shown as YYYY-MM-DD (1900 date system)
+ * - Empty sheets, empty rows and empty columns at the end of a row are
+ *   left out
+ */
+
+import type JSZip from 'jszip';
+import type { Element } from '@xmldom/xmldom';
+import { ExtractionError } from './errors';
+import { decodeText } from './text';
+import { NS, children, elements, openPackage, readRelationships, readXmlPart } from './ooxml';
+
+// Built-in number formats that display dates
+const DATE_FORMAT_IDS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47]);
+
+// Days between 1899-12-30 (serial 0) and 1970-01-01
+const EXCEL_EPOCH_OFFSET = 25569;
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ').trim();
+}
+
+/**
+ * Render rows as a Markdown table, the first row as headings
+ */
+export function markdownTable(rows: string[][]): string {
+  const width = Math.max(0, ...rows.map((row) => row.length));
+  if (rows.length === 0 || width === 0) {
+    return '';
+  }
+
+  const cells = rows.map((row) => Array.from({ length: width }, (_, column) => escapeCell(row[column] ?? '')));
+  const [header, ...body] = cells;
+  const headings = header.map((heading, column) => heading || `Column ${column + 1}`);
+
+  return [
+    `| ${headings.join(' | ')} |`,
+    `| ${headings.map(() => '---').join(' | ')} |`,
+    ...body.map((row) => `| ${row.join(' | ')} |`),
+  ].join('\n');
+}
+
+/**
+ * Drop empty rows, and empty cells at the end of each row
+ */
+function trimRows(rows: string[][]): string[][] {
+  return rows
+    .map((row) => {
+      let end = row.length;
+      while (end > 0 && !row[end - 1]?.trim()) {
+        end--;
+      }
+      return row.slice(0, end);
+    })
+    .filter((row) => row.length > 0);
+}
+
+function detectDelimiter(text: string): string {
+  const firstLine = text.substring(0, text.indexOf('\n') === -1 ? text.length : text.indexOf('\n'));
+  const counts = [',', ';', '\t'].map((delimiter) => ({
+    delimiter,
+    count: firstLine.split(delimiter).length - 1,
+  }));
+  return counts.reduce((best, candidate) => (candidate.count > best.count ? candidate : best)).delimiter;
+}
+
+/**
+ * Parse CSV text into rows (RFC 4180 quoting)
+ */
+function parseCsv(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (quoted) {
+      if (char === '"' && text[index + 1] === '"') {
+        field += '"';
+        index++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Extract a CSV file as a Markdown table
+ *
+ * @param fileBuffer - Raw CSV bytes
+ * @returns Markdown table of the rows
+ */
+export async function extractCsv(fileBuffer: Buffer): Promise<string> {
+  const text = decodeText(fileBuffer);
+  return markdownTable(trimRows(parseCsv(text, detectDelimiter(text))));
+}
+
+/**
+ * Column index of a cell reference, e.g. "C7" → 2
+ */
+function columnIndex(reference: string): number {
+  const letters = /^[A-Z]+/.exec(reference)?.[0] ?? '';
+  return [...letters].reduce((index, letter) => index * 26 + (letter.charCodeAt(0) - 64), 0) - 1;
+}
+
+function isDateFormatCode(code: string): boolean {
+  // Ignore quoted literals, escaped characters and colours like [Red]
+  const bare = code.replace(/"[^"]*"|\\.|\[[^\]]*\]/g, '');
+  // "m" alone is a month, next to hours or seconds it is minutes
+  return /[dy]/i.test(bare) || (/m/i.test(bare) && !/[hs]/i.test(bare));
+}
+
+/**
+ * Style indexes (the s attribute of cells) whose number format is a date
+ */
+async function readDateStyles(zip: JSZip): Promise<Set<number>> {
+  const dateStyles = new Set<number>();
+  const styles = await readXmlPart(zip, 'xl/styles.xml');
+  if (!styles) {
+    return dateStyles;
+  }
+
+  const dateFormats = new Set(DATE_FORMAT_IDS);
+  for (const format of elements(styles, NS.spreadsheet, 'numFmt')) {
+    if (isDateFormatCode(format.getAttribute('formatCode') || '')) {
+      dateFormats.add(Number(format.getAttribute('numFmtId')));
+    }
+  }
+
+  const cellFormats = elements(styles, NS.spreadsheet, 'cellXfs')[0];
+  if (cellFormats) {
+    children(cellFormats, NS.spreadsheet, 'xf').forEach((format, index) => {
+      if (dateFormats.has(Number(format.getAttribute('numFmtId')))) {
+        dateStyles.add(index);
+      }
+    });
+  }
+  return dateStyles;
+}
+
+async function readSharedStrings(zip: JSZip): Promise<string[]> {
+  const strings = await readXmlPart(zip, 'xl/sharedStrings.xml');
+  if (!strings) {
+    return [];
+  }
+  // Rich text items have several runs, each with its own <t>
+  return elements(strings, NS.spreadsheet, 'si').map((item) =>
+    elements(item, NS.spreadsheet, 't')
+      .map((text) => text.textContent ?? '')
+      .join('')
+  );
+}
+
+function formatSerialDate(serial: number): string {
+  const date = new Date(Math.round((serial - EXCEL_EPOCH_OFFSET) * 86400) * 1000);
+  return Number.isNaN(date.getTime()) ? String(serial) : date.toISOString().substring(0, 10);
+}
+
+function cellValue(cell: Element, sharedStrings: string[], dateStyles: Set<number>): string {
+  const type = cell.getAttribute('t');
+  const value = children(cell, NS.spreadsheet, 'v')[0]?.textContent ?? '';
+
+  switch (type) {
+    case 's':
+      return sharedStrings[Number(value)] ?? '';
+    case 'inlineStr':
+      return elements(cell, NS.spreadsheet, 't')
+        .map((text) => text.textContent ?? '')
+        .join('');
+    case 'b':
+      return value === '1' ? 'TRUE' : 'FALSE';
+    case 'str':
+    case 'e':
+      return value;
+    default: {
+      const number = Number(value);
+      if (value !== '' && dateStyles.has(Number(cell.getAttribute('s'))) && Number.isFinite(number)) {
+        return formatSerialDate(number);
+      }
+      return value;
+    }
+  }
+}
+
+/**
+ * Extract an XLSX workbook as Markdown tables, one section per sheet
+ *
+ * @param fileBuffer - Raw XLSX bytes
+ * @param filename - Original filename (for error messages)
+ * @returns Markdown with a table per non-empty sheet
+ */
+export async function extractXlsx(fileBuffer: Buffer, filename: string): Promise<string> {
+  const zip = await openPackage(fileBuffer, filename, 'Excel workbook');
+  const workbook = await readXmlPart(zip, 'xl/workbook.xml');
+  if (!workbook) {
+    throw new ExtractionError(`"${filename}" is not a valid Excel workbook (.xlsx).`);
+  }
+
+  const relationships = await readRelationships(zip, 'xl/workbook.xml');
+  const sharedStrings = await readSharedStrings(zip);
+  const dateStyles = await readDateStyles(zip);
+
+  const sections: string[] = [];
+  for (const sheet of elements(workbook, NS.spreadsheet, 'sheet')) {
+    const name = sheet.getAttribute('name') || `Sheet ${sections.length + 1}`;
+    const path = relationships.get(sheet.getAttributeNS(NS.relationships, 'id') || '');
+    const worksheet = path ? await readXmlPart(zip, path) : null;
+    if (!worksheet) {
+      continue;
+    }
+
+    const rows = elements(worksheet, NS.spreadsheet, 'row').map((row) => {
+      const values: string[] = [];
+      for (const cell of children(row, NS.spreadsheet, 'c')) {
+        const reference = cell.getAttribute('r');
+        const column = reference ? columnIndex(reference) : values.length;
+        values[column] = cellValue(cell, sharedStrings, dateStyles);
+      }
+      return Array.from(values, (value) => value ?? '');
+    });
+
+    const table = markdownTable(trimRows(rows));
+    if (table) {
+      sections.push(`## Sheet: ${name}\n\n${table}`);
+    }
+  }
+
+  return sections.join('\n\n');
+}
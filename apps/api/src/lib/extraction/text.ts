@@ -0,0 +1,36 @@
+/**
+ * Plain Text Extraction
+ *
+ * Decodes text files (plain text, Markdown, CSV) for AI processing.
+ *
+ * Assumptions:
+ * - Files are UTF-8 unless they start with a UTF-16 byte order mark
+ * - Line endings are normalized to \n
+ */
+
+/**
+ * Decode a text file
+ */
+export function decodeText(fileBuffer: Buffer): string {
+  let text: string;
+  if (fileBuffer[0] === 0xff && fileBuffer[1] === 0xfe) {
+    text = fileBuffer.subarray(2).toString('utf16le');
+  } else if (fileBuffer[0] === 0xfe && fileBuffer[1] === 0xff) {
+    // UTF-16 big endian: swap to little endian (dropping an odd trailing byte)
+    const body = Buffer.from(fileBuffer.subarray(2, fileBuffer.length - (fileBuffer.length % 2)));
+    text = body.swap16().toString('utf16le');
+  } else {
+    text = fileBuffer.toString('utf-8');
+  }
+  return text.replace(/^\uFEFF/, '').replace(/\r\n?/g, '\n');
+}
+
+/**
+ * Extract a plain text or Markdown file as-is
+ *
+ * @param fileBuffer - Raw file bytes
+ * @returns The decoded text
+ */
+export async function extractPlainText(fileBuffer: Buffer): Promise<string> {
+  return decodeText(fileBuffer);
+}
@@ -0,0 +1,159 @@
+/**
+ * Word Document Extraction
+ *
+ * Converts Word files into Markdown-flavoured text before AI processing.
+ *
+ * - DOCX: mammoth converts the document to semantic HTML (headings, lists,
+ *   tables, footnotes), which turndown then renders as GitHub-flavoured Markdown.
+ * - DOC: word-extractor reads the legacy binary (OLE) format. Only plain text
+ *   is available, so body, footnotes and endnotes are concatenated.
+ *
+ * Assumptions:
+ * - Embedded images are dropped (they carry no extractable text)
+ * - Files that cannot be parsed throw a WordExtractionError so the document
+ *   is marked FAILED instead of sending binary garbage to the AI model
+ */
+
+import mammoth from 'mammoth';
+import TurndownService from 'turndown';
+import { gfm } from 'turndown-plugin-gfm';
+import WordExtractor from 'word-extractor';
+import { ExtractionError } from './errors';
+
+/**
+ * Error thrown when a Word file cannot be converted to text
+ */
+export class WordExtractionError extends ExtractionError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WordExtractionError';
+  }
+}
+
+/**
+ * Create a turndown instance configured for mammoth output
+ *
+ * Mammoth renders footnote references as `<sup><a href="#footnote-1">[1]</a></sup>`
+ * and the footnotes themselves as `<li id="footnote-1">` items with a back-link.
+ * These rules turn them into Markdown footnotes (`[^1]` / `[^1]: text`).
+ */
+function createTurndownService(): TurndownService {
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    bulletListMarker: '-',
+    codeBlockStyle: 'fenced',
+    emDelimiter: '*',
+  });
+
+  turndown.use(gfm);
+
+  turndown.addRule('noteReference', {
+    filter: (node) =>
+      node.nodeName === 'SUP' &&
+      /^#(footnote|endnote)-\d+$/.test(node.querySelector('a')?.getAttribute('href') || ''),
+    replacement: (_content, node) => {
+      const href = node.querySelector('a')?.getAttribute('href') || '';
+      return `[^${href.replace(/^#/, '')}]`;
+    },
+  });
+
+  turndown.addRule('noteBackLink', {
+    filter: (node) =>
+      node.nodeName === 'A' &&
+      /^#(footnote|endnote)-ref-\d+$/.test(node.getAttribute('href') || ''),
+    replacement: () => '',
+  });
+
+  turndown.addRule('noteDefinition', {
+    filter: (node) =>
+      node.nodeName === 'LI' && /^(footnote|endnote)-\d+$/.test(node.getAttribute('id') || ''),
+    replacement: (content, node) => {
+      const id = node.getAttribute('id');
+      return `[^${id}]: ${content.trim().replace(/\n+/g, ' ')}\n`;
+    },
+  });
+
+  turndown.remove('img');
+
+  return turndown;
+}
+
+/**
+ * Extract a DOCX file as Markdown
+ *
+ * @param fileBuffer - Raw DOCX bytes
+ * @param filename - Original filename (for logging and error messages)
+ * @returns Markdown representation of the document
+ */
+export async function extractDocx(fileBuffer: Buffer, filename: string): Promise<string> {
+  let html: string;
+  try {
+    const result = await mammoth.convertToHtml(
+      { buffer: fileBuffer },
+      {
+        convertImage: mammoth.images.imgElement(async () => ({ src: '' })),
+        ignoreEmptyParagraphs: true,
+      }
+    );
+    html = result.value;
+
+    const warnings = result.messages.filter((m) => m.type === 'warning');
+    if (warnings.length > 0) {
+      console.warn(`[Text Extraction] mammoth reported ${warnings.length} warning(s) for ${filename}`, {
+        sample: warnings.slice(0, 3).map((w) => w.message),
+      });
+    }
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new WordExtractionError(
+      `Could not read Word document "${filename}". The file may be corrupted or not a valid .docx file (${errorMessage}).`
+    );
+  }
+
+  const markdown = createTurndownService().turndown(html).trim();
+
+  if (markdown.length === 0) {
+    throw new WordExtractionError(`Word document "${filename}" contains no extractable text.`);
+  }
+
+  return markdown;
+}
+
+/**
+ * Extract a legacy DOC (Word 97-2003) file as plain text
+ *
+ * word-extractor also accepts OOXML, so a .docx that was renamed to .doc
+ * is still read correctly.
+ *
+ * @param fileBuffer - Raw DOC bytes
+ * @param filename - Original filename (for logging and error messages)
+ * @returns Body text followed by footnotes and endnotes
+ */
+export async function extractDoc(fileBuffer: Buffer, filename: string): Promise<string> {
+  let extracted: WordExtractor.Document;
+  try {
+    extracted = await new WordExtractor().extract(fileBuffer);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new WordExtractionError(
+      `Legacy Word document "${filename}" could not be read. Re-save it as .docx and upload again (${errorMessage}).`
+    );
+  }
+
+  const body = extracted.getBody().trim();
+  if (body.length === 0) {
+    throw new WordExtractionError(`Legacy Word document "${filename}" contains no extractable text.`);
+  }
+
+  const sections = [body];
+  const footnotes = extracted.getFootnotes().trim();
+  if (footnotes) {
+    sections.push(`## Footnotes\n\n${footnotes}`);
+  }
+  const endnotes = extracted.getEndnotes().trim();
+  if (endnotes) {
+    sections.push(`## Endnotes\n\n${endnotes}`);
+  }
+
+  return sections.join('\n\n');
+}
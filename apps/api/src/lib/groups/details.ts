@@ -0,0 +1,85 @@
+/**
+ * Group Details Validation
+ *
+ * Checks the editable fields of a group (description, color, icon) and
+ * whether a name is already used by another of the user's groups.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { isGroupColor, isGroupIcon } from '@ai-document-vault/shared';
+import type { GroupColor, GroupIcon } from '@ai-document-vault/shared';
+
+export const MAX_DESCRIPTION_LENGTH = 1000;
+
+/**
+ * Normalized group details; only fields present in the input are set
+ */
+export interface GroupDetails {
+  description?: string | null;
+  color?: GroupColor | null;
+  icon?: GroupIcon | null;
+}
+
+/**
+ * Validate and normalize a group's description, color and icon
+ *
+ * Omitted fields are left out; null (or an empty description) clears a field.
+ *
+ * @returns The details to store, or a message describing the first problem
+ */
+export function parseGroupDetails(input: Record<string, unknown>): { details: GroupDetails } | { error: string } {
+  const details: GroupDetails = {};
+
+  if (input.description !== undefined) {
+    if (input.description !== null && typeof input.description !== 'string') {
+      return { error: 'description must be a string' };
+    }
+    const description = input.description?.trim() || null;
+    if (description && description.length > MAX_DESCRIPTION_LENGTH) {
+      return { error: `description must be at most ${MAX_DESCRIPTION_LENGTH} characters` };
+    }
+    details.description = description;
+  }
+
+  if (input.color !== undefined) {
+    if (input.color !== null && (typeof input.color !== 'string' || !isGroupColor(input.color))) {
+      return { error: `Invalid group color: ${String(input.color)}` };
+    }
+    details.color = input.color;
+  }
+
+  if (input.icon !== undefined) {
+    if (input.icon !== null && (typeof input.icon !== 'string' || !isGroupIcon(input.icon))) {
+      return { error: `Invalid group icon: ${String(input.icon)}` };
+    }
+    details.icon = input.icon;
+  }
+
+  return { details };
+}
+
+/**
+ * Whether another of the user's groups already has this name, ignoring case
+ *
+ * @param excludeGroupId - The group being renamed, which may keep its own name
+ * @throws When the groups can't be read
+ */
+export async function isGroupNameTaken(userId: string, name: string, excludeGroupId?: string): Promise<boolean> {
+  let query = supabaseAdmin
+    .from('groups')
+    .select('id')
+    .eq('user_id', userId)
+    .ilike('name', name.replace(/[\\%_]/g, (char) => `\\${char}`));
+
+  if (excludeGroupId) {
+    query = query.neq('id', excludeGroupId);
+  }
+
+  const { data, error } = await query.limit(1);
+
+  if (error) {
+    throw new Error(`Failed to check group name: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
@@ -0,0 +1,81 @@
+/**
+ * Group Hierarchy
+ *
+ * Groups form a tree through parent_id. The tree is small (one user's
+ * groups), so it is loaded whole and walked in memory rather than with
+ * recursive queries.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import type { Group } from '@ai-document-vault/shared';
+
+/**
+ * A group's position in the tree
+ */
+export type GroupNode = Pick<Group, 'id' | 'name' | 'type' | 'rules'> & { parent_id: string | null };
+
+/**
+ * Load all of a user's groups with their parents
+ *
+ * @throws When the groups can't be read
+ */
+export async function loadGroupTree(userId: string): Promise<GroupNode[]> {
+  const { data, error } = await supabaseAdmin
+    .from('groups')
+    .select('id, name, type, rules, parent_id')
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to load groups: ${error.message}`);
+  }
+
+  return (data || []) as GroupNode[];
+}
+
+/**
+ * IDs of every group below a group, nearest first (the group itself excluded)
+ */
+export function collectDescendantIds(groups: GroupNode[], groupId: string): string[] {
+  const children = new Map<string, string[]>();
+  for (const group of groups) {
+    if (group.parent_id) {
+      children.set(group.parent_id, [...(children.get(group.parent_id) || []), group.id]);
+    }
+  }
+
+  const descendants: string[] = [];
+  const seen = new Set<string>([groupId]);
+  const queue = [...(children.get(groupId) || [])];
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+    descendants.push(id);
+    queue.push(...(children.get(id) || []));
+  }
+
+  return descendants;
+}
+
+/**
+ * Check that a group can be placed under a parent
+ *
+ * @param groupId - The group being moved, or null when creating one
+ * @returns 'not_found' if the parent isn't one of the user's groups,
+ *   'cycle' if the parent is the group or one of its descendants, else null
+ */
+export function checkParent(
+  groups: GroupNode[],
+  groupId: string | null,
+  parentId: string
+): 'not_found' | 'cycle' | null {
+  if (!groups.some((group) => group.id === parentId)) {
+    return 'not_found';
+  }
+  if (groupId && (parentId === groupId || collectDescendantIds(groups, groupId).includes(parentId))) {
+    return 'cycle';
+  }
+  return null;
+}
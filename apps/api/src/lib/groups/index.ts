@@ -0,0 +1,17 @@
+/**
+ * Groups Module
+ * 
+ * Central export point for smart group rules and membership, the group
+ * hierarchy and group detail validation.
+ * 
+ * Usage:
+ *   import { parseSmartGroupRules, refreshSmartGroups } from '@/lib/groups';
+ */
+
+export { parseSmartGroupRules, namePatternToLike, DEFAULT_MIN_SIMILARITY } from './rules';
+export { matchSmartGroupRules, evaluateSmartGroup, refreshSmartGroups, MAX_SMART_GROUP_SIZE } from './smart';
+export type { SmartGroup } from './smart';
+export { loadGroupTree, collectDescendantIds, checkParent } from './hierarchy';
+export type { GroupNode } from './hierarchy';
+export { parseGroupDetails, isGroupNameTaken, MAX_DESCRIPTION_LENGTH } from './details';
+export type { GroupDetails } from './details';
@@ -0,0 +1,123 @@
+/**
+ * Smart Group Rule Validation
+ *
+ * Checks rules sent by clients and normalizes them before they are saved:
+ * strings are trimmed, empty rules are dropped and unknown keys are
+ * discarded.
+ */
+
+import { isDocumentStatus } from '@ai-document-vault/shared';
+import type { DocumentStatus, SmartGroupRules } from '@ai-document-vault/shared';
+
+export const DEFAULT_MIN_SIMILARITY = 0.75;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const UUID_PATTERN = /^[0-9a-f-]{36}$/i;
+const MAX_PATTERN_LENGTH = 200;
+const MAX_TAG_RULES = 20;
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+/**
+ * Validate and normalize smart group rules
+ *
+ * @returns The normalized rules, or a message describing the first problem
+ */
+export function parseSmartGroupRules(value: unknown): { rules: SmartGroupRules } | { error: string } {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { error: 'rules must be an object' };
+  }
+
+  const input = value as Record<string, unknown>;
+  const rules: SmartGroupRules = {};
+
+  if (input.name_pattern !== undefined && input.name_pattern !== null) {
+    if (typeof input.name_pattern !== 'string' || input.name_pattern.length > MAX_PATTERN_LENGTH) {
+      return { error: `name_pattern must be a string of at most ${MAX_PATTERN_LENGTH} characters` };
+    }
+    if (input.name_pattern.trim()) {
+      rules.name_pattern = input.name_pattern.trim();
+    }
+  }
+
+  if (input.statuses !== undefined && input.statuses !== null) {
+    if (
+      !Array.isArray(input.statuses) ||
+      !input.statuses.every((status) => typeof status === 'string' && isDocumentStatus(status))
+    ) {
+      return { error: 'statuses must be a list of document statuses' };
+    }
+    if (input.statuses.length > 0) {
+      rules.statuses = Array.from(new Set(input.statuses as DocumentStatus[]));
+    }
+  }
+
+  for (const key of ['created_from', 'created_to'] as const) {
+    const date = input[key];
+    if (date !== undefined && date !== null && date !== '') {
+      if (typeof date !== 'string' || !isValidDate(date)) {
+        return { error: `${key} must be a date (YYYY-MM-DD)` };
+      }
+      rules[key] = date;
+    }
+  }
+  if (rules.created_from && rules.created_to && rules.created_from > rules.created_to) {
+    return { error: 'created_from must not be after created_to' };
+  }
+
+  if (input.query !== undefined && input.query !== null) {
+    if (typeof input.query !== 'string' || input.query.length > MAX_PATTERN_LENGTH) {
+      return { error: `query must be a string of at most ${MAX_PATTERN_LENGTH} characters` };
+    }
+    if (input.query.trim()) {
+      rules.query = input.query.trim();
+    }
+  }
+
+  if (input.tag_ids !== undefined && input.tag_ids !== null) {
+    if (
+      !Array.isArray(input.tag_ids) ||
+      input.tag_ids.length > MAX_TAG_RULES ||
+      !input.tag_ids.every((tagId) => typeof tagId === 'string' && UUID_PATTERN.test(tagId))
+    ) {
+      return { error: `tag_ids must be a list of at most ${MAX_TAG_RULES} tag IDs` };
+    }
+    if (input.tag_ids.length > 0) {
+      rules.tag_ids = Array.from(new Set(input.tag_ids as string[]));
+    }
+  }
+
+  if (input.similar_to !== undefined && input.similar_to !== null) {
+    const similarTo = input.similar_to as Record<string, unknown>;
+    if (typeof similarTo !== 'object' || typeof similarTo.document_id !== 'string' || !UUID_PATTERN.test(similarTo.document_id)) {
+      return { error: 'similar_to.document_id must be a document ID' };
+    }
+    const minSimilarity = similarTo.min_similarity ?? DEFAULT_MIN_SIMILARITY;
+    if (typeof minSimilarity !== 'number' || minSimilarity < 0 || minSimilarity > 1) {
+      return { error: 'similar_to.min_similarity must be between 0 and 1' };
+    }
+    rules.similar_to = { document_id: similarTo.document_id, min_similarity: minSimilarity };
+  }
+
+  if (Object.keys(rules).length === 0) {
+    return { error: 'A smart group needs at least one rule' };
+  }
+
+  return { rules };
+}
+
+/**
+ * Convert a name pattern to an ILIKE pattern
+ *
+ * * and ? become % and _; literal % and _ are escaped. Patterns without
+ * wildcards match anywhere in the name.
+ */
+export function namePatternToLike(pattern: string): string {
+  const escaped = pattern.replace(/[\\%_]/g, (char) => `\\${char}`);
+  if (!/[*?]/.test(pattern)) {
+    return `%${escaped}%`;
+  }
+  return escaped.replace(/\*/g, '%').replace(/\?/g, '_');
+}
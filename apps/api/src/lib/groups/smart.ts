@@ -0,0 +1,228 @@
+/**
+ * Smart Group Membership
+ *
+ * Evaluates a smart group's rules against the owner's documents and syncs
+ * the result into document_groups. Attribute rules (name, status, dates)
+ * are applied as one documents query; the text query, tag and similarity
+ * rules are evaluated separately and intersected with it.
+ *
+ * Membership is refreshed after uploads, processing, content edits and tag
+ * changes (refreshSmartGroups) and when a smart group is opened. Refresh failures
+ * are logged rather than thrown; the next refresh catches up.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { GroupType } from '@ai-document-vault/shared';
+import type { Group, SmartGroupRules } from '@ai-document-vault/shared';
+import { parseSearchQuery } from '../search';
+import type { SemanticMatchRow } from '../search';
+import { getAIProvider } from '../ai/provider';
+import { DEFAULT_MIN_SIMILARITY, namePatternToLike } from './rules';
+
+/**
+ * Most documents a smart group holds; rules matching more keep the newest
+ */
+export const MAX_SMART_GROUP_SIZE = 1000;
+
+/**
+ * Smart group as stored, with its owner
+ */
+export type SmartGroup = Pick<Group, 'id' | 'name'> & { user_id: string; rules: SmartGroupRules };
+
+/**
+ * Start of the day after a YYYY-MM-DD date, for an inclusive upper bound
+ */
+function dayAfter(date: string): string {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + 1);
+  return next.toISOString();
+}
+
+/**
+ * IDs of documents matching a keyword query
+ */
+async function queryMatches(userId: string, query: string): Promise<Set<string>> {
+  const parsed = parseSearchQuery(query);
+  if (!parsed) {
+    return new Set();
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('search_documents', {
+    p_user_id: userId,
+    p_query: parsed.tsquery,
+    p_limit: MAX_SMART_GROUP_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to evaluate query rule: ${error.message}`);
+  }
+
+  return new Set(((data || []) as Array<{ document: { id: string } }>).map((row) => row.document.id));
+}
+
+/**
+ * IDs of documents carrying every one of the tags
+ */
+async function tagMatches(tagIds: string[]): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin
+    .from('document_tags')
+    .select('document_id, tag_id')
+    .in('tag_id', tagIds);
+
+  if (error) {
+    throw new Error(`Failed to evaluate tag rule: ${error.message}`);
+  }
+
+  const tagCounts = new Map<string, number>();
+  for (const row of (data || []) as Array<{ document_id: string }>) {
+    tagCounts.set(row.document_id, (tagCounts.get(row.document_id) ?? 0) + 1);
+  }
+
+  return new Set(Array.from(tagCounts).filter(([, count]) => count === tagIds.length).map(([id]) => id));
+}
+
+/**
+ * IDs of the seed document and documents similar enough to it
+ */
+async function similarityMatches(
+  userId: string,
+  rule: NonNullable<SmartGroupRules['similar_to']>
+): Promise<Set<string>> {
+  const { data, error } = await supabaseAdmin.rpc('find_similar_documents', {
+    p_document_id: rule.document_id,
+    p_user_id: userId,
+    p_embedding_model: getAIProvider().embeddings.model,
+    p_limit: MAX_SMART_GROUP_SIZE,
+  });
+
+  if (error) {
+    throw new Error(`Failed to evaluate similarity rule: ${error.message}`);
+  }
+
+  const minSimilarity = rule.min_similarity ?? DEFAULT_MIN_SIMILARITY;
+  const matches = new Set(
+    ((data || []) as SemanticMatchRow[])
+      .filter((row) => row.similarity >= minSimilarity)
+      .map((row) => row.document.id)
+  );
+  matches.add(rule.document_id);
+  return matches;
+}
+
+/**
+ * IDs of the user's documents matching every rule
+ */
+export async function matchSmartGroupRules(userId: string, rules: SmartGroupRules): Promise<string[]> {
+  let query = supabaseAdmin.from('documents').select('id').eq('user_id', userId);
+
+  if (rules.name_pattern) {
+    query = query.ilike('name', namePatternToLike(rules.name_pattern));
+  }
+  if (rules.statuses && rules.statuses.length > 0) {
+    query = query.in('status', rules.statuses);
+  }
+  if (rules.created_from) {
+    query = query.gte('created_at', `${rules.created_from}T00:00:00.000Z`);
+  }
+  if (rules.created_to) {
+    query = query.lt('created_at', dayAfter(rules.created_to));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(MAX_SMART_GROUP_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to evaluate smart group rules: ${error.message}`);
+  }
+
+  let ids = ((data || []) as Array<{ id: string }>).map((row) => row.id);
+
+  if (rules.query) {
+    const matches = await queryMatches(userId, rules.query);
+    ids = ids.filter((id) => matches.has(id));
+  }
+  if (rules.tag_ids && rules.tag_ids.length > 0) {
+    const matches = await tagMatches(rules.tag_ids);
+    ids = ids.filter((id) => matches.has(id));
+  }
+  if (rules.similar_to) {
+    const matches = await similarityMatches(userId, rules.similar_to);
+    ids = ids.filter((id) => matches.has(id));
+  }
+
+  return ids;
+}
+
+/**
+ * Re-evaluate a smart group and sync its document_groups rows
+ *
+ * @returns Number of members after the sync
+ * @throws When the rules can't be evaluated or the sync fails
+ */
+export async function evaluateSmartGroup(group: SmartGroup): Promise<number> {
+  const matching = await matchSmartGroupRules(group.user_id, group.rules);
+
+  const { data: memberships, error: membershipError } = await supabaseAdmin
+    .from('document_groups')
+    .select('document_id')
+    .eq('group_id', group.id);
+
+  if (membershipError) {
+    throw new Error(`Failed to load smart group members: ${membershipError.message}`);
+  }
+
+  const current = new Set(((memberships || []) as Array<{ document_id: string }>).map((row) => row.document_id));
+  const target = new Set(matching);
+  const toAdd = matching.filter((id) => !current.has(id));
+  const toRemove = Array.from(current).filter((id) => !target.has(id));
+
+  if (toAdd.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('document_groups')
+      .insert(toAdd.map((documentId) => ({ group_id: group.id, document_id: documentId })));
+    if (error) {
+      throw new Error(`Failed to add smart group members: ${error.message}`);
+    }
+  }
+
+  if (toRemove.length > 0) {
+    const { error } = await supabaseAdmin
+      .from('document_groups')
+      .delete()
+      .eq('group_id', group.id)
+      .in('document_id', toRemove);
+    if (error) {
+      throw new Error(`Failed to remove smart group members: ${error.message}`);
+    }
+  }
+
+  return matching.length;
+}
+
+/**
+ * Re-evaluate all of a user's smart groups
+ *
+ * Call after a document is created, processed, edited or changes status.
+ */
+export async function refreshSmartGroups(userId: string): Promise<void> {
+  const { data, error } = await supabaseAdmin
+    .from('groups')
+    .select('id, name, user_id, rules')
+    .eq('user_id', userId)
+    .eq('type', GroupType.SMART);
+
+  if (error) {
+    console.error(`[Smart Groups] Failed to list smart groups for user ${userId}:`, error.message);
+    return;
+  }
+
+  for (const group of (data || []) as SmartGroup[]) {
+    try {
+      await evaluateSmartGroup(group);
+    } catch (evaluateError) {
+      console.error(`[Smart Groups] Failed to refresh group ${group.id} (${group.name}):`, evaluateError);
+    }
+  }
+}
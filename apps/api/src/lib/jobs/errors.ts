@@ -0,0 +1,32 @@
+/**
+ * Job Errors
+ * 
+ * Errors the worker throws into a running job to stop it. They are not
+ * processing failures: the document is left as it is and no failure is
+ * recorded on the job.
+ */
+
+/**
+ * Why a running job was stopped
+ * 
+ * - lock_lost: the job was reaped (e.g. after missed heartbeats) and may be
+ *   running on another worker, so this worker must not write its results
+ * - out_of_time: the worker's run is about to be cut off; the job goes
+ *   back to the queue and resumes from its chunk checkpoints
+ * - needs_ocr: the document has pages to read by OCR and this worker can't
+ *   run it; the job goes back to the queue for a worker that can
+ */
+export type JobInterruptReason = 'lock_lost' | 'out_of_time' | 'needs_ocr';
+
+/**
+ * Error that stops a running job
+ */
+export class JobInterruptedError extends Error {
+  constructor(
+    public reason: JobInterruptReason,
+    message: string
+  ) {
+    super(message);
+    this.name = 'JobInterruptedError';
+  }
+}
@@ -0,0 +1,23 @@
+/**
+ * Jobs Module
+ * 
+ * Central export point for the durable processing job queue.
+ * 
+ * Usage:
+ *   import { enqueueJob, runWorker } from '@/lib/jobs';
+ */
+
+// Queue operations
+export { enqueueJob, claimNextJob, sendHeartbeat, completeJob, deferJob, failJob, getJobForUser } from './queue';
+
+// Worker
+export { runWorker, startWorkerLoop } from './worker';
+export type { WorkerOptions, WorkerRunResult } from './worker';
+
+// Errors
+export { JobInterruptedError } from './errors';
+export type { JobInterruptReason } from './errors';
+
+// Reaper
+export { reapStuckJobs, STALE_JOB_AFTER_MS } from './reaper';
+export type { ReapResult } from './reaper';
@@ -0,0 +1,265 @@
+/**
+ * Processing Job Queue
+ * 
+ * Persisted queue backed by the `processing_jobs` table.
+ * 
+ * Lifecycle:
+ *   queued → running (claimed, heartbeats) → succeeded
+ *                                          → queued (retry after backoff)
+ *                                          → dead (out of attempts)
+ * 
+ * Assumptions:
+ * - Claiming goes through the `claim_processing_job` RPC so concurrent
+ *   workers never claim the same job (FOR UPDATE SKIP LOCKED)
+ * - Only the worker holding the lock (locked_by) may update a running job
+ * - Jobs marked requires_ocr are only claimed by workers that can run OCR
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { JobStatus } from '@ai-document-vault/shared';
+import type { JobType, ProcessingJob } from '@ai-document-vault/shared';
+
+/**
+ * Base delay for retry backoff. Attempt n waits BASE * 2^(n-1).
+ */
+const RETRY_BASE_DELAY_MS = 30 * 1000;
+
+/**
+ * Upper bound for retry backoff
+ */
+const RETRY_MAX_DELAY_MS = 10 * 60 * 1000;
+
+/**
+ * Postgres unique_violation error code
+ */
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Enqueue a job for a document
+ * 
+ * Idempotent: if a queued or running job of the same type already exists for
+ * the document, that job is returned instead of creating a duplicate.
+ * 
+ * @param documentId - Document to process
+ * @param userId - Owner of the document
+ * @param type - Kind of work to perform
+ * @returns The new or existing active job
+ */
+export async function enqueueJob(
+  documentId: string,
+  userId: string,
+  type: JobType
+): Promise<ProcessingJob> {
+  if (!documentId || documentId.trim().length === 0) {
+    throw new Error('Document ID is required to enqueue a job');
+  }
+
+  const { data: job, error } = await supabaseAdmin
+    .from('processing_jobs')
+    .insert({
+      document_id: documentId,
+      user_id: userId,
+      type,
+      status: JobStatus.QUEUED,
+    })
+    .select()
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const { data: existing, error: existingError } = await supabaseAdmin
+      .from('processing_jobs')
+      .select('*')
+      .eq('document_id', documentId)
+      .eq('type', type)
+      .in('status', [JobStatus.QUEUED, JobStatus.RUNNING])
+      .single();
+
+    if (existingError || !existing) {
+      throw new Error(`Failed to load existing job: ${existingError?.message || 'not found'}`);
+    }
+
+    console.log(`[Job Queue] Reusing active ${type} job ${existing.id} for document ${documentId}`);
+    return existing as ProcessingJob;
+  }
+
+  if (error || !job) {
+    console.error(`[Job Queue] Failed to enqueue ${type} job for document ${documentId}:`, {
+      error: error?.message,
+      code: error?.code,
+    });
+    throw new Error(`Failed to enqueue job: ${error?.message || 'Unknown error'}`);
+  }
+
+  console.log(`[Job Queue] Enqueued ${type} job ${job.id} for document ${documentId}`);
+  return job as ProcessingJob;
+}
+
+/**
+ * Claim the next due job for a worker
+ * 
+ * @param workerId - Identifier of the claiming worker
+ * @param ocr - Whether the worker can run OCR; if not, jobs that need it
+ *   (requires_ocr) are left for a worker that can
+ * @returns The claimed job (now RUNNING), or null if nothing is due
+ */
+export async function claimNextJob(workerId: string, ocr = true): Promise<ProcessingJob | null> {
+  const { data, error } = await supabaseAdmin.rpc('claim_processing_job', {
+    p_worker_id: workerId,
+    p_ocr: ocr,
+  });
+
+  if (error) {
+    console.error(`[Job Queue] Failed to claim job for worker ${workerId}:`, {
+      error: error.message,
+      code: error.code,
+    });
+    throw new Error(`Failed to claim job: ${error.message}`);
+  }
+
+  const jobs = (data || []) as ProcessingJob[];
+  return jobs[0] || null;
+}
+
+/**
+ * Refresh the heartbeat of a running job
+ * 
+ * @returns false if the job is no longer held by this worker (e.g. it was
+ *   reaped), in which case the worker should stop touching it
+ */
+export async function sendHeartbeat(jobId: string, workerId: string): Promise<boolean> {
+  const { data, error } = await supabaseAdmin
+    .from('processing_jobs')
+    .update({ heartbeat_at: new Date().toISOString(), updated_at: new Date().toISOString() })
+    .eq('id', jobId)
+    .eq('locked_by', workerId)
+    .eq('status', JobStatus.RUNNING)
+    .select('id');
+
+  if (error) {
+    console.error(`[Job Queue] Heartbeat failed for job ${jobId}:`, error.message);
+    return true; // Transient failure - keep working, the next heartbeat may succeed
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Mark a job as succeeded
+ */
+export async function completeJob(jobId: string, workerId: string): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('processing_jobs')
+    .update({
+      status: JobStatus.SUCCEEDED,
+      locked_by: null,
+      locked_at: null,
+      last_error: null,
+      updated_at: now,
+      completed_at: now,
+    })
+    .eq('id', jobId)
+    .eq('locked_by', workerId);
+
+  if (error) {
+    throw new Error(`Failed to complete job ${jobId}: ${error.message}`);
+  }
+}
+
+/**
+ * Put a running job back in the queue to continue in a later run
+ * 
+ * For a job stopped because its worker ran out of time (its finished work
+ * is checkpointed) or can't run OCR, so the run doesn't count as an
+ * attempt.
+ * 
+ * @param requiresOcr - Leave the job for workers that can run OCR
+ */
+export async function deferJob(job: ProcessingJob, workerId: string, requiresOcr = false): Promise<void> {
+  const now = new Date().toISOString();
+  const { error } = await supabaseAdmin
+    .from('processing_jobs')
+    .update({
+      status: JobStatus.QUEUED,
+      attempts: Math.max(0, job.attempts - 1),
+      requires_ocr: job.requires_ocr || requiresOcr,
+      locked_by: null,
+      locked_at: null,
+      run_at: now,
+      updated_at: now,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+
+  if (error) {
+    throw new Error(`Failed to defer job ${job.id}: ${error.message}`);
+  }
+
+  console.log(`[Job Queue] Job ${job.id} deferred to a later run${requiresOcr ? ' on a worker with OCR' : ''}`);
+}
+
+/**
+ * Record a failed attempt
+ * 
+ * Re-queues the job with exponential backoff, or moves it to the dead-letter
+ * state when max_attempts has been reached or the failure isn't retryable.
+ * 
+ * @param retryable - false when another attempt would fail the same way
+ * @returns The status the job was moved to
+ */
+export async function failJob(
+  job: ProcessingJob,
+  workerId: string,
+  errorMessage: string,
+  retryable = true
+): Promise<JobStatus.QUEUED | JobStatus.DEAD> {
+  const now = new Date();
+  const isDead = !retryable || job.attempts >= job.max_attempts;
+  const delay = Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, Math.max(0, job.attempts - 1)), RETRY_MAX_DELAY_MS);
+
+  const { error } = await supabaseAdmin
+    .from('processing_jobs')
+    .update({
+      status: isDead ? JobStatus.DEAD : JobStatus.QUEUED,
+      locked_by: null,
+      locked_at: null,
+      last_error: errorMessage,
+      run_at: isDead ? job.run_at : new Date(now.getTime() + delay).toISOString(),
+      updated_at: now.toISOString(),
+      completed_at: isDead ? now.toISOString() : null,
+    })
+    .eq('id', job.id)
+    .eq('locked_by', workerId);
+
+  if (error) {
+    throw new Error(`Failed to record failure for job ${job.id}: ${error.message}`);
+  }
+
+  if (isDead) {
+    console.error(`[Job Queue] Job ${job.id} moved to dead-letter after ${job.attempts} attempt(s)${retryable ? '' : ' (not retryable)'}: ${errorMessage}`);
+    return JobStatus.DEAD;
+  }
+
+  console.warn(`[Job Queue] Job ${job.id} failed (attempt ${job.attempts}/${job.max_attempts}), retrying in ${delay}ms: ${errorMessage}`);
+  return JobStatus.QUEUED;
+}
+
+/**
+ * Get a job owned by a user
+ * 
+ * @returns The job, or null if it does not exist or belongs to another user
+ */
+export async function getJobForUser(jobId: string, userId: string): Promise<ProcessingJob | null> {
+  const { data: job, error } = await supabaseAdmin
+    .from('processing_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !job) {
+    return null;
+  }
+
+  return job as ProcessingJob;
+}
@@ -0,0 +1,56 @@
+/**
+ * Stuck Job Reaper
+ * 
+ * Recovers work abandoned by workers that were frozen or killed mid-run
+ * (e.g. a serverless function hitting maxDuration).
+ * 
+ * - RUNNING jobs without a recent heartbeat are re-queued, or dead-lettered
+ *   when they are out of attempts
+ * - Documents stuck in PROCESSING with no active job are reset to UPLOADED
+ *   and re-enqueued
+ */
+
+import { supabaseAdmin } from '../supabase';
+
+/**
+ * A running job is considered abandoned after this long without a heartbeat
+ */
+export const STALE_JOB_AFTER_MS = 2 * 60 * 1000;
+
+export interface ReapResult {
+  requeued: number;
+  deadLettered: number;
+  orphanedDocuments: number;
+}
+
+/**
+ * Run the reaper once
+ * 
+ * @returns Counts of recovered jobs and documents
+ */
+export async function reapStuckJobs(): Promise<ReapResult> {
+  const { data, error } = await supabaseAdmin.rpc('reap_stuck_processing_jobs', {
+    p_stale_after: `${Math.round(STALE_JOB_AFTER_MS / 1000)} seconds`,
+  });
+
+  if (error) {
+    console.error('[Job Reaper] Failed to reap stuck jobs:', {
+      error: error.message,
+      code: error.code,
+    });
+    throw new Error(`Failed to reap stuck jobs: ${error.message}`);
+  }
+
+  const row = ((data || []) as { requeued: number; dead_lettered: number; orphaned_documents: number }[])[0];
+  const result: ReapResult = {
+    requeued: row?.requeued ?? 0,
+    deadLettered: row?.dead_lettered ?? 0,
+    orphanedDocuments: row?.orphaned_documents ?? 0,
+  };
+
+  if (result.requeued > 0 || result.deadLettered > 0 || result.orphanedDocuments > 0) {
+    console.log('[Job Reaper] Recovered stuck work', result);
+  }
+
+  return result;
+}
@@ -0,0 +1,264 @@
+/**
+ * Processing Job Worker
+ * 
+ * Claims jobs from the queue and runs them, sending heartbeats while a job
+ * is in progress.
+ * 
+ * Entry points:
+ * - runWorker: drain due jobs within a time budget (cron endpoint)
+ * - startWorkerLoop: poll continuously (local development server and the
+ *   standalone worker in src/worker.ts)
+ * 
+ * Request handlers only enqueue. A job claimed in a serverless request
+ * would be frozen with it as soon as the response is sent, so jobs are
+ * only claimed by these workers, which stay alive while a job runs.
+ * 
+ * A worker that can't run OCR (the cron endpoint) hands jobs that reach
+ * pages needing OCR off to one that can, without counting an attempt.
+ */
+
+import { JobStatus, JobType } from '@ai-document-vault/shared';
+import type { ProcessingJob } from '@ai-document-vault/shared';
+import { processDocument, regenerateDocumentContent, rerunDocumentTemplates } from '../ai/processor';
+import { isRetryableError } from '../ai/errors';
+import type { ContinueCheck } from '../ai/claude';
+import { claimNextJob, completeJob, deferJob, failJob, sendHeartbeat } from './queue';
+import { reapStuckJobs } from './reaper';
+import { JobInterruptedError } from './errors';
+
+/**
+ * Interval between heartbeats for a running job
+ */
+const HEARTBEAT_INTERVAL_MS = 15 * 1000;
+
+export interface WorkerOptions {
+  /**
+   * Identifier recorded in locked_by. Defaults to a random ID.
+   */
+  workerId?: string;
+
+  /**
+   * Stop after this many jobs
+   */
+  maxJobs?: number;
+
+  /**
+   * Do not claim new jobs after this many milliseconds
+   */
+  timeBudgetMs?: number;
+
+  /**
+   * Stop a running job after its next converted chunk once this many
+   * milliseconds have passed since the run started, and put it back in the
+   * queue to resume from its chunk checkpoints. For runtimes that are cut
+   * off at a fixed duration; leave room for one more chunk request.
+   */
+  runDeadlineMs?: number;
+
+  /**
+   * Run the stuck-job reaper before claiming jobs
+   */
+  reap?: boolean;
+
+  /**
+   * Whether this worker can read pages by OCR (has pdftoppm and tesseract
+   * and no short time limit). If not, jobs that need OCR are handed off to
+   * a worker that can. Defaults to true.
+   */
+  ocr?: boolean;
+}
+
+export interface WorkerRunResult {
+  workerId: string;
+  succeeded: number;
+  retried: number;
+  deadLettered: number;
+  lockLost: number; // Reaped while running; left to the worker that holds them now
+  deferred: number; // Out of time; re-queued to resume from their checkpoints
+  handedOff: number; // Need OCR this worker can't run; re-queued for a worker that can
+}
+
+/**
+ * How a claimed job's run ended: the status the job was moved to, or why
+ * it was stopped
+ */
+type RunOutcome = JobStatus | 'lock_lost' | 'deferred' | 'handed_off';
+
+function createWorkerId(): string {
+  return `worker-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+}
+
+/**
+ * Execute a claimed job
+ * 
+ * Throws on failure so the caller can record the attempt.
+ * 
+ * @param checkContinue - Called by the processor between stages and
+ *   chunks; throws JobInterruptedError to stop the job
+ */
+async function executeJob(job: ProcessingJob, checkContinue: ContinueCheck): Promise<void> {
+  switch (job.type) {
+    case JobType.PROCESS:
+      await processDocument(job.document_id, {
+        finalAttempt: job.attempts >= job.max_attempts,
+        checkContinue,
+      });
+      return;
+    case JobType.REGENERATE_SUMMARY:
+      await regenerateDocumentContent(job.document_id, 'summary', { checkContinue });
+      return;
+    case JobType.REGENERATE_MARKDOWN:
+      await regenerateDocumentContent(job.document_id, 'markdown', { checkContinue });
+      return;
+    case JobType.RUN_TEMPLATES:
+      await rerunDocumentTemplates(job.document_id, { checkContinue });
+      return;
+    default:
+      throw new Error(`Unknown job type: ${job.type}`);
+  }
+}
+
+/**
+ * Run a claimed job with heartbeats and record the outcome
+ * 
+ * The lock is also checked between processing stages (with a heartbeat),
+ * so a job reaped while this worker was frozen stops before writing
+ * anything else instead of racing the worker that took it over. Past the
+ * deadline, the job is stopped after a converted chunk and deferred; it
+ * only stops after a chunk so every run makes progress.
+ * 
+ * @param deadline - Time (ms since epoch) after which the job is deferred
+ * @param ocr - Whether this worker can run OCR; if not, the job is handed
+ *   off before any page is read by OCR
+ */
+async function runClaimedJob(job: ProcessingJob, workerId: string, deadline: number, ocr: boolean): Promise<RunOutcome> {
+  console.log(`[Job Worker ${workerId}] Running ${job.type} job ${job.id} for document ${job.document_id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  let lostLock = false;
+  const heartbeat = setInterval(() => {
+    sendHeartbeat(job.id, workerId)
+      .then((held) => {
+        if (!held && !lostLock) {
+          lostLock = true;
+          console.warn(`[Job Worker ${workerId}] Lost lock on job ${job.id}; it was reaped by another worker`);
+        }
+      })
+      .catch(() => {
+        // Logged in sendHeartbeat
+      });
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const checkContinue: ContinueCheck = async (point) => {
+    if (!lostLock && !(await sendHeartbeat(job.id, workerId))) {
+      lostLock = true;
+    }
+    if (lostLock) {
+      throw new JobInterruptedError('lock_lost', `Lost lock on job ${job.id}`);
+    }
+    if (point === 'chunk' && Date.now() >= deadline) {
+      throw new JobInterruptedError('out_of_time', `Run deadline reached during job ${job.id}`);
+    }
+    if (point === 'ocr' && !ocr) {
+      throw new JobInterruptedError('needs_ocr', `Job ${job.id} needs OCR, which this worker can't run`);
+    }
+  };
+
+  try {
+    await executeJob(job, checkContinue);
+    clearInterval(heartbeat);
+    await completeJob(job.id, workerId);
+    console.log(`[Job Worker ${workerId}] Job ${job.id} succeeded`);
+    return JobStatus.SUCCEEDED;
+  } catch (error) {
+    clearInterval(heartbeat);
+    if (error instanceof JobInterruptedError) {
+      console.warn(`[Job Worker ${workerId}] Stopped job ${job.id}: ${error.message}`);
+      if (error.reason === 'lock_lost') {
+        return 'lock_lost';
+      }
+      if (error.reason === 'needs_ocr') {
+        await deferJob(job, workerId, true);
+        return 'handed_off';
+      }
+      await deferJob(job, workerId);
+      return 'deferred';
+    }
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Job Worker ${workerId}] Job ${job.id} failed:`, errorMessage);
+    return failJob(job, workerId, errorMessage, isRetryableError(error));
+  }
+}
+
+/**
+ * Claim and run due jobs until the queue is empty or a limit is reached
+ */
+export async function runWorker(options: WorkerOptions = {}): Promise<WorkerRunResult> {
+  const workerId = options.workerId || createWorkerId();
+  const maxJobs = options.maxJobs ?? Infinity;
+  const startedAt = Date.now();
+  const claimUntil = options.timeBudgetMs !== undefined ? startedAt + options.timeBudgetMs : Infinity;
+  const runDeadline = options.runDeadlineMs !== undefined ? startedAt + options.runDeadlineMs : Infinity;
+  const ocr = options.ocr ?? true;
+  const result: WorkerRunResult = { workerId, succeeded: 0, retried: 0, deadLettered: 0, lockLost: 0, deferred: 0, handedOff: 0 };
+
+  if (options.reap) {
+    await reapStuckJobs();
+  }
+
+  let handled = 0;
+  while (handled < maxJobs && Date.now() < claimUntil) {
+    const job = await claimNextJob(workerId, ocr);
+    if (!job) {
+      break;
+    }
+
+    const outcome = await runClaimedJob(job, workerId, runDeadline, ocr);
+    handled++;
+    if (outcome === JobStatus.SUCCEEDED) {
+      result.succeeded++;
+    } else if (outcome === JobStatus.DEAD) {
+      result.deadLettered++;
+    } else if (outcome === 'lock_lost') {
+      result.lockLost++;
+    } else if (outcome === 'deferred') {
+      result.deferred++;
+      break; // The run is out of time
+    } else if (outcome === 'handed_off') {
+      result.handedOff++;
+    } else {
+      result.retried++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Poll the queue continuously
+ * 
+ * Runs the reaper on every tick; ticks never overlap.
+ * 
+ * @param intervalMs - Delay between polls
+ * @returns Function that stops the loop
+ */
+export function startWorkerLoop(intervalMs = 5000): () => void {
+  const workerId = createWorkerId();
+  let running = false;
+
+  const timer = setInterval(() => {
+    if (running) {
+      return;
+    }
+    running = true;
+    runWorker({ workerId, reap: true })
+      .catch((error) => {
+        console.error(`[Job Worker ${workerId}] Poll failed:`, error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, intervalMs);
+
+  console.log(`[Job Worker ${workerId}] Polling for jobs every ${intervalMs}ms`);
+  return () => clearInterval(timer);
+}
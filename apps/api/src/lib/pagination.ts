@@ -0,0 +1,134 @@
+/**
+ * Cursor Pagination
+ *
+ * Keyset pagination helpers shared by the list routes. Lists are ordered
+ * by (created_at DESC, id DESC) so the order is stable even when rows share
+ * a timestamp; ranked search results add the rank in front of that key.
+ *
+ * Cursors are opaque to clients: the sort key of the last returned row,
+ * encoded as base64url JSON. A page is fetched with limit + 1 rows so
+ * has_more can be answered without a count query.
+ */
+
+import type { ApiError, PaginatedResponse } from '@ai-document-vault/shared';
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Sort key of the last row on a page
+ */
+export interface PageCursor {
+  created_at: string;
+  id: string;
+  rank?: number;
+}
+
+/**
+ * Pagination parameters parsed from a request
+ */
+export interface PageRequest {
+  cursor: PageCursor | null;
+  limit: number;
+}
+
+/**
+ * Encode a sort key as an opaque cursor string
+ */
+export function encodeCursor(cursor: PageCursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+/**
+ * Decode a cursor string, returning null when it is malformed
+ */
+export function decodeCursor(value: string): PageCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      !parsed ||
+      typeof parsed.created_at !== 'string' ||
+      Number.isNaN(Date.parse(parsed.created_at)) ||
+      typeof parsed.id !== 'string' ||
+      !/^[0-9a-f-]{36}$/i.test(parsed.id) ||
+      (parsed.rank !== undefined && typeof parsed.rank !== 'number')
+    ) {
+      return null;
+    }
+    return parsed as PageCursor;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read cursor and limit query parameters
+ *
+ * @returns The page request, or a 400 response for an invalid cursor or limit
+ */
+export function parsePaginationParams(url: URL): PageRequest | Response {
+  const limitParam = url.searchParams.get('limit');
+  const cursorParam = url.searchParams.get('cursor');
+
+  let limit = DEFAULT_PAGE_SIZE;
+  if (limitParam !== null) {
+    limit = parseInt(limitParam, 10);
+    if (Number.isNaN(limit) || limit < 1) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'limit must be a positive integer',
+          code: 'INVALID_LIMIT',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+    limit = Math.min(limit, MAX_PAGE_SIZE);
+  }
+
+  let cursor: PageCursor | null = null;
+  if (cursorParam) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Invalid pagination cursor',
+          code: 'INVALID_CURSOR',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+  }
+
+  return { cursor, limit };
+}
+
+/**
+ * PostgREST filter selecting rows that sort after the cursor
+ *
+ * Use with .or() on a query ordered by created_at DESC, id DESC.
+ */
+export function cursorFilter(cursor: PageCursor): string {
+  const createdAt = `"${cursor.created_at}"`;
+  return `created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`;
+}
+
+/**
+ * Build a page from a result fetched with limit + 1 rows
+ */
+export function toPaginatedResponse<T>(
+  rows: T[],
+  limit: number,
+  cursorOf: (row: T) => PageCursor
+): PaginatedResponse<T> {
+  const hasMore = rows.length > limit;
+  const items = hasMore ? rows.slice(0, limit) : rows;
+  const last = items[items.length - 1];
+
+  return {
+    items,
+    next_cursor: hasMore && last ? encodeCursor(cursorOf(last)) : null,
+    has_more: hasMore,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Quota Errors
+ * 
+ * Raised when AI work would exceed one of the user's quotas. Routes turn
+ * it into a 429 QUOTA_EXCEEDED response carrying the remaining allowance.
+ */
+
+import { QUOTA_EXCEEDED } from '@ai-document-vault/shared';
+import type { ApiError, QuotaExceededDetails } from '@ai-document-vault/shared';
+
+/**
+ * AI work refused because a quota is used up
+ */
+export class QuotaExceededError extends Error {
+  constructor(
+    message: string,
+    public details: QuotaExceededDetails
+  ) {
+    super(message);
+    this.name = 'QuotaExceededError';
+  }
+
+  toApiError(): ApiError {
+    return {
+      error: 'QUOTA_EXCEEDED',
+      message: this.message,
+      code: QUOTA_EXCEEDED,
+      details: { ...this.details },
+    };
+  }
+}
+
+/**
+ * Build the 429 response for a quota error
+ */
+export function quotaExceededResponse(error: QuotaExceededError): Response {
+  return Response.json(error.toApiError(), {
+    status: 429,
+    headers: {
+      'Access-Control-Allow-Origin': '*',
+      'Content-Type': 'application/json',
+    },
+  });
+}
@@ -0,0 +1,12 @@
+/**
+ * Quotas Module
+ * 
+ * Central export point for per-user AI quotas.
+ * 
+ * Usage:
+ *   import { admitDocumentProcessing, QuotaExceededError, quotaExceededResponse } from '@/lib/quotas';
+ */
+
+export { admitDocumentProcessing, checkSpendQuota, getQuotaLimits, getDefaultQuotaLimits } from './store';
+export type { QuotaLimits, QuotaRequest } from './store';
+export { QuotaExceededError, quotaExceededResponse } from './errors';
@@ -0,0 +1,206 @@
+/**
+ * AI Quotas
+ * 
+ * Checks a user's quotas before AI work is queued or run:
+ * - documents sent for processing per UTC day (QUOTA_DOCUMENTS_PER_DAY)
+ * - estimated pages sent for processing per UTC month (QUOTA_PAGES_PER_MONTH)
+ * - AI spend per UTC month, from recorded usage (QUOTA_SPEND_PER_MONTH_USD)
+ * 
+ * The environment variables are the defaults; a user's row in user_quotas
+ * overrides them limit by limit. A limit without a value is unlimited.
+ * 
+ * Checking and recording an admission is one atomic step in SQL
+ * (admit_ai_request), so concurrent uploads can't overrun a quota.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import type { QuotaAllowance, QuotaLimit, QuotaStatus } from '@ai-document-vault/shared';
+import { QuotaExceededError } from './errors';
+
+/**
+ * Limits in force for a user; null means unlimited
+ */
+export type QuotaLimits = Record<QuotaLimit, number | null>;
+
+/**
+ * Processing of a document to admit
+ */
+export interface QuotaRequest {
+  userId: string;
+  documentId: string;
+  operation: 'process' | 'regenerate';
+  pages: number; // Estimated pages of the file
+}
+
+/**
+ * Parse a limit from the environment
+ */
+function limitFromEnv(name: string): number | null {
+  const value = process.env[name];
+  if (value === undefined || value.trim() === '') {
+    return null;
+  }
+  const limit = Number(value);
+  if (!Number.isFinite(limit) || limit < 0) {
+    console.warn(`[Quotas] Ignoring ${name}="${value}"; expected a non-negative number`);
+    return null;
+  }
+  return limit;
+}
+
+/**
+ * Default limits from the environment
+ */
+export function getDefaultQuotaLimits(): QuotaLimits {
+  return {
+    documents_per_day: limitFromEnv('QUOTA_DOCUMENTS_PER_DAY'),
+    pages_per_month: limitFromEnv('QUOTA_PAGES_PER_MONTH'),
+    spend_per_month_usd: limitFromEnv('QUOTA_SPEND_PER_MONTH_USD'),
+  };
+}
+
+/**
+ * A user's limits: their own where set, otherwise the defaults
+ * 
+ * @throws When the user's limits can't be read
+ */
+export async function getQuotaLimits(userId: string): Promise<QuotaLimits> {
+  const defaults = getDefaultQuotaLimits();
+
+  const { data, error } = await supabaseAdmin
+    .from('user_quotas')
+    .select('documents_per_day, pages_per_month, spend_per_month_usd')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load quotas: ${error.message}`);
+  }
+
+  const own = data as Partial<Record<QuotaLimit, number | string | null>> | null;
+  const pick = (limit: QuotaLimit): number | null =>
+    own?.[limit] !== null && own?.[limit] !== undefined ? Number(own[limit]) : defaults[limit];
+
+  return {
+    documents_per_day: pick('documents_per_day'),
+    pages_per_month: pick('pages_per_month'),
+    spend_per_month_usd: pick('spend_per_month_usd'),
+  };
+}
+
+function allowance(limit: number | null, used: number, resetsAt: Date): QuotaAllowance {
+  return {
+    limit,
+    used,
+    remaining: limit === null ? null : Math.max(0, limit - used),
+    resets_at: resetsAt.toISOString(),
+  };
+}
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+/**
+ * Explain which limits a request ran into
+ */
+function describeExceeded(exceeded: QuotaLimit[], status: QuotaStatus, pages: number): string {
+  const reasons = exceeded.map((limit) => {
+    const { limit: value, used } = status[limit];
+    switch (limit) {
+      case 'documents_per_day':
+        return `You've processed ${used} of your ${value} documents for today; the limit resets at midnight UTC.`;
+      case 'pages_per_month':
+        return `This document (about ${pages} ${pages === 1 ? 'page' : 'pages'}) would go over your monthly limit of ${value} pages (${used} used).`;
+      case 'spend_per_month_usd':
+        return `You've used your monthly AI budget (${formatUsd(used)} of ${formatUsd(value ?? 0)}).`;
+    }
+  });
+  return reasons.join(' ');
+}
+
+/**
+ * Check the quotas and record an admitted document
+ * 
+ * Without a document only the spend limit applies and nothing is recorded.
+ */
+async function admit(userId: string, request: QuotaRequest | null): Promise<QuotaStatus> {
+  const limits = await getQuotaLimits(userId);
+  const pages = Math.max(1, Math.round(request?.pages ?? 1));
+
+  const { data, error } = await supabaseAdmin.rpc('admit_ai_request', {
+    p_user_id: userId,
+    p_document_id: request?.documentId ?? null,
+    p_operation: request?.operation ?? null,
+    p_pages: pages,
+    p_documents_per_day: limits.documents_per_day,
+    p_pages_per_month: limits.pages_per_month,
+    p_spend_per_month: limits.spend_per_month_usd,
+  });
+
+  if (error) {
+    throw new Error(`Failed to check quotas: ${error.message}`);
+  }
+
+  const row = ((data || []) as Array<{
+    admitted: boolean;
+    documents_today: number | string;
+    pages_this_month: number | string;
+    spend_this_month: number | string;
+  }>)[0];
+  if (!row) {
+    throw new Error('Failed to check quotas: no result');
+  }
+
+  const now = new Date();
+  const nextDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1));
+  const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+  const status: QuotaStatus = {
+    documents_per_day: allowance(limits.documents_per_day, Number(row.documents_today), nextDay),
+    pages_per_month: allowance(limits.pages_per_month, Number(row.pages_this_month), nextMonth),
+    spend_per_month_usd: allowance(limits.spend_per_month_usd, Number(row.spend_this_month), nextMonth),
+  };
+
+  if (row.admitted) {
+    return status;
+  }
+
+  const exceeded: QuotaLimit[] = [];
+  if (request) {
+    if (limits.documents_per_day !== null && status.documents_per_day.used + 1 > limits.documents_per_day) {
+      exceeded.push('documents_per_day');
+    }
+    if (limits.pages_per_month !== null && status.pages_per_month.used + pages > limits.pages_per_month) {
+      exceeded.push('pages_per_month');
+    }
+  }
+  if (limits.spend_per_month_usd !== null && status.spend_per_month_usd.used >= limits.spend_per_month_usd) {
+    exceeded.push('spend_per_month_usd');
+  }
+
+  console.log(`[Quotas] Refused ${request?.operation ?? 'AI request'} for user ${userId}: ${exceeded.join(', ')}`);
+  throw new QuotaExceededError(describeExceeded(exceeded, status, pages), { exceeded, allowance: status });
+}
+
+/**
+ * Admit processing or regenerating a document, counting it against the
+ * user's quotas
+ * 
+ * @returns The allowance before this request
+ * @throws QuotaExceededError when a limit has no room, with the remaining allowance
+ * @throws When the quotas can't be checked
+ */
+export async function admitDocumentProcessing(request: QuotaRequest): Promise<QuotaStatus> {
+  return admit(request.userId, request);
+}
+
+/**
+ * Check the user still has AI budget this month, for AI work that isn't
+ * about one document (e.g. group suggestions)
+ * 
+ * @throws QuotaExceededError when the monthly spend limit is used up
+ * @throws When the quotas can't be checked
+ */
+export async function checkSpendQuota(userId: string): Promise<QuotaStatus> {
+  return admit(userId, null);
+}
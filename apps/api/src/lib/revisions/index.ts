@@ -0,0 +1,11 @@
+/**
+ * Revisions Module
+ * 
+ * Central export point for the summary and markdown revision log.
+ * 
+ * Usage:
+ *   import { recordContentRevisions, listContentRevisions } from '@/lib/revisions';
+ */
+
+export { recordContentRevisions, listContentRevisions, getContentRevision } from './store';
+export type { ContentRevisionInput } from './store';
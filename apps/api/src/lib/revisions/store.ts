@@ -0,0 +1,115 @@
+/**
+ * Content Revision Store
+ * 
+ * Append-only log of a document's summary and markdown. Writers call
+ * recordContentRevisions after saving new content to the document;
+ * failures are logged rather than thrown because the content itself has
+ * already been saved.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { cursorFilter, toPaginatedResponse } from '../pagination';
+import type { PageRequest } from '../pagination';
+import type { ContentRevision, ContentRevisionsResponse, ContentField, ContentSource } from '@ai-document-vault/shared';
+
+/**
+ * A revision to record
+ */
+export interface ContentRevisionInput {
+  field: ContentField;
+  content: string | null;
+  source: ContentSource;
+  aiModel?: string | null;
+  restoredFrom?: string | null;
+}
+
+/**
+ * Append revisions for content just saved to a document
+ * 
+ * @param document - The document's id and current version
+ * @param authorId - User who made the edit, or whose document was processed
+ */
+export async function recordContentRevisions(
+  document: { id: string; current_version?: number },
+  authorId: string,
+  revisions: ContentRevisionInput[]
+): Promise<void> {
+  if (revisions.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin.from('content_revisions').insert(
+    revisions.map((revision) => ({
+      document_id: document.id,
+      version_number: document.current_version ?? 1,
+      field: revision.field,
+      content: revision.content,
+      source: revision.source,
+      ai_model: revision.aiModel ?? null,
+      author_id: authorId,
+      restored_from: revision.restoredFrom ?? null,
+    }))
+  );
+
+  if (error) {
+    console.error(`[Revisions] Failed to record content revisions for document ${document.id}:`, error.message);
+  }
+}
+
+/**
+ * List a document's revisions, newest first
+ * 
+ * The caller must have checked that the document belongs to the user.
+ */
+export async function listContentRevisions(
+  documentId: string,
+  filter: { field?: ContentField; version: number },
+  page: PageRequest
+): Promise<ContentRevisionsResponse> {
+  let query = supabaseAdmin
+    .from('content_revisions')
+    .select('*')
+    .eq('document_id', documentId)
+    .eq('version_number', filter.version);
+
+  if (filter.field) {
+    query = query.eq('field', filter.field);
+  }
+  if (page.cursor) {
+    query = query.or(cursorFilter(page.cursor));
+  }
+
+  const { data, error } = await query
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(page.limit + 1);
+
+  if (error) {
+    throw new Error(`Failed to list content revisions: ${error.message}`);
+  }
+
+  return toPaginatedResponse((data || []) as ContentRevision[], page.limit, (revision) => ({
+    created_at: revision.created_at,
+    id: revision.id,
+  }));
+}
+
+/**
+ * Fetch one revision of a document
+ * 
+ * @returns The revision, or null if the document has no such revision
+ */
+export async function getContentRevision(documentId: string, revisionId: string): Promise<ContentRevision | null> {
+  const { data, error } = await supabaseAdmin
+    .from('content_revisions')
+    .select('*')
+    .eq('document_id', documentId)
+    .eq('id', revisionId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch content revision: ${error.message}`);
+  }
+
+  return (data as ContentRevision | null) ?? null;
+}
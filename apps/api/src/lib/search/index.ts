@@ -0,0 +1,19 @@
+/**
+ * Search Module
+ * 
+ * Central export point for full-text and semantic search helpers.
+ * 
+ * Usage:
+ *   import { parseSearchQuery, parseHeadline } from '@/lib/search';
+ */
+
+export { parseSearchQuery } from './query';
+export type { ParsedSearchQuery } from './query';
+
+export { parseHeadline, passageSnippet } from './snippets';
+
+export { toSemanticSearchResults } from './semantic';
+export type { SemanticMatchRow } from './semantic';
+
+export { parseMetadataFilterParams, applyMetadataFilter } from './metadata';
+export type { MetadataFilter } from './metadata';
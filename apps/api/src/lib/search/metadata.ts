@@ -0,0 +1,128 @@
+/**
+ * Metadata Search Filters
+ * 
+ * Parses the metadata query parameters of GET /api/documents/search into
+ * the filter object understood by the document_metadata_matches database
+ * function, and applies the same filter to plain PostgREST queries.
+ */
+
+import { KEY_DATE_KINDS, isDocumentType } from '@ai-document-vault/shared';
+import type { ApiError, DocumentType, KeyDateKind } from '@ai-document-vault/shared';
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Filter on documents.metadata; only set keys are applied
+ */
+export interface MetadataFilter {
+  document_type?: DocumentType;
+  language?: string;
+  date_kind?: KeyDateKind;
+  date_from?: string; // YYYY-MM-DD, inclusive
+  date_to?: string; // YYYY-MM-DD, inclusive
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+function invalidFilter(message: string, code: string): Response {
+  return Response.json(
+    {
+      error: 'VALIDATION_ERROR',
+      message,
+      code,
+    } as ApiError,
+    { status: 400 }
+  );
+}
+
+/**
+ * Read document_type, language, date_kind, date_from and date_to query
+ * parameters
+ * 
+ * date_from and date_to bound the date of kind date_kind, so they require
+ * it; date_kind alone matches documents that have that date.
+ * 
+ * @returns The filter (null when no parameter is set), or a 400 response
+ */
+export function parseMetadataFilterParams(url: URL): MetadataFilter | null | Response {
+  const documentType = url.searchParams.get('document_type')?.trim().toLowerCase() || null;
+  const language = url.searchParams.get('language')?.trim().toLowerCase() || null;
+  const dateKind = url.searchParams.get('date_kind')?.trim().toLowerCase() || null;
+  const dateFrom = url.searchParams.get('date_from')?.trim() || null;
+  const dateTo = url.searchParams.get('date_to')?.trim() || null;
+
+  const filter: MetadataFilter = {};
+
+  if (documentType) {
+    if (!isDocumentType(documentType)) {
+      return invalidFilter(`Unknown document_type: ${documentType}`, 'INVALID_DOCUMENT_TYPE');
+    }
+    filter.document_type = documentType;
+  }
+
+  if (language) {
+    if (!/^[a-z]{2}$/.test(language)) {
+      return invalidFilter('language must be a two-letter ISO 639-1 code', 'INVALID_LANGUAGE');
+    }
+    filter.language = language;
+  }
+
+  if (dateKind) {
+    if (!KEY_DATE_KINDS.includes(dateKind as KeyDateKind)) {
+      return invalidFilter(`date_kind must be one of: ${KEY_DATE_KINDS.join(', ')}`, 'INVALID_DATE_KIND');
+    }
+    filter.date_kind = dateKind as KeyDateKind;
+  }
+
+  for (const [key, value] of [['date_from', dateFrom], ['date_to', dateTo]] as const) {
+    if (!value) continue;
+    if (!filter.date_kind) {
+      return invalidFilter(`${key} requires date_kind`, 'INVALID_DATE_FILTER');
+    }
+    if (!isValidDate(value)) {
+      return invalidFilter(`${key} must be a date (YYYY-MM-DD)`, 'INVALID_DATE_FILTER');
+    }
+    filter[key] = value;
+  }
+
+  return Object.keys(filter).length > 0 ? filter : null;
+}
+
+/**
+ * Apply a metadata filter to a PostgREST query on documents
+ * 
+ * Mirrors document_metadata_matches for queries that don't go through a
+ * database function.
+ */
+export function applyMetadataFilter<Q extends MetadataFilterable<Q>>(query: Q, filter: MetadataFilter): Q {
+  let filtered = query;
+  if (filter.document_type) {
+    filtered = filtered.eq('metadata->>document_type', filter.document_type);
+  }
+  if (filter.language) {
+    filtered = filtered.eq('metadata->>language', filter.language);
+  }
+  if (filter.date_kind) {
+    const column = `metadata->dates->>${filter.date_kind}`;
+    filtered = filtered.not(column, 'is', null);
+    if (filter.date_from) {
+      filtered = filtered.gte(column, filter.date_from);
+    }
+    if (filter.date_to) {
+      filtered = filtered.lte(column, filter.date_to);
+    }
+  }
+  return filtered;
+}
+
+/**
+ * The PostgREST filter methods applyMetadataFilter uses
+ */
+interface MetadataFilterable<Q> {
+  eq(column: string, value: string): Q;
+  not(column: string, operator: string, value: null): Q;
+  gte(column: string, value: string): Q;
+  lte(column: string, value: string): Q;
+}
@@ -0,0 +1,91 @@
+/**
+ * Search query parsing
+ *
+ * Every input, however malformed, must produce either null or an expression
+ * Postgres' to_tsquery accepts.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { parseSearchQuery } from './query';
+
+describe('parseSearchQuery', () => {
+  it('ANDs words together', () => {
+    expect(parseSearchQuery('quarterly Report')).toEqual({
+      tsquery: 'quarterly & report',
+      terms: ['quarterly', 'report'],
+    });
+  });
+
+  it('turns quoted text into a phrase', () => {
+    expect(parseSearchQuery('"board meeting" minutes')?.tsquery).toBe('(board <-> meeting) & minutes');
+  });
+
+  it('excludes negated words and phrases from the terms', () => {
+    expect(parseSearchQuery('report -draft -"old copy"')).toEqual({
+      tsquery: 'report & !draft & !(old <-> copy)',
+      terms: ['report'],
+    });
+  });
+
+  it('matches a prefix on the last word of a term', () => {
+    expect(parseSearchQuery('budg*')?.tsquery).toBe('budg:*');
+    expect(parseSearchQuery('e-mail*')?.tsquery).toBe('(e <-> mail:*)');
+  });
+
+  it('treats punctuation inside a term as a word separator', () => {
+    expect(parseSearchQuery("o'brien & sons|co")?.tsquery).toBe('(o <-> brien) & (sons <-> co)');
+  });
+
+  it('reads an unbalanced quote as a phrase to the end of the input', () => {
+    expect(parseSearchQuery('invoice "acme corp')?.tsquery).toBe('invoice & (acme <-> corp)');
+    expect(parseSearchQuery('acme corp"')?.tsquery).toBe('acme & corp');
+  });
+
+  it('returns null when there is nothing to search for', () => {
+    expect(parseSearchQuery('')).toBeNull();
+    expect(parseSearchQuery('   ')).toBeNull();
+    expect(parseSearchQuery('-')).toBeNull();
+    expect(parseSearchQuery('- -- *')).toBeNull();
+    expect(parseSearchQuery('""')).toBeNull();
+    expect(parseSearchQuery('-"')).toBeNull();
+    expect(parseSearchQuery('!&|():*<->')).toBeNull();
+  });
+
+  it('ignores empty parts of otherwise valid input', () => {
+    expect(parseSearchQuery('report - "" *')?.tsquery).toBe('report');
+  });
+
+  describe('in Postgres', () => {
+    let db: PGlite;
+
+    beforeAll(async () => {
+      db = new PGlite();
+      await db.waitReady;
+    }, 60_000);
+
+    afterAll(async () => {
+      await db?.close();
+    });
+
+    it.each([
+      'quarterly report',
+      '"unbalanced phrase',
+      'unbalanced"',
+      '-"excluded phrase" kept',
+      '-word',
+      'a & b | !c',
+      '(paren',
+      "it's <-> 'quoted':*",
+      'prefix** -*',
+      'naïve café 2024',
+    ])('produces a valid tsquery for %j', async (input) => {
+      const parsed = parseSearchQuery(input);
+      expect(parsed).not.toBeNull();
+
+      await expect(
+        db.query("SELECT to_tsquery('english', $1) AS query", [parsed!.tsquery])
+      ).resolves.toBeDefined();
+    });
+  });
+});
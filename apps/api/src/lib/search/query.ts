@@ -0,0 +1,81 @@
+/**
+ * Search Query Parsing
+ * 
+ * Converts the search box input into a Postgres to_tsquery expression.
+ * 
+ * Supported syntax:
+ * - `word` - documents containing the word (stemmed, so "reports" matches "report")
+ * - `"exact phrase"` - words must appear next to each other, in order
+ * - `-word` / `-"phrase"` - exclude documents containing the word or phrase
+ * - `prefix*` - words starting with the prefix
+ * 
+ * All terms must match (AND). Punctuation inside terms is treated as a word
+ * separator, so user input can never produce an invalid tsquery.
+ */
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+const TOKEN_PATTERN = /(-?)"([^"]*)"?|(-?)(\S+)/g;
+
+/**
+ * Parsed search query
+ */
+export interface ParsedSearchQuery {
+  tsquery: string; // Expression for to_tsquery('english', ...)
+  terms: string[]; // Positive (non-excluded) words, for logging/diagnostics
+}
+
+/**
+ * Extract normalized words from a raw token
+ */
+function extractWords(raw: string): string[] {
+  return (raw.match(WORD_PATTERN) || []).map((word) => word.toLowerCase());
+}
+
+/**
+ * Build a tsquery term from words, joining multiple words as a phrase
+ */
+function buildTerm(words: string[], prefix: boolean): string {
+  const lexemes = words.map((word, index) =>
+    prefix && index === words.length - 1 ? `${word}:*` : word
+  );
+  return lexemes.length === 1 ? lexemes[0] : `(${lexemes.join(' <-> ')})`;
+}
+
+/**
+ * Parse search box input into a tsquery expression
+ * 
+ * @param input - Raw query string from the user
+ * @returns Parsed query, or null when the input contains no searchable words
+ */
+export function parseSearchQuery(input: string): ParsedSearchQuery | null {
+  const parts: string[] = [];
+  const terms: string[] = [];
+
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const [, phraseNegation, phrase, termNegation, rawTerm] = match;
+    const isPhrase = phrase !== undefined;
+    const negated = (isPhrase ? phraseNegation : termNegation) === '-';
+    const raw = isPhrase ? phrase : rawTerm;
+    const prefix = !isPhrase && raw.endsWith('*');
+
+    const words = extractWords(raw);
+    if (words.length === 0) {
+      continue;
+    }
+
+    const term = buildTerm(words, prefix);
+    parts.push(negated ? `!${term}` : term);
+    if (!negated) {
+      terms.push(...words);
+    }
+  }
+
+  if (parts.length === 0) {
+    return null;
+  }
+
+  return {
+    tsquery: parts.join(' & '),
+    terms,
+  };
+}
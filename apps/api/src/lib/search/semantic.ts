@@ -0,0 +1,29 @@
+/**
+ * Semantic Search Results
+ * 
+ * Maps rows from the match_documents / find_similar_documents database
+ * functions into search results.
+ */
+
+import type { Document, DocumentSearchResult } from '@ai-document-vault/shared';
+import { passageSnippet } from './snippets';
+
+/**
+ * Row returned by match_documents and find_similar_documents
+ */
+export interface SemanticMatchRow {
+  document: Document;
+  similarity: number;
+  chunk_content: string | null;
+}
+
+/**
+ * Convert semantic match rows into search results (rank = cosine similarity)
+ */
+export function toSemanticSearchResults(rows: SemanticMatchRow[]): DocumentSearchResult[] {
+  return rows.map((row) => ({
+    ...row.document,
+    rank: row.similarity,
+    snippet: passageSnippet(row.chunk_content),
+  }));
+}
@@ -0,0 +1,109 @@
+/**
+ * Search snippets
+ *
+ * Highlights come only from the chr(2)/chr(3) markers search_documents asks
+ * ts_headline for; document text, markup included, stays plain text for
+ * the client to render escaped.
+ */
+
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { PGlite } from '@electric-sql/pglite';
+import { parseHeadline, passageSnippet } from './snippets';
+
+const START = '\u0002';
+const STOP = '\u0003';
+
+describe('parseHeadline', () => {
+  it('splits marked matches into highlighted segments', () => {
+    expect(parseHeadline(`Revenue ${START}report${STOP} for the ${START}third${STOP} quarter`)).toEqual([
+      { text: 'Revenue ', highlighted: false },
+      { text: 'report', highlighted: true },
+      { text: ' for the ', highlighted: false },
+      { text: 'third', highlighted: true },
+      { text: ' quarter', highlighted: false },
+    ]);
+  });
+
+  it('merges adjacent highlights', () => {
+    expect(parseHeadline(`${START}board${STOP}${START} meeting${STOP} minutes`)).toEqual([
+      { text: 'board meeting', highlighted: true },
+      { text: ' minutes', highlighted: false },
+    ]);
+  });
+
+  it('keeps HTML in the document as literal text', () => {
+    expect(parseHeadline(`<b>Total</b> & <script>alert("x")</script> ${START}due${STOP}`)).toEqual([
+      { text: '<b>Total</b> & <script>alert("x")</script> ', highlighted: false },
+      { text: 'due', highlighted: true },
+    ]);
+  });
+
+  it('strips noisy Markdown syntax', () => {
+    expect(parseHeadline(`# Summary\n\n- **Net** ${START}income${STOP} | \`42\``)).toEqual([
+      { text: 'Summary Net ', highlighted: false },
+      { text: 'income', highlighted: true },
+      { text: ' 42', highlighted: false },
+    ]);
+  });
+
+  it('tolerates unbalanced markers', () => {
+    expect(parseHeadline(`open ${START}ended`)).toEqual([
+      { text: 'open ', highlighted: false },
+      { text: 'ended', highlighted: true },
+    ]);
+    expect(parseHeadline(`stray${STOP} stop`)).toEqual([{ text: 'stray stop', highlighted: false }]);
+  });
+
+  it('returns null when there is nothing to show', () => {
+    expect(parseHeadline(null)).toBeNull();
+    expect(parseHeadline(undefined)).toBeNull();
+    expect(parseHeadline('')).toBeNull();
+    expect(parseHeadline(`  ${START}${STOP}  `)).toBeNull();
+  });
+
+  describe('with ts_headline output', () => {
+    let db: PGlite;
+
+    beforeAll(async () => {
+      db = new PGlite();
+      await db.waitReady;
+    }, 60_000);
+
+    afterAll(async () => {
+      await db?.close();
+    });
+
+    it('highlights the matches and leaves markup in the text untouched', async () => {
+      const { rows } = await db.query<{ headline: string }>(
+        `SELECT ts_headline('english', $1, to_tsquery('english', $2),
+           'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', HighlightAll=true') AS headline`,
+        ['<img src=x onerror="alert(1)"> Invoices & payments', 'invoice']
+      );
+
+      const segments = parseHeadline(rows[0].headline);
+
+      expect(segments?.filter((segment) => segment.highlighted).map((segment) => segment.text)).toEqual(['Invoices']);
+      expect(segments?.map((segment) => segment.text).join('')).toBe('<img src=x onerror="alert(1)"> Invoices & payments');
+    });
+  });
+});
+
+describe('passageSnippet', () => {
+  it('returns the cleaned passage as one plain segment', () => {
+    expect(passageSnippet('## Terms\n\nPayment is due in **30 days**.')).toEqual([
+      { text: 'Terms Payment is due in 30 days.', highlighted: false },
+    ]);
+  });
+
+  it('shortens long passages at a word boundary', () => {
+    const [segment] = passageSnippet('word '.repeat(100))!;
+
+    expect(segment.text.endsWith('word …')).toBe(true);
+    expect(segment.text.length).toBeLessThanOrEqual(242);
+  });
+
+  it('returns null for an empty passage', () => {
+    expect(passageSnippet(null)).toBeNull();
+    expect(passageSnippet('  \n ')).toBeNull();
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Search Snippets
+ * 
+ * Turns ts_headline output into highlighted segments. The search_documents
+ * function marks matches with control characters (chr(2) start, chr(3) stop)
+ * rather than HTML, so document text never has to be escaped or trusted.
+ * 
+ * Semantic matches have no highlighted terms; their snippet is a shortened
+ * excerpt of the best-matching chunk.
+ */
+
+import type { SearchSnippetSegment } from '@ai-document-vault/shared';
+
+const HIGHLIGHT_START = '\u0002';
+const HIGHLIGHT_STOP = '\u0003';
+const PASSAGE_SNIPPET_CHARS = 240;
+
+/**
+ * Strip the most noisy Markdown syntax so snippets read as prose
+ */
+function cleanMarkdown(text: string): string {
+  return text
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/\*\*|__|`/g, '')
+    .replace(/\|/g, ' ')
+    .replace(/\s+/g, ' ');
+}
+
+/**
+ * Split a ts_headline result into plain and highlighted segments
+ * 
+ * @param headline - Headline text with control-character markers
+ * @returns Segments in order, or null when there is nothing to show
+ */
+export function parseHeadline(headline: string | null | undefined): SearchSnippetSegment[] | null {
+  if (!headline) {
+    return null;
+  }
+
+  const segments: SearchSnippetSegment[] = [];
+  let highlighted = false;
+  let buffer = '';
+
+  const flush = () => {
+    const text = cleanMarkdown(buffer);
+    buffer = '';
+    if (!text) {
+      return;
+    }
+    const previous = segments[segments.length - 1];
+    if (previous && previous.highlighted === highlighted) {
+      previous.text += text;
+    } else {
+      segments.push({ text, highlighted });
+    }
+  };
+
+  for (const char of headline) {
+    if (char === HIGHLIGHT_START || char === HIGHLIGHT_STOP) {
+      flush();
+      highlighted = char === HIGHLIGHT_START;
+    } else {
+      buffer += char;
+    }
+  }
+  flush();
+
+  if (segments.length > 0) {
+    segments[0].text = segments[0].text.trimStart();
+    const last = segments[segments.length - 1];
+    last.text = last.text.trimEnd();
+  }
+
+  const nonEmpty = segments.filter((segment) => segment.text.length > 0);
+  return nonEmpty.length > 0 ? nonEmpty : null;
+}
+
+/**
+ * Build an unhighlighted snippet from a matching passage
+ * 
+ * @param passage - Chunk text that matched a semantic query
+ * @returns Single plain segment, shortened at a word boundary, or null if empty
+ */
+export function passageSnippet(passage: string | null | undefined): SearchSnippetSegment[] | null {
+  const text = cleanMarkdown(passage || '').trim();
+  if (!text) {
+    return null;
+  }
+
+  if (text.length <= PASSAGE_SNIPPET_CHARS) {
+    return [{ text, highlighted: false }];
+  }
+
+  const cut = text.lastIndexOf(' ', PASSAGE_SNIPPET_CHARS);
+  const shortened = text.substring(0, cut > 0 ? cut : PASSAGE_SNIPPET_CHARS);
+  return [{ text: `${shortened} …`, highlighted: false }];
+}
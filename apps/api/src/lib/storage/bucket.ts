@@ -57,7 +57,7 @@ export async function bucketExists(bucketName: string): Promise<boolean> {
  * 
  * Creates the "documents" bucket with appropriate settings:
  * - Public: false (files accessed via signed URLs)
- * - File size limit: 50MB (configurable)
+ * - File size limit: 100MB (matches the upload limit)
  * - Allowed MIME types: all (configurable)
  * 
  * This function is idempotent - safe to call multiple times.
@@ -79,7 +79,7 @@ export async function ensureBucketExists(
     // Note: Public is set to false - files are accessed via signed URLs
     const { error } = await supabaseAdmin.storage.createBucket(bucketName, {
       public: false, // Files are private, accessed via signed URLs
-      fileSizeLimit: 50 * 1024 * 1024, // 50MB limit
+      fileSizeLimit: 100 * 1024 * 1024, // 100MB limit
       allowedMimeTypes: null, // Allow all MIME types (can be restricted later)
     });
 
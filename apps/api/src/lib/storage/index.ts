@@ -17,7 +17,9 @@ export {
 } from './bucket';
 
 // File upload
-export { uploadFile, uploadFileFromStream } from './upload';
+export { uploadFile, uploadFileFromStream, computeContentHash } from './upload';
+export { startResumableUpload, RESUMABLE_PART_SIZE } from './resumable';
+export type { ResumableUpload } from './resumable';
 
 // Signed URLs
 export { generateSignedUrl, generateSignedUrls } from './urls';
@@ -0,0 +1,144 @@
+/**
+ * Resumable Uploads
+ *
+ * Writes a file to Supabase Storage in parts over its TUS resumable upload
+ * endpoint, so a large file (e.g. one assembled from upload session
+ * chunks) can be stored without holding all of it in memory. The storage
+ * client's upload takes the whole file as one body.
+ *
+ * Assumptions:
+ * - The file's size is known before the first byte is written
+ * - Storage accepts parts of exactly RESUMABLE_PART_SIZE bytes, except the last
+ * - An upload that is never finished doesn't create an object
+ */
+
+import { ensureBucketExists } from './bucket';
+import { generateStoragePath } from './upload';
+import type { StorageConfig } from '@ai-document-vault/shared';
+
+/**
+ * Bytes per request; Supabase Storage requires 6MB parts
+ */
+export const RESUMABLE_PART_SIZE = 6 * 1024 * 1024;
+
+const TUS_VERSION = '1.0.0';
+
+/**
+ * An upload in progress
+ */
+export interface ResumableUpload {
+  path: string; // Storage path of the object once finished
+  /** Append bytes; every full part is sent as soon as it is buffered */
+  write(bytes: Buffer): Promise<void>;
+  /** Send the remaining bytes. Throws unless exactly the declared size was written. */
+  finish(): Promise<void>;
+}
+
+function encodeMetadata(values: Record<string, string>): string {
+  return Object.entries(values)
+    .map(([key, value]) => `${key} ${Buffer.from(value).toString('base64')}`)
+    .join(',');
+}
+
+/**
+ * Start a resumable upload of a new object
+ *
+ * @param file - Original filename, MIME type and total size in bytes
+ * @param config - Storage configuration
+ * @throws Error when the bucket can't be created or storage rejects the upload
+ */
+export async function startResumableUpload(
+  file: { filename: string; content_type: string; size: number },
+  config?: Partial<StorageConfig>
+): Promise<ResumableUpload> {
+  const bucketName = config?.bucket_name || 'documents';
+  const bucketResult = await ensureBucketExists(bucketName);
+  if (!bucketResult.success) {
+    throw new Error(`Failed to ensure bucket exists: ${bucketResult.error}`);
+  }
+
+  const supabaseUrl = process.env.SUPABASE_URL;
+  const serviceRoleKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!supabaseUrl || !serviceRoleKey) {
+    throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY must be set in environment variables');
+  }
+
+  const storageUrl = `${supabaseUrl}/storage/v1/upload/resumable`;
+  const authHeaders = {
+    Authorization: `Bearer ${serviceRoleKey}`,
+    apikey: serviceRoleKey,
+    'Tus-Resumable': TUS_VERSION,
+  };
+
+  const path = generateStoragePath(file.filename);
+  const created = await fetch(storageUrl, {
+    method: 'POST',
+    headers: {
+      ...authHeaders,
+      'Upload-Length': String(file.size),
+      'Upload-Metadata': encodeMetadata({
+        bucketName,
+        objectName: path,
+        contentType: file.content_type || 'application/octet-stream',
+      }),
+      'x-upsert': 'false',
+    },
+  });
+
+  const location = created.headers.get('location');
+  if (!created.ok || !location) {
+    throw new Error(`Storage rejected the upload (${created.status}): ${await created.text()}`);
+  }
+  const uploadUrl = new URL(location, storageUrl).toString();
+
+  let offset = 0;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  const sendPart = async (part: Buffer): Promise<void> => {
+    const response = await fetch(uploadUrl, {
+      method: 'PATCH',
+      headers: {
+        ...authHeaders,
+        'Upload-Offset': String(offset),
+        'Content-Type': 'application/offset+octet-stream',
+      },
+      body: part,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Storage rejected bytes ${offset}-${offset + part.length - 1} (${response.status}): ${await response.text()}`);
+    }
+    offset += part.length;
+  };
+
+  return {
+    path,
+
+    async write(bytes) {
+      if (offset + pendingBytes + bytes.length > file.size) {
+        throw new Error(`More than the declared ${file.size} bytes were written`);
+      }
+      pending.push(bytes);
+      pendingBytes += bytes.length;
+
+      while (pendingBytes >= RESUMABLE_PART_SIZE) {
+        const buffered = Buffer.concat(pending);
+        await sendPart(buffered.subarray(0, RESUMABLE_PART_SIZE));
+        pending = [buffered.subarray(RESUMABLE_PART_SIZE)];
+        pendingBytes = buffered.length - RESUMABLE_PART_SIZE;
+      }
+    },
+
+    async finish() {
+      if (pendingBytes > 0) {
+        await sendPart(Buffer.concat(pending));
+        pending = [];
+        pendingBytes = 0;
+      }
+      if (offset !== file.size) {
+        throw new Error(`Upload ended after ${offset} of ${file.size} bytes`);
+      }
+    },
+  };
+}
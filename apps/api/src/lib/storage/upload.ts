@@ -19,7 +19,7 @@ import type {
   FileUploadOptions,
   StorageConfig,
 } from '@ai-document-vault/shared';
-import { randomUUID } from 'crypto';
+import { randomUUID, createHash } from 'crypto';
 import { extname } from 'path';
 
 /**
@@ -31,13 +31,25 @@ import { extname } from 'path';
  * @param filename - Original filename
  * @returns Unique storage path
  */
-function generateStoragePath(filename: string): string {
+export function generateStoragePath(filename: string): string {
   const uuid = randomUUID();
   const extension = extname(filename);
   const baseName = filename.replace(extension, '').replace(/[^a-zA-Z0-9-_]/g, '_');
   return `${uuid}-${baseName}${extension}`;
 }
 
+/**
+ * Compute the content hash of a file
+ * 
+ * Used to detect uploads of a file the user already has.
+ * 
+ * @param file - File contents
+ * @returns SHA-256 digest as lowercase hex
+ */
+export function computeContentHash(file: Buffer | Uint8Array): string {
+  return createHash('sha256').update(file).digest('hex');
+}
+
 /**
  * Upload a file to Supabase Storage
  * 
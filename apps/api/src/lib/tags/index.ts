@@ -0,0 +1,11 @@
+/**
+ * Tags Module
+ * 
+ * Central export point for document tags and tag name handling.
+ * 
+ * Usage:
+ *   import { findOrCreateTag, getDocumentTags, parseTagName } from '@/lib/tags';
+ */
+
+export { parseTagName, isSameTagName, cleanTagSuggestions, MAX_TAG_NAME_LENGTH } from './names';
+export { listTags, findTagByName, findOrCreateTag, getDocumentTags, removeSuggestedTag } from './store';
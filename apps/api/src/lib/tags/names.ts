@@ -0,0 +1,62 @@
+/**
+ * Tag Names
+ * 
+ * Validation and normalization of tag names. Names are compared ignoring
+ * case; the spelling first used is the one stored.
+ */
+
+export const MAX_TAG_NAME_LENGTH = 50;
+
+/**
+ * Validate and normalize a tag name
+ * 
+ * Surrounding whitespace is trimmed and inner runs of whitespace collapse
+ * to a single space.
+ * 
+ * @returns The name to store, or a message describing the problem
+ */
+export function parseTagName(input: unknown): { name: string } | { error: string } {
+  if (typeof input !== 'string') {
+    return { error: 'Tag name is required' };
+  }
+
+  const name = input.trim().replace(/\s+/g, ' ');
+  if (name === '') {
+    return { error: 'Tag name cannot be empty' };
+  }
+  if (name.length > MAX_TAG_NAME_LENGTH) {
+    return { error: `Tag name must be at most ${MAX_TAG_NAME_LENGTH} characters` };
+  }
+
+  return { name };
+}
+
+/**
+ * Whether two tag names refer to the same tag
+ */
+export function isSameTagName(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+/**
+ * Normalize proposed tag names, dropping invalid ones, duplicates and any
+ * the document already carries
+ * 
+ * @param proposed - Names in order of preference
+ * @param applied - Names already on the document
+ * @param max - Maximum number of names to keep
+ */
+export function cleanTagSuggestions(proposed: unknown[], applied: string[], max: number): string[] {
+  const kept: string[] = [];
+
+  for (const candidate of proposed) {
+    const parsed = parseTagName(candidate);
+    if ('error' in parsed) continue;
+    if ([...applied, ...kept].some((name) => isSameTagName(name, parsed.name))) continue;
+
+    kept.push(parsed.name);
+    if (kept.length >= max) break;
+  }
+
+  return kept;
+}
@@ -0,0 +1,164 @@
+/**
+ * Tag Store
+ * 
+ * Reads and writes a user's tags and the tags applied to documents.
+ * Callers check that the documents involved belong to the user.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import type { Tag, DocumentTags } from '@ai-document-vault/shared';
+import { isSameTagName } from './names';
+
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Tag row with its embedded document count
+ */
+interface TagCountRow {
+  id: string;
+  name: string;
+  created_at: string;
+  document_tags: { count: number }[] | null;
+}
+
+/**
+ * List the user's tags, sorted by name, with how many documents carry each
+ * 
+ * @throws When the tags can't be read
+ */
+export async function listTags(userId: string): Promise<Tag[]> {
+  const { data, error } = await supabaseAdmin
+    .from('tags')
+    .select('id, name, created_at, document_tags(count)')
+    .eq('user_id', userId)
+    .order('name', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to list tags: ${error.message}`);
+  }
+
+  return ((data || []) as TagCountRow[]).map((row) => ({
+    id: row.id,
+    name: row.name,
+    created_at: row.created_at,
+    document_count: row.document_tags?.[0]?.count ?? 0,
+  }));
+}
+
+/**
+ * Find one of the user's tags by name, ignoring case
+ * 
+ * @param excludeTagId - A tag being renamed, which may keep its own name
+ * @throws When the tags can't be read
+ */
+export async function findTagByName(userId: string, name: string, excludeTagId?: string): Promise<Tag | null> {
+  let query = supabaseAdmin
+    .from('tags')
+    .select('id, name, created_at')
+    .eq('user_id', userId)
+    .ilike('name', name.replace(/[\\%_]/g, (char) => `\\${char}`));
+
+  if (excludeTagId) {
+    query = query.neq('id', excludeTagId);
+  }
+
+  const { data, error } = await query.limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up tag: ${error.message}`);
+  }
+
+  return ((data || [])[0] as Tag | undefined) ?? null;
+}
+
+/**
+ * Return the user's tag with this name, creating it if there is none
+ * 
+ * A concurrent request creating the same tag is resolved by reading the
+ * row it inserted.
+ * 
+ * @throws When the tag can't be read or created
+ */
+export async function findOrCreateTag(userId: string, name: string): Promise<Tag> {
+  const existing = await findTagByName(userId, name);
+  if (existing) {
+    return existing;
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('tags')
+    .insert({ user_id: userId, name })
+    .select('id, name, created_at')
+    .single();
+
+  if (error?.code === UNIQUE_VIOLATION) {
+    const created = await findTagByName(userId, name);
+    if (created) {
+      return created;
+    }
+  }
+  if (error || !data) {
+    throw new Error(`Failed to create tag: ${error?.message || 'no row returned'}`);
+  }
+
+  return data as Tag;
+}
+
+/**
+ * Tags applied to a document, and its suggestions not yet applied
+ * 
+ * @param document - The document's id and pending AI suggestions
+ * @throws When the tags can't be read
+ */
+export async function getDocumentTags(
+  document: { id: string; suggested_tags?: string[] | null }
+): Promise<DocumentTags> {
+  const { data, error } = await supabaseAdmin
+    .from('document_tags')
+    .select('tags(id, name, created_at)')
+    .eq('document_id', document.id);
+
+  if (error) {
+    throw new Error(`Failed to load document tags: ${error.message}`);
+  }
+
+  const tags = ((data || []) as unknown as { tags: Tag | null }[])
+    .map((row) => row.tags)
+    .filter((tag): tag is Tag => tag !== null)
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+
+  const suggested = (document.suggested_tags || []).filter(
+    (name) => !tags.some((tag) => isSameTagName(tag.name, name))
+  );
+
+  return { tags, suggested };
+}
+
+/**
+ * Drop a name from a document's pending suggestions
+ * 
+ * @returns The remaining suggestions
+ * @throws When the document can't be updated
+ */
+export async function removeSuggestedTag(
+  document: { id: string; suggested_tags?: string[] | null },
+  name: string
+): Promise<string[]> {
+  const current = document.suggested_tags || [];
+  const remaining = current.filter((suggestion) => !isSameTagName(suggestion, name));
+
+  if (remaining.length === current.length) {
+    return remaining;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('documents')
+    .update({ suggested_tags: remaining })
+    .eq('id', document.id);
+
+  if (error) {
+    throw new Error(`Failed to update suggested tags: ${error.message}`);
+  }
+
+  return remaining;
+}
@@ -0,0 +1,35 @@
+/**
+ * Templates Module
+ * 
+ * Central export point for extraction template validation, storage and
+ * running.
+ * 
+ * Usage:
+ *   import { parseTemplateInput, listTemplates, runExtractionTemplates } from '@/lib/templates';
+ */
+
+export {
+  parseTemplateInput,
+  parseTemplateUpdate,
+  defaultTemplateLayout,
+  parseTemplateIds,
+  MAX_TEMPLATE_NAME_LENGTH,
+  MAX_TEMPLATE_DESCRIPTION_LENGTH,
+  MAX_TEMPLATE_PROMPT_LENGTH,
+} from './validation';
+export type { ParsedTemplate, TemplateValidationError } from './validation';
+export { buildTemplatePrompt, escapePromptText, TEMPLATE_TOOL_NAME, MAX_TEMPLATE_CONTENT_CHARS } from './prompt';
+export {
+  listTemplates,
+  getTemplate,
+  isTemplateNameTaken,
+  resolveTemplateIds,
+  listTemplatesForDocument,
+  getDocumentTemplates,
+  setDocumentTemplates,
+  addDocumentTemplates,
+  getGroupTemplateIds,
+  setGroupTemplates,
+  saveTemplateResult,
+} from './store';
+export { runExtractionTemplates } from './runner';
@@ -0,0 +1,73 @@
+/**
+ * Template Runner
+ * 
+ * Runs every extraction template that applies to a document and stores one
+ * result per template. Templates are extras on top of the summary and
+ * markdown, so a failing template is recorded on its result and never fails
+ * processing.
+ */
+
+import { runTemplatePrompt } from '../ai/claude';
+import { createUsageMeter } from '../usage/store';
+import { buildTemplatePrompt } from './prompt';
+import { listTemplatesForDocument, saveTemplateResult } from './store';
+
+/**
+ * Run a document's templates against its extracted text
+ * 
+ * @param document - The document's id, owner and file name
+ * @param content - Extracted text of the original file
+ * @returns How many templates ran and how many of those failed
+ */
+export async function runExtractionTemplates(
+  document: { id: string; user_id: string; name: string },
+  content: string,
+  requestId: string
+): Promise<{ ran: number; failed: number }> {
+  let templates;
+  try {
+    templates = await listTemplatesForDocument(document.id);
+  } catch (error) {
+    console.warn(`[Templates ${requestId}] Could not load templates, skipping:`, error instanceof Error ? error.message : error);
+    return { ran: 0, failed: 0 };
+  }
+
+  const meter = createUsageMeter({ userId: document.user_id, documentId: document.id, operation: 'template' });
+  let failed = 0;
+  for (const template of templates) {
+    const { prompt, truncated } = buildTemplatePrompt(template, document.name, content);
+    let outcome: { output: Record<string, unknown> } | { error: string };
+    let model: string | null = null;
+
+    try {
+      const response = await runTemplatePrompt(prompt, template.output_schema, meter.record);
+      model = response.model;
+      outcome = { output: response.output };
+    } catch (error) {
+      outcome = { error: error instanceof Error ? error.message : 'Template run failed' };
+    }
+
+    if ('error' in outcome) {
+      failed++;
+      console.warn(`[Templates ${requestId}] Template ${template.id} failed: ${outcome.error}`);
+    }
+
+    try {
+      await saveTemplateResult({
+        document_id: document.id,
+        template_id: template.id,
+        user_id: document.user_id,
+        status: 'error' in outcome ? 'failed' : 'succeeded',
+        output: 'error' in outcome ? null : outcome.output,
+        error: 'error' in outcome ? outcome.error : null,
+        model,
+        truncated,
+      });
+    } catch (error) {
+      console.error(`[Templates ${requestId}] Could not save result of template ${template.id}:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  await meter.flush();
+  return { ran: templates.length, failed };
+}
@@ -0,0 +1,326 @@
+/**
+ * Template Store
+ * 
+ * Reads and writes a user's extraction templates, their assignments to
+ * documents and groups, and the results of running them. Callers check
+ * that the documents and groups involved belong to the user.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import type { ExtractionTemplate, DocumentTemplates, TemplateResult, TemplateResultStatus } from '@ai-document-vault/shared';
+
+const TEMPLATE_COLUMNS = 'id, name, description, prompt, output_schema, layout, created_at, updated_at';
+
+function byName(a: ExtractionTemplate, b: ExtractionTemplate): number {
+  return a.name.localeCompare(b.name, undefined, { sensitivity: 'base' });
+}
+
+/**
+ * List the user's templates, sorted by name
+ * 
+ * @throws When the templates can't be read
+ */
+export async function listTemplates(userId: string): Promise<ExtractionTemplate[]> {
+  const { data, error } = await supabaseAdmin
+    .from('extraction_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('user_id', userId);
+
+  if (error) {
+    throw new Error(`Failed to list templates: ${error.message}`);
+  }
+
+  return ((data || []) as ExtractionTemplate[]).sort(byName);
+}
+
+/**
+ * Load one of the user's templates
+ * 
+ * @returns The template, or null when the user has no template with this id
+ * @throws When the template can't be read
+ */
+export async function getTemplate(userId: string, templateId: string): Promise<ExtractionTemplate | null> {
+  const { data, error } = await supabaseAdmin
+    .from('extraction_templates')
+    .select(TEMPLATE_COLUMNS)
+    .eq('id', templateId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load template: ${error.message}`);
+  }
+
+  return (data as ExtractionTemplate | null) ?? null;
+}
+
+/**
+ * Whether the user has another template with this name, ignoring case
+ * 
+ * @param excludeTemplateId - A template being renamed, which may keep its own name
+ * @throws When the templates can't be read
+ */
+export async function isTemplateNameTaken(userId: string, name: string, excludeTemplateId?: string): Promise<boolean> {
+  let query = supabaseAdmin
+    .from('extraction_templates')
+    .select('id')
+    .eq('user_id', userId)
+    .ilike('name', name.replace(/[\\%_]/g, (char) => `\\${char}`));
+
+  if (excludeTemplateId) {
+    query = query.neq('id', excludeTemplateId);
+  }
+
+  const { data, error } = await query.limit(1);
+
+  if (error) {
+    throw new Error(`Failed to look up template: ${error.message}`);
+  }
+
+  return (data || []).length > 0;
+}
+
+/**
+ * Check that every id names one of the user's templates
+ * 
+ * @returns The ids without duplicates, or null when any isn't the user's
+ * @throws When the templates can't be read
+ */
+export async function resolveTemplateIds(userId: string, templateIds: string[]): Promise<string[] | null> {
+  const unique = [...new Set(templateIds)];
+  if (unique.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('extraction_templates')
+    .select('id')
+    .eq('user_id', userId)
+    .in('id', unique);
+
+  if (error) {
+    throw new Error(`Failed to look up templates: ${error.message}`);
+  }
+
+  return (data || []).length === unique.length ? unique : null;
+}
+
+/**
+ * Ids of the templates assigned to a document directly and through its groups
+ */
+async function getAssignedTemplateIds(
+  documentId: string
+): Promise<{ templateIds: string[]; groupTemplateIds: string[] }> {
+  const { data: direct, error: directError } = await supabaseAdmin
+    .from('document_templates')
+    .select('template_id')
+    .eq('document_id', documentId);
+
+  if (directError) {
+    throw new Error(`Failed to load document templates: ${directError.message}`);
+  }
+
+  const { data: memberships, error: membershipError } = await supabaseAdmin
+    .from('document_groups')
+    .select('group_id')
+    .eq('document_id', documentId);
+
+  if (membershipError) {
+    throw new Error(`Failed to load document groups: ${membershipError.message}`);
+  }
+
+  const groupIds = (memberships || []).map((row) => row.group_id as string);
+  let groupTemplateIds: string[] = [];
+  if (groupIds.length > 0) {
+    const { data: groupRows, error: groupError } = await supabaseAdmin
+      .from('group_templates')
+      .select('template_id')
+      .in('group_id', groupIds);
+
+    if (groupError) {
+      throw new Error(`Failed to load group templates: ${groupError.message}`);
+    }
+    groupTemplateIds = [...new Set((groupRows || []).map((row) => row.template_id as string))];
+  }
+
+  return {
+    templateIds: (direct || []).map((row) => row.template_id as string),
+    groupTemplateIds,
+  };
+}
+
+/**
+ * Load templates by id, sorted by name
+ */
+async function loadTemplates(templateIds: string[]): Promise<ExtractionTemplate[]> {
+  if (templateIds.length === 0) {
+    return [];
+  }
+
+  const { data, error } = await supabaseAdmin
+    .from('extraction_templates')
+    .select(TEMPLATE_COLUMNS)
+    .in('id', templateIds);
+
+  if (error) {
+    throw new Error(`Failed to load templates: ${error.message}`);
+  }
+
+  return ((data || []) as ExtractionTemplate[]).sort(byName);
+}
+
+/**
+ * Templates that run for a document
+ * 
+ * Its own templates and those of the groups it directly belongs to.
+ * 
+ * @throws When the assignments can't be read
+ */
+export async function listTemplatesForDocument(documentId: string): Promise<ExtractionTemplate[]> {
+  const { templateIds, groupTemplateIds } = await getAssignedTemplateIds(documentId);
+  return loadTemplates([...new Set([...templateIds, ...groupTemplateIds])]);
+}
+
+/**
+ * A document's template assignments and latest results
+ * 
+ * Templates no longer assigned keep their results, and are listed so the
+ * results can be shown.
+ * 
+ * @throws When the templates or results can't be read
+ */
+export async function getDocumentTemplates(documentId: string): Promise<DocumentTemplates> {
+  const { templateIds, groupTemplateIds } = await getAssignedTemplateIds(documentId);
+
+  const { data, error } = await supabaseAdmin
+    .from('template_results')
+    .select('id, document_id, template_id, status, output, error, model, truncated, created_at, updated_at')
+    .eq('document_id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to load template results: ${error.message}`);
+  }
+
+  const results = (data || []) as TemplateResult[];
+  const templates = await loadTemplates([
+    ...new Set([...templateIds, ...groupTemplateIds, ...results.map((result) => result.template_id)]),
+  ]);
+
+  return { template_ids: templateIds, group_template_ids: groupTemplateIds, templates, results };
+}
+
+/**
+ * Replace the rows linking an owner to templates
+ */
+async function replaceAssignments(
+  table: 'document_templates' | 'group_templates',
+  ownerColumn: 'document_id' | 'group_id',
+  ownerId: string,
+  templateIds: string[]
+): Promise<void> {
+  const { error: deleteError } = await supabaseAdmin
+    .from(table)
+    .delete()
+    .eq(ownerColumn, ownerId);
+
+  if (deleteError) {
+    throw new Error(`Failed to clear ${table}: ${deleteError.message}`);
+  }
+
+  if (templateIds.length === 0) {
+    return;
+  }
+
+  const { error: insertError } = await supabaseAdmin
+    .from(table)
+    .insert(templateIds.map((templateId) => ({ [ownerColumn]: ownerId, template_id: templateId })));
+
+  if (insertError) {
+    throw new Error(`Failed to assign templates: ${insertError.message}`);
+  }
+}
+
+/**
+ * Replace the templates assigned directly to a document
+ * 
+ * @param templateIds - Ids already checked with resolveTemplateIds
+ * @throws When the assignments can't be written
+ */
+export async function setDocumentTemplates(documentId: string, templateIds: string[]): Promise<void> {
+  await replaceAssignments('document_templates', 'document_id', documentId, templateIds);
+}
+
+/**
+ * Assign templates to a document, keeping its current assignments
+ * 
+ * @param templateIds - Ids already checked with resolveTemplateIds
+ * @throws When the assignments can't be written
+ */
+export async function addDocumentTemplates(documentId: string, templateIds: string[]): Promise<void> {
+  if (templateIds.length === 0) {
+    return;
+  }
+
+  const { error } = await supabaseAdmin
+    .from('document_templates')
+    .upsert(
+      templateIds.map((templateId) => ({ document_id: documentId, template_id: templateId })),
+      { onConflict: 'document_id,template_id', ignoreDuplicates: true }
+    );
+
+  if (error) {
+    throw new Error(`Failed to assign templates: ${error.message}`);
+  }
+}
+
+/**
+ * Ids of the templates assigned to a group
+ * 
+ * @throws When the assignments can't be read
+ */
+export async function getGroupTemplateIds(groupId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('group_templates')
+    .select('template_id')
+    .eq('group_id', groupId);
+
+  if (error) {
+    throw new Error(`Failed to load group templates: ${error.message}`);
+  }
+
+  return (data || []).map((row) => row.template_id as string);
+}
+
+/**
+ * Replace the templates assigned to a group
+ * 
+ * @param templateIds - Ids already checked with resolveTemplateIds
+ * @throws When the assignments can't be written
+ */
+export async function setGroupTemplates(groupId: string, templateIds: string[]): Promise<void> {
+  await replaceAssignments('group_templates', 'group_id', groupId, templateIds);
+}
+
+/**
+ * Store the outcome of running a template, replacing the previous one
+ * 
+ * @throws When the result can't be written
+ */
+export async function saveTemplateResult(result: {
+  document_id: string;
+  template_id: string;
+  user_id: string;
+  status: TemplateResultStatus;
+  output: Record<string, unknown> | null;
+  error: string | null;
+  model: string | null;
+  truncated: boolean;
+}): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('template_results')
+    .upsert({ ...result, updated_at: new Date().toISOString() }, { onConflict: 'document_id,template_id' });
+
+  if (error) {
+    throw new Error(`Failed to save template result: ${error.message}`);
+  }
+}
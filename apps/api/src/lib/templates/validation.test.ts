@@ -0,0 +1,161 @@
+/**
+ * Template validation
+ *
+ * Templates reach AI prompts and drive rendering, so invalid names,
+ * prompts, schemas and layouts are rejected with the code the API reports.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ExtractionTemplateInput, TemplateSchema } from '@ai-document-vault/shared';
+import { MAX_TEMPLATE_PROMPT_LENGTH, parseTemplateInput, parseTemplateUpdate } from './validation';
+
+const SCHEMA: TemplateSchema = {
+  type: 'object',
+  properties: {
+    vendor: { type: 'string', description: 'Who issued the invoice' },
+    line_items: {
+      type: 'array',
+      items: { type: 'object', properties: { label: { type: 'string' }, amount: { type: 'number' } } },
+    },
+  },
+  required: ['vendor'],
+};
+
+function input(overrides: Partial<ExtractionTemplateInput> = {}): Partial<ExtractionTemplateInput> {
+  return { name: 'Invoice', prompt: 'Extract the vendor and line items', output_schema: SCHEMA, ...overrides };
+}
+
+/**
+ * Build a schema whose single field is the given definition
+ */
+function withField(field: unknown, name = 'field'): TemplateSchema {
+  return { type: 'object', properties: { [name]: field } } as unknown as TemplateSchema;
+}
+
+function nested(depth: number): unknown {
+  return depth === 0 ? { type: 'string' } : { type: 'object', properties: { inner: nested(depth - 1) } };
+}
+
+describe('parseTemplateInput', () => {
+  it('accepts a valid template and derives its layout', () => {
+    const result = parseTemplateInput(input());
+
+    expect(result).toEqual({
+      template: {
+        name: 'Invoice',
+        description: null,
+        prompt: 'Extract the vendor and line items',
+        output_schema: SCHEMA,
+        layout: {
+          sections: [
+            { field: 'vendor', label: 'Vendor', display: 'text' },
+            { field: 'line_items', label: 'Line items', display: 'table' },
+          ],
+        },
+      },
+    });
+  });
+
+  it('strips control characters from the name and prompt', () => {
+    const result = parseTemplateInput(input({ name: ' Inv\u0000oice\u001b ', prompt: 'Extract\u0007 the\r\nvendor' }));
+
+    expect(result).toMatchObject({ template: { name: 'Invoice', prompt: 'Extract the\nvendor' } });
+  });
+
+  it.each([
+    [{ name: undefined }, 'INVALID_NAME'],
+    [{ name: '   ' }, 'INVALID_NAME'],
+    [{ name: 'x'.repeat(101) }, 'INVALID_NAME'],
+    [{ description: 42 as unknown as string }, 'INVALID_DESCRIPTION'],
+    [{ prompt: '' }, 'INVALID_PROMPT'],
+    [{ prompt: 'x'.repeat(MAX_TEMPLATE_PROMPT_LENGTH + 1) }, 'INVALID_PROMPT'],
+    [{ output_schema: undefined }, 'INVALID_SCHEMA'],
+  ] as Array<[Partial<ExtractionTemplateInput>, string]>)('rejects %j with %s', (overrides, code) => {
+    expect(parseTemplateInput(input(overrides))).toMatchObject({ code });
+  });
+
+  it.each([
+    ['a root that is not an object', { type: 'array', items: { type: 'string' } }],
+    ['an unknown type', withField({ type: 'date' })],
+    ['a field without a type', withField({ description: 'Missing type' })],
+    ['an unsupported keyword', withField({ type: 'string', pattern: '.*' })],
+    ['a $ref', withField({ $ref: '#/definitions/x', type: 'string' })],
+    ['a field that is not an object', withField('string')],
+    ['a field name with a hyphen', withField({ type: 'string' }, 'due-date')],
+    ['a field name starting with a digit', withField({ type: 'string' }, '1st')],
+    ['a field name starting with two underscores', withField({ type: 'string' }, '__proto__')],
+    ['a field name longer than 64 characters', withField({ type: 'string' }, 'f'.repeat(65))],
+    ['an object without fields', withField({ type: 'object', properties: {} })],
+    ['an object without properties', withField({ type: 'object' })],
+    ['an array without items', withField({ type: 'array' })],
+    ['items on a string', withField({ type: 'string', items: { type: 'string' } })],
+    ['properties on a number', withField({ type: 'number', properties: { a: { type: 'string' } } })],
+    ['an enum on a number', withField({ type: 'number', enum: ['1'] })],
+    ['an empty enum', withField({ type: 'string', enum: [] })],
+    ['an enum of non-strings', withField({ type: 'string', enum: [1, 2] })],
+    ['a description that is too long', withField({ type: 'string', description: 'd'.repeat(501) })],
+    ['required naming an undefined field', { ...SCHEMA, required: ['total'] }],
+    ['required naming an inherited member', { ...SCHEMA, required: ['toString'] }],
+    ['nesting deeper than four levels', nested(4)],
+    [
+      'more than 100 fields',
+      { type: 'object', properties: Object.fromEntries(Array.from({ length: 100 }, (_, i) => [`f${i}`, { type: 'string' }])) },
+    ],
+  ])('rejects a schema with %s', (_, schema) => {
+    const result = parseTemplateInput(input({ output_schema: schema as TemplateSchema }));
+
+    expect(result).toMatchObject({ code: 'INVALID_SCHEMA' });
+  });
+
+  it('accepts nesting up to four levels', () => {
+    expect(parseTemplateInput(input({ output_schema: nested(3) as TemplateSchema }))).toHaveProperty('template');
+  });
+
+  it.each([
+    ['without sections', {}],
+    ['with no sections', { sections: [] }],
+    ['naming an unknown field', { sections: [{ field: 'total', display: 'text' }] }],
+    ['naming an inherited member', { sections: [{ field: 'constructor', display: 'text' }] }],
+    [
+      'naming a field twice',
+      { sections: [{ field: 'vendor', display: 'text' }, { field: 'vendor', display: 'list' }] },
+    ],
+    ['with an unknown display', { sections: [{ field: 'vendor', display: 'chart' }] }],
+    ['with a label that is too long', { sections: [{ field: 'vendor', display: 'text', label: 'l'.repeat(101) }] }],
+  ])('rejects a layout %s', (_, layout) => {
+    const result = parseTemplateInput(input({ layout: layout as ExtractionTemplateInput['layout'] }));
+
+    expect(result).toMatchObject({ code: 'INVALID_LAYOUT' });
+  });
+});
+
+describe('parseTemplateUpdate', () => {
+  const current = {
+    output_schema: SCHEMA,
+    layout: { sections: [{ field: 'vendor', label: 'Issuer', display: 'text' as const }] },
+  };
+
+  it('validates only the fields present', () => {
+    expect(parseTemplateUpdate({ name: 'Renamed' }, current)).toEqual({ update: { name: 'Renamed' } });
+    expect(parseTemplateUpdate({ prompt: ' ' }, current)).toMatchObject({ code: 'INVALID_PROMPT' });
+    expect(parseTemplateUpdate({ output_schema: withField({ type: 'uuid' }) }, current)).toMatchObject({
+      code: 'INVALID_SCHEMA',
+    });
+  });
+
+  it('keeps the current layout when it still fits a new schema', () => {
+    const schema = { ...SCHEMA, properties: { ...SCHEMA.properties, total: { type: 'number' } } } as TemplateSchema;
+
+    expect(parseTemplateUpdate({ output_schema: schema }, current)).toMatchObject({
+      update: { layout: current.layout },
+    });
+  });
+
+  it('derives a new layout when the current one names a removed field', () => {
+    const schema = withField({ type: 'number' }, 'total');
+
+    expect(parseTemplateUpdate({ output_schema: schema }, current)).toMatchObject({
+      update: { layout: { sections: [{ field: 'total', label: 'Total', display: 'text' }] } },
+    });
+  });
+});
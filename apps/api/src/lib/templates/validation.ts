@@ -0,0 +1,408 @@
+/**
+ * Template Validation
+ * 
+ * Validation and normalization of extraction template input: name,
+ * description, prompt, output schema and layout. Templates are user input
+ * that ends up in AI prompts and drives rendering, so everything is checked
+ * against fixed limits and unknown schema keywords are rejected.
+ */
+
+import type {
+  ExtractionTemplateInput,
+  TemplateDisplay,
+  TemplateLayout,
+  TemplateLayoutSection,
+  TemplateSchema,
+  TemplateSchemaType,
+} from '@ai-document-vault/shared';
+
+export const MAX_TEMPLATE_NAME_LENGTH = 100;
+export const MAX_TEMPLATE_DESCRIPTION_LENGTH = 500;
+export const MAX_TEMPLATE_PROMPT_LENGTH = 4000;
+
+const MAX_SCHEMA_DEPTH = 4;
+const MAX_SCHEMA_NODES = 100;
+const MAX_ENUM_VALUES = 50;
+const MAX_SCHEMA_TEXT_LENGTH = 500;
+const MAX_LAYOUT_SECTIONS = 50;
+const MAX_LABEL_LENGTH = 100;
+const MAX_ASSIGNED_TEMPLATES = 50;
+
+const SCHEMA_TYPES: TemplateSchemaType[] = ['string', 'number', 'integer', 'boolean', 'array', 'object'];
+const SCHEMA_KEYWORDS = new Set(['type', 'description', 'enum', 'items', 'properties', 'required']);
+const DISPLAYS: TemplateDisplay[] = ['text', 'list', 'table', 'fields'];
+const FIELD_NAME_PATTERN = /^(?!__)[A-Za-z_][A-Za-z0-9_]{0,63}$/;
+
+/**
+ * Validated template fields, ready to store
+ */
+export interface ParsedTemplate {
+  name: string;
+  description: string | null;
+  prompt: string;
+  output_schema: TemplateSchema;
+  layout: TemplateLayout;
+}
+
+/**
+ * A validation failure; code is the API error code to report
+ */
+export interface TemplateValidationError {
+  error: string;
+  code: 'INVALID_NAME' | 'INVALID_DESCRIPTION' | 'INVALID_PROMPT' | 'INVALID_SCHEMA' | 'INVALID_LAYOUT';
+}
+
+/**
+ * Remove control characters other than tab and newline, and normalize
+ * line endings
+ */
+function stripControlCharacters(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\r\n?/g, '\n').replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '');
+}
+
+/**
+ * Whether an object schema defines a field (ignoring inherited members
+ * such as "toString")
+ */
+function hasField(properties: Record<string, TemplateSchema>, field: string): boolean {
+  return Object.prototype.hasOwnProperty.call(properties, field);
+}
+
+/**
+ * Validate and normalize a template name
+ */
+export function parseTemplateName(input: unknown): { name: string } | TemplateValidationError {
+  if (typeof input !== 'string') {
+    return { error: 'Template name is required', code: 'INVALID_NAME' };
+  }
+  const name = stripControlCharacters(input).trim().replace(/\s+/g, ' ');
+  if (name === '') {
+    return { error: 'Template name cannot be empty', code: 'INVALID_NAME' };
+  }
+  if (name.length > MAX_TEMPLATE_NAME_LENGTH) {
+    return { error: `Template name must be at most ${MAX_TEMPLATE_NAME_LENGTH} characters`, code: 'INVALID_NAME' };
+  }
+  return { name };
+}
+
+function parseDescription(input: unknown): { description: string | null } | TemplateValidationError {
+  if (input === undefined || input === null) {
+    return { description: null };
+  }
+  if (typeof input !== 'string') {
+    return { error: 'Description must be a string', code: 'INVALID_DESCRIPTION' };
+  }
+  const description = stripControlCharacters(input).trim();
+  if (description.length > MAX_TEMPLATE_DESCRIPTION_LENGTH) {
+    return {
+      error: `Description must be at most ${MAX_TEMPLATE_DESCRIPTION_LENGTH} characters`,
+      code: 'INVALID_DESCRIPTION',
+    };
+  }
+  return { description: description || null };
+}
+
+/**
+ * Validate and normalize a template prompt
+ * 
+ * Control characters are removed. The prompt is escaped when it is placed
+ * in a request (see buildTemplatePrompt), not here, so it is stored as
+ * typed.
+ */
+export function parseTemplatePrompt(input: unknown): { prompt: string } | TemplateValidationError {
+  if (typeof input !== 'string') {
+    return { error: 'Prompt is required', code: 'INVALID_PROMPT' };
+  }
+  const prompt = stripControlCharacters(input).trim();
+  if (prompt === '') {
+    return { error: 'Prompt cannot be empty', code: 'INVALID_PROMPT' };
+  }
+  if (prompt.length > MAX_TEMPLATE_PROMPT_LENGTH) {
+    return { error: `Prompt must be at most ${MAX_TEMPLATE_PROMPT_LENGTH} characters`, code: 'INVALID_PROMPT' };
+  }
+  return { prompt };
+}
+
+/**
+ * Validate one schema node and its children
+ * 
+ * @param counter - Shared count of nodes seen, to bound the schema size
+ * @returns The normalized node, or a message naming the offending path
+ */
+function parseSchemaNode(
+  input: unknown,
+  path: string,
+  depth: number,
+  counter: { nodes: number }
+): { schema: TemplateSchema } | { error: string } {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return { error: `${path} must be an object` };
+  }
+  if (++counter.nodes > MAX_SCHEMA_NODES) {
+    return { error: `Schema can have at most ${MAX_SCHEMA_NODES} fields` };
+  }
+  if (depth > MAX_SCHEMA_DEPTH) {
+    return { error: `Schema can be nested at most ${MAX_SCHEMA_DEPTH} levels deep` };
+  }
+
+  const raw = input as Record<string, unknown>;
+  const unknownKeyword = Object.keys(raw).find((key) => !SCHEMA_KEYWORDS.has(key));
+  if (unknownKeyword) {
+    return { error: `${path}: unsupported keyword "${unknownKeyword}"` };
+  }
+  if (!SCHEMA_TYPES.includes(raw.type as TemplateSchemaType)) {
+    return { error: `${path}.type must be one of: ${SCHEMA_TYPES.join(', ')}` };
+  }
+
+  const schema: TemplateSchema = { type: raw.type as TemplateSchemaType };
+
+  if (raw.description !== undefined) {
+    if (typeof raw.description !== 'string' || raw.description.length > MAX_SCHEMA_TEXT_LENGTH) {
+      return { error: `${path}.description must be a string of at most ${MAX_SCHEMA_TEXT_LENGTH} characters` };
+    }
+    schema.description = stripControlCharacters(raw.description).trim();
+  }
+
+  if (raw.enum !== undefined) {
+    if (
+      schema.type !== 'string' ||
+      !Array.isArray(raw.enum) ||
+      raw.enum.length === 0 ||
+      raw.enum.length > MAX_ENUM_VALUES ||
+      !raw.enum.every((value) => typeof value === 'string' && value.length <= MAX_LABEL_LENGTH)
+    ) {
+      return { error: `${path}.enum must be a list of 1-${MAX_ENUM_VALUES} strings on a string field` };
+    }
+    schema.enum = raw.enum as string[];
+  }
+
+  if (schema.type === 'array') {
+    const items = parseSchemaNode(raw.items, `${path}.items`, depth + 1, counter);
+    if ('error' in items) return items;
+    schema.items = items.schema;
+  } else if (raw.items !== undefined) {
+    return { error: `${path}.items is only allowed on arrays` };
+  }
+
+  if (schema.type === 'object') {
+    if (!raw.properties || typeof raw.properties !== 'object' || Array.isArray(raw.properties)) {
+      return { error: `${path}.properties is required on objects` };
+    }
+    const entries = Object.entries(raw.properties as Record<string, unknown>);
+    if (entries.length === 0) {
+      return { error: `${path}.properties must define at least one field` };
+    }
+
+    const properties: Record<string, TemplateSchema> = {};
+    for (const [key, value] of entries) {
+      if (!FIELD_NAME_PATTERN.test(key)) {
+        return { error: `${path}: field name "${key}" must be a letter or underscore followed by letters, digits or underscores` };
+      }
+      const property = parseSchemaNode(value, `${path}.properties.${key}`, depth + 1, counter);
+      if ('error' in property) return property;
+      properties[key] = property.schema;
+    }
+    schema.properties = properties;
+
+    if (raw.required !== undefined) {
+      if (!Array.isArray(raw.required) || !raw.required.every((key) => typeof key === 'string' && hasField(properties, key))) {
+        return { error: `${path}.required must list fields defined in properties` };
+      }
+      schema.required = [...new Set(raw.required as string[])];
+    }
+  } else if (raw.properties !== undefined || raw.required !== undefined) {
+    return { error: `${path}.properties and required are only allowed on objects` };
+  }
+
+  return { schema };
+}
+
+/**
+ * Validate a template's output schema
+ * 
+ * The root must be an object so results can be laid out by field.
+ */
+export function parseTemplateSchema(input: unknown): { schema: TemplateSchema } | TemplateValidationError {
+  const parsed = parseSchemaNode(input, 'output_schema', 1, { nodes: 0 });
+  if ('error' in parsed) {
+    return { error: parsed.error, code: 'INVALID_SCHEMA' };
+  }
+  if (parsed.schema.type !== 'object') {
+    return { error: 'output_schema must be of type object', code: 'INVALID_SCHEMA' };
+  }
+  return parsed;
+}
+
+/**
+ * Human-readable label for a field name, e.g. "line_items" -> "Line items"
+ */
+function labelForField(field: string): string {
+  const words = field.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').trim().toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Display that suits a field's schema
+ */
+function displayForSchema(schema: TemplateSchema): TemplateDisplay {
+  if (schema.type === 'array') {
+    return schema.items?.type === 'object' ? 'table' : 'list';
+  }
+  return schema.type === 'object' ? 'fields' : 'text';
+}
+
+/**
+ * Layout with one section per top-level field, in schema order
+ */
+export function defaultTemplateLayout(schema: TemplateSchema): TemplateLayout {
+  return {
+    sections: Object.entries(schema.properties || {}).map(([field, property]) => ({
+      field,
+      label: labelForField(field),
+      display: displayForSchema(property),
+    })),
+  };
+}
+
+/**
+ * Validate a template layout against its output schema
+ * 
+ * Each section must name a distinct top-level field of the schema.
+ * A missing layout is derived from the schema.
+ */
+export function parseTemplateLayout(
+  input: unknown,
+  schema: TemplateSchema
+): { layout: TemplateLayout } | TemplateValidationError {
+  if (input === undefined || input === null) {
+    return { layout: defaultTemplateLayout(schema) };
+  }
+
+  const sections = (input as { sections?: unknown }).sections;
+  if (typeof input !== 'object' || !Array.isArray(sections)) {
+    return { error: 'layout must be an object with a sections list', code: 'INVALID_LAYOUT' };
+  }
+  if (sections.length === 0 || sections.length > MAX_LAYOUT_SECTIONS) {
+    return { error: `layout must have 1-${MAX_LAYOUT_SECTIONS} sections`, code: 'INVALID_LAYOUT' };
+  }
+
+  const parsed: TemplateLayoutSection[] = [];
+  for (const section of sections as unknown[]) {
+    const raw = (section && typeof section === 'object' ? section : {}) as Record<string, unknown>;
+    const field = raw.field;
+    if (typeof field !== 'string' || !hasField(schema.properties || {}, field)) {
+      return { error: 'Each layout section must name a top-level field of output_schema', code: 'INVALID_LAYOUT' };
+    }
+    if (parsed.some((existing) => existing.field === field)) {
+      return { error: `Field "${field}" appears in more than one layout section`, code: 'INVALID_LAYOUT' };
+    }
+    if (!DISPLAYS.includes(raw.display as TemplateDisplay)) {
+      return { error: `Section display must be one of: ${DISPLAYS.join(', ')}`, code: 'INVALID_LAYOUT' };
+    }
+
+    const label = typeof raw.label === 'string' ? stripControlCharacters(raw.label).trim() : '';
+    if (label.length > MAX_LABEL_LENGTH) {
+      return { error: `Section labels must be at most ${MAX_LABEL_LENGTH} characters`, code: 'INVALID_LAYOUT' };
+    }
+
+    parsed.push({ field, label: label || labelForField(field), display: raw.display as TemplateDisplay });
+  }
+
+  return { layout: { sections: parsed } };
+}
+
+/**
+ * Validate a complete template (POST /api/templates)
+ */
+export function parseTemplateInput(
+  input: Partial<ExtractionTemplateInput> | null
+): { template: ParsedTemplate } | TemplateValidationError {
+  const body = input || {};
+
+  const name = parseTemplateName(body.name);
+  if ('error' in name) return name;
+  const description = parseDescription(body.description);
+  if ('error' in description) return description;
+  const prompt = parseTemplatePrompt(body.prompt);
+  if ('error' in prompt) return prompt;
+  const schema = parseTemplateSchema(body.output_schema);
+  if ('error' in schema) return schema;
+  const layout = parseTemplateLayout(body.layout, schema.schema);
+  if ('error' in layout) return layout;
+
+  return {
+    template: {
+      name: name.name,
+      description: description.description,
+      prompt: prompt.prompt,
+      output_schema: schema.schema,
+      layout: layout.layout,
+    },
+  };
+}
+
+/**
+ * Validate the fields present in a template update (PATCH /api/templates/:id)
+ * 
+ * A new schema without a layout re-validates the current layout against
+ * it, falling back to a derived layout if the current one no longer fits.
+ * 
+ * @param current - The stored template
+ */
+export function parseTemplateUpdate(
+  input: Partial<ExtractionTemplateInput> | null,
+  current: { output_schema: TemplateSchema; layout: TemplateLayout }
+): { update: Partial<ParsedTemplate> } | TemplateValidationError {
+  const body = input || {};
+  const update: Partial<ParsedTemplate> = {};
+
+  if (body.name !== undefined) {
+    const name = parseTemplateName(body.name);
+    if ('error' in name) return name;
+    update.name = name.name;
+  }
+  if (body.description !== undefined) {
+    const description = parseDescription(body.description);
+    if ('error' in description) return description;
+    update.description = description.description;
+  }
+  if (body.prompt !== undefined) {
+    const prompt = parseTemplatePrompt(body.prompt);
+    if ('error' in prompt) return prompt;
+    update.prompt = prompt.prompt;
+  }
+
+  let schema = current.output_schema;
+  if (body.output_schema !== undefined) {
+    const parsed = parseTemplateSchema(body.output_schema);
+    if ('error' in parsed) return parsed;
+    schema = update.output_schema = parsed.schema;
+  }
+
+  if (body.layout !== undefined) {
+    const layout = parseTemplateLayout(body.layout, schema);
+    if ('error' in layout) return layout;
+    update.layout = layout.layout;
+  } else if (update.output_schema) {
+    const kept = parseTemplateLayout(current.layout, schema);
+    update.layout = 'error' in kept ? defaultTemplateLayout(schema) : kept.layout;
+  }
+
+  return { update };
+}
+
+/**
+ * Validate a list of template ids to assign
+ * 
+ * Ownership is checked separately with resolveTemplateIds.
+ */
+export function parseTemplateIds(input: unknown): { templateIds: string[] } | { error: string } {
+  if (!Array.isArray(input) || !input.every((id) => typeof id === 'string' && id.trim().length > 0)) {
+    return { error: 'template_ids must be an array of template IDs' };
+  }
+  if (input.length > MAX_ASSIGNED_TEMPLATES) {
+    return { error: `At most ${MAX_ASSIGNED_TEMPLATES} templates can be assigned` };
+  }
+  return { templateIds: (input as string[]).map((id) => id.trim()) };
+}
@@ -0,0 +1,59 @@
+/**
+ * Upload Content
+ * 
+ * The contents of an upload as the registration code sees them: the
+ * content hash, used to find duplicates, and a way to write the file to
+ * storage once it turns out to be needed. A file received in one request
+ * is written from memory; an upload session's file is streamed from its
+ * chunks (see readUploadContent), so it is never held whole in memory.
+ */
+
+import { getStorageConfig, uploadFile, computeContentHash } from '../storage';
+import type { ApiError } from '@ai-document-vault/shared';
+
+/**
+ * Result of writing upload content to storage
+ */
+export type StoredContent = { success: true; path: string } | { success: false; error: ApiError };
+
+/**
+ * An upload's contents
+ */
+export interface UploadContent {
+  contentHash: string; // SHA-256 of the file
+  /** Write the file to a new object in the documents bucket */
+  store(): Promise<StoredContent>;
+}
+
+/**
+ * Content of a file received in a single request
+ */
+export function bufferedUploadContent(file: { name: string; type: string }, bytes: Buffer): UploadContent {
+  return {
+    contentHash: computeContentHash(bytes),
+
+    async store() {
+      const uploadResult = await uploadFile(
+        {
+          file: bytes,
+          filename: file.name,
+          content_type: file.type || 'application/octet-stream',
+        },
+        { bucket_name: getStorageConfig().bucket_name }
+      );
+
+      if (!uploadResult.success) {
+        return {
+          success: false,
+          error: {
+            error: uploadResult.error.error,
+            message: uploadResult.error.message || 'Failed to upload file to storage',
+            code: uploadResult.error.code || 'STORAGE_UPLOAD_FAILED',
+          },
+        };
+      }
+
+      return { success: true, path: uploadResult.data.path };
+    },
+  };
+}
@@ -0,0 +1,108 @@
+/**
+ * Duplicate uploads and content revisions
+ *
+ * Linked duplicates and unchanged versions are never processed, so
+ * storeUploadedDocument records their summary and markdown as the first
+ * revisions of the version, the way processing would.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ContentSource, DocumentStatus } from '@ai-document-vault/shared';
+import type { ContentRevision, Document } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import type { UploadContent } from './content';
+import { storeUploadedDocument } from './documents';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('../supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+const FILE = { name: 'invoice copy.pdf', type: 'application/pdf', size: 1024 };
+
+const CONTENT: UploadContent = {
+  contentHash: 'hash-1',
+  store: vi.fn(),
+};
+
+let database: TestDatabase;
+
+async function insertSource(): Promise<Document> {
+  const { data, error } = await database.client
+    .from('documents')
+    .insert({
+      user_id: USER_ID,
+      name: 'invoice.pdf',
+      storage_path: `${USER_ID}/invoice.pdf`,
+      content_hash: 'hash-1',
+      status: DocumentStatus.READY,
+      summary: 'Invoice from Acme Corp, edited.',
+      summary_source: ContentSource.USER_MODIFIED,
+      markdown: '# Invoice\n\nAcme Corp bills 1,250 USD.',
+      ai_model: 'fake',
+    })
+    .select()
+    .single();
+
+  expect(error).toBeNull();
+  return data as Document;
+}
+
+async function revisions(document: Document): Promise<ContentRevision[]> {
+  const { data } = await database.client
+    .from('content_revisions')
+    .select('*')
+    .eq('document_id', document.id)
+    .eq('version_number', document.current_version);
+  return (data as ContentRevision[]).sort((a, b) => a.field.localeCompare(b.field));
+}
+
+describe('storeUploadedDocument with duplicate content', () => {
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  it("records a linked document's content as its first revisions", async () => {
+    const source = await insertSource();
+
+    const stored = await storeUploadedDocument(USER_ID, FILE, CONTENT, 'link', 'test');
+
+    expect(stored.success).toBe(true);
+    const linked = (stored as { document: Document }).document;
+    expect(linked.id).not.toBe(source.id);
+    expect(await revisions(linked)).toMatchObject([
+      { field: 'markdown', content: source.markdown, source: ContentSource.AI_GENERATED, ai_model: 'fake', author_id: USER_ID },
+      { field: 'summary', content: source.summary, source: ContentSource.USER_MODIFIED, ai_model: null, author_id: USER_ID },
+    ]);
+  });
+
+  it("records an unchanged version's content as its first revisions", async () => {
+    const source = await insertSource();
+
+    const stored = await storeUploadedDocument(USER_ID, FILE, CONTENT, 'new_version', 'test');
+
+    expect(stored.success).toBe(true);
+    const revised = (stored as { document: Document }).document;
+    expect(revised.id).toBe(source.id);
+    expect(revised.current_version).toBe(source.current_version! + 1);
+    expect((await revisions(revised)).map((revision) => [revision.field, revision.content])).toEqual([
+      ['markdown', source.markdown],
+      ['summary', source.summary],
+    ]);
+    expect(CONTENT.store).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,564 @@
+/**
+ * Uploaded Document Registration
+ * 
+ * Stores an uploaded file, creates its document record (or a new version
+ * of an existing document) and queues it for processing, after checking
+ * whether the user already has a document with the same content. Shared
+ * by single-request uploads, completed upload sessions and version
+ * uploads. Extraction templates chosen at upload are assigned to the
+ * document before processing is queued, so the first pass runs them.
+ * A duplicate uploaded as a new version of a READY document reuses that
+ * document's results and isn't processed again.
+ * 
+ * Processing is only queued within the user's AI quotas. An upload over
+ * quota still succeeds: the document stays UPLOADED with failure_code
+ * QUOTA_EXCEEDED and the response says why, so it can be retried later.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { deleteFile } from '../storage';
+import { estimateProcessingCost } from '../ai/cost-estimation';
+import { enqueueJob } from '../jobs';
+import { createDocumentVersion, reuseDocumentVersion } from '../versions';
+import { refreshSmartGroups } from '../groups';
+import { addDocumentTemplates, parseTemplateIds, resolveTemplateIds } from '../templates';
+import { admitDocumentProcessing, QuotaExceededError } from '../quotas';
+import { recordContentRevisions } from '../revisions';
+import type { ContentRevisionInput } from '../revisions';
+import { findDuplicateDocument, linkDuplicateDocument } from './duplicates';
+import type { UploadContent } from './content';
+import { ContentSource, DocumentStatus, JobType, QUOTA_EXCEEDED } from '@ai-document-vault/shared';
+import type {
+  Document,
+  DuplicateAction,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
+
+/**
+ * Processing notice returned with uploads of large documents
+ */
+export interface UploadCostEstimate {
+  processingMessage: string;
+  estimatedPages: number;
+}
+
+/**
+ * Outcome of storing an upload
+ * 
+ * status is the HTTP status to respond with.
+ */
+export type StoredUploadResult =
+  | {
+      success: true;
+      document: Document;
+      costEstimate?: UploadCostEstimate;
+      quotaExceeded?: ApiError; // Set when processing wasn't queued because of a quota
+      status: number;
+      message: string;
+    }
+  | { success: false; error: ApiError; status: number };
+
+/**
+ * Outcome of queueing a stored file for processing
+ */
+interface QueuedProcessing {
+  document: Document; // Updated with the quota failure when not queued
+  costEstimate?: UploadCostEstimate;
+  quotaExceeded?: ApiError;
+}
+
+/**
+ * Check the extraction templates chosen for an upload
+ * 
+ * @param input - template_ids from the request; absent means none
+ * @returns The user's template ids, or a 400 response
+ */
+export async function parseUploadTemplateIds(userId: string, input: unknown): Promise<string[] | Response> {
+  if (input === undefined || input === null) {
+    return [];
+  }
+
+  const parsed = parseTemplateIds(input);
+  const templateIds = 'error' in parsed ? null : await resolveTemplateIds(userId, parsed.templateIds);
+  if (!templateIds) {
+    return Response.json(
+      {
+        error: 'VALIDATION_ERROR',
+        message: 'error' in parsed ? parsed.error : 'One or more templates were not found',
+        code: 'INVALID_TEMPLATE_IDS',
+      } as ApiError,
+      { status: 400 }
+    );
+  }
+
+  return templateIds;
+}
+
+/**
+ * Assign the templates chosen at upload to a document
+ * 
+ * The file is already stored, so a failure is logged rather than failing
+ * the upload; templates can still be assigned from the document view.
+ */
+async function assignUploadTemplates(documentId: string, templateIds: string[], requestId: string): Promise<void> {
+  try {
+    await addDocumentTemplates(documentId, templateIds);
+  } catch (assignError) {
+    console.error(`[Upload ${requestId}] Failed to assign templates to document ${documentId}:`, assignError);
+  }
+}
+
+/**
+ * Record a document's summary and markdown as the first revisions of its
+ * current version
+ * 
+ * Linked duplicates and unchanged versions take their content from an
+ * existing document instead of processing, which is what records revisions
+ * otherwise; without these the version's history would be empty and its
+ * content couldn't be restored after an edit.
+ */
+async function seedContentRevisions(document: Document, userId: string): Promise<void> {
+  const revisions: ContentRevisionInput[] = [];
+
+  for (const field of ['summary', 'markdown'] as const) {
+    const content = document[field];
+    if (content === null) {
+      continue;
+    }
+    const source = document[`${field}_source`] ?? ContentSource.AI_GENERATED;
+    revisions.push({
+      field,
+      content,
+      source,
+      aiModel: source === ContentSource.AI_GENERATED ? document.ai_model : null,
+    });
+  }
+
+  await recordContentRevisions(document, userId, revisions);
+}
+
+/**
+ * Admit processing of a stored file against the user's quotas
+ * 
+ * @returns The quota error when a quota has no room, or null when admitted
+ * @throws When the quotas can't be checked
+ */
+async function checkUploadQuota(document: Document, userId: string, estimatedPages: number): Promise<QuotaExceededError | null> {
+  try {
+    await admitDocumentProcessing({ userId, documentId: document.id, operation: 'process', pages: estimatedPages });
+    return null;
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return error;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Record a stored file's estimated pages, which retries and regenerations
+ * count against the page quota, and why it wasn't queued if it is waiting
+ * for quota. Failure details of earlier attempts are cleared either way.
+ * 
+ * @returns The updated document, or the original if the update failed
+ */
+async function recordQueueState(
+  document: Document,
+  estimatedPages: number,
+  quotaError: QuotaExceededError | null,
+  requestId: string
+): Promise<Document> {
+  const { data: updated, error } = await supabaseAdmin
+    .from('documents')
+    .update({
+      estimated_pages: estimatedPages,
+      // A document admitted after waiting for quota no longer shows why it waited
+      failure_code: quotaError ? QUOTA_EXCEEDED : null,
+      failure_message: quotaError ? quotaError.message : null,
+      failure_stage: null,
+    })
+    .eq('id', document.id)
+    .select()
+    .single();
+
+  if (error || !updated) {
+    console.error(`[Upload ${requestId}] Failed to update document ${document.id} before processing:`, error?.message);
+    return document;
+  }
+
+  return updated as Document;
+}
+
+/**
+ * Enqueue processing for a newly stored file, within the user's quotas
+ * 
+ * If enqueueing or the quota check fails the document stays UPLOADED and
+ * can be retried from the UI.
+ * 
+ * @param templateIds - Templates to assign before processing (already checked)
+ * @returns Processing notice for large documents, or why processing wasn't queued
+ */
+async function queueProcessing(
+  document: Document,
+  userId: string,
+  file: { name: string; size: number },
+  requestId: string,
+  templateIds: string[]
+): Promise<QueuedProcessing> {
+  const costEstimate = estimateProcessingCost(file.size, file.name);
+  await assignUploadTemplates(document.id, templateIds, requestId);
+
+  let quotaError: QuotaExceededError | null = null;
+  let queued = document;
+  try {
+    quotaError = await checkUploadQuota(document, userId, costEstimate.estimatedPages);
+    if (quotaError) {
+      console.log(`[Upload ${requestId}] Document ${document.id} not queued: ${quotaError.message}`);
+    }
+
+    queued = await recordQueueState(document, costEstimate.estimatedPages, quotaError, requestId);
+    if (!quotaError) {
+      await enqueueJob(document.id, userId, JobType.PROCESS);
+    }
+  } catch (enqueueError) {
+    console.error(`[Upload ${requestId}] Failed to enqueue processing for document ${document.id}:`, enqueueError);
+  }
+  await refreshSmartGroups(userId);
+
+  return {
+    document: queued,
+    costEstimate: costEstimate.isLargeDocument
+      ? {
+          processingMessage: costEstimate.processingMessage as string,
+          estimatedPages: costEstimate.estimatedPages,
+        }
+      : undefined,
+    quotaExceeded: quotaError?.toApiError(),
+  };
+}
+
+/**
+ * Create the document record and enqueue processing
+ * 
+ * If the record can't be created the stored file is removed.
+ * 
+ * @param storagePath - Path of the uploaded file in storage
+ * @param contentHash - SHA-256 of the file
+ * @param requestId - Identifier for log lines
+ * @param templateIds - Extraction templates to assign (already checked)
+ */
+export async function registerUploadedDocument(
+  userId: string,
+  file: { name: string; size: number },
+  storagePath: string,
+  contentHash: string,
+  requestId: string,
+  templateIds: string[] = []
+): Promise<
+  | { success: true; document: Document; costEstimate?: UploadCostEstimate; quotaExceeded?: ApiError }
+  | { success: false; error: ApiError }
+> {
+  const { data: document, error: dbError } = await supabaseAdmin
+    .from('documents')
+    .insert({
+      user_id: userId,
+      name: file.name,
+      storage_path: storagePath,
+      content_hash: contentHash,
+      status: DocumentStatus.UPLOADED,
+    })
+    .select()
+    .single();
+
+  if (dbError || !document) {
+    try {
+      await deleteFile(storagePath);
+    } catch (cleanupError) {
+      // Silent cleanup failure
+    }
+
+    return {
+      success: false,
+      error: {
+        error: 'DATABASE_ERROR',
+        message: 'Failed to create document record. The file was uploaded but could not be registered.',
+        code: 'DB_INSERT_FAILED',
+        details: { db_error: dbError?.message || 'Unknown database error' },
+      },
+    };
+  }
+
+  const queued = await queueProcessing(document as Document, userId, file, requestId, templateIds);
+
+  return { success: true, ...queued };
+}
+
+/**
+ * Store a file as a new version of an existing document
+ * 
+ * The document keeps its id and group memberships; its previous version's
+ * file and content stay in the version history. Rejected with 409 when
+ * the document is being processed, or when the file is identical to the
+ * current version unless allowUnchanged is set. templateIds are added to
+ * the document's templates.
+ * 
+ * @param document - The user's document to revise
+ * @param file - The file's name, MIME type and size (already validated)
+ * @param content - File contents
+ * @param requestId - Identifier for log lines
+ */
+export async function storeDocumentVersion(
+  userId: string,
+  document: Document,
+  file: { name: string; type: string; size: number },
+  content: UploadContent,
+  requestId: string,
+  options: { allowUnchanged?: boolean; templateIds?: string[] } = {}
+): Promise<StoredUploadResult> {
+  if (document.status === DocumentStatus.PROCESSING) {
+    return {
+      success: false,
+      status: 409,
+      error: {
+        error: 'CONFLICT',
+        message: 'The current version is still being processed. Try again once it finishes.',
+        code: 'DOCUMENT_PROCESSING',
+      },
+    };
+  }
+
+  const { contentHash } = content;
+  if (!options.allowUnchanged && contentHash === document.content_hash) {
+    return {
+      success: false,
+      status: 409,
+      error: {
+        error: 'CONFLICT',
+        message: 'This file is identical to the current version',
+        code: 'VERSION_UNCHANGED',
+      },
+    };
+  }
+
+  const stored = await content.store();
+  if (!stored.success) {
+    return { success: false, status: 500, error: stored.error };
+  }
+
+  let revised: Document | null;
+  try {
+    revised = await createDocumentVersion(document.id, userId, {
+      name: file.name,
+      storagePath: stored.path,
+      contentHash,
+    });
+  } catch (versionError) {
+    console.error(`[Upload ${requestId}] Failed to create version of document ${document.id}:`, versionError);
+    revised = null;
+  }
+
+  if (!revised) {
+    try {
+      await deleteFile(stored.path);
+    } catch (cleanupError) {
+      // Silent cleanup failure
+    }
+
+    return {
+      success: false,
+      status: 500,
+      error: {
+        error: 'DATABASE_ERROR',
+        message: 'Failed to record the new version. The file was uploaded but could not be registered.',
+        code: 'VERSION_CREATE_FAILED',
+      },
+    };
+  }
+
+  console.log(`[Upload ${requestId}] Stored version ${revised.current_version} of document ${document.id}`);
+  const queued = await queueProcessing(revised, userId, file, requestId, options.templateIds || []);
+
+  return {
+    success: true,
+    ...queued,
+    status: 201,
+    message: `Version ${revised.current_version} uploaded successfully`,
+  };
+}
+
+/**
+ * Record a file identical to a READY document's current version as a new
+ * version of it
+ * 
+ * The version reuses the current file, summary, markdown and embeddings,
+ * so no processing is queued. templateIds are added to the document's
+ * templates.
+ * 
+ * @returns The stored version, or null when the document isn't READY (or
+ *   changed meanwhile) and the file has to be processed like any new version
+ */
+async function storeUnchangedVersion(
+  userId: string,
+  document: Document,
+  file: { name: string },
+  contentHash: string,
+  requestId: string,
+  templateIds: string[]
+): Promise<StoredUploadResult | null> {
+  let revised: Document | null;
+  try {
+    revised = await reuseDocumentVersion(document.id, userId, { name: file.name, contentHash });
+  } catch (versionError) {
+    console.error(`[Upload ${requestId}] Failed to create version of document ${document.id}:`, versionError);
+    return {
+      success: false,
+      status: 500,
+      error: {
+        error: 'DATABASE_ERROR',
+        message: 'Failed to record the new version',
+        code: 'VERSION_CREATE_FAILED',
+      },
+    };
+  }
+
+  if (!revised) {
+    return null;
+  }
+
+  console.log(`[Upload ${requestId}] Stored version ${revised.current_version} of document ${document.id} with unchanged content`);
+  await seedContentRevisions(revised, userId);
+  await assignUploadTemplates(document.id, templateIds, requestId);
+  await refreshSmartGroups(userId);
+  return {
+    success: true,
+    document: revised,
+    status: 201,
+    message: `Version ${revised.current_version} uploaded successfully; the content is unchanged, so the current results were kept`,
+  };
+}
+
+/**
+ * Store an uploaded file as a document, handling duplicate content
+ * 
+ * If the user already has a document with the same bytes, onDuplicate
+ * decides what happens; without it the upload is rejected with 409
+ * DUPLICATE_DOCUMENT (details: DuplicateDocumentDetails) and nothing is
+ * stored, so the client can ask the user and retry with a choice.
+ * 
+ * templateIds are assigned to the stored, versioned or linked document;
+ * a skipped duplicate is returned unchanged.
+ * 
+ * @param file - The file's name, MIME type and size (already validated)
+ * @param content - File contents
+ * @param onDuplicate - What to do if the content already exists
+ * @param requestId - Identifier for log lines
+ * @param templateIds - Extraction templates to assign (already checked)
+ */
+export async function storeUploadedDocument(
+  userId: string,
+  file: { name: string; type: string; size: number },
+  content: UploadContent,
+  onDuplicate: DuplicateAction | null,
+  requestId: string,
+  templateIds: string[] = []
+): Promise<StoredUploadResult> {
+  const { contentHash } = content;
+  const existing = await findDuplicateDocument(userId, contentHash);
+
+  if (existing) {
+    if (!onDuplicate) {
+      console.log(`[Upload ${requestId}] ${file.name} duplicates document ${existing.id}`);
+      return {
+        success: false,
+        status: 409,
+        error: {
+          error: 'CONFLICT',
+          message: `"${file.name}" has the same content as "${existing.name}"`,
+          code: 'DUPLICATE_DOCUMENT',
+          details: { existing_document: existing, content_hash: contentHash },
+        },
+      };
+    }
+
+    if (onDuplicate === 'skip') {
+      return { success: true, document: existing, status: 200, message: 'Duplicate skipped; existing document returned' };
+    }
+
+    if (onDuplicate === 'new_version') {
+      const unchanged = existing.status === DocumentStatus.READY
+        ? await storeUnchangedVersion(userId, existing, file, contentHash, requestId, templateIds)
+        : null;
+      return unchanged ?? storeDocumentVersion(userId, existing, file, content, requestId, { allowUnchanged: true, templateIds });
+    }
+
+    const linked = await linkDuplicateDocument(existing, userId, file.name);
+    if (!linked) {
+      return {
+        success: false,
+        status: 409,
+        error: {
+          error: 'CONFLICT',
+          message: `"${existing.name}" hasn't finished processing and can't be linked yet`,
+          code: 'DUPLICATE_NOT_READY',
+          details: { existing_document: existing, content_hash: contentHash },
+        },
+      };
+    }
+
+    console.log(`[Upload ${requestId}] Linked ${file.name} to duplicate document ${existing.id}`);
+    await seedContentRevisions(linked, userId);
+    await assignUploadTemplates(linked.id, templateIds, requestId);
+    await refreshSmartGroups(userId);
+    return { success: true, document: linked, status: 201, message: 'Document linked to existing content' };
+  }
+
+  const stored = await content.store();
+  if (!stored.success) {
+    return { success: false, status: 500, error: stored.error };
+  }
+
+  const registered = await registerUploadedDocument(userId, file, stored.path, contentHash, requestId, templateIds);
+  if (!registered.success) {
+    return { success: false, status: 500, error: registered.error };
+  }
+
+  return {
+    success: true,
+    document: registered.document,
+    costEstimate: registered.costEstimate,
+    quotaExceeded: registered.quotaExceeded,
+    status: 201,
+    message: 'Document uploaded successfully',
+  };
+}
+
+/**
+ * Build the response for an uploaded document
+ * 
+ * @param status - 201 for a new document, 200 when returning an existing one
+ * @param quotaExceeded - QUOTA_EXCEEDED error when processing wasn't queued
+ */
+export function uploadedDocumentResponse(
+  document: Document,
+  costEstimate?: UploadCostEstimate,
+  status = 201,
+  message = 'Document uploaded successfully',
+  quotaExceeded?: ApiError
+): Response {
+  return Response.json(
+    {
+      data: document,
+      message,
+      costEstimate,
+      quotaExceeded,
+    } as ApiResponse<Document> & { costEstimate?: UploadCostEstimate; quotaExceeded?: ApiError },
+    {
+      status,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
@@ -0,0 +1,116 @@
+/**
+ * Linked duplicates
+ *
+ * Runs linkDuplicateDocument against the migrated schema: a linked
+ * document must carry everything processing stored on its source, since it
+ * is never processed itself.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus, DocumentType } from '@ai-document-vault/shared';
+import type { Document, DocumentMetadata } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { linkDuplicateDocument } from './duplicates';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('../supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+const METADATA: DocumentMetadata = {
+  document_type: DocumentType.INVOICE,
+  language: 'en',
+  dates: { issued: '2026-03-01', due: '2026-03-31' },
+  parties: [{ name: 'Acme Corp', role: 'vendor' }],
+  amounts: [{ value: 1250, currency: 'USD', label: 'total due' }],
+};
+
+let database: TestDatabase;
+
+async function insertSource(): Promise<Document> {
+  const { data, error } = await database.client
+    .from('documents')
+    .insert({
+      user_id: USER_ID,
+      name: 'invoice.pdf',
+      storage_path: `${USER_ID}/invoice.pdf`,
+      content_hash: 'hash-1',
+      status: DocumentStatus.READY,
+      summary: 'Invoice from Acme Corp for consulting services.',
+      markdown: '# Invoice\n\nAcme Corp bills 1,250 USD for consulting services.',
+      ai_model: 'fake',
+      metadata: METADATA,
+      suggested_tags: ['invoices', 'acme'],
+    })
+    .select()
+    .single();
+
+  expect(error).toBeNull();
+  return data as Document;
+}
+
+describe('linkDuplicateDocument', () => {
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  it('creates a READY document sharing the source file and content', async () => {
+    const source = await insertSource();
+
+    const linked = await linkDuplicateDocument(source, USER_ID, 'invoice copy.pdf');
+
+    expect(linked).not.toBeNull();
+    expect(linked!.id).not.toBe(source.id);
+    expect(linked!.name).toBe('invoice copy.pdf');
+    expect(linked!.status).toBe(DocumentStatus.READY);
+    expect(linked!.storage_path).toBe(source.storage_path);
+    expect(linked!.summary).toBe(source.summary);
+    expect(linked!.markdown).toBe(source.markdown);
+  });
+
+  it("keeps the source's metadata, so metadata filters match the linked document", async () => {
+    const source = await insertSource();
+
+    const linked = await linkDuplicateDocument(source, USER_ID, 'invoice copy.pdf');
+    expect(linked!.metadata).toEqual(METADATA);
+
+    const { data, error } = await database.client.rpc('search_documents', {
+      p_user_id: USER_ID,
+      p_query: 'acme',
+      p_metadata: { document_type: 'invoice', date_kind: 'due', date_from: '2026-03-15' },
+    });
+    expect(error).toBeNull();
+    const ids = (data as Array<{ document: Document }>).map((row) => row.document.id);
+    expect(ids).toHaveLength(2);
+    expect(ids).toContain(linked!.id);
+  });
+
+  it("keeps the source's tag suggestions", async () => {
+    const source = await insertSource();
+
+    const linked = await linkDuplicateDocument(source, USER_ID, 'invoice copy.pdf');
+
+    expect(linked!.suggested_tags).toEqual(['invoices', 'acme']);
+  });
+
+  it('links nothing while the source is not READY', async () => {
+    const source = await insertSource();
+    await database.client.from('documents').update({ status: DocumentStatus.PROCESSING }).eq('id', source.id);
+
+    expect(await linkDuplicateDocument(source, USER_ID, 'invoice copy.pdf')).toBeNull();
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * Duplicate Detection
+ * 
+ * Finds an existing document with the same content as an upload and
+ * creates linked copies of it. A linked document shares the original's
+ * stored file and reuses its summary, markdown and embeddings, so the
+ * same bytes are only processed (and billed) once.
+ * 
+ * Assumptions:
+ * - Duplicates are matched per user by content_hash (SHA-256 of the bytes)
+ * - Documents uploaded before hashing have no hash and never match
+ */
+
+import { supabaseAdmin } from '../supabase';
+import { DocumentStatus } from '@ai-document-vault/shared';
+import type { Document, DuplicateAction } from '@ai-document-vault/shared';
+
+const DUPLICATE_ACTIONS: DuplicateAction[] = ['link', 'skip', 'new_version'];
+
+/**
+ * Whether a request value is a valid on_duplicate action
+ */
+export function isDuplicateAction(value: unknown): value is DuplicateAction {
+  return typeof value === 'string' && (DUPLICATE_ACTIONS as string[]).includes(value);
+}
+
+/**
+ * Find a user's document with the given content hash
+ * 
+ * When several match, the most recent READY one is preferred since it
+ * can be linked.
+ * 
+ * @returns The matching document, or null if the content is new
+ */
+export async function findDuplicateDocument(userId: string, contentHash: string): Promise<Document | null> {
+  const { data, error } = await supabaseAdmin
+    .from('documents')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('content_hash', contentHash)
+    .order('created_at', { ascending: false })
+    .limit(20);
+
+  if (error) {
+    throw new Error(`Failed to look up duplicate documents: ${error.message}`);
+  }
+
+  const matches = (data || []) as Document[];
+  return matches.find((document) => document.status === DocumentStatus.READY) ?? matches[0] ?? null;
+}
+
+/**
+ * Create a READY document that reuses a processed duplicate
+ * 
+ * @param source - Existing READY document with the same content
+ * @param name - Name of the new document (the uploaded filename)
+ * @returns The new document, or null if the source is no longer READY
+ */
+export async function linkDuplicateDocument(
+  source: Document,
+  userId: string,
+  name: string
+): Promise<Document | null> {
+  const { data, error } = await supabaseAdmin.rpc('link_duplicate_document', {
+    p_source_id: source.id,
+    p_user_id: userId,
+    p_name: name,
+  });
+
+  if (error) {
+    throw new Error(`Failed to link duplicate document: ${error.message}`);
+  }
+
+  return ((data || []) as Document[])[0] ?? null;
+}
+
+/**
+ * Whether documents other than the given one use a stored file
+ * 
+ * Linked duplicates share a storage path, so the file may only be deleted
+ * with the last document that references it. Every version is checked,
+ * not just current ones.
+ */
+export async function isStoragePathShared(storagePath: string, documentId: string): Promise<boolean> {
+  const { count, error } = await supabaseAdmin
+    .from('document_versions')
+    .select('id', { count: 'exact', head: true })
+    .eq('storage_path', storagePath)
+    .neq('document_id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to check storage path references: ${error.message}`);
+  }
+
+  return (count ?? 0) > 0;
+}
@@ -0,0 +1,50 @@
+/**
+ * Uploads Module
+ * 
+ * Central export point for upload validation, resumable upload sessions,
+ * duplicate detection and registration of uploaded documents.
+ * 
+ * Usage:
+ *   import { validateUploadFile, createUploadSession, registerUploadedDocument } from '@/lib/uploads';
+ */
+
+export {
+  validateUploadFile,
+  ALLOWED_MIME_TYPES,
+  ALLOWED_EXTENSIONS,
+  MAX_UPLOAD_SIZE,
+} from './validation';
+export type { UploadFileInfo } from './validation';
+
+export {
+  UPLOAD_CHUNK_SIZE,
+  createUploadSession,
+  getUploadSession,
+  isUploadSessionExpired,
+  expectedChunkSize,
+  missingChunks,
+  storeUploadChunk,
+  readUploadContent,
+  finishUploadSession,
+  discardUploadSession,
+  purgeExpiredUploadSessions,
+} from './sessions';
+
+export { bufferedUploadContent } from './content';
+export type { UploadContent, StoredContent } from './content';
+
+export {
+  registerUploadedDocument,
+  storeUploadedDocument,
+  storeDocumentVersion,
+  uploadedDocumentResponse,
+  parseUploadTemplateIds,
+} from './documents';
+export type { UploadCostEstimate, StoredUploadResult } from './documents';
+
+export {
+  isDuplicateAction,
+  findDuplicateDocument,
+  linkDuplicateDocument,
+  isStoragePathShared,
+} from './duplicates';
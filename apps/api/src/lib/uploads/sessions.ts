@@ -0,0 +1,314 @@
+/**
+ * Upload Sessions
+ *
+ * Chunked, resumable uploads. Each chunk is stored as its own object under
+ * uploads/<session id>/ so no request carries more than one chunk, and a
+ * dropped connection only costs the chunk that was in flight. Completing a
+ * session streams the chunks into the file that becomes the document.
+ *
+ * Assumptions:
+ * - Every chunk except the last is exactly chunk_size bytes
+ * - Chunks may be sent in any order and re-sent safely (upsert)
+ * - Chunks are deleted on completion; session rows are purged on expiry
+ */
+
+import { createHash } from 'crypto';
+import { supabaseAdmin } from '../supabase';
+import { getStorageConfig, deleteFiles, startResumableUpload } from '../storage';
+import type { UploadSession, StorageUploadError } from '@ai-document-vault/shared';
+import type { UploadFileInfo } from './validation';
+import type { StoredContent, UploadContent } from './content';
+
+/**
+ * Bytes per chunk. Kept under the 4.5MB request body limit of serverless
+ * functions.
+ */
+export const UPLOAD_CHUNK_SIZE = 4 * 1024 * 1024;
+
+/**
+ * Storage path of one chunk
+ */
+function chunkPath(sessionId: string, index: number): string {
+  return `uploads/${sessionId}/${String(index).padStart(5, '0')}`;
+}
+
+/**
+ * Expected byte length of a chunk
+ */
+export function expectedChunkSize(session: UploadSession, index: number): number {
+  if (index < session.total_chunks - 1) {
+    return session.chunk_size;
+  }
+  return session.size - session.chunk_size * (session.total_chunks - 1);
+}
+
+/**
+ * Chunk indexes that have not been stored yet
+ */
+export function missingChunks(session: UploadSession): number[] {
+  const received = new Set(session.received_chunks);
+  const missing: number[] = [];
+  for (let index = 0; index < session.total_chunks; index++) {
+    if (!received.has(index)) {
+      missing.push(index);
+    }
+  }
+  return missing;
+}
+
+/**
+ * Open a new upload session
+ *
+ * The file must already have passed validateUploadFile.
+ */
+export async function createUploadSession(userId: string, file: UploadFileInfo): Promise<UploadSession> {
+  const { data, error } = await supabaseAdmin
+    .from('upload_sessions')
+    .insert({
+      user_id: userId,
+      filename: file.name,
+      content_type: file.type,
+      size: file.size,
+      chunk_size: UPLOAD_CHUNK_SIZE,
+      total_chunks: Math.ceil(file.size / UPLOAD_CHUNK_SIZE),
+    })
+    .select()
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to create upload session: ${error?.message || 'no data returned'}`);
+  }
+
+  return data as UploadSession;
+}
+
+/**
+ * Fetch a session owned by a user
+ *
+ * @returns The session, or null if it doesn't exist or belongs to someone else
+ */
+export async function getUploadSession(sessionId: string, userId: string): Promise<UploadSession | null> {
+  const { data, error } = await supabaseAdmin
+    .from('upload_sessions')
+    .select('*')
+    .eq('id', sessionId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch upload session: ${error.message}`);
+  }
+
+  return (data as UploadSession | null) ?? null;
+}
+
+/**
+ * Whether a session can no longer accept chunks
+ */
+export function isUploadSessionExpired(session: UploadSession): boolean {
+  return new Date(session.expires_at).getTime() <= Date.now();
+}
+
+/**
+ * Store one chunk and record it on the session
+ *
+ * Re-sending a chunk overwrites the stored copy, so retries are safe.
+ *
+ * @returns The updated session
+ */
+export async function storeUploadChunk(
+  session: UploadSession,
+  index: number,
+  bytes: Buffer
+): Promise<UploadSession> {
+  const { bucket_name } = getStorageConfig();
+
+  const { error: storageError } = await supabaseAdmin.storage
+    .from(bucket_name)
+    .upload(chunkPath(session.id, index), bytes, {
+      contentType: 'application/octet-stream',
+      upsert: true,
+    });
+
+  if (storageError) {
+    throw new Error(`Failed to store chunk ${index}: ${storageError.message}`);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('record_upload_chunk', {
+    p_session_id: session.id,
+    p_chunk_index: index,
+  });
+
+  const updated = ((data || []) as UploadSession[])[0];
+  if (error || !updated) {
+    throw new Error(`Failed to record chunk ${index}: ${error?.message || 'session not found'}`);
+  }
+
+  return updated;
+}
+
+/**
+ * Download one stored chunk
+ *
+ * @throws Error when the chunk can't be read
+ */
+async function downloadChunk(session: UploadSession, index: number): Promise<Buffer> {
+  const { data, error } = await supabaseAdmin.storage
+    .from(getStorageConfig().bucket_name)
+    .download(chunkPath(session.id, index));
+
+  if (error || !data) {
+    throw new Error(`Failed to read chunk ${index}: ${error?.message || 'no data returned'}`);
+  }
+
+  return Buffer.from(await data.arrayBuffer());
+}
+
+/**
+ * Hash the chunks of a complete session, in order
+ *
+ * Only one chunk is held in memory at a time.
+ *
+ * @throws Error when a chunk can't be read or has the wrong size
+ */
+async function hashUploadChunks(
+  session: UploadSession,
+  onChunk?: (bytes: Buffer) => Promise<void>
+): Promise<string> {
+  const hash = createHash('sha256');
+
+  for (let index = 0; index < session.total_chunks; index++) {
+    const bytes = await downloadChunk(session, index);
+    if (bytes.length !== expectedChunkSize(session, index)) {
+      throw new Error(`Chunk ${index} is ${bytes.length} bytes, expected ${expectedChunkSize(session, index)}`);
+    }
+    hash.update(bytes);
+    await onChunk?.(bytes);
+  }
+
+  return hash.digest('hex');
+}
+
+/**
+ * Read a complete session as upload content
+ *
+ * The chunks are read once to hash the file. If the file has to be stored,
+ * they are read again and streamed into the new object as a resumable
+ * upload, so no request holds the whole file; storing fails if a chunk
+ * changed in between. The session's chunks are left in place; call
+ * finishUploadSession once the document has been created.
+ */
+export async function readUploadContent(
+  session: UploadSession
+): Promise<{ success: true; content: UploadContent } | { success: false; error: StorageUploadError }> {
+  let contentHash: string;
+  try {
+    contentHash = await hashUploadChunks(session);
+  } catch (error) {
+    return {
+      success: false,
+      error: {
+        error: 'UPLOAD_ERROR',
+        message: error instanceof Error ? error.message : 'Failed to read uploaded chunks',
+        code: 'CHUNK_READ_FAILED',
+      },
+    };
+  }
+
+  const store = async (): Promise<StoredContent> => {
+    try {
+      const upload = await startResumableUpload(
+        { filename: session.filename, content_type: session.content_type, size: session.size },
+        { bucket_name: getStorageConfig().bucket_name }
+      );
+      const writtenHash = await hashUploadChunks(session, (bytes) => upload.write(bytes));
+      if (writtenHash !== contentHash) {
+        throw new Error('The uploaded chunks changed while the file was being stored');
+      }
+      await upload.finish();
+      return { success: true, path: upload.path };
+    } catch (error) {
+      return {
+        success: false,
+        error: {
+          error: 'UPLOAD_ERROR',
+          message: `Failed to store the uploaded file: ${error instanceof Error ? error.message : 'Unknown error'}`,
+          code: 'STORAGE_UPLOAD_FAILED',
+        },
+      };
+    }
+  };
+
+  return { success: true, content: { contentHash, store } };
+}
+
+/**
+ * Delete a session's stored chunks
+ *
+ * Failures are logged but not thrown; orphaned chunks are harmless and
+ * are removed again when the session expires.
+ */
+async function deleteUploadChunks(session: UploadSession): Promise<void> {
+  const paths = Array.from({ length: session.total_chunks }, (_, index) => chunkPath(session.id, index));
+  await deleteFiles(paths, { bucket_name: getStorageConfig().bucket_name });
+}
+
+/**
+ * Mark a session as completed and free its chunks
+ *
+ * The row is kept until it expires so a retried complete request (e.g.
+ * after its response was lost) returns the same document.
+ */
+export async function finishUploadSession(session: UploadSession, documentId: string): Promise<void> {
+  const { error } = await supabaseAdmin
+    .from('upload_sessions')
+    .update({ document_id: documentId, updated_at: new Date().toISOString() })
+    .eq('id', session.id);
+
+  if (error) {
+    console.error(`[Uploads] Failed to mark upload session ${session.id} complete:`, error.message);
+  }
+
+  await deleteUploadChunks(session);
+}
+
+/**
+ * Delete a session and its chunks
+ */
+export async function discardUploadSession(session: UploadSession): Promise<void> {
+  await deleteUploadChunks(session);
+
+  const { error } = await supabaseAdmin.from('upload_sessions').delete().eq('id', session.id);
+  if (error) {
+    console.error(`[Uploads] Failed to delete upload session ${session.id}:`, error.message);
+  }
+}
+
+/**
+ * Remove expired sessions and their chunks
+ *
+ * @returns Number of sessions removed
+ */
+export async function purgeExpiredUploadSessions(): Promise<number> {
+  const { data, error } = await supabaseAdmin
+    .from('upload_sessions')
+    .select('*')
+    .lt('expires_at', new Date().toISOString())
+    .limit(100);
+
+  if (error) {
+    console.error('[Uploads] Failed to list expired upload sessions:', error.message);
+    return 0;
+  }
+
+  const expired = (data || []) as UploadSession[];
+  for (const session of expired) {
+    await discardUploadSession(session);
+  }
+
+  if (expired.length > 0) {
+    console.log(`[Uploads] Purged ${expired.length} expired upload session(s)`);
+  }
+
+  return expired.length;
+}
@@ -0,0 +1,76 @@
+/**
+ * Upload Validation
+ * 
+ * File type and size rules shared by single-request uploads and chunked
+ * upload sessions, so both paths accept exactly the same files. Accepted
+ * types come from the shared format registry (DOCUMENT_FORMATS), which
+ * also drives the web app's file picker.
+ */
+
+import {
+  ACCEPTED_EXTENSIONS,
+  ACCEPTED_MIME_TYPES,
+  describeAcceptedFormats,
+  getFileExtension,
+  isAcceptedFile,
+} from '@ai-document-vault/shared';
+import type { ApiError } from '@ai-document-vault/shared';
+
+export const ALLOWED_MIME_TYPES = ACCEPTED_MIME_TYPES;
+
+export const ALLOWED_EXTENSIONS = ACCEPTED_EXTENSIONS;
+
+export const MAX_UPLOAD_SIZE = 100 * 1024 * 1024; // 100MB
+
+/**
+ * What the client told us about a file
+ */
+export interface UploadFileInfo {
+  name: string;
+  type: string;
+  size: number;
+}
+
+/**
+ * Validate a file's name, type and size
+ * 
+ * The extension must belong to a supported format, and the MIME type to
+ * that format (or be missing or generic).
+ * 
+ * @returns An error to return with status 400, or null if the file is acceptable
+ */
+export function validateUploadFile(file: UploadFileInfo): ApiError | null {
+  if (!file.name || file.name.trim() === '') {
+    return {
+      error: 'VALIDATION_ERROR',
+      message: 'File name is required.',
+      code: 'INVALID_FILENAME',
+    };
+  }
+
+  const fileExtension = getFileExtension(file.name);
+
+  if (!isAcceptedFile(file.name, file.type)) {
+    return {
+      error: 'VALIDATION_ERROR',
+      message: `Invalid file type. Supported formats: ${describeAcceptedFormats()}.`,
+      code: 'INVALID_FILE_TYPE',
+      details: {
+        provided_mime_type: file.type || 'unknown',
+        provided_extension: fileExtension || 'none',
+        allowed_types: ALLOWED_MIME_TYPES,
+        allowed_extensions: ALLOWED_EXTENSIONS,
+      },
+    };
+  }
+
+  if (file.size > MAX_UPLOAD_SIZE) {
+    return {
+      error: 'VALIDATION_ERROR',
+      message: `File size exceeds ${MAX_UPLOAD_SIZE / 1024 / 1024}MB limit.`,
+      code: 'FILE_TOO_LARGE',
+    };
+  }
+
+  return null;
+}
@@ -0,0 +1,20 @@
+/**
+ * Usage Module
+ * 
+ * Central export point for AI usage recording, pricing and reports.
+ * 
+ * Usage:
+ *   import { createUsageMeter, getUsageReport } from '@/lib/usage';
+ */
+
+export {
+  recordUsage,
+  createUsageMeter,
+  getUsageReport,
+  getDocumentUsageReport,
+  currentUsageMonth,
+  parseUsageMonth,
+} from './store';
+export type { UsageContext, UsageMeter } from './store';
+export { getModelPrice, costOf } from './pricing';
+export type { ModelPrice } from './pricing';
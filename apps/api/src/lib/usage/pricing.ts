@@ -0,0 +1,47 @@
+/**
+ * Model Prices
+ * 
+ * USD per million tokens, used to cost AI calls when they are recorded.
+ * A model id matches the longest listed prefix, so dated releases share
+ * their family's price. Calls to models without a price cost 0.
+ */
+
+export interface ModelPrice {
+  inputPerMTok: number;
+  outputPerMTok: number;
+}
+
+const MODEL_PRICES: Array<{ prefix: string } & ModelPrice> = [
+  { prefix: 'claude-opus-4', inputPerMTok: 15, outputPerMTok: 75 },
+  { prefix: 'claude-sonnet-4', inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: 'claude-3-7-sonnet', inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: 'claude-3-5-sonnet', inputPerMTok: 3, outputPerMTok: 15 },
+  { prefix: 'claude-3-5-haiku', inputPerMTok: 0.8, outputPerMTok: 4 },
+  { prefix: 'claude-3-opus', inputPerMTok: 15, outputPerMTok: 75 },
+  { prefix: 'claude-3-haiku', inputPerMTok: 0.25, outputPerMTok: 1.25 },
+  { prefix: 'fake', inputPerMTok: 0, outputPerMTok: 0 },
+];
+
+/**
+ * Price of a model, or null when it has none
+ */
+export function getModelPrice(model: string): ModelPrice | null {
+  let best: (typeof MODEL_PRICES)[number] | null = null;
+  for (const entry of MODEL_PRICES) {
+    if (model.startsWith(entry.prefix) && (!best || entry.prefix.length > best.prefix.length)) {
+      best = entry;
+    }
+  }
+  return best ? { inputPerMTok: best.inputPerMTok, outputPerMTok: best.outputPerMTok } : null;
+}
+
+/**
+ * Cost of a call in USD, rounded to the stored precision
+ */
+export function costOf(inputTokens: number, outputTokens: number, price: ModelPrice | null): number {
+  if (!price) {
+    return 0;
+  }
+  const cost = (inputTokens * price.inputPerMTok + outputTokens * price.outputPerMTok) / 1_000_000;
+  return Math.round(cost * 1_000_000) / 1_000_000;
+}
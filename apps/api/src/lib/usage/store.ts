@@ -0,0 +1,257 @@
+/**
+ * AI Usage Store
+ * 
+ * Records the tokens and cost of AI calls and reports them per user per
+ * month and per document. Recording never throws: the calls have already
+ * been made, so a failure to record them is logged and the operation that
+ * made them carries on.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import type { AIUsage, UsageListener } from '../ai/provider';
+import type {
+  AIOperation,
+  DocumentUsageReport,
+  DocumentUsageTotals,
+  MonthlyUsage,
+  OperationUsage,
+  UsageReport,
+  UsageTotals,
+} from '@ai-document-vault/shared';
+import { costOf, getModelPrice } from './pricing';
+
+const REPORT_MONTHS = 12;
+const TOP_DOCUMENTS = 10;
+
+/**
+ * Who AI calls are made for, and why
+ */
+export interface UsageContext {
+  userId: string;
+  documentId: string | null;
+  operation: AIOperation;
+}
+
+/**
+ * Collects the usage of an operation's AI calls for recording in one write
+ */
+export interface UsageMeter {
+  /** Pass as onUsage to AI requests */
+  record: UsageListener;
+  /** Record the collected usage; safe to call more than once */
+  flush(): Promise<void>;
+}
+
+/**
+ * Record AI calls
+ */
+export async function recordUsage(context: UsageContext, usages: AIUsage[]): Promise<void> {
+  if (usages.length === 0) {
+    return;
+  }
+
+  const rows = usages.map((usage) => {
+    const price = getModelPrice(usage.model);
+    if (!price) {
+      console.warn(`[Usage] No price for model ${usage.model}; recording its calls at cost 0`);
+    }
+    return {
+      user_id: context.userId,
+      document_id: context.documentId,
+      operation: context.operation,
+      model: usage.model,
+      input_tokens: usage.inputTokens,
+      output_tokens: usage.outputTokens,
+      input_price_per_mtok: price?.inputPerMTok ?? null,
+      output_price_per_mtok: price?.outputPerMTok ?? null,
+      cost_usd: costOf(usage.inputTokens, usage.outputTokens, price),
+    };
+  });
+
+  const { error } = await supabaseAdmin.from('ai_usage').insert(rows);
+  if (error) {
+    console.error(`[Usage] Failed to record ${rows.length} AI call(s) for ${context.operation}:`, error.message);
+  }
+}
+
+/**
+ * Create a meter for one operation
+ * 
+ * Usage:
+ *   const meter = createUsageMeter({ userId, documentId, operation: 'process' });
+ *   try { await processDocumentWithAI(text, name, { onUsage: meter.record }); }
+ *   finally { await meter.flush(); }
+ */
+export function createUsageMeter(context: UsageContext): UsageMeter {
+  let pending: AIUsage[] = [];
+  return {
+    record: (usage) => {
+      pending.push(usage);
+    },
+    flush: async () => {
+      const usages = pending;
+      pending = [];
+      await recordUsage(context, usages);
+    },
+  };
+}
+
+/**
+ * Current UTC month as YYYY-MM
+ */
+export function currentUsageMonth(): string {
+  return new Date().toISOString().substring(0, 7);
+}
+
+/**
+ * Check a YYYY-MM month parameter
+ * 
+ * @returns The month, or null when it isn't a valid month
+ */
+export function parseUsageMonth(value: string): string | null {
+  const match = /^(\d{4})-(\d{2})$/.exec(value);
+  if (!match) {
+    return null;
+  }
+  const month = Number(match[2]);
+  return month >= 1 && month <= 12 ? value : null;
+}
+
+/**
+ * Start of a UTC month, offset by a number of months
+ */
+function monthStart(month: string, offset = 0): Date {
+  const [year, monthNumber] = month.split('-').map(Number);
+  return new Date(Date.UTC(year, monthNumber - 1 + offset, 1));
+}
+
+interface TotalsRow {
+  calls: number | string;
+  input_tokens: number | string;
+  output_tokens: number | string;
+  cost_usd: number | string | null;
+}
+
+/**
+ * Aggregates come back as numbers or numeric strings depending on size
+ */
+function toTotals(row: TotalsRow): UsageTotals {
+  return {
+    calls: Number(row.calls),
+    input_tokens: Number(row.input_tokens),
+    output_tokens: Number(row.output_tokens),
+    cost_usd: Number(row.cost_usd ?? 0),
+  };
+}
+
+function sumTotals(rows: UsageTotals[]): UsageTotals {
+  const totals = rows.reduce(
+    (sum, row) => ({
+      calls: sum.calls + row.calls,
+      input_tokens: sum.input_tokens + row.input_tokens,
+      output_tokens: sum.output_tokens + row.output_tokens,
+      cost_usd: sum.cost_usd + row.cost_usd,
+    }),
+    { calls: 0, input_tokens: 0, output_tokens: 0, cost_usd: 0 }
+  );
+  return { ...totals, cost_usd: Math.round(totals.cost_usd * 1_000_000) / 1_000_000 };
+}
+
+/**
+ * Usage per operation, optionally within a time range and for one document
+ * 
+ * @throws When the usage can't be read
+ */
+async function getOperationUsage(
+  userId: string,
+  range: { from: Date; to: Date } | null,
+  documentId: string | null
+): Promise<OperationUsage[]> {
+  const { data, error } = await supabaseAdmin.rpc('ai_usage_by_operation', {
+    p_user_id: userId,
+    p_from: range?.from.toISOString() ?? null,
+    p_to: range?.to.toISOString() ?? null,
+    p_document_id: documentId,
+  });
+
+  if (error) {
+    throw new Error(`Failed to load usage by operation: ${error.message}`);
+  }
+
+  return ((data || []) as Array<TotalsRow & { operation: AIOperation }>).map((row) => ({
+    operation: row.operation,
+    ...toTotals(row),
+  }));
+}
+
+/**
+ * A user's usage for a month
+ * 
+ * @param month - YYYY-MM (UTC), checked with parseUsageMonth
+ * @throws When the usage can't be read
+ */
+export async function getUsageReport(userId: string, month: string): Promise<UsageReport> {
+  const from = monthStart(month);
+  const to = monthStart(month, 1);
+
+  const byOperation = await getOperationUsage(userId, { from, to }, null);
+
+  const { data: documentRows, error: documentError } = await supabaseAdmin.rpc('ai_usage_by_document', {
+    p_user_id: userId,
+    p_from: from.toISOString(),
+    p_to: to.toISOString(),
+    p_limit: TOP_DOCUMENTS,
+  });
+
+  if (documentError) {
+    throw new Error(`Failed to load usage by document: ${documentError.message}`);
+  }
+
+  const { data: monthRows, error: monthError } = await supabaseAdmin.rpc('ai_usage_by_month', {
+    p_user_id: userId,
+    p_from: monthStart(month, 1 - REPORT_MONTHS).toISOString(),
+    p_to: to.toISOString(),
+  });
+
+  if (monthError) {
+    throw new Error(`Failed to load usage by month: ${monthError.message}`);
+  }
+
+  // Months without calls are listed with zero usage
+  const monthTotals = new Map(
+    ((monthRows || []) as Array<TotalsRow & { month: string }>).map((row) => [row.month, toTotals(row)])
+  );
+  const recentMonths: MonthlyUsage[] = [];
+  for (let offset = 0; offset > -REPORT_MONTHS; offset--) {
+    const key = monthStart(month, offset).toISOString().substring(0, 7);
+    recentMonths.push({ month: key, ...(monthTotals.get(key) ?? sumTotals([])) });
+  }
+
+  return {
+    month,
+    totals: sumTotals(byOperation),
+    by_operation: byOperation,
+    top_documents: ((documentRows || []) as Array<TotalsRow & { document_id: string; document_name: string }>).map(
+      (row): DocumentUsageTotals => ({
+        document_id: row.document_id,
+        document_name: row.document_name,
+        ...toTotals(row),
+      })
+    ),
+    recent_months: recentMonths,
+  };
+}
+
+/**
+ * A document's usage to date
+ * 
+ * @throws When the usage can't be read
+ */
+export async function getDocumentUsageReport(userId: string, documentId: string): Promise<DocumentUsageReport> {
+  const byOperation = await getOperationUsage(userId, null, documentId);
+  return {
+    document_id: documentId,
+    totals: sumTotals(byOperation),
+    by_operation: byOperation,
+  };
+}
@@ -0,0 +1,16 @@
+/**
+ * Versions Module
+ * 
+ * Central export point for document version history.
+ * 
+ * Usage:
+ *   import { listDocumentVersions, createDocumentVersion } from '@/lib/versions';
+ */
+
+export {
+  listDocumentVersions,
+  getDocumentVersion,
+  createDocumentVersion,
+  reuseDocumentVersion,
+  getVersionStoragePaths,
+} from './store';
@@ -0,0 +1,171 @@
+/**
+ * Document versions
+ *
+ * Runs the version RPCs against the migrated schema: a new file must not
+ * leave the previous file's derived content where search, ask and similar
+ * documents can find it.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus } from '@ai-document-vault/shared';
+import type { Document } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { setAIProvider } from '../ai/provider';
+import { embedDocument, embedQuery } from '../embeddings';
+import { createDocumentVersion, reuseDocumentVersion } from './store';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('../supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+const MARKDOWN = '# Invoice\n\nAcme Corp bills 1,250 USD for consulting services.';
+
+let database: TestDatabase;
+
+/**
+ * A processed document with embeddings, metadata, a tag suggestion, an
+ * applied tag and a template result
+ */
+async function insertProcessedDocument(): Promise<{ document: Document; tagId: string }> {
+  const { data: document } = await database.client
+    .from('documents')
+    .insert({
+      user_id: USER_ID,
+      name: 'invoice.pdf',
+      storage_path: `${USER_ID}/invoice-v1.pdf`,
+      content_hash: 'hash-1',
+      status: DocumentStatus.READY,
+      summary: 'Invoice from Acme Corp.',
+      markdown: MARKDOWN,
+      metadata: { document_type: 'invoice', language: 'en' },
+      suggested_tags: ['invoices'],
+    })
+    .select()
+    .single();
+  const { id } = document as Document;
+  await embedDocument(id, USER_ID, MARKDOWN);
+
+  const { data: tag } = await database.client.from('tags').insert({ user_id: USER_ID, name: 'Acme' }).select().single();
+  const tagId = (tag as { id: string }).id;
+  await database.client.from('document_tags').insert({ document_id: id, tag_id: tagId });
+
+  const { data: template } = await database.client
+    .from('extraction_templates')
+    .insert({
+      user_id: USER_ID,
+      name: 'Totals',
+      prompt: 'Extract the total',
+      output_schema: { type: 'object', properties: { total: { type: 'number' } } },
+      layout: { sections: [] },
+    })
+    .select()
+    .single();
+  await database.client.from('template_results').insert({
+    document_id: id,
+    template_id: (template as { id: string }).id,
+    user_id: USER_ID,
+    status: 'succeeded',
+    output: { total: 1250 },
+  });
+
+  return { document: document as Document, tagId };
+}
+
+async function count(table: string, documentId: string): Promise<number> {
+  const { count } = await database.client
+    .from(table)
+    .select('*', { count: 'exact', head: true })
+    .eq('document_id', documentId);
+  return count ?? 0;
+}
+
+async function semanticMatches(query: string): Promise<string[]> {
+  const embedding = await embedQuery(query);
+  const { data } = await database.client.rpc('match_documents', {
+    p_user_id: USER_ID,
+    p_embedding: embedding!.vector,
+    p_embedding_model: embedding!.model,
+  });
+  return (data as Array<{ document: Document }>).map((row) => row.document.id);
+}
+
+describe('document versions', () => {
+  beforeAll(async () => {
+    vi.stubEnv('AI_PROVIDER', 'fake');
+    setAIProvider(null);
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    setAIProvider(null);
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  it("clears the previous file's derived content when a new version is created", async () => {
+    const { document, tagId } = await insertProcessedDocument();
+    expect(await semanticMatches('Acme consulting invoice')).toEqual([document.id]);
+
+    const revised = await createDocumentVersion(document.id, USER_ID, {
+      name: 'invoice v2.pdf',
+      storagePath: `${USER_ID}/invoice-v2.pdf`,
+      contentHash: 'hash-2',
+    });
+
+    expect(revised).toMatchObject({
+      current_version: 2,
+      status: DocumentStatus.UPLOADED,
+      summary: null,
+      markdown: null,
+      metadata: null,
+      suggested_tags: [],
+    });
+    expect(await count('document_chunks', document.id)).toBe(0);
+    expect(await count('template_results', document.id)).toBe(0);
+    expect(await semanticMatches('Acme consulting invoice')).toEqual([]);
+
+    const { data: tags } = await database.client.from('document_tags').select('tag_id').eq('document_id', document.id);
+    expect(tags).toEqual([{ tag_id: tagId }]);
+  });
+
+  it('keeps the previous version content in its version row', async () => {
+    const { document } = await insertProcessedDocument();
+
+    await createDocumentVersion(document.id, USER_ID, {
+      name: 'invoice v2.pdf',
+      storagePath: `${USER_ID}/invoice-v2.pdf`,
+      contentHash: 'hash-2',
+    });
+
+    const { data } = await database.client
+      .from('document_versions')
+      .select('version_number, markdown')
+      .eq('document_id', document.id)
+      .order('version_number');
+    expect(data).toEqual([
+      { version_number: 1, markdown: MARKDOWN },
+      { version_number: 2, markdown: null },
+    ]);
+  });
+
+  it('keeps the derived content when the new version has the same file', async () => {
+    const { document } = await insertProcessedDocument();
+
+    const revised = await reuseDocumentVersion(document.id, USER_ID, { name: 'invoice copy.pdf', contentHash: 'hash-1' });
+
+    expect(revised).toMatchObject({ current_version: 2, status: DocumentStatus.READY, suggested_tags: ['invoices'] });
+    expect(await count('document_chunks', document.id)).toBe(1);
+    expect(await count('template_results', document.id)).toBe(1);
+    expect(await semanticMatches('Acme consulting invoice')).toEqual([document.id]);
+  });
+});
@@ -0,0 +1,131 @@
+/**
+ * Document Version Store
+ * 
+ * Reads and creates rows in document_versions. The documents row always
+ * holds the current version; database triggers record version 1 when a
+ * document is created and copy the current version's summary, markdown
+ * and status onto its row as they change.
+ */
+
+import { supabaseAdmin } from '../supabase';
+import type { Document, DocumentVersion, DocumentVersionInfo } from '@ai-document-vault/shared';
+
+/**
+ * Columns listed in version history (everything but markdown)
+ */
+const VERSION_INFO_COLUMNS =
+  'id, document_id, version_number, filename, storage_path, content_hash, uploaded_by, summary, summary_source, markdown_source, status, ai_model, created_at';
+
+/**
+ * List a document's versions, newest first
+ * 
+ * The caller must have checked that the document belongs to the user.
+ */
+export async function listDocumentVersions(documentId: string): Promise<DocumentVersionInfo[]> {
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select(VERSION_INFO_COLUMNS)
+    .eq('document_id', documentId)
+    .order('version_number', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to list document versions: ${error.message}`);
+  }
+
+  return (data || []) as DocumentVersionInfo[];
+}
+
+/**
+ * Fetch one version of a document
+ * 
+ * @returns The version, or null if the document has no such version
+ */
+export async function getDocumentVersion(documentId: string, versionNumber: number): Promise<DocumentVersion | null> {
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select('*')
+    .eq('document_id', documentId)
+    .eq('version_number', versionNumber)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch document version: ${error.message}`);
+  }
+
+  return (data as DocumentVersion | null) ?? null;
+}
+
+/**
+ * Make a stored file the document's new current version
+ * 
+ * Records the version and resets the document to UPLOADED with empty
+ * content; the caller enqueues processing. Earlier versions keep their
+ * files and content.
+ * 
+ * @returns The updated document, or null if it doesn't belong to the user
+ */
+export async function createDocumentVersion(
+  documentId: string,
+  userId: string,
+  file: { name: string; storagePath: string; contentHash: string }
+): Promise<Document | null> {
+  const { data, error } = await supabaseAdmin.rpc('create_document_version', {
+    p_document_id: documentId,
+    p_user_id: userId,
+    p_filename: file.name,
+    p_storage_path: file.storagePath,
+    p_content_hash: file.contentHash,
+  });
+
+  if (error) {
+    throw new Error(`Failed to create document version: ${error.message}`);
+  }
+
+  return ((data || []) as Document[])[0] ?? null;
+}
+
+/**
+ * Record an identical file as the document's new current version
+ * 
+ * Only for a READY document whose current file has the same content hash:
+ * the version shares that file and starts READY with the current summary
+ * and markdown, and the document keeps its embeddings, so nothing is
+ * processed again.
+ * 
+ * @returns The updated document, or null if it doesn't belong to the user,
+ *   isn't READY or has different content
+ */
+export async function reuseDocumentVersion(
+  documentId: string,
+  userId: string,
+  file: { name: string; contentHash: string }
+): Promise<Document | null> {
+  const { data, error } = await supabaseAdmin.rpc('reuse_document_version', {
+    p_document_id: documentId,
+    p_user_id: userId,
+    p_filename: file.name,
+    p_content_hash: file.contentHash,
+  });
+
+  if (error) {
+    throw new Error(`Failed to reuse document version: ${error.message}`);
+  }
+
+  return ((data || []) as Document[])[0] ?? null;
+}
+
+/**
+ * Storage paths of every version of a document
+ */
+export async function getVersionStoragePaths(documentId: string): Promise<string[]> {
+  const { data, error } = await supabaseAdmin
+    .from('document_versions')
+    .select('storage_path')
+    .eq('document_id', documentId);
+
+  if (error) {
+    throw new Error(`Failed to list version files: ${error.message}`);
+  }
+
+  return Array.from(new Set((data || []).map((row: { storage_path: string }) => row.storage_path)));
+}
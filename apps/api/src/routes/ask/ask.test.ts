@@ -0,0 +1,91 @@
+/**
+ * Ask route quotas
+ *
+ * A question over the user's monthly AI budget is refused with 429 before
+ * retrieval embeds it or the model answers it.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { QUOTA_EXCEEDED } from '@ai-document-vault/shared';
+import type { ApiError } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { POST } from './ask';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('@/lib/supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getUserIdFromRequest: vi.fn(async () => USER_ID),
+}));
+
+const ai = vi.hoisted(() => ({
+  retrievePassages: vi.fn(async () => []),
+  streamAnswer: vi.fn(),
+  getAIProvider: vi.fn(() => ({ modelFor: () => 'fake' })),
+}));
+vi.mock('@/lib/ai', () => ai);
+
+let database: TestDatabase;
+
+function ask(question: string): Promise<Response> {
+  return POST(
+    new Request('http://localhost/api/ask', {
+      method: 'POST',
+      body: JSON.stringify({ question }),
+    })
+  );
+}
+
+describe('POST /api/ask', () => {
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    vi.clearAllMocks();
+  });
+
+  it('refuses the question with QUOTA_EXCEEDED once the monthly budget is spent', async () => {
+    await database.client.from('user_quotas').insert({ user_id: USER_ID, spend_per_month_usd: 5 });
+    await database.client.from('ai_usage').insert({
+      user_id: USER_ID,
+      operation: 'answer',
+      model: 'fake',
+      input_tokens: 1000,
+      output_tokens: 1000,
+      cost_usd: 5,
+    });
+
+    const response = await ask('What does Acme bill for consulting?');
+
+    expect(response.status).toBe(429);
+    const body = (await response.json()) as ApiError;
+    expect(body.code).toBe(QUOTA_EXCEEDED);
+    expect(body.details).toMatchObject({ exceeded: ['spend_per_month_usd'] });
+    expect(ai.retrievePassages).not.toHaveBeenCalled();
+    expect(ai.streamAnswer).not.toHaveBeenCalled();
+  });
+
+  it('answers while there is budget left', async () => {
+    await database.client.from('user_quotas').insert({ user_id: USER_ID, spend_per_month_usd: 5 });
+
+    const response = await ask('What does Acme bill for consulting?');
+
+    expect(response.status).toBe(200);
+    expect(ai.retrievePassages).toHaveBeenCalledOnce();
+  });
+});
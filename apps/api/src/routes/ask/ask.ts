@@ -0,0 +1,181 @@
+/**
+ * Ask API Route
+ * 
+ * Answers a question from the user's documents with inline citations.
+ * 
+ * POST /api/ask
+ * Body: { question, document_id?, group_id? }
+ * 
+ * Validation errors are returned as JSON. Otherwise the response is a
+ * Server-Sent Events stream of AskStreamEvent objects: the retrieved
+ * citations first, then answer text deltas, then done (or error).
+ * Answers count against the user's monthly AI spend; over it, the
+ * question is refused with 429 QUOTA_EXCEEDED before any model call.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { AskRequest, AskStreamEvent, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { retrievePassages, streamAnswer, getAIProvider } from '@/lib/ai';
+import { createUsageMeter } from '@/lib/usage';
+import { checkSpendQuota, QuotaExceededError, quotaExceededResponse } from '@/lib/quotas';
+
+const MAX_QUESTION_LENGTH = 2000;
+const NO_PASSAGES_ANSWER =
+  "I couldn't find anything relevant to that question in your documents. " +
+  'Try rephrasing it, or check that the documents have finished processing.';
+
+const encoder = new TextEncoder();
+
+/**
+ * Encode an event as a Server-Sent Events message
+ */
+function encodeEvent(event: AskStreamEvent): Uint8Array {
+  return encoder.encode(`data: ${JSON.stringify(event)}\n\n`);
+}
+
+export async function POST(request: Request): Promise<Response> {
+  const requestId = `ask-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const body = await request.json().catch(() => ({})) as Partial<AskRequest>;
+    const question = typeof body.question === 'string' ? body.question.trim() : '';
+    const documentId = body.document_id || null;
+    const groupId = body.group_id || null;
+
+    if (!question || question.length > MAX_QUESTION_LENGTH) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `Question is required and must be at most ${MAX_QUESTION_LENGTH} characters`,
+          code: 'INVALID_QUESTION',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (documentId && groupId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Scope the question to a document or a group, not both',
+          code: 'INVALID_SCOPE',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    // Verify the scope belongs to the user
+    if (documentId) {
+      const { data: document, error: documentError } = await supabaseAdmin
+        .from('documents')
+        .select('id')
+        .eq('id', documentId)
+        .eq('user_id', userId)
+        .single();
+
+      if (documentError || !document) {
+        return Response.json(
+          {
+            error: 'NOT_FOUND',
+            message: 'Document not found',
+            code: 'DOCUMENT_NOT_FOUND',
+          } as ApiError,
+          { status: 404 }
+        );
+      }
+    }
+
+    if (groupId) {
+      const { data: group, error: groupError } = await supabaseAdmin
+        .from('groups')
+        .select('id')
+        .eq('id', groupId)
+        .eq('user_id', userId)
+        .single();
+
+      if (groupError || !group) {
+        return Response.json(
+          {
+            error: 'NOT_FOUND',
+            message: 'Group not found',
+            code: 'GROUP_NOT_FOUND',
+          } as ApiError,
+          { status: 404 }
+        );
+      }
+    }
+
+    // Retrieval embeds the question, so the budget is checked before it
+    await checkSpendQuota(userId);
+
+    console.log(`[Ask ${requestId}] Retrieving passages`, { documentId, groupId });
+    const citations = await retrievePassages(userId, question, { documentId, groupId });
+    console.log(`[Ask ${requestId}] Retrieved ${citations.length} passages`);
+
+    const stream = new ReadableStream<Uint8Array>({
+      async start(controller) {
+        controller.enqueue(encodeEvent({ type: 'citations', citations }));
+
+        if (citations.length === 0) {
+          controller.enqueue(encodeEvent({ type: 'delta', text: NO_PASSAGES_ANSWER }));
+          controller.enqueue(encodeEvent({ type: 'done', model: null }));
+          controller.close();
+          return;
+        }
+
+        // Scoped to one document, the answer's usage is counted against it
+        const meter = createUsageMeter({ userId, documentId, operation: 'answer' });
+        try {
+          for await (const text of streamAnswer(question, citations, requestId, meter.record)) {
+            controller.enqueue(encodeEvent({ type: 'delta', text }));
+          }
+          controller.enqueue(encodeEvent({ type: 'done', model: getAIProvider().modelFor('answer') }));
+        } catch (streamError) {
+          console.error(`[Ask ${requestId}] Answer stream failed:`, streamError);
+          controller.enqueue(
+            encodeEvent({
+              type: 'error',
+              code: 'AI_FAILED',
+              message: 'The answer could not be generated. Please try again.',
+            })
+          );
+        } finally {
+          await meter.flush();
+        }
+
+        controller.close();
+      },
+    });
+
+    return new Response(stream, {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache',
+        'Connection': 'keep-alive',
+      },
+    });
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Ask ${requestId}] Unexpected error in ask handler:`, error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
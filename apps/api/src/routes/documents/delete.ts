@@ -1,11 +1,13 @@
 /**
  * Delete Document API Route
  * 
- * Deletes a document and its associated file from storage.
+ * Deletes a document and the files of all its versions from storage.
  * 
  * Flow:
- * 1. Delete file from Supabase Storage
- * 2. Delete document record from database (cascade deletes document_groups)
+ * 1. Delete each version's file from Supabase Storage, unless a linked
+ *    duplicate still uses it
+ * 2. Delete document record from database (cascade deletes document_groups
+ *    and document_versions)
  * 
  * Assumptions:
  * - Document exists and belongs to the user
@@ -14,6 +16,8 @@
 
 import { supabaseAdmin } from '@/lib/supabase';
 import { deleteFile } from '@/lib/storage';
+import { isStoragePathShared } from '@/lib/uploads';
+import { getVersionStoragePaths } from '@/lib/versions';
 import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
 
@@ -63,9 +67,18 @@ export async function DELETE(
       );
     }
 
-    // Delete file from storage (best-effort, don't fail if file doesn't exist)
+    // Delete files from storage (best-effort, don't fail if a file doesn't exist)
     try {
-      await deleteFile(document.storage_path);
+      const storagePaths = await getVersionStoragePaths(documentId);
+      if (!storagePaths.includes(document.storage_path)) {
+        storagePaths.push(document.storage_path);
+      }
+
+      for (const storagePath of storagePaths) {
+        if (!(await isStoragePathShared(storagePath, documentId))) {
+          await deleteFile(storagePath);
+        }
+      }
     } catch (storageError) {
       console.warn('Failed to delete file from storage (continuing anyway):', storageError);
       // Continue with database deletion even if file deletion fails
@@ -1,12 +1,21 @@
 import { supabaseAdmin } from '@/lib/supabase';
-import type { Document, Group, ApiResponse } from '@ai-document-vault/shared';
+import type { Document, Group, ApiResponse, DocumentsResponse, PaginatedResponse } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parsePaginationParams, cursorFilter, toPaginatedResponse } from '@/lib/pagination';
 
 export interface DocumentWithGroups {
   document: Document;
   groups: Group[];
 }
 
+/**
+ * List the user's documents, newest first, one page at a time
+ * 
+ * Query parameters:
+ * - cursor: next_cursor from the previous page
+ * - limit: Page size (default 20, max 100)
+ * - with_groups: Include each document's groups
+ */
 export async function GET(request: Request): Promise<Response> {
   try {
     const userId = await getUserIdFromRequest(request);
@@ -32,12 +41,24 @@ export async function GET(request: Request): Promise<Response> {
 
     const url = new URL(request.url);
     const withGroups = url.searchParams.get('with_groups') === 'true';
+    const pagination = parsePaginationParams(url);
+    if (pagination instanceof Response) {
+      return pagination;
+    }
 
-    const { data: documents, error } = await supabaseAdmin
+    let query = supabaseAdmin
       .from('documents')
       .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .eq('user_id', userId);
+
+    if (pagination.cursor) {
+      query = query.or(cursorFilter(pagination.cursor));
+    }
+
+    const { data: rows, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pagination.limit + 1);
 
     if (error) {
       return Response.json(
@@ -50,11 +71,18 @@ export async function GET(request: Request): Promise<Response> {
       );
     }
 
+    const page: DocumentsResponse = toPaginatedResponse(
+      (rows || []) as Document[],
+      pagination.limit,
+      (doc) => ({ created_at: doc.created_at, id: doc.id })
+    );
+    const documents = page.items;
+
     if (!withGroups) {
       return Response.json(
         {
-          data: (documents || []) as Document[],
-        } as ApiResponse<Document[]>,
+          data: page,
+        } as ApiResponse<DocumentsResponse>,
         {
           status: 200,
           headers: {
@@ -65,14 +93,13 @@ export async function GET(request: Request): Promise<Response> {
       );
     }
 
-    const documentIds = (documents || []).map((d) => d.id);
+    const documentIds = documents.map((d) => d.id);
     
     if (documentIds.length === 0) {
-      const documentsWithGroups: DocumentWithGroups[] = [];
       return Response.json(
         {
-          data: documentsWithGroups,
-        } as ApiResponse<DocumentWithGroups[]>,
+          data: { ...page, items: [] },
+        } as ApiResponse<PaginatedResponse<DocumentWithGroups>>,
         {
           status: 200,
           headers: {
@@ -91,14 +118,14 @@ export async function GET(request: Request): Promise<Response> {
     const userGroupIds = (userGroups || []).map((g) => g.id);
     
     if (userGroupIds.length === 0) {
-      const documentsWithGroups: DocumentWithGroups[] = (documents || []).map((doc: Document) => ({
+      const documentsWithGroups: DocumentWithGroups[] = documents.map((doc: Document) => ({
         document: doc,
         groups: [],
       }));
       return Response.json(
         {
-          data: documentsWithGroups,
-        } as ApiResponse<DocumentWithGroups[]>,
+          data: { ...page, items: documentsWithGroups },
+        } as ApiResponse<PaginatedResponse<DocumentWithGroups>>,
         {
           status: 200,
           headers: {
@@ -128,15 +155,15 @@ export async function GET(request: Request): Promise<Response> {
       }
     });
 
-    const documentsWithGroups: DocumentWithGroups[] = (documents || []).map((doc: Document) => ({
+    const documentsWithGroups: DocumentWithGroups[] = documents.map((doc: Document) => ({
       document: doc,
       groups: groupsMap.get(doc.id) || [],
     }));
 
     return Response.json(
       {
-        data: documentsWithGroups,
-      } as ApiResponse<DocumentWithGroups[]>,
+        data: { ...page, items: documentsWithGroups },
+      } as ApiResponse<PaginatedResponse<DocumentWithGroups>>,
       {
         status: 200,
         headers: {
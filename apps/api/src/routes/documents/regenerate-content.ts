@@ -5,16 +5,20 @@
  * Only regenerates if user explicitly requests it.
  * Respects user modifications - only regenerates if source is 'ai_generated'.
  * 
+ * Regeneration runs as a background job; this route returns 202 with the
+ * queued job and the work itself is done by regenerateDocumentContent.
+ * It counts against the user's quotas like processing does, and is
+ * refused with 429 QUOTA_EXCEEDED when over.
+ * 
  * POST /api/documents/:id/regenerate
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
-import { processDocumentWithAI } from '@/lib/ai/claude';
-import { extractTextContent } from '@/lib/ai/processor';
-import { generateSignedUrl } from '@/lib/storage';
-import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { enqueueJob } from '@/lib/jobs';
+import { DocumentStatus, JobType } from '@ai-document-vault/shared';
+import type { Document, ProcessingJob, ApiResponse, ApiError } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { admitDocumentProcessing, QuotaExceededError, quotaExceededResponse } from '@/lib/quotas';
 
 export async function POST(
   request: Request,
@@ -57,6 +61,7 @@ export async function POST(
       .from('documents')
       .select('*')
       .eq('id', documentId)
+      .eq('user_id', userId)
       .single();
 
     if (fetchError || !document) {
@@ -84,104 +89,26 @@ export async function POST(
       );
     }
 
-    // Download and extract text content
-    const signedUrlResult = await generateSignedUrl({
-      path: doc.storage_path,
-      expires_in: 3600,
+    await admitDocumentProcessing({
+      userId,
+      documentId,
+      operation: 'regenerate',
+      pages: doc.estimated_pages ?? 1,
     });
 
-    if (!signedUrlResult.success || !signedUrlResult.data) {
-      return Response.json(
-        {
-          error: 'STORAGE_ERROR',
-          message: 'Failed to generate signed URL for document',
-          code: 'URL_GENERATION_FAILED',
-        } as ApiError,
-        { status: 500 }
-      );
-    }
-
-    const fileResponse = await fetch(signedUrlResult.data.url);
-    if (!fileResponse.ok) {
-      return Response.json(
-        {
-          error: 'STORAGE_ERROR',
-          message: 'Failed to download document file',
-          code: 'DOWNLOAD_FAILED',
-        } as ApiError,
-        { status: 500 }
-      );
-    }
-
-    const fileBuffer = Buffer.from(await fileResponse.arrayBuffer());
-    const textContent = await extractTextContent(fileBuffer, doc.name);
-
-    // Process with AI
-    const aiResult = await processDocumentWithAI(textContent, document.name);
-
-    // Update only the requested content type
-    const updates: Record<string, unknown> = {};
-    if (type === 'summary') {
-      updates.summary = aiResult.summary;
-      updates.summary_source = 'ai_generated';
-    } else {
-      updates.markdown = aiResult.markdown;
-      updates.markdown_source = 'ai_generated';
-    }
-
-    // Using type assertion because Supabase types may not include new columns yet
-    // @ts-ignore - Supabase types don't include summary_source/markdown_source columns yet
-    const { data: updatedDocument, error: updateError } = await supabaseAdmin
-      .from('documents')
-      .update(updates)
-      .eq('id', documentId)
-      .eq('user_id', userId)
-      .select()
-      .single();
-
-    if (updateError) {
-      console.error('Error updating document after regeneration:', updateError);
-      
-      // Check if error is due to missing columns (PGRST204 = column not found)
-      if (updateError.code === 'PGRST204' || (updateError.message && (updateError.message.includes('summary_source') || updateError.message.includes('markdown_source')))) {
-        return Response.json(
-          {
-            error: 'DATABASE_ERROR',
-            message: 'Database migration required: The summary_source and markdown_source columns are missing. Please run the SQL migration in Supabase SQL Editor.',
-            code: 'MIGRATION_REQUIRED',
-          } as ApiError,
-          { 
-            status: 500,
-            headers: {
-              'Access-Control-Allow-Origin': '*',
-              'Content-Type': 'application/json',
-            }
-          }
-        );
-      }
-      
-      return Response.json(
-        {
-          error: 'DATABASE_ERROR',
-          message: 'Failed to update document after regeneration',
-          code: 'UPDATE_FAILED',
-        } as ApiError,
-        { 
-          status: 500,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Content-Type': 'application/json',
-          }
-        }
-      );
-    }
-
+    // Queue regeneration; the client polls GET /api/jobs/:id for completion
+    const job = await enqueueJob(
+      documentId,
+      userId,
+      type === 'summary' ? JobType.REGENERATE_SUMMARY : JobType.REGENERATE_MARKDOWN
+    );
     return Response.json(
       {
-        data: updatedDocument as Document,
-      } as ApiResponse<Document>,
+        data: job,
+        message: `Regeneration of ${type} queued`,
+      } as ApiResponse<ProcessingJob>,
       {
-        status: 200,
+        status: 202,
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Content-Type': 'application/json',
@@ -189,6 +116,10 @@ export async function POST(
       }
     );
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Unexpected error in regenerate content handler:', error);
 
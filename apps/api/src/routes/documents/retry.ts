@@ -1,18 +1,20 @@
 /**
  * Document Retry API Route
  * 
- * Retries AI processing for a failed document.
+ * Retries AI processing for a failed document, or one that was uploaded
+ * while over quota.
  * 
  * Flow:
- * 1. Reset document status to UPLOADED
- * 2. Trigger AI processing again
- * 3. Return updated document
+ * 1. Check the user's quotas (429 QUOTA_EXCEEDED when over)
+ * 2. Reset document status to UPLOADED
+ * 3. Enqueue a processing job
+ * 4. Return updated document
  */
 
 import { retryDocumentProcessing } from '@/lib/ai';
 import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
-import { supabaseAdmin } from '@/lib/supabase';
+import { QuotaExceededError, quotaExceededResponse } from '@/lib/quotas';
 
 /**
  * Retry processing for a document
@@ -41,27 +43,27 @@ export async function POST(
       );
     }
 
-    // Retry processing (async, but we wait for it to start)
-    const document = await retryDocumentProcessing(documentId);
+    // Reset the document and queue it for processing
+    const document = await retryDocumentProcessing(documentId, userId);
 
     if (!document) {
       return Response.json(
         {
-          error: 'PROCESSING_ERROR',
-          message: 'Failed to retry document processing',
-          code: 'RETRY_FAILED',
+          error: 'NOT_FOUND',
+          message: 'Document not found',
+          code: 'DOCUMENT_NOT_FOUND',
         } as ApiError,
-        { status: 500 }
+        { status: 404 }
       );
     }
 
     return Response.json(
       {
         data: document,
-        message: 'Document processing retried successfully',
+        message: 'Document queued for processing',
       } as ApiResponse<Document>,
       {
-        status: 200,
+        status: 202,
         headers: {
           'Access-Control-Allow-Origin': '*',
           'Content-Type': 'application/json',
@@ -69,6 +71,10 @@ export async function POST(
       }
     );
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Unexpected error in retry handler:', error);
 
@@ -0,0 +1,174 @@
+/**
+ * Restore Content Revision API Route
+ *
+ * Writes a revision's content back to the document. The field's source
+ * becomes the revision's source, so restoring an AI revision makes the
+ * field regenerable again. The restore is recorded as a new revision
+ * pointing at the one it restored, so nothing in the log is lost.
+ *
+ * Only revisions of the document's current version can be restored.
+ *
+ * POST /api/documents/:id/revisions/:revisionId/restore
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import { DocumentStatus } from '@ai-document-vault/shared';
+import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { embedDocument } from '@/lib/embeddings';
+import { refreshSmartGroups } from '@/lib/groups';
+import { getContentRevision, recordContentRevisions } from '@/lib/revisions';
+
+/**
+ * Restore a revision of a document's summary or markdown
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string; revisionId: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const { id: documentId, revisionId } = params;
+
+    if (!documentId || !revisionId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID and revision ID are required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: document, error: fetchError } = await supabaseAdmin
+      .from('documents')
+      .select('*')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    const doc = document as Document;
+
+    const revision = await getContentRevision(documentId, revisionId);
+    if (!revision) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Revision not found',
+          code: 'REVISION_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    if (revision.version_number !== (doc.current_version ?? 1)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `Revision belongs to version ${revision.version_number}; only revisions of the current version can be restored`,
+          code: 'REVISION_VERSION_MISMATCH',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    if (doc.status !== DocumentStatus.READY) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document must be in READY status to restore content',
+          code: 'INVALID_STATUS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const updates =
+      revision.field === 'summary'
+        ? { summary: revision.content, summary_source: revision.source }
+        : { markdown: revision.content, markdown_source: revision.source };
+
+    const { data: updatedDocument, error: updateError } = await supabaseAdmin
+      .from('documents')
+      .update(updates)
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (updateError || !updatedDocument) {
+      console.error('Error restoring content revision:', updateError);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to restore revision',
+          code: 'UPDATE_FAILED',
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    await recordContentRevisions(updatedDocument as Document, userId, [
+      {
+        field: revision.field,
+        content: revision.content,
+        source: revision.source,
+        aiModel: revision.ai_model,
+        restoredFrom: revision.id,
+      },
+    ]);
+
+    // Re-embed restored markdown so search and citations match the new text.
+    // The restore is already saved, so a failure here is logged rather than returned.
+    if (revision.field === 'markdown') {
+      try {
+        await embedDocument(documentId, userId, revision.content || '');
+      } catch (embedError) {
+        console.error('Failed to re-embed restored markdown:', { documentId, error: embedError });
+      }
+    }
+
+    await refreshSmartGroups(userId);
+
+    return Response.json(
+      {
+        data: updatedDocument as Document,
+        message: `Restored ${revision.field} from ${new Date(revision.created_at).toISOString()}`,
+      } as ApiResponse<Document>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in restore revision handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * List Content Revisions API Route
+ *
+ * Returns the revision log of a document's summary and markdown, newest
+ * first. Defaults to the current version's revisions; pass version for an
+ * older one and field to list one field only.
+ *
+ * GET /api/documents/:id/revisions?field=summary&version=2&cursor=...&limit=20
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { Document, ContentField, ContentRevisionsResponse, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parsePaginationParams } from '@/lib/pagination';
+import { listContentRevisions } from '@/lib/revisions';
+
+/**
+ * List revisions of a document's content
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const documentId = params.id;
+
+    if (!documentId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const fieldParam = url.searchParams.get('field');
+    const versionParam = url.searchParams.get('version');
+
+    if (fieldParam !== null && fieldParam !== 'summary' && fieldParam !== 'markdown') {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'field must be "summary" or "markdown"',
+          code: 'INVALID_FIELD',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    let versionNumber: number | null = null;
+    if (versionParam !== null) {
+      versionNumber = Number(versionParam);
+      if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+        return Response.json(
+          {
+            error: 'VALIDATION_ERROR',
+            message: 'Version must be a positive integer',
+            code: 'INVALID_VERSION',
+          } as ApiError,
+          { status: 400 }
+        );
+      }
+    }
+
+    const pagination = parsePaginationParams(url);
+    if (pagination instanceof Response) {
+      return pagination;
+    }
+
+    const { data: document, error: fetchError } = await supabaseAdmin
+      .from('documents')
+      .select('id, current_version')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    const page = await listContentRevisions(
+      documentId,
+      {
+        field: (fieldParam as ContentField | null) ?? undefined,
+        version: versionNumber ?? (document as Pick<Document, 'current_version'>).current_version ?? 1,
+      },
+      pagination
+    );
+
+    return Response.json(
+      {
+        data: page,
+      } as ApiResponse<ContentRevisionsResponse>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in list revisions handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
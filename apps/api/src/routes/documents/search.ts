@@ -3,21 +3,209 @@
  * 
  * Searches and filters documents with efficient Supabase queries.
  * 
- * GET /api/documents/search?q=query&status=READY&group_id=uuid
+ * Text queries use Postgres full-text search over name, summary and
+ * markdown (see the search_documents function); results are ranked and
+ * include a highlighted snippet. Filter-only requests return documents
+ * ordered by most recent first. Both are paginated with cursors.
+ * 
+ * mode=semantic ranks documents by embedding similarity to the query
+ * instead (see lib/embeddings), returning the best-matching passage.
+ * Semantic results are a single page of the closest matches.
+ * 
+ * Every mode can also filter on extracted metadata (see lib/search/metadata).
+ * 
+ * GET /api/documents/search?q=query&mode=keyword|semantic&status=READY&group_id=uuid&tag_id=uuid&cursor=...&limit=20
+ * GET /api/documents/search?document_type=contract&date_kind=expires&date_to=2026-12-31
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
 import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import type {
+  Document,
+  DocumentSearchResult,
+  DocumentSearchResponse,
+  SearchMode,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import {
+  parseSearchQuery,
+  parseHeadline,
+  toSemanticSearchResults,
+  parseMetadataFilterParams,
+  applyMetadataFilter,
+} from '@/lib/search';
+import type { SemanticMatchRow, MetadataFilter } from '@/lib/search';
+import { embedQuery } from '@/lib/embeddings';
+import { parsePaginationParams, cursorFilter, toPaginatedResponse } from '@/lib/pagination';
+import type { PageRequest } from '@/lib/pagination';
+
+const MAX_SEMANTIC_RESULTS = 20;
+const SEARCH_MODES: SearchMode[] = ['keyword', 'semantic'];
+
+/**
+ * Row returned by the search_documents database function
+ */
+interface SearchDocumentsRow {
+  document: Document;
+  rank: number;
+  headline: string | null;
+}
+
+const EMPTY_PAGE: DocumentSearchResponse = { items: [], next_cursor: null, has_more: false };
+
+/**
+ * Build a successful search response
+ */
+function searchResponse(page: DocumentSearchResponse): Response {
+  return Response.json(
+    {
+      data: page,
+    } as ApiResponse<DocumentSearchResponse>,
+    {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+/**
+ * Run a ranked full-text search through the search_documents function
+ */
+async function fullTextSearch(
+  userId: string,
+  searchQuery: string,
+  statusFilter: DocumentStatus | null,
+  groupIdFilter: string | null,
+  tagIdFilter: string | null,
+  metadataFilter: MetadataFilter | null,
+  pagination: PageRequest
+): Promise<Response> {
+  const parsed = parseSearchQuery(searchQuery);
+  if (!parsed) {
+    // Nothing searchable (e.g. only punctuation)
+    return searchResponse(EMPTY_PAGE);
+  }
+
+  const { cursor, limit } = pagination;
+  if (cursor && cursor.rank === undefined) {
+    // Cursor from a filter-only listing; it has no rank to resume from
+    return Response.json(
+      {
+        error: 'VALIDATION_ERROR',
+        message: 'Invalid pagination cursor',
+        code: 'INVALID_CURSOR',
+      } as ApiError,
+      { status: 400 }
+    );
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('search_documents', {
+    p_user_id: userId,
+    p_query: parsed.tsquery,
+    p_status: statusFilter,
+    p_group_id: groupIdFilter,
+    p_limit: limit + 1,
+    p_after_rank: cursor?.rank ?? null,
+    p_after_created_at: cursor?.created_at ?? null,
+    p_after_id: cursor?.id ?? null,
+    p_tag_id: tagIdFilter,
+    p_metadata: metadataFilter,
+  });
+
+  if (error) {
+    console.error('Error running full-text search:', { query: parsed.tsquery, error });
+    return Response.json(
+      {
+        error: 'DATABASE_ERROR',
+        message: 'Failed to search documents',
+        code: 'SEARCH_FAILED',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+
+  const results: DocumentSearchResult[] = ((data || []) as SearchDocumentsRow[]).map((row) => ({
+    ...row.document,
+    rank: row.rank,
+    snippet: parseHeadline(row.headline),
+  }));
+
+  return searchResponse(
+    toPaginatedResponse(results, limit, (result) => ({
+      created_at: result.created_at,
+      id: result.id,
+      rank: result.rank,
+    }))
+  );
+}
+
+/**
+ * Rank documents by embedding similarity to the query
+ */
+async function semanticSearch(
+  userId: string,
+  searchQuery: string,
+  statusFilter: DocumentStatus | null,
+  groupIdFilter: string | null,
+  tagIdFilter: string | null,
+  metadataFilter: MetadataFilter | null
+): Promise<Response> {
+  const embedding = await embedQuery(searchQuery);
+  if (!embedding) {
+    return searchResponse(EMPTY_PAGE);
+  }
+
+  const { data, error } = await supabaseAdmin.rpc('match_documents', {
+    p_user_id: userId,
+    p_embedding: embedding.vector,
+    p_embedding_model: embedding.model,
+    p_status: statusFilter,
+    p_group_id: groupIdFilter,
+    p_limit: MAX_SEMANTIC_RESULTS,
+    p_tag_id: tagIdFilter,
+    p_metadata: metadataFilter,
+  });
+
+  if (error) {
+    console.error('Error running semantic search:', { model: embedding.model, error });
+    return Response.json(
+      {
+        error: 'DATABASE_ERROR',
+        message: 'Failed to search documents',
+        code: 'SEARCH_FAILED',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+
+  return searchResponse({
+    items: toSemanticSearchResults((data || []) as SemanticMatchRow[]),
+    next_cursor: null,
+    has_more: false,
+  });
+}
 
 /**
  * Search and filter documents
  * 
  * Query parameters:
- * - q: Search query (searches in name and summary)
+ * - q: Search query over name, summary and markdown. Supports "exact phrases",
+ *   -excluded terms and prefix* matching
+ * - mode: keyword (default) or semantic
  * - status: Filter by document status
  * - group_id: Filter by group membership
+ * - tag_id: Filter by tag
+ * - document_type: Filter by extracted document type (e.g. contract)
+ * - language: Filter by extracted language (ISO 639-1 code)
+ * - date_kind: Only documents with this key date (e.g. expires)
+ * - date_from, date_to: Bound the date_kind date (YYYY-MM-DD, inclusive)
+ * - cursor: next_cursor from the previous page
+ * - limit: Page size (default 20, max 100)
  */
 export async function GET(request: Request): Promise<Response> {
   try {
@@ -29,61 +217,75 @@ export async function GET(request: Request): Promise<Response> {
     const searchQuery = url.searchParams.get('q')?.trim() || '';
     const statusFilter = url.searchParams.get('status') as DocumentStatus | null;
     const groupIdFilter = url.searchParams.get('group_id') || null;
+    const tagIdFilter = url.searchParams.get('tag_id') || null;
+    const mode = (url.searchParams.get('mode') || 'keyword') as SearchMode;
+    const validStatus =
+      statusFilter && Object.values(DocumentStatus).includes(statusFilter) ? statusFilter : null;
+
+    if (!SEARCH_MODES.includes(mode)) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `Invalid search mode. Must be one of: ${SEARCH_MODES.join(', ')}`,
+          code: 'INVALID_SEARCH_MODE',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
 
-    let query = supabaseAdmin.from('documents').select('*').eq('user_id', userId);
+    const pagination = parsePaginationParams(url);
+    if (pagination instanceof Response) {
+      return pagination;
+    }
+
+    const metadataFilter = parseMetadataFilterParams(url);
+    if (metadataFilter instanceof Response) {
+      return metadataFilter;
+    }
+
+    if (searchQuery && mode === 'semantic') {
+      return await semanticSearch(userId, searchQuery, validStatus, groupIdFilter, tagIdFilter, metadataFilter);
+    }
+
+    if (searchQuery) {
+      return await fullTextSearch(userId, searchQuery, validStatus, groupIdFilter, tagIdFilter, metadataFilter, pagination);
+    }
+
+    // Filter by group and tag if specified, via inner joins on the links
+    const joins = [
+      groupIdFilter ? 'document_groups!inner(group_id)' : null,
+      tagIdFilter ? 'document_tags!inner(tag_id)' : null,
+    ].filter(Boolean);
+    let query = supabaseAdmin
+      .from('documents')
+      .select(['*', ...joins].join(', '))
+      .eq('user_id', userId);
 
-    // Filter by group if specified
     if (groupIdFilter) {
-      // Get document IDs in the group
-      const { data: groupMemberships, error: groupError } = await supabaseAdmin
-        .from('document_groups')
-        .select('document_id')
-        .eq('group_id', groupIdFilter);
-
-      if (groupError) {
-        console.error('Error fetching group memberships:', groupError);
-        return Response.json(
-          {
-            error: 'DATABASE_ERROR',
-            message: 'Failed to fetch group documents',
-            code: 'GROUP_FETCH_FAILED',
-          } as ApiError,
-          { status: 500 }
-        );
-      }
-
-      const documentIds = (groupMemberships || []).map((m) => m.document_id);
-      if (documentIds.length === 0) {
-        // No documents in group, return empty result
-        return Response.json(
-          {
-            data: [],
-          } as ApiResponse<Document[]>,
-          { status: 200 }
-        );
-      }
-
-      query = query.in('id', documentIds);
+      query = query.eq('document_groups.group_id', groupIdFilter);
+    }
+    if (tagIdFilter) {
+      query = query.eq('document_tags.tag_id', tagIdFilter);
     }
 
     // Filter by status if specified
-    if (statusFilter && Object.values(DocumentStatus).includes(statusFilter)) {
-      query = query.eq('status', statusFilter);
+    if (validStatus) {
+      query = query.eq('status', validStatus);
     }
 
-    // Search in name and summary if query provided
-    if (searchQuery) {
-      // Supabase text search using ilike (case-insensitive)
-      // Search in both name and summary fields
-      // Escape special characters for ilike
-      const escapedQuery = searchQuery.replace(/[%_\\]/g, '\\$&');
-      query = query.or(`name.ilike.%${escapedQuery}%,summary.ilike.%${escapedQuery}%`);
+    if (metadataFilter) {
+      query = applyMetadataFilter(query, metadataFilter);
     }
 
-    // Order by most recent first
-    query = query.order('created_at', { ascending: false });
+    if (pagination.cursor) {
+      query = query.or(cursorFilter(pagination.cursor));
+    }
 
-    const { data: documents, error } = await query;
+    // Order by most recent first
+    const { data: rows, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pagination.limit + 1);
 
     if (error) {
       console.error('Error searching documents:', error);
@@ -97,17 +299,16 @@ export async function GET(request: Request): Promise<Response> {
       );
     }
 
-    return Response.json(
-      {
-        data: (documents || []) as Document[],
-      } as ApiResponse<Document[]>,
-      {
-        status: 200,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Content-Type': 'application/json',
-        },
-      }
+    // Drop the join columns so items are plain documents
+    const documents: DocumentSearchResult[] = ((rows || []) as unknown as Record<string, unknown>[]).map((row) => {
+      const doc = { ...row };
+      delete doc.document_groups;
+      delete doc.document_tags;
+      return doc as unknown as DocumentSearchResult;
+    });
+
+    return searchResponse(
+      toPaginatedResponse(documents, pagination.limit, (doc) => ({ created_at: doc.created_at, id: doc.id }))
     );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -0,0 +1,106 @@
+/**
+ * Similar documents route
+ *
+ * Documents are embedded with the deterministic local provider
+ * (AI_PROVIDER=fake) into the migrated schema; the route ranks the other
+ * documents by their similarity to the source and never returns the source.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus } from '@ai-document-vault/shared';
+import type { ApiResponse, DocumentSearchResult } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { setAIProvider } from '@/lib/ai';
+import { embedDocument } from '@/lib/embeddings';
+import { GET } from './similar';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('@/lib/supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getUserIdFromRequest: vi.fn(async () => USER_ID),
+}));
+
+let database: TestDatabase;
+
+async function addDocument(name: string, markdown: string): Promise<string> {
+  const { data, error } = await database.client
+    .from('documents')
+    .insert({ user_id: USER_ID, name, storage_path: `${USER_ID}/${name}`, status: DocumentStatus.READY, markdown })
+    .select('id')
+    .single();
+  expect(error).toBeNull();
+
+  const id = (data as { id: string }).id;
+  await embedDocument(id, USER_ID, markdown);
+  return id;
+}
+
+async function similarTo(documentId: string, limit?: number): Promise<DocumentSearchResult[]> {
+  const query = limit === undefined ? '' : `?limit=${limit}`;
+  const response = await GET(new Request(`http://localhost/api/documents/${documentId}/similar${query}`), {
+    params: { id: documentId },
+  });
+
+  expect(response.status).toBe(200);
+  return ((await response.json()) as ApiResponse<DocumentSearchResult[]>).data!;
+}
+
+describe('GET /api/documents/:id/similar', () => {
+  beforeAll(async () => {
+    vi.stubEnv('AI_PROVIDER', 'fake');
+    setAIProvider(null);
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    setAIProvider(null);
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+  });
+
+  it('ranks the other documents by similarity, excluding the source', async () => {
+    const source = await addDocument('invoice.md', 'Invoice from Acme Corp for consulting services in March.');
+    const garden = await addDocument('garden.md', 'Planting schedule for tomatoes and peppers in the spring garden.');
+    const copy = await addDocument('invoice copy.md', 'Invoice from Acme Corp for consulting services in March.');
+    const terms = await addDocument('terms.md', 'Payment terms for consulting work: invoices are due in 30 days.');
+
+    const results = await similarTo(source);
+
+    expect(results.map((result) => result.id)).toEqual([copy, terms, garden]);
+    expect(results[0].rank).toBeCloseTo(1, 5);
+    expect(results[1].rank!).toBeGreaterThan(results[2].rank!);
+  });
+
+  it('returns no neighbours for a document that has not been embedded', async () => {
+    await addDocument('invoice.md', 'Invoice from Acme Corp for consulting services in March.');
+    const { data } = await database.client
+      .from('documents')
+      .insert({ user_id: USER_ID, name: 'new.pdf', storage_path: `${USER_ID}/new.pdf`, status: DocumentStatus.UPLOADED })
+      .select('id')
+      .single();
+
+    expect(await similarTo((data as { id: string }).id)).toEqual([]);
+  });
+
+  it('keeps to the requested limit', async () => {
+    const source = await addDocument('invoice.md', 'Invoice from Acme Corp for consulting services in March.');
+    const copy = await addDocument('invoice copy.md', 'Invoice from Acme Corp for consulting services in March.');
+    await addDocument('terms.md', 'Payment terms for consulting work: invoices are due in 30 days.');
+
+    expect((await similarTo(source, 1)).map((result) => result.id)).toEqual([copy]);
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Similar Documents API Route
+ * 
+ * Lists the documents nearest to a given document by embedding similarity.
+ * The source document is represented by the mean of its chunk embeddings.
+ * 
+ * GET /api/documents/:id/similar?limit=10
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { DocumentSearchResult, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { getAIProvider } from '@/lib/ai';
+import { toSemanticSearchResults } from '@/lib/search';
+import type { SemanticMatchRow } from '@/lib/search';
+
+const DEFAULT_LIMIT = 10;
+const MAX_LIMIT = 50;
+
+/**
+ * Find documents similar to a document
+ * 
+ * Query parameters:
+ * - limit: Maximum results (default 10, max 50)
+ * 
+ * Documents that have not been embedded yet (not processed) have no
+ * neighbours and return an empty list.
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const documentId = params.id;
+
+    if (!documentId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const url = new URL(request.url);
+    const requestedLimit = parseInt(url.searchParams.get('limit') || '', 10);
+    const limit = Number.isNaN(requestedLimit)
+      ? DEFAULT_LIMIT
+      : Math.min(Math.max(requestedLimit, 1), MAX_LIMIT);
+
+    // Verify document exists and belongs to user
+    const { data: document, error: fetchError } = await supabaseAdmin
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    const { data, error } = await supabaseAdmin.rpc('find_similar_documents', {
+      p_document_id: documentId,
+      p_user_id: userId,
+      p_embedding_model: getAIProvider().embeddings.model,
+      p_limit: limit,
+    });
+
+    if (error) {
+      console.error('Error finding similar documents:', { documentId, error });
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to find similar documents',
+          code: 'SIMILAR_FETCH_FAILED',
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: toSemanticSearchResults((data || []) as SemanticMatchRow[]),
+      } as ApiResponse<DocumentSearchResult[]>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in similar documents handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * Reject Suggested Tag API Route
+ * 
+ * Dismisses one of the AI's tag suggestions for a document without
+ * applying it. To accept a suggestion, apply it with
+ * POST /api/documents/:id/tags.
+ * 
+ * DELETE /api/documents/:id/suggested-tags/:name
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { DocumentTags, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { getDocumentTags, removeSuggestedTag } from '@/lib/tags';
+
+/**
+ * Reject a tag suggestion
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; name: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id || !params.name) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID and tag name are required',
+          code: 'MISSING_PARAMS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: document } = await supabaseAdmin
+      .from('documents')
+      .select('id, suggested_tags')
+      .eq('id', params.id)
+      .eq('user_id', userId)
+      .single();
+
+    if (!document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found or access denied',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    const suggested = await removeSuggestedTag(document, params.name);
+    const tags = await getDocumentTags({ id: document.id, suggested_tags: suggested });
+
+    return Response.json(
+      {
+        data: tags,
+        message: 'Tag suggestion dismissed',
+      } as ApiResponse<DocumentTags>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in reject suggested tag handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,252 @@
+/**
+ * Document Tags API Route
+ * 
+ * Manages the tags applied to a document.
+ * 
+ * GET /api/documents/:id/tags - Applied tags and pending AI suggestions
+ * POST /api/documents/:id/tags - Apply a tag by name, creating it if needed
+ * DELETE /api/documents/:id/tags/:tagId - Remove a tag from the document
+ * 
+ * Applying a suggested tag accepts the suggestion. Every response carries
+ * the document's tags and remaining suggestions after the change.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { DocumentTags, TagInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTagName, findOrCreateTag, getDocumentTags, removeSuggestedTag } from '@/lib/tags';
+import { refreshSmartGroups } from '@/lib/groups';
+
+/**
+ * Document fields needed to manage its tags
+ */
+interface TaggedDocument {
+  id: string;
+  suggested_tags: string[] | null;
+}
+
+/**
+ * Load one of the user's documents, or null when it doesn't exist for them
+ */
+async function loadDocument(documentId: string, userId: string): Promise<TaggedDocument | null> {
+  const { data } = await supabaseAdmin
+    .from('documents')
+    .select('id, suggested_tags')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .single();
+
+  return (data as TaggedDocument | null) ?? null;
+}
+
+function missingIdError(): Response {
+  return Response.json(
+    {
+      error: 'VALIDATION_ERROR',
+      message: 'Document ID is required',
+      code: 'MISSING_ID',
+    } as ApiError,
+    { status: 400 }
+  );
+}
+
+function documentNotFoundError(): Response {
+  return Response.json(
+    {
+      error: 'NOT_FOUND',
+      message: 'Document not found or access denied',
+      code: 'DOCUMENT_NOT_FOUND',
+    } as ApiError,
+    { status: 404 }
+  );
+}
+
+function unexpectedError(error: unknown, handler: string): Response {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  console.error(`Unexpected error in ${handler} handler:`, error);
+
+  return Response.json(
+    {
+      error: 'INTERNAL_ERROR',
+      message: errorMessage,
+      code: 'UNEXPECTED_ERROR',
+    } as ApiError,
+    { status: 500 }
+  );
+}
+
+/**
+ * Build a successful response with the document's tags
+ */
+function documentTagsResponse(tags: DocumentTags, status: number, message?: string): Response {
+  return Response.json(
+    {
+      data: tags,
+      message,
+    } as ApiResponse<DocumentTags>,
+    {
+      status,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+/**
+ * Get a document's tags and tag suggestions
+ * 
+ * GET /api/documents/:id/tags
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id) {
+      return missingIdError();
+    }
+
+    const document = await loadDocument(params.id, userId);
+    if (!document) {
+      return documentNotFoundError();
+    }
+
+    return documentTagsResponse(await getDocumentTags(document), 200);
+  } catch (error) {
+    return unexpectedError(error, 'get document tags');
+  }
+}
+
+/**
+ * Apply a tag to a document
+ * 
+ * POST /api/documents/:id/tags
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id) {
+      return missingIdError();
+    }
+
+    const body = await request.json() as TagInput;
+    const parsed = parseTagName(body.name);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: 'INVALID_NAME',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const document = await loadDocument(params.id, userId);
+    if (!document) {
+      return documentNotFoundError();
+    }
+
+    const tag = await findOrCreateTag(userId, parsed.name);
+
+    // Applying an already-applied tag is a no-op
+    const { error } = await supabaseAdmin
+      .from('document_tags')
+      .upsert({ document_id: document.id, tag_id: tag.id }, { onConflict: 'document_id,tag_id', ignoreDuplicates: true });
+
+    if (error) {
+      console.error('Database insert failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to tag document',
+          code: 'DB_INSERT_FAILED',
+          details: { db_error: error.message },
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    const suggested = await removeSuggestedTag(document, tag.name);
+    await refreshSmartGroups(userId);
+
+    return documentTagsResponse(
+      await getDocumentTags({ id: document.id, suggested_tags: suggested }),
+      201,
+      `Tagged document with "${tag.name}"`
+    );
+  } catch (error) {
+    return unexpectedError(error, 'add document tag');
+  }
+}
+
+/**
+ * Remove a tag from a document
+ * 
+ * The tag itself is kept, even when no other document carries it.
+ * 
+ * DELETE /api/documents/:id/tags/:tagId
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string; tagId: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id || !params.tagId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID and tag ID are required',
+          code: 'MISSING_IDS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const document = await loadDocument(params.id, userId);
+    if (!document) {
+      return documentNotFoundError();
+    }
+
+    const { error } = await supabaseAdmin
+      .from('document_tags')
+      .delete()
+      .eq('document_id', document.id)
+      .eq('tag_id', params.tagId);
+
+    if (error) {
+      console.error('Database delete failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to remove tag from document',
+          code: 'DELETE_FAILED',
+          details: { db_error: error.message },
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    await refreshSmartGroups(userId);
+
+    return documentTagsResponse(await getDocumentTags(document), 200, 'Tag removed from document');
+  } catch (error) {
+    return unexpectedError(error, 'remove document tag');
+  }
+}
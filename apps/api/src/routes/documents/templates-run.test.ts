@@ -0,0 +1,104 @@
+/**
+ * Template run route quotas
+ *
+ * Running a document's templates again counts against the user's quotas
+ * like regeneration does; over quota it is refused with 429 and no job is
+ * queued.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus, QUOTA_EXCEEDED } from '@ai-document-vault/shared';
+import type { ApiError } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { POST } from './templates-run';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('@/lib/supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getUserIdFromRequest: vi.fn(async () => USER_ID),
+}));
+
+const jobs = vi.hoisted(() => ({
+  enqueueJob: vi.fn(async (documentId: string) => ({ id: 'job-1', document_id: documentId })),
+}));
+vi.mock('@/lib/jobs', () => jobs);
+
+let database: TestDatabase;
+
+async function insertDocument(): Promise<string> {
+  const { data, error } = await database.client
+    .from('documents')
+    .insert({
+      user_id: USER_ID,
+      name: 'invoice.pdf',
+      storage_path: `${USER_ID}/invoice.pdf`,
+      status: DocumentStatus.READY,
+      estimated_pages: 3,
+    })
+    .select('id')
+    .single();
+
+  expect(error).toBeNull();
+  return (data as { id: string }).id;
+}
+
+function runTemplates(documentId: string): Promise<Response> {
+  return POST(new Request(`http://localhost/api/documents/${documentId}/templates/run`, { method: 'POST' }), {
+    params: { id: documentId },
+  });
+}
+
+async function admissions(): Promise<Array<{ operation: string; pages: number }>> {
+  const { data } = await database.client.from('ai_quota_admissions').select('operation, pages');
+  return data as Array<{ operation: string; pages: number }>;
+}
+
+describe('POST /api/documents/:id/templates/run', () => {
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    vi.clearAllMocks();
+  });
+
+  it('refuses the run with QUOTA_EXCEEDED when the page limit has no room', async () => {
+    const documentId = await insertDocument();
+    await database.client.from('user_quotas').insert({ user_id: USER_ID, pages_per_month: 2 });
+
+    const response = await runTemplates(documentId);
+
+    expect(response.status).toBe(429);
+    const body = (await response.json()) as ApiError;
+    expect(body.code).toBe(QUOTA_EXCEEDED);
+    expect(body.details).toMatchObject({ exceeded: ['pages_per_month'] });
+    expect(jobs.enqueueJob).not.toHaveBeenCalled();
+    expect(await admissions()).toEqual([]);
+  });
+
+  it("queues the run and counts the document's pages while there is room", async () => {
+    const documentId = await insertDocument();
+    await database.client.from('user_quotas').insert({ user_id: USER_ID, pages_per_month: 10 });
+
+    const response = await runTemplates(documentId);
+
+    expect(response.status).toBe(202);
+    expect(jobs.enqueueJob).toHaveBeenCalledOnce();
+    expect(await admissions()).toEqual([{ operation: 'regenerate', pages: 3 }]);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Run Document Templates API Route
+ * 
+ * Runs a document's extraction templates again, replacing their results.
+ * Runs as a background job; this route returns 202 with the queued job
+ * and the work itself is done by rerunDocumentTemplates.
+ * It counts against the user's quotas like regeneration does, and is
+ * refused with 429 QUOTA_EXCEEDED when over.
+ * 
+ * POST /api/documents/:id/templates/run
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import { enqueueJob } from '@/lib/jobs';
+import { DocumentStatus, JobType } from '@ai-document-vault/shared';
+import type { ProcessingJob, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { admitDocumentProcessing, QuotaExceededError, quotaExceededResponse } from '@/lib/quotas';
+
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const documentId = params.id;
+
+    if (!documentId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: document } = await supabaseAdmin
+      .from('documents')
+      .select('id, status, estimated_pages')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (!document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found or access denied',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    // Templates run against processed documents; processing runs them anyway
+    if (document.status !== DocumentStatus.READY) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: 'Document must be in READY status to run templates',
+          code: 'INVALID_STATUS',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    await admitDocumentProcessing({
+      userId,
+      documentId,
+      operation: 'regenerate',
+      pages: document.estimated_pages ?? 1,
+    });
+
+    // The client polls GET /api/jobs/:id for completion
+    const job = await enqueueJob(documentId, userId, JobType.RUN_TEMPLATES);
+    return Response.json(
+      {
+        data: job,
+        message: 'Template run queued',
+      } as ApiResponse<ProcessingJob>,
+      {
+        status: 202,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in run document templates handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
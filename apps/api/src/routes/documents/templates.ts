@@ -0,0 +1,170 @@
+/**
+ * Document Templates API Route
+ * 
+ * Manages the extraction templates that run for a document.
+ * 
+ * GET /api/documents/:id/templates - Assigned templates and latest results
+ * PUT /api/documents/:id/templates - Replace the document's own templates
+ * 
+ * Templates assigned through the document's groups are listed separately
+ * and are changed on the group. Assigning templates doesn't run them; they
+ * run when the document is next processed or with
+ * POST /api/documents/:id/templates/run.
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { DocumentTemplates, TemplateAssignmentInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTemplateIds, resolveTemplateIds, getDocumentTemplates, setDocumentTemplates } from '@/lib/templates';
+
+/**
+ * Whether the user owns the document
+ */
+async function documentExists(documentId: string, userId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('documents')
+    .select('id')
+    .eq('id', documentId)
+    .eq('user_id', userId)
+    .single();
+
+  return !!data;
+}
+
+function missingIdError(): Response {
+  return Response.json(
+    {
+      error: 'VALIDATION_ERROR',
+      message: 'Document ID is required',
+      code: 'MISSING_ID',
+    } as ApiError,
+    { status: 400 }
+  );
+}
+
+function documentNotFoundError(): Response {
+  return Response.json(
+    {
+      error: 'NOT_FOUND',
+      message: 'Document not found or access denied',
+      code: 'DOCUMENT_NOT_FOUND',
+    } as ApiError,
+    { status: 404 }
+  );
+}
+
+function unexpectedError(error: unknown, handler: string): Response {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  console.error(`Unexpected error in ${handler} handler:`, error);
+
+  return Response.json(
+    {
+      error: 'INTERNAL_ERROR',
+      message: errorMessage,
+      code: 'UNEXPECTED_ERROR',
+    } as ApiError,
+    { status: 500 }
+  );
+}
+
+/**
+ * Build a successful response with the document's templates
+ */
+function documentTemplatesResponse(templates: DocumentTemplates, message?: string): Response {
+  return Response.json(
+    {
+      data: templates,
+      message,
+    } as ApiResponse<DocumentTemplates>,
+    {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+/**
+ * Get a document's templates and their latest results
+ * 
+ * GET /api/documents/:id/templates
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id) {
+      return missingIdError();
+    }
+
+    if (!await documentExists(params.id, userId)) {
+      return documentNotFoundError();
+    }
+
+    return documentTemplatesResponse(await getDocumentTemplates(params.id));
+  } catch (error) {
+    return unexpectedError(error, 'get document templates');
+  }
+}
+
+/**
+ * Replace the templates assigned directly to a document
+ * 
+ * PUT /api/documents/:id/templates
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id) {
+      return missingIdError();
+    }
+
+    const body = await request.json() as Partial<TemplateAssignmentInput> | null;
+    const parsed = parseTemplateIds(body?.template_ids);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: 'INVALID_TEMPLATE_IDS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (!await documentExists(params.id, userId)) {
+      return documentNotFoundError();
+    }
+
+    const templateIds = await resolveTemplateIds(userId, parsed.templateIds);
+    if (!templateIds) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'One or more templates were not found',
+          code: 'INVALID_TEMPLATE_IDS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    await setDocumentTemplates(params.id, templateIds);
+
+    return documentTemplatesResponse(await getDocumentTemplates(params.id), 'Document templates updated');
+  } catch (error) {
+    return unexpectedError(error, 'update document templates');
+  }
+}
@@ -3,13 +3,19 @@
  * 
  * Allows users to edit AI-generated summary or markdown content.
  * Updates content source to 'user_modified' to prevent auto-overwriting.
+ * Each edited field is recorded in the content revision log.
  * 
  * PATCH /api/documents/:id/content
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
+import { ContentSource } from '@ai-document-vault/shared';
 import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { embedDocument } from '@/lib/embeddings';
+import { refreshSmartGroups } from '@/lib/groups';
+import { recordContentRevisions } from '@/lib/revisions';
+import type { ContentRevisionInput } from '@/lib/revisions';
 
 export async function PATCH(
   request: Request,
@@ -125,6 +131,27 @@ export async function PATCH(
       );
     }
 
+    const revisions: ContentRevisionInput[] = [];
+    if (summary !== undefined) {
+      revisions.push({ field: 'summary', content: updates.summary ?? null, source: ContentSource.USER_MODIFIED });
+    }
+    if (markdown !== undefined) {
+      revisions.push({ field: 'markdown', content: updates.markdown ?? null, source: ContentSource.USER_MODIFIED });
+    }
+    await recordContentRevisions(updatedDocument as Document, userId, revisions);
+
+    // Re-embed edited markdown so search and citations match the new text.
+    // The edit is already saved, so a failure here is logged rather than returned.
+    if (markdown !== undefined) {
+      try {
+        await embedDocument(documentId, userId, updates.markdown || '');
+      } catch (embedError) {
+        console.error('Failed to re-embed edited markdown:', { documentId, error: embedError });
+      }
+    }
+
+    await refreshSmartGroups(userId);
+
     return Response.json(
       {
         data: updatedDocument as Document,
@@ -1,9 +1,14 @@
-import { supabaseAdmin } from '@/lib/supabase';
-import { uploadFile, initializeStorage } from '@/lib/storage';
-import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
-import { estimateProcessingCost } from '@/lib/ai/cost-estimation';
+import { initializeStorage } from '@/lib/storage';
+import type { ApiError } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import {
+  validateUploadFile,
+  isDuplicateAction,
+  storeUploadedDocument,
+  bufferedUploadContent,
+  uploadedDocumentResponse,
+  parseUploadTemplateIds,
+} from '@/lib/uploads';
 
 export async function POST(request: Request): Promise<Response> {
   const userId = await getUserIdFromRequest(request);
@@ -45,150 +50,51 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
-    if (!file.name || file.name.trim() === '') {
-      return Response.json(
-        {
-          error: 'VALIDATION_ERROR',
-          message: 'File name is required.',
-          code: 'INVALID_FILENAME',
-        } as ApiError,
-        { 
-          status: 400,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+    const validationError = validateUploadFile(file);
+    if (validationError) {
+      return Response.json(validationError, {
+        status: 400,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      });
     }
 
-    const allowedMimeTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
-    
-    const allowedExtensions = ['.pdf', '.doc', '.docx'];
-    
-    const fileName = file.name.toLowerCase();
-    const fileExtension = fileName.substring(fileName.lastIndexOf('.'));
-    
-    const isValidMimeType = file.type && allowedMimeTypes.includes(file.type);
-    const isValidExtension = allowedExtensions.includes(fileExtension);
-    
-    if (!isValidMimeType || !isValidExtension) {
+    const onDuplicate = formData.get('on_duplicate');
+    if (onDuplicate !== null && !isDuplicateAction(onDuplicate)) {
       return Response.json(
         {
           error: 'VALIDATION_ERROR',
-          message: 'Invalid file type. Only PDF (.pdf), Word (.doc), and Word (.docx) files are allowed.',
-          code: 'INVALID_FILE_TYPE',
-          details: {
-            provided_mime_type: file.type || 'unknown',
-            provided_extension: fileExtension || 'none',
-            allowed_types: allowedMimeTypes,
-            allowed_extensions: allowedExtensions,
-          },
+          message: 'on_duplicate must be one of: link, skip, new_version',
+          code: 'INVALID_DUPLICATE_ACTION',
         } as ApiError,
-        { 
-          status: 400,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Content-Type': 'application/json',
-          },
-        }
+        { status: 400 }
       );
     }
 
-    const maxFileSize = 100 * 1024 * 1024;
-    if (file.size > maxFileSize) {
-      return Response.json(
-        {
-          error: 'VALIDATION_ERROR',
-          message: `File size exceeds ${maxFileSize / 1024 / 1024}MB limit.`,
-          code: 'FILE_TOO_LARGE',
-        } as ApiError,
-        { 
-          status: 400,
-          headers: {
-            'Access-Control-Allow-Origin': '*',
-            'Content-Type': 'application/json',
-          },
-        }
-      );
+    // Repeated template_ids fields, one template id each
+    const templateIds = formData.has('template_ids')
+      ? await parseUploadTemplateIds(userId, formData.getAll('template_ids'))
+      : [];
+    if (templateIds instanceof Response) {
+      return templateIds;
     }
 
     const arrayBuffer = await file.arrayBuffer();
     const fileBuffer = Buffer.from(arrayBuffer);
 
-    const uploadResult = await uploadFile({
-      file: fileBuffer,
-      filename: file.name,
-      content_type: file.type || 'application/octet-stream',
-    });
-
-    if (!uploadResult.success) {
-      return Response.json(
-        {
-          error: uploadResult.error.error,
-          message: uploadResult.error.message || 'Failed to upload file to storage',
-          code: uploadResult.error.code || 'STORAGE_UPLOAD_FAILED',
-        } as ApiError,
-        { status: 500 }
-      );
+    const stored = await storeUploadedDocument(userId, file, bufferedUploadContent(file, fileBuffer), onDuplicate, requestId, templateIds);
+    if (!stored.success) {
+      return Response.json(stored.error, { status: stored.status });
     }
-    
-    const { data: document, error: dbError } = await supabaseAdmin
-      .from('documents')
-      .insert({
-        user_id: userId,
-        name: file.name,
-        storage_path: uploadResult.data.path,
-        status: DocumentStatus.UPLOADED,
-      })
-      .select()
-      .single();
-
-    if (dbError || !document) {
-      try {
-        const { deleteFile } = await import('@/lib/storage');
-        await deleteFile(uploadResult.data.path);
-      } catch (cleanupError) {
-        // Silent cleanup failure
-      }
 
-      return Response.json(
-        {
-          error: 'DATABASE_ERROR',
-          message: 'Failed to create document record. The file was uploaded but could not be registered.',
-          code: 'DB_INSERT_FAILED',
-          details: { db_error: dbError?.message || 'Unknown database error' },
-        } as ApiError,
-        { status: 500 }
-      );
-    }
-
-    const costEstimate = estimateProcessingCost(file.size, file.name);
-
-    processDocumentAsync(document.id).catch(() => {
-      // Silent background processing failure
-    });
-
-    return Response.json(
-      {
-        data: document as Document,
-        message: 'Document uploaded successfully',
-        costEstimate: costEstimate.isLargeDocument ? {
-          processingMessage: costEstimate.processingMessage,
-          estimatedPages: costEstimate.estimatedPages,
-        } : undefined,
-      } as ApiResponse<Document> & { costEstimate?: { processingMessage: string; estimatedPages: number } },
-      {
-        status: 201,
-        headers: {
-          'Access-Control-Allow-Origin': '*',
-          'Content-Type': 'application/json',
-        },
-      }
+    return uploadedDocumentResponse(
+      stored.document,
+      stored.costEstimate,
+      stored.status,
+      stored.message,
+      stored.quotaExceeded
     );
   } catch (error) {
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -205,15 +111,6 @@ export async function POST(request: Request): Promise<Response> {
   }
 }
 
-async function processDocumentAsync(documentId: string): Promise<void> {
-  try {
-    const { processDocument } = await import('@/lib/ai');
-    await processDocument(documentId);
-  } catch (error) {
-    // Silent background processing failure
-  }
-}
-
 export async function OPTIONS(): Promise<Response> {
   return new Response(null, {
     status: 204,
@@ -0,0 +1,117 @@
+/**
+ * Get Document Version API Route
+ * 
+ * Returns one version of a document with its own summary and markdown and
+ * a signed URL for that version's file.
+ * 
+ * GET /api/documents/:id/versions/:version
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import { generateSignedUrl } from '@/lib/storage';
+import type { DocumentVersionWithUrl, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { getDocumentVersion } from '@/lib/versions';
+
+/**
+ * Get a version of a document
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string; version: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const documentId = params.id;
+    const versionNumber = Number(params.version);
+
+    if (!documentId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(versionNumber) || versionNumber < 1) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Version must be a positive integer',
+          code: 'INVALID_VERSION',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: document, error: fetchError } = await supabaseAdmin
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    const version = !fetchError && document ? await getDocumentVersion(documentId, versionNumber) : null;
+
+    if (!version) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document version not found',
+          code: 'VERSION_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    // Generate signed URL for this version's file
+    let signedUrl: string | null = null;
+    try {
+      const urlResult = await generateSignedUrl({
+        path: version.storage_path,
+        expires_in: 3600, // 1 hour
+      });
+
+      if (urlResult.success) {
+        signedUrl = urlResult.data.url;
+      }
+    } catch (urlError) {
+      // Log but don't fail - signed URL generation is optional
+      console.error('Failed to generate signed URL:', urlError);
+    }
+
+    return Response.json(
+      {
+        data: {
+          ...version,
+          signed_url: signedUrl,
+        },
+      } as ApiResponse<DocumentVersionWithUrl>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in get version handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,86 @@
+/**
+ * List Document Versions API Route
+ * 
+ * Returns a document's version history, newest first. Each entry has the
+ * version's filename, uploader, upload time, status and summary; fetch a
+ * single version for its markdown.
+ * 
+ * GET /api/documents/:id/versions
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { DocumentVersionInfo, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { listDocumentVersions } from '@/lib/versions';
+
+/**
+ * List versions of a document
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const documentId = params.id;
+
+    if (!documentId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: document, error: fetchError } = await supabaseAdmin
+      .from('documents')
+      .select('id')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    const versions = await listDocumentVersions(documentId);
+
+    return Response.json(
+      {
+        data: versions,
+      } as ApiResponse<DocumentVersionInfo[]>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in list versions handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
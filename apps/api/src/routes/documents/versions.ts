@@ -0,0 +1,110 @@
+/**
+ * Upload Document Version API Route
+ * 
+ * Stores a new file revision of an existing document. The document keeps
+ * its id, group memberships and earlier versions; it is reset to UPLOADED
+ * and the new file is queued for processing.
+ * 
+ * POST /api/documents/:id/versions
+ * Body: multipart form with a "file" field
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import { initializeStorage } from '@/lib/storage';
+import type { Document, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { validateUploadFile, storeDocumentVersion, bufferedUploadContent, uploadedDocumentResponse } from '@/lib/uploads';
+
+/**
+ * Upload a new version of a document
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  const requestId = `upload-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const documentId = params.id;
+
+    if (!documentId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Document ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: document, error: fetchError } = await supabaseAdmin
+      .from('documents')
+      .select('*')
+      .eq('id', documentId)
+      .eq('user_id', userId)
+      .single();
+
+    if (fetchError || !document) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Document not found',
+          code: 'DOCUMENT_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    await initializeStorage();
+    const formData = await request.formData();
+    const file = formData.get('file') as File | null;
+
+    if (!file) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'No file provided. Please include a file in the "file" field.',
+          code: 'MISSING_FILE',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const validationError = validateUploadFile(file);
+    if (validationError) {
+      return Response.json(validationError, { status: 400 });
+    }
+
+    const fileBuffer = Buffer.from(await file.arrayBuffer());
+
+    const stored = await storeDocumentVersion(userId, document as Document, file, bufferedUploadContent(file, fileBuffer), requestId);
+    if (!stored.success) {
+      return Response.json(stored.error, { status: stored.status });
+    }
+
+    return uploadedDocumentResponse(
+      stored.document,
+      stored.costEstimate,
+      stored.status,
+      stored.message,
+      stored.quotaExceeded
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Upload ${requestId}] Unexpected error in upload version handler:`, error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -1,15 +1,19 @@
 /**
  * Create Group API Route
  * 
- * Creates a new group (manual or AI-suggested).
+ * Creates a new group (manual, AI-suggested or smart). Smart groups need
+ * rules and are populated from them before the response is sent.
+ * parent_id creates the group inside another of the user's groups.
+ * Names must be unique per user, ignoring case.
  * 
  * POST /api/groups
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
 import { GroupType } from '@ai-document-vault/shared';
-import type { Group, ApiResponse, ApiError, GroupInput } from '@ai-document-vault/shared';
+import type { Group, ApiResponse, ApiError, GroupInput, SmartGroupRules } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseSmartGroupRules, evaluateSmartGroup, parseGroupDetails, isGroupNameTaken } from '@/lib/groups';
 
 /**
  * Create a new group
@@ -34,13 +38,98 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    const name = body.name.trim();
+    if (await isGroupNameTaken(userId, name)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `A group named "${name}" already exists`,
+          code: 'DUPLICATE_GROUP_NAME',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    const parsedDetails = parseGroupDetails({ description: body.description, color: body.color, icon: body.icon });
+    if ('error' in parsedDetails) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsedDetails.error,
+          code: 'INVALID_DETAILS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const type = body.type || GroupType.MANUAL;
+    if (!Object.values(GroupType).includes(type)) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `Invalid group type: ${type}`,
+          code: 'INVALID_TYPE',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    let rules: SmartGroupRules | null = null;
+    if (type === GroupType.SMART) {
+      const parsed = parseSmartGroupRules(body.rules);
+      if ('error' in parsed) {
+        return Response.json(
+          {
+            error: 'VALIDATION_ERROR',
+            message: parsed.error,
+            code: 'INVALID_RULES',
+          } as ApiError,
+          { status: 400 }
+        );
+      }
+      rules = parsed.rules;
+    } else if (body.rules !== undefined) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Only smart groups have rules',
+          code: 'INVALID_RULES',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const parentId = body.parent_id || null;
+    if (parentId) {
+      const { data: parent } = await supabaseAdmin
+        .from('groups')
+        .select('id')
+        .eq('id', parentId)
+        .eq('user_id', userId)
+        .single();
+
+      if (!parent) {
+        return Response.json(
+          {
+            error: 'NOT_FOUND',
+            message: 'Parent group not found or access denied',
+            code: 'PARENT_NOT_FOUND',
+          } as ApiError,
+          { status: 404 }
+        );
+      }
+    }
+
     // Create group
     const { data: group, error } = await supabaseAdmin
       .from('groups')
       .insert({
         user_id: userId,
-        name: body.name.trim(),
-        type: body.type || GroupType.MANUAL,
+        name,
+        ...parsedDetails.details,
+        type,
+        rules,
+        parent_id: parentId,
       })
       .select()
       .single();
@@ -58,6 +147,15 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    // Populate the smart group now so it isn't empty until documents change
+    if (rules) {
+      try {
+        await evaluateSmartGroup({ id: group.id, name: group.name, user_id: userId, rules });
+      } catch (evaluateError) {
+        console.error('Failed to populate smart group:', { groupId: group.id, error: evaluateError });
+      }
+    }
+
     return Response.json(
       {
         data: group as Group,
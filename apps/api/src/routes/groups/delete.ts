@@ -1,14 +1,19 @@
 /**
  * Delete Group API Route
  * 
- * Deletes a group and removes all document associations.
+ * Deletes a group and removes all document associations. Its child groups
+ * either move up to its parent (children=reparent, the default) or are
+ * deleted with it, along with all their descendants (children=cascade).
  * 
- * DELETE /api/groups/:id
+ * DELETE /api/groups/:id?children=reparent|cascade
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
-import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
+import type { ApiResponse, ApiError, GroupChildrenAction } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { loadGroupTree, collectDescendantIds } from '@/lib/groups';
+
+const CHILDREN_ACTIONS: GroupChildrenAction[] = ['cascade', 'reparent'];
 
 /**
  * Delete a group
@@ -35,11 +40,50 @@ export async function DELETE(
       );
     }
 
-    // Delete user's group (cascade will handle document_groups)
+    const childrenAction = (new URL(request.url).searchParams.get('children') || 'reparent') as GroupChildrenAction;
+    if (!CHILDREN_ACTIONS.includes(childrenAction)) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `children must be one of: ${CHILDREN_ACTIONS.join(', ')}`,
+          code: 'INVALID_CHILDREN_ACTION',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const groups = await loadGroupTree(userId);
+    const group = groups.find((g) => g.id === groupId);
+    let deletedIds = [groupId];
+
+    if (group && childrenAction === 'cascade') {
+      deletedIds = [groupId, ...collectDescendantIds(groups, groupId)];
+    } else if (group) {
+      const { error: reparentError } = await supabaseAdmin
+        .from('groups')
+        .update({ parent_id: group.parent_id })
+        .eq('parent_id', groupId)
+        .eq('user_id', userId);
+
+      if (reparentError) {
+        console.error('Failed to move child groups:', reparentError);
+        return Response.json(
+          {
+            error: 'DATABASE_ERROR',
+            message: 'Failed to move child groups',
+            code: 'REPARENT_FAILED',
+            details: { db_error: reparentError.message },
+          } as ApiError,
+          { status: 500 }
+        );
+      }
+    }
+
+    // Delete user's groups (cascade will handle document_groups)
     const { error: deleteError } = await supabaseAdmin
       .from('groups')
       .delete()
-      .eq('id', groupId)
+      .in('id', deletedIds)
       .eq('user_id', userId);
 
     if (deleteError) {
@@ -57,9 +101,11 @@ export async function DELETE(
 
     return Response.json(
       {
-        data: { id: groupId },
-        message: 'Group deleted successfully',
-      } as ApiResponse<{ id: string }>,
+        data: { id: groupId, deleted_ids: deletedIds },
+        message: deletedIds.length > 1
+          ? `Deleted group and ${deletedIds.length - 1} subgroup(s)`
+          : 'Group deleted successfully',
+      } as ApiResponse<{ id: string; deleted_ids: string[] }>,
       {
         status: 200,
         headers: {
@@ -1,14 +1,21 @@
 /**
  * Get Documents in Group API Route
  * 
- * Fetches all documents belonging to a specific group.
+ * Fetches documents belonging to a specific group, newest first,
+ * one page at a time. Smart groups are re-evaluated when the first page
+ * is requested, so their membership reflects the rules at that moment.
+ * With include_descendants=true, documents in any subgroup are included
+ * too (each document once).
  * 
- * GET /api/groups/:id/documents
+ * GET /api/groups/:id/documents?cursor=...&limit=20&include_descendants=true
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
-import type { Document, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { GroupType } from '@ai-document-vault/shared';
+import type { Document, ApiResponse, ApiError, GroupDocumentsResponse, SmartGroupRules } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { evaluateSmartGroup, loadGroupTree, collectDescendantIds } from '@/lib/groups';
+import { parsePaginationParams, cursorFilter, toPaginatedResponse } from '@/lib/pagination';
 
 /**
  * Get documents in a group
@@ -36,12 +43,8 @@ export async function GET(
     }
 
     // Verify group belongs to user
-    const { data: group } = await supabaseAdmin
-      .from('groups')
-      .select('id')
-      .eq('id', groupId)
-      .eq('user_id', userId)
-      .single();
+    const groups = await loadGroupTree(userId);
+    const group = groups.find((g) => g.id === groupId);
 
     if (!group) {
       return Response.json(
@@ -54,25 +57,50 @@ export async function GET(
       );
     }
 
-    // Get user's documents in the group via join
-    const { data: memberships, error } = await supabaseAdmin
-      .from('document_groups')
-      .select(`
-        document_id,
-        documents!inner (
-          id,
-          name,
-          storage_path,
-          summary,
-          markdown,
-          status,
-          ai_model,
-          created_at
-        )
-      `)
-      .eq('group_id', groupId)
-      .eq('documents.user_id', userId)
-      .order('created_at', { ascending: false });
+    const url = new URL(request.url);
+    const pagination = parsePaginationParams(url);
+    if (pagination instanceof Response) {
+      return pagination;
+    }
+
+    const groupIds = url.searchParams.get('include_descendants') === 'true'
+      ? [groupId, ...collectDescendantIds(groups, groupId)]
+      : [groupId];
+
+    // Later pages keep the membership the first page saw
+    if (!pagination.cursor) {
+      const smartGroups = groups.filter(
+        (g) => groupIds.includes(g.id) && g.type === GroupType.SMART && g.rules
+      );
+      for (const smartGroup of smartGroups) {
+        try {
+          await evaluateSmartGroup({
+            id: smartGroup.id,
+            name: smartGroup.name,
+            user_id: userId,
+            rules: smartGroup.rules as SmartGroupRules,
+          });
+        } catch (evaluateError) {
+          console.error('Failed to evaluate smart group:', { groupId: smartGroup.id, error: evaluateError });
+        }
+      }
+    }
+
+    // Get user's documents in the group via an inner join on memberships
+    let query = supabaseAdmin
+      .from('documents')
+      .select('*, document_groups!inner(group_id)')
+      .eq('user_id', userId)
+      .in('document_groups.group_id', groupIds);
+
+    if (pagination.cursor) {
+      query = query.or(cursorFilter(pagination.cursor));
+    }
+
+    const { data: rows, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pagination.limit + 1);
 
     if (error) {
       console.error('Error fetching group documents:', error);
@@ -86,23 +114,21 @@ export async function GET(
       );
     }
 
-    // Extract documents from join result
-    // Supabase returns documents as a single object (not array) for one-to-many relationships
-    const groupDocuments: Document[] = [];
-    (memberships || []).forEach((membership: any) => {
-      if (membership.documents) {
-        // Supabase returns a single document object, not an array
-        const doc = membership.documents;
-        if (doc && doc.id) {
-          groupDocuments.push(doc as Document);
-        }
-      }
+    // Drop the join column so items are plain documents
+    const groupDocuments: Document[] = (rows || []).map((row) => {
+      const doc = { ...row };
+      delete doc.document_groups;
+      return doc as Document;
     });
 
     return Response.json(
       {
-        data: groupDocuments,
-      } as ApiResponse<Document[]>,
+        data: toPaginatedResponse(
+          groupDocuments,
+          pagination.limit,
+          (doc) => ({ created_at: doc.created_at, id: doc.id })
+        ),
+      } as ApiResponse<GroupDocumentsResponse>,
       {
         status: 200,
         headers: {
@@ -5,12 +5,29 @@
  * 
  * POST /api/groups/:id/documents - Add document to group
  * DELETE /api/groups/:id/documents/:documentId - Remove document from group
+ * 
+ * Smart groups are populated from their rules and reject both.
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
+import { GroupType } from '@ai-document-vault/shared';
 import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
 
+/**
+ * 409 for manual membership changes to a smart group
+ */
+function smartGroupMembershipError(): Response {
+  return Response.json(
+    {
+      error: 'CONFLICT',
+      message: 'Smart group membership is computed from its rules and cannot be changed by hand',
+      code: 'SMART_GROUP_MEMBERSHIP',
+    } as ApiError,
+    { status: 409 }
+  );
+}
+
 /**
  * Add document to group
  * 
@@ -42,7 +59,7 @@ export async function POST(
     // Verify group belongs to user
     const { data: group } = await supabaseAdmin
       .from('groups')
-      .select('id')
+      .select('id, type')
       .eq('id', groupId)
       .eq('user_id', userId)
       .single();
@@ -58,6 +75,10 @@ export async function POST(
       );
     }
 
+    if (group.type === GroupType.SMART) {
+      return smartGroupMembershipError();
+    }
+
     // Verify document belongs to user
     const { data: document } = await supabaseAdmin
       .from('documents')
@@ -176,7 +197,7 @@ export async function DELETE(
     // Verify group belongs to user
     const { data: group } = await supabaseAdmin
       .from('groups')
-      .select('id')
+      .select('id, type')
       .eq('id', groupId)
       .eq('user_id', userId)
       .single();
@@ -192,6 +213,10 @@ export async function DELETE(
       );
     }
 
+    if (group.type === GroupType.SMART) {
+      return smartGroupMembershipError();
+    }
+
     // Verify document belongs to user
     const { data: document } = await supabaseAdmin
       .from('documents')
@@ -1,18 +1,20 @@
 /**
  * List Groups API Route
  * 
- * Fetches all groups with optional filtering.
+ * Fetches the user's groups with optional filtering, newest first,
+ * one page at a time.
  * 
- * GET /api/groups?type=MANUAL|AI_SUGGESTED|SMART
+ * GET /api/groups?type=MANUAL|AI_SUGGESTED|SMART&cursor=...&limit=20
  */
 
 import { supabaseAdmin } from '@/lib/supabase';
 import { GroupType } from '@ai-document-vault/shared';
-import type { Group, ApiResponse } from '@ai-document-vault/shared';
+import type { Group, ApiResponse, GroupsResponse } from '@ai-document-vault/shared';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parsePaginationParams, cursorFilter, toPaginatedResponse } from '@/lib/pagination';
 
 /**
- * Get all groups
+ * Get a page of groups
  */
 export async function GET(request: Request): Promise<Response> {
   try {
@@ -22,19 +24,29 @@ export async function GET(request: Request): Promise<Response> {
 
     const url = new URL(request.url);
     const typeFilter = url.searchParams.get('type') as GroupType | null;
+    const pagination = parsePaginationParams(url);
+    if (pagination instanceof Response) {
+      return pagination;
+    }
 
     let query = supabaseAdmin
       .from('groups')
       .select('*')
-      .eq('user_id', userId)
-      .order('created_at', { ascending: false });
+      .eq('user_id', userId);
 
     // Filter by type if provided
     if (typeFilter && Object.values(GroupType).includes(typeFilter)) {
       query = query.eq('type', typeFilter);
     }
 
-    const { data: groups, error } = await query;
+    if (pagination.cursor) {
+      query = query.or(cursorFilter(pagination.cursor));
+    }
+
+    const { data: groups, error } = await query
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(pagination.limit + 1);
 
     if (error) {
       console.error('Error fetching groups:', error);
@@ -50,8 +62,12 @@ export async function GET(request: Request): Promise<Response> {
 
     return Response.json(
       {
-        data: (groups || []) as Group[],
-      } as ApiResponse<Group[]>,
+        data: toPaginatedResponse(
+          (groups || []) as Group[],
+          pagination.limit,
+          (group) => ({ created_at: group.created_at, id: group.id })
+        ),
+      } as ApiResponse<GroupsResponse>,
       {
         status: 200,
         headers: {
@@ -2,7 +2,8 @@
  * AI Group Suggestions API Route
  * 
  * Analyzes documents and suggests groups based on semantic similarity.
- * Never auto-assigns - only suggests groups for user approval.
+ * Never auto-assigns - only suggests groups for user approval. Refused
+ * with 429 QUOTA_EXCEEDED once the user's monthly AI budget is used up.
  * 
  * POST /api/groups/suggest
  */
@@ -10,8 +11,11 @@
 import { supabaseAdmin } from '@/lib/supabase';
 import { GroupType } from '@ai-document-vault/shared';
 import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
-import Anthropic from '@anthropic-ai/sdk';
 import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { getAIProvider, ProcessingError } from '@/lib/ai';
+import type { StructuredOutputTool, UsageListener } from '@/lib/ai';
+import { createUsageMeter } from '@/lib/usage';
+import { checkSpendQuota, QuotaExceededError, quotaExceededResponse } from '@/lib/quotas';
 
 /**
  * AI Group Suggestion
@@ -27,6 +31,51 @@ export interface GroupSuggestion {
   reason: string; // Why these documents were grouped
 }
 
+/**
+ * Suggestions below this confidence are not shown
+ */
+const MIN_CONFIDENCE = 0.6;
+
+const SUGGESTION_TOOL: StructuredOutputTool = {
+  name: 'suggest_groups',
+  description: 'Record suggested groupings of the documents.',
+  schema: {
+    type: 'object',
+    properties: {
+      suggestions: {
+        type: 'array',
+        description: 'Suggested groups; empty when no good groupings are found',
+        items: {
+          type: 'object',
+          properties: {
+            name: { type: 'string', description: 'A descriptive group name' },
+            description: { type: 'string', description: 'Why these documents belong together' },
+            document_ids: {
+              type: 'array',
+              description: 'IDs of the documents in the group, at least 2',
+              items: { type: 'string' },
+            },
+            confidence: { type: 'number', description: 'Confidence in the grouping, from 0 to 1' },
+            reason: { type: 'string', description: 'Brief explanation of the grouping logic' },
+          },
+          required: ['name', 'document_ids', 'confidence'],
+        },
+      },
+    },
+    required: ['suggestions'],
+  },
+};
+
+interface SuggestionOutput {
+  suggestions: Array<{
+    name: string;
+    description?: string;
+    document_ids: string[];
+    confidence: number;
+    reason?: string;
+  }>;
+}
+
 /**
  * Suggest groups based on document summaries
  * 
@@ -73,8 +122,16 @@ export async function POST(request: Request): Promise<Response> {
       );
     }
 
+    await checkSpendQuota(userId);
+
     // Use Claude to analyze and suggest groups
-    const suggestions = await generateGroupSuggestions(documents);
+    const meter = createUsageMeter({ userId, documentId: null, operation: 'suggest_groups' });
+    let suggestions: GroupSuggestion[];
+    try {
+      suggestions = await generateGroupSuggestions(documents, meter.record);
+    } finally {
+      await meter.flush();
+    }
 
     return Response.json(
       {
@@ -90,6 +147,22 @@ export async function POST(request: Request): Promise<Response> {
       }
     );
   } catch (error) {
+    if (error instanceof QuotaExceededError) {
+      return quotaExceededResponse(error);
+    }
+
+    if (error instanceof ProcessingError) {
+      console.error(`Group suggestion failed (${error.code}):`, error.message);
+      return Response.json(
+        {
+          error: 'AI_ERROR',
+          message: error.message,
+          code: error.code,
+        } as ApiError,
+        { status: error.code === 'AI_RATE_LIMITED' ? 429 : 502 }
+      );
+    }
+
     const errorMessage = error instanceof Error ? error.message : 'Unknown error';
     console.error('Unexpected error in suggest groups handler:', error);
 
@@ -106,17 +179,22 @@ export async function POST(request: Request): Promise<Response> {
 
 /**
  * Generate group suggestions using Claude AI
+ * 
+ * @throws ProcessingError when the AI call fails or returns invalid suggestions
  */
 async function generateGroupSuggestions(
-  documents: Array<{ id: string; name: string; summary: string | null }>
+  documents: Array<{ id: string; name: string; summary: string | null }>,
+  onUsage: UsageListener
 ): Promise<GroupSuggestion[]> {
-  try {
-    const documentSummaries = documents
-      .filter((d) => d.summary)
-      .map((d) => `Document ID: ${d.id}\nName: ${d.name}\nSummary: ${d.summary}`)
-      .join('\n\n---\n\n');
+  const requestId = `claude-groups-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  const documentIds = new Set(documents.map((d) => d.id));
+
+  const documentSummaries = documents
+    .filter((d) => d.summary)
+    .map((d) => `Document ID: ${d.id}\nName: ${d.name}\nSummary: ${d.summary}`)
+    .join('\n\n---\n\n');
 
-    const prompt = `Analyze these documents and suggest logical groupings based on their content and summaries.
+  const prompt = `Analyze these documents and suggest logical groupings based on their content and summaries.
 
 Documents:
 ${documentSummaries}
@@ -127,92 +205,40 @@ For each suggested group, provide:
 3. The document IDs that should be in this group
 4. A confidence score (0-1) indicating how confident you are in this grouping
 
-Respond with ONLY valid JSON array in this format:
-[
-  {
-    "group": {
-      "name": "Group Name",
-      "description": "Why these documents are grouped",
-      "type": "AI_SUGGESTED"
-    },
-    "document_ids": ["id1", "id2"],
-    "confidence": 0.85,
-    "reason": "Brief explanation of grouping logic"
-  }
-]
-
-Only suggest groups with confidence >= 0.6. Return an empty array if no good groupings are found.`;
-
-    const apiKey = process.env.ANTHROPIC_API_KEY;
-    if (!apiKey) {
-      throw new Error('ANTHROPIC_API_KEY is not set');
-    }
-
-    const client = new Anthropic({ apiKey });
-    const model = 'claude-sonnet-4-20250514';
-
-    const message = await client.messages.create({
-      model,
-      max_tokens: 4096,
-      messages: [
-        {
-          role: 'user',
-          content: prompt,
-        },
-      ],
-    });
-
-    const responseText =
-      message.content[0]?.type === 'text'
-        ? message.content[0].text
-        : '';
-
-    if (!responseText) {
-      throw new Error('Empty response from Claude API');
-    }
-
-    let suggestions: GroupSuggestion[] = [];
-    try {
-      let jsonText = responseText;
-      const codeBlockMatch = jsonText.match(/```(?:json)?\s*(\[[\s\S]*?\])\s*```/);
-      if (codeBlockMatch) {
-        jsonText = codeBlockMatch[1];
-      } else {
-        const arrayMatch = jsonText.match(/\[[\s\S]*\]/);
-        if (arrayMatch) {
-          jsonText = arrayMatch[0];
+Only suggest groups with confidence >= ${MIN_CONFIDENCE}. Record the suggestions with the ${SUGGESTION_TOOL.name} tool, with an empty list if no good groupings are found.`;
+
+  const { output } = await getAIProvider().completeStructured<SuggestionOutput>({
+    task: 'grouping',
+    prompt,
+    maxTokens: 4096,
+    tool: SUGGESTION_TOOL,
+    check: (result) => {
+      for (const [index, suggestion] of result.suggestions.entries()) {
+        const unknownId = suggestion.document_ids.find((id) => !documentIds.has(id));
+        if (unknownId) {
+          return `input.suggestions[${index}].document_ids contains ${unknownId}, which is not one of the document IDs`;
+        }
+        if (suggestion.confidence < 0 || suggestion.confidence > 1) {
+          return `input.suggestions[${index}].confidence should be between 0 and 1`;
         }
       }
-
-      if (jsonText) {
-        suggestions = JSON.parse(jsonText);
-      }
-
-      suggestions = suggestions
-        .filter((s: GroupSuggestion) => {
-          return (
-            s &&
-            s.group &&
-            s.group.name &&
-            s.document_ids &&
-            Array.isArray(s.document_ids) &&
-            s.document_ids.length >= 2 &&
-            s.confidence >= 0.6
-          );
-        })
-        .map((s: GroupSuggestion) => ({
-          ...s,
-          group: {
-            ...s.group,
-            type: GroupType.AI_SUGGESTED,
-          },
-        }));
-    } catch (parseError) {
-      suggestions = [];
-    }
-
-    return suggestions;
-  } catch (error) {
-    return [];
-  }
+      return null;
+    },
+    requestId,
+    onUsage,
+  });
+
+  return output.suggestions
+    .map((s) => ({ ...s, document_ids: [...new Set(s.document_ids)] }))
+    .filter((s) => s.name.trim() && s.document_ids.length >= 2 && s.confidence >= MIN_CONFIDENCE)
+    .map((s) => ({
+      group: {
+        name: s.name.trim(),
+        description: s.description?.trim() || '',
+        type: GroupType.AI_SUGGESTED,
+      },
+      document_ids: s.document_ids,
+      confidence: s.confidence,
+      reason: s.reason?.trim() || '',
+    }));
 }
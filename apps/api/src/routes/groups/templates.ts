@@ -0,0 +1,167 @@
+/**
+ * Group Templates API Route
+ * 
+ * Manages the extraction templates assigned to a group. They run for every
+ * document directly in the group, the next time it is processed or its
+ * templates are run.
+ * 
+ * GET /api/groups/:id/templates - Ids of the group's templates
+ * PUT /api/groups/:id/templates - Replace the group's templates
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { TemplateAssignmentInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTemplateIds, resolveTemplateIds, getGroupTemplateIds, setGroupTemplates } from '@/lib/templates';
+
+/**
+ * Whether the user owns the group
+ */
+async function groupExists(groupId: string, userId: string): Promise<boolean> {
+  const { data } = await supabaseAdmin
+    .from('groups')
+    .select('id')
+    .eq('id', groupId)
+    .eq('user_id', userId)
+    .single();
+
+  return !!data;
+}
+
+function missingIdError(): Response {
+  return Response.json(
+    {
+      error: 'VALIDATION_ERROR',
+      message: 'Group ID is required',
+      code: 'MISSING_ID',
+    } as ApiError,
+    { status: 400 }
+  );
+}
+
+function groupNotFoundError(): Response {
+  return Response.json(
+    {
+      error: 'NOT_FOUND',
+      message: 'Group not found or access denied',
+      code: 'GROUP_NOT_FOUND',
+    } as ApiError,
+    { status: 404 }
+  );
+}
+
+function unexpectedError(error: unknown, handler: string): Response {
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  console.error(`Unexpected error in ${handler} handler:`, error);
+
+  return Response.json(
+    {
+      error: 'INTERNAL_ERROR',
+      message: errorMessage,
+      code: 'UNEXPECTED_ERROR',
+    } as ApiError,
+    { status: 500 }
+  );
+}
+
+/**
+ * Build a successful response with the group's template ids
+ */
+function groupTemplatesResponse(templateIds: string[], message?: string): Response {
+  return Response.json(
+    {
+      data: { template_ids: templateIds },
+      message,
+    } as ApiResponse<TemplateAssignmentInput>,
+    {
+      status: 200,
+      headers: {
+        'Access-Control-Allow-Origin': '*',
+        'Content-Type': 'application/json',
+      },
+    }
+  );
+}
+
+/**
+ * Get the templates assigned to a group
+ * 
+ * GET /api/groups/:id/templates
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id) {
+      return missingIdError();
+    }
+
+    if (!await groupExists(params.id, userId)) {
+      return groupNotFoundError();
+    }
+
+    return groupTemplatesResponse(await getGroupTemplateIds(params.id));
+  } catch (error) {
+    return unexpectedError(error, 'get group templates');
+  }
+}
+
+/**
+ * Replace the templates assigned to a group
+ * 
+ * PUT /api/groups/:id/templates
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    if (!params.id) {
+      return missingIdError();
+    }
+
+    const body = await request.json() as Partial<TemplateAssignmentInput> | null;
+    const parsed = parseTemplateIds(body?.template_ids);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: 'INVALID_TEMPLATE_IDS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (!await groupExists(params.id, userId)) {
+      return groupNotFoundError();
+    }
+
+    const templateIds = await resolveTemplateIds(userId, parsed.templateIds);
+    if (!templateIds) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'One or more templates were not found',
+          code: 'INVALID_TEMPLATE_IDS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    await setGroupTemplates(params.id, templateIds);
+
+    return groupTemplatesResponse(templateIds, 'Group templates updated');
+  } catch (error) {
+    return unexpectedError(error, 'update group templates');
+  }
+}
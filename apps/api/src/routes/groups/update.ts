@@ -0,0 +1,180 @@
+/**
+ * Update Group API Route
+ *
+ * Updates a group's name, description, color or icon, or moves it to
+ * another parent. Names must stay unique per user, ignoring case, and a
+ * group can't be moved under itself or one of its descendants.
+ *
+ * PATCH /api/groups/:id
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { Group, ApiResponse, ApiError, GroupUpdate } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { loadGroupTree, checkParent, parseGroupDetails, isGroupNameTaken } from '@/lib/groups';
+import type { GroupDetails } from '@/lib/groups';
+
+/**
+ * Update a group
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const groupId = params.id;
+
+    if (!groupId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Group ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json() as GroupUpdate;
+
+    const parsedDetails = parseGroupDetails({ description: body.description, color: body.color, icon: body.icon });
+    if ('error' in parsedDetails) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsedDetails.error,
+          code: 'INVALID_DETAILS',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const updates: GroupDetails & { name?: string; parent_id?: string | null } = { ...parsedDetails.details };
+
+    if (body.name !== undefined) {
+      if (typeof body.name !== 'string' || body.name.trim() === '') {
+        return Response.json(
+          {
+            error: 'VALIDATION_ERROR',
+            message: 'Group name cannot be empty',
+            code: 'MISSING_NAME',
+          } as ApiError,
+          { status: 400 }
+        );
+      }
+      updates.name = body.name.trim();
+    }
+
+    const groups = await loadGroupTree(userId);
+    if (!groups.some((group) => group.id === groupId)) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Group not found or access denied',
+          code: 'GROUP_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    if (updates.name && await isGroupNameTaken(userId, updates.name, groupId)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `A group named "${updates.name}" already exists`,
+          code: 'DUPLICATE_GROUP_NAME',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    if (body.parent_id !== undefined) {
+      const parentId = body.parent_id || null;
+      const problem = parentId ? checkParent(groups, groupId, parentId) : null;
+
+      if (problem === 'not_found') {
+        return Response.json(
+          {
+            error: 'NOT_FOUND',
+            message: 'Parent group not found or access denied',
+            code: 'PARENT_NOT_FOUND',
+          } as ApiError,
+          { status: 404 }
+        );
+      }
+      if (problem === 'cycle') {
+        return Response.json(
+          {
+            error: 'VALIDATION_ERROR',
+            message: 'A group cannot be moved into itself or one of its subgroups',
+            code: 'GROUP_CYCLE',
+          } as ApiError,
+          { status: 400 }
+        );
+      }
+      updates.parent_id = parentId;
+    }
+
+    if (Object.keys(updates).length === 0) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'No changes provided',
+          code: 'NO_CHANGES',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const { data: group, error } = await supabaseAdmin
+      .from('groups')
+      .update(updates)
+      .eq('id', groupId)
+      .eq('user_id', userId)
+      .select()
+      .single();
+
+    if (error || !group) {
+      console.error('Database update failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to update group',
+          code: 'UPDATE_FAILED',
+          details: error ? { db_error: error.message } : undefined,
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: group as Group,
+        message: 'Group updated successfully',
+      } as ApiResponse<Group>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in update group handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Get Job API Route
+ * 
+ * Returns the state of a background processing job owned by the user.
+ * Used by the client to poll for completion of queued work.
+ * 
+ * GET /api/jobs/:id
+ */
+
+import { getJobForUser } from '@/lib/jobs';
+import type { ProcessingJob, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const jobId = params.id;
+
+    if (!jobId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Job ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const job = await getJobForUser(jobId, userId);
+
+    if (!job) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Job not found',
+          code: 'JOB_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: job,
+      } as ApiResponse<ProcessingJob>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in get job handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,98 @@
+/**
+ * Run Job Worker API Route
+ * 
+ * Reaps stuck jobs and expired upload sessions, then claims and runs due
+ * jobs until the queue is empty or the time budget is spent. Intended to
+ * be called by a scheduler (Vercel Cron) rather than by users.
+ * 
+ * Jobs that reach pages needing OCR are handed off to the standalone
+ * worker (src/worker.ts): the function has no pdftoppm or tesseract, and
+ * OCR of a long scan doesn't fit in its maxDuration.
+ * 
+ * GET/POST /api/jobs/run
+ * 
+ * Requires `Authorization: Bearer <CRON_SECRET>`.
+ */
+
+import { runWorker, reapStuckJobs } from '@/lib/jobs';
+import { purgeExpiredUploadSessions } from '@/lib/uploads';
+import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
+
+/**
+ * Stop claiming new jobs after this long, leaving headroom before the
+ * function's maxDuration for the job that is already running
+ */
+const TIME_BUDGET_MS = 60 * 1000;
+
+/**
+ * Defer the running job after its next converted chunk past this point.
+ * maxDuration is 300s and a chunk request can take about two minutes, so
+ * a job stopped here is re-queued (and resumes from its checkpoints)
+ * before the function is killed.
+ */
+const RUN_DEADLINE_MS = 150 * 1000;
+
+async function handleRun(request: Request): Promise<Response> {
+  const cronSecret = process.env.CRON_SECRET;
+
+  if (!cronSecret) {
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: 'CRON_SECRET is not configured',
+        code: 'CRON_SECRET_MISSING',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+
+  const authHeader = request.headers.get('Authorization') || request.headers.get('authorization');
+  if (authHeader !== `Bearer ${cronSecret}`) {
+    return Response.json(
+      {
+        error: 'UNAUTHORIZED',
+        message: 'Invalid worker credentials',
+        code: 'INVALID_CRON_SECRET',
+      } as ApiError,
+      { status: 401 }
+    );
+  }
+
+  try {
+    const reaped = await reapStuckJobs();
+    const expiredUploads = await purgeExpiredUploadSessions();
+    const result = await runWorker({ timeBudgetMs: TIME_BUDGET_MS, runDeadlineMs: RUN_DEADLINE_MS, ocr: false });
+
+    return Response.json(
+      {
+        data: { ...result, reaped, expiredUploads },
+      } as ApiResponse<typeof result & { reaped: typeof reaped; expiredUploads: number }>,
+      {
+        status: 200,
+        headers: {
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in job worker handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
+
+export async function GET(request: Request): Promise<Response> {
+  return handleRun(request);
+}
+
+export async function POST(request: Request): Promise<Response> {
+  return handleRun(request);
+}
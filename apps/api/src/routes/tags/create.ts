@@ -0,0 +1,94 @@
+/**
+ * Create Tag API Route
+ * 
+ * Creates a tag without applying it to a document. Names must be unique
+ * per user, ignoring case.
+ * 
+ * POST /api/tags
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { Tag, TagInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTagName, findTagByName } from '@/lib/tags';
+
+/**
+ * Create a new tag
+ */
+export async function POST(request: Request): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const body = await request.json() as TagInput;
+
+    const parsed = parseTagName(body.name);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: 'INVALID_NAME',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (await findTagByName(userId, parsed.name)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `A tag named "${parsed.name}" already exists`,
+          code: 'DUPLICATE_TAG_NAME',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    const { data: tag, error } = await supabaseAdmin
+      .from('tags')
+      .insert({ user_id: userId, name: parsed.name })
+      .select('id, name, created_at')
+      .single();
+
+    if (error || !tag) {
+      console.error('Database insert failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to create tag',
+          code: 'DB_INSERT_FAILED',
+          details: error ? { db_error: error.message } : undefined,
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: { ...tag, document_count: 0 } as Tag,
+        message: 'Tag created successfully',
+      } as ApiResponse<Tag>,
+      {
+        status: 201,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in create tag handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Delete Tag API Route
+ * 
+ * Deletes a tag and removes it from every document that carries it.
+ * 
+ * DELETE /api/tags/:id
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { refreshSmartGroups } from '@/lib/groups';
+
+/**
+ * Delete a tag
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const tagId = params.id;
+
+    if (!tagId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Tag ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    // Delete user's tag (cascade will handle document_tags)
+    const { error } = await supabaseAdmin
+      .from('tags')
+      .delete()
+      .eq('id', tagId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Database delete failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to delete tag',
+          code: 'DELETE_FAILED',
+          details: { db_error: error.message },
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    // Smart groups may filter on the tag
+    await refreshSmartGroups(userId);
+
+    return Response.json(
+      {
+        data: { id: tagId },
+        message: 'Tag deleted successfully',
+      } as ApiResponse<{ id: string }>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in delete tag handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * List Tags API Route
+ * 
+ * Returns all of the user's tags, sorted by name, with how many documents
+ * carry each. Tag sets are small, so the list is not paginated; clients
+ * filter it for autocomplete.
+ * 
+ * GET /api/tags
+ */
+
+import type { Tag, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { listTags } from '@/lib/tags';
+
+/**
+ * Get the user's tags
+ */
+export async function GET(request: Request): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    let tags: Tag[];
+    try {
+      tags = await listTags(userId);
+    } catch (error) {
+      console.error('Error fetching tags:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to fetch tags',
+          code: 'FETCH_FAILED',
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: tags,
+      } as ApiResponse<Tag[]>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in list tags handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
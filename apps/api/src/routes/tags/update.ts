@@ -0,0 +1,124 @@
+/**
+ * Update Tag API Route
+ * 
+ * Renames a tag on every document that carries it. The new name must not
+ * match another of the user's tags, ignoring case; changing only the case
+ * of the current name is allowed.
+ * 
+ * PATCH /api/tags/:id
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { Tag, TagInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTagName, findTagByName } from '@/lib/tags';
+
+/**
+ * Rename a tag
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const tagId = params.id;
+
+    if (!tagId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Tag ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const body = await request.json() as TagInput;
+
+    const parsed = parseTagName(body.name);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: 'INVALID_NAME',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (await findTagByName(userId, parsed.name, tagId)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `A tag named "${parsed.name}" already exists`,
+          code: 'DUPLICATE_TAG_NAME',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    const { data: tag, error } = await supabaseAdmin
+      .from('tags')
+      .update({ name: parsed.name })
+      .eq('id', tagId)
+      .eq('user_id', userId)
+      .select('id, name, created_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database update failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to update tag',
+          code: 'UPDATE_FAILED',
+          details: { db_error: error.message },
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    if (!tag) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Tag not found or access denied',
+          code: 'TAG_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: tag as Tag,
+        message: 'Tag updated successfully',
+      } as ApiResponse<Tag>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in update tag handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
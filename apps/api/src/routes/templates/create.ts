@@ -0,0 +1,95 @@
+/**
+ * Create Template API Route
+ * 
+ * Creates an extraction template. Names must be unique per user, ignoring
+ * case. The prompt and schema are validated here; the layout is derived
+ * from the schema when omitted.
+ * 
+ * POST /api/templates
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ExtractionTemplate, ExtractionTemplateInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTemplateInput, isTemplateNameTaken } from '@/lib/templates';
+
+/**
+ * Create a new template
+ */
+export async function POST(request: Request): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const body = await request.json() as Partial<ExtractionTemplateInput> | null;
+
+    const parsed = parseTemplateInput(body);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: parsed.code,
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (await isTemplateNameTaken(userId, parsed.template.name)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `A template named "${parsed.template.name}" already exists`,
+          code: 'DUPLICATE_TEMPLATE_NAME',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    const { data: template, error } = await supabaseAdmin
+      .from('extraction_templates')
+      .insert({ user_id: userId, ...parsed.template })
+      .select('id, name, description, prompt, output_schema, layout, created_at, updated_at')
+      .single();
+
+    if (error || !template) {
+      console.error('Database insert failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to create template',
+          code: 'DB_INSERT_FAILED',
+          details: error ? { db_error: error.message } : undefined,
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: template as ExtractionTemplate,
+        message: 'Template created successfully',
+      } as ApiResponse<ExtractionTemplate>,
+      {
+        status: 201,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in create template handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
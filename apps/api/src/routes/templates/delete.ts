@@ -0,0 +1,85 @@
+/**
+ * Delete Template API Route
+ * 
+ * Deletes a template along with its document and group assignments and
+ * its results.
+ * 
+ * DELETE /api/templates/:id
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+
+/**
+ * Delete a template
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const templateId = params.id;
+
+    if (!templateId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Template ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    // Delete user's template (cascade handles assignments and results)
+    const { error } = await supabaseAdmin
+      .from('extraction_templates')
+      .delete()
+      .eq('id', templateId)
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Database delete failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to delete template',
+          code: 'DELETE_FAILED',
+          details: { db_error: error.message },
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: { id: templateId },
+        message: 'Template deleted successfully',
+      } as ApiResponse<{ id: string }>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in delete template handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
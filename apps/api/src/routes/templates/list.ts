@@ -0,0 +1,63 @@
+/**
+ * List Templates API Route
+ * 
+ * Returns all of the user's extraction templates, sorted by name. Template
+ * sets are small, so the list is not paginated.
+ * 
+ * GET /api/templates
+ */
+
+import type { ExtractionTemplate, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { listTemplates } from '@/lib/templates';
+
+/**
+ * Get the user's templates
+ */
+export async function GET(request: Request): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    let templates: ExtractionTemplate[];
+    try {
+      templates = await listTemplates(userId);
+    } catch (error) {
+      console.error('Error fetching templates:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to fetch templates',
+          code: 'FETCH_FAILED',
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: templates,
+      } as ApiResponse<ExtractionTemplate[]>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in list templates handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
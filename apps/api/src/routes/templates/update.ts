@@ -0,0 +1,135 @@
+/**
+ * Update Template API Route
+ * 
+ * Updates any of a template's name, description, prompt, output schema and
+ * layout. Existing results are kept until the template next runs.
+ * 
+ * PATCH /api/templates/:id
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ExtractionTemplate, ExtractionTemplateInput, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { parseTemplateUpdate, getTemplate, isTemplateNameTaken } from '@/lib/templates';
+
+/**
+ * Update a template
+ */
+export async function PATCH(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const templateId = params.id;
+
+    if (!templateId) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'Template ID is required',
+          code: 'MISSING_ID',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const current = await getTemplate(userId, templateId);
+    if (!current) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Template not found or access denied',
+          code: 'TEMPLATE_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json() as Partial<ExtractionTemplateInput> | null;
+
+    const parsed = parseTemplateUpdate(body, current);
+    if ('error' in parsed) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: parsed.error,
+          code: parsed.code,
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    if (parsed.update.name && await isTemplateNameTaken(userId, parsed.update.name, templateId)) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `A template named "${parsed.update.name}" already exists`,
+          code: 'DUPLICATE_TEMPLATE_NAME',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    const { data: template, error } = await supabaseAdmin
+      .from('extraction_templates')
+      .update({ ...parsed.update, updated_at: new Date().toISOString() })
+      .eq('id', templateId)
+      .eq('user_id', userId)
+      .select('id, name, description, prompt, output_schema, layout, created_at, updated_at')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Database update failed:', error);
+      return Response.json(
+        {
+          error: 'DATABASE_ERROR',
+          message: 'Failed to update template',
+          code: 'UPDATE_FAILED',
+          details: { db_error: error.message },
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    if (!template) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Template not found or access denied',
+          code: 'TEMPLATE_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: template as ExtractionTemplate,
+        message: 'Template updated successfully',
+      } as ApiResponse<ExtractionTemplate>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in update template handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Cancel Upload Session API Route
+ * 
+ * Abandons an upload and deletes the chunks received so far.
+ * Completed sessions are left alone; their document is unaffected.
+ * 
+ * DELETE /api/uploads/:id
+ */
+
+import type { ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { getUploadSession, discardUploadSession } from '@/lib/uploads';
+
+/**
+ * Cancel an upload session
+ */
+export async function DELETE(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const session = params.id ? await getUploadSession(params.id, userId) : null;
+
+    if (!session) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Upload session not found',
+          code: 'UPLOAD_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    if (!session.document_id) {
+      await discardUploadSession(session);
+    }
+
+    return Response.json(
+      {
+        data: { id: session.id },
+        message: 'Upload cancelled',
+      } as ApiResponse<{ id: string }>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in cancel upload session handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
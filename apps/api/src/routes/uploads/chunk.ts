@@ -0,0 +1,122 @@
+/**
+ * Upload Chunk API Route
+ * 
+ * Stores one chunk of an upload session. The body is the raw chunk bytes
+ * (application/octet-stream). Every chunk except the last must be exactly
+ * the session's chunk_size. Re-sending a chunk replaces it, so clients can
+ * retry freely after a dropped connection.
+ * 
+ * PUT /api/uploads/:id/chunks/:index
+ */
+
+import type { UploadSession, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import {
+  getUploadSession,
+  isUploadSessionExpired,
+  expectedChunkSize,
+  storeUploadChunk,
+} from '@/lib/uploads';
+
+/**
+ * Store a chunk
+ */
+export async function PUT(
+  request: Request,
+  { params }: { params: { id: string; index: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const session = params.id ? await getUploadSession(params.id, userId) : null;
+
+    if (!session) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Upload session not found',
+          code: 'UPLOAD_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    if (session.document_id) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: 'Upload has already been completed',
+          code: 'UPLOAD_COMPLETED',
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    if (isUploadSessionExpired(session)) {
+      return Response.json(
+        {
+          error: 'GONE',
+          message: 'Upload session has expired. Please start the upload again.',
+          code: 'UPLOAD_EXPIRED',
+        } as ApiError,
+        { status: 410 }
+      );
+    }
+
+    const index = /^\d+$/.test(params.index) ? parseInt(params.index, 10) : NaN;
+    if (Number.isNaN(index) || index >= session.total_chunks) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `Chunk index must be between 0 and ${session.total_chunks - 1}`,
+          code: 'INVALID_CHUNK_INDEX',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const bytes = Buffer.from(await request.arrayBuffer());
+    const expectedSize = expectedChunkSize(session, index);
+
+    if (bytes.length !== expectedSize) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: `Chunk ${index} must be ${expectedSize} bytes, received ${bytes.length}`,
+          code: 'INVALID_CHUNK_SIZE',
+          details: { expected_bytes: expectedSize, received_bytes: bytes.length },
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const updated = await storeUploadChunk(session, index, bytes);
+
+    return Response.json(
+      {
+        data: updated,
+      } as ApiResponse<UploadSession>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in upload chunk handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Complete upload route expiry
+ *
+ * An expired session is refused with 410 before any chunk is read, like a
+ * chunk sent to it would be; a session completed before it expired still
+ * returns its document.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DocumentStatus } from '@ai-document-vault/shared';
+import type { ApiError, Document } from '@ai-document-vault/shared';
+import { createTestDatabase } from '../../test/database';
+import type { TestDatabase } from '../../test/database';
+import { POST } from './complete';
+
+const USER_ID = '00000000-0000-4000-8000-000000000001';
+
+const supabase = vi.hoisted(() => ({ client: null as unknown }));
+vi.mock('@/lib/supabase', () => ({
+  get supabaseAdmin() {
+    return supabase.client;
+  },
+}));
+
+vi.mock('@/lib/auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/auth')>()),
+  getUserIdFromRequest: vi.fn(async () => USER_ID),
+}));
+
+const uploads = vi.hoisted(() => ({
+  readUploadContent: vi.fn(),
+}));
+vi.mock('@/lib/uploads', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/uploads')>()),
+  readUploadContent: uploads.readUploadContent,
+}));
+
+let database: TestDatabase;
+
+async function insertSession(values: { expires_at: string; document_id?: string }): Promise<string> {
+  const { data, error } = await database.client
+    .from('upload_sessions')
+    .insert({
+      user_id: USER_ID,
+      filename: 'scan.pdf',
+      content_type: 'application/pdf',
+      size: 8,
+      chunk_size: 4,
+      total_chunks: 2,
+      received_chunks: [0, 1],
+      ...values,
+    })
+    .select('id')
+    .single();
+
+  expect(error).toBeNull();
+  return (data as { id: string }).id;
+}
+
+function complete(sessionId: string): Promise<Response> {
+  return POST(
+    new Request(`http://localhost/api/uploads/${sessionId}/complete`, { method: 'POST', body: '{}' }),
+    { params: { id: sessionId } }
+  );
+}
+
+describe('POST /api/uploads/:id/complete', () => {
+  beforeAll(async () => {
+    database = await createTestDatabase();
+    supabase.client = database.client;
+  }, 60_000);
+
+  afterAll(async () => {
+    await database?.close();
+  });
+
+  beforeEach(async () => {
+    await database.reset();
+    vi.clearAllMocks();
+  });
+
+  it('refuses an expired session with 410 UPLOAD_EXPIRED without reading its chunks', async () => {
+    const sessionId = await insertSession({ expires_at: new Date(Date.now() - 60_000).toISOString() });
+
+    const response = await complete(sessionId);
+
+    expect(response.status).toBe(410);
+    expect(((await response.json()) as ApiError).code).toBe('UPLOAD_EXPIRED');
+    expect(uploads.readUploadContent).not.toHaveBeenCalled();
+  });
+
+  it('still returns the document of a session completed before it expired', async () => {
+    const { data: document } = await database.client
+      .from('documents')
+      .insert({
+        user_id: USER_ID,
+        name: 'scan.pdf',
+        storage_path: `${USER_ID}/scan.pdf`,
+        status: DocumentStatus.PROCESSING,
+      })
+      .select()
+      .single();
+    const sessionId = await insertSession({
+      expires_at: new Date(Date.now() - 60_000).toISOString(),
+      document_id: (document as Document).id,
+    });
+
+    const response = await complete(sessionId);
+
+    expect(response.status).toBe(200);
+    expect(uploads.readUploadContent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * Complete Upload Session API Route
+ * 
+ * Streams the received chunks into the document file, creates the
+ * document and queues it for processing, exactly like a single-request
+ * upload. The file is never held whole in memory. Completing an already
+ * completed session returns its document; an expired session is rejected
+ * with 410 UPLOAD_EXPIRED.
+ * 
+ * A duplicate of an existing document is rejected with 409
+ * DUPLICATE_DOCUMENT and the session is kept, so the request can be
+ * repeated with an on_duplicate choice without re-sending any chunks.
+ * 
+ * POST /api/uploads/:id/complete
+ * Body: { on_duplicate?: 'link' | 'skip' | 'new_version', template_ids?: string[] }
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { Document, ApiError, CompleteUploadSessionRequest } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import {
+  getUploadSession,
+  isUploadSessionExpired,
+  missingChunks,
+  readUploadContent,
+  finishUploadSession,
+  isDuplicateAction,
+  storeUploadedDocument,
+  uploadedDocumentResponse,
+  parseUploadTemplateIds,
+} from '@/lib/uploads';
+
+/**
+ * Complete an upload session
+ */
+export async function POST(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  const requestId = `upload-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const session = params.id ? await getUploadSession(params.id, userId) : null;
+
+    if (!session) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Upload session not found',
+          code: 'UPLOAD_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    // Retried completion: return the document created the first time
+    if (session.document_id) {
+      const { data: document } = await supabaseAdmin
+        .from('documents')
+        .select('*')
+        .eq('id', session.document_id)
+        .eq('user_id', userId)
+        .maybeSingle();
+
+      if (document) {
+        return uploadedDocumentResponse(document as Document, undefined, 200);
+      }
+    }
+
+    if (isUploadSessionExpired(session)) {
+      return Response.json(
+        {
+          error: 'GONE',
+          message: 'Upload session has expired. Please start the upload again.',
+          code: 'UPLOAD_EXPIRED',
+        } as ApiError,
+        { status: 410 }
+      );
+    }
+
+    const missing = missingChunks(session);
+    if (missing.length > 0) {
+      return Response.json(
+        {
+          error: 'CONFLICT',
+          message: `Upload is incomplete: ${missing.length} of ${session.total_chunks} chunks missing`,
+          code: 'UPLOAD_INCOMPLETE',
+          details: { missing_chunks: missing },
+        } as ApiError,
+        { status: 409 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({})) as Partial<CompleteUploadSessionRequest>;
+    const onDuplicate = body.on_duplicate ?? null;
+    if (onDuplicate !== null && !isDuplicateAction(onDuplicate)) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'on_duplicate must be one of: link, skip, new_version',
+          code: 'INVALID_DUPLICATE_ACTION',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const templateIds = await parseUploadTemplateIds(userId, body.template_ids);
+    if (templateIds instanceof Response) {
+      return templateIds;
+    }
+
+    const read = await readUploadContent(session);
+
+    if (!read.success) {
+      console.error(`[Upload ${requestId}] Failed to read upload ${session.id}:`, read.error);
+      return Response.json(
+        {
+          error: read.error.error,
+          message: read.error.message || 'Failed to read uploaded chunks',
+          code: read.error.code || 'STORAGE_UPLOAD_FAILED',
+        } as ApiError,
+        { status: 500 }
+      );
+    }
+
+    const stored = await storeUploadedDocument(
+      userId,
+      { name: session.filename, type: session.content_type, size: session.size },
+      read.content,
+      onDuplicate,
+      requestId,
+      templateIds
+    );
+    if (!stored.success) {
+      return Response.json(stored.error, { status: stored.status });
+    }
+
+    await finishUploadSession(session, stored.document.id);
+
+    return uploadedDocumentResponse(
+      stored.document,
+      stored.costEstimate,
+      stored.status,
+      stored.message,
+      stored.quotaExceeded
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`[Upload ${requestId}] Unexpected error in complete upload handler:`, error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
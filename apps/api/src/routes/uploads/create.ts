@@ -0,0 +1,78 @@
+/**
+ * Create Upload Session API Route
+ * 
+ * Opens a resumable, chunked upload. The file is validated with the same
+ * type and size rules as single-request uploads before any bytes are sent.
+ * 
+ * POST /api/uploads
+ * Body: { filename, content_type, size }
+ */
+
+import type { UploadSession, CreateUploadSessionRequest, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { initializeStorage } from '@/lib/storage';
+import { validateUploadFile, createUploadSession } from '@/lib/uploads';
+
+/**
+ * Create an upload session
+ */
+export async function POST(request: Request): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const body = await request.json().catch(() => ({})) as Partial<CreateUploadSessionRequest>;
+
+    const size = Number(body.size);
+    if (!Number.isInteger(size) || size <= 0) {
+      return Response.json(
+        {
+          error: 'VALIDATION_ERROR',
+          message: 'size must be a positive number of bytes',
+          code: 'INVALID_SIZE',
+        } as ApiError,
+        { status: 400 }
+      );
+    }
+
+    const file = {
+      name: typeof body.filename === 'string' ? body.filename : '',
+      type: typeof body.content_type === 'string' ? body.content_type : '',
+      size,
+    };
+
+    const validationError = validateUploadFile(file);
+    if (validationError) {
+      return Response.json(validationError, { status: 400 });
+    }
+
+    await initializeStorage();
+    const session = await createUploadSession(userId, file);
+
+    return Response.json(
+      {
+        data: session,
+      } as ApiResponse<UploadSession>,
+      {
+        status: 201,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in create upload session handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
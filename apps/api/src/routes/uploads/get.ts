@@ -0,0 +1,64 @@
+/**
+ * Get Upload Session API Route
+ * 
+ * Returns a session's progress so an interrupted upload can resume by
+ * sending only the chunks missing from received_chunks.
+ * 
+ * GET /api/uploads/:id
+ */
+
+import type { UploadSession, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { getUploadSession } from '@/lib/uploads';
+
+/**
+ * Get an upload session
+ */
+export async function GET(
+  request: Request,
+  { params }: { params: { id: string } }
+): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const session = params.id ? await getUploadSession(params.id, userId) : null;
+
+    if (!session) {
+      return Response.json(
+        {
+          error: 'NOT_FOUND',
+          message: 'Upload session not found',
+          code: 'UPLOAD_NOT_FOUND',
+        } as ApiError,
+        { status: 404 }
+      );
+    }
+
+    return Response.json(
+      {
+        data: session,
+      } as ApiResponse<UploadSession>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in get upload session handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * AI Usage API Route
+ * 
+ * Reports the tokens and estimated cost of the user's AI calls.
+ * 
+ * GET /api/usage?month=YYYY-MM
+ *   The month's totals, per operation, top documents and the last 12
+ *   months (default: the current UTC month)
+ * GET /api/usage?document_id=...
+ *   A document's totals and per-operation usage to date
+ */
+
+import { supabaseAdmin } from '@/lib/supabase';
+import type { ApiResponse, ApiError, DocumentUsageReport, UsageReport } from '@ai-document-vault/shared';
+import { getUserIdFromRequest, requireAuth } from '@/lib/auth';
+import { currentUsageMonth, getDocumentUsageReport, getUsageReport, parseUsageMonth } from '@/lib/usage';
+
+/**
+ * Get the user's usage for a month or a document
+ */
+export async function GET(request: Request): Promise<Response> {
+  try {
+    // Get authenticated user ID
+    const userId = await getUserIdFromRequest(request);
+    requireAuth(userId);
+
+    const url = new URL(request.url);
+    const documentId = url.searchParams.get('document_id');
+    const monthParam = url.searchParams.get('month');
+
+    let report: UsageReport | DocumentUsageReport;
+
+    if (documentId) {
+      // Verify the document belongs to the user
+      const { data: document, error: documentError } = await supabaseAdmin
+        .from('documents')
+        .select('id')
+        .eq('id', documentId)
+        .eq('user_id', userId)
+        .single();
+
+      if (documentError || !document) {
+        return Response.json(
+          {
+            error: 'NOT_FOUND',
+            message: 'Document not found',
+            code: 'DOCUMENT_NOT_FOUND',
+          } as ApiError,
+          { status: 404 }
+        );
+      }
+
+      try {
+        report = await getDocumentUsageReport(userId, documentId);
+      } catch (error) {
+        console.error('Error fetching document usage:', error);
+        return Response.json(
+          {
+            error: 'DATABASE_ERROR',
+            message: 'Failed to fetch usage',
+            code: 'FETCH_FAILED',
+          } as ApiError,
+          { status: 500 }
+        );
+      }
+    } else {
+      const month = monthParam ? parseUsageMonth(monthParam) : currentUsageMonth();
+      if (!month) {
+        return Response.json(
+          {
+            error: 'VALIDATION_ERROR',
+            message: 'month must be in YYYY-MM format',
+            code: 'INVALID_MONTH',
+          } as ApiError,
+          { status: 400 }
+        );
+      }
+
+      try {
+        report = await getUsageReport(userId, month);
+      } catch (error) {
+        console.error('Error fetching usage:', error);
+        return Response.json(
+          {
+            error: 'DATABASE_ERROR',
+            message: 'Failed to fetch usage',
+            code: 'FETCH_FAILED',
+          } as ApiError,
+          { status: 500 }
+        );
+      }
+    }
+
+    return Response.json(
+      {
+        data: report,
+      } as ApiResponse<UsageReport | DocumentUsageReport>,
+      {
+        status: 200,
+        headers: {
+          'Access-Control-Allow-Origin': '*',
+          'Content-Type': 'application/json',
+        },
+      }
+    );
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Unexpected error in usage handler:', error);
+
+    return Response.json(
+      {
+        error: 'INTERNAL_ERROR',
+        message: errorMessage,
+        code: 'UNEXPECTED_ERROR',
+      } as ApiError,
+      { status: 500 }
+    );
+  }
+}
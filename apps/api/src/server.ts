@@ -59,6 +59,82 @@ export function createServer() {
         return;
       }
 
+      const similarMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/similar$/);
+      if (similarMatch && req.method === 'GET') {
+        await handleSimilarDocuments(req, res, similarMatch[1]);
+        return;
+      }
+
+      // Document version routes
+      const versionsMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/versions$/);
+      if (versionsMatch && req.method === 'GET') {
+        await handleListVersions(req, res, versionsMatch[1]);
+        return;
+      }
+      if (versionsMatch && req.method === 'POST') {
+        await handleUploadVersion(req, res, versionsMatch[1]);
+        return;
+      }
+
+      const versionMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/versions\/([^/]+)$/);
+      if (versionMatch && req.method === 'GET') {
+        await handleGetVersion(req, res, versionMatch[1], versionMatch[2]);
+        return;
+      }
+
+      // Content revision routes
+      const revisionsMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/revisions$/);
+      if (revisionsMatch && req.method === 'GET') {
+        await handleListRevisions(req, res, revisionsMatch[1]);
+        return;
+      }
+
+      const restoreMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/revisions\/([^/]+)\/restore$/);
+      if (restoreMatch && req.method === 'POST') {
+        await handleRestoreRevision(req, res, restoreMatch[1], restoreMatch[2]);
+        return;
+      }
+
+      // Document tag routes
+      const documentTagsMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/tags$/);
+      if (documentTagsMatch && req.method === 'GET') {
+        await handleGetDocumentTags(req, res, documentTagsMatch[1]);
+        return;
+      }
+      if (documentTagsMatch && req.method === 'POST') {
+        await handleAddDocumentTag(req, res, documentTagsMatch[1]);
+        return;
+      }
+
+      const documentTagMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/tags\/([^/]+)$/);
+      if (documentTagMatch && req.method === 'DELETE') {
+        await handleRemoveDocumentTag(req, res, documentTagMatch[1], documentTagMatch[2]);
+        return;
+      }
+
+      // Document template routes
+      const documentTemplatesMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/templates$/);
+      if (documentTemplatesMatch && req.method === 'GET') {
+        await handleGetDocumentTemplates(req, res, documentTemplatesMatch[1]);
+        return;
+      }
+      if (documentTemplatesMatch && req.method === 'PUT') {
+        await handleSetDocumentTemplates(req, res, documentTemplatesMatch[1]);
+        return;
+      }
+
+      const runTemplatesMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/templates\/run$/);
+      if (runTemplatesMatch && req.method === 'POST') {
+        await handleRunDocumentTemplates(req, res, runTemplatesMatch[1]);
+        return;
+      }
+
+      const suggestedTagMatch = url.pathname.match(/^\/api\/documents\/([^/]+)\/suggested-tags\/([^/]+)$/);
+      if (suggestedTagMatch && req.method === 'DELETE') {
+        await handleRejectSuggestedTag(req, res, suggestedTagMatch[1], decodeURIComponent(suggestedTagMatch[2]));
+        return;
+      }
+
       // Route to get document with signed URL
       const documentMatch = url.pathname.match(/^\/api\/documents\/([^/]+)$/);
       if (documentMatch && req.method === 'GET') {
@@ -66,6 +142,52 @@ export function createServer() {
         return;
       }
 
+      // Upload session routes
+      if (url.pathname === '/api/uploads' && req.method === 'POST') {
+        await handleCreateUpload(req, res);
+        return;
+      }
+
+      const uploadChunkMatch = url.pathname.match(/^\/api\/uploads\/([^/]+)\/chunks\/([^/]+)$/);
+      if (uploadChunkMatch && req.method === 'PUT') {
+        await handleUploadChunk(req, res, uploadChunkMatch[1], uploadChunkMatch[2]);
+        return;
+      }
+
+      const completeUploadMatch = url.pathname.match(/^\/api\/uploads\/([^/]+)\/complete$/);
+      if (completeUploadMatch && req.method === 'POST') {
+        await handleCompleteUpload(req, res, completeUploadMatch[1]);
+        return;
+      }
+
+      const uploadMatch = url.pathname.match(/^\/api\/uploads\/([^/]+)$/);
+      if (uploadMatch && req.method === 'GET') {
+        await handleGetUpload(req, res, uploadMatch[1]);
+        return;
+      }
+      if (uploadMatch && req.method === 'DELETE') {
+        await handleCancelUpload(req, res, uploadMatch[1]);
+        return;
+      }
+
+      // Question answering
+      if (url.pathname === '/api/ask' && req.method === 'POST') {
+        await handleAsk(req, res);
+        return;
+      }
+
+      // Job routes
+      if (url.pathname === '/api/jobs/run' && (req.method === 'GET' || req.method === 'POST')) {
+        await handleRunJobs(req, res);
+        return;
+      }
+
+      const jobMatch = url.pathname.match(/^\/api\/jobs\/([^/]+)$/);
+      if (jobMatch && req.method === 'GET') {
+        await handleGetJob(req, res, jobMatch[1]);
+        return;
+      }
+
       // Group routes
       if (url.pathname === '/api/groups' && req.method === 'GET') {
         await handleListGroups(req, res);
@@ -87,6 +209,10 @@ export function createServer() {
         await handleDeleteGroup(req, res, groupMatch[1]);
         return;
       }
+      if (groupMatch && req.method === 'PATCH') {
+        await handleUpdateGroup(req, res, groupMatch[1]);
+        return;
+      }
 
       // Route to add document to group (POST) or get group documents (GET)
       const groupDocumentsMatch = url.pathname.match(/^\/api\/groups\/([^/]+)\/documents$/);
@@ -107,6 +233,64 @@ export function createServer() {
         return;
       }
 
+      const groupTemplatesMatch = url.pathname.match(/^\/api\/groups\/([^/]+)\/templates$/);
+      if (groupTemplatesMatch && req.method === 'GET') {
+        await handleGetGroupTemplates(req, res, groupTemplatesMatch[1]);
+        return;
+      }
+      if (groupTemplatesMatch && req.method === 'PUT') {
+        await handleSetGroupTemplates(req, res, groupTemplatesMatch[1]);
+        return;
+      }
+
+      // Tag routes
+      if (url.pathname === '/api/tags' && req.method === 'GET') {
+        await handleListTags(req, res);
+        return;
+      }
+
+      if (url.pathname === '/api/tags' && req.method === 'POST') {
+        await handleCreateTag(req, res);
+        return;
+      }
+
+      const tagMatch = url.pathname.match(/^\/api\/tags\/([^/]+)$/);
+      if (tagMatch && req.method === 'PATCH') {
+        await handleUpdateTag(req, res, tagMatch[1]);
+        return;
+      }
+      if (tagMatch && req.method === 'DELETE') {
+        await handleDeleteTag(req, res, tagMatch[1]);
+        return;
+      }
+
+      // Template routes
+      if (url.pathname === '/api/templates' && req.method === 'GET') {
+        await handleListTemplates(req, res);
+        return;
+      }
+
+      if (url.pathname === '/api/templates' && req.method === 'POST') {
+        await handleCreateTemplate(req, res);
+        return;
+      }
+
+      const templateMatch = url.pathname.match(/^\/api\/templates\/([^/]+)$/);
+      if (templateMatch && req.method === 'PATCH') {
+        await handleUpdateTemplate(req, res, templateMatch[1]);
+        return;
+      }
+      if (templateMatch && req.method === 'DELETE') {
+        await handleDeleteTemplate(req, res, templateMatch[1]);
+        return;
+      }
+
+      // Usage routes
+      if (url.pathname === '/api/usage' && req.method === 'GET') {
+        await handleGetUsage(req, res);
+        return;
+      }
+
       // 404 for unknown routes
       res.writeHead(404, { 'Content-Type': 'application/json' });
       res.end(
@@ -165,12 +349,11 @@ async function handleRetry(req: IncomingMessage, res: ServerResponse, documentId
 }
 
 /**
- * Handle update document content request
+ * Handle similar documents request
  */
-async function handleUpdateContent(req: IncomingMessage, res: ServerResponse, documentId: string) {
+async function handleSimilarDocuments(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { PATCH } = await import('./routes/documents/update-content.js');
-    const body = await getRequestBody(req);
+    const { GET } = await import('./routes/documents/similar.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -179,15 +362,14 @@ async function handleUpdateContent(req: IncomingMessage, res: ServerResponse, do
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'PATCH',
+      method: req.method || 'GET',
       headers,
-      body: body ? body : undefined,
     });
 
-    const response = await PATCH(request, { params: { id: documentId } });
+    const response = await GET(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Update content handler error:', error);
+    console.error('Similar documents handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -199,12 +381,11 @@ async function handleUpdateContent(req: IncomingMessage, res: ServerResponse, do
 }
 
 /**
- * Handle regenerate document content request
+ * Handle list document versions request
  */
-async function handleRegenerateContent(req: IncomingMessage, res: ServerResponse, documentId: string) {
+async function handleListVersions(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { POST } = await import('./routes/documents/regenerate-content.js');
-    const body = await getRequestBody(req);
+    const { GET } = await import('./routes/documents/versions-list.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -213,15 +394,14 @@ async function handleRegenerateContent(req: IncomingMessage, res: ServerResponse
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'POST',
+      method: req.method || 'GET',
       headers,
-      body: body ? body : undefined,
     });
 
-    const response = await POST(request, { params: { id: documentId } });
+    const response = await GET(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Regenerate content handler error:', error);
+    console.error('List versions handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -233,12 +413,11 @@ async function handleRegenerateContent(req: IncomingMessage, res: ServerResponse
 }
 
 /**
- * Handle delete document request
+ * Handle get document version request
  */
-async function handleDeleteDocument(req: IncomingMessage, res: ServerResponse, documentId: string) {
+async function handleGetVersion(req: IncomingMessage, res: ServerResponse, documentId: string, version: string) {
   try {
-    const { DELETE } = await import('./routes/documents/delete.js');
-    const body = await getRequestBody(req);
+    const { GET } = await import('./routes/documents/version-get.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -247,15 +426,14 @@ async function handleDeleteDocument(req: IncomingMessage, res: ServerResponse, d
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'DELETE',
+      method: req.method || 'GET',
       headers,
-      body: body ? body : undefined,
     });
 
-    const response = await DELETE(request, { params: { id: documentId } });
+    const response = await GET(request, { params: { id: documentId, version } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Delete document handler error:', error);
+    console.error('Get version handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -267,11 +445,12 @@ async function handleDeleteDocument(req: IncomingMessage, res: ServerResponse, d
 }
 
 /**
- * Handle list groups request
+ * Handle upload document version request
  */
-async function handleListGroups(req: IncomingMessage, res: ServerResponse) {
+async function handleUploadVersion(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { GET } = await import('./routes/groups/list.js');
+    const { POST } = await import('./routes/documents/versions.js');
+    const body = await getRequestBody(req);
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -280,14 +459,15 @@ async function handleListGroups(req: IncomingMessage, res: ServerResponse) {
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'GET',
+      method: req.method || 'POST',
       headers,
+      body: body ? body : undefined,
     });
 
-    const response = await GET(request);
+    const response = await POST(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('List groups handler error:', error);
+    console.error('Upload version handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -299,12 +479,11 @@ async function handleListGroups(req: IncomingMessage, res: ServerResponse) {
 }
 
 /**
- * Handle create group request
+ * Handle list content revisions request
  */
-async function handleCreateGroup(req: IncomingMessage, res: ServerResponse) {
+async function handleListRevisions(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { POST } = await import('./routes/groups/create.js');
-    const body = await getRequestBody(req);
+    const { GET } = await import('./routes/documents/revisions-list.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -313,15 +492,14 @@ async function handleCreateGroup(req: IncomingMessage, res: ServerResponse) {
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'POST',
+      method: req.method || 'GET',
       headers,
-      body: body ? body : undefined,
     });
 
-    const response = await POST(request);
+    const response = await GET(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Create group handler error:', error);
+    console.error('List revisions handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -333,11 +511,11 @@ async function handleCreateGroup(req: IncomingMessage, res: ServerResponse) {
 }
 
 /**
- * Handle delete group request
+ * Handle restore content revision request
  */
-async function handleDeleteGroup(req: IncomingMessage, res: ServerResponse, groupId: string) {
+async function handleRestoreRevision(req: IncomingMessage, res: ServerResponse, documentId: string, revisionId: string) {
   try {
-    const { DELETE } = await import('./routes/groups/delete.js');
+    const { POST } = await import('./routes/documents/revision-restore.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -346,14 +524,14 @@ async function handleDeleteGroup(req: IncomingMessage, res: ServerResponse, grou
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'DELETE',
+      method: req.method || 'POST',
       headers,
     });
 
-    const response = await DELETE(request, { params: { id: groupId } });
+    const response = await POST(request, { params: { id: documentId, revisionId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Delete group handler error:', error);
+    console.error('Restore revision handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -365,11 +543,12 @@ async function handleDeleteGroup(req: IncomingMessage, res: ServerResponse, grou
 }
 
 /**
- * Handle suggest groups request
+ * Handle update document content request
  */
-async function handleSuggestGroups(req: IncomingMessage, res: ServerResponse) {
+async function handleUpdateContent(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { POST } = await import('./routes/groups/suggest.js');
+    const { PATCH } = await import('./routes/documents/update-content.js');
+    const body = await getRequestBody(req);
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -378,14 +557,15 @@ async function handleSuggestGroups(req: IncomingMessage, res: ServerResponse) {
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'POST',
+      method: req.method || 'PATCH',
       headers,
+      body: body ? body : undefined,
     });
 
-    const response = await POST(request);
+    const response = await PATCH(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Suggest groups handler error:', error);
+    console.error('Update content handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -397,11 +577,11 @@ async function handleSuggestGroups(req: IncomingMessage, res: ServerResponse) {
 }
 
 /**
- * Handle add document to group request
+ * Handle regenerate document content request
  */
-async function handleAddDocumentToGroup(req: IncomingMessage, res: ServerResponse, groupId: string) {
+async function handleRegenerateContent(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { POST } = await import('./routes/groups/documents.js');
+    const { POST } = await import('./routes/documents/regenerate-content.js');
     const body = await getRequestBody(req);
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
@@ -416,10 +596,10 @@ async function handleAddDocumentToGroup(req: IncomingMessage, res: ServerRespons
       body: body ? body : undefined,
     });
 
-    const response = await POST(request, { params: { id: groupId } });
+    const response = await POST(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Add document to group handler error:', error);
+    console.error('Regenerate content handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -431,16 +611,12 @@ async function handleAddDocumentToGroup(req: IncomingMessage, res: ServerRespons
 }
 
 /**
- * Handle remove document from group request
+ * Handle delete document request
  */
-async function handleRemoveDocumentFromGroup(
-  req: IncomingMessage,
-  res: ServerResponse,
-  groupId: string,
-  documentId: string
-) {
+async function handleDeleteDocument(req: IncomingMessage, res: ServerResponse, documentId: string) {
   try {
-    const { DELETE } = await import('./routes/groups/documents.js');
+    const { DELETE } = await import('./routes/documents/delete.js');
+    const body = await getRequestBody(req);
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -451,12 +627,13 @@ async function handleRemoveDocumentFromGroup(
     const request = new Request(`http://${req.headers.host}${req.url}`, {
       method: req.method || 'DELETE',
       headers,
+      body: body ? body : undefined,
     });
 
-    const response = await DELETE(request, { params: { id: groupId, documentId } });
+    const response = await DELETE(request, { params: { id: documentId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Remove document from group handler error:', error);
+    console.error('Delete document handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -468,11 +645,11 @@ async function handleRemoveDocumentFromGroup(
 }
 
 /**
- * Handle get group documents request
+ * Handle list groups request
  */
-async function handleGetGroupDocuments(req: IncomingMessage, res: ServerResponse, groupId: string) {
+async function handleListGroups(req: IncomingMessage, res: ServerResponse) {
   try {
-    const { GET } = await import('./routes/groups/documents-list.js');
+    const { GET } = await import('./routes/groups/list.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -485,10 +662,10 @@ async function handleGetGroupDocuments(req: IncomingMessage, res: ServerResponse
       headers,
     });
 
-    const response = await GET(request, { params: { id: groupId } });
+    const response = await GET(request);
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Get group documents handler error:', error);
+    console.error('List groups handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -500,11 +677,12 @@ async function handleGetGroupDocuments(req: IncomingMessage, res: ServerResponse
 }
 
 /**
- * Handle get document request
+ * Handle create group request
  */
-async function handleGetDocument(req: IncomingMessage, res: ServerResponse, documentId: string) {
+async function handleCreateGroup(req: IncomingMessage, res: ServerResponse) {
   try {
-    const { GET } = await import('./routes/documents/get.js');
+    const { POST } = await import('./routes/groups/create.js');
+    const body = await getRequestBody(req);
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -513,14 +691,15 @@ async function handleGetDocument(req: IncomingMessage, res: ServerResponse, docu
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'GET',
+      method: req.method || 'POST',
       headers,
+      body: body ? body : undefined,
     });
 
-    const response = await GET(request, { params: { id: documentId } });
+    const response = await POST(request);
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Get document error:', error);
+    console.error('Create group handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -532,11 +711,11 @@ async function handleGetDocument(req: IncomingMessage, res: ServerResponse, docu
 }
 
 /**
- * Handle search documents request
+ * Handle delete group request
  */
-async function handleSearchDocuments(req: IncomingMessage, res: ServerResponse) {
+async function handleDeleteGroup(req: IncomingMessage, res: ServerResponse, groupId: string) {
   try {
-    const { GET } = await import('./routes/documents/search.js');
+    const { DELETE } = await import('./routes/groups/delete.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
@@ -545,14 +724,14 @@ async function handleSearchDocuments(req: IncomingMessage, res: ServerResponse)
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'GET',
+      method: req.method || 'DELETE',
       headers,
     });
 
-    const response = await GET(request);
+    const response = await DELETE(request, { params: { id: groupId } });
     await sendResponse(res, response);
   } catch (error) {
-    console.error('Search documents handler error:', error);
+    console.error('Delete group handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -564,27 +743,29 @@ async function handleSearchDocuments(req: IncomingMessage, res: ServerResponse)
 }
 
 /**
- * Handle list documents request
+ * Handle update group request
  */
-async function handleListDocuments(req: IncomingMessage, res: ServerResponse) {
+async function handleUpdateGroup(req: IncomingMessage, res: ServerResponse, groupId: string) {
   try {
-    const { GET } = await import('./routes/documents/list.js');
+    const { PATCH } = await import('./routes/groups/update.js');
+    const body = await getRequestBody(req);
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
-        const headerKey = key.toLowerCase() === 'authorization' ? 'Authorization' : key;
-        headers.set(headerKey, Array.isArray(value) ? value.join(', ') : value);
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
       }
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
-      method: req.method || 'GET',
+      method: req.method || 'PATCH',
       headers,
+      body: body ? body : undefined,
     });
 
-    const response = await GET(request);
+    const response = await PATCH(request, { params: { id: groupId } });
     await sendResponse(res, response);
   } catch (error) {
+    console.error('Update group handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -596,30 +777,27 @@ async function handleListDocuments(req: IncomingMessage, res: ServerResponse) {
 }
 
 /**
- * Handle upload request
+ * Handle suggest groups request
  */
-async function handleUpload(req: IncomingMessage, res: ServerResponse) {
+async function handleSuggestGroups(req: IncomingMessage, res: ServerResponse) {
   try {
-    const { POST } = await import('./routes/documents/upload.js');
-
-    const body = await getRequestBody(req);
+    const { POST } = await import('./routes/groups/suggest.js');
     const headers = new Headers();
     Object.entries(req.headers).forEach(([key, value]) => {
       if (value && key !== 'host') {
-        const headerKey = key.toLowerCase() === 'authorization' ? 'Authorization' : key;
-        headers.set(headerKey, Array.isArray(value) ? value.join(', ') : value);
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
       }
     });
 
     const request = new Request(`http://${req.headers.host}${req.url}`, {
       method: req.method || 'POST',
       headers,
-      body: body ? body : undefined,
     });
 
     const response = await POST(request);
     await sendResponse(res, response);
   } catch (error) {
+    console.error('Suggest groups handler error:', error);
     res.writeHead(500, { 'Content-Type': 'application/json' });
     res.end(
       JSON.stringify({
@@ -631,14 +809,1106 @@ async function handleUpload(req: IncomingMessage, res: ServerResponse) {
 }
 
 /**
- * Get request body as buffer
+ * Handle add document to group request
  */
-function getRequestBody(req: IncomingMessage): Promise<Buffer | null> {
-  return new Promise((resolve, reject) => {
-    const chunks: Buffer[] = [];
-    req.on('data', (chunk) => chunks.push(chunk));
-    req.on('end', () => {
-      resolve(chunks.length > 0 ? Buffer.concat(chunks) : null);
+async function handleAddDocumentToGroup(req: IncomingMessage, res: ServerResponse, groupId: string) {
+  try {
+    const { POST } = await import('./routes/groups/documents.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request, { params: { id: groupId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Add document to group handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle remove document from group request
+ */
+async function handleRemoveDocumentFromGroup(
+  req: IncomingMessage,
+  res: ServerResponse,
+  groupId: string,
+  documentId: string
+) {
+  try {
+    const { DELETE } = await import('./routes/groups/documents.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'DELETE',
+      headers,
+    });
+
+    const response = await DELETE(request, { params: { id: groupId, documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Remove document from group handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get group documents request
+ */
+async function handleGetGroupDocuments(req: IncomingMessage, res: ServerResponse, groupId: string) {
+  try {
+    const { GET } = await import('./routes/groups/documents-list.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: groupId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get group documents handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get document tags request
+ */
+async function handleGetDocumentTags(req: IncomingMessage, res: ServerResponse, documentId: string) {
+  try {
+    const { GET } = await import('./routes/documents/tags.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get document tags handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle add document tag request
+ */
+async function handleAddDocumentTag(req: IncomingMessage, res: ServerResponse, documentId: string) {
+  try {
+    const { POST } = await import('./routes/documents/tags.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request, { params: { id: documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Add document tag handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle remove document tag request
+ */
+async function handleRemoveDocumentTag(req: IncomingMessage, res: ServerResponse, documentId: string, tagId: string) {
+  try {
+    const { DELETE } = await import('./routes/documents/tags.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'DELETE',
+      headers,
+    });
+
+    const response = await DELETE(request, { params: { id: documentId, tagId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Remove document tag handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle reject suggested tag request
+ */
+async function handleRejectSuggestedTag(req: IncomingMessage, res: ServerResponse, documentId: string, name: string) {
+  try {
+    const { DELETE } = await import('./routes/documents/suggested-tags.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'DELETE',
+      headers,
+    });
+
+    const response = await DELETE(request, { params: { id: documentId, name } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Reject suggested tag handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle list tags request
+ */
+async function handleListTags(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { GET } = await import('./routes/tags/list.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('List tags handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle create tag request
+ */
+async function handleCreateTag(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { POST } = await import('./routes/tags/create.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Create tag handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle update tag request
+ */
+async function handleUpdateTag(req: IncomingMessage, res: ServerResponse, tagId: string) {
+  try {
+    const { PATCH } = await import('./routes/tags/update.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'PATCH',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await PATCH(request, { params: { id: tagId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Update tag handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle delete tag request
+ */
+async function handleDeleteTag(req: IncomingMessage, res: ServerResponse, tagId: string) {
+  try {
+    const { DELETE } = await import('./routes/tags/delete.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'DELETE',
+      headers,
+    });
+
+    const response = await DELETE(request, { params: { id: tagId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Delete tag handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get document templates request
+ */
+async function handleGetDocumentTemplates(req: IncomingMessage, res: ServerResponse, documentId: string) {
+  try {
+    const { GET } = await import('./routes/documents/templates.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get document templates handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle set document templates request
+ */
+async function handleSetDocumentTemplates(req: IncomingMessage, res: ServerResponse, documentId: string) {
+  try {
+    const { PUT } = await import('./routes/documents/templates.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'PUT',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await PUT(request, { params: { id: documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Set document templates handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle run document templates request
+ */
+async function handleRunDocumentTemplates(req: IncomingMessage, res: ServerResponse, documentId: string) {
+  try {
+    const { POST } = await import('./routes/documents/templates-run.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+    });
+
+    const response = await POST(request, { params: { id: documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Run document templates handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get group templates request
+ */
+async function handleGetGroupTemplates(req: IncomingMessage, res: ServerResponse, groupId: string) {
+  try {
+    const { GET } = await import('./routes/groups/templates.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: groupId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get group templates handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle set group templates request
+ */
+async function handleSetGroupTemplates(req: IncomingMessage, res: ServerResponse, groupId: string) {
+  try {
+    const { PUT } = await import('./routes/groups/templates.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'PUT',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await PUT(request, { params: { id: groupId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Set group templates handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle list templates request
+ */
+async function handleListTemplates(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { GET } = await import('./routes/templates/list.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('List templates handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle create template request
+ */
+async function handleCreateTemplate(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { POST } = await import('./routes/templates/create.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Create template handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle update template request
+ */
+async function handleUpdateTemplate(req: IncomingMessage, res: ServerResponse, templateId: string) {
+  try {
+    const { PATCH } = await import('./routes/templates/update.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'PATCH',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await PATCH(request, { params: { id: templateId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Update template handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle delete template request
+ */
+async function handleDeleteTemplate(req: IncomingMessage, res: ServerResponse, templateId: string) {
+  try {
+    const { DELETE } = await import('./routes/templates/delete.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'DELETE',
+      headers,
+    });
+
+    const response = await DELETE(request, { params: { id: templateId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Delete template handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get usage request
+ */
+async function handleGetUsage(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { GET } = await import('./routes/usage/get.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get usage handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get document request
+ */
+async function handleGetDocument(req: IncomingMessage, res: ServerResponse, documentId: string) {
+  try {
+    const { GET } = await import('./routes/documents/get.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: documentId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get document error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle search documents request
+ */
+async function handleSearchDocuments(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { GET } = await import('./routes/documents/search.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Search documents handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle list documents request
+ */
+async function handleListDocuments(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { GET } = await import('./routes/documents/list.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        const headerKey = key.toLowerCase() === 'authorization' ? 'Authorization' : key;
+        headers.set(headerKey, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle upload request
+ */
+async function handleUpload(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { POST } = await import('./routes/documents/upload.js');
+
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        const headerKey = key.toLowerCase() === 'authorization' ? 'Authorization' : key;
+        headers.set(headerKey, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle create upload session request
+ */
+async function handleCreateUpload(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { POST } = await import('./routes/uploads/create.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Create upload handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get upload session request
+ */
+async function handleGetUpload(req: IncomingMessage, res: ServerResponse, uploadId: string) {
+  try {
+    const { GET } = await import('./routes/uploads/get.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: uploadId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get upload handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle cancel upload session request
+ */
+async function handleCancelUpload(req: IncomingMessage, res: ServerResponse, uploadId: string) {
+  try {
+    const { DELETE } = await import('./routes/uploads/cancel.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'DELETE',
+      headers,
+    });
+
+    const response = await DELETE(request, { params: { id: uploadId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Cancel upload handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle upload chunk request
+ */
+async function handleUploadChunk(req: IncomingMessage, res: ServerResponse, uploadId: string, chunkIndex: string) {
+  try {
+    const { PUT } = await import('./routes/uploads/chunk.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'PUT',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await PUT(request, { params: { id: uploadId, index: chunkIndex } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Upload chunk handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle complete upload session request
+ */
+async function handleCompleteUpload(req: IncomingMessage, res: ServerResponse, uploadId: string) {
+  try {
+    const { POST } = await import('./routes/uploads/complete.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request, { params: { id: uploadId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Complete upload handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle get job request
+ */
+async function handleGetJob(req: IncomingMessage, res: ServerResponse, jobId: string) {
+  try {
+    const { GET } = await import('./routes/jobs/get.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: req.method || 'GET',
+      headers,
+    });
+
+    const response = await GET(request, { params: { id: jobId } });
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Get job handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle run job worker request
+ */
+async function handleRunJobs(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { POST } = await import('./routes/jobs/run.js');
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: 'POST',
+      headers,
+    });
+
+    const response = await POST(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Run jobs handler error:', error);
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Handle ask request (streams Server-Sent Events)
+ */
+async function handleAsk(req: IncomingMessage, res: ServerResponse) {
+  try {
+    const { POST } = await import('./routes/ask/ask.js');
+    const body = await getRequestBody(req);
+    const headers = new Headers();
+    Object.entries(req.headers).forEach(([key, value]) => {
+      if (value && key !== 'host') {
+        headers.set(key, Array.isArray(value) ? value.join(', ') : value);
+      }
+    });
+
+    const request = new Request(`http://${req.headers.host}${req.url}`, {
+      method: 'POST',
+      headers,
+      body: body ? body : undefined,
+    });
+
+    const response = await POST(request);
+    await sendResponse(res, response);
+  } catch (error) {
+    console.error('Ask handler error:', error);
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(500, { 'Content-Type': 'application/json' });
+    res.end(
+      JSON.stringify({
+        error: 'INTERNAL_ERROR',
+        message: error instanceof Error ? error.message : 'Internal server error',
+      })
+    );
+  }
+}
+
+/**
+ * Get request body as buffer
+ */
+function getRequestBody(req: IncomingMessage): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      resolve(chunks.length > 0 ? Buffer.concat(chunks) : null);
     });
     req.on('error', reject);
   });
@@ -659,6 +1929,20 @@ async function sendResponse(
     }
   });
 
+  // Stream event-stream bodies chunk by chunk so clients see partial output
+  const contentType = webResponse.headers.get('content-type') || '';
+  if (webResponse.body && contentType.startsWith('text/event-stream')) {
+    res.flushHeaders();
+    const reader = webResponse.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      res.write(value);
+    }
+    res.end();
+    return;
+  }
+
   // Get response body
   const arrayBuffer = await webResponse.arrayBuffer();
   const buffer = Buffer.from(arrayBuffer);
@@ -673,6 +1957,16 @@ export function startServer() {
 
   server.listen(PORT);
 
+  // Process queued jobs in-process during local development
+  import('./lib/jobs/index.js')
+    .then(({ startWorkerLoop }) => {
+      const stopWorker = startWorkerLoop();
+      server.on('close', stopWorker);
+    })
+    .catch((error) => {
+      console.error('❌ Failed to start job worker:', error);
+    });
+
   server.on('error', (error: NodeJS.ErrnoException) => {
     if (error.code === 'EADDRINUSE') {
       console.error(`❌ Port ${PORT} is already in use. Please use a different port.`);
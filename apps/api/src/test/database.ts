@@ -0,0 +1,391 @@
+/**
+ * Test Database
+ *
+ * An in-process Postgres (PGlite, with pgvector) with every migration in
+ * supabase/migrations applied, and a stand-in for the Supabase admin client
+ * that runs its queries there. Tests of code that calls database functions
+ * (RPCs) run the real SQL instead of a mock of it.
+ *
+ * Usage:
+ *   const supabase = vi.hoisted(() => ({ client: null as unknown }));
+ *   vi.mock('../supabase', () => ({ get supabaseAdmin() { return supabase.client; } }));
+ *
+ *   beforeAll(async () => {
+ *     database = await createTestDatabase();
+ *     supabase.client = database.client;
+ *   });
+ *
+ * Assumptions:
+ * - The base tables (documents, groups, document_groups) were created in
+ *   the Supabase dashboard before migrations existed; BASE_SCHEMA recreates
+ *   them from the shared Document and Group types
+ * - The client covers the query builder methods the API uses on plain
+ *   columns; anything else throws, so a test never passes on a query that
+ *   was silently ignored
+ * - Timestamps are returned as strings and vectors as pgvector literals,
+ *   as PostgREST returns them
+ */
+
+import { readFileSync, readdirSync } from 'fs';
+import { dirname, join } from 'path';
+import { fileURLToPath } from 'url';
+import { PGlite } from '@electric-sql/pglite';
+import { vector } from '@electric-sql/pglite-pgvector';
+
+const MIGRATIONS_DIR = join(dirname(fileURLToPath(import.meta.url)), '../../../../supabase/migrations');
+
+const BASE_SCHEMA = `
+  CREATE TABLE documents (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    storage_path TEXT NOT NULL,
+    summary TEXT,
+    markdown TEXT,
+    summary_source TEXT NOT NULL DEFAULT 'ai_generated',
+    markdown_source TEXT NOT NULL DEFAULT 'ai_generated',
+    status TEXT NOT NULL DEFAULT 'UPLOADED',
+    ai_model TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE groups (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id UUID NOT NULL,
+    name TEXT NOT NULL,
+    type TEXT NOT NULL DEFAULT 'MANUAL',
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+  );
+
+  CREATE TABLE document_groups (
+    document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+    group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    PRIMARY KEY (document_id, group_id)
+  );
+`;
+
+// timestamptz, timestamp and date stay strings
+const TEXT_TYPES = [1184, 1114, 1082];
+
+type Row = Record<string, unknown>;
+
+interface QueryResult {
+  data: unknown;
+  error: { message: string; code?: string } | null;
+  count?: number | null;
+}
+
+/**
+ * A migrated database and a Supabase client stand-in that queries it
+ */
+export interface TestDatabase {
+  db: PGlite;
+  client: {
+    from(table: string): TableQuery;
+    rpc(fn: string, params?: Record<string, unknown>): Promise<QueryResult>;
+  };
+  /** Remove every row, keeping the schema */
+  reset(): Promise<void>;
+  close(): Promise<void>;
+}
+
+function quoteIdentifier(name: string): string {
+  if (!/^[a-z_][a-z0-9_]*$/i.test(name)) {
+    throw new Error(`Test database: unsupported identifier "${name}"`);
+  }
+  return `"${name}"`;
+}
+
+function columnList(columns: string): string {
+  const trimmed = columns.trim();
+  return trimmed === '*' || trimmed === ''
+    ? '*'
+    : trimmed.split(',').map((column) => quoteIdentifier(column.trim())).join(', ');
+}
+
+/**
+ * Bind a JS value as a parameter. Objects are sent as JSON and arrays as
+ * Postgres array literals, like PostgREST does for jsonb and array columns.
+ */
+function toParameter(value: unknown): unknown {
+  if (value !== null && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+    return JSON.stringify(value);
+  }
+  return value;
+}
+
+/**
+ * Query builder with the subset of the PostgREST builder the API uses
+ */
+export class TableQuery implements PromiseLike<QueryResult> {
+  private action: 'select' | 'insert' | 'upsert' | 'update' | 'delete' = 'select';
+  private columns = '*';
+  private returning: string | null = null;
+  private rows: Row[] = [];
+  private changes: Row = {};
+  private conflictColumns: string[] = [];
+  private filters: Array<{ sql: string; values: unknown[] }> = [];
+  private ordering: string[] = [];
+  private limitCount: number | null = null;
+  private singleRow: 'single' | 'maybeSingle' | null = null;
+  private countOnly = false;
+
+  constructor(
+    private db: PGlite,
+    private table: string
+  ) {}
+
+  select(columns = '*', options: { count?: 'exact'; head?: boolean } = {}): this {
+    if (this.action === 'select') {
+      this.columns = columns;
+      this.countOnly = options.head === true;
+    } else {
+      this.returning = columns;
+    }
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.rows = Array.isArray(values) ? values : [values];
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string } = {}): this {
+    this.action = 'upsert';
+    this.rows = Array.isArray(values) ? values : [values];
+    this.conflictColumns = (options.onConflict || 'id').split(',').map((column) => column.trim());
+    return this;
+  }
+
+  update(changes: Row): this {
+    this.action = 'update';
+    this.changes = changes;
+    return this;
+  }
+
+  delete(): this {
+    this.action = 'delete';
+    return this;
+  }
+
+  private where(column: string, operator: string, value: unknown): this {
+    this.filters.push({ sql: `${quoteIdentifier(column)} ${operator} $`, values: [toParameter(value)] });
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    return this.where(column, '=', value);
+  }
+
+  neq(column: string, value: unknown): this {
+    return this.where(column, '<>', value);
+  }
+
+  gt(column: string, value: unknown): this {
+    return this.where(column, '>', value);
+  }
+
+  gte(column: string, value: unknown): this {
+    return this.where(column, '>=', value);
+  }
+
+  lt(column: string, value: unknown): this {
+    return this.where(column, '<', value);
+  }
+
+  lte(column: string, value: unknown): this {
+    return this.where(column, '<=', value);
+  }
+
+  in(column: string, values: unknown[]): this {
+    if (values.length === 0) {
+      this.filters.push({ sql: 'false', values: [] });
+      return this;
+    }
+    this.filters.push({
+      sql: `${quoteIdentifier(column)} IN (${values.map(() => '$').join(', ')})`,
+      values: values.map(toParameter),
+    });
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push({ sql: `${quoteIdentifier(column)} IS ${value === null ? 'NULL' : String(value).toUpperCase()}`, values: [] });
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.ordering.push(`${quoteIdentifier(column)} ${options.ascending === false ? 'DESC' : 'ASC'}`);
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitCount = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleRow = 'single';
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.singleRow = 'maybeSingle';
+    return this;
+  }
+
+  then<TResult1 = QueryResult, TResult2 = never>(
+    onfulfilled?: ((value: QueryResult) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return this.run().then(onfulfilled, onrejected);
+  }
+
+  private whereClause(values: unknown[]): string {
+    if (this.filters.length === 0) {
+      return '';
+    }
+    const conditions = this.filters.map((filter) => {
+      let sql = filter.sql;
+      for (const value of filter.values) {
+        values.push(value);
+        sql = sql.replace(/\$(?!\d)/, `$${values.length}`);
+      }
+      return sql;
+    });
+    return ` WHERE ${conditions.join(' AND ')}`;
+  }
+
+  private toSql(): { sql: string; values: unknown[] } {
+    const table = quoteIdentifier(this.table);
+    const values: unknown[] = [];
+    const returning = this.returning !== null ? ` RETURNING ${columnList(this.returning)}` : '';
+
+    switch (this.action) {
+      case 'select': {
+        const columns = this.countOnly ? 'count(*)::int AS count' : columnList(this.columns);
+        let sql = `SELECT ${columns} FROM ${table}${this.whereClause(values)}`;
+        if (this.ordering.length > 0 && !this.countOnly) {
+          sql += ` ORDER BY ${this.ordering.join(', ')}`;
+        }
+        if (this.limitCount !== null && !this.countOnly) {
+          sql += ` LIMIT ${Number(this.limitCount)}`;
+        }
+        return { sql, values };
+      }
+      case 'insert':
+      case 'upsert': {
+        const columns = [...new Set(this.rows.flatMap((row) => Object.keys(row)))];
+        const tuples = this.rows.map((row) => `(${columns.map((column) => {
+          if (!(column in row)) {
+            return 'DEFAULT';
+          }
+          values.push(toParameter(row[column]));
+          return `$${values.length}`;
+        }).join(', ')})`);
+        let sql = `INSERT INTO ${table} (${columns.map(quoteIdentifier).join(', ')}) VALUES ${tuples.join(', ')}`;
+        if (this.action === 'upsert') {
+          const updates = columns.filter((column) => !this.conflictColumns.includes(column));
+          sql += ` ON CONFLICT (${this.conflictColumns.map(quoteIdentifier).join(', ')}) `;
+          sql += updates.length > 0
+            ? `DO UPDATE SET ${updates.map((column) => `${quoteIdentifier(column)} = EXCLUDED.${quoteIdentifier(column)}`).join(', ')}`
+            : 'DO NOTHING';
+        }
+        return { sql: sql + returning, values };
+      }
+      case 'update': {
+        const assignments = Object.entries(this.changes).map(([column, value]) => {
+          values.push(toParameter(value));
+          return `${quoteIdentifier(column)} = $${values.length}`;
+        });
+        return { sql: `UPDATE ${table} SET ${assignments.join(', ')}${this.whereClause(values)}${returning}`, values };
+      }
+      case 'delete':
+        return { sql: `DELETE FROM ${table}${this.whereClause(values)}${returning}`, values };
+    }
+  }
+
+  private async run(): Promise<QueryResult> {
+    const { sql, values } = this.toSql();
+    let rows: Row[];
+    try {
+      rows = (await this.db.query<Row>(sql, values)).rows;
+    } catch (error) {
+      const failure = error as Error & { code?: string };
+      return { data: null, error: { message: failure.message, code: failure.code } };
+    }
+
+    if (this.countOnly) {
+      return { data: null, error: null, count: rows[0].count as number };
+    }
+    const data = this.action === 'select' || this.returning !== null ? rows : null;
+    if (this.singleRow) {
+      const first = data?.[0] ?? null;
+      if (this.singleRow === 'single' && (!data || data.length !== 1)) {
+        return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+      }
+      return { data: first, error: null };
+    }
+    return { data, error: null };
+  }
+}
+
+/**
+ * Call a database function like supabase.rpc: set-returning functions give
+ * their rows, functions returning one row that row, and scalar functions
+ * their value
+ */
+async function callFunction(db: PGlite, fn: string, params: Record<string, unknown> = {}): Promise<QueryResult> {
+  const names = Object.keys(params);
+  const args = names.map((name, index) => `${quoteIdentifier(name)} => $${index + 1}`).join(', ');
+  try {
+    const { rows: [definition] } = await db.query<{ retset: boolean; composite: boolean }>(
+      `SELECT p.proretset AS retset, t.typtype = 'c' OR p.proargmodes IS NOT NULL AS composite
+       FROM pg_proc p JOIN pg_type t ON t.oid = p.prorettype
+       WHERE p.proname = $1 LIMIT 1`,
+      [fn]
+    );
+    const result = await db.query<Row>(`SELECT * FROM ${quoteIdentifier(fn)}(${args})`, names.map((name) => toParameter(params[name])));
+    if (!definition || definition.retset) {
+      return { data: result.rows, error: null };
+    }
+    return { data: definition.composite ? result.rows[0] ?? null : result.rows[0]?.[fn] ?? null, error: null };
+  } catch (error) {
+    const failure = error as Error & { code?: string };
+    return { data: null, error: { message: failure.message, code: failure.code } };
+  }
+}
+
+/**
+ * Create a database with the base schema and every migration applied
+ */
+export async function createTestDatabase(): Promise<TestDatabase> {
+  const db = new PGlite({
+    extensions: { vector },
+    parsers: Object.fromEntries(TEXT_TYPES.map((type) => [type, (value: string) => value])),
+  });
+
+  await db.exec(BASE_SCHEMA);
+  for (const file of readdirSync(MIGRATIONS_DIR).filter((name) => name.endsWith('.sql')).sort()) {
+    try {
+      await db.exec(readFileSync(join(MIGRATIONS_DIR, file), 'utf8'));
+    } catch (error) {
+      throw new Error(`Migration ${file} failed: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  return {
+    db,
+    client: {
+      from: (table) => new TableQuery(db, table),
+      rpc: (fn, params) => callFunction(db, fn, params),
+    },
+    async reset() {
+      const { rows } = await db.query<{ tablename: string }>(`SELECT tablename FROM pg_tables WHERE schemaname = 'public'`);
+      await db.exec(`TRUNCATE ${rows.map((row) => quoteIdentifier(row.tablename)).join(', ')} CASCADE`);
+    },
+    close: () => db.close(),
+  };
+}
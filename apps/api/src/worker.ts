@@ -0,0 +1,44 @@
+/**
+ * Standalone Job Worker
+ * 
+ * Polls the processing job queue outside the API, for deployments where
+ * the API runs as serverless functions. It is the worker that reads
+ * scanned pages by OCR, so it must run where pdftoppm and tesseract are
+ * installed (see Dockerfile.worker); the cron endpoint hands jobs that
+ * need OCR off to it. It has no time limit, and heartbeats keep a job
+ * locked however long its OCR takes.
+ * 
+ * Usage:
+ *   npm run worker
+ * 
+ * SIGINT/SIGTERM stop polling; the job in progress finishes first.
+ */
+
+import dotenv from 'dotenv';
+import { resolve } from 'path';
+import { fileURLToPath } from 'url';
+import { dirname } from 'path';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+
+dotenv.config({ path: resolve(__dirname, '../.env.local') });
+dotenv.config({ path: resolve(__dirname, '../.env') });
+
+if (import.meta.url === `file://${process.argv[1]}`) {
+  // Imported after the environment is loaded, like the server's worker loop
+  import('./lib/jobs/index.js')
+    .then(({ startWorkerLoop }) => {
+      const stopWorker = startWorkerLoop();
+      for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.once(signal, () => {
+          console.log(`[Job Worker] ${signal} received, finishing the current job`);
+          stopWorker();
+        });
+      }
+    })
+    .catch((error) => {
+      console.error('❌ Failed to start job worker:', error);
+      process.exit(1);
+    });
+}
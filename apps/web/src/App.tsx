@@ -1,8 +1,9 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
-import type { Document } from '@ai-document-vault/shared';
+import type { Document, DocumentSearchResult, DocumentsResponse, Group, PaginatedResponse } from '@ai-document-vault/shared';
 import { DocumentUpload } from './components/DocumentUpload';
 import { DocumentList } from './components/DocumentList';
 import { GroupSidebar } from './components/GroupSidebar';
+import { GroupBreadcrumb } from './components/GroupBreadcrumb';
 import { AIGroupSuggestions } from './components/AIGroupSuggestions';
 import { SearchAndFilter } from './components/SearchAndFilter';
 import { ErrorBoundary } from './components/ErrorBoundary';
@@ -16,16 +17,35 @@ import { ThemeToggle } from './components/ThemeToggle';
 import { DocumentItemSkeleton } from './components/Skeleton';
 import { AuthGuard } from './components/AuthGuard';
 import { UserMenu } from './components/UserMenu';
+import { TemplateManager } from './components/TemplateManager';
 import { useAuth } from './contexts/AuthContext';
 
+/**
+ * Where the next page of a list starts
+ */
+type PageInfo = Pick<PaginatedResponse<unknown>, 'next_cursor' | 'has_more'>;
+
+const NO_MORE_PAGES: PageInfo = { next_cursor: null, has_more: false };
+
+function pageInfo(page: PaginatedResponse<unknown>): PageInfo {
+  return { next_cursor: page.next_cursor, has_more: page.has_more };
+}
+
 function App() {
   const { user } = useAuth();
-  const [documents, setDocuments] = useState<Document[]>([]);
+  const [documents, setDocuments] = useState<DocumentSearchResult[]>([]);
+  const [documentsPage, setDocumentsPage] = useState<PageInfo>(NO_MORE_PAGES);
   const [isLoadingDocuments, setIsLoadingDocuments] = useState(true);
   const [selectedGroupId, setSelectedGroupId] = useState<string | null>(null);
-  const [groupDocuments, setGroupDocuments] = useState<Document[]>([]);
+  const [groups, setGroups] = useState<Group[]>([]);
+  const [includeSubgroups, setIncludeSubgroups] = useState(false);
+  const [groupDocuments, setGroupDocuments] = useState<DocumentSearchResult[]>([]);
+  const [groupDocumentsPage, setGroupDocumentsPage] = useState<PageInfo>(NO_MORE_PAGES);
   const [isLoadingGroupDocuments, setIsLoadingGroupDocuments] = useState(false);
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
   const [sidebarRefreshTrigger, setSidebarRefreshTrigger] = useState(0);
+  const [showTemplates, setShowTemplates] = useState(false);
+  const [templatesRefreshTrigger, setTemplatesRefreshTrigger] = useState(0);
   const [searchParams, setSearchParams] = useState<SearchParams>({});
   const [isSearching, setIsSearching] = useState(false);
   const [loadError, setLoadError] = useState<string | null>(null);
@@ -35,7 +55,9 @@ function App() {
   useEffect(() => {
     if (!user) {
       setDocuments([]);
+      setDocumentsPage(NO_MORE_PAGES);
       setGroupDocuments([]);
+      setGroupDocumentsPage(NO_MORE_PAGES);
       setSelectedGroupId(null);
       setSearchParams({});
       setLoadError(null);
@@ -49,7 +71,9 @@ function App() {
     async function loadDocuments() {
       try {
         setDocuments([]);
+        setDocumentsPage(NO_MORE_PAGES);
         setGroupDocuments([]);
+        setGroupDocumentsPage(NO_MORE_PAGES);
         setSelectedGroupId(null);
         setSearchParams({});
         setLoadError(null);
@@ -59,7 +83,7 @@ function App() {
         setMinLoadingTime(true);
         const startTime = Date.now();
         
-        const docs = await getDocuments(false) as Document[];
+        const page = await getDocuments(false) as DocumentsResponse;
         
         const elapsed = Date.now() - startTime;
         const minDelay = 300;
@@ -67,7 +91,8 @@ function App() {
           await new Promise(resolve => setTimeout(resolve, minDelay - elapsed));
         }
         
-        setDocuments(docs);
+        setDocuments(page.items);
+        setDocumentsPage(pageInfo(page));
       } catch (error) {
         const errorMessage = error instanceof ApiClientError
           ? error.message
@@ -86,7 +111,14 @@ function App() {
     let cancelled = false;
     
     async function performSearch() {
-      const hasSearchParams = searchParams.query || searchParams.status || searchParams.groupId;
+      const hasSearchParams =
+        searchParams.query ||
+        searchParams.status ||
+        searchParams.groupId ||
+        searchParams.tagId ||
+        searchParams.documentType ||
+        searchParams.language ||
+        searchParams.dateKind;
       
       if (!hasSearchParams && !selectedGroupId) {
         if (documents.length === 0) {
@@ -95,7 +127,7 @@ function App() {
           const startTime = Date.now();
           
           try {
-            const docs = await getDocuments(false) as Document[];
+            const page = await getDocuments(false) as DocumentsResponse;
             
             const elapsed = Date.now() - startTime;
             const minDelay = 300;
@@ -104,7 +136,8 @@ function App() {
             }
             
             if (!cancelled) {
-              setDocuments(docs);
+              setDocuments(page.items);
+              setDocumentsPage(pageInfo(page));
             }
           } finally {
             if (!cancelled) {
@@ -140,9 +173,11 @@ function App() {
         
         if (!cancelled) {
           if (selectedGroupId) {
-            setGroupDocuments(results);
+            setGroupDocuments(results.items);
+            setGroupDocumentsPage(pageInfo(results));
           } else {
-            setDocuments(results);
+            setDocuments(results.items);
+            setDocumentsPage(pageInfo(results));
           }
         }
       } catch (error) {
@@ -168,7 +203,9 @@ function App() {
   }, [searchParams, selectedGroupId, documents.length]);
 
   const handleUploadSuccess = useCallback((document: Document) => {
-    setDocuments((prev) => [document, ...prev]);
+    // A new version of an existing document replaces it at the top
+    setDocuments((prev) => [document, ...prev.filter((doc) => doc.id !== document.id)]);
+    setGroupDocuments((prev) => prev.map((doc) => (doc.id === document.id ? document : doc)));
   }, []);
 
   const handleDocumentUpdate = useCallback((updatedDocument: Document) => {
@@ -191,29 +228,38 @@ function App() {
     if (groupId) {
       setIsLoadingGroupDocuments(true);
       try {
-        const docs = await getGroupDocuments(groupId);
-        setGroupDocuments(docs);
+        const page = await getGroupDocuments(groupId, {}, includeSubgroups);
+        setGroupDocuments(page.items);
+        setGroupDocumentsPage(pageInfo(page));
       } catch (error) {
         setGroupDocuments([]);
+        setGroupDocumentsPage(NO_MORE_PAGES);
       } finally {
         setIsLoadingGroupDocuments(false);
       }
     } else {
       setGroupDocuments([]);
+      setGroupDocumentsPage(NO_MORE_PAGES);
     }
-  }, []);
+  }, [includeSubgroups]);
 
-  const handleGroupChange = useCallback(async () => {
+  const handleGroupChange = useCallback(async (include = includeSubgroups) => {
     if (selectedGroupId) {
       setIsLoadingGroupDocuments(true);
       try {
-        const docs = await getGroupDocuments(selectedGroupId);
-        setGroupDocuments(docs);
+        const page = await getGroupDocuments(selectedGroupId, {}, include);
+        setGroupDocuments(page.items);
+        setGroupDocumentsPage(pageInfo(page));
       } finally {
         setIsLoadingGroupDocuments(false);
       }
     }
-  }, [selectedGroupId]);
+  }, [selectedGroupId, includeSubgroups]);
+
+  const handleIncludeSubgroupsChange = useCallback((include: boolean) => {
+    setIncludeSubgroups(include);
+    handleGroupChange(include);
+  }, [handleGroupChange]);
 
   const handleUploadError = useCallback(() => {
     // Error is already displayed in DocumentUpload component
@@ -223,6 +269,62 @@ function App() {
     return selectedGroupId ? groupDocuments : documents;
   }, [selectedGroupId, groupDocuments, documents]);
 
+  const displayedPage = selectedGroupId ? groupDocumentsPage : documentsPage;
+
+  // Fetch the page after the last loaded document. The source (search,
+  // group or full list) matches whatever produced the current list.
+  const handleLoadMore = useCallback(async () => {
+    const cursor = displayedPage.next_cursor;
+    if (!displayedPage.has_more || !cursor || isLoadingMore) {
+      return;
+    }
+
+    setIsLoadingMore(true);
+    try {
+      const hasSearchParams =
+        searchParams.query ||
+        searchParams.status ||
+        searchParams.groupId ||
+        searchParams.tagId ||
+        searchParams.documentType ||
+        searchParams.language ||
+        searchParams.dateKind;
+      let page: PaginatedResponse<DocumentSearchResult>;
+      if (hasSearchParams) {
+        const searchParamsWithGroup = { ...searchParams };
+        if (selectedGroupId) {
+          searchParamsWithGroup.groupId = selectedGroupId;
+        }
+        page = await searchDocuments(searchParamsWithGroup, { cursor });
+      } else if (selectedGroupId) {
+        page = await getGroupDocuments(selectedGroupId, { cursor }, includeSubgroups);
+      } else {
+        page = await getDocuments(false, { cursor }) as DocumentsResponse;
+      }
+
+      // Skip documents already shown (e.g. uploaded since the first page)
+      const append = (prev: DocumentSearchResult[]) => {
+        const seen = new Set(prev.map((doc) => doc.id));
+        return [...prev, ...page.items.filter((doc) => !seen.has(doc.id))];
+      };
+
+      if (selectedGroupId) {
+        setGroupDocuments(append);
+        setGroupDocumentsPage(pageInfo(page));
+      } else {
+        setDocuments(append);
+        setDocumentsPage(pageInfo(page));
+      }
+    } catch (error) {
+      const errorMessage = error instanceof ApiClientError
+        ? error.message
+        : 'Failed to load more documents.';
+      setLoadError(errorMessage);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  }, [displayedPage, isLoadingMore, searchParams, selectedGroupId, includeSubgroups]);
+
   const isLoading = useMemo(() => {
     return selectedGroupId 
       ? (isLoadingGroupDocuments || isSearching || minLoadingTime)
@@ -260,6 +362,7 @@ function App() {
           selectedGroupId={selectedGroupId}
           onSelectGroup={handleGroupSelect}
           onGroupChange={handleGroupChange}
+          onGroupsLoaded={setGroups}
           refreshTrigger={sidebarRefreshTrigger}
         />
 
@@ -273,6 +376,13 @@ function App() {
                 </p>
               </div>
               <div className="flex items-center gap-3">
+                <button
+                  type="button"
+                  onClick={() => setShowTemplates(true)}
+                  className="px-3 py-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-xl transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+                >
+                  Templates
+                </button>
                 <UserMenu />
                 <ThemeToggle />
               </div>
@@ -285,6 +395,7 @@ function App() {
               <DocumentUpload
                 onUploadSuccess={handleUploadSuccess}
                 onUploadError={handleUploadError}
+                templatesRefreshTrigger={templatesRefreshTrigger}
               />
             </section>
 
@@ -297,6 +408,17 @@ function App() {
             )}
 
             <section>
+              {selectedGroupId && (
+                <div className="mb-4">
+                  <GroupBreadcrumb
+                    groups={groups}
+                    groupId={selectedGroupId}
+                    onSelectGroup={handleGroupSelect}
+                    includeSubgroups={includeSubgroups}
+                    onIncludeSubgroupsChange={handleIncludeSubgroupsChange}
+                  />
+                </div>
+              )}
               <SearchAndFilter
                 onSearchChange={handleSearchChange}
                 currentGroupId={selectedGroupId}
@@ -328,7 +450,7 @@ function App() {
                         setMinLoadingTime(true);
                         const startTime = Date.now();
                         
-                        const docs = await getDocuments(false) as Document[];
+                        const page = await getDocuments(false) as DocumentsResponse;
                         
                         const elapsed = Date.now() - startTime;
                         const minDelay = 300;
@@ -336,7 +458,8 @@ function App() {
                           await new Promise(resolve => setTimeout(resolve, minDelay - elapsed));
                         }
                         
-                        setDocuments(docs);
+                        setDocuments(page.items);
+                        setDocumentsPage(pageInfo(page));
                       } catch (error) {
                         const errorMessage = error instanceof ApiClientError
                           ? error.message
@@ -371,12 +494,22 @@ function App() {
                   onGroupsChange={handleGroupMembershipChange}
                   currentGroupId={selectedGroupId}
                   onRemoveFromGroup={handleRemoveFromGroup}
+                  hasMore={displayedPage.has_more}
+                  isLoadingMore={isLoadingMore}
+                  onLoadMore={handleLoadMore}
                 />
               )}
             </section>
             </div>
           </main>
         </div>
+
+        {showTemplates && (
+          <TemplateManager
+            onClose={() => setShowTemplates(false)}
+            onTemplatesChange={() => setTemplatesRefreshTrigger((prev) => prev + 1)}
+          />
+        )}
       </div>
       </AuthGuard>
     </ErrorBoundary>
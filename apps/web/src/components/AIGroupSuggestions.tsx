@@ -2,14 +2,21 @@
  * AI Group Suggestions Component
  * 
  * Displays AI-suggested groups and allows user to accept or reject them.
- * Never auto-assigns - requires explicit user approval.
+ * Never auto-assigns - requires explicit user approval. Accepted groups keep
+ * the suggested description and can be given a color and icon.
  */
 
 import { useState } from 'react';
 import { GroupType } from '@ai-document-vault/shared';
-import type { GroupSuggestion } from '@ai-document-vault/shared';
+import type { GroupColor, GroupIcon, GroupSuggestion } from '@ai-document-vault/shared';
 import { suggestGroups, createGroup, addDocumentToGroup } from '@/lib/api/groups';
 import { ApiClientError } from '@/lib/api/client';
+import { GroupAppearancePicker } from './GroupAppearance';
+
+interface SuggestionAppearance {
+  color: GroupColor | null;
+  icon: GroupIcon | null;
+}
 
 interface AIGroupSuggestionsProps {
   onSuggestionAccepted?: () => void;
@@ -55,7 +62,7 @@ export function AIGroupSuggestions({ onSuggestionAccepted }: AIGroupSuggestionsP
   };
 
   // Accept a suggestion
-  const handleAccept = async (suggestion: GroupSuggestion) => {
+  const handleAccept = async (suggestion: GroupSuggestion, appearance: SuggestionAppearance) => {
     setProcessing((prev) => new Set(prev).add(suggestion.group.name));
 
     try {
@@ -63,6 +70,8 @@ export function AIGroupSuggestions({ onSuggestionAccepted }: AIGroupSuggestionsP
       const group = await createGroup({
         name: suggestion.group.name,
         description: suggestion.group.description,
+        color: appearance.color ?? undefined,
+        icon: appearance.icon ?? undefined,
         type: GroupType.AI_SUGGESTED,
       });
 
@@ -157,7 +166,7 @@ export function AIGroupSuggestions({ onSuggestionAccepted }: AIGroupSuggestionsP
               key={index}
               suggestion={suggestion}
               isProcessing={processing.has(suggestion.group.name)}
-              onAccept={() => handleAccept(suggestion)}
+              onAccept={(appearance) => handleAccept(suggestion, appearance)}
               onReject={() => handleReject(suggestion)}
             />
           ))}
@@ -189,10 +198,13 @@ function SuggestionCard({
 }: {
   suggestion: GroupSuggestion;
   isProcessing: boolean;
-  onAccept: () => void;
+  onAccept: (appearance: SuggestionAppearance) => void;
   onReject: () => void;
 }) {
   const confidencePercent = Math.round(suggestion.confidence * 100);
+  const [showAppearance, setShowAppearance] = useState(false);
+  const [color, setColor] = useState<GroupColor | null>(null);
+  const [icon, setIcon] = useState<GroupIcon | null>(null);
 
   return (
     <div className="border border-neutral-200/60 dark:border-neutral-700/60 rounded-2xl p-5 bg-white dark:bg-neutral-800 shadow-sm">
@@ -213,13 +225,32 @@ function SuggestionCard({
                 {confidencePercent}%
               </span>
             </span>
+            <button
+              type="button"
+              onClick={() => setShowAppearance((prev) => !prev)}
+              className="underline-offset-2 hover:underline hover:text-neutral-900 dark:hover:text-neutral-100"
+              aria-expanded={showAppearance}
+            >
+              {showAppearance ? 'Hide appearance' : 'Choose color and icon'}
+            </button>
           </div>
+          {showAppearance && (
+            <div className="mt-3">
+              <GroupAppearancePicker
+                color={color}
+                icon={icon}
+                onColorChange={setColor}
+                onIconChange={setIcon}
+                disabled={isProcessing}
+              />
+            </div>
+          )}
         </div>
       </div>
 
       <div className="flex gap-3 mt-4">
         <button
-          onClick={onAccept}
+          onClick={() => onAccept({ color, icon })}
           disabled={isProcessing}
           className="flex-1 px-4 py-2.5 text-sm font-medium text-white bg-emerald-600 rounded-xl hover:bg-emerald-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-emerald-500"
         >
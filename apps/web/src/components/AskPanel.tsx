@@ -0,0 +1,258 @@
+/**
+ * Ask Panel Component
+ * 
+ * Chat panel for asking questions about a document or a group.
+ * Answers stream in as they are generated; inline citations like [2] link
+ * back to the cited passage in the document's Markdown tab.
+ * 
+ * Features:
+ * - Streaming answers with a stop button
+ * - Clickable inline citations and a list of cited sources
+ * - Scoped to a single document or group (or all documents)
+ */
+
+import { useState, useEffect, useRef } from 'react';
+import type { AskCitation, AskStreamEvent } from '@ai-document-vault/shared';
+import { askQuestion } from '@/lib/api/ask';
+import { ApiClientError } from '@/lib/api/client';
+
+interface AskPanelProps {
+  title: string;
+  documentId?: string; // Restrict answers to this document
+  groupId?: string; // Restrict answers to documents in this group
+  onClose: () => void;
+  onCitationClick: (citation: AskCitation) => void;
+}
+
+interface AskExchange {
+  id: number;
+  question: string;
+  answer: string;
+  citations: AskCitation[];
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+}
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+/**
+ * Citation indexes referenced in an answer, in order of first appearance
+ */
+function citedIndexes(answer: string): number[] {
+  const seen = new Set<number>();
+  for (const match of answer.matchAll(CITATION_PATTERN)) {
+    seen.add(Number(match[1]));
+  }
+  return Array.from(seen);
+}
+
+export function AskPanel({ title, documentId, groupId, onClose, onCitationClick }: AskPanelProps) {
+  const [exchanges, setExchanges] = useState<AskExchange[]>([]);
+  const [question, setQuestion] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const nextIdRef = useRef(1);
+
+  const isStreaming = exchanges.some((exchange) => exchange.status === 'streaming');
+
+  // Stop streaming when the panel closes
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  // Keep the latest answer in view while it streams
+  useEffect(() => {
+    scrollRef.current?.scrollTo({ top: scrollRef.current.scrollHeight });
+  }, [exchanges]);
+
+  const updateExchange = (id: number, update: (exchange: AskExchange) => AskExchange) => {
+    setExchanges((prev) => prev.map((exchange) => (exchange.id === id ? update(exchange) : exchange)));
+  };
+
+  const handleEvent = (id: number, event: AskStreamEvent) => {
+    switch (event.type) {
+      case 'citations':
+        updateExchange(id, (exchange) => ({ ...exchange, citations: event.citations }));
+        break;
+      case 'delta':
+        updateExchange(id, (exchange) => ({ ...exchange, answer: exchange.answer + event.text }));
+        break;
+      case 'done':
+        updateExchange(id, (exchange) => ({ ...exchange, status: 'done' }));
+        break;
+      case 'error':
+        updateExchange(id, (exchange) => ({ ...exchange, status: 'error', error: event.message }));
+        break;
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmed = question.trim();
+    if (!trimmed || isStreaming) return;
+
+    const id = nextIdRef.current++;
+    setExchanges((prev) => [...prev, { id, question: trimmed, answer: '', citations: [], status: 'streaming' }]);
+    setQuestion('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      await askQuestion(
+        { question: trimmed, document_id: documentId, group_id: groupId },
+        (event) => handleEvent(id, event),
+        controller.signal
+      );
+      // Stream ended without a done event (e.g. connection closed)
+      updateExchange(id, (exchange) =>
+        exchange.status === 'streaming' ? { ...exchange, status: 'done' } : exchange
+      );
+    } catch (err) {
+      if (controller.signal.aborted) {
+        updateExchange(id, (exchange) => ({ ...exchange, status: 'done' }));
+        return;
+      }
+      const message = err instanceof ApiClientError ? err.message : 'Failed to get an answer';
+      updateExchange(id, (exchange) => ({ ...exchange, status: 'error', error: message }));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+      }
+    }
+  };
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[60] w-full max-w-md flex flex-col bg-white dark:bg-neutral-900 border-l border-neutral-200/60 dark:border-neutral-700/60 shadow-2xl">
+      <div className="flex items-center justify-between p-5 border-b border-neutral-200/60 dark:border-neutral-700/60">
+        <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 truncate tracking-tight">{title}</h2>
+        <button
+          onClick={onClose}
+          className="ml-4 p-2 text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+          aria-label="Close"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-5 space-y-6">
+        {exchanges.length === 0 && (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">
+            Ask a question and get an answer with citations to the passages it came from.
+          </p>
+        )}
+        {exchanges.map((exchange) => (
+          <ExchangeView key={exchange.id} exchange={exchange} onCitationClick={onCitationClick} />
+        ))}
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-4 border-t border-neutral-200/60 dark:border-neutral-700/60 flex gap-2">
+        <input
+          type="text"
+          value={question}
+          onChange={(e) => setQuestion(e.target.value)}
+          placeholder="Ask a question..."
+          maxLength={2000}
+          className="flex-1 px-4 py-2.5 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 bg-white dark:bg-neutral-800 text-sm text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500"
+        />
+        {isStreaming ? (
+          <button
+            type="button"
+            onClick={() => abortRef.current?.abort()}
+            className="px-4 py-2.5 text-sm font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-xl hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200"
+          >
+            Stop
+          </button>
+        ) : (
+          <button
+            type="submit"
+            disabled={!question.trim()}
+            className="px-4 py-2.5 text-sm font-medium bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900 rounded-xl hover:bg-neutral-800 dark:hover:bg-neutral-200 transition-all duration-200 disabled:opacity-50"
+          >
+            Ask
+          </button>
+        )}
+      </form>
+    </div>
+  );
+}
+
+function ExchangeView({
+  exchange,
+  onCitationClick,
+}: {
+  exchange: AskExchange;
+  onCitationClick: (citation: AskCitation) => void;
+}) {
+  const citationsByIndex = new Map(exchange.citations.map((citation) => [citation.index, citation]));
+  const sources = citedIndexes(exchange.answer)
+    .map((index) => citationsByIndex.get(index))
+    .filter((citation): citation is AskCitation => citation !== undefined);
+
+  // Split the answer into text and clickable [n] markers
+  const parts: Array<string | AskCitation> = [];
+  let lastIndex = 0;
+  for (const match of exchange.answer.matchAll(CITATION_PATTERN)) {
+    const citation = citationsByIndex.get(Number(match[1]));
+    if (!citation || match.index === undefined) continue;
+    parts.push(exchange.answer.slice(lastIndex, match.index), citation);
+    lastIndex = match.index + match[0].length;
+  }
+  parts.push(exchange.answer.slice(lastIndex));
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm font-medium text-neutral-900 dark:text-neutral-50">{exchange.question}</p>
+      <div className="text-sm text-neutral-700 dark:text-neutral-300 leading-relaxed whitespace-pre-wrap">
+        {parts.map((part, i) =>
+          typeof part === 'string' ? (
+            <span key={i}>{part}</span>
+          ) : (
+            <CitationButton key={i} citation={part} onClick={onCitationClick} />
+          )
+        )}
+        {exchange.status === 'streaming' && (
+          <span className="inline-block w-1.5 h-4 ml-0.5 align-text-bottom bg-neutral-400 dark:bg-neutral-500 animate-pulse" />
+        )}
+      </div>
+      {exchange.status === 'error' && exchange.error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{exchange.error}</p>
+      )}
+      {sources.length > 0 && exchange.status !== 'streaming' && (
+        <ul className="space-y-1.5">
+          {sources.map((citation) => (
+            <li key={citation.index}>
+              <button
+                onClick={() => onCitationClick(citation)}
+                className="w-full text-left text-xs p-2 rounded-lg bg-neutral-50 dark:bg-neutral-800/50 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors"
+              >
+                <span className="font-semibold text-neutral-900 dark:text-neutral-100">[{citation.index}] {citation.document_name}</span>
+                <span className="block mt-0.5 text-neutral-500 dark:text-neutral-400 font-light line-clamp-2">{citation.excerpt}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+function CitationButton({
+  citation,
+  onClick,
+}: {
+  citation: AskCitation;
+  onClick: (citation: AskCitation) => void;
+}) {
+  return (
+    <button
+      onClick={() => onClick(citation)}
+      title={`${citation.document_name}: ${citation.excerpt.substring(0, 120)}`}
+      className="inline-flex items-center justify-center min-w-[1.25rem] h-4 px-1 mx-0.5 align-text-top text-[10px] font-semibold text-amber-800 dark:text-amber-200 bg-amber-100 dark:bg-amber-500/20 rounded hover:bg-amber-200 dark:hover:bg-amber-500/30 transition-colors"
+    >
+      {citation.index}
+    </button>
+  );
+}
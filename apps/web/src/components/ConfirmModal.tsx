@@ -14,6 +14,7 @@ interface ConfirmModalProps {
   onConfirm: () => void;
   onCancel: () => void;
   isLoading?: boolean;
+  children?: React.ReactNode; // Extra options shown below the message
 }
 
 /**
@@ -29,6 +30,7 @@ export function ConfirmModal({
   onConfirm,
   onCancel,
   isLoading = false,
+  children,
 }: ConfirmModalProps) {
   if (!isOpen) return null;
 
@@ -43,6 +45,7 @@ export function ConfirmModal({
         <div className="p-8">
           <h3 className="text-xl font-semibold text-neutral-900 dark:text-neutral-50 mb-3 tracking-tight">{title}</h3>
           <p className="text-sm text-neutral-600 dark:text-neutral-400 mb-8 font-light leading-relaxed">{message}</p>
+          {children && <div className="-mt-4 mb-8">{children}</div>}
 
           <div className="flex justify-end gap-3">
             <button
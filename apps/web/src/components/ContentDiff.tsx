@@ -0,0 +1,180 @@
+/**
+ * Content Diff Component
+ *
+ * Shows the changes between two versions of a summary or markdown, with
+ * line numbers and word-level highlights inside edited lines. Switches
+ * between a unified view and a side-by-side view.
+ */
+
+import { useMemo, useState } from 'react';
+import { diffText } from '@ai-document-vault/shared';
+import type { DiffLine, DiffSegment } from '@ai-document-vault/shared';
+
+interface ContentDiffProps {
+  oldText: string;
+  newText: string;
+}
+
+type DiffViewMode = 'unified' | 'split';
+
+const LINE_STYLES = {
+  delete: 'bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300',
+  insert: 'bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300',
+  equal: 'text-neutral-500 dark:text-neutral-500',
+  empty: 'bg-neutral-100/60 dark:bg-neutral-800/40',
+};
+
+export function ContentDiff({ oldText, newText }: ContentDiffProps) {
+  const [mode, setMode] = useState<DiffViewMode>('unified');
+  const diff = useMemo(() => diffText(oldText, newText), [oldText, newText]);
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-xs text-neutral-500 dark:text-neutral-400">
+          <span className="text-green-700 dark:text-green-400">+{diff.additions}</span>{' '}
+          <span className="text-red-700 dark:text-red-400">-{diff.deletions}</span>
+        </span>
+        <div className="inline-flex rounded-lg bg-neutral-100 dark:bg-neutral-800 p-0.5" role="group" aria-label="Diff view">
+          <ModeButton active={mode === 'unified'} onClick={() => setMode('unified')} label="Unified" />
+          <ModeButton active={mode === 'split'} onClick={() => setMode('split')} label="Side by side" />
+        </div>
+      </div>
+
+      <div className="max-h-64 overflow-auto font-mono text-xs">
+        {diff.lines.length === 0 || (diff.additions === 0 && diff.deletions === 0) ? (
+          <p className="text-neutral-500 dark:text-neutral-400 font-sans">No changes</p>
+        ) : mode === 'unified' ? (
+          <UnifiedDiff lines={diff.lines} />
+        ) : (
+          <SplitDiff lines={diff.lines} />
+        )}
+      </div>
+    </div>
+  );
+}
+
+function ModeButton({ active, onClick, label }: { active: boolean; onClick: () => void; label: string }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-2.5 py-1 text-xs font-medium rounded-md transition-colors ${
+        active
+          ? 'bg-white dark:bg-neutral-700 text-neutral-900 dark:text-neutral-50 shadow-sm'
+          : 'text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
+
+/**
+ * Line text with changed words emphasized
+ */
+function Segments({ segments }: { segments: DiffSegment[] }) {
+  if (segments.length === 0 || segments.every((segment) => segment.text === '')) {
+    return <>{' '}</>;
+  }
+
+  return (
+    <>
+      {segments.map((segment, i) => {
+        if (segment.op === 'delete') {
+          return (
+            <del key={i} className="bg-red-200/70 dark:bg-red-800/50 text-red-800 dark:text-red-200 rounded-sm">
+              {segment.text}
+            </del>
+          );
+        }
+        if (segment.op === 'insert') {
+          return (
+            <ins key={i} className="bg-green-200/70 dark:bg-green-800/50 text-green-800 dark:text-green-200 no-underline rounded-sm">
+              {segment.text}
+            </ins>
+          );
+        }
+        return <span key={i}>{segment.text}</span>;
+      })}
+    </>
+  );
+}
+
+function LineNumber({ value, className = 'text-neutral-400' }: { value: number | null | string; className?: string }) {
+  return (
+    <span className={`inline-block w-8 flex-shrink-0 text-right mr-2 select-none ${className}`}>
+      {value ?? ''}
+    </span>
+  );
+}
+
+function UnifiedDiff({ lines }: { lines: DiffLine[] }) {
+  const rows: React.ReactNode[] = [];
+
+  lines.forEach((line, i) => {
+    if (line.type === 'equal') {
+      rows.push(
+        <div key={i} className={`flex px-2 ${LINE_STYLES.equal}`}>
+          <LineNumber value={line.old_number} />
+          <LineNumber value={line.new_number} />
+          <span className="whitespace-pre-wrap break-words"><Segments segments={line.old_segments} /></span>
+        </div>
+      );
+      return;
+    }
+    if (line.type === 'delete' || line.type === 'change') {
+      rows.push(
+        <div key={`${i}-old`} className={`flex px-2 py-0.5 rounded ${LINE_STYLES.delete}`}>
+          <LineNumber value={line.old_number} className="text-red-500" />
+          <LineNumber value="-" className="text-red-500" />
+          <span className="whitespace-pre-wrap break-words"><Segments segments={line.old_segments} /></span>
+        </div>
+      );
+    }
+    if (line.type === 'insert' || line.type === 'change') {
+      rows.push(
+        <div key={`${i}-new`} className={`flex px-2 py-0.5 rounded ${LINE_STYLES.insert}`}>
+          <LineNumber value="+" className="text-green-500" />
+          <LineNumber value={line.new_number} className="text-green-500" />
+          <span className="whitespace-pre-wrap break-words"><Segments segments={line.new_segments} /></span>
+        </div>
+      );
+    }
+  });
+
+  return <div className="space-y-0.5">{rows}</div>;
+}
+
+function SplitDiff({ lines }: { lines: DiffLine[] }) {
+  return (
+    <div className="space-y-0.5">
+      {lines.map((line, i) => (
+        <div key={i} className="grid grid-cols-2 gap-2">
+          <SplitCell
+            number={line.old_number}
+            segments={line.old_segments}
+            style={line.type === 'equal' ? LINE_STYLES.equal : line.old_number === null ? LINE_STYLES.empty : LINE_STYLES.delete}
+          />
+          <SplitCell
+            number={line.new_number}
+            segments={line.new_segments}
+            style={line.type === 'equal' ? LINE_STYLES.equal : line.new_number === null ? LINE_STYLES.empty : LINE_STYLES.insert}
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function SplitCell({ number, segments, style }: { number: number | null; segments: DiffSegment[]; style: string }) {
+  return (
+    <div className={`flex px-2 py-0.5 rounded min-w-0 ${style}`}>
+      <LineNumber value={number} />
+      <span className="whitespace-pre-wrap break-words min-w-0">
+        {number === null ? ' ' : <Segments segments={segments} />}
+      </span>
+    </div>
+  );
+}
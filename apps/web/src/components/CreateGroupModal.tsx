@@ -1,16 +1,94 @@
-import { useState } from 'react';
+import { useState, useEffect, useMemo } from 'react';
+import { DocumentStatus, GroupType } from '@ai-document-vault/shared';
+import type { Document, DocumentsResponse, Group, GroupColor, GroupIcon, GroupInput, SmartGroupRules, Tag } from '@ai-document-vault/shared';
+import { getDocuments, MAX_PAGE_SIZE } from '@/lib/api/client';
+import { getTags } from '@/lib/api/tags';
+import { groupPathLabel } from '@/lib/groupTree';
+import { GroupAppearancePicker } from './GroupAppearance';
 
 interface CreateGroupModalProps {
   onClose: () => void;
-  onCreate: (name: string, description?: string) => Promise<void>;
+  onCreate: (input: GroupInput) => Promise<void>;
+  groups?: Group[]; // Offered as parents
+  defaultParentId?: string | null;
 }
 
-export function CreateGroupModal({ onClose, onCreate }: CreateGroupModalProps) {
+const INPUT_CLASS =
+  'w-full px-3 py-2 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500 text-sm';
+
+const LABEL_CLASS = 'block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-1.5 tracking-wide';
+
+export function CreateGroupModal({ onClose, onCreate, groups = [], defaultParentId = null }: CreateGroupModalProps) {
   const [name, setName] = useState('');
   const [description, setDescription] = useState('');
+  const [parentId, setParentId] = useState(defaultParentId ?? '');
+  const [color, setColor] = useState<GroupColor | null>(null);
+  const [icon, setIcon] = useState<GroupIcon | null>(null);
+  const [isSmart, setIsSmart] = useState(false);
+  const [namePattern, setNamePattern] = useState('');
+  const [statuses, setStatuses] = useState<DocumentStatus[]>([]);
+  const [createdFrom, setCreatedFrom] = useState('');
+  const [createdTo, setCreatedTo] = useState('');
+  const [query, setQuery] = useState('');
+  const [tagIds, setTagIds] = useState<string[]>([]);
+  const [tags, setTags] = useState<Tag[] | null>(null);
+  const [similarTo, setSimilarTo] = useState('');
+  const [minSimilarity, setMinSimilarity] = useState(75);
+  const [documents, setDocuments] = useState<Document[]>([]);
   const [isCreating, setIsCreating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
+  // Seed document options for the similarity rule
+  useEffect(() => {
+    if (!isSmart || documents.length > 0) {
+      return;
+    }
+    getDocuments(false, { limit: MAX_PAGE_SIZE })
+      .then((page) => setDocuments((page as DocumentsResponse).items))
+      .catch((err) => console.error('Failed to load documents for similarity rule:', err));
+  }, [isSmart, documents.length]);
+
+  // Tag options for the tag rule
+  useEffect(() => {
+    if (!isSmart || tags !== null) {
+      return;
+    }
+    getTags()
+      .then(setTags)
+      .catch((err) => {
+        console.error('Failed to load tags for tag rule:', err);
+        setTags([]);
+      });
+  }, [isSmart, tags]);
+
+  const parentOptions = useMemo(
+    () =>
+      groups
+        .map((group) => ({ id: group.id, label: groupPathLabel(groups, group.id) }))
+        .sort((a, b) => a.label.localeCompare(b.label)),
+    [groups]
+  );
+
+  const toggleStatus = (status: DocumentStatus) => {
+    setStatuses((prev) => (prev.includes(status) ? prev.filter((s) => s !== status) : [...prev, status]));
+  };
+
+  const toggleTag = (tagId: string) => {
+    setTagIds((prev) => (prev.includes(tagId) ? prev.filter((id) => id !== tagId) : [...prev, tagId]));
+  };
+
+  const buildRules = (): SmartGroupRules => {
+    const rules: SmartGroupRules = {};
+    if (namePattern.trim()) rules.name_pattern = namePattern.trim();
+    if (statuses.length > 0) rules.statuses = statuses;
+    if (createdFrom) rules.created_from = createdFrom;
+    if (createdTo) rules.created_to = createdTo;
+    if (query.trim()) rules.query = query.trim();
+    if (tagIds.length > 0) rules.tag_ids = tagIds;
+    if (similarTo) rules.similar_to = { document_id: similarTo, min_similarity: minSimilarity / 100 };
+    return rules;
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -19,11 +97,25 @@ export function CreateGroupModal({ onClose, onCreate }: CreateGroupModalProps) {
       return;
     }
 
+    const rules = isSmart ? buildRules() : undefined;
+    if (rules && Object.keys(rules).length === 0) {
+      setError('Add at least one rule');
+      return;
+    }
+
     setIsCreating(true);
     setError(null);
 
     try {
-      await onCreate(name.trim(), description.trim() || undefined);
+      await onCreate({
+        name: name.trim(),
+        description: description.trim() || undefined,
+        color: color ?? undefined,
+        icon: icon ?? undefined,
+        type: isSmart ? GroupType.SMART : GroupType.MANUAL,
+        rules,
+        parent_id: parentId || null,
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : 'Failed to create group');
     } finally {
@@ -50,7 +142,12 @@ export function CreateGroupModal({ onClose, onCreate }: CreateGroupModalProps) {
           </button>
         </div>
 
-        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+        <form onSubmit={handleSubmit} className="p-6 space-y-5 max-h-[80vh] overflow-y-auto">
+          <div className="inline-flex rounded-lg bg-neutral-100 dark:bg-neutral-800 p-0.5" role="group" aria-label="Group type">
+            <TypeButton active={!isSmart} onClick={() => setIsSmart(false)} label="Manual" />
+            <TypeButton active={isSmart} onClick={() => setIsSmart(true)} label="Smart" />
+          </div>
+
           <div>
             <label htmlFor="group-name" className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">
               Group Name
@@ -79,10 +176,150 @@ export function CreateGroupModal({ onClose, onCreate }: CreateGroupModalProps) {
               className="w-full px-4 py-2.5 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500 resize-none text-sm"
               placeholder="Enter group description"
               rows={3}
+              maxLength={1000}
               disabled={isCreating}
             />
           </div>
 
+          <div>
+            <span className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">
+              Appearance <span className="text-neutral-400 dark:text-neutral-500 font-normal">(optional)</span>
+            </span>
+            <GroupAppearancePicker
+              color={color}
+              icon={icon}
+              onColorChange={setColor}
+              onIconChange={setIcon}
+              disabled={isCreating}
+            />
+          </div>
+
+          {parentOptions.length > 0 && (
+            <div>
+              <label htmlFor="group-parent" className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">
+                Inside
+              </label>
+              <select
+                id="group-parent"
+                value={parentId}
+                onChange={(e) => setParentId(e.target.value)}
+                className="w-full px-4 py-2.5 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 text-sm"
+                disabled={isCreating}
+              >
+                <option value="">Top level</option>
+                {parentOptions.map((option) => (
+                  <option key={option.id} value={option.id}>{option.label}</option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {isSmart && (
+            <fieldset className="space-y-4 p-4 rounded-xl border border-neutral-200/60 dark:border-neutral-700/60" disabled={isCreating}>
+              <legend className="px-1 text-xs font-medium text-neutral-600 dark:text-neutral-400">
+                Documents matching every rule below
+              </legend>
+
+              <div>
+                <label htmlFor="rule-name" className={LABEL_CLASS}>Name matches</label>
+                <input
+                  id="rule-name"
+                  type="text"
+                  value={namePattern}
+                  onChange={(e) => setNamePattern(e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder="e.g. invoice-*.pdf"
+                />
+              </div>
+
+              <div>
+                <span className={LABEL_CLASS}>Status</span>
+                <div className="flex flex-wrap gap-3">
+                  {Object.values(DocumentStatus).map((status) => (
+                    <label key={status} className="inline-flex items-center gap-1.5 text-sm text-neutral-700 dark:text-neutral-300">
+                      <input
+                        type="checkbox"
+                        checked={statuses.includes(status)}
+                        onChange={() => toggleStatus(status)}
+                        className="rounded border-neutral-300 dark:border-neutral-600"
+                      />
+                      {status.charAt(0) + status.slice(1).toLowerCase()}
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="rule-from" className={LABEL_CLASS}>Uploaded from</label>
+                  <input id="rule-from" type="date" value={createdFrom} onChange={(e) => setCreatedFrom(e.target.value)} className={INPUT_CLASS} />
+                </div>
+                <div>
+                  <label htmlFor="rule-to" className={LABEL_CLASS}>Uploaded to</label>
+                  <input id="rule-to" type="date" value={createdTo} onChange={(e) => setCreatedTo(e.target.value)} className={INPUT_CLASS} />
+                </div>
+              </div>
+
+              <div>
+                <label htmlFor="rule-query" className={LABEL_CLASS}>Contains</label>
+                <input
+                  id="rule-query"
+                  type="text"
+                  value={query}
+                  onChange={(e) => setQuery(e.target.value)}
+                  className={INPUT_CLASS}
+                  placeholder='e.g. contract "net 30" -draft'
+                />
+              </div>
+
+              {tags && tags.length > 0 && (
+                <div>
+                  <span className={LABEL_CLASS}>Has all tags</span>
+                  <div className="flex flex-wrap gap-1.5">
+                    {tags.map((tag) => (
+                      <button
+                        key={tag.id}
+                        type="button"
+                        onClick={() => toggleTag(tag.id)}
+                        aria-pressed={tagIds.includes(tag.id)}
+                        className={`px-2.5 py-0.5 text-xs font-medium rounded-full transition-colors ${
+                          tagIds.includes(tag.id)
+                            ? 'bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900'
+                            : 'bg-neutral-100 dark:bg-neutral-800 text-neutral-700 dark:text-neutral-300 hover:bg-neutral-200 dark:hover:bg-neutral-700'
+                        }`}
+                      >
+                        {tag.name}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div>
+                <label htmlFor="rule-similar" className={LABEL_CLASS}>Similar to</label>
+                <select id="rule-similar" value={similarTo} onChange={(e) => setSimilarTo(e.target.value)} className={INPUT_CLASS}>
+                  <option value="">Any document</option>
+                  {documents.map((doc) => (
+                    <option key={doc.id} value={doc.id}>{doc.name}</option>
+                  ))}
+                </select>
+                {similarTo && (
+                  <label className="flex items-center gap-3 mt-2 text-xs text-neutral-600 dark:text-neutral-400">
+                    <span className="whitespace-nowrap">Min. similarity {minSimilarity}%</span>
+                    <input
+                      type="range"
+                      min={50}
+                      max={100}
+                      value={minSimilarity}
+                      onChange={(e) => setMinSimilarity(Number(e.target.value))}
+                      className="flex-1"
+                    />
+                  </label>
+                )}
+              </div>
+            </fieldset>
+          )}
+
           {error && (
             <div className="p-3 bg-red-50/80 dark:bg-red-950/30 border border-red-200/60 dark:border-red-800/60 rounded-xl text-red-700 dark:text-red-400 text-sm">
               {error}
@@ -111,3 +348,20 @@ export function CreateGroupModal({ onClose, onCreate }: CreateGroupModalProps) {
     </div>
   );
 }
+
+function TypeButton({ active, onClick, label }: { active: boolean; onClick: () => void; label: string }) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-pressed={active}
+      className={`px-3 py-1 text-xs font-medium rounded-md transition-colors ${
+        active
+          ? 'bg-white dark:bg-neutral-700 text-neutral-900 dark:text-neutral-50 shadow-sm'
+          : 'text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100'
+      }`}
+    >
+      {label}
+    </button>
+  );
+}
@@ -7,14 +7,16 @@
  * Features:
  * - Status badges (UPLOADED, PROCESSING, READY, FAILED)
  * - Automatic status polling for PROCESSING documents
- * - Retry button for FAILED documents
+ * - Retry button for FAILED documents, with the recorded failure reason
  * - Timestamp display
+ * - Highlighted search snippets for full-text search results
+ * - Infinite scroll: loads the next page when the end of the list is visible
  * - Empty state
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Document } from '@ai-document-vault/shared';
+import { DocumentStatus, ProcessingStage, isAwaitingQuota } from '@ai-document-vault/shared';
+import type { Document, DocumentSearchResult } from '@ai-document-vault/shared';
 import { useDocumentStatus } from '@/hooks/useDocumentStatus';
 import { retryDocument, deleteDocument } from '@/lib/api/client';
 import { ApiClientError } from '@/lib/api/client';
@@ -22,14 +24,18 @@ import { DocumentView } from './DocumentView';
 import { GroupMembership } from './GroupMembership';
 import { ConfirmModal } from './ConfirmModal';
 import { ErrorDisplay } from './ErrorDisplay';
+import { SearchSnippet } from './SearchSnippet';
 
 interface DocumentListProps {
-  documents: Document[];
+  documents: DocumentSearchResult[];
   onDocumentUpdate?: (document: Document) => void;
   onDocumentDelete?: (documentId: string) => void;
   onGroupsChange?: () => void; // Called when group membership changes
   currentGroupId?: string | null; // If set, we're viewing a group - show remove from group instead of delete
   onRemoveFromGroup?: (documentId: string) => void; // Called when document should be removed from current group
+  hasMore?: boolean; // More pages are available
+  isLoadingMore?: boolean; // A next page is being fetched
+  onLoadMore?: () => void; // Called when the end of the list scrolls into view
 }
 
 /**
@@ -50,6 +56,40 @@ function getStatusBadge(status: DocumentStatus) {
   }
 }
 
+/**
+ * Human-readable label for the pipeline stage that failed
+ */
+const STAGE_LABELS: Record<ProcessingStage, string> = {
+  [ProcessingStage.DOWNLOAD]: 'downloading the file',
+  [ProcessingStage.EXTRACT]: 'extracting text',
+  [ProcessingStage.AI]: 'AI processing',
+  [ProcessingStage.EMBED]: 'indexing for search',
+  [ProcessingStage.SAVE]: 'saving results',
+};
+
+/**
+ * Build the title and detail line for a failed document
+ */
+function describeFailure(document: Document): { title: string; message: string; details: string | undefined } {
+  const title = document.failure_stage
+    ? `Processing failed while ${STAGE_LABELS[document.failure_stage]}`
+    : 'Processing failed';
+  const message = document.failure_message || 'No failure reason was recorded for this document.';
+
+  const detailParts: string[] = [];
+  if (document.failure_code) {
+    detailParts.push(document.failure_code);
+  }
+  if (document.processing_attempts) {
+    detailParts.push(`${document.processing_attempts} ${document.processing_attempts === 1 ? 'attempt' : 'attempts'}`);
+  }
+  if (document.failed_at) {
+    detailParts.push(`failed ${formatTimestamp(document.failed_at)}`);
+  }
+
+  return { title, message, details: detailParts.length > 0 ? detailParts.join(' · ') : undefined };
+}
+
 /**
  * Format timestamp for display
  */
@@ -85,7 +125,7 @@ function DocumentItem({
   currentGroupId,
   onRemoveFromGroup,
 }: {
-  document: Document;
+  document: DocumentSearchResult;
   onUpdate?: (document: Document) => void;
   onDelete?: (documentId: string) => void;
   onGroupsChange?: () => void;
@@ -106,7 +146,9 @@ function DocumentItem({
     initialDocument,
     {
       pollInterval: 2000,
-      enabled: initialDocument.status === DocumentStatus.PROCESSING,
+      enabled:
+        initialDocument.status === DocumentStatus.UPLOADED ||
+        initialDocument.status === DocumentStatus.PROCESSING,
     }
   );
 
@@ -127,9 +169,11 @@ function DocumentItem({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [document?.status, document?.id]);
 
-  // Handle retry
+  const awaitingQuota = isAwaitingQuota(currentDocument);
+
+  // Handle retry (also starts processing of documents uploaded over quota)
   const handleRetry = async () => {
-    if (currentDocument.status !== DocumentStatus.FAILED) {
+    if (currentDocument.status !== DocumentStatus.FAILED && !awaitingQuota) {
       return;
     }
 
@@ -202,6 +246,16 @@ function DocumentItem({
   };
 
   const badge = getStatusBadge(currentDocument.status);
+  const failure = currentDocument.status === DocumentStatus.FAILED
+    ? describeFailure(currentDocument)
+    : awaitingQuota
+      ? {
+          title: 'Waiting for AI allowance',
+          message: currentDocument.failure_message || 'This document was uploaded while over quota.',
+          details: undefined,
+        }
+      : null;
+  const retryLabel = awaitingQuota ? 'Process Now' : 'Retry Processing';
 
   return (
     <>
@@ -269,20 +323,25 @@ function DocumentItem({
         {currentDocument.summary && (
           <p className="text-sm text-neutral-600 dark:text-neutral-400 leading-relaxed font-light">{currentDocument.summary}</p>
         )}
+        {/* Snippet comes from the search result; status polling returns plain documents */}
+        {initialDocument.snippet && initialDocument.snippet.length > 0 && (
+          <SearchSnippet segments={initialDocument.snippet} />
+        )}
         <GroupMembership
           documentId={currentDocument.id}
           onGroupsChange={onGroupsChange}
         />
-        {(currentDocument.status === DocumentStatus.FAILED || deleteError) && (
-          <div className="flex items-center gap-2">
-            {currentDocument.status === DocumentStatus.FAILED && (
-              <button
-                onClick={handleRetry}
-                disabled={isRetrying}
-                className="px-4 py-2 text-sm font-medium text-white dark:text-neutral-900 bg-neutral-900 dark:bg-neutral-100 rounded-xl hover:bg-neutral-800 dark:hover:bg-neutral-200 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 shadow-sm hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
-              >
-                {isRetrying ? 'Retrying...' : 'Retry Processing'}
-              </button>
+        {(failure || deleteError) && (
+          <div className="flex flex-col gap-2">
+            {failure && (
+              <ErrorDisplay
+                error={failure.message}
+                title={failure.title}
+                details={failure.details}
+                onRetry={handleRetry}
+                retryLabel={isRetrying ? 'Retrying...' : retryLabel}
+                isRetrying={isRetrying}
+              />
             )}
             {retryError && (
               <ErrorDisplay
@@ -344,6 +403,64 @@ function DocumentItem({
   );
 }
 
+/**
+ * Sentinel after the last document
+ * 
+ * Calls onLoadMore whenever it comes within 400px of the viewport. The
+ * button is a fallback for when the observer doesn't fire (e.g. the page
+ * is shorter than the viewport after a small first page).
+ */
+function LoadMoreSentinel({
+  isLoading,
+  onLoadMore,
+}: {
+  isLoading: boolean;
+  onLoadMore: () => void;
+}) {
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!sentinel || typeof IntersectionObserver === 'undefined') {
+      return;
+    }
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        if (entries.some((entry) => entry.isIntersecting)) {
+          onLoadMore();
+        }
+      },
+      { rootMargin: '400px 0px' }
+    );
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex justify-center py-6">
+      {isLoading ? (
+        <div
+          className="flex items-center gap-2 text-sm text-neutral-500 dark:text-neutral-400"
+          role="status"
+        >
+          <div className="w-4 h-4 border-2 border-neutral-300 dark:border-neutral-700 border-t-neutral-600 dark:border-t-neutral-300 rounded-full animate-spin" />
+          Loading more documents…
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          className="text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+        >
+          Load more
+        </button>
+      )}
+    </div>
+  );
+}
+
 /**
  * Document List Component
  */
@@ -354,6 +471,9 @@ export function DocumentList({
   onGroupsChange,
   currentGroupId,
   onRemoveFromGroup,
+  hasMore = false,
+  isLoadingMore = false,
+  onLoadMore,
 }: DocumentListProps) {
   if (documents.length === 0) {
     return (
@@ -380,6 +500,9 @@ export function DocumentList({
           />
         ))}
       </ul>
+      {hasMore && onLoadMore && (
+        <LoadMoreSentinel isLoading={isLoadingMore} onLoadMore={onLoadMore} />
+      )}
     </div>
   );
 }
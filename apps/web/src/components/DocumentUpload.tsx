@@ -1,12 +1,100 @@
-import { useState, useCallback, useRef } from 'react';
-import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Document } from '@ai-document-vault/shared';
-import { uploadDocument, type UploadResult } from '@/lib/api/client';
+import { useState, useCallback, useRef, useEffect } from 'react';
+import { DocumentStatus, DOCUMENT_ACCEPT, DOCUMENT_FORMATS, describeAcceptedFormats, isAcceptedFile } from '@ai-document-vault/shared';
+import type { Document, DuplicateAction, ExtractionTemplate } from '@ai-document-vault/shared';
+import { type UploadResult } from '@/lib/api/client';
 import { ApiClientError } from '@/lib/api/client';
+import { uploadFile, cancelUpload, isUploadAborted, getDuplicateDetails } from '@/lib/api/uploads';
+import { getTemplates } from '@/lib/api/templates';
 
 interface DocumentUploadProps {
   onUploadSuccess: (document: Document) => void;
   onUploadError?: (error: ApiClientError) => void;
+  templatesRefreshTrigger?: number; // Changes when templates are created, edited or deleted
+}
+
+/**
+ * Files uploaded at the same time; the rest wait in the queue
+ */
+const MAX_CONCURRENT_UPLOADS = 3;
+
+const MAX_FILE_SIZE = 100 * 1024 * 1024; // 100MB, matches the server limit
+
+const SUPPORTED_FORMAT_LABELS = DOCUMENT_FORMATS.map((format) => format.label).join(', ');
+
+type UploadItemStatus =
+  | 'queued'
+  | 'uploading'
+  | 'done'
+  | 'failed'
+  | 'cancelled'
+  | 'rejected'
+  | 'duplicate' // Waiting for the user to choose link, skip or upload again
+  | 'skipped';
+
+/**
+ * One file in the upload queue
+ */
+interface UploadItem {
+  id: string;
+  file: File;
+  path: string; // Path within a dropped or selected folder, or the file name
+  status: UploadItemStatus;
+  loaded: number; // Bytes sent
+  error?: string;
+  duplicateOf?: Document; // Existing document with the same content
+  onDuplicate?: DuplicateAction; // The user's choice, sent when the upload is retried
+  templateIds: string[]; // Extraction templates selected when the file was added
+}
+
+/**
+ * Read every file from a dropped directory entry, recursively
+ */
+async function readEntryFiles(entry: FileSystemEntry, path: string): Promise<Array<{ file: File; path: string }>> {
+  if (entry.isFile) {
+    const file = await new Promise<File>((resolve, reject) =>
+      (entry as FileSystemFileEntry).file(resolve, reject)
+    );
+    return [{ file, path: `${path}${file.name}` }];
+  }
+
+  if (!entry.isDirectory) {
+    return [];
+  }
+
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const entries: FileSystemEntry[] = [];
+  // readEntries returns results in batches until it returns an empty batch
+  for (;;) {
+    const batch = await new Promise<FileSystemEntry[]>((resolve, reject) => reader.readEntries(resolve, reject));
+    if (batch.length === 0) break;
+    entries.push(...batch);
+  }
+
+  const nested = await Promise.all(entries.map((child) => readEntryFiles(child, `${path}${entry.name}/`)));
+  return nested.flat();
+}
+
+/**
+ * Collect dropped files, expanding dropped folders
+ */
+async function getDroppedFiles(dataTransfer: DataTransfer): Promise<Array<{ file: File; path: string }>> {
+  const entries = Array.from(dataTransfer.items)
+    .map((item) => (item.kind === 'file' ? item.webkitGetAsEntry?.() : null))
+    .filter((entry): entry is FileSystemEntry => Boolean(entry));
+
+  if (entries.length === 0) {
+    return Array.from(dataTransfer.files).map((file) => ({ file, path: file.name }));
+  }
+
+  const files = await Promise.all(entries.map((entry) => readEntryFiles(entry, '')));
+  return files.flat();
+}
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
 }
 
 function getUserFriendlyErrorMessage(error: ApiClientError): string {
@@ -28,80 +116,152 @@ function getUserFriendlyErrorMessage(error: ApiClientError): string {
 export function DocumentUpload({
   onUploadSuccess,
   onUploadError,
+  templatesRefreshTrigger,
 }: DocumentUploadProps) {
   const [isDragging, setIsDragging] = useState(false);
-  const [isUploading, setIsUploading] = useState(false);
+  const [uploads, setUploads] = useState<UploadItem[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [costWarning, setCostWarning] = useState<string | null>(null);
+  const [quotaNotice, setQuotaNotice] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>([]);
+  const [selectedTemplateIds, setSelectedTemplateIds] = useState<string[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
+  const controllersRef = useRef(new Map<string, AbortController>());
+
+  // webkitdirectory isn't in React's input attribute types
+  useEffect(() => {
+    folderInputRef.current?.setAttribute('webkitdirectory', '');
+  }, []);
+
+  // Templates are optional, so uploads work without them if loading fails
+  useEffect(() => {
+    getTemplates()
+      .then((loaded) => {
+        setTemplates(loaded);
+        // Drop selections of deleted templates
+        setSelectedTemplateIds((prev) => prev.filter((id) => loaded.some((template) => template.id === id)));
+      })
+      .catch(() => undefined);
+  }, [templatesRefreshTrigger]);
+
+  const toggleTemplate = useCallback((templateId: string) => {
+    setSelectedTemplateIds((prev) =>
+      prev.includes(templateId) ? prev.filter((id) => id !== templateId) : [...prev, templateId]
+    );
+  }, []);
 
   /**
-   * Validate file type (PDF, DOC, DOCX only)
+   * Validate file type against the shared format registry (same rules as the server)
    */
   const validateFileType = useCallback((file: File): string | null => {
-    const allowedMimeTypes = [
-      'application/pdf',
-      'application/msword',
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    ];
-    
-    const allowedExtensions = ['.pdf', '.doc', '.docx'];
-    
-    // Get file extension
-    const fileName = file.name.toLowerCase();
-    const fileExtension = fileName.substring(fileName.lastIndexOf('.'));
-    
-    // Validate MIME type
-    const isValidMimeType = file.type && allowedMimeTypes.includes(file.type);
-    
-    // Validate file extension
-    const isValidExtension = allowedExtensions.includes(fileExtension);
-    
-    if (!isValidMimeType || !isValidExtension) {
-      return 'Invalid file type. Only PDF (.pdf), Word (.doc), and Word (.docx) files are allowed.';
+    if (!isAcceptedFile(file.name, file.type)) {
+      return `Invalid file type. Supported formats: ${describeAcceptedFormats()}.`;
     }
     
     return null;
   }, []);
 
   /**
-   * Handle file selection and upload
+   * Validate a file BEFORE upload
    */
-  const handleFile = useCallback(
-    async (file: File) => {
-      // Validate file name
+  const validateFile = useCallback(
+    (file: File): string | null => {
       if (!file.name || file.name.trim() === '') {
-        setError('File name is required');
-        return;
+        return 'File name is required';
       }
 
-      // Validate file type BEFORE upload
       const typeError = validateFileType(file);
       if (typeError) {
-        setError(typeError);
-        return;
+        return typeError;
+      }
+
+      if (file.size > MAX_FILE_SIZE) {
+        return `File size exceeds 100MB limit. Current size: ${(file.size / 1024 / 1024).toFixed(2)}MB`;
       }
 
-      // Validate file size (50MB limit)
-      const maxSize = 50 * 1024 * 1024; // 50MB
-      if (file.size > maxSize) {
-        setError(`File size exceeds 50MB limit. Current size: ${(file.size / 1024 / 1024).toFixed(2)}MB`);
+      return null;
+    },
+    [validateFileType]
+  );
+
+  const updateUpload = useCallback((id: string, changes: Partial<UploadItem>) => {
+    setUploads((prev) => prev.map((item) => (item.id === id ? { ...item, ...changes } : item)));
+  }, []);
+
+  /**
+   * Add files to the upload queue
+   * 
+   * Hidden files inside folders (e.g. .DS_Store) are skipped; other
+   * unsupported files are listed as rejected.
+   */
+  const addFiles = useCallback(
+    (files: Array<{ file: File; path: string }>) => {
+      const candidates = files.filter(({ file, path }) => !(path.includes('/') && file.name.startsWith('.')));
+
+      if (candidates.length === 0) {
+        setError('No files found to upload.');
         return;
       }
 
       setError(null);
       setCostWarning(null);
-      setIsUploading(true);
+      setQuotaNotice(null);
+      setUploads((prev) => [
+        ...prev,
+        ...candidates.map(({ file, path }): UploadItem => {
+          const validationError = validateFile(file);
+          return {
+            id: `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+            file,
+            path,
+            status: validationError ? 'rejected' : 'queued',
+            loaded: 0,
+            error: validationError ?? undefined,
+            templateIds: selectedTemplateIds,
+          };
+        }),
+      ]);
+    },
+    [validateFile, selectedTemplateIds]
+  );
+
+  /**
+   * Upload one queued file
+   */
+  const startUpload = useCallback(
+    async (item: UploadItem) => {
+      const controller = new AbortController();
+      controllersRef.current.set(item.id, controller);
+      updateUpload(item.id, { status: 'uploading', error: undefined });
 
       try {
-        // Upload file
-        const result: UploadResult = await uploadDocument(file);
+        const result: UploadResult = await uploadFile(item.file, {
+          signal: controller.signal,
+          onProgress: ({ loaded }) => updateUpload(item.id, { loaded }),
+          onDuplicate: item.onDuplicate,
+          templateIds: item.templateIds,
+        });
+
+        updateUpload(item.id, { status: 'done', loaded: item.file.size });
 
         // Show cost awareness message if applicable (non-alarming, informative)
         if (result.costEstimate?.processingMessage) {
           setCostWarning(result.costEstimate.processingMessage);
         }
 
+        // Over quota: stored, but left UPLOADED until it is retried
+        if (result.quotaExceeded) {
+          setQuotaNotice(`Uploaded, but not processed yet. ${result.quotaExceeded.message}`);
+        }
+
+        // Linked duplicates are READY already, and documents over quota
+        // aren't processing; show both as they are
+        if (result.document.status === DocumentStatus.READY || result.quotaExceeded) {
+          onUploadSuccess(result.document);
+          return;
+        }
+
         // Create optimistic document with PROCESSING status for UI
         // (Backend returns UPLOADED, but we show PROCESSING to user)
         const optimisticDocument: Document = {
@@ -109,9 +269,25 @@ export function DocumentUpload({
           status: DocumentStatus.PROCESSING, // Show as processing in UI
         };
 
-        // Call success callback
         onUploadSuccess(optimisticDocument);
       } catch (err) {
+        if (isUploadAborted(err)) {
+          updateUpload(item.id, { status: 'cancelled' });
+          return;
+        }
+
+        // Same content as an existing document: ask what to do
+        const duplicate = getDuplicateDetails(err);
+        if (duplicate) {
+          updateUpload(item.id, {
+            status: 'duplicate',
+            duplicateOf: duplicate.existing_document,
+            onDuplicate: undefined,
+            error: err instanceof ApiClientError && err.code === 'DUPLICATE_NOT_READY' ? err.message : undefined,
+          });
+          return;
+        }
+
         const apiError =
           err instanceof ApiClientError
             ? err
@@ -121,19 +297,71 @@ export function DocumentUpload({
                 'UNKNOWN_ERROR'
               );
 
-        // Set explicit error message for user
-        const userFriendlyMessage = getUserFriendlyErrorMessage(apiError);
-        setError(userFriendlyMessage);
-        
-        // Call error callback
+        updateUpload(item.id, { status: 'failed', error: getUserFriendlyErrorMessage(apiError) });
         onUploadError?.(apiError);
       } finally {
-        setIsUploading(false);
+        controllersRef.current.delete(item.id);
+      }
+    },
+    [onUploadSuccess, onUploadError, updateUpload]
+  );
+
+  // Start queued uploads while fewer than MAX_CONCURRENT_UPLOADS are running
+  useEffect(() => {
+    const active = uploads.filter((item) => item.status === 'uploading').length;
+    const next = uploads
+      .filter((item) => item.status === 'queued')
+      .slice(0, Math.max(0, MAX_CONCURRENT_UPLOADS - active));
+    next.forEach((item) => {
+      startUpload(item);
+    });
+  }, [uploads, startUpload]);
+
+  // Abort in-flight uploads on unmount; their sessions can be resumed later
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller.abort());
+  }, []);
+
+  const handleCancel = useCallback(
+    (item: UploadItem) => {
+      controllersRef.current.get(item.id)?.abort();
+      updateUpload(item.id, { status: 'cancelled' });
+      cancelUpload(item.file);
+    },
+    [updateUpload]
+  );
+
+  const handleRetry = useCallback(
+    (item: UploadItem) => {
+      // Chunked uploads resume from the chunks already on the server
+      updateUpload(item.id, { status: 'queued', loaded: 0, error: undefined });
+    },
+    [updateUpload]
+  );
+
+  /**
+   * Apply the user's choice for a duplicate file
+   */
+  const handleResolveDuplicate = useCallback(
+    (item: UploadItem, action: DuplicateAction) => {
+      if (action === 'skip') {
+        updateUpload(item.id, { status: 'skipped', error: undefined });
+        // Drop the chunks of a large file; nothing else was stored
+        cancelUpload(item.file);
+        return;
       }
+      updateUpload(item.id, { status: 'queued', loaded: 0, error: undefined, onDuplicate: action });
     },
-    [onUploadSuccess, onUploadError]
+    [updateUpload]
   );
 
+  const handleClearFinished = useCallback(() => {
+    setUploads((prev) =>
+      prev.filter((item) => item.status === 'queued' || item.status === 'uploading' || item.status === 'duplicate')
+    );
+  }, []);
+
   /**
    * Handle drag events
    */
@@ -150,34 +378,34 @@ export function DocumentUpload({
   }, []);
 
   const handleDrop = useCallback(
-    (e: React.DragEvent) => {
+    async (e: React.DragEvent) => {
       e.preventDefault();
       e.stopPropagation();
       setIsDragging(false);
 
-      const files = Array.from(e.dataTransfer.files);
-      if (files.length > 0) {
-        handleFile(files[0]); // Handle first file only
+      try {
+        addFiles(await getDroppedFiles(e.dataTransfer));
+      } catch (err) {
+        setError('Could not read the dropped files. Please try selecting them instead.');
       }
     },
-    [handleFile, validateFileType]
+    [addFiles]
   );
 
   /**
-   * Handle file input change
+   * Handle file or folder input change
    */
   const handleFileInputChange = useCallback(
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const files = e.target.files;
-      if (files && files.length > 0) {
-        handleFile(files[0]);
+      const input = e.target;
+      const files = Array.from(input.files || []);
+      if (files.length > 0) {
+        addFiles(files.map((file) => ({ file, path: file.webkitRelativePath || file.name })));
       }
       // Reset input to allow selecting same file again
-      if (fileInputRef.current) {
-        fileInputRef.current.value = '';
-      }
+      input.value = '';
     },
-    [handleFile, validateFileType]
+    [addFiles]
   );
 
   /**
@@ -187,8 +415,27 @@ export function DocumentUpload({
     fileInputRef.current?.click();
   }, []);
 
+  const handleFolderClick = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    folderInputRef.current?.click();
+  }, []);
+
+  const activeCount = uploads.filter((item) => item.status === 'queued' || item.status === 'uploading').length;
+  const duplicateCount = uploads.filter((item) => item.status === 'duplicate').length;
+  const hasFinished = uploads.length > activeCount + duplicateCount;
+
   return (
     <div className="w-full max-w-2xl mx-auto">
+      {/* Outside the dropzone so its click doesn't also open the file picker */}
+      <input
+        ref={folderInputRef}
+        type="file"
+        multiple
+        className="sr-only"
+        onChange={handleFileInputChange}
+        aria-label="Upload a folder"
+      />
+
       {/* Premium dropzone with Apple-inspired design */}
       <div
         className={`
@@ -197,7 +444,6 @@ export function DocumentUpload({
             ? 'border-neutral-400 dark:border-neutral-600 bg-neutral-100/50 dark:bg-neutral-800/50 scale-[1.01] shadow-lg' 
             : 'border-neutral-300 dark:border-neutral-700 bg-white dark:bg-neutral-900 hover:border-neutral-400 dark:hover:border-neutral-600 hover:shadow-md'
           }
-          ${isUploading ? 'cursor-not-allowed opacity-60' : ''}
         `}
         onDragOver={handleDragOver}
         onDragLeave={handleDragLeave}
@@ -207,53 +453,203 @@ export function DocumentUpload({
         <input
           ref={fileInputRef}
           type="file"
+          multiple
           className="sr-only"
           onChange={handleFileInputChange}
-          disabled={isUploading}
-          accept=".pdf,.doc,.docx,application/pdf,application/msword,application/vnd.openxmlformats-officedocument.wordprocessingml.document"
-          aria-label="Upload document"
+          accept={DOCUMENT_ACCEPT}
+          aria-label="Upload documents"
         />
 
         <div className="flex flex-col items-center gap-5">
-          {isUploading ? (
-            <>
-              <div 
-                className="w-6 h-6 border-2 border-neutral-300 dark:border-neutral-700 border-t-neutral-900 dark:border-t-neutral-100 rounded-full animate-spin" 
-                aria-label="Uploading" 
-              />
-              <p className="text-sm font-medium text-neutral-700 dark:text-neutral-300">Uploading...</p>
-            </>
-          ) : (
-            <>
-              <svg
-                className={`w-14 h-14 transition-colors duration-200 ${
-                  isDragging ? 'text-neutral-700 dark:text-neutral-300' : 'text-neutral-400 dark:text-neutral-500'
+          <svg
+            className={`w-14 h-14 transition-colors duration-200 ${
+              isDragging ? 'text-neutral-700 dark:text-neutral-300' : 'text-neutral-400 dark:text-neutral-500'
+            }`}
+            viewBox="0 0 24 24"
+            fill="none"
+            stroke="currentColor"
+            strokeWidth="1.5"
+            strokeLinecap="round"
+            strokeLinejoin="round"
+          >
+            <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
+            <polyline points="17 8 12 3 7 8" />
+            <line x1="12" y1="3" x2="12" y2="15" />
+          </svg>
+          <div className="space-y-2">
+            <p className="text-base font-medium text-neutral-900 dark:text-neutral-50 tracking-tight">
+              {isDragging
+                ? 'Drop files or folders here'
+                : 'Drag and drop files or folders here, or click to browse'}
+            </p>
+            <p className="text-xs text-neutral-500 dark:text-neutral-400 font-light">
+              Supported formats: {SUPPORTED_FORMAT_LABELS} • Maximum size: 100MB per file
+            </p>
+          </div>
+          <button
+            type="button"
+            onClick={handleFolderClick}
+            className="text-sm font-medium text-neutral-600 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 underline underline-offset-4 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 rounded"
+          >
+            Choose a folder
+          </button>
+        </div>
+      </div>
+
+      {templates.length > 0 && (
+        <div className="mt-4 flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-neutral-500 dark:text-neutral-400 font-light">Run templates:</span>
+          {templates.map((template) => {
+            const selected = selectedTemplateIds.includes(template.id);
+            return (
+              <button
+                key={template.id}
+                type="button"
+                onClick={() => toggleTemplate(template.id)}
+                aria-pressed={selected}
+                title={template.description ?? undefined}
+                className={`px-2.5 py-0.5 text-xs font-medium rounded-full border transition-colors ${
+                  selected
+                    ? 'text-white dark:text-neutral-900 bg-neutral-900 dark:bg-neutral-100 border-neutral-900 dark:border-neutral-100'
+                    : 'text-neutral-600 dark:text-neutral-400 border-neutral-300 dark:border-neutral-600 hover:border-neutral-400 dark:hover:border-neutral-500'
                 }`}
-                viewBox="0 0 24 24"
-                fill="none"
-                stroke="currentColor"
-                strokeWidth="1.5"
-                strokeLinecap="round"
-                strokeLinejoin="round"
               >
-                <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4" />
-                <polyline points="17 8 12 3 7 8" />
-                <line x1="12" y1="3" x2="12" y2="15" />
-              </svg>
-              <div className="space-y-2">
-                <p className="text-base font-medium text-neutral-900 dark:text-neutral-50 tracking-tight">
-                  {isDragging
-                    ? 'Drop file here'
-                    : 'Drag and drop a file here, or click to browse'}
-                </p>
-                <p className="text-xs text-neutral-500 dark:text-neutral-400 font-light">
-                  Supported formats: PDF, DOC, DOCX • Maximum size: 50MB
-                </p>
-              </div>
-            </>
-          )}
+                {template.name}
+              </button>
+            );
+          })}
         </div>
-      </div>
+      )}
+
+      {/* Per-file upload queue */}
+      {uploads.length > 0 && (
+        <div className="mt-5 bg-white dark:bg-neutral-900 border border-neutral-200/60 dark:border-neutral-700/60 rounded-xl shadow-sm">
+          <div className="flex items-center justify-between px-4 py-3 border-b border-neutral-200/60 dark:border-neutral-700/60">
+            <p className="text-sm font-medium text-neutral-900 dark:text-neutral-50" role="status">
+              {activeCount > 0
+                ? `Uploading… ${uploads.length - activeCount} of ${uploads.length} finished`
+                : `${uploads.length} file${uploads.length === 1 ? '' : 's'} finished`}
+            </p>
+            {hasFinished && (
+              <button
+                type="button"
+                onClick={handleClearFinished}
+                className="text-xs font-medium text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+              >
+                Clear finished
+              </button>
+            )}
+          </div>
+          <ul className="max-h-72 overflow-y-auto divide-y divide-neutral-200/60 dark:divide-neutral-700/60 list-none p-0 m-0">
+            {uploads.map((item) => {
+              const percent = item.file.size > 0 ? Math.round((item.loaded / item.file.size) * 100) : 0;
+              return (
+                <li key={item.id} className="px-4 py-3">
+                  <div className="flex items-center justify-between gap-3">
+                    <span className="text-sm text-neutral-800 dark:text-neutral-200 truncate" title={item.path}>
+                      {item.path}
+                    </span>
+                    <div className="flex items-center gap-3 flex-shrink-0">
+                      <span className="text-xs text-neutral-500 dark:text-neutral-400 tabular-nums">
+                        {item.status === 'uploading' && `${percent}% of ${formatBytes(item.file.size)}`}
+                        {item.status === 'queued' && 'Queued'}
+                        {item.status === 'done' && (item.onDuplicate === 'link' ? 'Linked' : 'Uploaded')}
+                        {item.status === 'cancelled' && 'Cancelled'}
+                        {item.status === 'skipped' && 'Skipped'}
+                        {item.status === 'duplicate' && (
+                          <span className="text-amber-700 dark:text-amber-400">Duplicate</span>
+                        )}
+                        {(item.status === 'failed' || item.status === 'rejected') && (
+                          <span className="text-red-600 dark:text-red-400">
+                            {item.status === 'rejected' ? 'Not uploaded' : 'Failed'}
+                          </span>
+                        )}
+                      </span>
+                      {(item.status === 'queued' || item.status === 'uploading') && (
+                        <button
+                          type="button"
+                          onClick={() => handleCancel(item)}
+                          className="text-xs font-medium text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+                          aria-label={`Cancel upload of ${item.path}`}
+                        >
+                          Cancel
+                        </button>
+                      )}
+                      {(item.status === 'failed' || item.status === 'cancelled') && (
+                        <button
+                          type="button"
+                          onClick={() => handleRetry(item)}
+                          className="text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+                          aria-label={`Retry upload of ${item.path}`}
+                        >
+                          Retry
+                        </button>
+                      )}
+                    </div>
+                  </div>
+                  {(item.status === 'uploading' || item.status === 'queued') && (
+                    <div
+                      className="mt-2 h-1.5 bg-neutral-100 dark:bg-neutral-800 rounded-full overflow-hidden"
+                      role="progressbar"
+                      aria-valuemin={0}
+                      aria-valuemax={100}
+                      aria-valuenow={percent}
+                      aria-label={`Upload progress for ${item.path}`}
+                    >
+                      <div
+                        className="h-full bg-neutral-900 dark:bg-neutral-100 transition-[width] duration-200"
+                        style={{ width: `${percent}%` }}
+                      />
+                    </div>
+                  )}
+                  {item.status === 'duplicate' && item.duplicateOf && (
+                    <div className="mt-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+                      <span className="text-xs text-neutral-600 dark:text-neutral-400">
+                        Same content as <span className="font-medium">{item.duplicateOf.name}</span>
+                      </span>
+                      <button
+                        type="button"
+                        onClick={() => handleResolveDuplicate(item, 'link')}
+                        disabled={item.duplicateOf.status !== DocumentStatus.READY}
+                        title={
+                          item.duplicateOf.status === DocumentStatus.READY
+                            ? 'Add it without processing again, reusing the existing summary'
+                            : 'Available once the existing document has been processed'
+                        }
+                        className="text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+                      >
+                        Link
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleResolveDuplicate(item, 'skip')}
+                        className="text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+                      >
+                        Skip
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => handleResolveDuplicate(item, 'new_version')}
+                        title={
+                          item.duplicateOf.status === DocumentStatus.READY
+                            ? 'Add it as a new version of the existing document, reusing its summary'
+                            : 'Add it as a new version of the existing document and process it again'
+                        }
+                        className="text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+                      >
+                        Upload as new version
+                      </button>
+                    </div>
+                  )}
+                  {item.error && (
+                    <p className="mt-1 text-xs text-red-600 dark:text-red-400">{item.error}</p>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        </div>
+      )}
 
       {/* Cost awareness message (calm, informative, non-alarming) */}
       {costWarning && (
@@ -275,6 +671,26 @@ export function DocumentUpload({
         </div>
       )}
 
+      {/* Quota notice: the upload succeeded but processing is waiting */}
+      {quotaNotice && (
+        <div 
+          className="mt-5 p-4 bg-amber-50/80 dark:bg-amber-950/30 border border-amber-200/60 dark:border-amber-800/60 rounded-xl flex items-start gap-3 text-amber-900 dark:text-amber-200 shadow-sm" 
+          role="status"
+        >
+          <svg className="w-5 h-5 text-amber-600 dark:text-amber-400 flex-shrink-0 mt-0.5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+          </svg>
+          <span className="text-sm flex-1 leading-relaxed">{quotaNotice}</span>
+          <button
+            className="bg-transparent border-none text-amber-700 dark:text-amber-300 text-xl leading-none cursor-pointer p-1 w-6 h-6 flex items-center justify-center rounded-md hover:bg-amber-100/50 dark:hover:bg-amber-900/50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-amber-500 focus-visible:ring-offset-2 dark:focus-visible:ring-offset-neutral-900 transition-colors"
+            onClick={() => setQuotaNotice(null)}
+            aria-label="Dismiss message"
+          >
+            ×
+          </button>
+        </div>
+      )}
+
       {/* Error display with Apple-style design */}
       {error && (
         <div 
@@ -0,0 +1,75 @@
+/**
+ * Document Usage Component
+ *
+ * Tokens and estimated cost of the AI calls made for a document, in total
+ * and per operation. Shown at the end of the document's Details tab.
+ */
+
+import { useState, useEffect } from 'react';
+import { AI_OPERATION_LABELS } from '@ai-document-vault/shared';
+import type { DocumentUsageReport } from '@ai-document-vault/shared';
+import { getDocumentUsage } from '@/lib/api/usage';
+import { ApiClientError } from '@/lib/api/client';
+import { formatCost, formatTokens } from '@/lib/usageFormat';
+
+interface DocumentUsageProps {
+  documentId: string;
+}
+
+const termClass = 'text-xs font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider';
+const valueClass = 'text-sm text-neutral-900 dark:text-neutral-100';
+
+export function DocumentUsage({ documentId }: DocumentUsageProps) {
+  const [usage, setUsage] = useState<DocumentUsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setUsage(null);
+    setError(null);
+    getDocumentUsage(documentId)
+      .then((report) => {
+        if (!cancelled) setUsage(report);
+      })
+      .catch((err) => {
+        if (!cancelled) setError(err instanceof ApiClientError ? err.message : 'Failed to load AI usage');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  return (
+    <section>
+      <h3 className={`${termClass} mb-3`}>AI usage</h3>
+      {error ? (
+        <p className="text-sm text-red-600 dark:text-red-400 font-light">{error}</p>
+      ) : !usage ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">Loading…</p>
+      ) : usage.totals.calls === 0 ? (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">No AI calls have been recorded for this document.</p>
+      ) : (
+        <ul className="flex flex-col gap-2">
+          {usage.by_operation.map((operation) => (
+            <li key={operation.operation} className={`flex items-baseline justify-between gap-4 ${valueClass}`}>
+              <span className="text-neutral-600 dark:text-neutral-400 font-light">
+                {AI_OPERATION_LABELS[operation.operation] ?? operation.operation}
+                <span className="ml-2 text-xs">
+                  {operation.calls} {operation.calls === 1 ? 'call' : 'calls'} · {formatTokens(operation.input_tokens)} in · {formatTokens(operation.output_tokens)} out
+                </span>
+              </span>
+              <span className="font-medium tabular-nums">{formatCost(operation.cost_usd)}</span>
+            </li>
+          ))}
+          <li className={`flex items-baseline justify-between gap-4 pt-2 border-t border-neutral-200/60 dark:border-neutral-700/60 ${valueClass}`}>
+            <span className="font-medium">Total</span>
+            <span className="font-semibold tabular-nums">{formatCost(usage.totals.cost_usd)}</span>
+          </li>
+        </ul>
+      )}
+      <p className="mt-2 text-xs text-neutral-500 dark:text-neutral-400 font-light">
+        Estimated from the token counts reported for each call.
+      </p>
+    </section>
+  );
+}
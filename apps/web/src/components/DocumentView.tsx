@@ -1,7 +1,7 @@
 /**
  * Document View Component
  * 
- * Displays document with tabs for Original | Summary | Markdown views.
+ * Displays document with tabs for Original | Summary | Markdown | Details | Templates | Similar views.
  * Supports human-in-the-loop controls: edit and regenerate AI content.
  * 
  * Features:
@@ -11,33 +11,82 @@
  * - Edit AI-generated summary and markdown
  * - Regenerate summary or markdown independently
  * - Visual indicators for AI vs user-edited content
+ * - Line and word diff of each edit or regeneration, unified or side by side
+ * - Notice when a long document was only partially processed
+ * - Details extracted by AI: document type, key dates, parties, amounts
+ *   and language, with the document's AI usage and estimated cost
+ * - Extraction templates: assign, run, and view results by template layout
+ * - Similar documents by embedding similarity
+ * - Version picker: view earlier versions' file, summary and markdown
+ *   (read-only) and upload new versions
+ * - Ask questions about the document; citations highlight the cited
+ *   passage in the Markdown tab
+ * - Revision history of the summary and markdown, with restore
+ * - Tags with autocomplete, and AI-suggested tags to accept or reject
  * - Loading and empty states
  */
 
-import { useState, useEffect, useCallback } from 'react';
-import { DocumentStatus, ContentSource } from '@ai-document-vault/shared';
-import type { Document } from '@ai-document-vault/shared';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { DocumentStatus, ContentSource, ProcessingCoverage, KEY_DATE_KINDS } from '@ai-document-vault/shared';
+import type {
+  Document,
+  DocumentMetadata,
+  DocumentSearchResult,
+  DocumentVersionInfo,
+  DocumentVersionWithUrl,
+  AskCitation,
+  OcrPage,
+} from '@ai-document-vault/shared';
 import { getDocument, updateDocumentContent, regenerateDocumentContent } from '@/lib/api/client';
 import { ApiClientError } from '@/lib/api/client';
+import { getSimilarDocuments } from '@/lib/api/search';
+import { getDocumentVersions, getDocumentVersion } from '@/lib/api/versions';
+import { uploadDocumentVersion } from '@/lib/api/uploads';
+import { citationHighlight } from '@/lib/citations';
+import type { MarkdownHighlight } from '@/lib/citations';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { DocumentViewSkeleton } from './Skeleton';
+import { SearchSnippet } from './SearchSnippet';
+import { AskPanel } from './AskPanel';
+import { VersionPicker } from './VersionPicker';
+import { RevisionHistory } from './RevisionHistory';
+import { ContentDiff } from './ContentDiff';
+import { TagEditor } from './TagEditor';
+import { TemplateResults } from './TemplateResults';
+import { DocumentUsage } from './DocumentUsage';
+import { DOCUMENT_TYPE_LABELS, KEY_DATE_LABELS } from '@/lib/metadataLabels';
 
 interface DocumentViewProps {
   documentId: string;
   onClose?: () => void;
   onUpdate?: (document: Document) => void;
+  initialTab?: ViewTab;
+  initialHighlight?: MarkdownHighlight | null; // Passage to highlight in the Markdown tab
 }
 
-type ViewTab = 'original' | 'summary' | 'markdown';
+export type ViewTab = 'original' | 'summary' | 'markdown' | 'details' | 'templates' | 'similar';
 
 type DocumentWithUrl = Document & { signed_url: string | null };
 
-export function DocumentView({ documentId, onClose, onUpdate }: DocumentViewProps) {
+export function DocumentView({
+  documentId,
+  onClose,
+  onUpdate,
+  initialTab = 'original',
+  initialHighlight = null,
+}: DocumentViewProps) {
   const [document, setDocument] = useState<DocumentWithUrl | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [activeTab, setActiveTab] = useState<ViewTab>('original');
+  const [activeTab, setActiveTab] = useState<ViewTab>(initialTab);
+  const [highlight, setHighlight] = useState<MarkdownHighlight | null>(initialHighlight);
+  const [showAsk, setShowAsk] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [versions, setVersions] = useState<DocumentVersionInfo[]>([]);
+  const [viewedVersion, setViewedVersion] = useState<DocumentVersionWithUrl | null>(null); // null = current version
+  const [versionError, setVersionError] = useState<string | null>(null);
+  const [versionUploadPercent, setVersionUploadPercent] = useState<number | null>(null);
 
   const loadDocument = useCallback(async () => {
       try {
@@ -61,6 +110,62 @@ export function DocumentView({ documentId, onClose, onUpdate }: DocumentViewProp
     loadDocument();
   }, [loadDocument]);
 
+  const loadVersions = useCallback(async () => {
+    try {
+      setVersions(await getDocumentVersions(documentId));
+    } catch {
+      // The picker is hidden without a version list
+      setVersions([]);
+    }
+  }, [documentId]);
+
+  useEffect(() => {
+    loadVersions();
+  }, [loadVersions]);
+
+  const handleSelectVersion = useCallback(async (versionNumber: number) => {
+    setVersionError(null);
+    if (versionNumber === (document?.current_version ?? 1)) {
+      setViewedVersion(null);
+      return;
+    }
+
+    try {
+      setViewedVersion(await getDocumentVersion(documentId, versionNumber));
+      setHighlight(null); // Citation offsets refer to the current version
+    } catch (err) {
+      setVersionError(err instanceof ApiClientError ? err.message : 'Failed to load version');
+    }
+  }, [document?.current_version, documentId]);
+
+  const handleUploadVersion = useCallback(async (file: File) => {
+    setVersionError(null);
+    setVersionUploadPercent(0);
+
+    try {
+      const result = await uploadDocumentVersion(documentId, file, {
+        onProgress: ({ loaded, total }) => setVersionUploadPercent(total > 0 ? Math.round((loaded / total) * 100) : 100),
+      });
+      setViewedVersion(null);
+      setActiveTab('original');
+      onUpdate?.({ ...result.document, status: DocumentStatus.PROCESSING });
+
+      // Reload for the new file's signed URL
+      setDocument(await getDocument(documentId));
+      await loadVersions();
+    } catch (err) {
+      setVersionError(err instanceof ApiClientError ? err.message : 'Failed to upload new version');
+    } finally {
+      setVersionUploadPercent(null);
+    }
+  }, [documentId, loadVersions, onUpdate]);
+
+  const handleCitationClick = useCallback((citation: AskCitation) => {
+    if (citation.document_id !== documentId) return;
+    setHighlight(citationHighlight(citation));
+    setActiveTab('markdown');
+  }, [documentId]);
+
   const handleUpdate = useCallback((updatedDoc: Document) => {
     setDocument((prev) => prev ? { ...prev, ...updatedDoc, signed_url: prev.signed_url } : null);
     onUpdate?.(updatedDoc);
@@ -94,17 +199,81 @@ export function DocumentView({ documentId, onClose, onUpdate }: DocumentViewProp
     );
   }
 
+  // Earlier versions show their own file and content
+  const currentVersion = document.current_version ?? 1;
+  const displayed: DocumentWithUrl = viewedVersion
+    ? {
+        ...document,
+        summary: viewedVersion.summary,
+        markdown: viewedVersion.markdown,
+        summary_source: viewedVersion.summary_source ?? undefined,
+        markdown_source: viewedVersion.markdown_source ?? undefined,
+        status: viewedVersion.status,
+        ai_model: viewedVersion.ai_model,
+        signed_url: viewedVersion.signed_url,
+      }
+    : document;
+
   const isReady = document.status === DocumentStatus.READY;
-  const hasSummary = document.summary && document.summary.trim().length > 0;
-  const hasMarkdown = document.markdown && document.markdown.trim().length > 0;
+  const isDisplayedReady = displayed.status === DocumentStatus.READY;
+  const hasSummary = displayed.summary && displayed.summary.trim().length > 0;
+  const hasMarkdown = displayed.markdown && displayed.markdown.trim().length > 0;
+  const isPartiallyProcessed = !viewedVersion && document.processing_coverage === ProcessingCoverage.PARTIAL;
+  const ocrPages = !viewedVersion ? document.ocr_pages ?? [] : [];
+  const historyField = activeTab === 'summary' || activeTab === 'markdown' ? activeTab : null;
+  const canShowHistory = isReady && !viewedVersion && historyField !== null;
+  const processedPercent =
+    document.processed_chars != null && document.total_chars
+      ? Math.max(1, Math.floor((document.processed_chars / document.total_chars) * 100))
+      : null;
 
   return (
-    <div className="fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4">
+    <div className={`fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4 ${showAsk || (showHistory && canShowHistory) ? 'sm:pr-[28rem]' : ''}`}>
       <div className="bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col border border-neutral-200/60 dark:border-neutral-700/60">
         <div className="flex items-center justify-between p-6 border-b border-neutral-200/60 dark:border-neutral-700/60">
           <h2 className="text-xl font-semibold text-neutral-900 dark:text-neutral-50 truncate flex-1 tracking-tight">
             {document.name}
           </h2>
+          <div className="ml-4">
+            <VersionPicker
+              versions={versions}
+              currentVersion={currentVersion}
+              selectedVersion={viewedVersion?.version_number ?? currentVersion}
+              onSelect={handleSelectVersion}
+              onUpload={handleUploadVersion}
+              uploadPercent={versionUploadPercent}
+              uploadDisabled={document.status === DocumentStatus.PROCESSING}
+              uploadDisabledReason="Available once processing finishes"
+            />
+          </div>
+          {canShowHistory && (
+            <button
+              onClick={() => {
+                setShowAsk(false);
+                setShowHistory(true);
+              }}
+              className="ml-4 inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z" />
+              </svg>
+              History
+            </button>
+          )}
+          {isReady && (
+            <button
+              onClick={() => {
+                setShowHistory(false);
+                setShowAsk(true);
+              }}
+              className="ml-4 inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+            >
+              <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+              Ask
+            </button>
+          )}
           {onClose && (
             <button
               onClick={onClose}
@@ -118,6 +287,41 @@ export function DocumentView({ documentId, onClose, onUpdate }: DocumentViewProp
           )}
         </div>
 
+        {viewedVersion && (
+          <div className="px-6 py-3 flex items-center justify-between gap-4 text-sm text-neutral-700 dark:text-neutral-300 bg-neutral-50 dark:bg-neutral-800/50 border-b border-neutral-200/60 dark:border-neutral-700/60">
+            <span>
+              Viewing version {viewedVersion.version_number} ({viewedVersion.filename}, uploaded{' '}
+              {new Date(viewedVersion.created_at).toLocaleDateString()}). Earlier versions are read-only.
+            </span>
+            <button
+              onClick={() => handleSelectVersion(currentVersion)}
+              className="flex-shrink-0 text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 underline underline-offset-4 transition-colors"
+            >
+              Back to current
+            </button>
+          </div>
+        )}
+
+        {!viewedVersion && (
+          // Remounts when processing finishes, which brings new tag suggestions
+          <TagEditor key={`${document.id}-${document.status}`} documentId={document.id} />
+        )}
+
+        {versionError && (
+          <div className="px-6 py-3 text-sm text-red-800 dark:text-red-300 bg-red-50 dark:bg-red-950/30 border-b border-red-200/60 dark:border-red-800/60" role="alert">
+            {versionError}
+          </div>
+        )}
+
+        {isReady && isPartiallyProcessed && (
+          <div className="px-6 py-3 text-sm text-amber-800 dark:text-amber-300 bg-amber-50 dark:bg-amber-950/30 border-b border-amber-200/60 dark:border-amber-800/60">
+            This document is very long, so only {processedPercent !== null ? `the first ${processedPercent}%` : 'part'} of it was processed by AI.
+            The summary and markdown do not cover the remainder.
+          </div>
+        )}
+
+        {isReady && ocrPages.length > 0 && <OcrNotice pages={ocrPages} />}
+
         <div className="flex border-b border-neutral-200/60 dark:border-neutral-700/60 bg-neutral-50/50 dark:bg-neutral-800/50">
           <TabButton
             active={activeTab === 'original'}
@@ -129,38 +333,139 @@ export function DocumentView({ documentId, onClose, onUpdate }: DocumentViewProp
             active={activeTab === 'summary'}
             onClick={() => setActiveTab('summary')}
             label="Summary"
-            disabled={!isReady || !hasSummary}
+            disabled={!isDisplayedReady || !hasSummary}
           />
           <TabButton
             active={activeTab === 'markdown'}
             onClick={() => setActiveTab('markdown')}
             label="Markdown"
-            disabled={!isReady || !hasMarkdown}
+            disabled={!isDisplayedReady || !hasMarkdown}
+          />
+          <TabButton
+            active={activeTab === 'details'}
+            onClick={() => setActiveTab('details')}
+            label="Details"
+            disabled={!isReady}
+          />
+          <TabButton
+            active={activeTab === 'templates'}
+            onClick={() => setActiveTab('templates')}
+            label="Templates"
+            disabled={false}
+          />
+          <TabButton
+            active={activeTab === 'similar'}
+            onClick={() => setActiveTab('similar')}
+            label="Similar"
+            disabled={!isReady}
           />
         </div>
 
         <div className="flex-1 overflow-auto p-8">
           {activeTab === 'original' && (
-            <OriginalView document={document} />
+            <OriginalView document={displayed} />
           )}
           {activeTab === 'summary' && (
             <SummaryView
-              document={document}
+              key={viewedVersion?.version_number ?? 'current'}
+              document={displayed}
               onUpdate={handleUpdate}
+              readOnly={viewedVersion !== null}
             />
           )}
           {activeTab === 'markdown' && (
             <MarkdownView
-              document={document}
+              key={viewedVersion?.version_number ?? 'current'}
+              document={displayed}
               onUpdate={handleUpdate}
+              highlight={highlight}
+              onClearHighlight={() => setHighlight(null)}
+              readOnly={viewedVersion !== null}
+            />
+          )}
+          {activeTab === 'details' && (
+            <div className="flex flex-col gap-8">
+              <DetailsView metadata={document.metadata ?? null} isEarlierVersion={viewedVersion !== null} />
+              <DocumentUsage key={`${document.id}-${document.status}`} documentId={document.id} />
+            </div>
+          )}
+          {activeTab === 'templates' && (
+            <TemplateResults
+              key={`${document.id}-${document.status}`}
+              documentId={document.id}
+              isReady={isReady}
+              isEarlierVersion={viewedVersion !== null}
             />
           )}
+          {activeTab === 'similar' && (
+            <SimilarView documentId={document.id} />
+          )}
         </div>
       </div>
+
+      {showHistory && canShowHistory && historyField && (
+        <RevisionHistory
+          key={historyField}
+          documentId={document.id}
+          field={historyField}
+          content={document[historyField] ?? null}
+          onRestore={handleUpdate}
+          onClose={() => setShowHistory(false)}
+        />
+      )}
+
+      {showAsk && (
+        <AskPanel
+          title={`Ask about ${document.name}`}
+          documentId={document.id}
+          onClose={() => setShowAsk(false)}
+          onCitationClick={handleCitationClick}
+        />
+      )}
     </div>
   );
 }
 
+const HIGHLIGHT_BLOCK_TAGS = new Set(['p', 'li', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'td', 'th']);
+const HIGHLIGHT_CLASSES = ['bg-amber-100/70', 'dark:bg-amber-500/20', 'rounded', 'ring-4', 'ring-amber-100/70', 'dark:ring-amber-500/20'];
+
+/**
+ * Minimal hast node shape used by the highlight plugin
+ */
+interface HastNode {
+  type: string;
+  tagName?: string;
+  properties?: Record<string, unknown>;
+  position?: { start: { offset?: number }; end: { offset?: number } };
+  children?: HastNode[];
+}
+
+/**
+ * Rehype plugin that marks the outermost block elements overlapping a
+ * markdown character range, using the source positions react-markdown keeps
+ */
+function rehypeHighlightRange(range: MarkdownHighlight) {
+  const mark = (node: HastNode) => {
+    for (const child of node.children || []) {
+      const start = child.position?.start.offset;
+      const end = child.position?.end.offset;
+      const overlaps = start !== undefined && end !== undefined && start < range.end && end > range.start;
+
+      if (child.type === 'element' && overlaps && HIGHLIGHT_BLOCK_TAGS.has(child.tagName || '')) {
+        const existing = child.properties?.className;
+        const classes = Array.isArray(existing) ? existing : existing ? [String(existing)] : [];
+        child.properties = { ...child.properties, className: [...classes, ...HIGHLIGHT_CLASSES], dataCited: 'true' };
+        continue;
+      }
+      mark(child);
+    }
+  };
+
+  return () => (tree: HastNode) => {
+    mark(tree);
+  };
+}
+
 function TabButton({
   active,
   onClick,
@@ -273,12 +578,203 @@ function OriginalView({ document }: { document: DocumentWithUrl }) {
   );
 }
 
+function SimilarView({ documentId }: { documentId: string }) {
+  const [similar, setSimilar] = useState<DocumentSearchResult[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSimilar(null);
+    setError(null);
+
+    getSimilarDocuments(documentId)
+      .then((results) => {
+        if (!cancelled) {
+          setSimilar(results);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof ApiClientError ? err.message : 'Failed to load similar documents');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  if (error) {
+    return <p className="text-sm text-red-600 dark:text-red-400">{error}</p>;
+  }
+
+  if (!similar) {
+    return <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">Finding similar documents...</p>;
+  }
+
+  if (similar.length === 0) {
+    return (
+      <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">
+        No similar documents yet. Upload more documents on related topics to see them here.
+      </p>
+    );
+  }
+
+  return (
+    <ul className="flex flex-col gap-4">
+      {similar.map((result) => (
+        <li
+          key={result.id}
+          className="flex flex-col gap-2 p-4 border border-neutral-200/60 dark:border-neutral-700/60 rounded-xl"
+        >
+          <div className="flex items-center justify-between gap-4">
+            <span className="text-sm font-medium text-neutral-900 dark:text-neutral-100 truncate">{result.name}</span>
+            {result.rank !== undefined && (
+              <span className="shrink-0 text-[11px] font-medium text-neutral-500 dark:text-neutral-400">
+                {Math.round(result.rank * 100)}% similar
+              </span>
+            )}
+          </div>
+          {result.snippet && result.snippet.length > 0 && <SearchSnippet segments={result.snippet} />}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+// OCR pages below this confidence are called out as possibly inaccurate
+const LOW_OCR_CONFIDENCE = 60;
+
+/**
+ * Flags a document whose text was read from scanned pages by OCR
+ */
+function OcrNotice({ pages }: { pages: OcrPage[] }) {
+  const confidence = Math.round(pages.reduce((sum, page) => sum + page.confidence, 0) / pages.length);
+  const lowPages = pages.filter((page) => page.confidence < LOW_OCR_CONFIDENCE);
+
+  return (
+    <div className="px-6 py-3 text-sm text-sky-800 dark:text-sky-300 bg-sky-50 dark:bg-sky-950/30 border-b border-sky-200/60 dark:border-sky-800/60">
+      <p>
+        <span className="font-medium">OCR</span>: text on {pages.length} {pages.length === 1 ? 'page' : 'pages'} was read from scanned images
+        (average confidence {confidence}%).
+        {lowPages.length > 0 && ' Some pages were hard to read, so the summary and markdown may contain mistakes.'}
+      </p>
+      <details className="mt-1">
+        <summary className="cursor-pointer text-xs font-medium">Confidence per page</summary>
+        <ul className="mt-1 flex flex-wrap gap-x-4 gap-y-1 text-xs">
+          {pages.map((page) => (
+            <li
+              key={page.page}
+              className={page.confidence < LOW_OCR_CONFIDENCE ? 'text-amber-700 dark:text-amber-400 font-medium' : undefined}
+            >
+              Page {page.page}: {Math.round(page.confidence)}%
+            </li>
+          ))}
+        </ul>
+      </details>
+    </div>
+  );
+}
+
+/**
+ * Format a YYYY-MM-DD date as a local calendar date
+ */
+function formatCalendarDate(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, { dateStyle: 'medium' });
+}
+
+function formatAmount(value: number, currency: string | null): string {
+  if (currency) {
+    try {
+      return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(value);
+    } catch {
+      // Unknown currency code
+      return `${value.toLocaleString()} ${currency}`;
+    }
+  }
+  return value.toLocaleString();
+}
+
+function formatLanguage(code: string): string {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+function DetailsView({ metadata, isEarlierVersion }: { metadata: DocumentMetadata | null; isEarlierVersion: boolean }) {
+  if (!metadata) {
+    return (
+      <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">
+        No details were extracted for this document. Reprocessing it will try again.
+      </p>
+    );
+  }
+
+  const dates = KEY_DATE_KINDS.filter((kind) => metadata.dates[kind]);
+  const termClass = 'text-xs font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider';
+  const valueClass = 'text-sm text-neutral-900 dark:text-neutral-100';
+
+  return (
+    <div className="flex flex-col gap-8">
+      {isEarlierVersion && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 font-light">These details describe the current version.</p>
+      )}
+
+      <dl className="grid grid-cols-[auto_1fr] gap-x-8 gap-y-3 items-baseline">
+        <dt className={termClass}>Type</dt>
+        <dd className={valueClass}>{DOCUMENT_TYPE_LABELS[metadata.document_type] ?? metadata.document_type}</dd>
+        <dt className={termClass}>Language</dt>
+        <dd className={valueClass}>{metadata.language ? formatLanguage(metadata.language) : 'Unknown'}</dd>
+        {dates.map((kind) => (
+          <div key={kind} className="contents">
+            <dt className={termClass}>{KEY_DATE_LABELS[kind]}</dt>
+            <dd className={valueClass}>{formatCalendarDate(metadata.dates[kind] as string)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {metadata.parties.length > 0 && (
+        <section>
+          <h3 className={`${termClass} mb-3`}>Parties</h3>
+          <ul className="flex flex-col gap-2">
+            {metadata.parties.map((party) => (
+              <li key={party.name} className={valueClass}>
+                {party.name}
+                {party.role && <span className="ml-2 text-neutral-500 dark:text-neutral-400 font-light">{party.role}</span>}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {metadata.amounts.length > 0 && (
+        <section>
+          <h3 className={`${termClass} mb-3`}>Amounts</h3>
+          <ul className="flex flex-col gap-2">
+            {metadata.amounts.map((amount, index) => (
+              <li key={index} className={`flex items-baseline justify-between gap-4 ${valueClass}`}>
+                <span className="text-neutral-600 dark:text-neutral-400 font-light">{amount.label ?? 'Amount'}</span>
+                <span className="font-medium tabular-nums">{formatAmount(amount.value, amount.currency)}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+}
+
 function SummaryView({
   document,
   onUpdate,
+  readOnly = false,
 }: {
   document: DocumentWithUrl;
   onUpdate: (doc: Document) => void;
+  readOnly?: boolean; // Earlier versions can't be edited or regenerated
 }) {
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(document.summary || '');
@@ -401,10 +897,6 @@ function SummaryView({
   const renderDiff = () => {
     if (!previousContent || !document.summary || !showDiff) return null;
     
-    const oldLines = previousContent.split('\n');
-    const newLines = document.summary.split('\n');
-    const maxLines = Math.max(oldLines.length, newLines.length);
-    
     return (
       <div className="mt-4 p-4 bg-neutral-50 dark:bg-neutral-800/50 rounded-xl border border-neutral-200 dark:border-neutral-700">
         <div className="flex items-center justify-between mb-3">
@@ -426,53 +918,7 @@ function SummaryView({
             </button>
           </div>
         </div>
-        <div className="space-y-1 max-h-64 overflow-auto font-mono text-xs">
-          {Array.from({ length: maxLines }).map((_, i) => {
-            const oldLine = oldLines[i] || '';
-            const newLine = newLines[i] || '';
-            const isChanged = oldLine !== newLine;
-            const isRemoved = i < oldLines.length && i >= newLines.length;
-            const isAdded = i >= oldLines.length && i < newLines.length;
-            
-            if (!isChanged && !isRemoved && !isAdded) {
-              return (
-                <div key={i} className="text-neutral-500 dark:text-neutral-500">
-                  <span className="inline-block w-8 text-right mr-2 text-neutral-400">{i + 1}</span>
-                  {oldLine || '\u00A0'}
-                </div>
-              );
-            }
-            
-            return (
-              <div key={i} className="flex gap-2">
-                {isRemoved && (
-                  <div className="flex-1 bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300 px-2 py-1 rounded">
-                    <span className="inline-block w-8 text-right mr-2 text-red-500">-</span>
-                    <del className="text-red-700 dark:text-red-400">{oldLine}</del>
-                  </div>
-                )}
-                {isAdded && (
-                  <div className="flex-1 bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300 px-2 py-1 rounded">
-                    <span className="inline-block w-8 text-right mr-2 text-green-500">+</span>
-                    <ins className="text-green-700 dark:text-green-400 no-underline">{newLine}</ins>
-                  </div>
-                )}
-                {isChanged && !isRemoved && !isAdded && (
-                  <>
-                    <div className="flex-1 bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300 px-2 py-1 rounded">
-                      <span className="inline-block w-8 text-right mr-2 text-red-500">-</span>
-                      <del className="text-red-700 dark:text-red-400">{oldLine}</del>
-                    </div>
-                    <div className="flex-1 bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300 px-2 py-1 rounded">
-                      <span className="inline-block w-8 text-right mr-2 text-green-500">+</span>
-                      <ins className="text-green-700 dark:text-green-400 no-underline">{newLine}</ins>
-                    </div>
-                  </>
-                )}
-              </div>
-            );
-          })}
-        </div>
+        <ContentDiff oldText={previousContent} newText={document.summary} />
       </div>
     );
   };
@@ -493,7 +939,7 @@ function SummaryView({
           )}
         </div>
         <div className="flex items-center gap-2">
-          {!isEditing && (
+          {!isEditing && !readOnly && (
             <>
               <button
                 onClick={handleRegenerate}
@@ -563,10 +1009,26 @@ function SummaryView({
 function MarkdownView({
   document,
   onUpdate,
+  highlight,
+  onClearHighlight,
+  readOnly = false,
 }: {
   document: DocumentWithUrl;
   onUpdate: (doc: Document) => void;
+  highlight: MarkdownHighlight | null;
+  onClearHighlight: () => void;
+  readOnly?: boolean; // Earlier versions can't be edited or regenerated
 }) {
+  const contentRef = useRef<HTMLDivElement>(null);
+  const rehypePlugins = useMemo(() => (highlight ? [rehypeHighlightRange(highlight)] : []), [highlight]);
+
+  // Scroll the cited passage into view
+  useEffect(() => {
+    if (highlight) {
+      contentRef.current?.querySelector('[data-cited]')?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    }
+  }, [highlight, document.markdown]);
+
   const [isEditing, setIsEditing] = useState(false);
   const [editedContent, setEditedContent] = useState(document.markdown || '');
   const [previousContent, setPreviousContent] = useState<string | null>(null);
@@ -689,10 +1151,6 @@ function MarkdownView({
   const renderDiff = () => {
     if (!previousContent || !document.markdown || !showDiff) return null;
     
-    const oldLines = previousContent.split('\n');
-    const newLines = document.markdown.split('\n');
-    const maxLines = Math.max(oldLines.length, newLines.length);
-    
     return (
       <div className="mt-4 p-4 bg-neutral-50 dark:bg-neutral-800/50 rounded-xl border border-neutral-200 dark:border-neutral-700">
         <div className="flex items-center justify-between mb-3">
@@ -714,53 +1172,7 @@ function MarkdownView({
             </button>
           </div>
         </div>
-        <div className="space-y-1 max-h-64 overflow-auto font-mono text-xs">
-          {Array.from({ length: maxLines }).map((_, i) => {
-            const oldLine = oldLines[i] || '';
-            const newLine = newLines[i] || '';
-            const isChanged = oldLine !== newLine;
-            const isRemoved = i < oldLines.length && i >= newLines.length;
-            const isAdded = i >= oldLines.length && i < newLines.length;
-            
-            if (!isChanged && !isRemoved && !isAdded) {
-              return (
-                <div key={i} className="text-neutral-500 dark:text-neutral-500">
-                  <span className="inline-block w-8 text-right mr-2 text-neutral-400">{i + 1}</span>
-                  {oldLine || '\u00A0'}
-                </div>
-              );
-            }
-            
-            return (
-              <div key={i} className="flex gap-2">
-                {isRemoved && (
-                  <div className="flex-1 bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300 px-2 py-1 rounded">
-                    <span className="inline-block w-8 text-right mr-2 text-red-500">-</span>
-                    <del className="text-red-700 dark:text-red-400">{oldLine}</del>
-                  </div>
-                )}
-                {isAdded && (
-                  <div className="flex-1 bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300 px-2 py-1 rounded">
-                    <span className="inline-block w-8 text-right mr-2 text-green-500">+</span>
-                    <ins className="text-green-700 dark:text-green-400 no-underline">{newLine}</ins>
-                  </div>
-                )}
-                {isChanged && !isRemoved && !isAdded && (
-                  <>
-                    <div className="flex-1 bg-red-50 dark:bg-red-950/30 text-red-800 dark:text-red-300 px-2 py-1 rounded">
-                      <span className="inline-block w-8 text-right mr-2 text-red-500">-</span>
-                      <del className="text-red-700 dark:text-red-400">{oldLine}</del>
-                    </div>
-                    <div className="flex-1 bg-green-50 dark:bg-green-950/30 text-green-800 dark:text-green-300 px-2 py-1 rounded">
-                      <span className="inline-block w-8 text-right mr-2 text-green-500">+</span>
-                      <ins className="text-green-700 dark:text-green-400 no-underline">{newLine}</ins>
-                    </div>
-                  </>
-                )}
-              </div>
-            );
-          })}
-        </div>
+        <ContentDiff oldText={previousContent} newText={document.markdown} />
       </div>
     );
   };
@@ -781,7 +1193,7 @@ function MarkdownView({
           )}
         </div>
         <div className="flex items-center gap-2">
-          {!isEditing && (
+          {!isEditing && !readOnly && (
             <>
               <button
                 onClick={handleRegenerate}
@@ -838,9 +1250,18 @@ function MarkdownView({
         </div>
       ) : (
         <>
-          <div className="prose prose-slate max-w-none dark:prose-invert">
+          {highlight && (
+            <div className="flex items-center justify-between px-3 py-2 text-xs text-amber-800 dark:text-amber-300 bg-amber-50 dark:bg-amber-950/30 border border-amber-200/60 dark:border-amber-800/60 rounded-lg">
+              <span>Showing cited passage</span>
+              <button onClick={onClearHighlight} className="font-medium hover:underline">
+                Clear
+              </button>
+            </div>
+          )}
+          <div ref={contentRef} className="prose prose-slate max-w-none dark:prose-invert">
       <ReactMarkdown
         remarkPlugins={[remarkGfm]}
+        rehypePlugins={rehypePlugins}
         components={{
           a: ({ node, ...props }) => (
             <a {...props} target="_blank" rel="noopener noreferrer" />
@@ -0,0 +1,207 @@
+/**
+ * Edit Group Modal Component
+ *
+ * Edits a group's name, description, color and icon, and the extraction
+ * templates that run for its documents.
+ */
+
+import { useState, useEffect } from 'react';
+import type { ExtractionTemplate, Group, GroupColor, GroupIcon, GroupUpdate } from '@ai-document-vault/shared';
+import { GroupAppearancePicker } from './GroupAppearance';
+import { getTemplates, getGroupTemplates, setGroupTemplates } from '@/lib/api/templates';
+
+interface EditGroupModalProps {
+  group: Group;
+  onClose: () => void;
+  onSave: (update: GroupUpdate) => Promise<void>;
+}
+
+export function EditGroupModal({ group, onClose, onSave }: EditGroupModalProps) {
+  const [name, setName] = useState(group.name);
+  const [description, setDescription] = useState(group.description ?? '');
+  const [color, setColor] = useState<GroupColor | null>(group.color ?? null);
+  const [icon, setIcon] = useState<GroupIcon | null>(group.icon ?? null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>([]);
+  const [savedTemplateIds, setSavedTemplateIds] = useState<string[]>([]);
+  const [templateIds, setTemplateIds] = useState<string[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getTemplates(), getGroupTemplates(group.id)])
+      .then(([all, assigned]) => {
+        if (!cancelled) {
+          setTemplates(all);
+          setSavedTemplateIds(assigned);
+          setTemplateIds(assigned);
+        }
+      })
+      .catch(() => undefined);
+    return () => {
+      cancelled = true;
+    };
+  }, [group.id]);
+
+  const toggleTemplate = (templateId: string) => {
+    setTemplateIds((prev) =>
+      prev.includes(templateId) ? prev.filter((id) => id !== templateId) : [...prev, templateId]
+    );
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name.trim()) {
+      setError('Group name is required');
+      return;
+    }
+
+    // Send only what changed, so an unchanged name isn't re-validated
+    const update: GroupUpdate = {};
+    if (name.trim() !== group.name) update.name = name.trim();
+    if (description.trim() !== (group.description ?? '')) update.description = description.trim() || null;
+    if (color !== (group.color ?? null)) update.color = color;
+    if (icon !== (group.icon ?? null)) update.icon = icon;
+
+    const templatesChanged =
+      templateIds.length !== savedTemplateIds.length || templateIds.some((id) => !savedTemplateIds.includes(id));
+
+    if (Object.keys(update).length === 0 && !templatesChanged) {
+      onClose();
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+
+    try {
+      if (templatesChanged) {
+        setSavedTemplateIds(await setGroupTemplates(group.id, templateIds));
+      }
+      if (Object.keys(update).length > 0) {
+        await onSave(update);
+      } else {
+        onClose();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update group');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl max-w-md w-full border border-neutral-200/60 dark:border-neutral-700/60"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-neutral-200/60 dark:border-neutral-700/60">
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 tracking-tight">Edit Group</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-5">
+          <div>
+            <label htmlFor="edit-group-name" className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">
+              Group Name
+            </label>
+            <input
+              id="edit-group-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-4 py-2.5 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500 text-sm"
+              required
+              disabled={isSaving}
+              autoFocus
+            />
+          </div>
+
+          <div>
+            <label htmlFor="edit-group-description" className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">
+              Description <span className="text-neutral-400 dark:text-neutral-500 font-normal">(optional)</span>
+            </label>
+            <textarea
+              id="edit-group-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              className="w-full px-4 py-2.5 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500 resize-none text-sm"
+              rows={3}
+              maxLength={1000}
+              disabled={isSaving}
+            />
+          </div>
+
+          <div>
+            <span className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">Appearance</span>
+            <GroupAppearancePicker
+              color={color}
+              icon={icon}
+              onColorChange={setColor}
+              onIconChange={setIcon}
+              disabled={isSaving}
+            />
+          </div>
+
+          {templates.length > 0 && (
+            <div>
+              <span className="block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide">
+                Templates <span className="text-neutral-400 dark:text-neutral-500 font-normal">(run for documents in this group)</span>
+              </span>
+              <ul className="max-h-40 overflow-auto space-y-1.5">
+                {templates.map((template) => (
+                  <li key={template.id}>
+                    <label className="flex items-center gap-2.5 text-sm text-neutral-800 dark:text-neutral-200">
+                      <input
+                        type="checkbox"
+                        checked={templateIds.includes(template.id)}
+                        onChange={() => toggleTemplate(template.id)}
+                        disabled={isSaving}
+                        className="rounded border-neutral-300 dark:border-neutral-600"
+                      />
+                      {template.name}
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50/80 dark:bg-red-950/30 border border-red-200/60 dark:border-red-800/60 rounded-xl text-red-700 dark:text-red-400 text-sm">
+              {error}
+            </div>
+          )}
+
+          <div className="flex justify-end gap-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-xl hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={isSaving || !name.trim()}
+              className="px-4 py-2 text-sm font-medium bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900 rounded-xl hover:bg-neutral-800 dark:hover:bg-neutral-200 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+            >
+              {isSaving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -8,7 +8,10 @@
 interface ErrorDisplayProps {
   error: Error | string | null;
   title?: string;
+  details?: string; // Secondary line, e.g. error code and timestamp
   onRetry?: () => void;
+  retryLabel?: string;
+  isRetrying?: boolean;
   onDismiss?: () => void;
   className?: string;
 }
@@ -21,7 +24,10 @@ interface ErrorDisplayProps {
 export function ErrorDisplay({
   error,
   title = 'Error',
+  details,
   onRetry,
+  retryLabel = 'Retry',
+  isRetrying = false,
   onDismiss,
   className = '',
 }: ErrorDisplayProps) {
@@ -50,14 +56,18 @@ export function ErrorDisplay({
         <div className="flex-1 min-w-0">
           <h3 className="text-sm font-semibold text-red-900 dark:text-red-200 mb-1.5 tracking-tight">{title}</h3>
           <p className="text-sm text-red-800 dark:text-red-300 break-words font-light leading-relaxed">{errorMessage}</p>
+          {details && (
+            <p className="text-xs text-red-700/80 dark:text-red-400/80 mt-1.5 font-light">{details}</p>
+          )}
           {(onRetry || onDismiss) && (
             <div className="flex gap-2.5 mt-4">
               {onRetry && (
                 <button
                   onClick={onRetry}
-                  className="px-4 py-2 text-xs font-medium text-white bg-red-600 rounded-xl hover:bg-red-700 transition-all duration-200 shadow-sm hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
+                  disabled={isRetrying}
+                  className="px-4 py-2 text-xs font-medium text-white bg-red-600 rounded-xl hover:bg-red-700 transition-all duration-200 shadow-sm hover:shadow-md disabled:opacity-50 disabled:cursor-not-allowed focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
                 >
-                  Retry
+                  {retryLabel}
                 </button>
               )}
               {onDismiss && (
@@ -0,0 +1,107 @@
+/**
+ * Group Appearance Components
+ *
+ * The icon shown for a group, and a picker for a group's color and icon.
+ */
+
+import { GroupColor, GroupIcon } from '@ai-document-vault/shared';
+import { GROUP_COLOR_CLASSES } from '@/lib/groupAppearance';
+
+const ICON_PATHS: Record<GroupIcon, string> = {
+  [GroupIcon.FOLDER]: 'M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2z',
+  [GroupIcon.BRIEFCASE]: 'M21 13.255A23.931 23.931 0 0112 15c-3.183 0-6.22-.62-9-1.745M16 6V4a2 2 0 00-2-2h-4a2 2 0 00-2 2v2m4 6h.01M5 20h14a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v10a2 2 0 002 2z',
+  [GroupIcon.DOCUMENT]: 'M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z',
+  [GroupIcon.STAR]: 'M11.049 2.927c.3-.921 1.603-.921 1.902 0l1.519 4.674a1 1 0 00.95.69h4.915c.969 0 1.371 1.24.588 1.81l-3.976 2.888a1 1 0 00-.363 1.118l1.518 4.674c.3.922-.755 1.688-1.538 1.118l-3.976-2.888a1 1 0 00-1.176 0l-3.976 2.888c-.783.57-1.838-.197-1.538-1.118l1.518-4.674a1 1 0 00-.363-1.118l-3.976-2.888c-.784-.57-.38-1.81.588-1.81h4.914a1 1 0 00.951-.69l1.519-4.674z',
+  [GroupIcon.FLAG]: 'M3 21v-4m0 0V5a2 2 0 012-2h6.5l1 1H21l-3 6 3 6h-8.5l-1-1H5a2 2 0 00-2 2z',
+  [GroupIcon.TAG]: 'M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z',
+  [GroupIcon.USERS]: 'M17 20h5v-2a3 3 0 00-5.356-1.857M17 20H7m10 0v-2c0-.656-.126-1.283-.356-1.857M7 20H2v-2a3 3 0 015.356-1.857M7 20v-2c0-.656.126-1.283.356-1.857m0 0a5.002 5.002 0 019.288 0M15 7a3 3 0 11-6 0 3 3 0 016 0z',
+  [GroupIcon.ARCHIVE]: 'M5 8h14M5 8a2 2 0 110-4h14a2 2 0 110 4M5 8v10a2 2 0 002 2h10a2 2 0 002-2V8m-9 4h4',
+};
+
+/**
+ * A group's icon, in the group's color when it has one
+ */
+export function GroupIconGlyph({
+  icon,
+  color,
+  className = 'w-4 h-4',
+}: {
+  icon?: GroupIcon | null;
+  color?: GroupColor | null;
+  className?: string;
+}) {
+  return (
+    <svg
+      className={`${className} shrink-0 ${color ? GROUP_COLOR_CLASSES[color].icon : 'opacity-70'}`}
+      fill="none"
+      stroke="currentColor"
+      viewBox="0 0 24 24"
+      strokeWidth="2"
+      aria-hidden="true"
+    >
+      <path strokeLinecap="round" strokeLinejoin="round" d={ICON_PATHS[icon ?? GroupIcon.FOLDER]} />
+    </svg>
+  );
+}
+
+/**
+ * Color swatches and icon buttons; picking the selected value again clears it
+ */
+export function GroupAppearancePicker({
+  color,
+  icon,
+  onColorChange,
+  onIconChange,
+  disabled = false,
+}: {
+  color: GroupColor | null;
+  icon: GroupIcon | null;
+  onColorChange: (color: GroupColor | null) => void;
+  onIconChange: (icon: GroupIcon | null) => void;
+  disabled?: boolean;
+}) {
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-2" role="radiogroup" aria-label="Color">
+        {Object.values(GroupColor).map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={color === value}
+            aria-label={value}
+            title={value}
+            disabled={disabled}
+            onClick={() => onColorChange(color === value ? null : value)}
+            className={`w-6 h-6 rounded-full ${GROUP_COLOR_CLASSES[value].swatch} transition-all duration-200 disabled:opacity-50 ${
+              color === value
+                ? 'ring-2 ring-offset-2 ring-neutral-900 dark:ring-neutral-100 dark:ring-offset-neutral-900'
+                : 'hover:scale-110'
+            }`}
+          />
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-1.5" role="radiogroup" aria-label="Icon">
+        {Object.values(GroupIcon).map((value) => (
+          <button
+            key={value}
+            type="button"
+            role="radio"
+            aria-checked={icon === value}
+            aria-label={value}
+            title={value}
+            disabled={disabled}
+            onClick={() => onIconChange(icon === value ? null : value)}
+            className={`p-1.5 rounded-lg transition-all duration-200 disabled:opacity-50 ${
+              icon === value
+                ? 'bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900'
+                : 'text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800'
+            }`}
+          >
+            <GroupIconGlyph icon={value} className="w-4 h-4" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,80 @@
+/**
+ * Group Breadcrumb Component
+ *
+ * Shows the path to the selected group (All Documents / Client / Matter)
+ * with each ancestor clickable, and a toggle to include documents from
+ * subgroups when the group has any.
+ */
+
+import { useMemo } from 'react';
+import type { Group } from '@ai-document-vault/shared';
+import { groupPath } from '@/lib/groupTree';
+
+interface GroupBreadcrumbProps {
+  groups: Group[];
+  groupId: string;
+  onSelectGroup: (groupId: string | null) => void;
+  includeSubgroups: boolean;
+  onIncludeSubgroupsChange: (include: boolean) => void;
+}
+
+export function GroupBreadcrumb({
+  groups,
+  groupId,
+  onSelectGroup,
+  includeSubgroups,
+  onIncludeSubgroupsChange,
+}: GroupBreadcrumbProps) {
+  const path = useMemo(() => groupPath(groups, groupId), [groups, groupId]);
+  const hasSubgroups = useMemo(() => groups.some((group) => group.parent_id === groupId), [groups, groupId]);
+
+  if (path.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="flex flex-wrap items-center justify-between gap-3">
+      <nav aria-label="Group path" className="min-w-0">
+        <ol className="flex flex-wrap items-center gap-1.5 text-sm">
+          <li>
+            <button
+              onClick={() => onSelectGroup(null)}
+              className="text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors"
+            >
+              All Documents
+            </button>
+          </li>
+          {path.map((group, i) => (
+            <li key={group.id} className="flex items-center gap-1.5 min-w-0">
+              <span className="text-neutral-300 dark:text-neutral-600" aria-hidden="true">/</span>
+              {i === path.length - 1 ? (
+                <span className="font-medium text-neutral-900 dark:text-neutral-50 truncate" aria-current="page">
+                  {group.name}
+                </span>
+              ) : (
+                <button
+                  onClick={() => onSelectGroup(group.id)}
+                  className="text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 transition-colors truncate"
+                >
+                  {group.name}
+                </button>
+              )}
+            </li>
+          ))}
+        </ol>
+      </nav>
+
+      {hasSubgroups && (
+        <label className="inline-flex items-center gap-2 text-xs text-neutral-600 dark:text-neutral-400">
+          <input
+            type="checkbox"
+            checked={includeSubgroups}
+            onChange={(e) => onIncludeSubgroupsChange(e.target.checked)}
+            className="rounded border-neutral-300 dark:border-neutral-600"
+          />
+          Include subgroups
+        </label>
+      )}
+    </div>
+  );
+}
@@ -3,14 +3,18 @@
  * 
  * Displays and manages document group membership.
  * Shows badges for groups and allows adding/removing documents.
+ * Smart groups are shown but can't be changed here; their rules decide
+ * membership.
  */
 
 import { useState, useEffect } from 'react';
 import { GroupType } from '@ai-document-vault/shared';
 import type { Group } from '@ai-document-vault/shared';
-import { getGroups, addDocumentToGroup, removeDocumentFromGroup } from '@/lib/api/groups';
+import { getAllGroups, addDocumentToGroup, removeDocumentFromGroup } from '@/lib/api/groups';
 import { ApiClientError } from '@/lib/api/client';
 import { useDocumentGroups } from '@/hooks/useDocumentGroups';
+import { GROUP_COLOR_CLASSES } from '@/lib/groupAppearance';
+import { GroupIconGlyph } from './GroupAppearance';
 
 interface GroupMembershipProps {
   documentId: string;
@@ -34,7 +38,7 @@ export function GroupMembership({
   // Load all groups
   const loadGroups = async () => {
     try {
-      const all = await getGroups();
+      const all = await getAllGroups();
       setAllGroups(all);
     } catch (error) {
       console.error('Failed to load groups:', error);
@@ -48,9 +52,9 @@ export function GroupMembership({
   // Use currentGroups if provided, otherwise use hook
   const displayGroups = currentGroups || groups;
 
-  // Get available groups (not already in)
+  // Get available groups (not already in, and not smart)
   const availableGroups = allGroups.filter(
-    (g) => !displayGroups.some((cg) => cg.id === g.id)
+    (g) => g.type !== GroupType.SMART && !displayGroups.some((cg) => cg.id === g.id)
   );
 
   // Handle add to group
@@ -113,26 +117,34 @@ export function GroupMembership({
         <span
           key={group.id}
           className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${
-            group.type === GroupType.AI_SUGGESTED
-              ? 'bg-purple-100 text-purple-700'
-              : 'bg-slate-100 text-slate-700'
+            group.color
+              ? GROUP_COLOR_CLASSES[group.color].badge
+              : group.type === GroupType.AI_SUGGESTED
+                ? 'bg-purple-100 text-purple-700'
+                : group.type === GroupType.SMART
+                  ? 'bg-amber-100 text-amber-800'
+                  : 'bg-slate-100 text-slate-700'
           }`}
+          title={[group.description, group.type === GroupType.SMART ? 'Added by smart group rules' : null].filter(Boolean).join(' · ') || undefined}
         >
+          {group.icon && <GroupIconGlyph icon={group.icon} className="w-3 h-3" />}
           {group.name}
-          <button
-            onClick={(e) => {
-              e.stopPropagation();
-              handleRemoveFromGroup(group.id);
-            }}
-            disabled={isLoading}
-            className="hover:text-red-600 transition-colors disabled:opacity-50"
-            aria-label={`Remove from ${group.name}`}
-            title={`Remove from ${group.name} (document will not be deleted)`}
-          >
-            <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-            </svg>
-          </button>
+          {group.type !== GroupType.SMART && (
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                handleRemoveFromGroup(group.id);
+              }}
+              disabled={isLoading}
+              className="hover:text-red-600 transition-colors disabled:opacity-50"
+              aria-label={`Remove from ${group.name}`}
+              title={`Remove from ${group.name} (document will not be deleted)`}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          )}
         </span>
       ))}
 
@@ -166,14 +178,16 @@ export function GroupMembership({
                   <button
                     key={group.id}
                     onClick={() => handleAddToGroup(group.id)}
-                    className="w-full text-left px-3 py-2 text-sm text-slate-700 dark:text-neutral-300 hover:bg-slate-100 dark:hover:bg-neutral-700 transition-colors"
+                    className="w-full flex items-center gap-2 text-left px-3 py-2 text-sm text-slate-700 dark:text-neutral-300 hover:bg-slate-100 dark:hover:bg-neutral-700 transition-colors"
+                    title={group.description || undefined}
                   >
+                    {(group.icon || group.color) && <GroupIconGlyph icon={group.icon} color={group.color} className="w-3.5 h-3.5" />}
                     {group.name}
                   </button>
                 ))
               ) : (
                 <div className="px-3 py-2 text-sm text-slate-500 dark:text-neutral-400">
-                  {allGroups.length === 0 ? 'No groups created yet' : 'Already in all groups'}
+                  {allGroups.every((g) => g.type === GroupType.SMART) ? 'No groups created yet' : 'Already in all groups'}
                 </div>
               )}
             </div>
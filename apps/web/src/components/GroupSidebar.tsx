@@ -1,37 +1,55 @@
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import { GroupType } from '@ai-document-vault/shared';
-import type { Group } from '@ai-document-vault/shared';
-import { getGroups, deleteGroup, createGroup } from '@/lib/api/groups';
+import type { Group, GroupInput, GroupUpdate, AskCitation } from '@ai-document-vault/shared';
+import { getAllGroups, deleteGroup, createGroup, updateGroup } from '@/lib/api/groups';
 import { ApiClientError } from '@/lib/api/client';
+import { descendantIds } from '@/lib/groupTree';
+import { citationHighlight } from '@/lib/citations';
+import type { MarkdownHighlight } from '@/lib/citations';
 import { CreateGroupModal } from './CreateGroupModal';
+import { MoveGroupModal } from './MoveGroupModal';
+import { EditGroupModal } from './EditGroupModal';
+import { GroupIconGlyph } from './GroupAppearance';
 import { ConfirmModal } from './ConfirmModal';
 import { ErrorDisplay } from './ErrorDisplay';
 import { GroupItemSkeleton } from './Skeleton';
+import { AskPanel } from './AskPanel';
+import { DocumentView } from './DocumentView';
 import { useAuth } from '@/contexts/AuthContext';
 
 interface GroupSidebarProps {
   selectedGroupId: string | null;
   onSelectGroup: (groupId: string | null) => void;
   onGroupChange?: () => void;
+  onGroupsLoaded?: (groups: Group[]) => void; // Called whenever the group list changes
   refreshTrigger?: number;
 }
 
 const SIDEBAR_OPEN_KEY = 'sidebar-open';
+const COLLAPSED_GROUPS_KEY = 'collapsed-groups';
 
 export function GroupSidebar({
   selectedGroupId,
   onSelectGroup,
   onGroupChange,
+  onGroupsLoaded,
   refreshTrigger,
 }: GroupSidebarProps) {
   const { user } = useAuth();
   const [groups, setGroups] = useState<Group[]>([]);
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
-  const [filter, setFilter] = useState<'all' | 'manual' | 'ai'>('all');
-  const [groupToDelete, setGroupToDelete] = useState<{ id: string; name: string } | null>(null);
+  const [createParentId, setCreateParentId] = useState<string | null>(null);
+  const [groupToMove, setGroupToMove] = useState<Group | null>(null);
+  const [groupToEdit, setGroupToEdit] = useState<Group | null>(null);
+  const [filter, setFilter] = useState<'all' | 'manual' | 'smart' | 'ai'>('all');
+  const [groupToDelete, setGroupToDelete] = useState<{ id: string; name: string; subgroupCount: number } | null>(null);
+  const [deleteSubgroups, setDeleteSubgroups] = useState(false);
   const [isDeleting, setIsDeleting] = useState(false);
   const [deleteError, setDeleteError] = useState<string | null>(null);
+  const [renameError, setRenameError] = useState<string | null>(null);
+  const [askGroup, setAskGroup] = useState<Group | null>(null);
+  const [citedDocument, setCitedDocument] = useState<{ id: string; highlight: MarkdownHighlight | null } | null>(null);
   
   const [isOpen, setIsOpen] = useState(() => {
     const stored = localStorage.getItem(SIDEBAR_OPEN_KEY);
@@ -43,10 +61,38 @@ export function GroupSidebar({
     document.body.setAttribute('data-sidebar-open', String(isOpen));
   }, [isOpen]);
 
+  const [collapsedIds, setCollapsedIds] = useState<Set<string>>(() => {
+    try {
+      return new Set(JSON.parse(localStorage.getItem(COLLAPSED_GROUPS_KEY) || '[]') as string[]);
+    } catch {
+      return new Set();
+    }
+  });
+
+  useEffect(() => {
+    localStorage.setItem(COLLAPSED_GROUPS_KEY, JSON.stringify(Array.from(collapsedIds)));
+  }, [collapsedIds]);
+
+  useEffect(() => {
+    onGroupsLoaded?.(groups);
+  }, [groups, onGroupsLoaded]);
+
+  const toggleCollapsed = (groupId: string) => {
+    setCollapsedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(groupId)) {
+        next.delete(groupId);
+      } else {
+        next.add(groupId);
+      }
+      return next;
+    });
+  };
+
   const loadGroups = async () => {
     try {
       setLoading(true);
-      const allGroups = await getGroups();
+      const allGroups = await getAllGroups();
       setGroups(allGroups);
     } catch (error) {
       setGroups([]);
@@ -71,21 +117,58 @@ export function GroupSidebar({
     }
   }, [refreshTrigger]);
 
-  const handleCreateGroup = useCallback(async (name: string, description?: string) => {
-    const newGroup = await createGroup({
-      name,
-      description,
-      type: GroupType.MANUAL,
-    });
+  const handleCreateGroup = useCallback(async (input: GroupInput) => {
+    const newGroup = await createGroup(input);
     setGroups((prev) => [newGroup, ...prev]);
     setShowCreateModal(false);
+    if (newGroup.parent_id) {
+      setCollapsedIds((prev) => {
+        const next = new Set(prev);
+        next.delete(newGroup.parent_id as string);
+        return next;
+      });
+    }
     onGroupChange?.();
   }, [onGroupChange]);
 
+  const openCreateModal = (parentId: string | null) => {
+    setCreateParentId(parentId);
+    setShowCreateModal(true);
+  };
+
+  const handleRenameGroup = async (groupId: string, name: string) => {
+    try {
+      setRenameError(null);
+      const updated = await updateGroup(groupId, { name });
+      setGroups((prev) => prev.map((g) => (g.id === groupId ? updated : g)));
+    } catch (error) {
+      setRenameError(error instanceof ApiClientError ? error.message : 'Failed to rename group. Please try again.');
+      throw error;
+    }
+  };
+
+  const handleEditGroup = async (update: GroupUpdate) => {
+    if (!groupToEdit) return;
+
+    const updated = await updateGroup(groupToEdit.id, update);
+    setGroups((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
+    setGroupToEdit(null);
+  };
+
+  const handleMoveGroup = async (parentId: string | null) => {
+    if (!groupToMove) return;
+
+    const updated = await updateGroup(groupToMove.id, { parent_id: parentId });
+    setGroups((prev) => prev.map((g) => (g.id === updated.id ? updated : g)));
+    setGroupToMove(null);
+    onGroupChange?.();
+  };
+
   const handleDeleteGroup = (groupId: string) => {
     const group = groups.find((g) => g.id === groupId);
     if (group) {
-      setGroupToDelete({ id: groupId, name: group.name });
+      setGroupToDelete({ id: groupId, name: group.name, subgroupCount: descendantIds(groups, groupId).size });
+      setDeleteSubgroups(false);
       setDeleteError(null);
     }
   };
@@ -96,9 +179,15 @@ export function GroupSidebar({
     try {
       setIsDeleting(true);
       setDeleteError(null);
-      await deleteGroup(groupToDelete.id);
-      setGroups((prev) => prev.filter((g) => g.id !== groupToDelete.id));
-      if (selectedGroupId === groupToDelete.id) {
+      const deletedIds = new Set(await deleteGroup(groupToDelete.id, deleteSubgroups ? 'cascade' : 'reparent'));
+      setGroups((prev) => {
+        const parentId = prev.find((g) => g.id === groupToDelete.id)?.parent_id ?? null;
+        // Children that weren't deleted moved up to the deleted group's parent
+        return prev
+          .filter((g) => !deletedIds.has(g.id))
+          .map((g) => (g.parent_id === groupToDelete.id ? { ...g, parent_id: parentId } : g));
+      });
+      if (selectedGroupId && deletedIds.has(selectedGroupId)) {
         onSelectGroup(null);
       }
       onGroupChange?.();
@@ -123,13 +212,68 @@ export function GroupSidebar({
     return groups.filter((group) => {
       if (filter === 'all') return true;
       if (filter === 'manual') return group.type === GroupType.MANUAL;
+      if (filter === 'smart') return group.type === GroupType.SMART;
       if (filter === 'ai') return group.type === GroupType.AI_SUGGESTED;
       return true;
     });
   }, [groups, filter]);
 
-  const manualGroups = useMemo(() => filteredGroups.filter((g) => g.type === GroupType.MANUAL), [filteredGroups]);
-  const aiGroups = useMemo(() => filteredGroups.filter((g) => g.type === GroupType.AI_SUGGESTED), [filteredGroups]);
+  const selectedGroup = useMemo(
+    () => groups.find((group) => group.id === selectedGroupId) || null,
+    [groups, selectedGroupId]
+  );
+
+  // Close the ask panel when its group is no longer selected
+  useEffect(() => {
+    if (askGroup && askGroup.id !== selectedGroupId) {
+      setAskGroup(null);
+    }
+  }, [askGroup, selectedGroupId]);
+
+  const handleCitationClick = useCallback((citation: AskCitation) => {
+    setCitedDocument({ id: citation.document_id, highlight: citationHighlight(citation) });
+  }, []);
+
+  // Children by parent ID; groups whose parent is filtered out are shown at the top level
+  const childrenByParent = useMemo(() => {
+    const visibleIds = new Set(filteredGroups.map((g) => g.id));
+    const map = new Map<string | null, Group[]>();
+    for (const group of filteredGroups) {
+      const key = group.parent_id && visibleIds.has(group.parent_id) ? group.parent_id : null;
+      map.set(key, [...(map.get(key) || []), group]);
+    }
+    return map;
+  }, [filteredGroups]);
+
+  const rootGroups = useMemo(() => childrenByParent.get(null) || [], [childrenByParent]);
+  const manualGroups = useMemo(() => rootGroups.filter((g) => g.type === GroupType.MANUAL), [rootGroups]);
+  const smartGroups = useMemo(() => rootGroups.filter((g) => g.type === GroupType.SMART), [rootGroups]);
+  const aiGroups = useMemo(() => rootGroups.filter((g) => g.type === GroupType.AI_SUGGESTED), [rootGroups]);
+
+  const renderGroup = (group: Group, depth: number): React.ReactNode => {
+    const children = childrenByParent.get(group.id) || [];
+    const isExpanded = !collapsedIds.has(group.id);
+
+    return (
+      <div key={group.id}>
+        <GroupItem
+          group={group}
+          depth={depth}
+          isSelected={selectedGroupId === group.id}
+          hasChildren={children.length > 0}
+          isExpanded={isExpanded}
+          onToggle={() => toggleCollapsed(group.id)}
+          onSelect={() => onSelectGroup(group.id)}
+          onRename={(name) => handleRenameGroup(group.id, name)}
+          onEdit={() => setGroupToEdit(group)}
+          onMove={() => setGroupToMove(group)}
+          onAddSubgroup={() => openCreateModal(group.id)}
+          onDelete={() => handleDeleteGroup(group.id)}
+        />
+        {isExpanded && children.map((child) => renderGroup(child, depth + 1))}
+      </div>
+    );
+  };
 
   return (
     <>
@@ -140,7 +284,7 @@ export function GroupSidebar({
           <div className="flex items-center justify-between mb-4">
             <h2 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 tracking-tight">Groups</h2>
             <button
-              onClick={() => setShowCreateModal(true)}
+              onClick={() => openCreateModal(null)}
               className="p-2 text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
               title="Create group"
               aria-label="Create group"
@@ -172,6 +316,16 @@ export function GroupSidebar({
             >
               Manual
             </button>
+            <button
+              onClick={() => setFilter('smart')}
+              className={`px-3 py-1.5 text-xs font-medium rounded-full transition-all duration-200 ${
+                filter === 'smart'
+                  ? 'bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900 shadow-sm'
+                  : 'text-neutral-600 dark:text-neutral-400 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-neutral-100'
+              }`}
+            >
+              Smart
+            </button>
             <button
               onClick={() => setFilter('ai')}
               className={`px-3 py-1.5 text-xs font-medium rounded-full transition-all duration-200 ${
@@ -201,15 +355,16 @@ export function GroupSidebar({
                   <h3 className="text-[10px] font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider px-3 mb-2.5">
                     Manual Groups
                   </h3>
-                  {manualGroups.map((group) => (
-                    <GroupItem
-                      key={group.id}
-                      group={group}
-                      isSelected={selectedGroupId === group.id}
-                      onSelect={() => onSelectGroup(group.id)}
-                      onDelete={() => handleDeleteGroup(group.id)}
-                    />
-                  ))}
+                  {manualGroups.map((group) => renderGroup(group, 0))}
+                </div>
+              )}
+
+              {smartGroups.length > 0 && (
+                <div className="mb-6">
+                  <h3 className="text-[10px] font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider px-3 mb-2.5">
+                    Smart Groups
+                  </h3>
+                  {smartGroups.map((group) => renderGroup(group, 0))}
                 </div>
               )}
 
@@ -218,15 +373,7 @@ export function GroupSidebar({
                   <h3 className="text-[10px] font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider px-3 mb-2.5">
                     AI Suggested
                   </h3>
-                  {aiGroups.map((group) => (
-                    <GroupItem
-                      key={group.id}
-                      group={group}
-                      isSelected={selectedGroupId === group.id}
-                      onSelect={() => onSelectGroup(group.id)}
-                      onDelete={() => handleDeleteGroup(group.id)}
-                    />
-                  ))}
+                  {aiGroups.map((group) => renderGroup(group, 0))}
                 </div>
               )}
             </div>
@@ -234,6 +381,17 @@ export function GroupSidebar({
         </div>
 
         <div className="p-3 border-t border-neutral-200/60 dark:border-neutral-700/60">
+          {selectedGroup && (
+            <button
+              onClick={() => setAskGroup(selectedGroup)}
+              className="w-full flex items-center gap-2 px-4 py-2.5 mb-1.5 rounded-xl text-sm font-medium text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100 dark:hover:bg-neutral-800 hover:text-neutral-900 dark:hover:text-neutral-100 transition-all duration-200"
+            >
+              <svg className="w-4 h-4 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+              </svg>
+              <span className="truncate">Ask about {selectedGroup.name}</span>
+            </button>
+          )}
           <button
             onClick={() => onSelectGroup(null)}
             className={`w-full text-left px-4 py-2.5 rounded-xl text-sm font-medium transition-all duration-200 ${
@@ -250,6 +408,25 @@ export function GroupSidebar({
           <CreateGroupModal
             onClose={() => setShowCreateModal(false)}
             onCreate={handleCreateGroup}
+            groups={groups}
+            defaultParentId={createParentId}
+          />
+        )}
+
+        {groupToEdit && (
+          <EditGroupModal
+            group={groupToEdit}
+            onClose={() => setGroupToEdit(null)}
+            onSave={handleEditGroup}
+          />
+        )}
+
+        {groupToMove && (
+          <MoveGroupModal
+            group={groupToMove}
+            groups={groups}
+            onClose={() => setGroupToMove(null)}
+            onMove={handleMoveGroup}
           />
         )}
 
@@ -263,7 +440,33 @@ export function GroupSidebar({
           onConfirm={handleConfirmDelete}
           onCancel={handleCancelDelete}
           isLoading={isDeleting}
-        />
+        >
+          {groupToDelete && groupToDelete.subgroupCount > 0 && (
+            <fieldset className="space-y-2 text-sm text-neutral-700 dark:text-neutral-300">
+              <legend className="mb-2 text-xs font-medium text-neutral-600 dark:text-neutral-400">
+                It contains {groupToDelete.subgroupCount} subgroup{groupToDelete.subgroupCount === 1 ? '' : 's'}
+              </legend>
+              <label className="flex items-center gap-2">
+                <input type="radio" name="delete-subgroups" checked={!deleteSubgroups} onChange={() => setDeleteSubgroups(false)} />
+                Keep subgroups and move them up a level
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="radio" name="delete-subgroups" checked={deleteSubgroups} onChange={() => setDeleteSubgroups(true)} />
+                Delete subgroups too
+              </label>
+            </fieldset>
+          )}
+        </ConfirmModal>
+
+        {renameError && (
+          <div className="absolute bottom-4 left-4 right-4 z-50">
+            <ErrorDisplay
+              error={renameError}
+              title="Rename Failed"
+              onDismiss={() => setRenameError(null)}
+            />
+          </div>
+        )}
 
         {deleteError && groupToDelete && (
           <div className="absolute bottom-4 left-4 right-4 z-50">
@@ -294,47 +497,170 @@ export function GroupSidebar({
           <path strokeLinecap="round" strokeLinejoin="round" d="M15 19l-7-7 7-7" />
         </svg>
       </button>
+
+      {/* Rendered outside the translated sidebar so fixed positioning is relative to the viewport */}
+      {askGroup && (
+        // Hidden (not unmounted) while a cited document is open, to keep the conversation
+        <div className={citedDocument ? 'hidden' : undefined}>
+          <AskPanel
+            title={`Ask about ${askGroup.name}`}
+            groupId={askGroup.id}
+            onClose={() => setAskGroup(null)}
+            onCitationClick={handleCitationClick}
+          />
+        </div>
+      )}
+
+      {citedDocument && (
+        <DocumentView
+          documentId={citedDocument.id}
+          initialTab="markdown"
+          initialHighlight={citedDocument.highlight}
+          onClose={() => setCitedDocument(null)}
+        />
+      )}
     </>
   );
 }
 
 function GroupItem({
   group,
+  depth,
   isSelected,
+  hasChildren,
+  isExpanded,
+  onToggle,
   onSelect,
+  onRename,
+  onEdit,
+  onMove,
+  onAddSubgroup,
   onDelete,
 }: {
   group: Group;
+  depth: number;
   isSelected: boolean;
+  hasChildren: boolean;
+  isExpanded: boolean;
+  onToggle: () => void;
   onSelect: () => void;
+  onRename: (name: string) => Promise<void>;
+  onEdit: () => void;
+  onMove: () => void;
+  onAddSubgroup: () => void;
   onDelete: () => void;
 }) {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [draftName, setDraftName] = useState(group.name);
+
+  const submitRename = async () => {
+    const name = draftName.trim();
+    if (!name || name === group.name) {
+      setIsRenaming(false);
+      setDraftName(group.name);
+      return;
+    }
+    try {
+      await onRename(name);
+      setIsRenaming(false);
+    } catch {
+      // Error is shown by the sidebar; keep editing so the name isn't lost
+    }
+  };
+
+  const actionClass =
+    'p-1 text-neutral-400 dark:text-neutral-500 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-200/60 dark:hover:bg-neutral-700/60 rounded-md transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400';
+
   return (
     <div
-      className={`group flex items-center gap-2 px-3 py-2 rounded-xl mb-1.5 transition-all duration-200 ${
+      className={`group flex items-center gap-1 pr-2 py-2 rounded-xl mb-1.5 transition-all duration-200 ${
         isSelected
           ? 'bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900 shadow-sm'
           : 'text-neutral-700 dark:text-neutral-300 hover:bg-neutral-100/50 dark:hover:bg-neutral-800/50'
       }`}
+      style={{ paddingLeft: `${0.5 + depth * 1}rem` }}
     >
-      <button
-        onClick={onSelect}
-        className="flex-1 text-left text-sm font-medium truncate"
-      >
-        {group.name}
-      </button>
-      <button
-        onClick={(e) => {
-          e.stopPropagation();
-          onDelete();
-        }}
-        className="opacity-0 group-hover:opacity-100 p-1.5 text-neutral-400 dark:text-neutral-500 hover:text-red-600 dark:hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/30 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
-        aria-label="Delete group"
-      >
-        <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
-          <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
-        </svg>
-      </button>
+      {hasChildren ? (
+        <button
+          onClick={onToggle}
+          className="p-0.5 shrink-0 opacity-70 hover:opacity-100"
+          aria-label={isExpanded ? `Collapse ${group.name}` : `Expand ${group.name}`}
+          aria-expanded={isExpanded}
+        >
+          <svg className={`w-3.5 h-3.5 transition-transform duration-200 ${isExpanded ? 'rotate-90' : ''}`} fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M9 5l7 7-7 7" />
+          </svg>
+        </button>
+      ) : (
+        <span className="w-[1.125rem] shrink-0" />
+      )}
+      {isRenaming ? (
+        <input
+          value={draftName}
+          onChange={(e) => setDraftName(e.target.value)}
+          onBlur={submitRename}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') {
+              e.preventDefault();
+              submitRename();
+            } else if (e.key === 'Escape') {
+              setIsRenaming(false);
+              setDraftName(group.name);
+            }
+          }}
+          className="flex-1 min-w-0 px-1.5 py-0.5 text-sm rounded-md bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 border border-neutral-300 dark:border-neutral-600 focus:outline-none"
+          aria-label="Group name"
+          autoFocus
+        />
+      ) : (
+        <button
+          onClick={onSelect}
+          onDoubleClick={() => setIsRenaming(true)}
+          className="flex-1 flex items-center gap-1.5 text-left text-sm font-medium min-w-0"
+          title={group.description || (group.type === GroupType.SMART ? 'Smart group: membership follows its rules' : undefined)}
+        >
+          {(group.icon || group.color) && (
+            <GroupIconGlyph icon={group.icon} color={group.color} className="w-3.5 h-3.5" />
+          )}
+          {group.type === GroupType.SMART && !group.icon && (
+            <svg className="w-3.5 h-3.5 shrink-0 opacity-70" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2" aria-hidden="true">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M13 10V3L4 14h7v7l9-11h-7z" />
+            </svg>
+          )}
+          <span className="truncate">{group.name}</span>
+        </button>
+      )}
+      {!isRenaming && (
+        <div className="flex items-center opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button onClick={onAddSubgroup} className={actionClass} aria-label="Add subgroup" title="Add subgroup">
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M12 4v16m8-8H4" />
+            </svg>
+          </button>
+          <button onClick={onEdit} className={actionClass} aria-label="Edit group" title="Edit">
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M15.232 5.232l3.536 3.536M9 13l6.232-6.232a2.5 2.5 0 113.536 3.536L12.536 16.536 9 17l.464-3.536z" />
+            </svg>
+          </button>
+          <button onClick={onMove} className={actionClass} aria-label="Move group" title="Move">
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M3 7v10a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-6l-2-2H5a2 2 0 00-2 2zm9 3l3 3m0 0l-3 3m3-3H9" />
+            </svg>
+          </button>
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onDelete();
+            }}
+            className="p-1 text-neutral-400 dark:text-neutral-500 hover:text-red-600 dark:hover:text-red-500 hover:bg-red-50 dark:hover:bg-red-950/30 rounded-md transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-red-500"
+            aria-label="Delete group"
+          >
+            <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,205 @@
+/**
+ * Revision History Component
+ *
+ * Drawer listing the revisions of a document's summary or markdown, newest
+ * first. Each entry shows whether it was AI-generated (and by which model)
+ * or edited, and when; any earlier revision can be restored.
+ *
+ * The list reloads whenever the field's current content changes, so edits,
+ * regenerations and restores show up without reopening the drawer.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { ContentSource } from '@ai-document-vault/shared';
+import type { ContentField, ContentRevision, Document } from '@ai-document-vault/shared';
+import { getContentRevisions, restoreContentRevision } from '@/lib/api/revisions';
+import { ApiClientError } from '@/lib/api/client';
+
+interface RevisionHistoryProps {
+  documentId: string;
+  field: ContentField;
+  content: string | null; // Field's current content
+  onRestore: (document: Document) => void;
+  onClose: () => void;
+}
+
+const FIELD_LABELS: Record<ContentField, string> = {
+  summary: 'Summary',
+  markdown: 'Markdown',
+};
+
+const PREVIEW_LENGTH = 240;
+
+function formatRevisionDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function RevisionHistory({ documentId, field, content, onRestore, onClose }: RevisionHistoryProps) {
+  const [revisions, setRevisions] = useState<ContentRevision[]>([]);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [restoringId, setRestoringId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const page = await getContentRevisions(documentId, { field });
+      setRevisions(page.items);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to load history');
+    } finally {
+      setLoading(false);
+    }
+  }, [documentId, field]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions, content]);
+
+  const handleLoadMore = async () => {
+    if (!nextCursor) return;
+    setLoadingMore(true);
+    setError(null);
+    try {
+      const page = await getContentRevisions(documentId, { field, cursor: nextCursor });
+      setRevisions((prev) => [...prev, ...page.items]);
+      setNextCursor(page.next_cursor);
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to load history');
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
+  const handleRestore = async (revision: ContentRevision) => {
+    setRestoringId(revision.id);
+    setError(null);
+    try {
+      const updated = await restoreContentRevision(documentId, revision.id);
+      onRestore(updated);
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to restore revision');
+    } finally {
+      setRestoringId(null);
+    }
+  };
+
+  // The newest revision is what the document shows now
+  const currentId = revisions.length > 0 && revisions[0].content === content ? revisions[0].id : null;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-[60] w-full max-w-md flex flex-col bg-white dark:bg-neutral-900 border-l border-neutral-200/60 dark:border-neutral-700/60 shadow-2xl">
+      <div className="flex items-center justify-between p-5 border-b border-neutral-200/60 dark:border-neutral-700/60">
+        <h2 className="text-base font-semibold text-neutral-900 dark:text-neutral-50 truncate tracking-tight">
+          {FIELD_LABELS[field]} history
+        </h2>
+        <button
+          onClick={onClose}
+          className="ml-4 p-2 text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+          aria-label="Close"
+        >
+          <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+            <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+          </svg>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-5 space-y-3">
+        {error && (
+          <p className="text-xs text-red-600 dark:text-red-400" role="alert">{error}</p>
+        )}
+        {loading ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">Loading history...</p>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">
+            No revisions recorded for this version yet.
+          </p>
+        ) : (
+          <ul className="space-y-3">
+            {revisions.map((revision) => (
+              <RevisionItem
+                key={revision.id}
+                revision={revision}
+                isCurrent={revision.id === currentId}
+                isRestoring={restoringId === revision.id}
+                restoreDisabled={restoringId !== null}
+                onRestore={handleRestore}
+              />
+            ))}
+          </ul>
+        )}
+        {nextCursor && !loading && (
+          <button
+            onClick={handleLoadMore}
+            disabled={loadingMore}
+            className="w-full px-4 py-2 text-xs font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200 disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
+
+function RevisionItem({
+  revision,
+  isCurrent,
+  isRestoring,
+  restoreDisabled,
+  onRestore,
+}: {
+  revision: ContentRevision;
+  isCurrent: boolean;
+  isRestoring: boolean;
+  restoreDisabled: boolean;
+  onRestore: (revision: ContentRevision) => void;
+}) {
+  const isAI = revision.source === ContentSource.AI_GENERATED;
+  const preview = revision.content
+    ? revision.content.length > PREVIEW_LENGTH
+      ? `${revision.content.slice(0, PREVIEW_LENGTH)}…`
+      : revision.content
+    : null;
+
+  return (
+    <li className="p-3 rounded-xl border border-neutral-200/60 dark:border-neutral-700/60 bg-neutral-50/50 dark:bg-neutral-800/50">
+      <div className="flex items-center gap-2 flex-wrap">
+        <span
+          className={`px-2 py-0.5 text-xs font-medium rounded-md ${
+            isAI
+              ? 'bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900'
+              : 'bg-neutral-200 dark:bg-neutral-700 text-neutral-700 dark:text-neutral-300'
+          }`}
+        >
+          {isAI ? `AI${revision.ai_model ? ` · ${revision.ai_model}` : ''}` : 'Edited'}
+        </span>
+        {revision.restored_from && (
+          <span className="text-xs text-neutral-500 dark:text-neutral-400 font-light">Restored</span>
+        )}
+        {isCurrent && (
+          <span className="text-xs font-medium text-neutral-700 dark:text-neutral-300">Current</span>
+        )}
+        <span className="ml-auto text-xs text-neutral-500 dark:text-neutral-400 font-light">
+          {formatRevisionDate(revision.created_at)}
+        </span>
+      </div>
+      <p className="mt-2 text-xs text-neutral-600 dark:text-neutral-400 font-light whitespace-pre-wrap line-clamp-4">
+        {preview ?? <em>Empty</em>}
+      </p>
+      {!isCurrent && (
+        <button
+          onClick={() => onRestore(revision)}
+          disabled={restoreDisabled}
+          className="mt-2 text-xs font-medium text-neutral-700 dark:text-neutral-300 hover:text-neutral-900 dark:hover:text-neutral-100 underline underline-offset-4 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isRestoring ? 'Restoring...' : 'Restore'}
+        </button>
+      )}
+    </li>
+  );
+}
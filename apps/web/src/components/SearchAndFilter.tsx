@@ -4,16 +4,22 @@
  * Provides search and filtering UI for documents.
  * 
  * Features:
- * - Search by filename and summary
+ * - Full-text search over filename, summary and content
+ *   ("exact phrases", -excluded terms, prefix* matching)
+ * - Semantic search mode (match by meaning)
  * - Filter by status
  * - Filter by group
+ * - Filter by tag
+ * - Filter by extracted document type and key dates
  */
 
-import { useState, useEffect } from 'react';
-import { DocumentStatus } from '@ai-document-vault/shared';
-import type { Group } from '@ai-document-vault/shared';
-import { getGroups } from '@/lib/api/groups';
+import { useState, useEffect, useCallback } from 'react';
+import { DocumentStatus, DocumentType, KEY_DATE_KINDS } from '@ai-document-vault/shared';
+import type { Group, KeyDateKind, SearchMode, Tag } from '@ai-document-vault/shared';
+import { getAllGroups } from '@/lib/api/groups';
+import { getTags } from '@/lib/api/tags';
 import type { SearchParams } from '@/lib/api/search';
+import { DOCUMENT_TYPE_LABELS, KEY_DATE_LABELS } from '@/lib/metadataLabels';
 
 interface SearchAndFilterProps {
   onSearchChange: (params: SearchParams) => void;
@@ -32,16 +38,23 @@ export function SearchAndFilter({
   initialStatus,
 }: SearchAndFilterProps) {
   const [searchQuery, setSearchQuery] = useState(initialQuery);
+  const [searchMode, setSearchMode] = useState<SearchMode>('keyword');
   const [statusFilter, setStatusFilter] = useState<DocumentStatus | ''>(initialStatus || '');
   const [groups, setGroups] = useState<Group[]>([]);
   const [selectedGroupId, setSelectedGroupId] = useState<string>('');
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [selectedTagId, setSelectedTagId] = useState<string>('');
+  const [documentType, setDocumentType] = useState<DocumentType | ''>('');
+  const [dateKind, setDateKind] = useState<KeyDateKind | ''>('');
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
 
   // Load groups for filter (only if not viewing a specific group)
   useEffect(() => {
     if (!currentGroupId) {
       const loadGroups = async () => {
         try {
-          const allGroups = await getGroups();
+          const allGroups = await getAllGroups();
           setGroups(allGroups);
         } catch (error) {
           // Silent fail
@@ -51,6 +64,19 @@ export function SearchAndFilter({
     }
   }, [currentGroupId]);
 
+  // Load tags for filter; reloaded on focus to pick up tags added in the document view
+  const loadTags = useCallback(async () => {
+    try {
+      setTags(await getTags());
+    } catch (error) {
+      // Silent fail
+    }
+  }, []);
+
+  useEffect(() => {
+    loadTags();
+  }, [loadTags]);
+
   // Debounce search query
   useEffect(() => {
     const timer = setTimeout(() => {
@@ -58,6 +84,9 @@ export function SearchAndFilter({
       
       if (searchQuery.trim()) {
         params.query = searchQuery.trim();
+        if (searchMode === 'semantic') {
+          params.mode = searchMode;
+        }
       }
       
       if (statusFilter) {
@@ -68,12 +97,26 @@ export function SearchAndFilter({
         params.groupId = selectedGroupId;
       }
 
+      if (selectedTagId) {
+        params.tagId = selectedTagId;
+      }
+
+      if (documentType) {
+        params.documentType = documentType;
+      }
+
+      if (dateKind) {
+        params.dateKind = dateKind;
+        if (dateFrom) params.dateFrom = dateFrom;
+        if (dateTo) params.dateTo = dateTo;
+      }
+
       onSearchChange(params);
     }, 300); // 300ms debounce
 
     return () => clearTimeout(timer);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [searchQuery, statusFilter, selectedGroupId, currentGroupId]);
+  }, [searchQuery, searchMode, statusFilter, selectedGroupId, selectedTagId, documentType, dateKind, dateFrom, dateTo, currentGroupId]);
 
   // Clear group filter when viewing a specific group
   useEffect(() => {
@@ -86,25 +129,50 @@ export function SearchAndFilter({
     setSearchQuery('');
     setStatusFilter('');
     setSelectedGroupId('');
+    setSelectedTagId('');
+    setDocumentType('');
+    setDateKind('');
+    setDateFrom('');
+    setDateTo('');
   };
 
-  const hasActiveFilters = searchQuery || statusFilter || selectedGroupId;
+  const hasActiveFilters = searchQuery || statusFilter || selectedGroupId || selectedTagId || documentType || dateKind;
 
   return (
     <div className="bg-white dark:bg-neutral-900 border border-neutral-200/60 dark:border-neutral-700/60 rounded-2xl p-6 mb-6 shadow-sm">
       <div className="flex flex-col gap-5">
         {/* Premium search input */}
         <div className="flex-1">
-          <label htmlFor="search" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-2 uppercase tracking-wider">
-            Search
-          </label>
+          <div className="flex items-center justify-between mb-2">
+            <label htmlFor="search" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 uppercase tracking-wider">
+              Search
+            </label>
+            <div className="inline-flex p-0.5 bg-neutral-100 dark:bg-neutral-800 rounded-lg" role="group" aria-label="Search mode">
+              {(['keyword', 'semantic'] as SearchMode[]).map((mode) => (
+                <button
+                  key={mode}
+                  type="button"
+                  onClick={() => setSearchMode(mode)}
+                  aria-pressed={searchMode === mode}
+                  className={`px-2.5 py-1 text-[11px] font-medium rounded-md transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500 ${
+                    searchMode === mode
+                      ? 'bg-white dark:bg-neutral-700 text-neutral-900 dark:text-neutral-50 shadow-sm'
+                      : 'text-neutral-500 dark:text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200'
+                  }`}
+                >
+                  {mode === 'keyword' ? 'Keyword' : 'Meaning'}
+                </button>
+              ))}
+            </div>
+          </div>
           <div className="relative">
             <input
               id="search"
               type="text"
               value={searchQuery}
               onChange={(e) => setSearchQuery(e.target.value)}
-              placeholder="Search by filename or summary..."
+              placeholder="Search documents..."
+              aria-describedby="search-help"
               className="w-full px-4 py-3 pl-11 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-neutral-400 dark:focus:border-neutral-600 transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500"
             />
             <svg
@@ -132,6 +200,16 @@ export function SearchAndFilter({
               </button>
             )}
           </div>
+          <p id="search-help" className="mt-2 text-xs text-neutral-500 dark:text-neutral-400 font-light">
+            {searchMode === 'keyword' ? (
+              <>
+                Searches names, summaries and content. Use <code className="font-mono">"exact phrase"</code>,{' '}
+                <code className="font-mono">-exclude</code> or <code className="font-mono">prefix*</code>.
+              </>
+            ) : (
+              <>Finds documents about your query, even when they use different words.</>
+            )}
+          </p>
         </div>
 
         {/* Filters with Apple-style design */}
@@ -177,6 +255,100 @@ export function SearchAndFilter({
             </div>
           )}
 
+          {/* Tag filter (only once the user has tags) */}
+          {(tags.length > 0 || selectedTagId) && (
+            <div className="flex-1 min-w-[150px]">
+              <label htmlFor="tag-filter" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-2 uppercase tracking-wider">
+                Tag
+              </label>
+              <select
+                id="tag-filter"
+                value={selectedTagId}
+                onChange={(e) => setSelectedTagId(e.target.value)}
+                onFocus={loadTags}
+                className="w-full px-4 py-3 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-neutral-400 dark:focus:border-neutral-600 transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50"
+              >
+                <option value="">All Tags</option>
+                {tags.map((tag) => (
+                  <option key={tag.id} value={tag.id}>
+                    {tag.name} ({tag.document_count ?? 0})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {/* Document type filter */}
+          <div className="flex-1 min-w-[150px]">
+            <label htmlFor="type-filter" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-2 uppercase tracking-wider">
+              Type
+            </label>
+            <select
+              id="type-filter"
+              value={documentType}
+              onChange={(e) => setDocumentType(e.target.value as DocumentType | '')}
+              className="w-full px-4 py-3 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-neutral-400 dark:focus:border-neutral-600 transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50"
+            >
+              <option value="">All Types</option>
+              {Object.values(DocumentType).map((type) => (
+                <option key={type} value={type}>
+                  {DOCUMENT_TYPE_LABELS[type]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {/* Key date filter; the range applies to the chosen date */}
+          <div className="flex-1 min-w-[150px]">
+            <label htmlFor="date-filter" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-2 uppercase tracking-wider">
+              Date
+            </label>
+            <select
+              id="date-filter"
+              value={dateKind}
+              onChange={(e) => setDateKind(e.target.value as KeyDateKind | '')}
+              className="w-full px-4 py-3 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-neutral-400 dark:focus:border-neutral-600 transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50"
+            >
+              <option value="">Any Date</option>
+              {KEY_DATE_KINDS.map((kind) => (
+                <option key={kind} value={kind}>
+                  {KEY_DATE_LABELS[kind]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {dateKind && (
+            <>
+              <div className="flex-1 min-w-[150px]">
+                <label htmlFor="date-from-filter" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-2 uppercase tracking-wider">
+                  From
+                </label>
+                <input
+                  id="date-from-filter"
+                  type="date"
+                  value={dateFrom}
+                  max={dateTo || undefined}
+                  onChange={(e) => setDateFrom(e.target.value)}
+                  className="w-full px-4 py-3 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-neutral-400 dark:focus:border-neutral-600 transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50"
+                />
+              </div>
+              <div className="flex-1 min-w-[150px]">
+                <label htmlFor="date-to-filter" className="block text-xs font-semibold text-neutral-700 dark:text-neutral-300 mb-2 uppercase tracking-wider">
+                  To
+                </label>
+                <input
+                  id="date-to-filter"
+                  type="date"
+                  value={dateTo}
+                  min={dateFrom || undefined}
+                  onChange={(e) => setDateTo(e.target.value)}
+                  className="w-full px-4 py-3 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-neutral-400 dark:focus:border-neutral-600 transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50"
+                />
+              </div>
+            </>
+          )}
+
           {/* Clear filters button */}
           {hasActiveFilters && (
             <button
@@ -0,0 +1,32 @@
+/**
+ * Search Snippet Component
+ * 
+ * Renders a highlighted excerpt returned by full-text search.
+ * Segments are rendered as text nodes, so document content is never
+ * interpreted as HTML.
+ */
+
+import type { SearchSnippetSegment } from '@ai-document-vault/shared';
+
+interface SearchSnippetProps {
+  segments: SearchSnippetSegment[];
+}
+
+export function SearchSnippet({ segments }: SearchSnippetProps) {
+  return (
+    <p className="text-sm text-neutral-600 dark:text-neutral-400 leading-relaxed font-light border-l-2 border-neutral-200 dark:border-neutral-700 pl-3">
+      {segments.map((segment, index) =>
+        segment.highlighted ? (
+          <mark
+            key={index}
+            className="bg-amber-100 dark:bg-amber-500/20 text-neutral-900 dark:text-amber-100 rounded px-0.5 font-normal"
+          >
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </p>
+  );
+}
@@ -0,0 +1,231 @@
+/**
+ * Tag Editor Component
+ *
+ * Shows a document's tags with an input for adding more. The input
+ * autocompletes from the user's existing tags; a name that matches none
+ * creates a new tag. AI-suggested tags are listed separately and are only
+ * applied when the user accepts them.
+ */
+
+import { useState, useEffect, useMemo } from 'react';
+import type { DocumentTags, Tag } from '@ai-document-vault/shared';
+import { getTags, getDocumentTags, addDocumentTag, removeDocumentTag, rejectSuggestedTag } from '@/lib/api/tags';
+import { ApiClientError } from '@/lib/api/client';
+
+interface TagEditorProps {
+  documentId: string;
+}
+
+const MAX_AUTOCOMPLETE_OPTIONS = 8;
+
+export function TagEditor({ documentId }: TagEditorProps) {
+  const [documentTags, setDocumentTags] = useState<DocumentTags>({ tags: [], suggested: [] });
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [input, setInput] = useState('');
+  const [showOptions, setShowOptions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([getDocumentTags(documentId), getTags()])
+      .then(([current, tags]) => {
+        if (!cancelled) {
+          setDocumentTags(current);
+          setAllTags(tags);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof ApiClientError ? err.message : 'Failed to load tags');
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  // Existing tags not yet on the document whose name contains the input
+  const options = useMemo(() => {
+    const query = input.trim().toLowerCase();
+    const applied = new Set(documentTags.tags.map((tag) => tag.id));
+    return allTags
+      .filter((tag) => !applied.has(tag.id) && tag.name.toLowerCase().includes(query))
+      .sort((a, b) => {
+        // Prefix matches first, then the most used
+        const prefixOrder = Number(!a.name.toLowerCase().startsWith(query)) - Number(!b.name.toLowerCase().startsWith(query));
+        return prefixOrder || (b.document_count ?? 0) - (a.document_count ?? 0);
+      })
+      .slice(0, MAX_AUTOCOMPLETE_OPTIONS);
+  }, [allTags, documentTags.tags, input]);
+
+  const runChange = async (change: () => Promise<DocumentTags>, fallbackMessage: string) => {
+    setBusy(true);
+    setError(null);
+    try {
+      setDocumentTags(await change());
+      return true;
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : fallbackMessage);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleAdd = async (name: string) => {
+    const trimmed = name.trim();
+    if (!trimmed || busy) return;
+
+    const added = await runChange(() => addDocumentTag(documentId, trimmed), 'Failed to add tag');
+    if (added) {
+      setInput('');
+      setActiveIndex(-1);
+      // Pick up a newly created tag for autocomplete
+      getTags().then(setAllTags).catch(() => undefined);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'ArrowDown' && options.length > 0) {
+      e.preventDefault();
+      setShowOptions(true);
+      setActiveIndex((index) => (index + 1) % options.length);
+    } else if (e.key === 'ArrowUp' && options.length > 0) {
+      e.preventDefault();
+      setActiveIndex((index) => (index <= 0 ? options.length - 1 : index - 1));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const option = showOptions && activeIndex >= 0 ? options[activeIndex] : undefined;
+      handleAdd(option ? option.name : input);
+    } else if (e.key === 'Escape') {
+      setShowOptions(false);
+      setActiveIndex(-1);
+    } else if (e.key === 'Backspace' && input === '' && documentTags.tags.length > 0) {
+      const last = documentTags.tags[documentTags.tags.length - 1];
+      runChange(() => removeDocumentTag(documentId, last.id), 'Failed to remove tag');
+    }
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-neutral-200/60 dark:border-neutral-700/60 space-y-2">
+      <div className="flex flex-wrap items-center gap-1.5">
+        <svg className="w-4 h-4 text-neutral-400 dark:text-neutral-500 shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2" aria-hidden="true">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M7 7h.01M7 3h5c.512 0 1.024.195 1.414.586l7 7a2 2 0 010 2.828l-7 7a2 2 0 01-2.828 0l-7-7A1.994 1.994 0 013 12V7a4 4 0 014-4z" />
+        </svg>
+        {documentTags.tags.map((tag) => (
+          <span
+            key={tag.id}
+            className="inline-flex items-center gap-1 pl-2.5 pr-1 py-0.5 text-xs font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-full"
+          >
+            {tag.name}
+            <button
+              type="button"
+              onClick={() => runChange(() => removeDocumentTag(documentId, tag.id), 'Failed to remove tag')}
+              disabled={busy}
+              className="p-0.5 rounded-full text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200 hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-colors disabled:opacity-50"
+              aria-label={`Remove tag ${tag.name}`}
+            >
+              <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5">
+                <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </span>
+        ))}
+
+        <div className="relative flex-1 min-w-[8rem]">
+          <input
+            type="text"
+            value={input}
+            onChange={(e) => {
+              setInput(e.target.value);
+              setShowOptions(true);
+              setActiveIndex(-1);
+            }}
+            onFocus={() => setShowOptions(true)}
+            onBlur={() => setShowOptions(false)}
+            onKeyDown={handleKeyDown}
+            maxLength={50}
+            placeholder={documentTags.tags.length > 0 ? 'Add tag...' : 'Add tags...'}
+            role="combobox"
+            aria-expanded={showOptions && options.length > 0}
+            aria-controls="tag-options"
+            aria-label="Add tag"
+            className="w-full px-2 py-0.5 text-xs bg-transparent text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500 focus:outline-none"
+          />
+          {showOptions && options.length > 0 && (
+            <ul
+              id="tag-options"
+              role="listbox"
+              className="absolute left-0 top-full mt-1 w-56 max-h-60 overflow-auto bg-white dark:bg-neutral-900 border border-neutral-200/60 dark:border-neutral-700/60 rounded-xl shadow-lg py-1 z-10"
+            >
+              {options.map((tag, index) => (
+                <li
+                  key={tag.id}
+                  role="option"
+                  aria-selected={index === activeIndex}
+                  // Keep focus in the input so the list stays open
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => handleAdd(tag.name)}
+                  className={`flex items-center justify-between gap-2 px-3 py-1.5 text-xs cursor-pointer ${
+                    index === activeIndex
+                      ? 'bg-neutral-100 dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50'
+                      : 'text-neutral-700 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800/60'
+                  }`}
+                >
+                  <span className="truncate">{tag.name}</span>
+                  <span className="text-neutral-400 dark:text-neutral-500">{tag.document_count ?? 0}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      {documentTags.suggested.length > 0 && (
+        <div className="flex flex-wrap items-center gap-1.5">
+          <span className="text-xs text-neutral-500 dark:text-neutral-400 font-light">Suggested:</span>
+          {documentTags.suggested.map((name) => (
+            <span
+              key={name}
+              className="inline-flex items-center gap-0.5 pl-2.5 pr-1 py-0.5 text-xs font-medium text-neutral-600 dark:text-neutral-400 border border-dashed border-neutral-300 dark:border-neutral-600 rounded-full"
+            >
+              {name}
+              <button
+                type="button"
+                onClick={() => runChange(() => addDocumentTag(documentId, name), 'Failed to add tag')}
+                disabled={busy}
+                className="p-0.5 rounded-full text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-950/40 transition-colors disabled:opacity-50"
+                aria-label={`Accept suggested tag ${name}`}
+                title="Accept"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M5 13l4 4L19 7" />
+                </svg>
+              </button>
+              <button
+                type="button"
+                onClick={() => runChange(() => rejectSuggestedTag(documentId, name), 'Failed to dismiss suggestion')}
+                disabled={busy}
+                className="p-0.5 rounded-full text-neutral-400 hover:text-neutral-700 dark:hover:text-neutral-200 hover:bg-neutral-100 dark:hover:bg-neutral-800 transition-colors disabled:opacity-50"
+                aria-label={`Reject suggested tag ${name}`}
+                title="Reject"
+              >
+                <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2.5">
+                  <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                </svg>
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-700 dark:text-red-400" role="alert">
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,345 @@
+/**
+ * Template Manager Component
+ *
+ * Modal for creating, editing and deleting extraction templates. The
+ * output schema and layout are edited as JSON; leaving the layout empty
+ * lets the server derive one section per top-level field.
+ */
+
+import { useState, useEffect } from 'react';
+import type { ExtractionTemplate, ExtractionTemplateInput } from '@ai-document-vault/shared';
+import { getTemplates, createTemplate, updateTemplate, deleteTemplate } from '@/lib/api/templates';
+import { ApiClientError } from '@/lib/api/client';
+import { ConfirmModal } from './ConfirmModal';
+
+interface TemplateManagerProps {
+  onClose: () => void;
+  onTemplatesChange?: () => void;
+}
+
+const EXAMPLE_SCHEMA = `{
+  "type": "object",
+  "properties": {
+    "vendor": { "type": "string" },
+    "total": { "type": "number" },
+    "line_items": {
+      "type": "array",
+      "items": {
+        "type": "object",
+        "properties": {
+          "description": { "type": "string" },
+          "amount": { "type": "number" }
+        }
+      }
+    }
+  },
+  "required": ["vendor"]
+}`;
+
+/**
+ * Form state; schema and layout are JSON text
+ */
+interface TemplateDraft {
+  name: string;
+  description: string;
+  prompt: string;
+  schema: string;
+  layout: string;
+}
+
+const EMPTY_DRAFT: TemplateDraft = { name: '', description: '', prompt: '', schema: EXAMPLE_SCHEMA, layout: '' };
+
+function toDraft(template: ExtractionTemplate): TemplateDraft {
+  return {
+    name: template.name,
+    description: template.description ?? '',
+    prompt: template.prompt,
+    schema: JSON.stringify(template.output_schema, null, 2),
+    layout: JSON.stringify(template.layout, null, 2),
+  };
+}
+
+/**
+ * Build the request body from the form
+ *
+ * @returns The input, or a message when the JSON fields don't parse
+ */
+function toInput(draft: TemplateDraft): ExtractionTemplateInput | string {
+  let schema: ExtractionTemplateInput['output_schema'];
+  try {
+    schema = JSON.parse(draft.schema);
+  } catch {
+    return 'Output schema is not valid JSON';
+  }
+
+  let layout: ExtractionTemplateInput['layout'] = null;
+  if (draft.layout.trim()) {
+    try {
+      layout = JSON.parse(draft.layout);
+    } catch {
+      return 'Layout is not valid JSON';
+    }
+  }
+
+  return {
+    name: draft.name.trim(),
+    description: draft.description.trim() || null,
+    prompt: draft.prompt,
+    output_schema: schema,
+    layout,
+  };
+}
+
+const labelClass = 'block text-xs font-medium text-neutral-600 dark:text-neutral-400 mb-2 tracking-wide';
+const inputClass =
+  'w-full px-4 py-2.5 border border-neutral-300 dark:border-neutral-700 rounded-xl focus:outline-none focus:ring-2 focus:ring-neutral-400 dark:focus:ring-neutral-500 focus:border-transparent transition-all duration-200 bg-white dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 placeholder:text-neutral-400 dark:placeholder:text-neutral-500 text-sm';
+
+export function TemplateManager({ onClose, onTemplatesChange }: TemplateManagerProps) {
+  const [templates, setTemplates] = useState<ExtractionTemplate[]>([]);
+  const [editingId, setEditingId] = useState<string | null>(null); // null while creating
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT);
+  const [pendingDelete, setPendingDelete] = useState<ExtractionTemplate | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    getTemplates()
+      .then(setTemplates)
+      .catch((err) => setError(err instanceof ApiClientError ? err.message : 'Failed to load templates'));
+  }, []);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setDraft(EMPTY_DRAFT);
+    setError(null);
+  };
+
+  const startEdit = (template: ExtractionTemplate) => {
+    setEditingId(template.id);
+    setDraft(toDraft(template));
+    setError(null);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const input = toInput(draft);
+    if (typeof input === 'string') {
+      setError(input);
+      return;
+    }
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const saved = editingId ? await updateTemplate(editingId, input) : await createTemplate(input);
+      setTemplates((prev) =>
+        [...prev.filter((template) => template.id !== saved.id), saved].sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { sensitivity: 'base' })
+        )
+      );
+      setEditingId(saved.id);
+      setDraft(toDraft(saved));
+      onTemplatesChange?.();
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to save template');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!pendingDelete) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      await deleteTemplate(pendingDelete.id);
+      setTemplates((prev) => prev.filter((template) => template.id !== pendingDelete.id));
+      if (editingId === pendingDelete.id) {
+        startCreate();
+      }
+      onTemplatesChange?.();
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to delete template');
+    } finally {
+      setIsSaving(false);
+      setPendingDelete(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 dark:bg-black/60 backdrop-blur-sm flex items-center justify-center z-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white dark:bg-neutral-900 rounded-2xl shadow-2xl max-w-4xl w-full max-h-[90vh] flex flex-col border border-neutral-200/60 dark:border-neutral-700/60"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between px-6 py-5 border-b border-neutral-200/60 dark:border-neutral-700/60">
+          <h3 className="text-lg font-semibold text-neutral-900 dark:text-neutral-50 tracking-tight">Extraction Templates</h3>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-neutral-500 dark:text-neutral-400 hover:text-neutral-900 dark:hover:text-neutral-100 hover:bg-neutral-100 dark:hover:bg-neutral-800 rounded-lg transition-all duration-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+            aria-label="Close"
+          >
+            <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+              <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </div>
+
+        <div className="flex flex-1 min-h-0">
+          <aside className="w-56 shrink-0 border-r border-neutral-200/60 dark:border-neutral-700/60 p-4 overflow-auto">
+            <button
+              type="button"
+              onClick={startCreate}
+              className={`w-full text-left px-3 py-2 text-sm rounded-lg transition-colors ${
+                editingId === null
+                  ? 'bg-neutral-100 dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 font-medium'
+                  : 'text-neutral-600 dark:text-neutral-400 hover:bg-neutral-50 dark:hover:bg-neutral-800/60'
+              }`}
+            >
+              + New template
+            </button>
+            <ul className="mt-2 space-y-0.5">
+              {templates.map((template) => (
+                <li key={template.id} className="group flex items-center">
+                  <button
+                    type="button"
+                    onClick={() => startEdit(template)}
+                    className={`flex-1 min-w-0 text-left px-3 py-2 text-sm rounded-lg truncate transition-colors ${
+                      editingId === template.id
+                        ? 'bg-neutral-100 dark:bg-neutral-800 text-neutral-900 dark:text-neutral-50 font-medium'
+                        : 'text-neutral-700 dark:text-neutral-300 hover:bg-neutral-50 dark:hover:bg-neutral-800/60'
+                    }`}
+                  >
+                    {template.name}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setPendingDelete(template)}
+                    className="p-1 text-neutral-400 hover:text-red-600 dark:hover:text-red-400 opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity"
+                    aria-label={`Delete template ${template.name}`}
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+                      <path strokeLinecap="round" strokeLinejoin="round" d="M6 18L18 6M6 6l12 12" />
+                    </svg>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </aside>
+
+          <form onSubmit={handleSubmit} className="flex-1 p-6 space-y-5 overflow-auto">
+            <div>
+              <label htmlFor="template-name" className={labelClass}>Name</label>
+              <input
+                id="template-name"
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                className={inputClass}
+                maxLength={100}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="template-description" className={labelClass}>
+                Description <span className="text-neutral-400 dark:text-neutral-500 font-normal">(optional)</span>
+              </label>
+              <input
+                id="template-description"
+                type="text"
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                className={inputClass}
+                maxLength={500}
+                disabled={isSaving}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="template-prompt" className={labelClass}>Instructions</label>
+              <textarea
+                id="template-prompt"
+                value={draft.prompt}
+                onChange={(e) => setDraft({ ...draft, prompt: e.target.value })}
+                className={`${inputClass} resize-y`}
+                rows={4}
+                maxLength={4000}
+                placeholder="e.g. Extract the vendor, the total and every line item of this invoice."
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="template-schema" className={labelClass}>Output schema (JSON Schema)</label>
+              <textarea
+                id="template-schema"
+                value={draft.schema}
+                onChange={(e) => setDraft({ ...draft, schema: e.target.value })}
+                className={`${inputClass} font-mono text-xs resize-y`}
+                rows={10}
+                spellCheck={false}
+                required
+                disabled={isSaving}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="template-layout" className={labelClass}>
+                Layout <span className="text-neutral-400 dark:text-neutral-500 font-normal">(optional; derived from the schema when empty)</span>
+              </label>
+              <textarea
+                id="template-layout"
+                value={draft.layout}
+                onChange={(e) => setDraft({ ...draft, layout: e.target.value })}
+                className={`${inputClass} font-mono text-xs resize-y`}
+                rows={6}
+                spellCheck={false}
+                placeholder='{ "sections": [{ "field": "line_items", "label": "Line items", "display": "table" }] }'
+                disabled={isSaving}
+              />
+            </div>
+
+            {error && (
+              <div className="p-3 bg-red-50/80 dark:bg-red-950/30 border border-red-200/60 dark:border-red-800/60 rounded-xl text-red-700 dark:text-red-400 text-sm" role="alert">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end gap-3 pt-2">
+              <button
+                type="button"
+                onClick={onClose}
+                disabled={isSaving}
+                className="px-4 py-2 text-sm font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-xl hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200 disabled:opacity-50 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+              >
+                Close
+              </button>
+              <button
+                type="submit"
+                disabled={isSaving || !draft.name.trim() || !draft.prompt.trim()}
+                className="px-4 py-2 text-sm font-medium bg-neutral-900 dark:bg-neutral-100 text-white dark:text-neutral-900 rounded-xl hover:bg-neutral-800 dark:hover:bg-neutral-200 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed shadow-sm hover:shadow-md focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+              >
+                {isSaving ? 'Saving...' : editingId ? 'Save' : 'Create'}
+              </button>
+            </div>
+          </form>
+        </div>
+
+        <ConfirmModal
+          isOpen={pendingDelete !== null}
+          title="Delete template"
+          message={`Delete "${pendingDelete?.name}"? It will be removed from every document and group, along with its results.`}
+          confirmLabel="Delete"
+          onConfirm={handleDelete}
+          onCancel={() => setPendingDelete(null)}
+          isLoading={isSaving}
+        />
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,308 @@
+/**
+ * Template Results Component
+ *
+ * The Templates tab of the document view. Lists the user's extraction
+ * templates with the ones assigned to the document checked, shows the
+ * latest result of each, laid out by the template's layout, and runs the
+ * templates again on request.
+ *
+ * Templates assigned through a group are shown checked and are changed
+ * from the group instead.
+ */
+
+import { useState, useEffect } from 'react';
+import type {
+  DocumentTemplates,
+  ExtractionTemplate,
+  TemplateLayoutSection,
+  TemplateResult,
+  TemplateSchema,
+} from '@ai-document-vault/shared';
+import { getTemplates, getDocumentTemplates, setDocumentTemplates, runDocumentTemplates } from '@/lib/api/templates';
+import { ApiClientError } from '@/lib/api/client';
+
+interface TemplateResultsProps {
+  documentId: string;
+  isReady: boolean;
+  isEarlierVersion: boolean;
+}
+
+const termClass = 'text-xs font-semibold text-neutral-500 dark:text-neutral-400 uppercase tracking-wider';
+const valueClass = 'text-sm text-neutral-900 dark:text-neutral-100';
+
+/**
+ * Render a scalar (or anything else) as display text
+ */
+function formatValue(value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (typeof value === 'number') return value.toLocaleString();
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) return value.map(formatValue).join(', ');
+  return JSON.stringify(value);
+}
+
+function labelForKey(key: string): string {
+  const words = key.replace(/_/g, ' ').trim();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+/**
+ * Keys to show for an object value: the schema's properties in order,
+ * falling back to the value's own keys
+ */
+function objectKeys(schema: TemplateSchema | undefined, values: Record<string, unknown>[]): string[] {
+  if (schema?.properties) {
+    return Object.keys(schema.properties);
+  }
+  return [...new Set(values.flatMap((value) => Object.keys(value)))];
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function LayoutSection({ section, schema, value }: { section: TemplateLayoutSection; schema?: TemplateSchema; value: unknown }) {
+  if (value === undefined) {
+    return <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">Not found in this document.</p>;
+  }
+
+  if (section.display === 'list' && Array.isArray(value)) {
+    if (value.length === 0) {
+      return <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">None.</p>;
+    }
+    return (
+      <ul className="list-disc pl-5 flex flex-col gap-1">
+        {value.map((item, index) => (
+          <li key={index} className={valueClass}>{formatValue(item)}</li>
+        ))}
+      </ul>
+    );
+  }
+
+  if (section.display === 'table' && Array.isArray(value)) {
+    const rows = value.filter(isRecord);
+    if (rows.length === 0) {
+      return <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">None.</p>;
+    }
+    const columns = objectKeys(schema?.items, rows);
+    return (
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr>
+              {columns.map((column) => (
+                <th key={column} className={`${termClass} text-left px-3 py-2 border-b border-neutral-200/60 dark:border-neutral-700/60`}>
+                  {labelForKey(column)}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map((row, index) => (
+              <tr key={index} className="border-b border-neutral-100 dark:border-neutral-800 last:border-0">
+                {columns.map((column) => (
+                  <td key={column} className={`${valueClass} px-3 py-2 align-top`}>{formatValue(row[column])}</td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    );
+  }
+
+  if (section.display === 'fields' && isRecord(value)) {
+    return (
+      <dl className="grid grid-cols-[auto_1fr] gap-x-8 gap-y-2 items-baseline">
+        {objectKeys(schema, [value]).map((key) => (
+          <div key={key} className="contents">
+            <dt className="text-sm text-neutral-600 dark:text-neutral-400 font-light">{labelForKey(key)}</dt>
+            <dd className={valueClass}>{formatValue(value[key])}</dd>
+          </div>
+        ))}
+      </dl>
+    );
+  }
+
+  return <p className={`${valueClass} whitespace-pre-wrap`}>{formatValue(value)}</p>;
+}
+
+function ResultCard({ template, result }: { template: ExtractionTemplate; result?: TemplateResult }) {
+  return (
+    <section className="flex flex-col gap-4 p-5 border border-neutral-200/60 dark:border-neutral-700/60 rounded-xl">
+      <div className="flex items-baseline justify-between gap-4">
+        <h3 className="text-sm font-medium text-neutral-900 dark:text-neutral-100">{template.name}</h3>
+        {result && (
+          <span className="shrink-0 text-[11px] text-neutral-500 dark:text-neutral-400">
+            {new Date(result.updated_at).toLocaleString()}
+          </span>
+        )}
+      </div>
+
+      {!result && (
+        <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">Not run yet.</p>
+      )}
+
+      {result?.status === 'failed' && (
+        <p className="text-sm text-red-700 dark:text-red-400" role="alert">{result.error || 'This template failed.'}</p>
+      )}
+
+      {result?.status === 'succeeded' && result.output && (
+        <>
+          {result.truncated && (
+            <p className="text-xs text-amber-700 dark:text-amber-400">
+              This document is very long, so only its beginning was sent to this template.
+            </p>
+          )}
+          {template.layout.sections.map((section) => (
+            <div key={section.field} className="flex flex-col gap-2">
+              <h4 className={termClass}>{section.label}</h4>
+              <LayoutSection
+                section={section}
+                schema={template.output_schema.properties?.[section.field]}
+                value={result.output?.[section.field]}
+              />
+            </div>
+          ))}
+        </>
+      )}
+    </section>
+  );
+}
+
+export function TemplateResults({ documentId, isReady, isEarlierVersion }: TemplateResultsProps) {
+  const [documentTemplates, setDocumentTemplatesState] = useState<DocumentTemplates | null>(null);
+  const [allTemplates, setAllTemplates] = useState<ExtractionTemplate[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setDocumentTemplatesState(null);
+    setError(null);
+
+    Promise.all([getDocumentTemplates(documentId), getTemplates()])
+      .then(([current, templates]) => {
+        if (!cancelled) {
+          setDocumentTemplatesState(current);
+          setAllTemplates(templates);
+        }
+      })
+      .catch((err) => {
+        if (!cancelled) {
+          setError(err instanceof ApiClientError ? err.message : 'Failed to load templates');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [documentId]);
+
+  const handleToggle = async (templateId: string) => {
+    if (!documentTemplates || busy) return;
+    const assigned = documentTemplates.template_ids.includes(templateId)
+      ? documentTemplates.template_ids.filter((id) => id !== templateId)
+      : [...documentTemplates.template_ids, templateId];
+
+    setBusy(true);
+    setError(null);
+    try {
+      setDocumentTemplatesState(await setDocumentTemplates(documentId, assigned));
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to update templates');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRun = async () => {
+    setRunning(true);
+    setError(null);
+    try {
+      setDocumentTemplatesState(await runDocumentTemplates(documentId));
+    } catch (err) {
+      setError(err instanceof ApiClientError ? err.message : 'Failed to run templates');
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  if (!documentTemplates) {
+    return error
+      ? <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+      : <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">Loading templates...</p>;
+  }
+
+  const groupAssigned = new Set(documentTemplates.group_template_ids);
+  const active = new Set([...documentTemplates.template_ids, ...documentTemplates.group_template_ids]);
+  const resultsByTemplate = new Map(documentTemplates.results.map((result) => [result.template_id, result]));
+  const shown = documentTemplates.templates.filter((template) => active.has(template.id) || resultsByTemplate.has(template.id));
+
+  return (
+    <div className="flex flex-col gap-8">
+      {isEarlierVersion && (
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 font-light">These results describe the current version.</p>
+      )}
+
+      <section className="flex flex-col gap-3">
+        <div className="flex items-center justify-between gap-4">
+          <h3 className={termClass}>Templates</h3>
+          <button
+            type="button"
+            onClick={handleRun}
+            disabled={!isReady || running || busy || active.size === 0}
+            className="px-3 py-1.5 text-xs font-medium text-neutral-700 dark:text-neutral-300 bg-white dark:bg-neutral-800 border border-neutral-300 dark:border-neutral-600 rounded-lg hover:bg-neutral-50 dark:hover:bg-neutral-700 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {running ? 'Running...' : 'Run templates'}
+          </button>
+        </div>
+
+        {allTemplates.length === 0 ? (
+          <p className="text-sm text-neutral-500 dark:text-neutral-400 font-light">
+            You have no templates yet. Create one from Templates in the header.
+          </p>
+        ) : (
+          <ul className="flex flex-col gap-2">
+            {allTemplates.map((template) => (
+              <li key={template.id}>
+                <label className="flex items-start gap-3 text-sm text-neutral-800 dark:text-neutral-200">
+                  <input
+                    type="checkbox"
+                    checked={active.has(template.id)}
+                    disabled={busy || (groupAssigned.has(template.id) && !documentTemplates.template_ids.includes(template.id))}
+                    onChange={() => handleToggle(template.id)}
+                    className="mt-0.5 rounded border-neutral-300 dark:border-neutral-600"
+                  />
+                  <span className="flex flex-col">
+                    <span>
+                      {template.name}
+                      {groupAssigned.has(template.id) && (
+                        <span className="ml-2 text-xs text-neutral-500 dark:text-neutral-400 font-light">from a group</span>
+                      )}
+                    </span>
+                    {template.description && (
+                      <span className="text-xs text-neutral-500 dark:text-neutral-400 font-light">{template.description}</span>
+                    )}
+                  </span>
+                </label>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {error && (
+          <p className="text-xs text-red-700 dark:text-red-400" role="alert">
+            {error}
+          </p>
+        )}
+      </section>
+
+      {shown.map((template) => (
+        <ResultCard key={template.id} template={template} result={resultsByTemplate.get(template.id)} />
+      ))}
+    </div>
+  );
+}
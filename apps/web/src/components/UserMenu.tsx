@@ -1,10 +1,14 @@
 import { useAuth } from '@/contexts/AuthContext';
 import { useState, useRef, useEffect } from 'react';
+import type { UsageReport } from '@ai-document-vault/shared';
+import { getUsage } from '@/lib/api/usage';
+import { formatCost, formatTokens } from '@/lib/usageFormat';
 
 export function UserMenu() {
   const { user, signOut } = useAuth();
   const [isOpen, setIsOpen] = useState(false);
   const [isSigningOut, setIsSigningOut] = useState(false);
+  const [usage, setUsage] = useState<UsageReport | null>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
   useEffect(() => {
@@ -20,6 +24,22 @@ export function UserMenu() {
     }
   }, [isOpen]);
 
+  // Refresh this month's AI usage each time the menu opens
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    getUsage()
+      .then((report) => {
+        if (!cancelled) setUsage(report);
+      })
+      .catch((error) => {
+        console.error('Failed to load AI usage:', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
   const handleSignOut = async () => {
     setIsSigningOut(true);
     try {
@@ -70,6 +90,19 @@ export function UserMenu() {
               {user.email}
             </p>
           </div>
+          {usage && (
+            <div className="px-4 py-3 border-b border-luxury-platinum-200/60 dark:border-luxury-platinum-700/60">
+              <p className="text-xs font-semibold text-luxury-platinum-500 dark:text-luxury-platinum-400 uppercase tracking-wider mb-1">
+                AI usage this month
+              </p>
+              <p className="text-sm text-luxury-charcoal dark:text-luxury-platinum-50 font-medium tabular-nums">
+                {formatCost(usage.totals.cost_usd)}
+                <span className="ml-2 text-xs text-luxury-platinum-500 dark:text-luxury-platinum-400 font-normal">
+                  {formatTokens(usage.totals.input_tokens + usage.totals.output_tokens)} tokens · {usage.totals.calls} {usage.totals.calls === 1 ? 'call' : 'calls'}
+                </span>
+              </p>
+            </div>
+          )}
           <div className="px-2 py-1">
             <button
               onClick={handleSignOut}
@@ -0,0 +1,88 @@
+/**
+ * Version Picker Component
+ *
+ * Switches the document view between versions and uploads new revisions.
+ * The picker is only shown once a document has more than one version.
+ */
+
+import { useRef } from 'react';
+import type { DocumentVersionInfo } from '@ai-document-vault/shared';
+import { DOCUMENT_ACCEPT } from '@ai-document-vault/shared';
+
+interface VersionPickerProps {
+  versions: DocumentVersionInfo[]; // Newest first
+  currentVersion: number;
+  selectedVersion: number;
+  onSelect: (versionNumber: number) => void;
+  onUpload: (file: File) => void;
+  uploadPercent: number | null; // Progress of a version upload in flight
+  uploadDisabled?: boolean;
+  uploadDisabledReason?: string;
+}
+
+function formatVersionDate(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+}
+
+export function VersionPicker({
+  versions,
+  currentVersion,
+  selectedVersion,
+  onSelect,
+  onUpload,
+  uploadPercent,
+  uploadDisabled = false,
+  uploadDisabledReason,
+}: VersionPickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const isUploading = uploadPercent !== null;
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) {
+      onUpload(file);
+    }
+    // Reset input to allow selecting same file again
+    e.target.value = '';
+  };
+
+  return (
+    <div className="flex items-center gap-3">
+      {versions.length > 1 && (
+        <select
+          value={selectedVersion}
+          onChange={(e) => onSelect(Number(e.target.value))}
+          className="max-w-[16rem] text-xs text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 border border-neutral-200/60 dark:border-neutral-700/60 rounded-lg px-2 py-1.5 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+          aria-label="Document version"
+        >
+          {versions.map((version) => (
+            <option key={version.version_number} value={version.version_number}>
+              {`v${version.version_number}${version.version_number === currentVersion ? ' (current)' : ''} · ${formatVersionDate(version.created_at)} · ${version.filename}`}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        className="sr-only"
+        accept={DOCUMENT_ACCEPT}
+        onChange={handleFileChange}
+        aria-label="Upload a new version"
+      />
+      <button
+        type="button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={isUploading || uploadDisabled}
+        title={uploadDisabled ? uploadDisabledReason : 'Replace the file, keeping earlier versions'}
+        className="inline-flex items-center gap-1.5 px-3 py-1.5 text-xs font-medium text-neutral-700 dark:text-neutral-300 bg-neutral-100 dark:bg-neutral-800 rounded-lg hover:bg-neutral-200 dark:hover:bg-neutral-700 transition-all duration-200 disabled:opacity-50 disabled:cursor-not-allowed focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-neutral-400 dark:focus-visible:ring-neutral-500"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" stroke="currentColor" viewBox="0 0 24 24" strokeWidth="2">
+          <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v2a2 2 0 002 2h12a2 2 0 002-2v-2M16 8l-4-4-4 4M12 4v12" />
+        </svg>
+        {isUploading ? `Uploading ${uploadPercent}%` : 'New version'}
+      </button>
+    </div>
+  );
+}
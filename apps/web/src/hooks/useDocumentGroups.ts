@@ -6,7 +6,7 @@
 
 import { useState, useEffect } from 'react';
 import type { Group } from '@ai-document-vault/shared';
-import { getGroups, getGroupDocuments } from '@/lib/api/groups';
+import { getAllGroups, getAllGroupDocuments } from '@/lib/api/groups';
 
 /**
  * Get groups for a document via API
@@ -16,7 +16,7 @@ import { getGroups, getGroupDocuments } from '@/lib/api/groups';
  */
 async function getDocumentGroups(documentId: string): Promise<Group[]> {
   try {
-    const allGroups = await getGroups();
+    const allGroups = await getAllGroups();
     const documentGroups: Group[] = [];
 
     // Check each group to see if it contains this document
@@ -24,7 +24,7 @@ async function getDocumentGroups(documentId: string): Promise<Group[]> {
     const checks = await Promise.allSettled(
       allGroups.map(async (group) => {
         try {
-          const groupDocs = await getGroupDocuments(group.id);
+          const groupDocs = await getAllGroupDocuments(group.id);
           if (groupDocs.some((doc) => doc.id === documentId)) {
             return group;
           }
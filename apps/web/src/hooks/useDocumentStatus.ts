@@ -5,14 +5,14 @@
  * Used to track AI processing progress.
  * 
  * Features:
- * - Automatic polling for PROCESSING documents
+ * - Automatic polling for UPLOADED (queued) and PROCESSING documents
  * - Stops polling when status is READY or FAILED
  * - Configurable poll interval
  * - Error handling that never breaks UI
  */
 
 import { useState, useEffect, useRef } from 'react';
-import { DocumentStatus } from '@ai-document-vault/shared';
+import { DocumentStatus, isAwaitingQuota } from '@ai-document-vault/shared';
 import type { Document } from '@ai-document-vault/shared';
 import { getDocument } from '@/lib/api/client';
 
@@ -44,16 +44,20 @@ export function useDocumentStatus(
   const [error, setError] = useState<Error | null>(null);
   const pollTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
+  // Uploaded over quota: nothing is queued until the user retries
+  const awaitingQuota = document ? isAwaitingQuota(document) : false;
+
   useEffect(() => {
     // Don't poll if no document ID or polling disabled
     if (!documentId || !enabled) {
       return;
     }
 
-    // Don't poll if document is already READY or FAILED
+    // Don't poll if document is already READY or FAILED, or waiting for quota
     if (
       document?.status === DocumentStatus.READY ||
-      document?.status === DocumentStatus.FAILED
+      document?.status === DocumentStatus.FAILED ||
+      awaitingQuota
     ) {
       return;
     }
@@ -67,8 +71,11 @@ export function useDocumentStatus(
         const updatedDocument = await getDocument(documentId);
         setDocument(updatedDocument);
 
-        // Continue polling if still processing
-        if (updatedDocument.status === DocumentStatus.PROCESSING) {
+        // Continue polling while queued or processing
+        if (
+          (updatedDocument.status === DocumentStatus.UPLOADED && !isAwaitingQuota(updatedDocument)) ||
+          updatedDocument.status === DocumentStatus.PROCESSING
+        ) {
           pollTimeoutRef.current = setTimeout(poll, pollInterval);
         }
       } catch (err) {
@@ -78,7 +85,10 @@ export function useDocumentStatus(
         setError(pollError);
 
         // Continue polling even on error (might be transient)
-        if (document?.status === DocumentStatus.PROCESSING) {
+        if (
+          document?.status === DocumentStatus.UPLOADED ||
+          document?.status === DocumentStatus.PROCESSING
+        ) {
           pollTimeoutRef.current = setTimeout(poll, pollInterval);
         }
       } finally {
@@ -95,7 +105,7 @@ export function useDocumentStatus(
         clearTimeout(pollTimeoutRef.current);
       }
     };
-  }, [documentId, document?.status, pollInterval, enabled]);
+  }, [documentId, document?.status, awaitingQuota, pollInterval, enabled]);
 
   // Update document when it changes (for external updates)
   useEffect(() => {
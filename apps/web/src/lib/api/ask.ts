@@ -0,0 +1,111 @@
+/**
+ * Ask API Client
+ * 
+ * Client for question answering over documents. POST /api/ask streams
+ * Server-Sent Events, so the response body is read incrementally instead of
+ * using EventSource (which cannot send a POST body or auth header).
+ */
+
+import type { AskRequest, AskStreamEvent, ApiError } from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken } from './client';
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * Parse complete SSE messages from a buffer
+ * 
+ * @returns Parsed events and the unconsumed remainder of the buffer
+ */
+function parseEvents(buffer: string): { events: AskStreamEvent[]; rest: string } {
+  const events: AskStreamEvent[] = [];
+  const messages = buffer.split('\n\n');
+  const rest = messages.pop() ?? '';
+
+  for (const message of messages) {
+    const data = message
+      .split('\n')
+      .filter((line) => line.startsWith('data:'))
+      .map((line) => line.slice(5).trimStart())
+      .join('\n');
+    if (data) {
+      events.push(JSON.parse(data) as AskStreamEvent);
+    }
+  }
+
+  return { events, rest };
+}
+
+/**
+ * Ask a question and stream the answer
+ * 
+ * @param request - Question and optional document/group scope
+ * @param onEvent - Called for each event (citations, deltas, done, error)
+ * @param signal - Optional abort signal to stop streaming
+ * @throws ApiClientError if the request is rejected before streaming starts
+ */
+export async function askQuestion(
+  request: AskRequest,
+  onEvent: (event: AskStreamEvent) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const baseUrl = getApiUrl();
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'text/event-stream',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${baseUrl}/api/ask`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(request),
+      signal,
+    });
+  } catch (error) {
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to ask question',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    if (data && (data as ApiError).error) {
+      throw ApiClientError.fromResponse(data as ApiError, response.status);
+    }
+    throw new ApiClientError('API_ERROR', 'Failed to ask question', 'UNKNOWN_ERROR', response.status);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const parsed = parseEvents(buffer);
+    buffer = parsed.rest;
+    parsed.events.forEach(onEvent);
+  }
+
+  buffer += decoder.decode();
+  parseEvents(`${buffer}\n\n`).events.forEach(onEvent);
+}
@@ -10,10 +10,15 @@
  * - Errors are handled consistently
  */
 
+import { JobStatus } from '@ai-document-vault/shared';
 import type {
   Document,
+  ProcessingJob,
   ApiResponse,
   ApiError,
+  DocumentsResponse,
+  PaginatedResponse,
+  PaginationParams,
 } from '@ai-document-vault/shared';
 
 /**
@@ -40,7 +45,8 @@ export class ApiClientError extends Error {
     public error: string,
     public message: string,
     public code?: string,
-    public statusCode?: number
+    public statusCode?: number,
+    public details?: Record<string, unknown>
   ) {
     super(message);
     this.name = 'ApiClientError';
@@ -51,7 +57,8 @@ export class ApiClientError extends Error {
       response.error,
       response.message,
       response.code,
-      statusCode
+      statusCode,
+      response.details
     );
   }
 }
@@ -155,6 +162,7 @@ export interface UploadResult {
     processingMessage: string;
     estimatedPages: number;
   };
+  quotaExceeded?: ApiError; // QUOTA_EXCEEDED: stored, but processing waits for quota
 }
 
 export async function uploadDocument(file: File): Promise<UploadResult> {
@@ -187,10 +195,11 @@ export async function uploadDocument(file: File): Promise<UploadResult> {
       throw ApiClientError.fromResponse(apiError, response.status);
     }
 
-    const apiResponse = data as ApiResponse<Document> & { costEstimate?: { processingMessage: string; estimatedPages: number } };
+    const apiResponse = data as ApiResponse<Document> & Omit<UploadResult, 'document'>;
     return {
       document: apiResponse.data,
       costEstimate: apiResponse.costEstimate,
+      quotaExceeded: apiResponse.quotaExceeded,
     };
   } catch (error) {
     if (error instanceof ApiClientError) {
@@ -232,15 +241,64 @@ export interface DocumentWithGroups {
 }
 
 /**
- * Get all documents
+ * Largest page size the API accepts
+ */
+export const MAX_PAGE_SIZE = 100;
+
+/**
+ * Add cursor and limit query parameters
+ */
+export function appendPaginationParams(searchParams: URLSearchParams, params: PaginationParams): void {
+  if (params.cursor) {
+    searchParams.append('cursor', params.cursor);
+  }
+  if (params.limit) {
+    searchParams.append('limit', String(params.limit));
+  }
+}
+
+/**
+ * Follow next_cursor until every page has been fetched
  * 
- * Fetches a paginated list of documents.
+ * For small lists that callers need in full (e.g. groups for a picker).
+ */
+export async function fetchAllPages<T>(
+  fetchPage: (params: PaginationParams) => Promise<PaginatedResponse<T>>
+): Promise<T[]> {
+  const items: T[] = [];
+  let cursor: string | null = null;
+
+  do {
+    const page: PaginatedResponse<T> = await fetchPage({ cursor, limit: MAX_PAGE_SIZE });
+    items.push(...page.items);
+    cursor = page.has_more ? page.next_cursor : null;
+  } while (cursor);
+
+  return items;
+}
+
+/**
+ * Get a page of documents
+ * 
+ * Fetches a paginated list of documents, newest first. Pass the previous
+ * page's next_cursor to continue.
  * 
  * @param withGroups - If true, includes group memberships
+ * @param params - Cursor and page size
  */
-export async function getDocuments(withGroups = false): Promise<Document[] | DocumentWithGroups[]> {
-  const endpoint = withGroups ? '/api/documents?with_groups=true' : '/api/documents';
-  return apiRequest<Document[] | DocumentWithGroups[]>(endpoint);
+export async function getDocuments(
+  withGroups = false,
+  params: PaginationParams = {}
+): Promise<DocumentsResponse | PaginatedResponse<DocumentWithGroups>> {
+  const searchParams = new URLSearchParams();
+  if (withGroups) {
+    searchParams.append('with_groups', 'true');
+  }
+  appendPaginationParams(searchParams, params);
+
+  const query = searchParams.toString();
+  const endpoint = query ? `/api/documents?${query}` : '/api/documents';
+  return apiRequest<DocumentsResponse | PaginatedResponse<DocumentWithGroups>>(endpoint);
 }
 
 /**
@@ -428,65 +486,72 @@ export async function updateDocumentContent(
 }
 
 /**
- * Regenerate document content (summary or markdown)
+ * Get a background processing job
  * 
- * Regenerates AI content for a document. Only regenerates if explicitly requested.
+ * @param id - Job ID
+ * @returns Current job state
+ */
+export async function getJob(id: string): Promise<ProcessingJob> {
+  return apiRequest<ProcessingJob>(`/api/jobs/${id}`);
+}
+
+/**
+ * Poll a job until it succeeds or is dead-lettered
  * 
- * @param id - Document ID
- * @param type - 'summary' or 'markdown'
- * @returns Updated document
+ * @throws ApiClientError if the job fails permanently or polling times out
  */
-export async function regenerateDocumentContent(
+export async function waitForJob(
   id: string,
-  type: 'summary' | 'markdown'
-): Promise<Document> {
-  const baseUrl = getApiUrl();
-  const url = `${baseUrl}/api/documents/${id}/regenerate`;
+  pollInterval = 1500,
+  timeout = 10 * 60 * 1000
+): Promise<ProcessingJob> {
+  const deadline = Date.now() + timeout;
 
-  const token = await getAuthToken();
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-  };
-  if (token) {
-    headers['Authorization'] = `Bearer ${token}`;
-  }
-
-  try {
-    const response = await fetch(url, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({ type }),
-    });
+  while (Date.now() < deadline) {
+    const job = await getJob(id);
 
-    const data = await response.json();
-
-    if (!response.ok) {
-      const apiError = data as ApiError;
-      throw ApiClientError.fromResponse(apiError, response.status);
+    if (job.status === JobStatus.SUCCEEDED) {
+      return job;
     }
 
-    const apiResponse = data as ApiResponse<Document>;
-    return apiResponse.data;
-  } catch (error) {
-    if (error instanceof ApiClientError) {
-      throw error;
-    }
-
-    if (error instanceof TypeError && error.message.includes('fetch')) {
-      const apiUrl = import.meta.env.VITE_API_URL || 'http://localhost:3001';
+    if (job.status === JobStatus.DEAD) {
       throw new ApiClientError(
-        'NETWORK_ERROR',
-        `Cannot connect to the API server at ${apiUrl}. Make sure the API is running.`,
-        'NETWORK_ERROR',
-        0
+        'PROCESSING_ERROR',
+        job.last_error || 'Background job failed',
+        'JOB_FAILED'
       );
     }
 
-    throw new ApiClientError(
-      'UNKNOWN_ERROR',
-      error instanceof Error ? error.message : 'An unknown error occurred',
-      'UNKNOWN_ERROR',
-      0
-    );
+    await new Promise((resolve) => setTimeout(resolve, pollInterval));
   }
+
+  throw new ApiClientError(
+    'PROCESSING_ERROR',
+    'Timed out waiting for background job to finish',
+    'JOB_TIMEOUT'
+  );
+}
+
+/**
+ * Regenerate document content (summary or markdown)
+ * 
+ * Regenerates AI content for a document. Only regenerates if explicitly requested.
+ * Regeneration runs as a background job; this resolves once the job has
+ * finished and returns the updated document.
+ * 
+ * @param id - Document ID
+ * @param type - 'summary' or 'markdown'
+ * @returns Updated document
+ */
+export async function regenerateDocumentContent(
+  id: string,
+  type: 'summary' | 'markdown'
+): Promise<Document> {
+  const job = await apiRequest<ProcessingJob>(`/api/documents/${id}/regenerate`, {
+    method: 'POST',
+    body: JSON.stringify({ type }),
+  });
+
+  await waitForJob(job.id);
+  return getDocument(id);
 }
@@ -7,12 +7,17 @@
 import type {
   Group,
   GroupInput,
+  GroupUpdate,
+  GroupChildrenAction,
   GroupSuggestion,
   Document,
   ApiResponse,
   ApiError,
+  GroupsResponse,
+  GroupDocumentsResponse,
+  PaginationParams,
 } from '@ai-document-vault/shared';
-import { ApiClientError, getAuthToken } from './client';
+import { ApiClientError, getAuthToken, appendPaginationParams, fetchAllPages } from './client';
 
 /**
  * Get API base URL
@@ -26,13 +31,20 @@ function getApiUrl(): string {
 }
 
 /**
- * Get all groups
+ * Get a page of groups
  * 
  * @param type - Optional filter by group type
+ * @param params - Cursor and page size
  */
-export async function getGroups(type?: string): Promise<Group[]> {
+export async function getGroups(type?: string, params: PaginationParams = {}): Promise<GroupsResponse> {
   const baseUrl = getApiUrl();
-  const url = type ? `${baseUrl}/api/groups?type=${type}` : `${baseUrl}/api/groups`;
+  const searchParams = new URLSearchParams();
+  if (type) {
+    searchParams.append('type', type);
+  }
+  appendPaginationParams(searchParams, params);
+  const query = searchParams.toString();
+  const url = query ? `${baseUrl}/api/groups?${query}` : `${baseUrl}/api/groups`;
 
   const token = await getAuthToken();
   const headers: Record<string, string> = {};
@@ -49,7 +61,7 @@ export async function getGroups(type?: string): Promise<Group[]> {
       throw ApiClientError.fromResponse(apiError, response.status);
     }
 
-    const apiResponse = data as ApiResponse<Group[]>;
+    const apiResponse = data as ApiResponse<GroupsResponse>;
     return apiResponse.data;
   } catch (error) {
     if (error instanceof ApiClientError) {
@@ -65,6 +77,15 @@ export async function getGroups(type?: string): Promise<Group[]> {
   }
 }
 
+/**
+ * Get every group, following pagination
+ * 
+ * @param type - Optional filter by group type
+ */
+export async function getAllGroups(type?: string): Promise<Group[]> {
+  return fetchAllPages((params) => getGroups(type, params));
+}
+
 /**
  * Create a new group
  */
@@ -111,12 +132,60 @@ export async function createGroup(input: GroupInput): Promise<Group> {
 }
 
 /**
- * Delete a group
+ * Rename or move a group
  */
-export async function deleteGroup(groupId: string): Promise<void> {
+export async function updateGroup(groupId: string, update: GroupUpdate): Promise<Group> {
   const baseUrl = getApiUrl();
   const url = `${baseUrl}/api/groups/${groupId}`;
 
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(update),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<Group>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to update group',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Delete a group
+ * 
+ * @param children - Whether child groups are deleted too or move up a level
+ * @returns IDs of every deleted group
+ */
+export async function deleteGroup(groupId: string, children: GroupChildrenAction = 'reparent'): Promise<string[]> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/groups/${groupId}?children=${children}`;
+
   const token = await getAuthToken();
   const headers: Record<string, string> = {};
   if (token) {
@@ -135,6 +204,9 @@ export async function deleteGroup(groupId: string): Promise<void> {
       const apiError = data as ApiError;
       throw ApiClientError.fromResponse(apiError, response.status);
     }
+
+    const apiResponse = data as ApiResponse<{ id: string; deleted_ids: string[] }>;
+    return apiResponse.data.deleted_ids;
   } catch (error) {
     if (error instanceof ApiClientError) {
       throw error;
@@ -231,11 +303,27 @@ export async function removeDocumentFromGroup(groupId: string, documentId: strin
 }
 
 /**
- * Get documents in a group
+ * Get a page of documents in a group
+ * 
+ * @param groupId - Group to list
+ * @param params - Cursor and page size
+ * @param includeDescendants - Also include documents in subgroups
  */
-export async function getGroupDocuments(groupId: string): Promise<Document[]> {
+export async function getGroupDocuments(
+  groupId: string,
+  params: PaginationParams = {},
+  includeDescendants = false
+): Promise<GroupDocumentsResponse> {
   const baseUrl = getApiUrl();
-  const url = `${baseUrl}/api/groups/${groupId}/documents`;
+  const searchParams = new URLSearchParams();
+  appendPaginationParams(searchParams, params);
+  if (includeDescendants) {
+    searchParams.append('include_descendants', 'true');
+  }
+  const query = searchParams.toString();
+  const url = query
+    ? `${baseUrl}/api/groups/${groupId}/documents?${query}`
+    : `${baseUrl}/api/groups/${groupId}/documents`;
 
   const token = await getAuthToken();
   const headers: Record<string, string> = {};
@@ -252,7 +340,7 @@ export async function getGroupDocuments(groupId: string): Promise<Document[]> {
       throw ApiClientError.fromResponse(apiError, response.status);
     }
 
-    const apiResponse = data as ApiResponse<Document[]>;
+    const apiResponse = data as ApiResponse<GroupDocumentsResponse>;
     return apiResponse.data;
   } catch (error) {
     if (error instanceof ApiClientError) {
@@ -268,6 +356,13 @@ export async function getGroupDocuments(groupId: string): Promise<Document[]> {
   }
 }
 
+/**
+ * Get every document in a group, following pagination
+ */
+export async function getAllGroupDocuments(groupId: string): Promise<Document[]> {
+  return fetchAllPages((params) => getGroupDocuments(groupId, params));
+}
+
 
 /**
  * Get AI-suggested groups
@@ -0,0 +1,102 @@
+/**
+ * Revisions API Client
+ *
+ * Typed client for the summary and markdown revision log.
+ */
+
+import type {
+  Document,
+  ContentRevisionsParams,
+  ContentRevisionsResponse,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken, appendPaginationParams } from './client';
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * Send a request and unwrap its ApiResponse
+ */
+async function sendRequest<T>(endpoint: string, method: string, failureMessage: string): Promise<T> {
+  const url = `${getApiUrl()}${endpoint}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { method, headers });
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<T>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : failureMessage,
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Get a page of a document's content revisions, newest first
+ *
+ * @param documentId - Document to list
+ * @param params - Field, document version, cursor and page size
+ */
+export async function getContentRevisions(
+  documentId: string,
+  params: ContentRevisionsParams = {}
+): Promise<ContentRevisionsResponse> {
+  const searchParams = new URLSearchParams();
+  if (params.field) {
+    searchParams.append('field', params.field);
+  }
+  if (params.version !== undefined) {
+    searchParams.append('version', String(params.version));
+  }
+  appendPaginationParams(searchParams, params);
+  const query = searchParams.toString();
+
+  return sendRequest<ContentRevisionsResponse>(
+    query ? `/api/documents/${documentId}/revisions?${query}` : `/api/documents/${documentId}/revisions`,
+    'GET',
+    'Failed to fetch revisions'
+  );
+}
+
+/**
+ * Restore a revision's content to the document
+ *
+ * @returns The updated document
+ */
+export async function restoreContentRevision(documentId: string, revisionId: string): Promise<Document> {
+  return sendRequest<Document>(
+    `/api/documents/${documentId}/revisions/${revisionId}/restore`,
+    'POST',
+    'Failed to restore revision'
+  );
+}
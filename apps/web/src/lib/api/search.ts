@@ -4,16 +4,33 @@
  * Typed client for document search and filtering operations.
  */
 
-import type { Document, DocumentStatus, ApiResponse, ApiError } from '@ai-document-vault/shared';
-import { ApiClientError, getAuthToken } from './client';
+import type {
+  DocumentSearchResult,
+  DocumentSearchResponse,
+  DocumentStatus,
+  DocumentType,
+  KeyDateKind,
+  SearchMode,
+  PaginationParams,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken, appendPaginationParams } from './client';
 
 /**
  * Search parameters
  */
 export interface SearchParams {
-  query?: string; // Search in filename and summary
+  query?: string; // Full-text query over filename, summary and markdown
+  mode?: SearchMode; // keyword (default) or semantic
   status?: DocumentStatus; // Filter by status
   groupId?: string; // Filter by group
+  tagId?: string; // Filter by tag
+  documentType?: DocumentType; // Filter by extracted document type
+  language?: string; // Filter by extracted language (ISO 639-1 code)
+  dateKind?: KeyDateKind; // Only documents with this key date
+  dateFrom?: string; // Earliest dateKind date (YYYY-MM-DD, inclusive)
+  dateTo?: string; // Latest dateKind date (YYYY-MM-DD, inclusive)
 }
 
 /**
@@ -27,19 +44,55 @@ function getApiUrl(): string {
   return url;
 }
 
-export async function searchDocuments(params: SearchParams): Promise<Document[]> {
+/**
+ * Search documents
+ * 
+ * Text queries return results ranked by relevance with a snippet
+ * (highlighted terms for keyword mode, the closest passage for semantic
+ * mode); filter-only searches return documents newest first. Keyword and
+ * filter-only results are paginated; semantic results are a single page.
+ * 
+ * @param params - Search query and filters
+ * @param pagination - Cursor and page size
+ */
+export async function searchDocuments(
+  params: SearchParams,
+  pagination: PaginationParams = {}
+): Promise<DocumentSearchResponse> {
   const baseUrl = getApiUrl();
   const searchParams = new URLSearchParams();
 
   if (params.query) {
     searchParams.append('q', params.query);
   }
+  if (params.mode) {
+    searchParams.append('mode', params.mode);
+  }
   if (params.status) {
     searchParams.append('status', params.status);
   }
   if (params.groupId) {
     searchParams.append('group_id', params.groupId);
   }
+  if (params.tagId) {
+    searchParams.append('tag_id', params.tagId);
+  }
+  if (params.documentType) {
+    searchParams.append('document_type', params.documentType);
+  }
+  if (params.language) {
+    searchParams.append('language', params.language);
+  }
+  if (params.dateKind) {
+    searchParams.append('date_kind', params.dateKind);
+    if (params.dateFrom) {
+      searchParams.append('date_from', params.dateFrom);
+    }
+    if (params.dateTo) {
+      searchParams.append('date_to', params.dateTo);
+    }
+  }
+  appendPaginationParams(searchParams, pagination);
 
   const url = `${baseUrl}/api/documents/search?${searchParams.toString()}`;
 
@@ -58,7 +111,7 @@ export async function searchDocuments(params: SearchParams): Promise<Document[]>
       throw ApiClientError.fromResponse(apiError, response.status);
     }
 
-    const apiResponse = data as ApiResponse<Document[]>;
+    const apiResponse = data as ApiResponse<DocumentSearchResponse>;
     return apiResponse.data;
   } catch (error) {
     if (error instanceof ApiClientError) {
@@ -73,3 +126,45 @@ export async function searchDocuments(params: SearchParams): Promise<Document[]>
     );
   }
 }
+
+/**
+ * Get documents similar to a document
+ * 
+ * Results are ranked by embedding similarity and include the passage that
+ * matched best. Unprocessed documents have no similar documents.
+ */
+export async function getSimilarDocuments(documentId: string, limit?: number): Promise<DocumentSearchResult[]> {
+  const baseUrl = getApiUrl();
+  const query = limit ? `?limit=${limit}` : '';
+  const url = `${baseUrl}/api/documents/${documentId}/similar${query}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentSearchResult[]>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch similar documents',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
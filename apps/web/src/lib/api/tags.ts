@@ -0,0 +1,361 @@
+/**
+ * Tags API Client
+ * 
+ * Typed client for tags and the tags applied to documents.
+ */
+
+import type { Tag, DocumentTags, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken } from './client';
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * Get all of the user's tags, sorted by name, with document counts
+ */
+export async function getTags(): Promise<Tag[]> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/tags`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<Tag[]>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch tags',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Create a tag without applying it to a document
+ */
+export async function createTag(name: string): Promise<Tag> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/tags`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<Tag>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to create tag',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Rename a tag on every document that carries it
+ */
+export async function renameTag(tagId: string, name: string): Promise<Tag> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/tags/${tagId}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify({ name }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<Tag>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to rename tag',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Delete a tag and remove it from all documents
+ */
+export async function deleteTag(tagId: string): Promise<{ id: string }> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/tags/${tagId}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<{ id: string }>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to delete tag',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Get a document's tags and pending AI tag suggestions
+ */
+export async function getDocumentTags(documentId: string): Promise<DocumentTags> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/tags`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentTags>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch document tags',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Apply a tag to a document by name
+ * 
+ * The tag is created if the user has none with this name (ignoring case).
+ * Applying a suggested tag accepts the suggestion.
+ */
+export async function addDocumentTag(documentId: string, name: string): Promise<DocumentTags> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/tags`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ name }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentTags>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to tag document',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Remove a tag from a document
+ */
+export async function removeDocumentTag(documentId: string, tagId: string): Promise<DocumentTags> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/tags/${tagId}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentTags>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to remove tag',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Reject one of the AI's tag suggestions for a document
+ */
+export async function rejectSuggestedTag(documentId: string, name: string): Promise<DocumentTags> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/suggested-tags/${encodeURIComponent(name)}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentTags>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to dismiss tag suggestion',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
@@ -0,0 +1,428 @@
+/**
+ * Templates API Client
+ * 
+ * Typed client for extraction templates and their assignment to documents
+ * and groups.
+ */
+
+import type {
+  ExtractionTemplate,
+  ExtractionTemplateInput,
+  DocumentTemplates,
+  TemplateAssignmentInput,
+  ProcessingJob,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken, waitForJob } from './client';
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * Get all of the user's templates, sorted by name
+ */
+export async function getTemplates(): Promise<ExtractionTemplate[]> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/templates`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<ExtractionTemplate[]>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch templates',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Create a template
+ * 
+ * The layout is derived from the output schema when omitted.
+ */
+export async function createTemplate(input: ExtractionTemplateInput): Promise<ExtractionTemplate> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/templates`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<ExtractionTemplate>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to create template',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Update any of a template's fields
+ */
+export async function updateTemplate(templateId: string, input: Partial<ExtractionTemplateInput>): Promise<ExtractionTemplate> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/templates/${templateId}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'PATCH',
+      headers,
+      body: JSON.stringify(input),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<ExtractionTemplate>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to update template',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Delete a template along with its assignments and results
+ */
+export async function deleteTemplate(templateId: string): Promise<{ id: string }> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/templates/${templateId}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'DELETE',
+      headers,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<{ id: string }>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to delete template',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Get the templates that run for a document and their latest results
+ */
+export async function getDocumentTemplates(documentId: string): Promise<DocumentTemplates> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/templates`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentTemplates>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch document templates',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Replace the templates assigned directly to a document
+ * 
+ * The templates run the next time the document is processed, or with
+ * runDocumentTemplates.
+ */
+export async function setDocumentTemplates(documentId: string, templateIds: string[]): Promise<DocumentTemplates> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/templates`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ template_ids: templateIds }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentTemplates>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to update document templates',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Queue a run of a document's templates
+ */
+async function queueDocumentTemplates(documentId: string): Promise<ProcessingJob> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/documents/${documentId}/templates/run`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers,
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<ProcessingJob>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to run templates',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Run a document's templates again
+ * 
+ * Runs as a background job; this resolves once the job has finished and
+ * returns the new results.
+ */
+export async function runDocumentTemplates(documentId: string): Promise<DocumentTemplates> {
+  const job = await queueDocumentTemplates(documentId);
+  await waitForJob(job.id);
+  return getDocumentTemplates(documentId);
+}
+
+/**
+ * Get the ids of the templates assigned to a group
+ */
+export async function getGroupTemplates(groupId: string): Promise<string[]> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/groups/${groupId}/templates`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<TemplateAssignmentInput>;
+    return apiResponse.data.template_ids;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch group templates',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Replace the templates assigned to a group
+ * 
+ * They run for the group's documents the next time each is processed.
+ */
+export async function setGroupTemplates(groupId: string, templateIds: string[]): Promise<string[]> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/groups/${groupId}/templates`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, {
+      method: 'PUT',
+      headers,
+      body: JSON.stringify({ template_ids: templateIds }),
+    });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<TemplateAssignmentInput>;
+    return apiResponse.data.template_ids;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to update group templates',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
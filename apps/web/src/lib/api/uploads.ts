@@ -0,0 +1,373 @@
+/**
+ * Uploads API Client
+ *
+ * Uploads files with progress reporting. Small files go up in a single
+ * request; larger files use a resumable upload session and are sent in
+ * chunks, so a dropped connection only re-sends the chunk in flight.
+ *
+ * Session IDs are remembered in localStorage per file (name, size and
+ * modification time), so uploading the same file again after a reload or
+ * failure resumes with the chunks the server is missing.
+ *
+ * Uploading a file whose content matches an existing document fails with
+ * DUPLICATE_DOCUMENT (see getDuplicateDetails); upload it again with an
+ * onDuplicate choice. A chunked upload keeps its session meanwhile, so the
+ * retry only repeats the complete request.
+ */
+
+import type {
+  Document,
+  UploadSession,
+  DuplicateAction,
+  DuplicateDocumentDetails,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken, type UploadResult } from './client';
+
+/**
+ * Files at or above this size use a chunked upload session
+ */
+const CHUNKED_UPLOAD_THRESHOLD = 8 * 1024 * 1024;
+
+/**
+ * Attempts per chunk before giving up, with exponential backoff
+ */
+const MAX_CHUNK_ATTEMPTS = 5;
+const RETRY_BASE_DELAY_MS = 1000;
+
+const SESSION_STORAGE_PREFIX = 'upload-session:';
+
+/**
+ * Bytes sent so far for one file
+ */
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+}
+
+export interface UploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  onDuplicate?: DuplicateAction; // What to do if the content already exists
+  templateIds?: string[]; // Extraction templates to run on the document
+}
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * Send a request with XMLHttpRequest, which (unlike fetch) reports upload
+ * progress
+ *
+ * @returns The parsed ApiResponse body
+ */
+async function sendRequest<T>(
+  method: string,
+  endpoint: string,
+  body: XMLHttpRequestBodyInit | null,
+  options: {
+    contentType?: string;
+    onUploadProgress?: (loaded: number) => void;
+    signal?: AbortSignal;
+  } = {}
+): Promise<ApiResponse<T>> {
+  const url = `${getApiUrl()}${endpoint}`;
+  const token = await getAuthToken();
+
+  return new Promise((resolve, reject) => {
+    if (options.signal?.aborted) {
+      reject(new ApiClientError('ABORTED', 'Upload cancelled', 'ABORTED', 0));
+      return;
+    }
+
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    if (token) {
+      xhr.setRequestHeader('Authorization', `Bearer ${token}`);
+    }
+    if (options.contentType) {
+      xhr.setRequestHeader('Content-Type', options.contentType);
+    }
+
+    if (options.onUploadProgress) {
+      const onUploadProgress = options.onUploadProgress;
+      xhr.upload.onprogress = (event) => onUploadProgress(event.loaded);
+    }
+
+    const onAbort = () => xhr.abort();
+    options.signal?.addEventListener('abort', onAbort);
+    const cleanup = () => options.signal?.removeEventListener('abort', onAbort);
+
+    xhr.onload = () => {
+      cleanup();
+      let data: unknown = null;
+      try {
+        data = xhr.responseText ? JSON.parse(xhr.responseText) : null;
+      } catch {
+        // Non-JSON body (e.g. a proxy error page)
+      }
+
+      if (xhr.status < 200 || xhr.status >= 300) {
+        const apiError = data as ApiError | null;
+        reject(
+          apiError?.message
+            ? ApiClientError.fromResponse(apiError, xhr.status)
+            : new ApiClientError('HTTP_ERROR', `Request failed with status ${xhr.status}`, 'HTTP_ERROR', xhr.status)
+        );
+        return;
+      }
+
+      resolve(data as ApiResponse<T>);
+    };
+
+    xhr.onerror = () => {
+      cleanup();
+      reject(new ApiClientError('NETWORK_ERROR', 'Network error during upload', 'NETWORK_ERROR', 0));
+    };
+
+    xhr.onabort = () => {
+      cleanup();
+      reject(new ApiClientError('ABORTED', 'Upload cancelled', 'ABORTED', 0));
+    };
+
+    xhr.send(body);
+  });
+}
+
+/**
+ * Whether an upload was cancelled through its AbortSignal
+ */
+export function isUploadAborted(error: unknown): boolean {
+  return error instanceof ApiClientError && error.code === 'ABORTED';
+}
+
+/**
+ * The existing document an upload duplicates
+ *
+ * @returns Details for DUPLICATE_DOCUMENT and DUPLICATE_NOT_READY errors, otherwise null
+ */
+export function getDuplicateDetails(error: unknown): DuplicateDocumentDetails | null {
+  if (
+    error instanceof ApiClientError &&
+    (error.code === 'DUPLICATE_DOCUMENT' || error.code === 'DUPLICATE_NOT_READY') &&
+    error.details?.existing_document
+  ) {
+    return error.details as unknown as DuplicateDocumentDetails;
+  }
+  return null;
+}
+
+/**
+ * Whether a failed request is worth retrying (network trouble or a
+ * server error, not a rejected file)
+ */
+function isRetryable(error: unknown): boolean {
+  return (
+    error instanceof ApiClientError &&
+    !isUploadAborted(error) &&
+    (error.statusCode === 0 || (error.statusCode !== undefined && error.statusCode >= 500))
+  );
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timer);
+        reject(new ApiClientError('ABORTED', 'Upload cancelled', 'ABORTED', 0));
+      },
+      { once: true }
+    );
+  });
+}
+
+function sessionStorageKey(file: File): string {
+  return `${SESSION_STORAGE_PREFIX}${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function toUploadResult(response: ApiResponse<Document>): UploadResult {
+  const { costEstimate, quotaExceeded } = response as ApiResponse<Document> & Omit<UploadResult, 'document'>;
+  return { document: response.data, costEstimate, quotaExceeded };
+}
+
+/**
+ * Upload a file in a single request
+ */
+async function uploadInOneRequest(file: File, options: UploadOptions): Promise<UploadResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+  if (options.onDuplicate) {
+    formData.append('on_duplicate', options.onDuplicate);
+  }
+  for (const templateId of options.templateIds || []) {
+    formData.append('template_ids', templateId);
+  }
+
+  const response = await sendRequest<Document>('POST', '/api/documents/upload', formData, {
+    onUploadProgress: (loaded) => options.onProgress?.({ loaded: Math.min(loaded, file.size), total: file.size }),
+    signal: options.signal,
+  });
+  return toUploadResult(response);
+}
+
+/**
+ * Find a resumable session for this file, or open a new one
+ */
+async function openUploadSession(file: File, signal?: AbortSignal): Promise<UploadSession> {
+  const key = sessionStorageKey(file);
+  const storedId = localStorage.getItem(key);
+
+  if (storedId) {
+    try {
+      const existing = await sendRequest<UploadSession>('GET', `/api/uploads/${storedId}`, null, { signal });
+      const session = existing.data;
+      if (!session.document_id && new Date(session.expires_at).getTime() > Date.now()) {
+        return session;
+      }
+    } catch (error) {
+      if (isUploadAborted(error)) {
+        throw error;
+      }
+      // Session is gone; start over
+    }
+    localStorage.removeItem(key);
+  }
+
+  const created = await sendRequest<UploadSession>(
+    'POST',
+    '/api/uploads',
+    JSON.stringify({ filename: file.name, content_type: file.type, size: file.size }),
+    { contentType: 'application/json', signal }
+  );
+  localStorage.setItem(key, created.data.id);
+  return created.data;
+}
+
+/**
+ * Upload a file through a resumable upload session
+ */
+async function uploadInChunks(file: File, options: UploadOptions): Promise<UploadResult> {
+  const { signal } = options;
+  const session = await openUploadSession(file, signal);
+  const received = new Set(session.received_chunks);
+
+  const chunkBounds = (index: number) => {
+    const start = index * session.chunk_size;
+    return { start, end: Math.min(start + session.chunk_size, file.size) };
+  };
+
+  let confirmedBytes = 0;
+  received.forEach((index) => {
+    const { start, end } = chunkBounds(index);
+    confirmedBytes += end - start;
+  });
+  options.onProgress?.({ loaded: confirmedBytes, total: file.size });
+
+  for (let index = 0; index < session.total_chunks; index++) {
+    if (received.has(index)) {
+      continue;
+    }
+
+    const { start, end } = chunkBounds(index);
+    const chunk = file.slice(start, end);
+
+    for (let attempt = 1; ; attempt++) {
+      try {
+        await sendRequest<UploadSession>('PUT', `/api/uploads/${session.id}/chunks/${index}`, chunk, {
+          contentType: 'application/octet-stream',
+          onUploadProgress: (loaded) =>
+            options.onProgress?.({ loaded: confirmedBytes + Math.min(loaded, end - start), total: file.size }),
+          signal,
+        });
+        break;
+      } catch (error) {
+        if (!isRetryable(error) || attempt >= MAX_CHUNK_ATTEMPTS) {
+          throw error;
+        }
+        await wait(RETRY_BASE_DELAY_MS * 2 ** (attempt - 1), signal);
+      }
+    }
+
+    confirmedBytes += end - start;
+    options.onProgress?.({ loaded: confirmedBytes, total: file.size });
+  }
+
+  const completed = await sendRequest<Document>(
+    'POST',
+    `/api/uploads/${session.id}/complete`,
+    JSON.stringify({ on_duplicate: options.onDuplicate, template_ids: options.templateIds }),
+    { contentType: 'application/json', signal }
+  );
+  localStorage.removeItem(sessionStorageKey(file));
+  return toUploadResult(completed);
+}
+
+/**
+ * Upload a document file with progress
+ *
+ * @param file - File to upload
+ * @param options - Progress callback, abort signal, duplicate handling and templates
+ * @returns Created document with status UPLOADED (READY when linked to a duplicate)
+ */
+export async function uploadFile(file: File, options: UploadOptions = {}): Promise<UploadResult> {
+  if (file.size < CHUNKED_UPLOAD_THRESHOLD) {
+    return uploadInOneRequest(file, options);
+  }
+  return uploadInChunks(file, options);
+}
+
+/**
+ * Upload a new version of an existing document with progress
+ *
+ * Always sent in a single request.
+ *
+ * @param documentId - Document to revise
+ * @param file - New file
+ * @param options - Progress callback and abort signal
+ * @returns The document, reset to UPLOADED with its new current_version
+ */
+export async function uploadDocumentVersion(
+  documentId: string,
+  file: File,
+  options: Omit<UploadOptions, 'onDuplicate' | 'templateIds'> = {}
+): Promise<UploadResult> {
+  const formData = new FormData();
+  formData.append('file', file);
+
+  const response = await sendRequest<Document>('POST', `/api/documents/${documentId}/versions`, formData, {
+    onUploadProgress: (loaded) => options.onProgress?.({ loaded: Math.min(loaded, file.size), total: file.size }),
+    signal: options.signal,
+  });
+  return toUploadResult(response);
+}
+
+/**
+ * Abandon a chunked upload for a file and delete its stored chunks
+ *
+ * Does nothing for files without a pending session.
+ */
+export async function cancelUpload(file: File): Promise<void> {
+  const key = sessionStorageKey(file);
+  const sessionId = localStorage.getItem(key);
+  if (!sessionId) {
+    return;
+  }
+
+  localStorage.removeItem(key);
+  try {
+    await sendRequest<{ id: string }>('DELETE', `/api/uploads/${sessionId}`, null);
+  } catch {
+    // The session expires on its own
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * Usage API Client
+ * 
+ * Typed client for the tokens and estimated cost of the user's AI calls.
+ */
+
+import type { UsageReport, DocumentUsageReport, ApiResponse, ApiError } from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken } from './client';
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * Get the user's usage for a month (YYYY-MM, default the current month)
+ */
+export async function getUsage(month?: string): Promise<UsageReport> {
+  const baseUrl = getApiUrl();
+  const url = month ? `${baseUrl}/api/usage?month=${encodeURIComponent(month)}` : `${baseUrl}/api/usage`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<UsageReport>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch usage',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Get a document's usage to date
+ */
+export async function getDocumentUsage(documentId: string): Promise<DocumentUsageReport> {
+  const baseUrl = getApiUrl();
+  const url = `${baseUrl}/api/usage?document_id=${encodeURIComponent(documentId)}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<DocumentUsageReport>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : 'Failed to fetch document usage',
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
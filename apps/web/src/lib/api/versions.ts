@@ -0,0 +1,83 @@
+/**
+ * Versions API Client
+ * 
+ * Typed client for document version history. New versions are uploaded
+ * with uploadDocumentVersion in ./uploads, which reports progress.
+ */
+
+import type {
+  DocumentVersionInfo,
+  DocumentVersionWithUrl,
+  ApiResponse,
+  ApiError,
+} from '@ai-document-vault/shared';
+import { ApiClientError, getAuthToken } from './client';
+
+/**
+ * Get API base URL
+ */
+function getApiUrl(): string {
+  const url = import.meta.env.VITE_API_URL;
+  if (!url) {
+    throw new Error('VITE_API_URL environment variable is not set');
+  }
+  return url;
+}
+
+/**
+ * GET an endpoint and unwrap its ApiResponse
+ */
+async function fetchData<T>(endpoint: string, failureMessage: string): Promise<T> {
+  const url = `${getApiUrl()}${endpoint}`;
+
+  const token = await getAuthToken();
+  const headers: Record<string, string> = {};
+  if (token) {
+    headers['Authorization'] = `Bearer ${token}`;
+  }
+
+  try {
+    const response = await fetch(url, { headers });
+    const data = await response.json();
+
+    if (!response.ok) {
+      const apiError = data as ApiError;
+      throw ApiClientError.fromResponse(apiError, response.status);
+    }
+
+    const apiResponse = data as ApiResponse<T>;
+    return apiResponse.data;
+  } catch (error) {
+    if (error instanceof ApiClientError) {
+      throw error;
+    }
+
+    throw new ApiClientError(
+      'NETWORK_ERROR',
+      error instanceof Error ? error.message : failureMessage,
+      'NETWORK_ERROR',
+      0
+    );
+  }
+}
+
+/**
+ * Get a document's versions, newest first (without markdown)
+ */
+export async function getDocumentVersions(documentId: string): Promise<DocumentVersionInfo[]> {
+  return fetchData<DocumentVersionInfo[]>(
+    `/api/documents/${documentId}/versions`,
+    'Failed to fetch document versions'
+  );
+}
+
+/**
+ * Get one version of a document with its summary, markdown and a signed
+ * URL for its file
+ */
+export async function getDocumentVersion(documentId: string, versionNumber: number): Promise<DocumentVersionWithUrl> {
+  return fetchData<DocumentVersionWithUrl>(
+    `/api/documents/${documentId}/versions/${versionNumber}`,
+    'Failed to fetch document version'
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Citations
+ *
+ * Maps answer citations to the passage they cite in a document's
+ * markdown, shared by the document view and the group sidebar's Ask panel.
+ */
+
+import type { AskCitation } from '@ai-document-vault/shared';
+
+/**
+ * Character range in documents.markdown (e.g. a cited passage)
+ */
+export interface MarkdownHighlight {
+  start: number;
+  end: number;
+}
+
+/**
+ * Highlight range for a citation, or null if it has no offsets
+ */
+export function citationHighlight(citation: AskCitation): MarkdownHighlight | null {
+  return citation.start_offset !== null && citation.end_offset !== null
+    ? { start: citation.start_offset, end: citation.end_offset }
+    : null;
+}
@@ -0,0 +1,67 @@
+/**
+ * Group Appearance
+ *
+ * Maps group colors to Tailwind classes. Class names are spelled out in
+ * full so Tailwind's content scan picks them up.
+ */
+
+import { GroupColor } from '@ai-document-vault/shared';
+
+interface GroupColorClasses {
+  badge: string; // Background and text for membership badges
+  icon: string; // Text color for the group icon
+  swatch: string; // Solid background for the color picker
+}
+
+export const GROUP_COLOR_CLASSES: Record<GroupColor, GroupColorClasses> = {
+  [GroupColor.GRAY]: {
+    badge: 'bg-slate-100 text-slate-700 dark:bg-slate-800 dark:text-slate-300',
+    icon: 'text-slate-500',
+    swatch: 'bg-slate-500',
+  },
+  [GroupColor.RED]: {
+    badge: 'bg-red-100 text-red-700 dark:bg-red-950/50 dark:text-red-300',
+    icon: 'text-red-500',
+    swatch: 'bg-red-500',
+  },
+  [GroupColor.ORANGE]: {
+    badge: 'bg-orange-100 text-orange-700 dark:bg-orange-950/50 dark:text-orange-300',
+    icon: 'text-orange-500',
+    swatch: 'bg-orange-500',
+  },
+  [GroupColor.AMBER]: {
+    badge: 'bg-amber-100 text-amber-800 dark:bg-amber-950/50 dark:text-amber-300',
+    icon: 'text-amber-500',
+    swatch: 'bg-amber-500',
+  },
+  [GroupColor.GREEN]: {
+    badge: 'bg-green-100 text-green-700 dark:bg-green-950/50 dark:text-green-300',
+    icon: 'text-green-500',
+    swatch: 'bg-green-500',
+  },
+  [GroupColor.TEAL]: {
+    badge: 'bg-teal-100 text-teal-700 dark:bg-teal-950/50 dark:text-teal-300',
+    icon: 'text-teal-500',
+    swatch: 'bg-teal-500',
+  },
+  [GroupColor.BLUE]: {
+    badge: 'bg-blue-100 text-blue-700 dark:bg-blue-950/50 dark:text-blue-300',
+    icon: 'text-blue-500',
+    swatch: 'bg-blue-500',
+  },
+  [GroupColor.INDIGO]: {
+    badge: 'bg-indigo-100 text-indigo-700 dark:bg-indigo-950/50 dark:text-indigo-300',
+    icon: 'text-indigo-500',
+    swatch: 'bg-indigo-500',
+  },
+  [GroupColor.PURPLE]: {
+    badge: 'bg-purple-100 text-purple-700 dark:bg-purple-950/50 dark:text-purple-300',
+    icon: 'text-purple-500',
+    swatch: 'bg-purple-500',
+  },
+  [GroupColor.PINK]: {
+    badge: 'bg-pink-100 text-pink-700 dark:bg-pink-950/50 dark:text-pink-300',
+    icon: 'text-pink-500',
+    swatch: 'bg-pink-500',
+  },
+};
@@ -0,0 +1,52 @@
+/**
+ * Group Tree Helpers
+ *
+ * Walks the group hierarchy (parent_id links) on the client, for the
+ * sidebar tree, breadcrumbs and parent pickers.
+ */
+
+import type { Group } from '@ai-document-vault/shared';
+
+/**
+ * A group and its ancestors, top-level group first
+ */
+export function groupPath(groups: Group[], groupId: string): Group[] {
+  const byId = new Map(groups.map((group) => [group.id, group]));
+  const path: Group[] = [];
+  let current = byId.get(groupId);
+
+  // The API prevents cycles; the length check guards against stale data
+  while (current && path.length <= groups.length) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+
+  return path;
+}
+
+/**
+ * IDs of every group below a group (the group itself excluded)
+ */
+export function descendantIds(groups: Group[], groupId: string): Set<string> {
+  const descendants = new Set<string>();
+  const queue = [groupId];
+
+  while (queue.length > 0) {
+    const parentId = queue.shift();
+    for (const group of groups) {
+      if (group.parent_id === parentId && !descendants.has(group.id) && group.id !== groupId) {
+        descendants.add(group.id);
+        queue.push(group.id);
+      }
+    }
+  }
+
+  return descendants;
+}
+
+/**
+ * A group's full name, e.g. "Acme / Contract review / Drafting"
+ */
+export function groupPathLabel(groups: Group[], groupId: string): string {
+  return groupPath(groups, groupId).map((group) => group.name).join(' / ');
+}
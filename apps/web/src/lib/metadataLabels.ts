@@ -0,0 +1,31 @@
+/**
+ * Metadata Labels
+ *
+ * Display names for extracted document metadata, shared by the search
+ * filters and the document Details tab.
+ */
+
+import { DocumentType } from '@ai-document-vault/shared';
+import type { KeyDateKind } from '@ai-document-vault/shared';
+
+export const DOCUMENT_TYPE_LABELS: Record<DocumentType, string> = {
+  [DocumentType.INVOICE]: 'Invoice',
+  [DocumentType.RECEIPT]: 'Receipt',
+  [DocumentType.CONTRACT]: 'Contract',
+  [DocumentType.REPORT]: 'Report',
+  [DocumentType.LETTER]: 'Letter',
+  [DocumentType.FORM]: 'Form',
+  [DocumentType.STATEMENT]: 'Statement',
+  [DocumentType.RESUME]: 'Résumé',
+  [DocumentType.PRESENTATION]: 'Presentation',
+  [DocumentType.ARTICLE]: 'Article',
+  [DocumentType.OTHER]: 'Other',
+};
+
+export const KEY_DATE_LABELS: Record<KeyDateKind, string> = {
+  issued: 'Issued',
+  effective: 'Effective',
+  due: 'Due',
+  expires: 'Expires',
+  signed: 'Signed',
+};
@@ -0,0 +1,24 @@
+/**
+ * Usage Formatting
+ *
+ * Display helpers for AI usage, shared by the user menu and the document
+ * Details tab.
+ */
+
+/**
+ * Estimated cost in US dollars; amounts under a cent keep more precision
+ */
+export function formatCost(costUsd: number): string {
+  if (costUsd === 0) return '$0.00';
+  if (costUsd < 0.01) return `$${costUsd.toFixed(4)}`;
+  return `$${costUsd.toFixed(2)}`;
+}
+
+/**
+ * Token count, abbreviated above a thousand (e.g. 12.3k, 1.2M)
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens >= 1_000_000) return `${(tokens / 1_000_000).toFixed(1)}M`;
+  if (tokens >= 1_000) return `${(tokens / 1_000).toFixed(1)}k`;
+  return tokens.toString();
+}
@@ -15,3 +15,18 @@ export * from './types/grouping.js';
 export * from './types/api.js';
 export * from './types/database.js';
 export * from './types/storage.js';
+export * from './types/job.js';
+export * from './types/search.js';
+export * from './types/ask.js';
+export * from './types/upload.js';
+export * from './types/version.js';
+export * from './types/revision.js';
+export * from './types/tag.js';
+export * from './types/metadata.js';
+export * from './types/template.js';
+export * from './types/usage.js';
+export * from './types/quota.js';
+export * from './types/format.js';
+
+// Export utilities
+export * from './utils/diff.js';
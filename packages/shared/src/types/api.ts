@@ -42,7 +42,8 @@ export interface ApiError {
  * Cursor-based pagination for efficient large dataset handling.
  * 
  * Assumptions:
- * - cursor is the ID of the last item from previous page
+ * - cursor is the opaque next_cursor from the previous page
+ *   (it encodes that page's last sort key, not just an ID)
  * - limit defaults to 20 if not specified
  * - cursor is null/undefined for first page
  */
@@ -0,0 +1,45 @@
+/**
+ * Ask Types
+ * 
+ * Types for question answering over documents (POST /api/ask).
+ */
+
+/**
+ * Ask Request
+ * 
+ * Question with an optional scope. When neither document_id nor group_id is
+ * given, all of the user's READY documents are searched.
+ */
+export interface AskRequest {
+  question: string;
+  document_id?: string; // Only search this document
+  group_id?: string; // Only search documents in this group
+}
+
+/**
+ * Ask Citation
+ * 
+ * A retrieved passage the answer may cite. The answer refers to it inline
+ * as `[index]`. Offsets point into the document's markdown.
+ */
+export interface AskCitation {
+  index: number; // 1-based marker used in the answer text
+  document_id: string;
+  document_name: string;
+  start_offset: number | null; // Inclusive offset into documents.markdown (null for legacy chunks)
+  end_offset: number | null; // Exclusive offset into documents.markdown
+  excerpt: string; // Passage text
+}
+
+/**
+ * Ask Stream Event
+ * 
+ * POST /api/ask responds with Server-Sent Events; each `data:` line is one
+ * of these JSON objects, in order: citations, any number of deltas, then
+ * done (or error).
+ */
+export type AskStreamEvent =
+  | { type: 'citations'; citations: AskCitation[] }
+  | { type: 'delta'; text: string }
+  | { type: 'done'; model: string | null }
+  | { type: 'error'; code: string; message: string };
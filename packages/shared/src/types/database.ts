@@ -11,8 +11,9 @@
  */
 
 import { Document, DocumentStatus } from './document.js';
-import { Group, GroupType } from './group.js';
+import { Group, GroupType, GroupColor, GroupIcon } from './group.js';
 import { DocumentGroup } from './group.js';
+import { DocumentType } from './metadata.js';
 
 /**
  * Database Row Types
@@ -42,7 +43,7 @@ export type DocumentGroupRow = DocumentGroup;
 /**
  * Re-export enums for convenience
  */
-export { DocumentStatus, GroupType };
+export { DocumentStatus, GroupType, GroupColor, GroupIcon, DocumentType };
 
 /**
  * Type Guards
@@ -63,3 +64,24 @@ export function isDocumentStatus(value: string): value is DocumentStatus {
 export function isGroupType(value: string): value is GroupType {
   return Object.values(GroupType).includes(value as GroupType);
 }
+
+/**
+ * Validates if a string is a valid GroupColor
+ */
+export function isGroupColor(value: string): value is GroupColor {
+  return Object.values(GroupColor).includes(value as GroupColor);
+}
+
+/**
+ * Validates if a string is a valid GroupIcon
+ */
+export function isGroupIcon(value: string): value is GroupIcon {
+  return Object.values(GroupIcon).includes(value as GroupIcon);
+}
+
+/**
+ * Validates if a string is a valid DocumentType
+ */
+export function isDocumentType(value: string): value is DocumentType {
+  return Object.values(DocumentType).includes(value as DocumentType);
+}
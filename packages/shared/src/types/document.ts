@@ -1,3 +1,5 @@
+import type { DocumentMetadata } from './metadata.js';
+
 /**
  * Document Status Enum
  * 
@@ -31,6 +33,51 @@ export enum ContentSource {
   USER_MODIFIED = 'user_modified',
 }
 
+/**
+ * Processing Coverage Enum
+ * 
+ * Records how much of the extracted text was seen by the AI model.
+ * 
+ * - FULL: Every chunk of the document was processed
+ * - PARTIAL: The document exceeded the chunk budget for its size class and
+ *   only the leading portion was processed
+ */
+export enum ProcessingCoverage {
+  FULL = 'full',
+  PARTIAL = 'partial',
+}
+
+/**
+ * Processing Stage Enum
+ * 
+ * Step of the processing pipeline, recorded when processing fails.
+ * 
+ * - DOWNLOAD: Fetching the original file from storage
+ * - EXTRACT: Extracting text from the file
+ * - AI: Generating summary and markdown with the AI model
+ * - EMBED: Computing and storing chunk embeddings for semantic search
+ * - SAVE: Writing results or status to the database
+ */
+export enum ProcessingStage {
+  DOWNLOAD = 'download',
+  EXTRACT = 'extract',
+  AI = 'ai',
+  EMBED = 'embed',
+  SAVE = 'save',
+}
+
+/**
+ * OCR result for one page of a PDF
+ * 
+ * Pages with no text layer (or too little of it) are rendered and read by
+ * OCR. confidence is the mean word confidence reported by the OCR engine.
+ */
+export interface OcrPage {
+  page: number; // 1-based page number
+  confidence: number; // 0-100
+  chars: number; // Characters of text read from the page
+}
+
 /**
  * Document Type
  * 
@@ -41,6 +88,18 @@ export enum ContentSource {
  * - summary and markdown are populated by AI processing (null until READY)
  * - summary_source and markdown_source track whether content is AI-generated or user-modified
  * - ai_model identifies which model/version was used for processing
+ * - processing_coverage, processed_chars and total_chars describe how much of
+ *   the extracted text the AI saw (null until processing completes)
+ * - failure_* fields describe the most recent failed attempt and are cleared
+ *   when a new attempt starts
+ * - content_hash is the SHA-256 of the uploaded bytes; documents linked to a
+ *   duplicate share its storage_path
+ * - storage_path, content_hash, summary and markdown belong to the current
+ *   version; earlier versions are in document_versions
+ * - suggested_tags holds AI tag proposals only; applied tags are in document_tags
+ * - metadata holds facts extracted by the AI for the current version
+ * - ocr_pages lists the pages of the current version whose text came from
+ *   OCR; null or empty when all text came from the file's text layer
  * - All timestamps are in UTC
  * 
  * This type matches the PostgreSQL `documents` table schema exactly.
@@ -49,12 +108,28 @@ export interface Document {
   id: string; // UUID
   name: string;
   storage_path: string;
+  content_hash?: string | null; // SHA-256 of the file (hex), null for documents uploaded before hashing
+  current_version?: number; // Version number of the current file (starts at 1)
   summary: string | null; // Summary content, null until processing completes
   markdown: string | null; // Markdown content, null until processing completes
   summary_source?: ContentSource; // Source of summary: ai_generated or user_modified (defaults to ai_generated)
   markdown_source?: ContentSource; // Source of markdown: ai_generated or user_modified (defaults to ai_generated)
   status: DocumentStatus;
   ai_model: string | null; // Model identifier (e.g., "gpt-4", "claude-3"), null until processing starts
+  processing_coverage?: ProcessingCoverage | null; // Whether the whole document was processed
+  processed_chars?: number | null; // Characters of extracted text sent to the AI
+  total_chars?: number | null; // Characters of extracted text available
+  failure_code?: string | null; // Machine-readable failure code (e.g., "AI_RATE_LIMITED")
+  failure_message?: string | null; // Human-readable failure reason
+  failure_stage?: ProcessingStage | null; // Pipeline stage that failed
+  failed_at?: string | null; // ISO 8601 timestamp of the most recent failure
+  processing_attempts?: number; // Number of processing attempts started
+  processing_started_at?: string | null; // ISO 8601 timestamp of the most recent attempt
+  processing_completed_at?: string | null; // ISO 8601 timestamp of the most recent success
+  suggested_tags?: string[]; // AI-proposed tag names awaiting accept or reject
+  metadata?: DocumentMetadata | null; // Extracted type, dates, parties, amounts and language; null until READY
+  estimated_pages?: number | null; // Page estimate of the current file, counted against the page quota
+  ocr_pages?: OcrPage[] | null; // Pages read by OCR with their confidence; null until READY
   created_at: string; // ISO 8601 timestamp
 }
 
@@ -0,0 +1,116 @@
+/**
+ * Document formats
+ *
+ * The extension picks the format; the MIME type must be one the format
+ * lists, or missing/generic. A specific MIME type of another format is
+ * refused.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  ACCEPTED_EXTENSIONS,
+  DOCUMENT_ACCEPT,
+  DOCUMENT_FORMATS,
+  describeAcceptedFormats,
+  findDocumentFormat,
+  getFileExtension,
+  isAcceptedFile,
+} from './format.js';
+
+const XLSX_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+describe('getFileExtension', () => {
+  it('returns the lowercase last extension with its dot', () => {
+    expect(getFileExtension('Report.Final.PDF')).toBe('.pdf');
+  });
+
+  it('returns nothing for names without an extension or hidden files', () => {
+    expect(getFileExtension('README')).toBe('');
+    expect(getFileExtension('.eml')).toBe('');
+  });
+});
+
+describe('findDocumentFormat', () => {
+  it.each([
+    ['letter.rtf', 'rtf'],
+    ['data.CSV', 'csv'],
+    ['budget.xlsx', 'xlsx'],
+    ['deck.pptx', 'pptx'],
+    ['message.eml', 'eml'],
+    ['notes.markdown', 'markdown'],
+    ['page.htm', 'html'],
+  ])('finds the format of %s', (filename, id) => {
+    expect(findDocumentFormat(filename)?.id).toBe(id);
+  });
+
+  it.each(['archive.zip', 'budget.xls', 'deck.ppt', 'message.msg', 'README', 'invoice.pdf.exe'])(
+    'finds no format for %s',
+    (filename) => {
+      expect(findDocumentFormat(filename)).toBeNull();
+    }
+  );
+
+  it('maps every extension to exactly one format', () => {
+    expect(new Set(ACCEPTED_EXTENSIONS).size).toBe(ACCEPTED_EXTENSIONS.length);
+  });
+});
+
+describe('isAcceptedFile', () => {
+  it.each(DOCUMENT_FORMATS.flatMap((format) => format.mimeTypes.map((type) => [format.extensions[0], type])))(
+    'accepts %s files sent as %s',
+    (extension, type) => {
+      expect(isAcceptedFile(`file${extension}`, type)).toBe(true);
+    }
+  );
+
+  it('ignores MIME type parameters and case', () => {
+    expect(isAcceptedFile('data.csv', 'Text/CSV; charset=utf-8')).toBe(true);
+  });
+
+  it.each([
+    ['no MIME type', undefined],
+    ['a null MIME type', null],
+    ['an empty MIME type', ''],
+    ['application/octet-stream', 'application/octet-stream'],
+  ])('falls back to the extension with %s', (_, type) => {
+    for (const extension of ACCEPTED_EXTENSIONS) {
+      expect(isAcceptedFile(`file${extension}`, type)).toBe(true);
+    }
+  });
+
+  it('refuses an unsupported extension whatever the MIME type', () => {
+    expect(isAcceptedFile('archive.zip', 'application/octet-stream')).toBe(false);
+    expect(isAcceptedFile('archive.zip', '')).toBe(false);
+    expect(isAcceptedFile('README', 'text/plain')).toBe(false);
+  });
+
+  it("refuses a specific MIME type the extension's format doesn't list", () => {
+    expect(isAcceptedFile('budget.xlsx', 'application/pdf')).toBe(false);
+    expect(isAcceptedFile('invoice.pdf', XLSX_TYPE)).toBe(false);
+    expect(isAcceptedFile('deck.pptx', 'text/plain')).toBe(false);
+    expect(isAcceptedFile('message.eml', 'text/html')).toBe(false);
+    expect(isAcceptedFile('letter.rtf', 'application/msword')).toBe(false);
+  });
+
+  it('accepts the types browsers report for CSV and Markdown files', () => {
+    expect(isAcceptedFile('data.csv', 'application/vnd.ms-excel')).toBe(true);
+    expect(isAcceptedFile('data.csv', 'text/plain')).toBe(true);
+    expect(isAcceptedFile('notes.md', 'text/plain')).toBe(true);
+    expect(isAcceptedFile('notes.md', 'text/x-markdown')).toBe(true);
+  });
+});
+
+describe('accept list and descriptions', () => {
+  it('lists every extension and MIME type for the file picker', () => {
+    const accepted = DOCUMENT_ACCEPT.split(',');
+
+    for (const format of DOCUMENT_FORMATS) {
+      expect(accepted).toEqual(expect.arrayContaining([...format.extensions, ...format.mimeTypes]));
+    }
+  });
+
+  it('names every format with its extensions', () => {
+    expect(describeAcceptedFormats()).toContain('Excel (.xlsx)');
+    expect(describeAcceptedFormats()).toContain('Markdown (.md, .markdown)');
+  });
+});
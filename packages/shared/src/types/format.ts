@@ -0,0 +1,129 @@
+/**
+ * Document Formats
+ * 
+ * The file formats that can be uploaded. This registry is the single
+ * source for upload validation in the API, the extractor chosen for each
+ * file, and the file picker's accept list in the web app.
+ * 
+ * Assumptions:
+ * - The extension decides the format; the MIME type must be one the format
+ *   lists, or missing/generic, because browsers don't know every type
+ *   (e.g. .md and .eml files often arrive without one)
+ * - Extensions are lowercase and include the leading dot
+ */
+
+/**
+ * Identifier of a supported format
+ */
+export type DocumentFormatId =
+  | 'pdf'
+  | 'docx'
+  | 'doc'
+  | 'text'
+  | 'markdown'
+  | 'html'
+  | 'rtf'
+  | 'csv'
+  | 'xlsx'
+  | 'pptx'
+  | 'eml';
+
+/**
+ * Document Format
+ */
+export interface DocumentFormat {
+  id: DocumentFormatId;
+  label: string; // Shown in messages, e.g. "Word"
+  extensions: readonly string[];
+  mimeTypes: readonly string[];
+}
+
+export const DOCUMENT_FORMATS: readonly DocumentFormat[] = [
+  { id: 'pdf', label: 'PDF', extensions: ['.pdf'], mimeTypes: ['application/pdf'] },
+  {
+    id: 'docx',
+    label: 'Word',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document'],
+  },
+  { id: 'doc', label: 'Word 97-2003', extensions: ['.doc'], mimeTypes: ['application/msword'] },
+  { id: 'text', label: 'Plain text', extensions: ['.txt'], mimeTypes: ['text/plain'] },
+  {
+    id: 'markdown',
+    label: 'Markdown',
+    extensions: ['.md', '.markdown'],
+    mimeTypes: ['text/markdown', 'text/x-markdown', 'text/plain'],
+  },
+  { id: 'html', label: 'HTML', extensions: ['.html', '.htm'], mimeTypes: ['text/html', 'application/xhtml+xml'] },
+  { id: 'rtf', label: 'RTF', extensions: ['.rtf'], mimeTypes: ['application/rtf', 'text/rtf'] },
+  {
+    id: 'csv',
+    label: 'CSV',
+    extensions: ['.csv'],
+    // Windows reports CSV files as Excel files
+    mimeTypes: ['text/csv', 'application/csv', 'text/plain', 'application/vnd.ms-excel'],
+  },
+  {
+    id: 'xlsx',
+    label: 'Excel',
+    extensions: ['.xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+  },
+  {
+    id: 'pptx',
+    label: 'PowerPoint',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation'],
+  },
+  { id: 'eml', label: 'Email', extensions: ['.eml'], mimeTypes: ['message/rfc822'] },
+];
+
+/**
+ * MIME types accepted for any format: none reported, or unknown binary
+ */
+export const GENERIC_MIME_TYPES: readonly string[] = ['', 'application/octet-stream'];
+
+export const ACCEPTED_EXTENSIONS: readonly string[] = DOCUMENT_FORMATS.flatMap((format) => format.extensions);
+
+export const ACCEPTED_MIME_TYPES: readonly string[] = [
+  ...new Set(DOCUMENT_FORMATS.flatMap((format) => format.mimeTypes)),
+];
+
+/**
+ * Value for a file input's accept attribute
+ */
+export const DOCUMENT_ACCEPT = [...ACCEPTED_EXTENSIONS, ...ACCEPTED_MIME_TYPES].join(',');
+
+/**
+ * Lowercase extension of a filename with its dot, or '' when it has none
+ */
+export function getFileExtension(filename: string): string {
+  const dot = filename.lastIndexOf('.');
+  return dot > 0 ? filename.substring(dot).toLowerCase() : '';
+}
+
+/**
+ * The format of a file, from its extension
+ * 
+ * @returns The format, or null when the extension isn't supported
+ */
+export function findDocumentFormat(filename: string): DocumentFormat | null {
+  const extension = getFileExtension(filename);
+  return DOCUMENT_FORMATS.find((format) => format.extensions.includes(extension)) ?? null;
+}
+
+/**
+ * Whether a file's extension and MIME type are accepted for upload
+ */
+export function isAcceptedFile(filename: string, mimeType: string | null | undefined): boolean {
+  const format = findDocumentFormat(filename);
+  const type = (mimeType || '').split(';')[0].trim().toLowerCase();
+  return format !== null && (format.mimeTypes.includes(type) || GENERIC_MIME_TYPES.includes(type));
+}
+
+/**
+ * Supported formats for messages, e.g. "PDF (.pdf), Word (.docx), ..."
+ */
+export function describeAcceptedFormats(): string {
+  return DOCUMENT_FORMATS.map((format) => `${format.label} (${format.extensions.join(', ')})`).join(', ');
+}
@@ -1,3 +1,5 @@
+import type { DocumentStatus } from './document.js';
+
 /**
  * Group Type Enum
  * 
@@ -15,6 +17,41 @@ export enum GroupType {
   SMART = 'SMART',
 }
 
+/**
+ * Group Color Enum
+ * 
+ * Accent color for a group's icon and badges. Values are palette names, not
+ * CSS colors, so each client can map them to its own theme.
+ */
+export enum GroupColor {
+  GRAY = 'gray',
+  RED = 'red',
+  ORANGE = 'orange',
+  AMBER = 'amber',
+  GREEN = 'green',
+  TEAL = 'teal',
+  BLUE = 'blue',
+  INDIGO = 'indigo',
+  PURPLE = 'purple',
+  PINK = 'pink',
+}
+
+/**
+ * Group Icon Enum
+ * 
+ * Icon shown next to a group's name. Values are icon names rendered by the client.
+ */
+export enum GroupIcon {
+  FOLDER = 'folder',
+  BRIEFCASE = 'briefcase',
+  DOCUMENT = 'document',
+  STAR = 'star',
+  FLAG = 'flag',
+  TAG = 'tag',
+  USERS = 'users',
+  ARCHIVE = 'archive',
+}
+
 /**
  * Group Type
  * 
@@ -24,6 +61,8 @@ export enum GroupType {
  * Assumptions:
  * - type determines how the group was created and behaves
  * - Groups can be empty (no documents assigned yet)
+ * - Groups form a tree through parent_id; a group is never its own ancestor
+ * - Names are unique per user, ignoring case
  * - All timestamps are in UTC
  * 
  * This type matches the PostgreSQL `groups` table schema exactly.
@@ -31,10 +70,45 @@ export enum GroupType {
 export interface Group {
   id: string; // UUID
   name: string;
+  description?: string | null;
+  color?: GroupColor | null; // null uses the client's default color
+  icon?: GroupIcon | null; // null uses the client's default icon
   type: GroupType;
+  parent_id?: string | null; // UUID of the parent group; null for top-level groups
+  rules?: SmartGroupRules | null; // Set for SMART groups only
   created_at: string; // ISO 8601 timestamp
 }
 
+/**
+ * Smart Group Rules
+ * 
+ * A document belongs to a smart group when it matches every rule that is
+ * set. At least one rule is required. Membership is re-evaluated whenever
+ * the user's documents change, so it can't be edited by hand.
+ * 
+ * Assumptions:
+ * - Dates are calendar days (YYYY-MM-DD) in UTC; both ends are inclusive
+ * - query uses the same syntax as GET /api/documents/search
+ * - similar_to compares embeddings, so only processed documents match it
+ */
+export interface SmartGroupRules {
+  name_pattern?: string; // Case-insensitive; * matches any text and ? one character. Without wildcards, matches anywhere in the name
+  statuses?: DocumentStatus[];
+  created_from?: string; // YYYY-MM-DD
+  created_to?: string; // YYYY-MM-DD
+  query?: string; // Keyword query over name, summary and markdown
+  tag_ids?: string[]; // UUIDs of tags; documents must carry all of them
+  similar_to?: SmartGroupSimilarityRule;
+}
+
+/**
+ * Similarity to a seed document
+ */
+export interface SmartGroupSimilarityRule {
+  document_id: string; // UUID of the seed document, which is always a member
+  min_similarity?: number; // 0-1, defaults to 0.75
+}
+
 /**
  * Group Input (for creating new groups)
  * 
@@ -44,8 +118,34 @@ export interface GroupInput {
   name: string;
   type?: GroupType; // Defaults to GroupType.MANUAL if not provided
   description?: string; // Optional description
+  color?: GroupColor;
+  icon?: GroupIcon;
+  rules?: SmartGroupRules; // Required when type is SMART
+  parent_id?: string | null; // Creates the group inside this group
 }
 
+/**
+ * Group Update
+ * 
+ * Fields accepted by PATCH /api/groups/:id. Omitted fields are unchanged.
+ * A new name must not match another of the user's groups, ignoring case.
+ */
+export interface GroupUpdate {
+  name?: string;
+  description?: string | null; // null or an empty string clears it
+  color?: GroupColor | null; // null resets to the default
+  icon?: GroupIcon | null; // null resets to the default
+  parent_id?: string | null; // Moves the group; null moves it to the top level
+}
+
+/**
+ * What happens to a group's children when it is deleted
+ * 
+ * - cascade: Children and all their descendants are deleted too
+ * - reparent: Children move up to the deleted group's parent
+ */
+export type GroupChildrenAction = 'cascade' | 'reparent';
+
 /**
  * Document-Group Relationship
  * 
@@ -0,0 +1,66 @@
+/**
+ * Job Status Enum
+ * 
+ * Lifecycle of a background processing job.
+ * 
+ * - QUEUED: Waiting for a worker (possibly until run_at after a backoff)
+ * - RUNNING: Claimed by a worker, which sends periodic heartbeats
+ * - SUCCEEDED: Completed successfully
+ * - DEAD: Failed max_attempts times and was moved to the dead-letter state
+ * 
+ * This enum matches the CHECK constraint on `processing_jobs.status`.
+ */
+export enum JobStatus {
+  QUEUED = 'queued',
+  RUNNING = 'running',
+  SUCCEEDED = 'succeeded',
+  DEAD = 'dead',
+}
+
+/**
+ * Job Type Enum
+ * 
+ * - PROCESS: Full AI processing of a document (summary + markdown)
+ * - REGENERATE_SUMMARY: Regenerate only the summary
+ * - REGENERATE_MARKDOWN: Regenerate only the markdown
+ * - RUN_TEMPLATES: Run the document's extraction templates again
+ */
+export enum JobType {
+  PROCESS = 'process',
+  REGENERATE_SUMMARY = 'regenerate_summary',
+  REGENERATE_MARKDOWN = 'regenerate_markdown',
+  RUN_TEMPLATES = 'run_templates',
+}
+
+/**
+ * Processing Job Type
+ * 
+ * A persisted unit of background work for a document.
+ * 
+ * Assumptions:
+ * - At most one QUEUED/RUNNING job exists per document and job type
+ * - attempts is incremented each time a worker claims the job
+ * - heartbeat_at is refreshed while RUNNING; stale jobs are re-queued by the reaper
+ * - Jobs with requires_ocr are only claimed by workers that can run OCR
+ * - All timestamps are in UTC
+ * 
+ * This type matches the PostgreSQL `processing_jobs` table schema.
+ */
+export interface ProcessingJob {
+  id: string; // UUID
+  document_id: string; // UUID
+  user_id: string; // UUID of the document owner
+  type: JobType;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: string; // ISO 8601 timestamp, earliest time the job may be claimed
+  locked_by: string | null; // Worker ID holding the job
+  locked_at: string | null; // ISO 8601 timestamp
+  heartbeat_at: string | null; // ISO 8601 timestamp
+  last_error: string | null; // Error message from the most recent failed attempt
+  requires_ocr: boolean; // Handed off by a worker without OCR; waits for one that has it
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+  completed_at: string | null; // ISO 8601 timestamp
+}
@@ -0,0 +1,82 @@
+/**
+ * Document Metadata Types
+ * 
+ * Structured facts the AI extracts alongside the summary and markdown.
+ * Stored in documents.metadata, shown in the document's Details tab and
+ * filterable in GET /api/documents/search.
+ */
+
+/**
+ * Document Type Enum
+ * 
+ * The kind of document, as classified by the AI. OTHER is used when no
+ * specific type fits.
+ */
+export enum DocumentType {
+  INVOICE = 'invoice',
+  RECEIPT = 'receipt',
+  CONTRACT = 'contract',
+  REPORT = 'report',
+  LETTER = 'letter',
+  FORM = 'form',
+  STATEMENT = 'statement',
+  RESUME = 'resume',
+  PRESENTATION = 'presentation',
+  ARTICLE = 'article',
+  OTHER = 'other',
+}
+
+/**
+ * Key Date Kind
+ * 
+ * The dates recorded for a document. Each kind holds at most one date.
+ * 
+ * - issued: Date the document was written, issued or published
+ * - effective: Date an agreement or policy takes effect
+ * - due: Payment or response deadline
+ * - expires: Date an agreement, offer or certificate ends
+ * - signed: Date the document was signed
+ */
+export type KeyDateKind = 'issued' | 'effective' | 'due' | 'expires' | 'signed';
+
+export const KEY_DATE_KINDS: readonly KeyDateKind[] = ['issued', 'effective', 'due', 'expires', 'signed'];
+
+/**
+ * Metadata Party
+ * 
+ * A person or organization named in the document.
+ */
+export interface MetadataParty {
+  name: string;
+  role: string | null; // e.g. "vendor", "customer", "landlord", "author"
+}
+
+/**
+ * Metadata Amount
+ * 
+ * A monetary amount stated in the document.
+ */
+export interface MetadataAmount {
+  value: number;
+  currency: string | null; // ISO 4217 code (e.g. "USD"), null when not stated
+  label: string | null; // What the amount is, e.g. "total due"
+}
+
+/**
+ * Document Metadata
+ * 
+ * Assumptions:
+ * - Dates are calendar dates in YYYY-MM-DD form
+ * - language is an ISO 639-1 code (e.g. "en"), null when undetermined
+ * - Lists are empty, never null, when nothing was found
+ * 
+ * Null on Document.metadata until processing completes, or when extraction
+ * returned nothing usable.
+ */
+export interface DocumentMetadata {
+  document_type: DocumentType;
+  language: string | null;
+  dates: Partial<Record<KeyDateKind, string>>;
+  parties: MetadataParty[];
+  amounts: MetadataAmount[];
+}
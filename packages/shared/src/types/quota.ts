@@ -0,0 +1,52 @@
+/**
+ * AI Quota Types
+ * 
+ * Per-user limits on AI work, checked before a document is processed or
+ * regenerated and before group suggestions are requested.
+ * 
+ * Flow:
+ * - Uploads over quota are stored and stay UPLOADED, with failure_code
+ *   QUOTA_EXCEEDED, instead of being queued; retrying queues them once
+ *   there is allowance again
+ * - Retries, regenerations and group suggestions over quota are rejected
+ *   with 429 QUOTA_EXCEEDED (details: QuotaExceededDetails)
+ */
+
+import { DocumentStatus } from './document.js';
+import type { Document } from './document.js';
+
+/**
+ * Error code of over-quota requests, and failure_code of uploads waiting
+ * for allowance
+ */
+export const QUOTA_EXCEEDED = 'QUOTA_EXCEEDED';
+
+export type QuotaLimit = 'documents_per_day' | 'pages_per_month' | 'spend_per_month_usd';
+
+/**
+ * One limit and how much of it is left
+ */
+export interface QuotaAllowance {
+  limit: number | null; // null when unlimited
+  used: number;
+  remaining: number | null; // null when unlimited
+  resets_at: string; // ISO 8601 timestamp of the next UTC day or month
+}
+
+export type QuotaStatus = Record<QuotaLimit, QuotaAllowance>;
+
+/**
+ * Details of a QUOTA_EXCEEDED error
+ */
+export interface QuotaExceededDetails {
+  exceeded: QuotaLimit[];
+  allowance: QuotaStatus;
+}
+
+/**
+ * Whether a document was uploaded over quota and is waiting to be retried
+ * (it isn't queued, so there is nothing to poll for)
+ */
+export function isAwaitingQuota(document: Pick<Document, 'status' | 'failure_code'>): boolean {
+  return document.status === DocumentStatus.UPLOADED && document.failure_code === QUOTA_EXCEEDED;
+}
@@ -0,0 +1,53 @@
+/**
+ * Content Revision Types
+ * 
+ * Server-side history of a document's summary and markdown. Every AI
+ * generation and every user edit appends a revision; any revision of the
+ * current version can be restored.
+ * 
+ * Flow:
+ * - GET /api/documents/:id/revisions?field=summary lists revisions, newest first
+ * - POST /api/documents/:id/revisions/:revisionId/restore writes a
+ *   revision's content back and records the restore as a new revision
+ */
+
+import type { ContentSource } from './document.js';
+import type { PaginatedResponse, PaginationParams } from './api.js';
+
+/**
+ * Editable AI content field
+ */
+export type ContentField = 'summary' | 'markdown';
+
+/**
+ * Content Revision
+ * 
+ * Assumptions:
+ * - The newest revision of a field matches the document's current content
+ * - author_id is the user who made the edit or whose document was processed
+ * - ai_model is set for AI-generated revisions only
+ * 
+ * This type matches the PostgreSQL `content_revisions` table schema.
+ */
+export interface ContentRevision {
+  id: string; // UUID
+  document_id: string; // UUID
+  version_number: number; // Document version the content belongs to
+  field: ContentField;
+  content: string | null;
+  source: ContentSource;
+  ai_model: string | null;
+  author_id: string; // UUID
+  restored_from: string | null; // Revision this one restored, if any
+  created_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Revision list query parameters
+ */
+export interface ContentRevisionsParams extends PaginationParams {
+  field?: ContentField; // Omit for both fields
+  version?: number; // Document version; defaults to the current version
+}
+
+export type ContentRevisionsResponse = PaginatedResponse<ContentRevision>;
@@ -0,0 +1,43 @@
+import type { Document } from './document.js';
+import type { PaginatedResponse } from './api.js';
+
+/**
+ * Search Mode
+ * 
+ * - keyword: Full-text search with stemming, phrases, exclusions and prefixes
+ * - semantic: Embedding similarity; matches by meaning rather than exact words
+ */
+export type SearchMode = 'keyword' | 'semantic';
+
+/**
+ * Search Snippet Segment
+ * 
+ * A piece of a search snippet. Highlighted segments contain text that
+ * matched the query. Rendering segments (rather than HTML) keeps document
+ * content from being interpreted as markup.
+ */
+export interface SearchSnippetSegment {
+  text: string;
+  highlighted: boolean;
+}
+
+/**
+ * Document Search Result
+ * 
+ * A document returned by GET /api/documents/search or
+ * GET /api/documents/:id/similar. When a text query is given, results are
+ * ordered by rank and include a snippet; filter-only searches return plain
+ * documents.
+ */
+export interface DocumentSearchResult extends Document {
+  rank?: number; // Relevance score (higher is better); cosine similarity for semantic results
+  snippet?: SearchSnippetSegment[] | null; // Highlighted excerpt (keyword) or best-matching passage (semantic)
+}
+
+/**
+ * Document Search Response
+ * 
+ * Keyword and filter-only searches are paginated with next_cursor.
+ * Semantic searches return a single page of the closest matches.
+ */
+export type DocumentSearchResponse = PaginatedResponse<DocumentSearchResult>;
@@ -0,0 +1,48 @@
+/**
+ * Tag Types
+ * 
+ * Free-form labels for documents. Tags are lighter than groups: they have
+ * only a name, and are created on the fly when first applied.
+ * 
+ * Flow:
+ * - GET /api/tags lists the user's tags with usage counts (for autocomplete)
+ * - POST /api/documents/:id/tags applies a tag by name, creating it if needed
+ * - Processing proposes tags in Document.suggested_tags; applying a suggested
+ *   tag accepts it, DELETE /api/documents/:id/suggested-tags/:name rejects it
+ */
+
+/**
+ * Tag
+ * 
+ * Assumptions:
+ * - Names are unique per user, ignoring case, and at most 50 characters
+ * - All timestamps are in UTC
+ * 
+ * This type matches the PostgreSQL `tags` table schema.
+ */
+export interface Tag {
+  id: string; // UUID
+  name: string;
+  created_at: string; // ISO 8601 timestamp
+  document_count?: number; // Documents carrying the tag; set by GET /api/tags
+}
+
+/**
+ * Tag Input
+ * 
+ * Body of POST /api/tags, PATCH /api/tags/:id and POST /api/documents/:id/tags.
+ */
+export interface TagInput {
+  name: string;
+}
+
+/**
+ * Document Tags
+ * 
+ * Tags applied to a document and the AI's pending suggestions. Suggestions
+ * never include a tag the document already carries.
+ */
+export interface DocumentTags {
+  tags: Tag[]; // Sorted by name
+  suggested: string[]; // Proposed tag names awaiting accept or reject
+}
@@ -0,0 +1,149 @@
+/**
+ * Extraction Template Types
+ * 
+ * User-defined processing passes that run alongside the default summary
+ * and markdown. A template has instructions (prompt), a JSON schema the
+ * output must match, and a layout describing how to display the output.
+ * 
+ * Flow:
+ * - Templates are managed with /api/templates
+ * - They are assigned to documents (at upload, or with
+ *   PUT /api/documents/:id/templates) and to groups
+ *   (PUT /api/groups/:id/templates); a document runs its own templates and
+ *   those of the groups it belongs to
+ * - Processing runs the assigned templates and stores one result per
+ *   template; POST /api/documents/:id/templates/run runs them again
+ */
+
+/**
+ * Template Schema
+ * 
+ * The JSON Schema subset templates may use for their output. The root must
+ * be an object; properties not in the schema are dropped from results.
+ */
+export interface TemplateSchema {
+  type: TemplateSchemaType;
+  description?: string;
+  enum?: string[]; // Allowed values, for string fields
+  items?: TemplateSchema; // Element schema, for arrays
+  properties?: Record<string, TemplateSchema>; // Field schemas, for objects
+  required?: string[]; // Fields that must be present, for objects
+}
+
+export type TemplateSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+
+/**
+ * How a layout section displays its field
+ * 
+ * - text: A single value as a paragraph
+ * - list: An array as a bulleted list
+ * - table: An array of objects as a table, one column per property
+ * - fields: An object as label/value pairs
+ */
+export type TemplateDisplay = 'text' | 'list' | 'table' | 'fields';
+
+/**
+ * Template Layout Section
+ * 
+ * Shows one top-level field of the output.
+ */
+export interface TemplateLayoutSection {
+  field: string; // Property of the output schema
+  label: string;
+  display: TemplateDisplay;
+}
+
+/**
+ * Template Layout
+ * 
+ * Sections in display order. When a template is saved without a layout,
+ * one section is derived per top-level property.
+ */
+export interface TemplateLayout {
+  sections: TemplateLayoutSection[];
+}
+
+/**
+ * Extraction Template
+ * 
+ * Assumptions:
+ * - Names are unique per user, ignoring case, and at most 100 characters
+ * - prompt is at most 4000 characters
+ * - All timestamps are in UTC
+ * 
+ * This type matches the PostgreSQL `extraction_templates` table schema.
+ */
+export interface ExtractionTemplate {
+  id: string; // UUID
+  name: string;
+  description: string | null;
+  prompt: string; // Instructions for the AI
+  output_schema: TemplateSchema;
+  layout: TemplateLayout;
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+}
+
+/**
+ * Extraction Template Input
+ * 
+ * Body of POST /api/templates. PATCH /api/templates/:id accepts any subset.
+ */
+export interface ExtractionTemplateInput {
+  name: string;
+  description?: string | null;
+  prompt: string;
+  output_schema: TemplateSchema;
+  layout?: TemplateLayout | null; // Derived from output_schema when omitted
+}
+
+/**
+ * Template Result Status
+ * 
+ * - succeeded: output matches the template's schema
+ * - failed: the AI call failed or its output didn't match; see error
+ */
+export type TemplateResultStatus = 'succeeded' | 'failed';
+
+/**
+ * Template Result
+ * 
+ * The latest output of one template for one document.
+ * 
+ * This type matches the PostgreSQL `template_results` table schema.
+ */
+export interface TemplateResult {
+  id: string; // UUID
+  document_id: string; // UUID
+  template_id: string; // UUID
+  status: TemplateResultStatus;
+  output: Record<string, unknown> | null; // Validated output, null when failed
+  error: string | null; // Why the run failed
+  model: string | null; // AI model identifier
+  truncated: boolean; // Only the start of a long document was sent
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp of the latest run
+}
+
+/**
+ * Document Templates
+ * 
+ * Templates that run for a document and their latest results. Response of
+ * GET and PUT /api/documents/:id/templates.
+ */
+export interface DocumentTemplates {
+  template_ids: string[]; // Assigned to the document itself
+  group_template_ids: string[]; // Assigned to a group the document belongs to
+  templates: ExtractionTemplate[]; // Every template listed above, sorted by name
+  results: TemplateResult[];
+}
+
+/**
+ * Template Assignment Input
+ * 
+ * Body of PUT /api/documents/:id/templates and PUT /api/groups/:id/templates.
+ * Replaces the current assignments.
+ */
+export interface TemplateAssignmentInput {
+  template_ids: string[];
+}
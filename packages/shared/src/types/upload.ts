@@ -0,0 +1,79 @@
+/**
+ * Upload Session Types
+ * 
+ * Resumable, chunked uploads for large files.
+ * 
+ * Flow:
+ * 1. POST /api/uploads with the file's name, type and size
+ * 2. PUT /api/uploads/:id/chunks/:index for each chunk (any order, retries are safe)
+ * 3. POST /api/uploads/:id/complete to assemble the file and create the document
+ * 
+ * After an interrupted upload, GET /api/uploads/:id reports which chunks
+ * already arrived so only the missing ones are re-sent.
+ */
+
+import type { Document } from './document.js';
+
+/**
+ * Upload Session
+ * 
+ * This type matches the PostgreSQL `upload_sessions` table schema.
+ */
+export interface UploadSession {
+  id: string; // UUID
+  user_id: string; // UUID of the uploader
+  filename: string; // Original filename
+  content_type: string; // MIME type reported by the client
+  size: number; // Total file size in bytes
+  chunk_size: number; // Bytes per chunk; only the last chunk may be smaller
+  total_chunks: number;
+  received_chunks: number[]; // Indexes of stored chunks, ascending
+  document_id: string | null; // Set once the upload is completed
+  created_at: string; // ISO 8601 timestamp
+  updated_at: string; // ISO 8601 timestamp
+  expires_at: string; // ISO 8601 timestamp; incomplete sessions are removed after this
+}
+
+/**
+ * Create Upload Session Request
+ * 
+ * Validated with the same MIME type, extension and size rules as
+ * single-request uploads.
+ */
+export interface CreateUploadSessionRequest {
+  filename: string;
+  content_type: string;
+  size: number; // Bytes
+}
+
+/**
+ * What to do when an upload has the same content as an existing document
+ * 
+ * - link: create a document that reuses the existing one's file, summary
+ *   and markdown without processing it again (the existing document must
+ *   be READY)
+ * - skip: don't create anything; the existing document is returned
+ * - new_version: store the file as a new version of the existing document
+ *   and process it again
+ * 
+ * Sent as the on_duplicate form field of POST /api/documents/upload or in
+ * the body of POST /api/uploads/:id/complete. Without it, a duplicate is
+ * rejected with 409 DUPLICATE_DOCUMENT.
+ */
+export type DuplicateAction = 'link' | 'skip' | 'new_version';
+
+/**
+ * Details of a 409 DUPLICATE_DOCUMENT error
+ */
+export interface DuplicateDocumentDetails {
+  existing_document: Document;
+  content_hash: string;
+}
+
+/**
+ * Complete Upload Session Request
+ */
+export interface CompleteUploadSessionRequest {
+  on_duplicate?: DuplicateAction;
+  template_ids?: string[]; // Extraction templates to assign to the document
+}
@@ -0,0 +1,79 @@
+/**
+ * AI Usage Types
+ * 
+ * Token counts and cost of the AI calls made for a user. Every call is
+ * recorded with its model and the price used to cost it.
+ * 
+ * Flow:
+ * - Processing, regeneration, tag and group suggestions, templates and
+ *   answers record one row per AI call in `ai_usage`
+ * - GET /api/usage?month=YYYY-MM reports the user's usage for a month
+ * - GET /api/usage?document_id=... reports a document's usage to date
+ */
+
+/**
+ * What an AI call was made for
+ */
+export type AIOperation =
+  | 'process'
+  | 'regenerate'
+  | 'suggest_tags'
+  | 'suggest_groups'
+  | 'template'
+  | 'answer';
+
+export const AI_OPERATION_LABELS: Record<AIOperation, string> = {
+  process: 'Processing',
+  regenerate: 'Regeneration',
+  suggest_tags: 'Tag suggestions',
+  suggest_groups: 'Group suggestions',
+  template: 'Templates',
+  answer: 'Answers',
+};
+
+/**
+ * Token counts and cost of a set of AI calls
+ */
+export interface UsageTotals {
+  calls: number;
+  input_tokens: number;
+  output_tokens: number;
+  cost_usd: number; // Calls to models without a known price count as 0
+}
+
+export interface OperationUsage extends UsageTotals {
+  operation: AIOperation;
+}
+
+export interface MonthlyUsage extends UsageTotals {
+  month: string; // YYYY-MM, UTC
+}
+
+export interface DocumentUsageTotals extends UsageTotals {
+  document_id: string;
+  document_name: string;
+}
+
+/**
+ * A user's usage for one month
+ * 
+ * Returned by GET /api/usage.
+ */
+export interface UsageReport {
+  month: string; // YYYY-MM, UTC
+  totals: UsageTotals;
+  by_operation: OperationUsage[];
+  top_documents: DocumentUsageTotals[]; // Most expensive documents of the month
+  recent_months: MonthlyUsage[]; // Up to 12 months ending with `month`, newest first
+}
+
+/**
+ * A document's usage to date, across all its versions
+ * 
+ * Returned by GET /api/usage?document_id=...
+ */
+export interface DocumentUsageReport {
+  document_id: string;
+  totals: UsageTotals;
+  by_operation: OperationUsage[];
+}
@@ -0,0 +1,54 @@
+/**
+ * Document Version Types
+ * 
+ * A document can receive new file revisions. The documents row always
+ * reflects the current version; every version, including the current one,
+ * is recorded in document_versions with its own file, summary and
+ * markdown.
+ * 
+ * Flow:
+ * - POST /api/documents/:id/versions with a file stores a new revision and
+ *   queues it for processing
+ * - GET /api/documents/:id/versions lists the versions, newest first
+ * - GET /api/documents/:id/versions/:version returns one version's content
+ */
+
+import type { DocumentStatus, ContentSource } from './document.js';
+
+/**
+ * Document Version
+ * 
+ * Assumptions:
+ * - version_number starts at 1 and increases by one per revision
+ * - storage_path of earlier versions is kept until the document is deleted
+ * - summary, markdown and status follow the document while this is the
+ *   current version, and are frozen once a newer version arrives
+ * 
+ * This type matches the PostgreSQL `document_versions` table schema.
+ */
+export interface DocumentVersion {
+  id: string; // UUID
+  document_id: string; // UUID
+  version_number: number;
+  filename: string; // Name of the uploaded file
+  storage_path: string;
+  content_hash: string | null; // SHA-256 of the file (hex)
+  uploaded_by: string; // UUID of the user who uploaded this revision
+  summary: string | null;
+  markdown: string | null;
+  summary_source: ContentSource | null;
+  markdown_source: ContentSource | null;
+  status: DocumentStatus;
+  ai_model: string | null;
+  created_at: string; // ISO 8601 timestamp of the upload
+}
+
+/**
+ * Version as listed in the history (without markdown)
+ */
+export type DocumentVersionInfo = Omit<DocumentVersion, 'markdown'>;
+
+/**
+ * Version with a signed URL for its file
+ */
+export type DocumentVersionWithUrl = DocumentVersion & { signed_url: string | null };
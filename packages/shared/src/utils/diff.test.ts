@@ -0,0 +1,188 @@
+/**
+ * Text diff
+ *
+ * Each side of a diff must rebuild exactly from its segments, and the edit
+ * script must be minimal for simple edits.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { diffText, diffWords } from './diff.js';
+import type { DiffLine, DiffSegment } from './diff.js';
+
+/**
+ * Rebuild one side of a line diff
+ */
+function rebuild(lines: DiffLine[], side: 'old' | 'new'): string {
+  return lines
+    .filter((line) => (side === 'old' ? line.old_number : line.new_number) !== null)
+    .map((line) => (side === 'old' ? line.old_segments : line.new_segments).map((segment) => segment.text).join(''))
+    .join('\n');
+}
+
+/**
+ * Rebuild one side of a word diff
+ */
+function rebuildWords(segments: DiffSegment[], side: 'old' | 'new'): string {
+  const skipped = side === 'old' ? 'insert' : 'delete';
+  return segments
+    .filter((segment) => segment.op !== skipped)
+    .map((segment) => segment.text)
+    .join('');
+}
+
+/**
+ * Deterministic pseudo-random text for round-trip checks
+ */
+function randomText(seed: number, lines: number): string {
+  let state = seed;
+  const next = () => {
+    state = (Math.imul(state, 1103515245) + 12345) >>> 0;
+    return state;
+  };
+  const words = ['alpha', 'beta', 'gamma', 'delta', '', '# heading', '- item', 'x, y.'];
+  return Array.from({ length: lines }, () => words[next() % words.length]).join('\n');
+}
+
+describe('diffText', () => {
+  it('is empty for two empty texts', () => {
+    expect(diffText('', '')).toEqual({ lines: [], additions: 0, deletions: 0 });
+  });
+
+  it('reports identical texts as unchanged lines', () => {
+    const diff = diffText('one\ntwo', 'one\ntwo');
+
+    expect(diff.additions).toBe(0);
+    expect(diff.deletions).toBe(0);
+    expect(diff.lines.map((line) => [line.type, line.old_number, line.new_number])).toEqual([
+      ['equal', 1, 1],
+      ['equal', 2, 2],
+    ]);
+  });
+
+  it('treats \\r\\n and \\n line endings as equal', () => {
+    expect(diffText('one\r\ntwo', 'one\ntwo').additions).toBe(0);
+  });
+
+  it('reports every line as inserted against an empty text', () => {
+    const diff = diffText('', 'one\ntwo');
+
+    expect(diff).toMatchObject({ additions: 2, deletions: 0 });
+    expect(diff.lines.map((line) => [line.type, line.old_number, line.new_number])).toEqual([
+      ['insert', null, 1],
+      ['insert', null, 2],
+    ]);
+  });
+
+  it('reports every line as deleted against an empty text', () => {
+    const diff = diffText('one\ntwo', '');
+
+    expect(diff).toMatchObject({ additions: 0, deletions: 2 });
+    expect(diff.lines.every((line) => line.type === 'delete' && line.new_number === null)).toBe(true);
+  });
+
+  it('marks only an inserted line as added', () => {
+    const diff = diffText('a\nb\nc\nd', 'a\nb\nnew\nc\nd');
+
+    expect(diff).toMatchObject({ additions: 1, deletions: 0 });
+    expect(diff.lines.map((line) => line.type)).toEqual(['equal', 'equal', 'insert', 'equal', 'equal']);
+    expect(diff.lines[2]).toMatchObject({ new_number: 3, new_segments: [{ op: 'insert', text: 'new' }] });
+    expect(diff.lines[3]).toMatchObject({ old_number: 3, new_number: 4 });
+  });
+
+  it('marks only a deleted line as removed', () => {
+    const diff = diffText('a\nb\nc\nd', 'a\nc\nd');
+
+    expect(diff).toMatchObject({ additions: 0, deletions: 1 });
+    expect(diff.lines.map((line) => line.type)).toEqual(['equal', 'delete', 'equal', 'equal']);
+    expect(diff.lines[1]).toMatchObject({ old_number: 2, old_segments: [{ op: 'delete', text: 'b' }] });
+  });
+
+  it('shows a similar replacement line as one changed line with word segments', () => {
+    const diff = diffText('Total due: 1,250 USD', 'Total due: 1,500 USD');
+
+    expect(diff).toMatchObject({ additions: 1, deletions: 1 });
+    expect(diff.lines).toHaveLength(1);
+    expect(diff.lines[0].type).toBe('change');
+    expect(diff.lines[0].old_segments).toContainEqual({ op: 'delete', text: '250' });
+    expect(diff.lines[0].new_segments).toContainEqual({ op: 'insert', text: '500' });
+  });
+
+  it('shows an unrelated replacement line as a delete and an insert', () => {
+    const diff = diffText('Quarterly revenue grew', 'Meeting adjourned at noon');
+
+    expect(diff.lines.map((line) => line.type)).toEqual(['delete', 'insert']);
+  });
+
+  it.each([
+    ['', ''],
+    ['same', 'same'],
+    ['', 'only new\n\nlines'],
+    ['only old\nlines', ''],
+    ['a\nb\nc', 'c\nb\na'],
+    ['trailing newline\n', 'trailing newline'],
+    ['# Title\n\nFirst paragraph.\n\n- one\n- two', '# Title\n\nFirst paragraph, edited.\n\n- two\n- three'],
+  ])('rebuilds both sides of %j → %j', (oldText, newText) => {
+    const diff = diffText(oldText, newText);
+
+    expect(rebuild(diff.lines, 'old')).toBe(oldText);
+    expect(rebuild(diff.lines, 'new')).toBe(newText);
+  });
+
+  it('rebuilds both sides of generated texts', () => {
+    for (let seed = 1; seed <= 25; seed++) {
+      const oldText = randomText(seed, 40);
+      const newText = randomText(seed * 7919, 40);
+      const diff = diffText(oldText, newText);
+
+      expect(rebuild(diff.lines, 'old')).toBe(oldText);
+      expect(rebuild(diff.lines, 'new')).toBe(newText);
+    }
+  });
+
+  it('rebuilds both sides when the edit script is too long to compute exactly', () => {
+    const oldText = Array.from({ length: 1200 }, (_, i) => `old ${i}`).join('\n');
+    const newText = Array.from({ length: 1200 }, (_, i) => `new ${i}`).join('\n');
+    const diff = diffText(`same\n${oldText}\nend`, `same\n${newText}\nend`);
+
+    expect(diff.lines[0].type).toBe('equal');
+    expect(diff.lines[diff.lines.length - 1].type).toBe('equal');
+    expect(rebuild(diff.lines, 'old')).toBe(`same\n${oldText}\nend`);
+    expect(rebuild(diff.lines, 'new')).toBe(`same\n${newText}\nend`);
+  });
+});
+
+describe('diffWords', () => {
+  it('returns no segments for two empty strings', () => {
+    expect(diffWords('', '')).toEqual([]);
+  });
+
+  it('returns one equal segment for identical strings', () => {
+    expect(diffWords('same text.', 'same text.')).toEqual([{ op: 'equal', text: 'same text.' }]);
+  });
+
+  it('reports a pure insert and a pure delete', () => {
+    expect(diffWords('', 'new words')).toEqual([{ op: 'insert', text: 'new words' }]);
+    expect(diffWords('old words', '')).toEqual([{ op: 'delete', text: 'old words' }]);
+  });
+
+  it('puts deleted text before the text that replaced it', () => {
+    expect(diffWords('pay in 30 days', 'pay in 45 days')).toEqual([
+      { op: 'equal', text: 'pay in ' },
+      { op: 'delete', text: '30' },
+      { op: 'insert', text: '45' },
+      { op: 'equal', text: ' days' },
+    ]);
+  });
+
+  it.each([
+    ['The quick brown fox.', 'The slow brown dog!'],
+    ['a, b, c', 'c, b, a'],
+    ['  leading and trailing  ', 'trailing'],
+    ['naïve café', 'naive cafe'],
+  ])('rebuilds both sides of %j → %j', (oldText, newText) => {
+    const segments = diffWords(oldText, newText);
+
+    expect(rebuildWords(segments, 'old')).toBe(oldText);
+    expect(rebuildWords(segments, 'new')).toBe(newText);
+  });
+});
@@ -0,0 +1,311 @@
+/**
+ * Text Diff
+ *
+ * Line and word diffs for comparing versions of a document's summary or
+ * markdown (e.g. AI output against a user edit, or two revisions). Lines
+ * are aligned with Myers' O(ND) shortest edit script, so inserting a line
+ * only marks that line as added. A removed line followed by a similar added
+ * line is reported as one changed line with word-level segments.
+ *
+ * Assumptions:
+ * - Line endings are normalized (\r\n and \n compare equal)
+ * - Edit scripts longer than MAX_EDIT_DISTANCE fall back to replacing the
+ *   differing middle wholesale, which keeps memory bounded for unrelated
+ *   texts
+ */
+
+/**
+ * Operation applied to a piece of text
+ */
+export type DiffOperation = 'equal' | 'insert' | 'delete';
+
+/**
+ * A run of text with one operation
+ */
+export interface DiffSegment {
+  op: DiffOperation;
+  text: string;
+}
+
+/**
+ * Kind of line in a text diff
+ *
+ * - equal: Unchanged
+ * - insert: Only in the new text
+ * - delete: Only in the old text
+ * - change: Edited in place; segments show the word changes
+ */
+export type DiffLineType = 'equal' | 'insert' | 'delete' | 'change';
+
+/**
+ * One line of a text diff
+ *
+ * old_segments hold equal and delete segments, new_segments equal and
+ * insert segments, so each side can be rendered on its own (side by side)
+ * or one after the other (unified).
+ */
+export interface DiffLine {
+  type: DiffLineType;
+  old_number: number | null; // 1-based line in the old text; null for inserts
+  new_number: number | null; // 1-based line in the new text; null for deletes
+  old_segments: DiffSegment[];
+  new_segments: DiffSegment[];
+}
+
+/**
+ * Line diff of two texts
+ */
+export interface TextDiff {
+  lines: DiffLine[];
+  additions: number; // Inserted and changed lines
+  deletions: number; // Deleted and changed lines
+}
+
+/**
+ * Longest edit script computed exactly; beyond this the differing middle
+ * is reported as deleted and re-inserted
+ */
+const MAX_EDIT_DISTANCE = 2000;
+
+/**
+ * Minimum share of unchanged characters for a removed and an added line to
+ * be shown as one changed line
+ */
+const CHANGE_SIMILARITY_THRESHOLD = 0.5;
+
+const WORD_PATTERN = /\s+|[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu;
+
+interface Edit {
+  op: DiffOperation;
+  value: string;
+}
+
+/**
+ * Myers' greedy shortest edit script between two sequences
+ *
+ * @returns The edits, or null if more than MAX_EDIT_DISTANCE are needed
+ */
+function shortestEditScript(a: string[], b: string[]): Edit[] | null {
+  const n = a.length;
+  const m = b.length;
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  // Furthest x reached on each diagonal before each step, for backtracking
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) {
+      return null;
+    }
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+
+      if (x >= n && y >= m) {
+        return backtrack(a, b, trace);
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Walk the trace back from the end to recover the edits
+ */
+function backtrack(a: string[], b: string[], trace: Int32Array[]): Edit[] {
+  const edits: Edit[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const at = (k: number) => previous[k + d + 1];
+    const k = x - y;
+    const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const previousX = at(previousK);
+    const previousY = previousX - previousK;
+
+    while (x > previousX && y > previousY) {
+      edits.push({ op: 'equal', value: a[x - 1] });
+      x--;
+      y--;
+    }
+    if (d > 0) {
+      if (x === previousX) {
+        edits.push({ op: 'insert', value: b[y - 1] });
+      } else {
+        edits.push({ op: 'delete', value: a[x - 1] });
+      }
+    }
+    x = previousX;
+    y = previousY;
+  }
+
+  return edits.reverse();
+}
+
+/**
+ * Edits turning one sequence into another
+ *
+ * The common prefix and suffix are matched first, so small edits to long
+ * texts stay cheap.
+ */
+function diffSequences(a: string[], b: string[]): Edit[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const middleA = a.slice(start, endA);
+  const middleB = b.slice(start, endB);
+  const middle = shortestEditScript(middleA, middleB) ?? [
+    ...middleA.map((value): Edit => ({ op: 'delete', value })),
+    ...middleB.map((value): Edit => ({ op: 'insert', value })),
+  ];
+
+  return [
+    ...a.slice(0, start).map((value): Edit => ({ op: 'equal', value })),
+    ...middle,
+    ...a.slice(endA).map((value): Edit => ({ op: 'equal', value })),
+  ];
+}
+
+/**
+ * Merge adjacent pieces with the same operation into segments
+ */
+function mergeSegments(pieces: Array<{ op: DiffOperation; text: string }>): DiffSegment[] {
+  const segments: DiffSegment[] = [];
+  for (const piece of pieces) {
+    const last = segments[segments.length - 1];
+    if (last && last.op === piece.op) {
+      last.text += piece.text;
+    } else {
+      segments.push({ op: piece.op, text: piece.text });
+    }
+  }
+  return segments;
+}
+
+function splitLines(text: string): string[] {
+  return text.length === 0 ? [] : text.split(/\r?\n/);
+}
+
+/**
+ * Word-level diff of two strings
+ *
+ * Text is split into words, whitespace runs and single punctuation marks.
+ *
+ * @returns Segments in reading order: equal text, and deleted text
+ *   followed by the inserted text that replaced it
+ */
+export function diffWords(oldText: string, newText: string): DiffSegment[] {
+  const edits = diffSequences(oldText.match(WORD_PATTERN) ?? [], newText.match(WORD_PATTERN) ?? []);
+  return mergeSegments(edits.map((edit) => ({ op: edit.op, text: edit.value })));
+}
+
+/**
+ * Pair a removed and an added line as a changed line, if they are similar
+ * enough for word highlighting to be useful
+ */
+function changedLine(oldLine: string, newLine: string, oldNumber: number, newNumber: number): DiffLine | null {
+  const segments = diffWords(oldLine, newLine);
+  const unchanged = segments
+    .filter((segment) => segment.op === 'equal')
+    .reduce((total, segment) => total + segment.text.length, 0);
+  const total = oldLine.length + newLine.length;
+  if (total > 0 && (2 * unchanged) / total < CHANGE_SIMILARITY_THRESHOLD) {
+    return null;
+  }
+
+  return {
+    type: 'change',
+    old_number: oldNumber,
+    new_number: newNumber,
+    old_segments: mergeSegments(segments.filter((segment) => segment.op !== 'insert')),
+    new_segments: mergeSegments(segments.filter((segment) => segment.op !== 'delete')),
+  };
+}
+
+/**
+ * Line diff of two texts with word-level changes inside edited lines
+ */
+export function diffText(oldText: string, newText: string): TextDiff {
+  const edits = diffSequences(splitLines(oldText), splitLines(newText));
+  const lines: DiffLine[] = [];
+  let oldNumber = 1;
+  let newNumber = 1;
+  let additions = 0;
+  let deletions = 0;
+
+  for (let i = 0; i < edits.length; ) {
+    if (edits[i].op === 'equal') {
+      lines.push({
+        type: 'equal',
+        old_number: oldNumber++,
+        new_number: newNumber++,
+        old_segments: [{ op: 'equal', text: edits[i].value }],
+        new_segments: [{ op: 'equal', text: edits[i].value }],
+      });
+      i++;
+      continue;
+    }
+
+    // Gather the run of removed and added lines between unchanged ones
+    const removed: string[] = [];
+    const added: string[] = [];
+    for (; i < edits.length && edits[i].op !== 'equal'; i++) {
+      (edits[i].op === 'delete' ? removed : added).push(edits[i].value);
+    }
+
+    const deleteLine = (text: string): DiffLine => ({
+      type: 'delete',
+      old_number: oldNumber++,
+      new_number: null,
+      old_segments: [{ op: 'delete', text }],
+      new_segments: [],
+    });
+    const insertLine = (text: string): DiffLine => ({
+      type: 'insert',
+      old_number: null,
+      new_number: newNumber++,
+      old_segments: [],
+      new_segments: [{ op: 'insert', text }],
+    });
+
+    const paired = Math.min(removed.length, added.length);
+    for (let j = 0; j < paired; j++) {
+      const change = changedLine(removed[j], added[j], oldNumber, newNumber);
+      if (change) {
+        lines.push(change);
+        oldNumber++;
+        newNumber++;
+      } else {
+        lines.push(deleteLine(removed[j]), insertLine(added[j]));
+      }
+    }
+    removed.slice(paired).forEach((text) => lines.push(deleteLine(text)));
+    added.slice(paired).forEach((text) => lines.push(insertLine(text)));
+
+    deletions += removed.length;
+    additions += added.length;
+  }
+
+  return { lines, additions, deletions };
+}
@@ -0,0 +1,9 @@
+-- Record how much of each document's extracted text was processed by the AI.
+-- Long documents are processed in chunks; if a document exceeds the chunk
+-- budget for its size class only the leading chunks are processed.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS processing_coverage TEXT
+    CHECK (processing_coverage IN ('full', 'partial')),
+  ADD COLUMN IF NOT EXISTS processed_chars INTEGER,
+  ADD COLUMN IF NOT EXISTS total_chars INTEGER;
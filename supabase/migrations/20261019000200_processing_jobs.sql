@@ -0,0 +1,145 @@
+-- Durable background job queue for document processing.
+--
+-- Workers claim jobs with claim_processing_job (FOR UPDATE SKIP LOCKED so
+-- concurrent workers never claim the same job), refresh heartbeat_at while
+-- running, and either complete the job, re-queue it with a backoff, or move
+-- it to the dead-letter state. reap_stuck_processing_jobs recovers work left
+-- behind by workers that were frozen or killed mid-run.
+
+CREATE TABLE IF NOT EXISTS processing_jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  type TEXT NOT NULL
+    CHECK (type IN ('process', 'regenerate_summary', 'regenerate_markdown')),
+  status TEXT NOT NULL DEFAULT 'queued'
+    CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 3,
+  run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  locked_by TEXT,
+  locked_at TIMESTAMPTZ,
+  heartbeat_at TIMESTAMPTZ,
+  last_error TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  completed_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS processing_jobs_claimable_idx
+  ON processing_jobs (run_at)
+  WHERE status = 'queued';
+
+CREATE INDEX IF NOT EXISTS processing_jobs_running_heartbeat_idx
+  ON processing_jobs (heartbeat_at)
+  WHERE status = 'running';
+
+CREATE INDEX IF NOT EXISTS processing_jobs_document_id_idx
+  ON processing_jobs (document_id);
+
+-- At most one active job per document and job type
+CREATE UNIQUE INDEX IF NOT EXISTS processing_jobs_one_active_per_document_idx
+  ON processing_jobs (document_id, type)
+  WHERE status IN ('queued', 'running');
+
+-- Atomically claim the next due job for a worker
+CREATE OR REPLACE FUNCTION claim_processing_job(p_worker_id TEXT)
+RETURNS SETOF processing_jobs
+LANGUAGE sql
+AS $$
+  UPDATE processing_jobs
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_at = now(),
+      heartbeat_at = now(),
+      attempts = attempts + 1,
+      updated_at = now()
+  WHERE id = (
+    SELECT id
+    FROM processing_jobs
+    WHERE status = 'queued'
+      AND run_at <= now()
+    ORDER BY run_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+$$;
+
+-- Recover jobs and documents abandoned by dead workers.
+--
+-- 1. RUNNING jobs whose heartbeat is older than p_stale_after are re-queued,
+--    or dead-lettered (and their document marked FAILED) when out of attempts.
+-- 2. Documents stuck in PROCESSING with no active job are reset to UPLOADED
+--    and get a new 'process' job.
+CREATE OR REPLACE FUNCTION reap_stuck_processing_jobs(p_stale_after INTERVAL)
+RETURNS TABLE (requeued INTEGER, dead_lettered INTEGER, orphaned_documents INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_requeued INTEGER;
+  v_dead INTEGER;
+  v_orphaned INTEGER;
+BEGIN
+  WITH dead AS (
+    UPDATE processing_jobs
+    SET status = 'dead',
+        locked_by = NULL,
+        locked_at = NULL,
+        last_error = COALESCE(last_error, 'Worker stopped sending heartbeats'),
+        updated_at = now(),
+        completed_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < now() - p_stale_after
+      AND attempts >= max_attempts
+    RETURNING document_id
+  ), failed_documents AS (
+    UPDATE documents
+    SET status = 'FAILED'
+    WHERE id IN (SELECT document_id FROM dead)
+      AND status = 'PROCESSING'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_dead FROM dead;
+
+  WITH requeued AS (
+    UPDATE processing_jobs
+    SET status = 'queued',
+        locked_by = NULL,
+        locked_at = NULL,
+        run_at = now(),
+        last_error = 'Worker stopped sending heartbeats',
+        updated_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < now() - p_stale_after
+    RETURNING document_id
+  ), reset_documents AS (
+    UPDATE documents
+    SET status = 'UPLOADED'
+    WHERE id IN (SELECT document_id FROM requeued)
+      AND status = 'PROCESSING'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_requeued FROM requeued;
+
+  WITH orphaned AS (
+    UPDATE documents d
+    SET status = 'UPLOADED'
+    WHERE d.status = 'PROCESSING'
+      AND NOT EXISTS (
+        SELECT 1 FROM processing_jobs j
+        WHERE j.document_id = d.id
+          AND j.status IN ('queued', 'running')
+      )
+    RETURNING d.id, d.user_id
+  ), enqueued AS (
+    INSERT INTO processing_jobs (document_id, user_id, type)
+    SELECT id, user_id, 'process' FROM orphaned
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  )
+  SELECT count(*) INTO v_orphaned FROM orphaned;
+
+  RETURN QUERY SELECT v_requeued, v_dead, v_orphaned;
+END;
+$$;
@@ -0,0 +1,97 @@
+-- Structured failure information and attempt tracking on documents.
+--
+-- failure_* columns describe the most recent failed processing attempt and
+-- are cleared when a new attempt starts. processing_attempts counts every
+-- attempt that reached the PROCESSING state.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS failure_code TEXT,
+  ADD COLUMN IF NOT EXISTS failure_message TEXT,
+  ADD COLUMN IF NOT EXISTS failure_stage TEXT
+    CHECK (failure_stage IN ('download', 'extract', 'ai', 'save')),
+  ADD COLUMN IF NOT EXISTS failed_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS processing_attempts INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS processing_started_at TIMESTAMPTZ,
+  ADD COLUMN IF NOT EXISTS processing_completed_at TIMESTAMPTZ;
+
+-- Record why documents are failed by the reaper (dead-lettered jobs)
+--
+-- 1. RUNNING jobs whose heartbeat is older than p_stale_after are re-queued,
+--    or dead-lettered (and their document marked FAILED) when out of attempts.
+-- 2. Documents stuck in PROCESSING with no active job are reset to UPLOADED
+--    and get a new 'process' job.
+CREATE OR REPLACE FUNCTION reap_stuck_processing_jobs(p_stale_after INTERVAL)
+RETURNS TABLE (requeued INTEGER, dead_lettered INTEGER, orphaned_documents INTEGER)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_requeued INTEGER;
+  v_dead INTEGER;
+  v_orphaned INTEGER;
+BEGIN
+  WITH dead AS (
+    UPDATE processing_jobs
+    SET status = 'dead',
+        locked_by = NULL,
+        locked_at = NULL,
+        last_error = COALESCE(last_error, 'Worker stopped sending heartbeats'),
+        updated_at = now(),
+        completed_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < now() - p_stale_after
+      AND attempts >= max_attempts
+    RETURNING document_id
+  ), failed_documents AS (
+    UPDATE documents
+    SET status = 'FAILED',
+        failure_code = 'WORKER_TIMEOUT',
+        failure_message = 'Processing stopped responding and ran out of retry attempts.',
+        failure_stage = NULL,
+        failed_at = now()
+    WHERE id IN (SELECT document_id FROM dead)
+      AND status = 'PROCESSING'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_dead FROM dead;
+
+  WITH requeued AS (
+    UPDATE processing_jobs
+    SET status = 'queued',
+        locked_by = NULL,
+        locked_at = NULL,
+        run_at = now(),
+        last_error = 'Worker stopped sending heartbeats',
+        updated_at = now()
+    WHERE status = 'running'
+      AND heartbeat_at < now() - p_stale_after
+    RETURNING document_id
+  ), reset_documents AS (
+    UPDATE documents
+    SET status = 'UPLOADED'
+    WHERE id IN (SELECT document_id FROM requeued)
+      AND status = 'PROCESSING'
+    RETURNING id
+  )
+  SELECT count(*) INTO v_requeued FROM requeued;
+
+  WITH orphaned AS (
+    UPDATE documents d
+    SET status = 'UPLOADED'
+    WHERE d.status = 'PROCESSING'
+      AND NOT EXISTS (
+        SELECT 1 FROM processing_jobs j
+        WHERE j.document_id = d.id
+          AND j.status IN ('queued', 'running')
+      )
+    RETURNING d.id, d.user_id
+  ), enqueued AS (
+    INSERT INTO processing_jobs (document_id, user_id, type)
+    SELECT id, user_id, 'process' FROM orphaned
+    ON CONFLICT DO NOTHING
+    RETURNING id
+  )
+  SELECT count(*) INTO v_orphaned FROM orphaned;
+
+  RETURN QUERY SELECT v_requeued, v_dead, v_orphaned;
+END;
+$$;
@@ -0,0 +1,64 @@
+-- Full-text search over document name, summary and markdown.
+--
+-- search_vector weights name (A) above summary (B) above markdown (C) so
+-- ranking favours title and summary matches. Markdown is capped at 500k
+-- characters to stay well under the 1MB tsvector limit.
+--
+-- search_documents expects a to_tsquery expression built by the API
+-- (see apps/api/src/lib/search/query.ts) and returns each match as JSON
+-- together with its rank and a ts_headline snippet. Highlighted terms are
+-- wrapped in chr(2) ... chr(3) so the API can split them into segments
+-- without trusting any markup in the document text.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS search_vector tsvector
+    GENERATED ALWAYS AS (
+      setweight(to_tsvector('english', coalesce(name, '')), 'A') ||
+      setweight(to_tsvector('english', coalesce(summary, '')), 'B') ||
+      setweight(to_tsvector('english', left(coalesce(markdown, ''), 500000)), 'C')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS documents_search_vector_idx
+  ON documents USING GIN (search_vector);
+
+CREATE OR REPLACE FUNCTION search_documents(
+  p_user_id UUID,
+  p_query TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50
+)
+RETURNS TABLE (document JSONB, rank REAL, headline TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', p_query) AS query
+  ), matches AS (
+    SELECT d.*, ts_rank_cd(d.search_vector, q.query, 32) AS match_rank
+    FROM documents d, q
+    WHERE d.user_id = p_user_id
+      AND d.search_vector @@ q.query
+      AND (p_status IS NULL OR d.status::text = p_status)
+      AND (
+        p_group_id IS NULL OR EXISTS (
+          SELECT 1 FROM document_groups dg
+          WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+        )
+      )
+    ORDER BY match_rank DESC, d.created_at DESC
+    LIMIT p_limit
+  )
+  SELECT
+    to_jsonb(m) - 'search_vector' - 'match_rank' AS document,
+    m.match_rank AS rank,
+    ts_headline(
+      'english',
+      left(concat_ws(E'\n\n', m.summary, m.markdown), 200000),
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+      ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS headline
+  FROM matches m, q
+  ORDER BY m.match_rank DESC, m.created_at DESC;
+$$;
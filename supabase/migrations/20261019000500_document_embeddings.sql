@@ -0,0 +1,118 @@
+-- Embeddings for semantic search and "find similar documents".
+--
+-- Each document's generated markdown is split into chunks during processing
+-- and every chunk is embedded with the configured provider (see
+-- apps/api/src/lib/embeddings). Vectors from different models are not
+-- comparable, so every query filters on embedding_model. The column width is
+-- fixed; providers must return EMBEDDING_DIMENSIONS (1536) values.
+
+CREATE EXTENSION IF NOT EXISTS vector;
+
+CREATE TABLE IF NOT EXISTS document_chunks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  content TEXT NOT NULL,
+  embedding vector(1536) NOT NULL,
+  embedding_model TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (document_id, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS document_chunks_user_model_idx
+  ON document_chunks (user_id, embedding_model);
+
+CREATE INDEX IF NOT EXISTS document_chunks_embedding_idx
+  ON document_chunks USING hnsw (embedding vector_cosine_ops);
+
+-- Embedding failures are recorded like any other processing stage
+ALTER TABLE documents DROP CONSTRAINT IF EXISTS documents_failure_stage_check;
+ALTER TABLE documents
+  ADD CONSTRAINT documents_failure_stage_check
+    CHECK (failure_stage IN ('download', 'extract', 'ai', 'embed', 'save'));
+
+-- Nearest documents to a query embedding
+--
+-- Chunks are ranked by cosine similarity, then collapsed to the best chunk
+-- per document. That chunk's text is returned so callers can show why the
+-- document matched.
+CREATE OR REPLACE FUNCTION match_documents(
+  p_user_id UUID,
+  p_embedding vector(1536),
+  p_embedding_model TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_exclude_document_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (document JSONB, similarity REAL, chunk_content TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      c.document_id,
+      c.content,
+      (1 - (c.embedding <=> p_embedding))::REAL AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = p_user_id
+      AND c.embedding_model = p_embedding_model
+      AND (p_exclude_document_id IS NULL OR c.document_id <> p_exclude_document_id)
+    ORDER BY c.embedding <=> p_embedding
+    LIMIT p_limit * 10
+  ), best AS (
+    SELECT DISTINCT ON (document_id) document_id, content, similarity
+    FROM candidates
+    ORDER BY document_id, similarity DESC
+  )
+  SELECT
+    to_jsonb(d) - 'search_vector' AS document,
+    b.similarity,
+    b.content AS chunk_content
+  FROM best b
+  JOIN documents d ON d.id = b.document_id
+  WHERE (p_status IS NULL OR d.status::text = p_status)
+    AND (
+      p_group_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_groups dg
+        WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+      )
+    )
+  ORDER BY b.similarity DESC, d.created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Documents most similar to an existing document
+--
+-- The source document is represented by the mean of its chunk embeddings.
+-- Returns no rows when the document has no embeddings for the model.
+CREATE OR REPLACE FUNCTION find_similar_documents(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_embedding_model TEXT,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (document JSONB, similarity REAL, chunk_content TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT m.*
+  FROM (
+    SELECT avg(c.embedding) AS centroid
+    FROM document_chunks c
+    WHERE c.document_id = p_document_id
+      AND c.user_id = p_user_id
+      AND c.embedding_model = p_embedding_model
+  ) source
+  CROSS JOIN LATERAL match_documents(
+    p_user_id,
+    source.centroid,
+    p_embedding_model,
+    NULL,
+    NULL,
+    p_document_id,
+    p_limit
+  ) m
+  WHERE source.centroid IS NOT NULL;
+$$;
@@ -0,0 +1,55 @@
+-- Passage offsets for question answering with citations.
+--
+-- Chunks are now slices of documents.markdown; start_offset/end_offset
+-- locate each one so answers can link to the exact passage. Chunks embedded
+-- before this migration have NULL offsets until the document is reprocessed.
+
+ALTER TABLE document_chunks
+  ADD COLUMN IF NOT EXISTS start_offset INTEGER,
+  ADD COLUMN IF NOT EXISTS end_offset INTEGER;
+
+-- Passages closest to a question, optionally scoped to a document or group.
+-- Only READY documents are considered.
+CREATE OR REPLACE FUNCTION match_document_passages(
+  p_user_id UUID,
+  p_embedding vector(1536),
+  p_embedding_model TEXT,
+  p_document_id UUID DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 8
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_name TEXT,
+  chunk_index INTEGER,
+  content TEXT,
+  start_offset INTEGER,
+  end_offset INTEGER,
+  similarity REAL
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    c.document_id,
+    d.name::TEXT AS document_name,
+    c.chunk_index,
+    c.content,
+    c.start_offset,
+    c.end_offset,
+    (1 - (c.embedding <=> p_embedding))::REAL AS similarity
+  FROM document_chunks c
+  JOIN documents d ON d.id = c.document_id
+  WHERE c.user_id = p_user_id
+    AND c.embedding_model = p_embedding_model
+    AND d.status = 'READY'
+    AND (p_document_id IS NULL OR c.document_id = p_document_id)
+    AND (
+      p_group_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_groups dg
+        WHERE dg.document_id = c.document_id AND dg.group_id = p_group_id
+      )
+    )
+  ORDER BY c.embedding <=> p_embedding
+  LIMIT p_limit;
+$$;
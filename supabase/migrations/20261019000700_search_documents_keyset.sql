@@ -0,0 +1,61 @@
+-- Keyset pagination for search_documents.
+--
+-- Results are ordered by (rank, created_at, id), all descending, so the
+-- order is total and stable between requests. The API passes the sort key
+-- of the last row on the previous page as p_after_*; rows are returned
+-- strictly after it. All three must be set together (or all left NULL for
+-- the first page).
+--
+-- The signature changes, so the old function is dropped first.
+
+DROP FUNCTION IF EXISTS search_documents(UUID, TEXT, TEXT, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION search_documents(
+  p_user_id UUID,
+  p_query TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL
+)
+RETURNS TABLE (document JSONB, rank REAL, headline TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', p_query) AS query
+  ), ranked AS (
+    SELECT d.*, ts_rank_cd(d.search_vector, q.query, 32) AS match_rank
+    FROM documents d, q
+    WHERE d.user_id = p_user_id
+      AND d.search_vector @@ q.query
+      AND (p_status IS NULL OR d.status::text = p_status)
+      AND (
+        p_group_id IS NULL OR EXISTS (
+          SELECT 1 FROM document_groups dg
+          WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+        )
+      )
+  ), matches AS (
+    SELECT *
+    FROM ranked r
+    WHERE p_after_id IS NULL
+      OR (r.match_rank, r.created_at, r.id) < (p_after_rank, p_after_created_at, p_after_id)
+    ORDER BY r.match_rank DESC, r.created_at DESC, r.id DESC
+    LIMIT p_limit
+  )
+  SELECT
+    to_jsonb(m) - 'search_vector' - 'match_rank' AS document,
+    m.match_rank AS rank,
+    ts_headline(
+      'english',
+      left(concat_ws(E'\n\n', m.summary, m.markdown), 200000),
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+      ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS headline
+  FROM matches m, q
+  ORDER BY m.match_rank DESC, m.created_at DESC, m.id DESC;
+$$;
@@ -0,0 +1,48 @@
+-- Resumable chunked uploads.
+--
+-- A client opens an upload session, PUTs the file in fixed-size chunks
+-- (each stored as its own object under uploads/<session id>/), and then
+-- completes the session, which assembles the chunks into the final file
+-- and creates the document. received_chunks records which chunks have
+-- arrived so an interrupted upload resumes with only the missing ones.
+--
+-- Sessions expire after a day; expired sessions and their chunks are
+-- removed by the job worker.
+
+CREATE TABLE IF NOT EXISTS upload_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  filename TEXT NOT NULL,
+  content_type TEXT NOT NULL,
+  size BIGINT NOT NULL CHECK (size > 0),
+  chunk_size INTEGER NOT NULL CHECK (chunk_size > 0),
+  total_chunks INTEGER NOT NULL CHECK (total_chunks > 0),
+  received_chunks INTEGER[] NOT NULL DEFAULT '{}',
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  expires_at TIMESTAMPTZ NOT NULL DEFAULT now() + interval '1 day'
+);
+
+CREATE INDEX IF NOT EXISTS upload_sessions_user_id_idx
+  ON upload_sessions (user_id);
+
+CREATE INDEX IF NOT EXISTS upload_sessions_expires_at_idx
+  ON upload_sessions (expires_at);
+
+-- Record a received chunk. Chunks may arrive concurrently or be re-sent
+-- after a dropped connection, so the update is atomic and idempotent.
+CREATE OR REPLACE FUNCTION record_upload_chunk(p_session_id UUID, p_chunk_index INTEGER)
+RETURNS SETOF upload_sessions
+LANGUAGE sql
+AS $$
+  UPDATE upload_sessions
+  SET received_chunks = ARRAY(
+        SELECT DISTINCT c
+        FROM unnest(received_chunks || p_chunk_index) AS c
+        ORDER BY c
+      ),
+      updated_at = now()
+  WHERE id = p_session_id
+  RETURNING *;
+$$;
@@ -0,0 +1,62 @@
+-- Content-hash deduplication.
+--
+-- content_hash is the SHA-256 of the uploaded bytes (hex). Uploads look up
+-- an existing document of the same user with the same hash before storing
+-- the file, so the same PDF isn't processed and billed twice. Documents
+-- uploaded before this migration have a NULL hash and never match.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS content_hash TEXT;
+
+CREATE INDEX IF NOT EXISTS documents_user_content_hash_idx
+  ON documents (user_id, content_hash)
+  WHERE content_hash IS NOT NULL;
+
+-- Create a document that reuses a processed duplicate: it shares the
+-- source's stored file and copies its summary, markdown and embedded
+-- chunks, so it is READY without running the AI pipeline again.
+CREATE OR REPLACE FUNCTION link_duplicate_document(
+  p_source_id UUID,
+  p_user_id UUID,
+  p_name TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_document documents;
+BEGIN
+  INSERT INTO documents (
+    user_id, name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars,
+    processing_completed_at
+  )
+  SELECT
+    user_id, p_name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars,
+    now()
+  FROM documents
+  WHERE id = p_source_id
+    AND user_id = p_user_id
+    AND status = 'READY'
+  RETURNING * INTO v_document;
+
+  IF v_document.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_chunks (
+    document_id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  )
+  SELECT
+    v_document.id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  FROM document_chunks
+  WHERE document_id = p_source_id;
+
+  RETURN NEXT v_document;
+END;
+$$;
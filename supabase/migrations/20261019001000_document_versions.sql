@@ -0,0 +1,150 @@
+-- Document versioning.
+--
+-- A document can receive new file revisions without losing its id, group
+-- memberships or history. documents always holds the current version;
+-- document_versions records every version, including who uploaded it and
+-- its own summary and markdown, and keeps the storage object of each
+-- earlier revision.
+--
+-- Versions are kept in step with documents by triggers: inserting a
+-- document records version 1, and updates to the current version's
+-- content (processing, edits, regeneration) are copied onto its row.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS current_version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS document_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL CHECK (version_number > 0),
+  filename TEXT NOT NULL,
+  storage_path TEXT NOT NULL,
+  content_hash TEXT,
+  uploaded_by UUID NOT NULL,
+  summary TEXT,
+  markdown TEXT,
+  summary_source TEXT,
+  markdown_source TEXT,
+  status TEXT NOT NULL,
+  ai_model TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (document_id, version_number)
+);
+
+CREATE INDEX IF NOT EXISTS document_versions_storage_path_idx
+  ON document_versions (storage_path);
+
+-- Existing documents become version 1
+INSERT INTO document_versions (
+  document_id, version_number, filename, storage_path, content_hash, uploaded_by,
+  summary, markdown, summary_source, markdown_source, status, ai_model, created_at
+)
+SELECT
+  id, current_version, name, storage_path, content_hash, user_id,
+  summary, markdown, summary_source::TEXT, markdown_source::TEXT, status::TEXT, ai_model, created_at
+FROM documents
+ON CONFLICT (document_id, version_number) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION record_initial_document_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  INSERT INTO document_versions (
+    document_id, version_number, filename, storage_path, content_hash, uploaded_by,
+    summary, markdown, summary_source, markdown_source, status, ai_model, created_at
+  )
+  VALUES (
+    NEW.id, NEW.current_version, NEW.name, NEW.storage_path, NEW.content_hash, NEW.user_id,
+    NEW.summary, NEW.markdown, NEW.summary_source::TEXT, NEW.markdown_source::TEXT,
+    NEW.status::TEXT, NEW.ai_model, NEW.created_at
+  )
+  ON CONFLICT (document_id, version_number) DO NOTHING;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_record_initial_version ON documents;
+CREATE TRIGGER documents_record_initial_version
+  AFTER INSERT ON documents
+  FOR EACH ROW EXECUTE FUNCTION record_initial_document_version();
+
+CREATE OR REPLACE FUNCTION sync_current_document_version()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  UPDATE document_versions
+  SET summary = NEW.summary,
+      markdown = NEW.markdown,
+      summary_source = NEW.summary_source::TEXT,
+      markdown_source = NEW.markdown_source::TEXT,
+      status = NEW.status::TEXT,
+      ai_model = NEW.ai_model
+  WHERE document_id = NEW.id
+    AND version_number = NEW.current_version;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS documents_sync_current_version ON documents;
+CREATE TRIGGER documents_sync_current_version
+  AFTER UPDATE OF summary, markdown, summary_source, markdown_source, status, ai_model, current_version
+  ON documents
+  FOR EACH ROW EXECUTE FUNCTION sync_current_document_version();
+
+-- Make an uploaded file the document's new current version. The previous
+-- version's row and storage object are kept; the document is reset to
+-- UPLOADED so the new file is processed.
+CREATE OR REPLACE FUNCTION create_document_version(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_filename TEXT,
+  p_storage_path TEXT,
+  p_content_hash TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_next INTEGER;
+  v_document documents;
+BEGIN
+  SELECT current_version + 1 INTO v_next
+  FROM documents
+  WHERE id = p_document_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_next IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_versions (
+    document_id, version_number, filename, storage_path, content_hash, uploaded_by, status
+  )
+  VALUES (p_document_id, v_next, p_filename, p_storage_path, p_content_hash, p_user_id, 'UPLOADED');
+
+  UPDATE documents
+  SET storage_path = p_storage_path,
+      content_hash = p_content_hash,
+      current_version = v_next,
+      status = 'UPLOADED',
+      summary = NULL,
+      markdown = NULL,
+      summary_source = 'ai_generated',
+      markdown_source = 'ai_generated',
+      ai_model = NULL,
+      processing_coverage = NULL,
+      processed_chars = NULL,
+      total_chars = NULL,
+      failure_code = NULL,
+      failure_message = NULL,
+      failure_stage = NULL,
+      failed_at = NULL,
+      processing_completed_at = NULL
+  WHERE id = p_document_id
+  RETURNING * INTO v_document;
+
+  RETURN NEXT v_document;
+END;
+$$;
@@ -0,0 +1,42 @@
+-- Content revision log for summaries and markdown.
+--
+-- Every AI generation (initial processing, regeneration) and every user
+-- edit of a document's summary or markdown appends a row, so earlier
+-- content can be reviewed and restored after a reload. Restoring writes
+-- the old content back and appends another row pointing at the restored
+-- revision. Revisions belong to a document version (version_number).
+
+CREATE TABLE IF NOT EXISTS content_revisions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  version_number INTEGER NOT NULL,
+  field TEXT NOT NULL CHECK (field IN ('summary', 'markdown')),
+  content TEXT,
+  source TEXT NOT NULL CHECK (source IN ('ai_generated', 'user_modified')),
+  ai_model TEXT,
+  author_id UUID NOT NULL,
+  restored_from UUID REFERENCES content_revisions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS content_revisions_document_idx
+  ON content_revisions (document_id, field, version_number, created_at DESC, id DESC);
+
+-- Existing content becomes the first revision of each version
+INSERT INTO content_revisions (document_id, version_number, field, content, source, ai_model, author_id, created_at)
+SELECT
+  v.document_id, v.version_number, 'summary', v.summary,
+  coalesce(v.summary_source, 'ai_generated'),
+  CASE WHEN coalesce(v.summary_source, 'ai_generated') = 'ai_generated' THEN v.ai_model END,
+  v.uploaded_by, v.created_at
+FROM document_versions v
+WHERE v.summary IS NOT NULL;
+
+INSERT INTO content_revisions (document_id, version_number, field, content, source, ai_model, author_id, created_at)
+SELECT
+  v.document_id, v.version_number, 'markdown', v.markdown,
+  coalesce(v.markdown_source, 'ai_generated'),
+  CASE WHEN coalesce(v.markdown_source, 'ai_generated') = 'ai_generated' THEN v.ai_model END,
+  v.uploaded_by, v.created_at
+FROM document_versions v
+WHERE v.markdown IS NOT NULL;
@@ -0,0 +1,22 @@
+-- Smart groups.
+--
+-- A SMART group is defined by saved rules (name pattern, status, creation
+-- date range, text query, similarity to a seed document) instead of manual
+-- assignment. Its members are still stored in document_groups so listing,
+-- search filters and group badges work unchanged; the API re-evaluates the
+-- rules and syncs those rows when documents change and when the group is
+-- opened. Manual add/remove is rejected for smart groups.
+
+ALTER TABLE groups
+  ADD COLUMN IF NOT EXISTS rules JSONB;
+
+ALTER TABLE groups
+  DROP CONSTRAINT IF EXISTS groups_smart_rules_check;
+
+ALTER TABLE groups
+  ADD CONSTRAINT groups_smart_rules_check
+  CHECK (type <> 'SMART' OR rules IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS groups_user_smart_idx
+  ON groups (user_id)
+  WHERE type = 'SMART';
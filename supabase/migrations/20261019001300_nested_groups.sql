@@ -0,0 +1,52 @@
+-- Nested groups.
+--
+-- groups.parent_id turns groups into a tree (e.g. client → matter → phase).
+-- A group's parent must belong to the same user, and a group can't be moved
+-- under itself or one of its descendants. The API checks both before
+-- writing; the trigger below keeps the tree valid for any other writer.
+--
+-- Deleting a group sets its children's parent_id to NULL. The API decides
+-- beforehand whether children are deleted with it or moved up a level.
+
+ALTER TABLE groups
+  ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES groups(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS groups_parent_id_idx
+  ON groups (parent_id);
+
+CREATE OR REPLACE FUNCTION groups_check_parent()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.parent_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM groups WHERE id = NEW.parent_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Parent group % not found', NEW.parent_id;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_id FROM groups WHERE id = NEW.parent_id
+      UNION
+      SELECT g.id, g.parent_id FROM groups g JOIN ancestors a ON g.id = a.parent_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'Moving group % under % would create a cycle', NEW.id, NEW.parent_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS groups_check_parent ON groups;
+
+CREATE TRIGGER groups_check_parent
+  BEFORE INSERT OR UPDATE OF parent_id ON groups
+  FOR EACH ROW
+  EXECUTE FUNCTION groups_check_parent();
@@ -0,0 +1,35 @@
+-- Group description, color and icon.
+--
+-- description was accepted on create but never stored; it now is, along
+-- with a palette color and an icon name (see GroupColor and GroupIcon in
+-- packages/shared/src/types/group.ts). NULL color or icon means the
+-- client's default.
+--
+-- Group names are unique per user, ignoring case. The API enforces this on
+-- create and rename rather than a unique index, because existing data may
+-- already hold duplicates; the index below keeps the lookup cheap.
+
+ALTER TABLE groups
+  ADD COLUMN IF NOT EXISTS description TEXT,
+  ADD COLUMN IF NOT EXISTS color TEXT,
+  ADD COLUMN IF NOT EXISTS icon TEXT;
+
+ALTER TABLE groups
+  DROP CONSTRAINT IF EXISTS groups_description_length_check,
+  DROP CONSTRAINT IF EXISTS groups_color_check,
+  DROP CONSTRAINT IF EXISTS groups_icon_check;
+
+ALTER TABLE groups
+  ADD CONSTRAINT groups_description_length_check
+    CHECK (description IS NULL OR char_length(description) <= 1000),
+  ADD CONSTRAINT groups_color_check
+    CHECK (color IS NULL OR color IN (
+      'gray', 'red', 'orange', 'amber', 'green', 'teal', 'blue', 'indigo', 'purple', 'pink'
+    )),
+  ADD CONSTRAINT groups_icon_check
+    CHECK (icon IS NULL OR icon IN (
+      'folder', 'briefcase', 'document', 'star', 'flag', 'tag', 'users', 'archive'
+    ));
+
+CREATE INDEX IF NOT EXISTS groups_user_name_idx
+  ON groups (user_id, lower(name));
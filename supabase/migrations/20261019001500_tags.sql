@@ -0,0 +1,199 @@
+-- Free-form document tags.
+--
+-- Tags are lightweight labels owned by a user; a document can carry any
+-- number of them. Names are unique per user, ignoring case, and are stored
+-- as first typed. Deleting a tag removes it from every document.
+--
+-- During processing the AI proposes tags for each document. Proposals are
+-- kept in documents.suggested_tags until the user accepts (the tag is
+-- linked to the document) or rejects them; they are never applied
+-- automatically.
+--
+-- search_documents and match_documents gain a tag filter. Their signatures
+-- change, so the old functions are dropped first. find_similar_documents
+-- calls match_documents positionally; p_tag_id is added last with a
+-- default so that call still resolves.
+
+CREATE TABLE IF NOT EXISTS tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 50),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS tags_user_name_idx
+  ON tags (user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS document_tags (
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_id, tag_id)
+);
+
+CREATE INDEX IF NOT EXISTS document_tags_tag_idx
+  ON document_tags (tag_id);
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS suggested_tags TEXT[] NOT NULL DEFAULT '{}';
+
+DROP FUNCTION IF EXISTS search_documents(UUID, TEXT, TEXT, UUID, INTEGER, REAL, TIMESTAMPTZ, UUID);
+
+CREATE OR REPLACE FUNCTION search_documents(
+  p_user_id UUID,
+  p_query TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_tag_id UUID DEFAULT NULL
+)
+RETURNS TABLE (document JSONB, rank REAL, headline TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', p_query) AS query
+  ), ranked AS (
+    SELECT d.*, ts_rank_cd(d.search_vector, q.query, 32) AS match_rank
+    FROM documents d, q
+    WHERE d.user_id = p_user_id
+      AND d.search_vector @@ q.query
+      AND (p_status IS NULL OR d.status::text = p_status)
+      AND (
+        p_group_id IS NULL OR EXISTS (
+          SELECT 1 FROM document_groups dg
+          WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+        )
+      )
+      AND (
+        p_tag_id IS NULL OR EXISTS (
+          SELECT 1 FROM document_tags dt
+          WHERE dt.document_id = d.id AND dt.tag_id = p_tag_id
+        )
+      )
+  ), matches AS (
+    SELECT *
+    FROM ranked r
+    WHERE p_after_id IS NULL
+      OR (r.match_rank, r.created_at, r.id) < (p_after_rank, p_after_created_at, p_after_id)
+    ORDER BY r.match_rank DESC, r.created_at DESC, r.id DESC
+    LIMIT p_limit
+  )
+  SELECT
+    to_jsonb(m) - 'search_vector' - 'match_rank' AS document,
+    m.match_rank AS rank,
+    ts_headline(
+      'english',
+      left(concat_ws(E'\n\n', m.summary, m.markdown), 200000),
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+      ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS headline
+  FROM matches m, q
+  ORDER BY m.match_rank DESC, m.created_at DESC, m.id DESC;
+$$;
+
+DROP FUNCTION IF EXISTS match_documents(UUID, vector, TEXT, TEXT, UUID, UUID, INTEGER);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  p_user_id UUID,
+  p_embedding vector(1536),
+  p_embedding_model TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_exclude_document_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_tag_id UUID DEFAULT NULL
+)
+RETURNS TABLE (document JSONB, similarity REAL, chunk_content TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      c.document_id,
+      c.content,
+      (1 - (c.embedding <=> p_embedding))::REAL AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = p_user_id
+      AND c.embedding_model = p_embedding_model
+      AND (p_exclude_document_id IS NULL OR c.document_id <> p_exclude_document_id)
+    ORDER BY c.embedding <=> p_embedding
+    LIMIT p_limit * 10
+  ), best AS (
+    SELECT DISTINCT ON (document_id) document_id, content, similarity
+    FROM candidates
+    ORDER BY document_id, similarity DESC
+  )
+  SELECT
+    to_jsonb(d) - 'search_vector' AS document,
+    b.similarity,
+    b.content AS chunk_content
+  FROM best b
+  JOIN documents d ON d.id = b.document_id
+  WHERE (p_status IS NULL OR d.status::text = p_status)
+    AND (
+      p_group_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_groups dg
+        WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+      )
+    )
+    AND (
+      p_tag_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_tags dt
+        WHERE dt.document_id = d.id AND dt.tag_id = p_tag_id
+      )
+    )
+  ORDER BY b.similarity DESC, d.created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- Linked duplicates share the file, so they share its tag suggestions too.
+CREATE OR REPLACE FUNCTION link_duplicate_document(
+  p_source_id UUID,
+  p_user_id UUID,
+  p_name TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_document documents;
+BEGIN
+  INSERT INTO documents (
+    user_id, name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars, suggested_tags,
+    processing_completed_at
+  )
+  SELECT
+    user_id, p_name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars, suggested_tags,
+    now()
+  FROM documents
+  WHERE id = p_source_id
+    AND user_id = p_user_id
+    AND status = 'READY'
+  RETURNING * INTO v_document;
+
+  IF v_document.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_chunks (
+    document_id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  )
+  SELECT
+    v_document.id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  FROM document_chunks
+  WHERE document_id = p_source_id;
+
+  RETURN NEXT v_document;
+END;
+$$;
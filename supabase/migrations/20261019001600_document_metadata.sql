@@ -0,0 +1,262 @@
+-- Structured document metadata.
+--
+-- Processing extracts a document type, key dates, parties, monetary
+-- amounts and language into documents.metadata (see DocumentMetadata in
+-- the shared package). Key dates are an object keyed by kind ("issued",
+-- "effective", "due", "expires", "signed") holding YYYY-MM-DD strings, so
+-- they compare correctly as text.
+--
+-- Searches can filter on the metadata. The filter is a JSONB object with
+-- any of:
+--   document_type  exact type, e.g. "contract"
+--   language       ISO 639-1 code, e.g. "en"
+--   date_kind      key date that must be present, e.g. "expires"
+--   date_from      earliest date_kind date, inclusive
+--   date_to        latest date_kind date, inclusive
+-- search_documents and match_documents take it as p_metadata, added last
+-- with a default so find_similar_documents still resolves.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS metadata JSONB;
+
+CREATE INDEX IF NOT EXISTS documents_user_document_type_idx
+  ON documents (user_id, (metadata->>'document_type'));
+
+CREATE OR REPLACE FUNCTION document_metadata_matches(p_metadata JSONB, p_filter JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT p_filter IS NULL OR (
+    (p_filter->>'document_type' IS NULL OR p_metadata->>'document_type' = p_filter->>'document_type')
+    AND (p_filter->>'language' IS NULL OR p_metadata->>'language' = p_filter->>'language')
+    AND (
+      p_filter->>'date_kind' IS NULL OR (
+        p_metadata->'dates'->>(p_filter->>'date_kind') IS NOT NULL
+        AND (p_filter->>'date_from' IS NULL OR p_metadata->'dates'->>(p_filter->>'date_kind') >= p_filter->>'date_from')
+        AND (p_filter->>'date_to' IS NULL OR p_metadata->'dates'->>(p_filter->>'date_kind') <= p_filter->>'date_to')
+      )
+    )
+  ) IS TRUE;
+$$;
+
+DROP FUNCTION IF EXISTS search_documents(UUID, TEXT, TEXT, UUID, INTEGER, REAL, TIMESTAMPTZ, UUID, UUID);
+
+CREATE OR REPLACE FUNCTION search_documents(
+  p_user_id UUID,
+  p_query TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 50,
+  p_after_rank REAL DEFAULT NULL,
+  p_after_created_at TIMESTAMPTZ DEFAULT NULL,
+  p_after_id UUID DEFAULT NULL,
+  p_tag_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (document JSONB, rank REAL, headline TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH q AS (
+    SELECT to_tsquery('english', p_query) AS query
+  ), ranked AS (
+    SELECT d.*, ts_rank_cd(d.search_vector, q.query, 32) AS match_rank
+    FROM documents d, q
+    WHERE d.user_id = p_user_id
+      AND d.search_vector @@ q.query
+      AND (p_status IS NULL OR d.status::text = p_status)
+      AND (
+        p_group_id IS NULL OR EXISTS (
+          SELECT 1 FROM document_groups dg
+          WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+        )
+      )
+      AND (
+        p_tag_id IS NULL OR EXISTS (
+          SELECT 1 FROM document_tags dt
+          WHERE dt.document_id = d.id AND dt.tag_id = p_tag_id
+        )
+      )
+      AND document_metadata_matches(d.metadata, p_metadata)
+  ), matches AS (
+    SELECT *
+    FROM ranked r
+    WHERE p_after_id IS NULL
+      OR (r.match_rank, r.created_at, r.id) < (p_after_rank, p_after_created_at, p_after_id)
+    ORDER BY r.match_rank DESC, r.created_at DESC, r.id DESC
+    LIMIT p_limit
+  )
+  SELECT
+    to_jsonb(m) - 'search_vector' - 'match_rank' AS document,
+    m.match_rank AS rank,
+    ts_headline(
+      'english',
+      left(concat_ws(E'\n\n', m.summary, m.markdown), 200000),
+      q.query,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) ||
+      ', MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+    ) AS headline
+  FROM matches m, q
+  ORDER BY m.match_rank DESC, m.created_at DESC, m.id DESC;
+$$;
+
+DROP FUNCTION IF EXISTS match_documents(UUID, vector, TEXT, TEXT, UUID, UUID, INTEGER, UUID);
+
+CREATE OR REPLACE FUNCTION match_documents(
+  p_user_id UUID,
+  p_embedding vector(1536),
+  p_embedding_model TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_exclude_document_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_tag_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (document JSONB, similarity REAL, chunk_content TEXT)
+LANGUAGE sql
+STABLE
+AS $$
+  WITH candidates AS (
+    SELECT
+      c.document_id,
+      c.content,
+      (1 - (c.embedding <=> p_embedding))::REAL AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = p_user_id
+      AND c.embedding_model = p_embedding_model
+      AND (p_exclude_document_id IS NULL OR c.document_id <> p_exclude_document_id)
+    ORDER BY c.embedding <=> p_embedding
+    LIMIT p_limit * 10
+  ), best AS (
+    SELECT DISTINCT ON (document_id) document_id, content, similarity
+    FROM candidates
+    ORDER BY document_id, similarity DESC
+  )
+  SELECT
+    to_jsonb(d) - 'search_vector' AS document,
+    b.similarity,
+    b.content AS chunk_content
+  FROM best b
+  JOIN documents d ON d.id = b.document_id
+  WHERE (p_status IS NULL OR d.status::text = p_status)
+    AND (
+      p_group_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_groups dg
+        WHERE dg.document_id = d.id AND dg.group_id = p_group_id
+      )
+    )
+    AND (
+      p_tag_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_tags dt
+        WHERE dt.document_id = d.id AND dt.tag_id = p_tag_id
+      )
+    )
+    AND document_metadata_matches(d.metadata, p_metadata)
+  ORDER BY b.similarity DESC, d.created_at DESC
+  LIMIT p_limit;
+$$;
+
+-- New versions start without metadata; it is extracted again when the new
+-- file is processed.
+CREATE OR REPLACE FUNCTION create_document_version(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_filename TEXT,
+  p_storage_path TEXT,
+  p_content_hash TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_next INTEGER;
+  v_document documents;
+BEGIN
+  SELECT current_version + 1 INTO v_next
+  FROM documents
+  WHERE id = p_document_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_next IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_versions (
+    document_id, version_number, filename, storage_path, content_hash, uploaded_by, status
+  )
+  VALUES (p_document_id, v_next, p_filename, p_storage_path, p_content_hash, p_user_id, 'UPLOADED');
+
+  UPDATE documents
+  SET storage_path = p_storage_path,
+      content_hash = p_content_hash,
+      current_version = v_next,
+      status = 'UPLOADED',
+      summary = NULL,
+      markdown = NULL,
+      summary_source = 'ai_generated',
+      markdown_source = 'ai_generated',
+      ai_model = NULL,
+      processing_coverage = NULL,
+      processed_chars = NULL,
+      total_chars = NULL,
+      failure_code = NULL,
+      failure_message = NULL,
+      failure_stage = NULL,
+      failed_at = NULL,
+      processing_completed_at = NULL,
+      metadata = NULL
+  WHERE id = p_document_id
+  RETURNING * INTO v_document;
+
+  RETURN NEXT v_document;
+END;
+$$;
+
+-- Linked duplicates share the file, so they share its metadata too.
+CREATE OR REPLACE FUNCTION link_duplicate_document(
+  p_source_id UUID,
+  p_user_id UUID,
+  p_name TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_document documents;
+BEGIN
+  INSERT INTO documents (
+    user_id, name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars, suggested_tags, metadata,
+    processing_completed_at
+  )
+  SELECT
+    user_id, p_name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars, suggested_tags, metadata,
+    now()
+  FROM documents
+  WHERE id = p_source_id
+    AND user_id = p_user_id
+    AND status = 'READY'
+  RETURNING * INTO v_document;
+
+  IF v_document.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_chunks (
+    document_id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  )
+  SELECT
+    v_document.id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  FROM document_chunks
+  WHERE document_id = p_source_id;
+
+  RETURN NEXT v_document;
+END;
+$$;
@@ -0,0 +1,69 @@
+-- User-defined extraction templates.
+--
+-- A template is a prompt, a JSON schema its output must match and a layout
+-- for displaying the output. Templates are assigned to documents directly
+-- (document_templates) or through a group (group_templates); processing
+-- runs every template that applies to a document and keeps the latest
+-- result of each in template_results. Deleting a template removes its
+-- assignments and results.
+--
+-- Re-running a document's templates is a new job type, run_templates.
+
+CREATE TABLE IF NOT EXISTS extraction_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  name TEXT NOT NULL CHECK (char_length(btrim(name)) BETWEEN 1 AND 100),
+  description TEXT CHECK (description IS NULL OR char_length(description) <= 500),
+  prompt TEXT NOT NULL CHECK (char_length(btrim(prompt)) BETWEEN 1 AND 4000),
+  output_schema JSONB NOT NULL CHECK (output_schema->>'type' = 'object'),
+  layout JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS extraction_templates_user_name_idx
+  ON extraction_templates (user_id, lower(name));
+
+CREATE TABLE IF NOT EXISTS document_templates (
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES extraction_templates(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_id, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS document_templates_template_idx
+  ON document_templates (template_id);
+
+CREATE TABLE IF NOT EXISTS group_templates (
+  group_id UUID NOT NULL REFERENCES groups(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES extraction_templates(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (group_id, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS group_templates_template_idx
+  ON group_templates (template_id);
+
+CREATE TABLE IF NOT EXISTS template_results (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  template_id UUID NOT NULL REFERENCES extraction_templates(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('succeeded', 'failed')),
+  output JSONB,
+  error TEXT,
+  model TEXT,
+  truncated BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  UNIQUE (document_id, template_id)
+);
+
+CREATE INDEX IF NOT EXISTS template_results_template_idx
+  ON template_results (template_id);
+
+ALTER TABLE processing_jobs DROP CONSTRAINT IF EXISTS processing_jobs_type_check;
+
+ALTER TABLE processing_jobs
+  ADD CONSTRAINT processing_jobs_type_check
+  CHECK (type IN ('process', 'regenerate_summary', 'regenerate_markdown', 'run_templates'));
@@ -0,0 +1,117 @@
+-- Token usage and cost of AI calls.
+--
+-- One row per AI call (a structured-output repair attempt is its own call),
+-- with the model, the token counts the API reported and the prices used to
+-- cost it, in USD per million tokens. Prices are NULL for models without a
+-- known price, whose calls cost 0.
+--
+-- Rows outlive their document (document_id is cleared) so a user's monthly
+-- totals don't change when documents are deleted.
+
+CREATE TABLE IF NOT EXISTS ai_usage (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL CHECK (
+    operation IN ('process', 'regenerate', 'suggest_tags', 'suggest_groups', 'template', 'answer')
+  ),
+  model TEXT NOT NULL,
+  input_tokens INTEGER NOT NULL CHECK (input_tokens >= 0),
+  output_tokens INTEGER NOT NULL CHECK (output_tokens >= 0),
+  input_price_per_mtok NUMERIC(10, 4),
+  output_price_per_mtok NUMERIC(10, 4),
+  cost_usd NUMERIC(12, 6) NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_usage_user_created_idx
+  ON ai_usage (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS ai_usage_document_idx
+  ON ai_usage (document_id)
+  WHERE document_id IS NOT NULL;
+
+-- Monthly totals (UTC months) in [p_from, p_to), newest first
+CREATE OR REPLACE FUNCTION ai_usage_by_month(
+  p_user_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ
+)
+RETURNS TABLE (month TEXT, calls BIGINT, input_tokens BIGINT, output_tokens BIGINT, cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    to_char(date_trunc('month', u.created_at AT TIME ZONE 'UTC'), 'YYYY-MM') AS month,
+    count(*) AS calls,
+    sum(u.input_tokens)::BIGINT AS input_tokens,
+    sum(u.output_tokens)::BIGINT AS output_tokens,
+    sum(u.cost_usd) AS cost_usd
+  FROM ai_usage u
+  WHERE u.user_id = p_user_id
+    AND u.created_at >= p_from
+    AND u.created_at < p_to
+  GROUP BY 1
+  ORDER BY 1 DESC;
+$$;
+
+-- Totals per operation, optionally within [p_from, p_to) and for one document
+CREATE OR REPLACE FUNCTION ai_usage_by_operation(
+  p_user_id UUID,
+  p_from TIMESTAMPTZ DEFAULT NULL,
+  p_to TIMESTAMPTZ DEFAULT NULL,
+  p_document_id UUID DEFAULT NULL
+)
+RETURNS TABLE (operation TEXT, calls BIGINT, input_tokens BIGINT, output_tokens BIGINT, cost_usd NUMERIC)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    u.operation,
+    count(*) AS calls,
+    sum(u.input_tokens)::BIGINT AS input_tokens,
+    sum(u.output_tokens)::BIGINT AS output_tokens,
+    sum(u.cost_usd) AS cost_usd
+  FROM ai_usage u
+  WHERE u.user_id = p_user_id
+    AND (p_from IS NULL OR u.created_at >= p_from)
+    AND (p_to IS NULL OR u.created_at < p_to)
+    AND (p_document_id IS NULL OR u.document_id = p_document_id)
+  GROUP BY u.operation
+  ORDER BY cost_usd DESC, u.operation;
+$$;
+
+-- The most expensive documents within [p_from, p_to)
+CREATE OR REPLACE FUNCTION ai_usage_by_document(
+  p_user_id UUID,
+  p_from TIMESTAMPTZ,
+  p_to TIMESTAMPTZ,
+  p_limit INTEGER DEFAULT 10
+)
+RETURNS TABLE (
+  document_id UUID,
+  document_name TEXT,
+  calls BIGINT,
+  input_tokens BIGINT,
+  output_tokens BIGINT,
+  cost_usd NUMERIC
+)
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT
+    d.id AS document_id,
+    d.name AS document_name,
+    count(*) AS calls,
+    sum(u.input_tokens)::BIGINT AS input_tokens,
+    sum(u.output_tokens)::BIGINT AS output_tokens,
+    sum(u.cost_usd) AS cost_usd
+  FROM ai_usage u
+  JOIN documents d ON d.id = u.document_id
+  WHERE u.user_id = p_user_id
+    AND u.created_at >= p_from
+    AND u.created_at < p_to
+  GROUP BY d.id, d.name
+  ORDER BY cost_usd DESC, d.name
+  LIMIT p_limit;
+$$;
@@ -0,0 +1,104 @@
+-- Per-user AI quotas.
+--
+-- Three limits are enforced before AI work is queued or run:
+-- - documents sent for processing per UTC day (uploads, retries and
+--   regenerations each count once)
+-- - estimated pages sent for processing per UTC month
+-- - AI spend (ai_usage.cost_usd) per UTC month
+--
+-- A user's limits come from user_quotas; a NULL column (or no row) falls
+-- back to the server's default for that limit, and no default means no
+-- limit. Every admitted document is recorded in ai_quota_admissions, which
+-- the day and month counts are read from.
+--
+-- documents.estimated_pages keeps the page estimate of the current file,
+-- so retries and regenerations count the same pages without downloading it.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS estimated_pages INTEGER CHECK (estimated_pages > 0);
+
+CREATE TABLE IF NOT EXISTS user_quotas (
+  user_id UUID PRIMARY KEY,
+  documents_per_day INTEGER CHECK (documents_per_day >= 0),
+  pages_per_month INTEGER CHECK (pages_per_month >= 0),
+  spend_per_month_usd NUMERIC(10, 2) CHECK (spend_per_month_usd >= 0),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS ai_quota_admissions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL,
+  document_id UUID REFERENCES documents(id) ON DELETE SET NULL,
+  operation TEXT NOT NULL CHECK (operation IN ('process', 'regenerate')),
+  pages INTEGER NOT NULL CHECK (pages > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS ai_quota_admissions_user_created_idx
+  ON ai_quota_admissions (user_id, created_at DESC);
+
+CREATE INDEX IF NOT EXISTS ai_quota_admissions_document_idx
+  ON ai_quota_admissions (document_id, created_at DESC)
+  WHERE document_id IS NOT NULL;
+
+-- Check a user's quotas and, when p_document_id is given and every limit
+-- has room, record the admission. Requests for one user are serialized so
+-- concurrent uploads can't all pass the same remaining allowance.
+--
+-- Limits are NULL when unlimited. Document and page limits must have room
+-- for this request; the spend limit (whose cost isn't known yet) only has
+-- to not be used up. Without p_document_id (e.g. group suggestions) only
+-- spend is checked and nothing is recorded.
+--
+-- Returns whether the request was admitted and the usage before it.
+CREATE OR REPLACE FUNCTION admit_ai_request(
+  p_user_id UUID,
+  p_document_id UUID,
+  p_operation TEXT,
+  p_pages INTEGER,
+  p_documents_per_day INTEGER,
+  p_pages_per_month INTEGER,
+  p_spend_per_month NUMERIC
+)
+RETURNS TABLE (admitted BOOLEAN, documents_today BIGINT, pages_this_month BIGINT, spend_this_month NUMERIC)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_day_start TIMESTAMPTZ := date_trunc('day', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_month_start TIMESTAMPTZ := date_trunc('month', now() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+  v_documents BIGINT;
+  v_pages BIGINT;
+  v_spend NUMERIC;
+  v_admitted BOOLEAN;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtextextended(p_user_id::TEXT, 0));
+
+  SELECT
+    count(*) FILTER (WHERE a.created_at >= v_day_start),
+    COALESCE(sum(a.pages), 0)
+  INTO v_documents, v_pages
+  FROM ai_quota_admissions a
+  WHERE a.user_id = p_user_id
+    AND a.created_at >= v_month_start;
+
+  SELECT COALESCE(sum(u.cost_usd), 0)
+  INTO v_spend
+  FROM ai_usage u
+  WHERE u.user_id = p_user_id
+    AND u.created_at >= v_month_start;
+
+  v_admitted := (p_spend_per_month IS NULL OR v_spend < p_spend_per_month);
+  IF p_document_id IS NOT NULL THEN
+    v_admitted := v_admitted
+      AND (p_documents_per_day IS NULL OR v_documents + 1 <= p_documents_per_day)
+      AND (p_pages_per_month IS NULL OR v_pages + p_pages <= p_pages_per_month);
+
+    IF v_admitted THEN
+      INSERT INTO ai_quota_admissions (user_id, document_id, operation, pages)
+      VALUES (p_user_id, p_document_id, p_operation, p_pages);
+    END IF;
+  END IF;
+
+  RETURN QUERY SELECT v_admitted, v_documents, v_pages, v_spend;
+END;
+$$;
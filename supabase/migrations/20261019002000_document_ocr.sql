@@ -0,0 +1,114 @@
+-- OCR for scanned PDFs.
+--
+-- PDF pages without a text layer (or with too little of it) are read by a
+-- local OCR engine. documents.ocr_pages records those pages of the current
+-- version with the engine's mean word confidence:
+--   [{ "page": 1, "confidence": 87.5, "chars": 1520 }, ...]
+-- NULL or an empty array means all text came from the text layer.
+
+ALTER TABLE documents
+  ADD COLUMN IF NOT EXISTS ocr_pages JSONB;
+
+-- Linked duplicates share the file, so they share its OCR pages too.
+CREATE OR REPLACE FUNCTION link_duplicate_document(
+  p_source_id UUID,
+  p_user_id UUID,
+  p_name TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_document documents;
+BEGIN
+  INSERT INTO documents (
+    user_id, name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars, suggested_tags, metadata, ocr_pages,
+    processing_completed_at
+  )
+  SELECT
+    user_id, p_name, storage_path, content_hash, summary, markdown,
+    summary_source, markdown_source, status, ai_model,
+    processing_coverage, processed_chars, total_chars, suggested_tags, metadata, ocr_pages,
+    now()
+  FROM documents
+  WHERE id = p_source_id
+    AND user_id = p_user_id
+    AND status = 'READY'
+  RETURNING * INTO v_document;
+
+  IF v_document.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_chunks (
+    document_id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  )
+  SELECT
+    v_document.id, user_id, chunk_index, content, embedding, embedding_model,
+    start_offset, end_offset
+  FROM document_chunks
+  WHERE document_id = p_source_id;
+
+  RETURN NEXT v_document;
+END;
+$$;
+
+-- New versions start without OCR pages; the new file is read again when it
+-- is processed.
+CREATE OR REPLACE FUNCTION create_document_version(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_filename TEXT,
+  p_storage_path TEXT,
+  p_content_hash TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_next INTEGER;
+  v_document documents;
+BEGIN
+  SELECT current_version + 1 INTO v_next
+  FROM documents
+  WHERE id = p_document_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_next IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_versions (
+    document_id, version_number, filename, storage_path, content_hash, uploaded_by, status
+  )
+  VALUES (p_document_id, v_next, p_filename, p_storage_path, p_content_hash, p_user_id, 'UPLOADED');
+
+  UPDATE documents
+  SET storage_path = p_storage_path,
+      content_hash = p_content_hash,
+      current_version = v_next,
+      status = 'UPLOADED',
+      summary = NULL,
+      markdown = NULL,
+      summary_source = 'ai_generated',
+      markdown_source = 'ai_generated',
+      ai_model = NULL,
+      processing_coverage = NULL,
+      processed_chars = NULL,
+      total_chars = NULL,
+      failure_code = NULL,
+      failure_message = NULL,
+      failure_stage = NULL,
+      failed_at = NULL,
+      processing_completed_at = NULL,
+      metadata = NULL,
+      ocr_pages = NULL
+  WHERE id = p_document_id
+  RETURNING * INTO v_document;
+
+  RETURN NEXT v_document;
+END;
+$$;
@@ -0,0 +1,18 @@
+-- Results of converted map-reduce chunks, kept while a document is being
+-- processed.
+--
+-- A job that stops mid-document (its worker ran out of time, or was killed
+-- and the job reaped) resumes from these instead of converting, and paying
+-- for, every chunk again. A checkpoint is keyed by a hash of the model and
+-- the chunk's prompt, so it is only reused for exactly the same request.
+-- They are deleted once the document's results are saved.
+
+CREATE TABLE IF NOT EXISTS processing_checkpoints (
+  document_id UUID NOT NULL REFERENCES documents(id) ON DELETE CASCADE,
+  request_hash TEXT NOT NULL,
+  summary TEXT NOT NULL,
+  markdown TEXT NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (document_id, request_hash)
+);
@@ -0,0 +1,129 @@
+-- Filtered semantic search that fills its page.
+--
+-- match_documents ranked the nearest p_limit * 10 chunks and only then
+-- applied the status, group, tag and metadata filters, so a selective
+-- filter could return few or no rows even when matching documents exist
+-- further down the ranking. It now widens the candidate set until p_limit
+-- documents pass the filters or every chunk has been ranked.
+--
+-- The HNSW index returns at most hnsw.ef_search (max 1000) rows per scan,
+-- before the user and model conditions are applied, so ef_search is raised
+-- with the candidate count. Past that the index is bypassed and the user's
+-- chunks are ranked exactly.
+
+-- Whether a document passes match_documents' optional filters
+CREATE OR REPLACE FUNCTION document_matches_filters(
+  p_document documents,
+  p_status TEXT,
+  p_group_id UUID,
+  p_tag_id UUID,
+  p_metadata JSONB
+)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT (p_status IS NULL OR p_document.status::text = p_status)
+    AND (
+      p_group_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_groups dg
+        WHERE dg.document_id = p_document.id AND dg.group_id = p_group_id
+      )
+    )
+    AND (
+      p_tag_id IS NULL OR EXISTS (
+        SELECT 1 FROM document_tags dt
+        WHERE dt.document_id = p_document.id AND dt.tag_id = p_tag_id
+      )
+    )
+    AND document_metadata_matches(p_document.metadata, p_metadata);
+$$;
+
+CREATE OR REPLACE FUNCTION match_documents(
+  p_user_id UUID,
+  p_embedding vector(1536),
+  p_embedding_model TEXT,
+  p_status TEXT DEFAULT NULL,
+  p_group_id UUID DEFAULT NULL,
+  p_exclude_document_id UUID DEFAULT NULL,
+  p_limit INTEGER DEFAULT 20,
+  p_tag_id UUID DEFAULT NULL,
+  p_metadata JSONB DEFAULT NULL
+)
+RETURNS TABLE (document JSONB, similarity REAL, chunk_content TEXT)
+LANGUAGE plpgsql
+STABLE
+AS $$
+#variable_conflict use_column
+DECLARE
+  v_candidates INTEGER := GREATEST(p_limit, 1) * 10; -- NULL ranks every chunk
+  v_total INTEGER;
+  v_ranked INTEGER;
+  v_matched INTEGER;
+  v_index_scan TEXT := current_setting('enable_indexscan');
+BEGIN
+  SELECT count(*) INTO v_total
+  FROM document_chunks c
+  WHERE c.user_id = p_user_id
+    AND c.embedding_model = p_embedding_model
+    AND (p_exclude_document_id IS NULL OR c.document_id <> p_exclude_document_id);
+
+  LOOP
+    IF v_candidates > 1000 THEN
+      PERFORM set_config('enable_indexscan', 'off', true);
+      v_candidates := NULL;
+    ELSE
+      PERFORM set_config('hnsw.ef_search', v_candidates::TEXT, true);
+    END IF;
+
+    SELECT count(*), count(DISTINCT c.document_id) FILTER (
+      WHERE document_matches_filters(d, p_status, p_group_id, p_tag_id, p_metadata)
+    )
+    INTO v_ranked, v_matched
+    FROM (
+      SELECT c.document_id
+      FROM document_chunks c
+      WHERE c.user_id = p_user_id
+        AND c.embedding_model = p_embedding_model
+        AND (p_exclude_document_id IS NULL OR c.document_id <> p_exclude_document_id)
+      ORDER BY c.embedding <=> p_embedding
+      LIMIT v_candidates
+    ) c
+    JOIN documents d ON d.id = c.document_id;
+
+    -- Enough documents pass, or every chunk has been ranked
+    EXIT WHEN v_candidates IS NULL OR v_matched >= p_limit OR v_ranked >= v_total;
+    v_candidates := v_candidates * 4;
+  END LOOP;
+
+  RETURN QUERY
+  WITH candidates AS (
+    SELECT
+      c.document_id,
+      c.content,
+      (1 - (c.embedding <=> p_embedding))::REAL AS similarity
+    FROM document_chunks c
+    WHERE c.user_id = p_user_id
+      AND c.embedding_model = p_embedding_model
+      AND (p_exclude_document_id IS NULL OR c.document_id <> p_exclude_document_id)
+    ORDER BY c.embedding <=> p_embedding
+    LIMIT v_candidates
+  ), best AS (
+    SELECT DISTINCT ON (c.document_id) c.document_id, c.content, c.similarity
+    FROM candidates c
+    JOIN documents d ON d.id = c.document_id
+    WHERE document_matches_filters(d, p_status, p_group_id, p_tag_id, p_metadata)
+    ORDER BY c.document_id, c.similarity DESC
+  )
+  SELECT
+    to_jsonb(d) - 'search_vector' AS document,
+    b.similarity,
+    b.content AS chunk_content
+  FROM best b
+  JOIN documents d ON d.id = b.document_id
+  ORDER BY b.similarity DESC, d.created_at DESC
+  LIMIT p_limit;
+
+  PERFORM set_config('enable_indexscan', v_index_scan, true);
+END;
+$$;
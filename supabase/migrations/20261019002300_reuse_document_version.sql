@@ -0,0 +1,50 @@
+-- New versions with unchanged content.
+--
+-- Uploading the same bytes as a new version of a READY document records
+-- the version without processing the file again: it shares the current
+-- version's storage object and starts READY with its summary and markdown.
+-- Embeddings, metadata and OCR pages belong to the document and already
+-- describe this content, so they are kept as they are.
+CREATE OR REPLACE FUNCTION reuse_document_version(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_filename TEXT,
+  p_content_hash TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_current documents;
+  v_document documents;
+BEGIN
+  SELECT * INTO v_current
+  FROM documents
+  WHERE id = p_document_id
+    AND user_id = p_user_id
+    AND status = 'READY'
+    AND content_hash = p_content_hash
+  FOR UPDATE;
+
+  IF v_current.id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_versions (
+    document_id, version_number, filename, storage_path, content_hash, uploaded_by,
+    summary, markdown, summary_source, markdown_source, status, ai_model
+  )
+  VALUES (
+    v_current.id, v_current.current_version + 1, p_filename, v_current.storage_path,
+    v_current.content_hash, p_user_id, v_current.summary, v_current.markdown,
+    v_current.summary_source::TEXT, v_current.markdown_source::TEXT, 'READY', v_current.ai_model
+  );
+
+  UPDATE documents
+  SET current_version = v_current.current_version + 1
+  WHERE id = p_document_id
+  RETURNING * INTO v_document;
+
+  RETURN NEXT v_document;
+END;
+$$;
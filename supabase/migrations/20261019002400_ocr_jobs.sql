@@ -0,0 +1,38 @@
+-- Jobs that need OCR run only on workers that can run it.
+--
+-- The scheduled worker (a serverless function) has no pdftoppm or
+-- tesseract and is stopped after 300 seconds, which OCR of a long scan can
+-- exceed. When it reaches pages that need OCR it hands the job off: the
+-- job goes back to the queue with requires_ocr set, without counting an
+-- attempt, and only a worker that claims with p_ocr = true picks it up.
+
+ALTER TABLE processing_jobs
+  ADD COLUMN IF NOT EXISTS requires_ocr BOOLEAN NOT NULL DEFAULT false;
+
+DROP FUNCTION IF EXISTS claim_processing_job(TEXT);
+
+-- Atomically claim the next due job for a worker, skipping jobs that need
+-- OCR unless the worker can run it
+CREATE OR REPLACE FUNCTION claim_processing_job(p_worker_id TEXT, p_ocr BOOLEAN DEFAULT true)
+RETURNS SETOF processing_jobs
+LANGUAGE sql
+AS $$
+  UPDATE processing_jobs
+  SET status = 'running',
+      locked_by = p_worker_id,
+      locked_at = now(),
+      heartbeat_at = now(),
+      attempts = attempts + 1,
+      updated_at = now()
+  WHERE id = (
+    SELECT id
+    FROM processing_jobs
+    WHERE status = 'queued'
+      AND run_at <= now()
+      AND (p_ocr OR NOT requires_ocr)
+    ORDER BY run_at
+    FOR UPDATE SKIP LOCKED
+    LIMIT 1
+  )
+  RETURNING *;
+$$;
@@ -0,0 +1,69 @@
+-- New versions drop what was derived from the previous file.
+--
+-- create_document_version cleared the summary, markdown and metadata, but
+-- the previous file's embeddings (document_chunks), tag suggestions and
+-- template results stayed attached until the new version was processed.
+-- Until then semantic search, ask and similar documents matched the old
+-- content as if it were current. They are now removed with the rest; the
+-- earlier version's summary and markdown remain in document_versions.
+--
+-- Tags the user applied (document_tags) are the user's choice, not derived
+-- from the file, so they are kept.
+CREATE OR REPLACE FUNCTION create_document_version(
+  p_document_id UUID,
+  p_user_id UUID,
+  p_filename TEXT,
+  p_storage_path TEXT,
+  p_content_hash TEXT
+)
+RETURNS SETOF documents
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_next INTEGER;
+  v_document documents;
+BEGIN
+  SELECT current_version + 1 INTO v_next
+  FROM documents
+  WHERE id = p_document_id AND user_id = p_user_id
+  FOR UPDATE;
+
+  IF v_next IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO document_versions (
+    document_id, version_number, filename, storage_path, content_hash, uploaded_by, status
+  )
+  VALUES (p_document_id, v_next, p_filename, p_storage_path, p_content_hash, p_user_id, 'UPLOADED');
+
+  DELETE FROM document_chunks WHERE document_id = p_document_id;
+  DELETE FROM template_results WHERE document_id = p_document_id;
+
+  UPDATE documents
+  SET storage_path = p_storage_path,
+      content_hash = p_content_hash,
+      current_version = v_next,
+      status = 'UPLOADED',
+      summary = NULL,
+      markdown = NULL,
+      summary_source = 'ai_generated',
+      markdown_source = 'ai_generated',
+      ai_model = NULL,
+      processing_coverage = NULL,
+      processed_chars = NULL,
+      total_chars = NULL,
+      failure_code = NULL,
+      failure_message = NULL,
+      failure_stage = NULL,
+      failed_at = NULL,
+      processing_completed_at = NULL,
+      metadata = NULL,
+      suggested_tags = '{}',
+      ocr_pages = NULL
+  WHERE id = p_document_id
+  RETURNING * INTO v_document;
+
+  RETURN NEXT v_document;
+END;
+$$;